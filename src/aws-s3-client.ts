@@ -1,19 +1,39 @@
 import { S3 } from 'aws-sdk';
-import * as fs from 'fs';
 import * as mime from 'mime';
+import { Readable } from 'stream';
 import * as _ from 'underscore';
-import { IStorageClient, ERROR_CODE_NOT_FOUND } from './storage-client';
+import {
+    DEFAULT_SIGNED_URL_EXPIRY_IN_SECONDS, IStorageClient, ListOptions, MetadataUpdatingStorageClient, SignedUrlOptions,
+    SignedUrlPermission, StorageFileMetadata, StorageFileProperties, StorageListEntry, checkCopyTarget, toStorageFileMetadata
+} from './storage-client';
+import { ChecksumStream, ExpectedContent, computeChecksum, verifyContent, verifyStream } from './integrity';
+import { compareKeys } from './listing-utils';
+import {
+    DEFAULT_PART_SIZE_IN_BYTES, DEFAULT_TRANSFER_CONCURRENCY, MultipartUploader, RangeDownloader, ResumableStorageClient,
+    ResumableTransferOptions, TransferOptions, checkTransferOptions, downloadFileInParts, getCheckpointFilePath, uploadFileInParts
+} from './resumable-transfers';
+import { ChecksumMismatchError, isNotFoundError, toStorageError } from './storage-errors';
+import { writeStreamToFile } from './stream-utils';
 
 export const DEFAULT_S3_API_VERSION = '2006-03-01';
 export const DEFAULT_CONTENT_TYPE = 'application/octet-stream';
+export const MIN_AWS_S3_PART_SIZE_IN_BYTES = 5 * 1024 * 1024;
+export const MAX_AWS_S3_COPY_SIZE_IN_BYTES = 5 * 1024 * 1024 * 1024;
+const MAX_AWS_S3_PART_COUNT = 10000;
 const FILE_KEY = 'Key';
+const MD5_ETAG_PATTERN = /^[0-9a-f]{32}$/;
 
 /**
  * Simple AWS S3 client wrapper.
  */
-export class AwsS3Client implements IStorageClient {
+export class AwsS3Client implements IStorageClient<void, S3.Types.ListObjectsV2Output>, ResumableStorageClient,
+    MetadataUpdatingStorageClient {
     protected s3Client: S3 = null;
     protected defaultBucketName: string = "";
+    protected transferOptions: TransferOptions = {
+        partSizeInBytes: DEFAULT_PART_SIZE_IN_BYTES,
+        concurrency: DEFAULT_TRANSFER_CONCURRENCY
+    };
 
     /**
      * @return True, if this instance is initialized. False otherwise.
@@ -22,6 +42,13 @@ export class AwsS3Client implements IStorageClient {
         return (this.s3Client !== undefined);
     }
 
+    /**
+     * @return True, the content type and the user metadata are stored with the files.
+     */
+    public keepsUserMetadata(): boolean {
+        return true;
+    }
+
     /**
      * Initializes the client.
      * 
@@ -30,15 +57,20 @@ export class AwsS3Client implements IStorageClient {
      * @param region The region of the AWS S3.
      * @param defaultBucketName The name of the default bucket (optional).
      * @param s3ApiVersion The AWS S3 API version (optional). If not given, the default value is used.
+     * @param endpoint The URL of an S3 compatible endpoint (optional), e.g. a local emulator. If
+     * given, the bucket name is given in the path instead of the host name.
      */
-    public initialize(accessKeyId: string, secretAccessKey: string, region: string, defaultBucketName?: string, s3ApiVersion?: string) {
+    public initialize(accessKeyId: string, secretAccessKey: string, region: string, defaultBucketName?: string,
+        s3ApiVersion?: string, endpoint?: string) {
         s3ApiVersion = s3ApiVersion || DEFAULT_S3_API_VERSION;
 
         this.s3Client = new S3({
             region: region,
             apiVersion: s3ApiVersion,
             accessKeyId: accessKeyId,
-            secretAccessKey: secretAccessKey
+            secretAccessKey: secretAccessKey,
+            endpoint: endpoint || undefined,
+            s3ForcePathStyle: !!endpoint
         });
 
         this.defaultBucketName = defaultBucketName;
@@ -51,12 +83,36 @@ export class AwsS3Client implements IStorageClient {
         return this.defaultBucketName;
     }
 
+    /**
+     * @return The part size, the concurrency and the progress callback of the uploads.
+     */
+    public getTransferOptions(): TransferOptions {
+        return this.transferOptions;
+    }
+
+    /**
+     * Sets the part size and the concurrency of the multipart uploads and the progress callback of
+     * the file transfers. The options not given keep their current values.
+     *
+     * @param transferOptions The transfer options. The part size must be at least MIN_AWS_S3_PART_SIZE_IN_BYTES.
+     */
+    public setTransferOptions(transferOptions: TransferOptions) {
+        checkTransferOptions(transferOptions);
+
+        if (transferOptions.partSizeInBytes < MIN_AWS_S3_PART_SIZE_IN_BYTES) {
+            throw new Error('The part size must be at least ' + MIN_AWS_S3_PART_SIZE_IN_BYTES + ' bytes: ' + transferOptions.partSizeInBytes);
+        }
+
+        this.transferOptions = Object.assign({}, this.transferOptions, transferOptions);
+    }
+
     /**
      * Checks if a file with the given name exists in the given bucket.
      * 
      * @param fileKey The key of the file to check.
      * @param bucketName The bucket name.
-     * @return True, if the file exists. False otherwise.
+     * @return True, if the file exists. False otherwise. Rejected with a StorageError, if S3 does not
+     * tell (e.g. access denied or a network failure).
      */
     public fileExists(fileKey: string, bucketName?: string): Promise<boolean> {
         bucketName = bucketName || this.defaultBucketName;
@@ -68,11 +124,13 @@ export class AwsS3Client implements IStorageClient {
 
         const thisInstance: AwsS3Client = this;
 
-        return new Promise<boolean>(function(resolve) {
+        return new Promise<boolean>(function(resolve, reject) {
             thisInstance.s3Client.headObject(parameters, function (error, metadata) {
-                if (error && error.code === ERROR_CODE_NOT_FOUND) {
+                if (error && isNotFoundError(toStorageError(error))) {
                     resolve(false);
-                } else {  
+                } else if (error) {
+                    reject(toStorageError(error, fileKey));
+                } else {
                     resolve(true);
                 }
             });
@@ -80,25 +138,82 @@ export class AwsS3Client implements IStorageClient {
     }
 
     /**
-     * Lists the files with the given prefix in the given bucket.
-     * Note that this is can be an expensive method to call!
+     * Retrieves the properties of the file with the given key.
      * 
-     * @param storageFileNamePrefix The prefix of storage file names to list.
+     * @param fileKey The key of the file.
      * @param bucketName The bucket name.
-     * @return A list of files found.
+     * @return The properties of the file.
      */
-    public async listFilesWithPrefix(storageFileNamePrefix: string, bucketName?: string): Promise<S3.Types.ListObjectsV2Output> {
+    public async getFileProperties(fileKey: string, bucketName?: string): Promise<StorageFileProperties> {
         bucketName = bucketName || this.defaultBucketName;
 
-        const parameters: S3.Types.ListObjectsV2Request = {
+        const parameters = {
             Bucket: bucketName,
+            Key: fileKey
         };
 
-        if (storageFileNamePrefix) {
-            parameters.Prefix = storageFileNamePrefix;
+        const result: S3.Types.HeadObjectOutput = await this.s3Client.headObject(parameters).promise().catch((error) => {
+            throw toStorageError(error, fileKey);
+        });
+        return {
+            size: result.ContentLength,
+            lastModified: result.LastModified,
+            etag: (result.ETag || '').replace(/"/g, ''),
+            contentMD5: getContentMD5(result.ETag),
+            contentType: result.ContentType,
+            cacheControl: result.CacheControl,
+            contentDisposition: result.ContentDisposition,
+            userMetadata: toStorageFileMetadata({ userMetadata: result.Metadata }).userMetadata
+        };
+    }
+
+    /**
+     * Lists the files with the given prefix in the given bucket. All the pages are retrieved and
+     * the contents combined into a single result.
+     * Note that this is can be an expensive method to call!
+     * 
+     * @param storageFileNamePrefix The prefix of storage file names to list.
+     * @param bucketName The bucket name.
+     * @return A list of files found.
+     */
+    public async listFilesWithPrefix(storageFileNamePrefix: string, bucketName?: string): Promise<S3.Types.ListObjectsV2Output> {
+        let contents: S3.Types.ObjectList = [];
+        let result: S3.Types.ListObjectsV2Output = null;
+
+        for await (const page of this.listObjectPages(storageFileNamePrefix, bucketName, {})) {
+            contents = contents.concat(page.Contents || []);
+            result = page;
         }
 
-        return this.s3Client.listObjectsV2(parameters).promise();
+        result.Contents = contents;
+        result.KeyCount = contents.length;
+        return result;
+    }
+
+    /**
+     * Lists the files with the given prefix in the given bucket following the continuation tokens.
+     * 
+     * @param storageFileNamePrefix The prefix of storage file names to list.
+     * @param bucketName The bucket name.
+     * @param options The delimiter and the page size (optional).
+     * @return The files and the common prefixes (if the delimiter is given) sorted by the key.
+     */
+    public async *listFiles(storageFileNamePrefix?: string, bucketName?: string,
+        options?: ListOptions): AsyncIterableIterator<StorageListEntry> {
+        for await (const page of this.listObjectPages(storageFileNamePrefix, bucketName, options || {})) {
+            let entries: StorageListEntry[] = (page.Contents || []).map((object): StorageListEntry => ({
+                name: object.Key,
+                isPrefix: false,
+                size: object.Size,
+                lastModified: object.LastModified
+            })).concat((page.CommonPrefixes || []).map((commonPrefix) => ({
+                name: commonPrefix.Prefix,
+                isPrefix: true
+            })));
+
+            entries.sort((a, b) => compareKeys(a.name, b.name));
+            yield* entries;
+        }
     }
 
     /**
@@ -115,32 +230,74 @@ export class AwsS3Client implements IStorageClient {
     }
 
     /**
-     * Downloads a file with the given key from the given bucket.
+     * Downloads a file with the given key from the given bucket to memory.
+     * 
+     * @param fileKey The key of the file to download.
+     * @param bucketName The name of the bucket containing the file.
+     * @return The content of the file.
+     */
+    public downloadFile(fileKey: string, bucketName?: string): Promise<Buffer> {
+        return this.downloadFileAsBuffer(fileKey, bucketName);
+    }
+
+    /**
+     * Downloads a file with the given key to the disk in the specified location. The content is
+     * checked against the length and the ETag (if an MD5 hash) of the response.
      * 
      * @param fileKey The key of the file to download.
+     * @param localFilePath The desired local path to store the file in.
      * @param bucketName The name of the bucket containing the file.
-     * @return The file as an object.
+     * @return Resolved when the file is written. Rejected with a ChecksumMismatchError, if the
+     * content is incomplete or corrupt. The file is removed, if the download fails.
      */
-    public async downloadFile(fileKey: string, bucketName?: string): Promise<S3.Types.GetObjectOutput> {
+    public async downloadFileToDisk(fileKey: string, localFilePath: string, bucketName?: string): Promise<void> {
+        await writeStreamToFile(this.createVerifiedReadStream(fileKey, bucketName || this.defaultBucketName), localFilePath)
+            .catch((error) => {
+                throw toStorageError(error, fileKey);
+            });
+    }
+
+    /**
+     * Downloads a file with the given key to the disk in ranges downloaded in parallel. The ranges
+     * downloaded are recorded in a checkpoint file, so that an interrupted download continues
+     * where it stopped, unless the file has changed in S3.
+     * 
+     * @param fileKey The key of the file to download.
+     * @param localFilePath The desired local path to store the file in.
+     * @param bucketName The name of the bucket containing the file.
+     * @param options The checkpoint file and the transfer options overriding the ones of this client (optional).
+     * @return Resolved when the file is written.
+     */
+    public downloadFileToDiskResumable(fileKey: string, localFilePath: string, bucketName?: string,
+        options?: ResumableTransferOptions): Promise<void> {
         bucketName = bucketName || this.defaultBucketName;
 
-        const parameters = {
-            Bucket: bucketName,
-            Key: fileKey,
-        };
+        return downloadFileInParts(fileKey, localFilePath, this.createRangeDownloader(fileKey, bucketName),
+            Object.assign({}, this.transferOptions, options, { checkpointFilePath: getCheckpointFilePath(localFilePath, options) }));
+    }
 
-        return this.s3Client.getObject(parameters).promise();
+    /**
+     * Downloads a file with the given key as a stream. Note that the errors, e.g. if the file
+     * does not exist, are emitted by the stream. The stream emits a ChecksumMismatchError at the
+     * end, if the content does not match the length and the ETag (if an MD5 hash) of the response.
+     * 
+     * @param fileKey The key of the file to download.
+     * @param bucketName The name of the bucket containing the file.
+     * @return A stream providing the content of the file.
+     */
+    public async downloadFileAsStream(fileKey: string, bucketName?: string): Promise<Readable> {
+        return this.createVerifiedReadStream(fileKey, bucketName || this.defaultBucketName);
     }
 
     /**
-     * Downloads a file with the given key to the disk in the specified location.
+     * Downloads a file with the given key to memory.
      * 
      * @param fileKey The key of the file to download.
-     * @param localFilePath The desired local path to store the file in.
      * @param bucketName The name of the bucket containing the file.
-     * @return Null, if successful. An error otherwise.
+     * @return The content of the file. Rejected with a ChecksumMismatchError, if the content does
+     * not match the length and the ETag (if an MD5 hash) of the response.
      */
-    public downloadFileToDisk(fileKey: string, localFilePath: string, bucketName?: string): Promise<any> {
+    public async downloadFileAsBuffer(fileKey: string, bucketName?: string): Promise<Buffer> {
         bucketName = bucketName || this.defaultBucketName;
 
         const parameters = {
@@ -148,56 +305,204 @@ export class AwsS3Client implements IStorageClient {
             Key: fileKey,
         };
 
-        return new Promise((resolve, reject) => {
-            const writeStream = fs.createWriteStream(localFilePath);
+        const result: S3.Types.GetObjectOutput = await this.s3Client.getObject(parameters).promise().catch((error) => {
+            throw toStorageError(error, fileKey);
+        });
 
-            writeStream.on('finish', () => {
-                resolve();
-            });
+        return verifyContent(result.Body as Buffer, fileKey, { size: result.ContentLength, contentMD5: getContentMD5(result.ETag) });
+    }
 
-            this.s3Client.getObject(parameters).createReadStream().on('error', (error) => {
-                fs.unlink(localFilePath);
-                return reject(error);
-            }).pipe(writeStream);
-        });
+    /**
+     * Uploads the given file to the specified bucket. A file larger than the part size is uploaded
+     * in parts uploaded in parallel.
+     * 
+     * @param localFilePath The local path of the file to upload.
+     * @param fileKey The destination path/name in S3.
+     * @param bucketName The name of the bucket where the file is uploaded.
+     * @param contentTypeOrMetadata The content type or the metadata of the file. If the content type is
+     * not specified, it is deduced from the local file path.
+     * @return Resolved when the file is uploaded.
+     */
+    public uploadFile(localFilePath: string, fileKey: string, bucketName?: string,
+        contentTypeOrMetadata?: string | StorageFileMetadata): Promise<void> {
+        bucketName = bucketName || this.defaultBucketName;
+
+        return uploadFileInParts(localFilePath, fileKey, this.createMultipartUploader(fileKey, bucketName,
+            this.completeMetadata(toStorageFileMetadata(contentTypeOrMetadata), localFilePath)), this.transferOptions);
     }
 
     /**
-     * Uploads the given file to the specified bucket.
+     * Uploads the given file to the specified bucket in parts uploaded in parallel. The parts
+     * uploaded are recorded in a checkpoint file, so that an interrupted upload continues where it
+     * stopped, unless the local file has changed.
      * 
      * @param localFilePath The local path of the file to upload.
      * @param fileKey The destination path/name in S3.
      * @param bucketName The name of the bucket where the file is uploaded.
-     * @param contentType The content type of the file. If not specified, the default value is used.
-     * @return The result as S3.ManagedUpload.SendData or an error message in case of an error.
+     * @param contentTypeOrMetadata The content type or the metadata of the file. If the content type is
+     * not specified, it is deduced from the local file path.
+     * @param options The checkpoint file and the transfer options overriding the ones of this client (optional).
+     * @return Resolved when the file is uploaded.
+     */
+    public uploadFileResumable(localFilePath: string, fileKey: string, bucketName?: string,
+        contentTypeOrMetadata?: string | StorageFileMetadata, options?: ResumableTransferOptions): Promise<void> {
+        bucketName = bucketName || this.defaultBucketName;
+
+        return uploadFileInParts(localFilePath, fileKey, this.createMultipartUploader(fileKey, bucketName,
+            this.completeMetadata(toStorageFileMetadata(contentTypeOrMetadata), localFilePath)),
+            Object.assign({}, this.transferOptions, options, { checkpointFilePath: getCheckpointFilePath(localFilePath, options) }));
+    }
+
+    /**
+     * Uploads the content of the given stream to the specified bucket.
+     * 
+     * @param readStream The stream to read the content of the file from.
+     * @param fileKey The destination path/name in S3.
+     * @param bucketName The name of the bucket where the file is uploaded.
+     * @param contentTypeOrMetadata The content type or the metadata of the file. If the content type is
+     * not specified, it is deduced from the key.
+     * @return Resolved when the file is uploaded.
+     */
+    public uploadStream(readStream: Readable, fileKey: string, bucketName?: string,
+        contentTypeOrMetadata?: string | StorageFileMetadata): Promise<void> {
+        return this.upload(readStream, fileKey, bucketName || this.defaultBucketName,
+            this.completeMetadata(toStorageFileMetadata(contentTypeOrMetadata), fileKey));
+    }
+
+    /**
+     * Uploads the given data to the specified bucket.
+     * 
+     * @param buffer The content of the file.
+     * @param fileKey The destination path/name in S3.
+     * @param bucketName The name of the bucket where the file is uploaded.
+     * @param contentTypeOrMetadata The content type or the metadata of the file. If the content type is
+     * not specified, it is deduced from the key.
+     * @return Resolved when the file is uploaded.
+     */
+    public uploadBuffer(buffer: Buffer, fileKey: string, bucketName?: string,
+        contentTypeOrMetadata?: string | StorageFileMetadata): Promise<void> {
+        return this.upload(buffer, fileKey, bucketName || this.defaultBucketName,
+            this.completeMetadata(toStorageFileMetadata(contentTypeOrMetadata), fileKey));
+    }
+
+    /**
+     * Replaces the user metadata of the given file by copying the file onto itself, so that the
+     * content is not uploaded again. The content type and the other metadata are carried over.
+     * Note that S3 copies files of at most 5 GB in a single request.
+     * 
+     * @param fileKey The key of the file.
+     * @param userMetadata The new user metadata.
+     * @param bucketName The name of the bucket.
+     * @param etag If given, the metadata is replaced only if the file still has this ETag (optional).
+     * @return Resolved when the metadata is replaced. Rejected with a ConflictError, if the ETag
+     * does not match.
+     */
+    public async setUserMetadata(fileKey: string, userMetadata: { [key: string]: string }, bucketName?: string,
+        etag?: string): Promise<void> {
+        bucketName = bucketName || this.defaultBucketName;
+        const fileProperties: StorageFileProperties = await this.getFileProperties(fileKey, bucketName);
+        const metadata: StorageFileMetadata = Object.assign(toStorageFileMetadata(fileProperties), { userMetadata: userMetadata });
+
+        // The condition also keeps a file replaced after reading the properties from getting them
+        const parameters: S3.Types.CopyObjectRequest = Object.assign(this.createUploadParameters(fileKey, bucketName, metadata), {
+            CopySource: bucketName + '/' + encodeURIComponent(fileKey),
+            CopySourceIfMatch: '"' + (etag || fileProperties.etag) + '"',
+            MetadataDirective: 'REPLACE'
+        });
+
+        await this.s3Client.copyObject(parameters).promise().catch((error) => {
+            throw toStorageError(error, fileKey);
+        });
+    }
+
+    /**
+     * Copies the given file with copyObject, so that the content is copied within S3. The content
+     * type and the other metadata are carried over. A file larger than MAX_AWS_S3_COPY_SIZE_IN_BYTES,
+     * which S3 does not copy in a single request, is streamed through this client instead.
+     * 
+     * @param sourceFileKey The key of the file to copy.
+     * @param targetFileKey The key of the copy.
+     * @param bucketName The name of the bucket containing the file.
+     * @param targetBucketName The name of the bucket of the copy (optional). The same bucket, if not given.
+     * @return Resolved when the file is copied.
      */
-    public uploadFile(localFilePath: string, fileKey: string, bucketName?: string, contentType?: string): Promise<any> {
+    public async copyFile(sourceFileKey: string, targetFileKey: string, bucketName?: string, targetBucketName?: string): Promise<void> {
         bucketName = bucketName || this.defaultBucketName;
-        const readStream = fs.createReadStream(localFilePath);
+        targetBucketName = targetBucketName || bucketName;
+        checkCopyTarget(sourceFileKey, targetFileKey, bucketName, targetBucketName);
+        const fileProperties: StorageFileProperties = await this.getFileProperties(sourceFileKey, bucketName);
 
-        if (contentType === undefined) {
-            contentType = mime.lookup(localFilePath, DEFAULT_CONTENT_TYPE);
+        if (fileProperties.size > MAX_AWS_S3_COPY_SIZE_IN_BYTES) {
+            return this.upload(this.createVerifiedReadStream(sourceFileKey, bucketName), targetFileKey, targetBucketName,
+                toStorageFileMetadata(fileProperties));
         }
 
-        const parameters = {
+        // The condition keeps a file replaced after reading the properties from being copied instead
+        const parameters: S3.Types.CopyObjectRequest = {
+            Bucket: targetBucketName,
+            Key: targetFileKey,
+            CopySource: bucketName + '/' + encodeURIComponent(sourceFileKey),
+            CopySourceIfMatch: '"' + fileProperties.etag + '"',
+            MetadataDirective: 'COPY'
+        };
+
+        await this.s3Client.copyObject(parameters).promise().catch((error) => {
+            throw toStorageError(error, sourceFileKey);
+        });
+    }
+
+    /**
+     * Moves the given file by copying it with copyFile() and deleting the source file.
+     * 
+     * @param sourceFileKey The key of the file to move.
+     * @param targetFileKey The new key of the file.
+     * @param bucketName The name of the bucket containing the file.
+     * @param targetBucketName The name of the bucket to move the file to (optional). The same bucket, if not given.
+     * @return Resolved when the file is moved.
+     */
+    public async moveFile(sourceFileKey: string, targetFileKey: string, bucketName?: string, targetBucketName?: string): Promise<void> {
+        await this.copyFile(sourceFileKey, targetFileKey, bucketName, targetBucketName);
+        await this.deleteFile(sourceFileKey, bucketName);
+    }
+
+    /**
+     * Creates a presigned URL the given file can be downloaded from with a GET request or
+     * uploaded to with a PUT request. The URL is signed locally.
+     * 
+     * @param fileKey The key of the file.
+     * @param bucketName The name of the bucket containing the file.
+     * @param options The expiry, the permissions and the content type of an upload (optional).
+     * @return The URL.
+     */
+    public getSignedUrl(fileKey: string, bucketName?: string, options?: SignedUrlOptions): Promise<string> {
+        bucketName = bucketName || this.defaultBucketName;
+        options = Object.assign({
+            expiry: DEFAULT_SIGNED_URL_EXPIRY_IN_SECONDS,
+            permissions: SignedUrlPermission.Read
+        }, options || {});
+
+        const operation: string = (options.permissions === SignedUrlPermission.Write ? 'putObject' : 'getObject');
+        let parameters: { Bucket: string, Key: string, Expires: number, ContentType?: string } = {
             Bucket: bucketName,
             Key: fileKey,
-            Body: readStream,
-            ContentType: contentType
+            Expires: options.expiry
         };
 
+        if (options.permissions === SignedUrlPermission.Write && options.contentType) {
+            parameters.ContentType = options.contentType;
+        }
+
         let thisInstance: AwsS3Client = this;
 
-        return new Promise(function(resolve, reject) {
-            thisInstance.s3Client.upload(parameters, null, function(error, sendData) {
+        return new Promise<string>(function(resolve, reject) {
+            thisInstance.s3Client.getSignedUrl(operation, parameters, function(error, url) {
                 if (error) {
-                    reject(error);
+                    reject(toStorageError(error, fileKey));
                 } else {
-                    resolve(sendData);
+                    resolve(url);
                 }
             });
         });
-
     }
 
     /**
@@ -205,9 +510,9 @@ export class AwsS3Client implements IStorageClient {
      * 
      * @param fileKeys The keys matching the files to delete.
      * @param bucketName The name of the bucket where the files to delete are located.
-     * @return S3.DeleteObjectsOutput when successful. An error message otherwise. 
+     * @return Resolved when the files are deleted.
      */
-    public deleteFiles(fileKeys: string[], bucketName?: string): Promise<any> {
+    public async deleteFiles(fileKeys: string[], bucketName?: string): Promise<void> {
         bucketName = bucketName || this.defaultBucketName;
         const keysAsObjects = _.map(fileKeys, (key) => ({ Key: key }) );
 
@@ -218,7 +523,16 @@ export class AwsS3Client implements IStorageClient {
             }
         };
 
-        return this.s3Client.deleteObjects(parameters).promise();
+        const result: S3.Types.DeleteObjectsOutput = await this.s3Client.deleteObjects(parameters).promise().catch((error) => {
+            throw toStorageError(error);
+        });
+
+        // Like the other storages, ignore the files that do not exist
+        const errors: S3.Types.Errors = (result.Errors || []).filter((error) => error.Code !== 'NoSuchKey');
+
+        if (errors.length > 0) {
+            throw toStorageError({ code: errors[0].Code, message: errors[0].Message }, errors[0].Key);
+        }
     }
 
     /**
@@ -226,24 +540,251 @@ export class AwsS3Client implements IStorageClient {
      * 
      * @param fileKey The key matching the file to delete.
      * @param bucketName The name of the bucket where the file to delete is located.
-     * @return Information related to the operation when successful. An error message otherwise.
+     * @return Resolved when the file is deleted.
      */
-    public deleteFile(fileKey: string, bucketName?: string): Promise<any> {
+    public deleteFile(fileKey: string, bucketName?: string): Promise<void> {
         bucketName = bucketName || this.defaultBucketName;
 
         const parameters = {
             Bucket: bucketName,
-            Delete: fileKey
+            Key: fileKey
+        };
+
+        let thisInstance: AwsS3Client = this;
+
+        return new Promise<void>(function(resolve, reject) {
+            thisInstance.s3Client.deleteObject(parameters, function(error, data) {
+                if (error) {
+                    reject(toStorageError(error, fileKey));
+                } else {
+                    resolve();
+                }
+            });
+        });
+    }
+
+    /**
+     * Uploads the given content to the specified bucket. A buffer uploaded in a single request is
+     * sent with its MD5 hash, so that S3 rejects corrupted content. The MD5 hash of a stream is
+     * compared with the ETag afterwards, unless uploaded in parts.
+     * 
+     * @param body The content as a stream or a buffer.
+     * @param fileKey The destination path/name in S3.
+     * @param bucketName The name of the bucket where the file is uploaded.
+     * @param metadata The metadata of the file.
+     * @return Resolved when the file is uploaded. Rejected with a ChecksumMismatchError, if the
+     * content stored does not match.
+     */
+    protected upload(body: Readable | Buffer, fileKey: string, bucketName: string, metadata: StorageFileMetadata): Promise<void> {
+        const checksumStream: ChecksumStream = (Buffer.isBuffer(body) ? null : verifyStream(body, fileKey, () => ({})));
+        const parameters: S3.Types.PutObjectRequest = Object.assign({ Body: checksumStream || body },
+            this.createUploadParameters(fileKey, bucketName, metadata));
+        const options: S3.ManagedUpload.ManagedUploadOptions = {
+            partSize: this.transferOptions.partSizeInBytes,
+            queueSize: this.transferOptions.concurrency
+        };
+
+        if (Buffer.isBuffer(body) && body.length <= options.partSize) {
+            parameters.ContentMD5 = computeChecksum(body);
         }
 
-        return new Promise(function(resolve, reject) {
-            this.s3Client.deleteObject(parameters, function(error, data) {
+        let thisInstance: AwsS3Client = this;
+
+        return new Promise<void>(function(resolve, reject) {
+            thisInstance.s3Client.upload(parameters, options, function(error, sendData) {
+                const contentMD5: string = (error ? undefined : getContentMD5(sendData.ETag));
+
                 if (error) {
-                    reject(error);
+                    reject(toStorageError(error, fileKey));
+                } else if (checksumStream && contentMD5 && contentMD5 !== checksumStream.checksum) {
+                    reject(new ChecksumMismatchError('The ETag ' + sendData.ETag + ' does not match the MD5 hash '
+                        + checksumStream.checksum + ' of the content uploaded: ' + fileKey, fileKey));
                 } else {
-                    resolve(data);
+                    resolve();
                 }
             });
         });
     }
+
+    /**
+     * @param fileKey The destination path/name in S3.
+     * @param bucketName The name of the bucket where the file is uploaded.
+     * @param metadata The metadata of the file.
+     * @return The parameters of an upload without the content.
+     */
+    protected createUploadParameters(fileKey: string, bucketName: string, metadata: StorageFileMetadata): S3.Types.CreateMultipartUploadRequest {
+        const parameters: S3.Types.CreateMultipartUploadRequest = {
+            Bucket: bucketName,
+            Key: fileKey,
+            ContentType: metadata.contentType
+        };
+
+        if (metadata.cacheControl) {
+            parameters.CacheControl = metadata.cacheControl;
+        }
+
+        if (metadata.contentDisposition) {
+            parameters.ContentDisposition = metadata.contentDisposition;
+        }
+
+        if (metadata.userMetadata) {
+            parameters.Metadata = metadata.userMetadata;
+        }
+
+        return parameters;
+    }
+
+    /**
+     * @param fileKey The destination path/name in S3.
+     * @param bucketName The name of the bucket where the file is uploaded.
+     * @param metadata The metadata of the file.
+     * @return The multipart upload of the file using the S3 multipart upload API.
+     */
+    protected createMultipartUploader(fileKey: string, bucketName: string, metadata: StorageFileMetadata): MultipartUploader {
+        const s3Client: S3 = this.s3Client;
+        const parameters = { Bucket: bucketName, Key: fileKey };
+
+        return {
+            maxPartCount: MAX_AWS_S3_PART_COUNT,
+            uploadSinglePart: (content) => this.upload(content, fileKey, bucketName, metadata),
+            createUpload: async () => {
+                const result: S3.Types.CreateMultipartUploadOutput = await s3Client.createMultipartUpload(
+                    this.createUploadParameters(fileKey, bucketName, metadata)).promise().catch((error) => {
+                        throw toStorageError(error, fileKey);
+                    });
+
+                return result.UploadId;
+            },
+            uploadPart: async (uploadId, partNumber, content) => {
+                const result: S3.Types.UploadPartOutput = await s3Client.uploadPart(Object.assign({
+                    UploadId: uploadId,
+                    PartNumber: partNumber,
+                    Body: content,
+                    ContentMD5: computeChecksum(content)
+                }, parameters)).promise().catch((error) => {
+                    throw toStorageError(error, fileKey);
+                });
+
+                return result.ETag;
+            },
+            completeUpload: async (uploadId, parts) => {
+                await s3Client.completeMultipartUpload(Object.assign({
+                    UploadId: uploadId,
+                    MultipartUpload: {
+                        Parts: parts.map((part) => ({ PartNumber: part.partNumber, ETag: part.tag }))
+                    }
+                }, parameters)).promise().catch((error) => {
+                    throw toStorageError(error, fileKey);
+                });
+            },
+            abortUpload: async (uploadId) => {
+                await s3Client.abortMultipartUpload(Object.assign({ UploadId: uploadId }, parameters)).promise().catch((error) => {
+                    throw toStorageError(error, fileKey);
+                });
+            }
+        };
+    }
+
+    /**
+     * @param fileKey The key of the file to download.
+     * @param bucketName The name of the bucket containing the file.
+     * @return The ranged download of the file using the Range and If-Match headers.
+     */
+    protected createRangeDownloader(fileKey: string, bucketName: string): RangeDownloader {
+        return {
+            getFileProperties: () => this.getFileProperties(fileKey, bucketName),
+            downloadRange: async (start, end, etag) => {
+                const result: S3.Types.GetObjectOutput = await this.s3Client.getObject({
+                    Bucket: bucketName,
+                    Key: fileKey,
+                    Range: 'bytes=' + start + '-' + end,
+                    IfMatch: '"' + etag + '"'
+                }).promise().catch((error) => {
+                    throw toStorageError(error, fileKey);
+                });
+
+                return result.Body as Buffer;
+            }
+        };
+    }
+
+    /**
+     * @param fileKey The key of the file to download.
+     * @param bucketName The name of the bucket containing the file.
+     * @return A stream providing the content of the file, failed with a ChecksumMismatchError at
+     * the end, if the content does not match the Content-Length and the ETag (if an MD5 hash) of the response.
+     */
+    protected createVerifiedReadStream(fileKey: string, bucketName: string): Readable {
+        const request = this.s3Client.getObject({ Bucket: bucketName, Key: fileKey });
+        let expectedContent: ExpectedContent = {};
+
+        request.on('httpHeaders', (statusCode, headers) => {
+            expectedContent = {
+                size: (headers['content-length'] !== undefined ? Number(headers['content-length']) : undefined),
+                contentMD5: getContentMD5(headers['etag'])
+            };
+        });
+
+        return verifyStream(request.createReadStream(), fileKey, () => expectedContent);
+    }
+
+    /**
+     * Retrieves the pages of the listing of the given bucket.
+     * 
+     * @param storageFileNamePrefix The prefix of storage file names to list.
+     * @param bucketName The bucket name.
+     * @param options The delimiter and the page size.
+     * @return The pages.
+     */
+    protected async *listObjectPages(storageFileNamePrefix: string, bucketName: string,
+        options: ListOptions): AsyncIterableIterator<S3.Types.ListObjectsV2Output> {
+        const parameters: S3.Types.ListObjectsV2Request = {
+            Bucket: bucketName || this.defaultBucketName
+        };
+
+        if (storageFileNamePrefix) {
+            parameters.Prefix = storageFileNamePrefix;
+        }
+
+        if (options.delimiter) {
+            parameters.Delimiter = options.delimiter;
+        }
+
+        if (options.pageSize) {
+            parameters.MaxKeys = options.pageSize;
+        }
+
+        do {
+            const page: S3.Types.ListObjectsV2Output = await this.s3Client.listObjectsV2(parameters).promise().catch((error) => {
+                throw toStorageError(error);
+            });
+            yield page;
+            parameters.ContinuationToken = page.NextContinuationToken;
+        } while (parameters.ContinuationToken);
+    }
+
+    /**
+     * Sets the content type of the given metadata, if not set.
+     *
+     * @param metadata The metadata of the file.
+     * @param filePath The path used to deduce the content type.
+     * @return The given metadata.
+     */
+    protected completeMetadata(metadata: StorageFileMetadata, filePath: string): StorageFileMetadata {
+        if (!metadata.contentType) {
+            metadata.contentType = mime.lookup(filePath, DEFAULT_CONTENT_TYPE);
+        }
+
+        return metadata;
+    }
+}
+
+/**
+ * @param etag The ETag of an S3 object (optional).
+ * @return The base64 encoded MD5 hash of the content, if the ETag is one. The ETag of a file
+ * uploaded in parts is not.
+ */
+function getContentMD5(etag: string): string {
+    etag = (etag || '').replace(/"/g, '');
+    return (MD5_ETAG_PATTERN.test(etag) ? Buffer.from(etag, 'hex').toString('base64') : undefined);
 }
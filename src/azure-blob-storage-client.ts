@@ -1,15 +1,52 @@
 import * as azure from 'azure-storage';
+import * as crypto from 'crypto';
+import * as mime from 'mime';
+import { Readable } from 'stream';
 import * as _ from 'underscore';
-import { IStorageClient } from './storage-client';
+import {
+    DEFAULT_SIGNED_URL_EXPIRY_IN_SECONDS, IStorageClient, ListOptions, MetadataUpdatingStorageClient, SignedUrlOptions,
+    SignedUrlPermission, StorageFileMetadata, StorageFileProperties, StorageListEntry, UrlCopyingStorageClient, checkCopyTarget,
+    toStorageFileMetadata
+} from './storage-client';
+import { mergeListings } from './listing-utils';
+import {
+    DEFAULT_PART_SIZE_IN_BYTES, DEFAULT_TRANSFER_CONCURRENCY, MultipartUploader, RangeDownloader, ResumableStorageClient,
+    ResumableTransferOptions, TransferOptions, checkTransferOptions, downloadFileInParts, getCheckpointFilePath, uploadFileInParts
+} from './resumable-transfers';
+import { StorageError, StorageErrorCode, TransientError, isNotFoundError, toStorageError } from './storage-errors';
+import { readStreamToBuffer } from './stream-utils';
 
 const BLOB_NAME_KEY = 'name';
+const DEFAULT_CONTENT_TYPE = 'application/octet-stream';
+const DIRECTORY_DELIMITER = '/';
+export const MAX_AZURE_BLOCK_SIZE_IN_BYTES = 100 * 1024 * 1024;
+const MAX_AZURE_BLOCK_COUNT = 50000;
+const BLOCK_NUMBER_LENGTH = 5;
+const COPY_STATUS_PENDING = 'pending';
+const COPY_STATUS_SUCCESS = 'success';
+const COPY_STATUS_POLL_INTERVAL_IN_MS = 1000;
+export const DEFAULT_MAX_COPY_WAIT_IN_MS = 10 * 60 * 1000;
+
+/**
+ * The Blob service with the listing of the virtual directories, missing from the typings of azure-storage.
+ */
+interface DirectoryListingBlobService extends azure.BlobService {
+    listBlobDirectoriesSegmentedWithPrefix(container: string, prefix: string, currentToken: azure.common.ContinuationToken,
+        options: azure.BlobService.ListBlobsSegmentedRequestOptions, callback: azure.ErrorOrResult<azure.BlobService.ListBlobsResult>): void;
+}
 
 /**
  * A simple Azure Blob Service wrapper.
  */
-export class AzureBlobStorageClient implements IStorageClient {
+export class AzureBlobStorageClient implements IStorageClient<void, azure.BlobService.ListBlobsResult>, ResumableStorageClient,
+    MetadataUpdatingStorageClient, UrlCopyingStorageClient {
     protected azureBlobService: azure.BlobService = null;
     protected defaultContainerName: string = "";
+    protected transferOptions: TransferOptions = {
+        partSizeInBytes: DEFAULT_PART_SIZE_IN_BYTES,
+        concurrency: DEFAULT_TRANSFER_CONCURRENCY
+    };
+    protected maxCopyWaitInMs: number = DEFAULT_MAX_COPY_WAIT_IN_MS;
 
     /**
      * @return True, if this instance is initialized. False otherwise.
@@ -18,15 +55,24 @@ export class AzureBlobStorageClient implements IStorageClient {
         return (this.azureBlobService !== undefined);
     }
 
+    /**
+     * @return True, the content type and the user metadata are stored with the files.
+     */
+    public keepsUserMetadata(): boolean {
+        return true;
+    }
+
     /**
      * Initializes the client.
      * 
      * @param blobStorageAccountName The account name of the Azure Blob Storage.
      * @param blobStorageAccessKey The Azure Blob Storage acccess key.
      * @param defaultContainerName The name of the default container (optional).
+     * @param host The URL of the Blob service endpoint (optional), e.g. a local emulator. If not
+     * given, the endpoint of the account is used.
      */
-    public initialize(blobStorageAccountName: string, blobStorageAccessKey: string, defaultContainerName?: string) {
-        this.azureBlobService = new azure.BlobService(blobStorageAccountName, blobStorageAccessKey);
+    public initialize(blobStorageAccountName: string, blobStorageAccessKey: string, defaultContainerName?: string, host?: string) {
+        this.azureBlobService = new azure.BlobService(blobStorageAccountName, blobStorageAccessKey, host || undefined);
         this.defaultContainerName = defaultContainerName;
     }
 
@@ -37,21 +83,68 @@ export class AzureBlobStorageClient implements IStorageClient {
         return this.defaultContainerName;
     }
 
+    /**
+     * @return The block size, the concurrency and the progress callback of the uploads.
+     */
+    public getTransferOptions(): TransferOptions {
+        return this.transferOptions;
+    }
+
+    /**
+     * Sets the block size and the concurrency of the block uploads and the progress callback of the
+     * file transfers. The options not given keep their current values.
+     *
+     * @param transferOptions The transfer options. The block size must be at most MAX_AZURE_BLOCK_SIZE_IN_BYTES.
+     */
+    public setTransferOptions(transferOptions: TransferOptions) {
+        checkTransferOptions(transferOptions);
+
+        if (transferOptions.partSizeInBytes > MAX_AZURE_BLOCK_SIZE_IN_BYTES) {
+            throw new Error('The block size must be at most ' + MAX_AZURE_BLOCK_SIZE_IN_BYTES + ' bytes: ' + transferOptions.partSizeInBytes);
+        }
+
+        this.transferOptions = Object.assign({}, this.transferOptions, transferOptions);
+    }
+
+    /**
+     * @return The maximum time to wait for a server-side copy to complete.
+     */
+    public getMaxCopyWaitInMs(): number {
+        return this.maxCopyWaitInMs;
+    }
+
+    /**
+     * Sets the maximum time to wait for a server-side copy to complete, after which the copy is
+     * aborted. The default is DEFAULT_MAX_COPY_WAIT_IN_MS.
+     *
+     * @param maxCopyWaitInMs The maximum time in milliseconds.
+     */
+    public setMaxCopyWaitInMs(maxCopyWaitInMs: number) {
+        if (!(maxCopyWaitInMs >= 0)) {
+            throw new Error('The maximum copy wait must be a non-negative number: ' + maxCopyWaitInMs);
+        }
+
+        this.maxCopyWaitInMs = maxCopyWaitInMs;
+    }
+
     /**
      * Checks if a blob with the given name exists in the given container.
      * 
      * @param blobName The name of the blob to check including the name.
      * @param containerName The name of the Azure Blob Storage container.
-     * @return True, if the file exists. False otherwise.
+     * @return True, if the file exists. False otherwise. Rejected with a StorageError, if Azure does
+     * not tell (e.g. access denied or a network failure).
      */
     public fileExists(blobName: string, containerName?: string): Promise<boolean> {
         containerName = containerName || this.defaultContainerName;
         let thisInstance: AzureBlobStorageClient = this;
 
-        return new Promise<boolean>(function(resolve) {
-            thisInstance.azureBlobService.getBlobProperties(containerName, blobName, function(error, properties, status) {
-                if (error || !status.isSuccessful) {
+        return new Promise<boolean>(function(resolve, reject) {
+            thisInstance.azureBlobService.getBlobProperties(containerName, blobName, function(error, properties, response) {
+                if (error && isNotFoundError(toStorageError(error))) {
                     resolve(false);
+                } else if (error) {
+                    reject(toStorageError(error, blobName));
                 } else {
                     resolve(true);
                 }
@@ -60,35 +153,96 @@ export class AzureBlobStorageClient implements IStorageClient {
     }
 
     /**
-     * Lists the blobs with the given prefix in the given container.
-     * Note that this is can be an expensive method to call!
+     * Retrieves the properties of the blob with the given name.
      * 
-     * @param blobNamePrefix The blob name prefix.
-     * @param containerName The container name.
-     * @return A list of files found or an error message in case of a failure.
+     * @param blobName The name of the blob.
+     * @param containerName The name of the Azure Blob Storage container.
+     * @return The properties of the blob.
      */
-    public listFilesWithPrefix(blobNamePrefix: string, containerName?: string): Promise<any> {
+    public getFileProperties(blobName: string, containerName?: string): Promise<StorageFileProperties> {
         containerName = containerName || this.defaultContainerName;
         let thisInstance: AzureBlobStorageClient = this;
 
-        return new Promise(function(resolve, reject) {
-            thisInstance.azureBlobService.listBlobsSegmentedWithPrefix(containerName, blobNamePrefix, null, null, function(error, result, response) {
-                if (result) {
-                    resolve(result);
+        return new Promise<StorageFileProperties>(function(resolve, reject) {
+            thisInstance.azureBlobService.getBlobProperties(containerName, blobName, function(error, result) {
+                if (error) {
+                    reject(toStorageError(error, blobName));
                 } else {
-                    reject(error);
+                    const contentSettings = result.contentSettings || {};
+
+                    resolve({
+                        size: parseInt(result.contentLength, 10),
+                        lastModified: new Date(result.lastModified),
+                        etag: (result.etag || '').replace(/"/g, ''),
+                        contentMD5: contentSettings.contentMD5,
+                        contentType: contentSettings.contentType,
+                        cacheControl: contentSettings.cacheControl,
+                        contentDisposition: contentSettings.contentDisposition,
+                        userMetadata: toStorageFileMetadata({ userMetadata: result.metadata }).userMetadata
+                    });
                 }
             });
         });
     }
 
+    /**
+     * Lists the blobs with the given prefix in the given container. All the segments are retrieved
+     * and the entries combined into a single result.
+     * Note that this is can be an expensive method to call!
+     * 
+     * @param blobNamePrefix The blob name prefix.
+     * @param containerName The container name.
+     * @return The blobs found.
+     */
+    public async listFilesWithPrefix(blobNamePrefix: string, containerName?: string): Promise<azure.BlobService.ListBlobsResult> {
+        containerName = containerName || this.defaultContainerName;
+        let entries: azure.BlobService.BlobResult[] = [];
+
+        for await (const segment of this.listSegments(blobNamePrefix, containerName, {}, false)) {
+            entries = entries.concat(segment.entries);
+        }
+
+        return { entries: entries, continuationToken: null };
+    }
+
+    /**
+     * Lists the blobs with the given prefix in the given container following the continuation tokens.
+     * Note that only '/' is supported as the delimiter.
+     * 
+     * @param blobNamePrefix The blob name prefix.
+     * @param containerName The container name.
+     * @param options The delimiter and the page size (optional).
+     * @return The blobs and the directories (if the delimiter is given) sorted by the name.
+     */
+    public async *listFiles(blobNamePrefix?: string, containerName?: string,
+        options?: ListOptions): AsyncIterableIterator<StorageListEntry> {
+        containerName = containerName || this.defaultContainerName;
+        options = options || {};
+
+        if (options.delimiter && options.delimiter !== DIRECTORY_DELIMITER) {
+            throw new Error('Unsupported delimiter: ' + options.delimiter);
+        }
+
+        if (!options.delimiter) {
+            yield* this.listEntries(blobNamePrefix, containerName, options, false);
+            return;
+        }
+
+        // The blobs and the directories are listed separately
+        for await (const entries of mergeListings([
+            this.listEntries(blobNamePrefix, containerName, options, false),
+            this.listEntries(blobNamePrefix, containerName, options, true)])) {
+            yield entries[0] || entries[1];
+        }
+    }
+
     /**
      * Lists the names of the blobs with the given prefix in the given container.
      * Note that this is can be an expensive method to call!
      * 
      * @param blobNamePrefix The blob name prefix.
      * @param containerName The container name.
-     * @return A string list of file names found or an error message in case of a failure.
+     * @return A string list of file names found.
      */
     public async listFileNamesWithPrefix(blobNamePrefix?: string, containerName?: string): Promise<string[]> {
         containerName = containerName || this.defaultContainerName;
@@ -105,68 +259,360 @@ export class AzureBlobStorageClient implements IStorageClient {
     }
 
     /**
-     * Not implemented.
+     * Downloads a blob with the given name to memory.
+     * 
+     * @param blobName The name of the blob to download.
+     * @param containerName The name of the container containing the blob.
+     * @return The content of the blob.
+     */
+    public downloadFile(blobName: string, containerName?: string): Promise<Buffer> {
+        return this.downloadFileAsBuffer(blobName, containerName);
+    }
+
+    /**
+     * Downloads a blob with the given name as a stream. Note that the errors, e.g. if the blob
+     * does not exist, are emitted by the stream. The SDK checks the content against the MD5 hash
+     * of the blob, if stored with it.
+     * 
+     * @param blobName The name of the blob to download.
+     * @param containerName The name of the container containing the blob.
+     * @return A stream providing the content of the blob.
+     */
+    public async downloadFileAsStream(blobName: string, containerName?: string): Promise<Readable> {
+        containerName = containerName || this.defaultContainerName;
+        return this.azureBlobService.createReadStream(containerName, blobName, function() {});
+    }
+
+    /**
+     * Downloads a blob with the given name to memory.
+     * 
+     * @param blobName The name of the blob to download.
+     * @param containerName The name of the container containing the blob.
+     * @return The content of the blob.
      */
-    public downloadFile(blobName: string, containerName?: string): Promise<any> {
-        throw new Error("Method not implemented");
+    public async downloadFileAsBuffer(blobName: string, containerName?: string): Promise<Buffer> {
+        return readStreamToBuffer(await this.downloadFileAsStream(blobName, containerName)).catch((error) => {
+            throw toStorageError(error, blobName);
+        });
     }
 
     /**
-     * Downloads a blob with the given path to the disk in the specified location.
+     * Downloads a blob with the given path to the disk in the specified location. The SDK checks
+     * the content against the MD5 hash of the blob, if stored with it.
      * 
      * @param blobName The name of the blob to download.
      * @param localFilePath The desired local path to store the blob/file in.
      * @param containerName The name of the container containing the file.
-     * @return Information related to the operation when successful. An error message otherwise.
+     * @return Resolved when the file is written. Rejected with a ChecksumMismatchError, if the
+     * content is incomplete or corrupt.
      */
-    public downloadFileToDisk(blobName: string, localFilePath: string, containerName?: string): Promise<any> {
+    public downloadFileToDisk(blobName: string, localFilePath: string, containerName?: string): Promise<void> {
         containerName = containerName || this.defaultContainerName;
         let thisInstance: AzureBlobStorageClient = this;
 
-        return new Promise(function(resolve, reject) {
+        return new Promise<void>(function(resolve, reject) {
             thisInstance.azureBlobService.getBlobToLocalFile(containerName, blobName, localFilePath, null, function(error, result) {
                 if (result) {
-                    resolve(result);
+                    resolve();
                 } else {
-                    reject(error);
+                    reject(toStorageError(error, blobName));
                 }
             });
         });
     }
 
     /**
-     * Uploads the given file to the specified container using the specified blob name/path.
+     * Downloads a blob with the given path to the disk in ranges downloaded in parallel. The ranges
+     * downloaded are recorded in a checkpoint file, so that an interrupted download continues
+     * where it stopped, unless the blob has changed.
+     * 
+     * @param blobName The name of the blob to download.
+     * @param localFilePath The desired local path to store the blob/file in.
+     * @param containerName The name of the container containing the file.
+     * @param options The checkpoint file and the transfer options overriding the ones of this client (optional).
+     * @return Resolved when the file is written.
+     */
+    public downloadFileToDiskResumable(blobName: string, localFilePath: string, containerName?: string,
+        options?: ResumableTransferOptions): Promise<void> {
+        containerName = containerName || this.defaultContainerName;
+
+        return downloadFileInParts(blobName, localFilePath, this.createRangeDownloader(blobName, containerName),
+            Object.assign({}, this.transferOptions, options, { checkpointFilePath: getCheckpointFilePath(localFilePath, options) }));
+    }
+
+    /**
+     * Uploads the given file to the specified container using the specified blob name/path. A file
+     * larger than the block size is uploaded in blocks uploaded in parallel.
+     * 
+     * @param localFilePath The local path of the file to upload.
+     * @param blobName The name/path of the destination blob.
+     * @param containerName The name of the container where the file is uploaded.
+     * @param contentTypeOrMetadata The content type or the metadata of the blob. If the content type is
+     * not specified, it is deduced from the local file path.
+     * @return Resolved when the blob is uploaded.
+     */
+    public uploadFile(localFilePath: string, blobName: string, containerName?: string,
+        contentTypeOrMetadata?: string | StorageFileMetadata): Promise<void> {
+        containerName = containerName || this.defaultContainerName;
+
+        return uploadFileInParts(localFilePath, blobName, this.createMultipartUploader(blobName, containerName,
+            this.createUploadOptions(toStorageFileMetadata(contentTypeOrMetadata), localFilePath)), this.transferOptions);
+    }
+
+    /**
+     * Uploads the given file to the specified container in blocks uploaded in parallel. The blocks
+     * uploaded are recorded in a checkpoint file, so that an interrupted upload continues where it
+     * stopped, unless the local file has changed. Azure discards the blocks not committed within a week.
      * 
      * @param localFilePath The local path of the file to upload.
      * @param blobName The name/path of the destination blob.
      * @param containerName The name of the container where the file is uploaded.
-     * @return Information related to the operation when successful. An error message otherwise.
+     * @param contentTypeOrMetadata The content type or the metadata of the blob. If the content type is
+     * not specified, it is deduced from the local file path.
+     * @param options The checkpoint file and the transfer options overriding the ones of this client (optional).
+     * @return Resolved when the blob is uploaded.
      */
-    public uploadFile(localFilePath: string, blobName: string, containerName?: string): Promise<any> {
+    public uploadFileResumable(localFilePath: string, blobName: string, containerName?: string,
+        contentTypeOrMetadata?: string | StorageFileMetadata, options?: ResumableTransferOptions): Promise<void> {
+        containerName = containerName || this.defaultContainerName;
+
+        return uploadFileInParts(localFilePath, blobName, this.createMultipartUploader(blobName, containerName,
+            this.createUploadOptions(toStorageFileMetadata(contentTypeOrMetadata), localFilePath)),
+            Object.assign({}, this.transferOptions, options, { checkpointFilePath: getCheckpointFilePath(localFilePath, options) }));
+    }
+
+    /**
+     * Uploads the content of the given stream to the specified container using the specified blob name/path.
+     * 
+     * @param readStream The stream to read the content of the blob from.
+     * @param blobName The name/path of the destination blob.
+     * @param containerName The name of the container where the blob is uploaded.
+     * @param contentTypeOrMetadata The content type or the metadata of the blob. If the content type is
+     * not specified, it is deduced from the blob name.
+     * @return Resolved when the blob is uploaded.
+     */
+    public uploadStream(readStream: Readable, blobName: string, containerName?: string,
+        contentTypeOrMetadata?: string | StorageFileMetadata): Promise<void> {
         containerName = containerName || this.defaultContainerName;
         let thisInstance: AzureBlobStorageClient = this;
+        let options: azure.BlobService.CreateBlockBlobRequestOptions =
+            this.createUploadOptions(toStorageFileMetadata(contentTypeOrMetadata), blobName);
 
-        return new Promise<{}>(function(resolve, reject) {
-            thisInstance.azureBlobService.createBlockBlobFromLocalFile(containerName, blobName, localFilePath, function(error, result, response) {
-                if (result) {
-                    resolve(result);
+        return new Promise<void>(function(resolve, reject) {
+            const writeStream = thisInstance.azureBlobService.createWriteStreamToBlockBlob(
+                containerName, blobName, options, function(error, result, response) {
+                    if (result) {
+                        resolve();
+                    } else {
+                        reject(toStorageError(error, blobName));
+                    }
+                });
+
+            readStream.on('error', (error) => {
+                readStream.unpipe(writeStream);
+                reject(error);
+            });
+
+            readStream.pipe(writeStream);
+        });
+    }
+
+    /**
+     * Uploads the given data to the specified container using the specified blob name/path.
+     * 
+     * @param buffer The content of the blob.
+     * @param blobName The name/path of the destination blob.
+     * @param containerName The name of the container where the blob is uploaded.
+     * @param contentTypeOrMetadata The content type or the metadata of the blob. If the content type is
+     * not specified, it is deduced from the blob name.
+     * @return Resolved when the blob is uploaded.
+     */
+    public uploadBuffer(buffer: Buffer, blobName: string, containerName?: string,
+        contentTypeOrMetadata?: string | StorageFileMetadata): Promise<void> {
+        containerName = containerName || this.defaultContainerName;
+        let thisInstance: AzureBlobStorageClient = this;
+        let options: azure.BlobService.CreateBlockBlobRequestOptions =
+            this.createUploadOptions(toStorageFileMetadata(contentTypeOrMetadata), blobName);
+
+        return new Promise<void>(function(resolve, reject) {
+            thisInstance.azureBlobService.createBlockBlobFromText(
+                containerName, blobName, buffer, options, function(error, result, response) {
+                    if (result) {
+                        resolve();
+                    } else {
+                        reject(toStorageError(error, blobName));
+                    }
+                });
+        });
+    }
+
+    /**
+     * Replaces the metadata of the given blob. The content and the properties (e.g. the content
+     * type) are not changed.
+     * 
+     * @param blobName The name of the blob.
+     * @param userMetadata The new metadata.
+     * @param containerName The name of the container.
+     * @param etag If given, the metadata is replaced only if the blob still has this ETag (optional).
+     * @return Resolved when the metadata is replaced. Rejected with a ConflictError, if the ETag
+     * does not match.
+     */
+    public setUserMetadata(blobName: string, userMetadata: { [key: string]: string }, containerName?: string,
+        etag?: string): Promise<void> {
+        containerName = containerName || this.defaultContainerName;
+        let thisInstance: AzureBlobStorageClient = this;
+        let options: azure.BlobService.BlobRequestOptions = {};
+
+        if (etag) {
+            options.accessConditions = { EtagMatch: '"' + etag + '"' };
+        }
+
+        return new Promise<void>(function(resolve, reject) {
+            thisInstance.azureBlobService.setBlobMetadata(containerName, blobName, userMetadata, options, function(error, result) {
+                if (error) {
+                    reject(toStorageError(error, blobName));
                 } else {
-                    reject(error);
+                    resolve();
                 }
             });
         });
     }
 
+    /**
+     * Copies the given blob with startCopyBlob, so that the content is copied within Azure, and
+     * waits for the copy to complete. The content settings and the metadata are carried over.
+     * 
+     * @param sourceBlobName The name of the blob to copy.
+     * @param targetBlobName The name of the copy.
+     * @param containerName The name of the container of the blob.
+     * @param targetContainerName The name of the container of the copy (optional). The same container, if not given.
+     * @return Resolved when the blob is copied.
+     */
+    public async copyFile(sourceBlobName: string, targetBlobName: string, containerName?: string,
+        targetContainerName?: string): Promise<void> {
+        containerName = containerName || this.defaultContainerName;
+        targetContainerName = targetContainerName || containerName;
+        checkCopyTarget(sourceBlobName, targetBlobName, containerName, targetContainerName);
+
+        // Azure tells that the source does not exist only once the copy has started
+        const fileProperties: StorageFileProperties = await this.getFileProperties(sourceBlobName, containerName);
+
+        await this.copyBlob(this.azureBlobService.getUrl(containerName, sourceBlobName), targetBlobName, targetContainerName, {
+            sourceAccessConditions: { EtagMatch: '"' + fileProperties.etag + '"' }
+        });
+    }
+
+    /**
+     * Moves the given blob by copying it with copyFile() and deleting the source blob.
+     * 
+     * @param sourceBlobName The name of the blob to move.
+     * @param targetBlobName The new name of the blob.
+     * @param containerName The name of the container of the blob.
+     * @param targetContainerName The name of the container to move the blob to (optional). The same container, if not given.
+     * @return Resolved when the blob is moved.
+     */
+    public async moveFile(sourceBlobName: string, targetBlobName: string, containerName?: string,
+        targetContainerName?: string): Promise<void> {
+        await this.copyFile(sourceBlobName, targetBlobName, containerName, targetContainerName);
+        await this.deleteFile(sourceBlobName, containerName);
+    }
+
+    /**
+     * Copies the file at the given URL, e.g. a presigned S3 URL, to the given blob on the server
+     * side and waits for the copy to complete. The content settings are set once copied.
+     * 
+     * @param sourceUrl The URL of the file to copy, readable without credentials.
+     * @param blobName The name of the blob.
+     * @param containerName The name of the container.
+     * @param contentTypeOrMetadata The content type or the metadata of the blob. If the content type
+     * is not specified, it is deduced from the blob name.
+     * @return Resolved when the file is copied.
+     */
+    public async copyFileFromUrl(sourceUrl: string, blobName: string, containerName?: string,
+        contentTypeOrMetadata?: string | StorageFileMetadata): Promise<void> {
+        containerName = containerName || this.defaultContainerName;
+        const metadata: StorageFileMetadata = toStorageFileMetadata(contentTypeOrMetadata);
+        let options: azure.BlobService.CopyBlobRequestOptions = {};
+
+        if (metadata.userMetadata) {
+            options.metadata = metadata.userMetadata;
+        }
+
+        const result: azure.BlobService.BlobResult = await this.copyBlob(sourceUrl, blobName, containerName, options);
+        const contentSettings = result.contentSettings || {};
+        let thisInstance: AzureBlobStorageClient = this;
+
+        // Setting the properties replaces all of them, so the MD5 hash of the copy is kept explicitly
+        const propertiesOptions: azure.BlobService.SetBlobPropertiesRequestOptions = {
+            contentType: metadata.contentType || mime.lookup(blobName, DEFAULT_CONTENT_TYPE),
+            cacheControl: metadata.cacheControl,
+            contentDisposition: metadata.contentDisposition,
+            contentMD5: contentSettings.contentMD5,
+            accessConditions: { EtagMatch: result.etag }
+        };
+
+        return new Promise<void>(function(resolve, reject) {
+            thisInstance.azureBlobService.setBlobProperties(containerName, blobName, propertiesOptions, function(error) {
+                if (error) {
+                    reject(toStorageError(error, blobName));
+                } else {
+                    resolve();
+                }
+            });
+        });
+    }
+
+    /**
+     * Creates a URL with a shared access signature the given blob can be read from with a GET
+     * request or uploaded to with a PUT request. The URL is signed locally with the account key.
+     * 
+     * @param blobName The name of the blob.
+     * @param containerName The name of the container.
+     * @param options The expiry and the permissions (optional). The content type is not signed.
+     * @return The URL.
+     */
+    public async getSignedUrl(blobName: string, containerName?: string, options?: SignedUrlOptions): Promise<string> {
+        containerName = containerName || this.defaultContainerName;
+        options = Object.assign({
+            expiry: DEFAULT_SIGNED_URL_EXPIRY_IN_SECONDS,
+            permissions: SignedUrlPermission.Read
+        }, options || {});
+
+        // The write permission also allows creating the blob
+        const sasToken: string = this.azureBlobService.generateSharedAccessSignature(containerName, blobName, {
+            AccessPolicy: {
+                Permissions: (options.permissions === SignedUrlPermission.Write ? azure.BlobUtilities.SharedAccessPermissions.WRITE
+                    : azure.BlobUtilities.SharedAccessPermissions.READ),
+                Expiry: new Date(Date.now() + options.expiry * 1000)
+            }
+        });
+
+        return this.azureBlobService.getUrl(containerName, blobName, sasToken);
+    }
+
     /**
      * Deletes the given blobs from the specified container.
      * 
      * @param blobs The blobs to delete.
      * @param containerName The name of the container.
-     * @return Information related to the operation when successful. An error message otherwise.
+     * @return Resolved when the blobs are deleted.
      */
-    public async deleteFiles(blobNames: string[], containerName?: string): Promise<any> {
+    public async deleteFiles(blobNames: string[], containerName?: string): Promise<void> {
         containerName = containerName || this.defaultContainerName;
-        return Promise.all(blobNames.map((blobName) => this.azureBlobService.deleteBlob(containerName, blobName, function() {})));
+        let thisInstance: AzureBlobStorageClient = this;
+
+        let deleteErrors: StorageError[] = await Promise.all(blobNames.map((blobName) => new Promise<StorageError>(function(resolve) {
+            // The blobs that do not exist are ignored
+            thisInstance.azureBlobService.deleteBlobIfExists(containerName, blobName, function(error, result) {
+                resolve(error ? toStorageError(error, blobName) : null);
+            });
+        })));
+
+        const deleteError: StorageError = deleteErrors.find((error) => !!error);
+
+        if (deleteError) {
+            throw deleteError;
+        }
     }
     
     /**
@@ -174,20 +620,289 @@ export class AzureBlobStorageClient implements IStorageClient {
      * 
      * @param blobName The name of the blob to delete.
      * @param containerName The name of the container where the blob to delete is located.
-     * @return Information related to the operation when successful. An error message otherwise.
+     * @return Resolved when the blob is deleted.
      */
-    public async deleteFile(blobName: string, containerName?: string): Promise<any> {
+    public async deleteFile(blobName: string, containerName?: string): Promise<void> {
         containerName = containerName || this.defaultContainerName;
         let thisInstance: AzureBlobStorageClient = this;
 
-        return new Promise(function(resolve, reject) {
+        return new Promise<void>(function(resolve, reject) {
             thisInstance.azureBlobService.deleteBlob(containerName, blobName, function(error, response) {
                 if (error) {
-                    reject(error);
+                    reject(toStorageError(error, blobName));
                 } else {
-                    resolve(response);
+                    resolve();
                 }
             });
         });
     }
+
+    /**
+     * Starts copying the given URL to the given blob and polls the blob until the copy is no
+     * longer pending. The copy still pending after the maximum wait is aborted.
+     * 
+     * @param sourceUri The URL of the blob or the file to copy.
+     * @param blobName The name of the blob to copy to.
+     * @param containerName The name of the container.
+     * @param options The metadata and the access conditions of the copy.
+     * @return The properties of the blob copied. Rejected, if the copy failed, was aborted or has
+     * no status, or with a TransientError, if aborted after the maximum wait.
+     */
+    protected async copyBlob(sourceUri: string, blobName: string, containerName: string,
+        options: azure.BlobService.CopyBlobRequestOptions): Promise<azure.BlobService.BlobResult> {
+        let thisInstance: AzureBlobStorageClient = this;
+        let result: azure.BlobService.BlobResult = await new Promise<azure.BlobService.BlobResult>(function(resolve, reject) {
+            thisInstance.azureBlobService.startCopyBlob(sourceUri, containerName, blobName, options, function(error, copyResult) {
+                if (error) {
+                    reject(toStorageError(error, blobName));
+                } else {
+                    resolve(copyResult);
+                }
+            });
+        });
+
+        const deadline: number = Date.now() + this.maxCopyWaitInMs;
+        this.checkCopyStatus(result, blobName);
+
+        while (result.copy.status === COPY_STATUS_PENDING) {
+            if (Date.now() >= deadline) {
+                await this.abortCopyBlob(result.copy.id, blobName, containerName);
+                throw new TransientError('The copy to blob "' + blobName + '" did not complete in ' + this.maxCopyWaitInMs
+                    + ' ms and was aborted', blobName);
+            }
+
+            await new Promise((resolve) => setTimeout(resolve, Math.min(COPY_STATUS_POLL_INTERVAL_IN_MS, deadline - Date.now())));
+
+            result = await new Promise<azure.BlobService.BlobResult>(function(resolve, reject) {
+                thisInstance.azureBlobService.getBlobProperties(containerName, blobName, function(error, properties) {
+                    if (error) {
+                        reject(toStorageError(error, blobName));
+                    } else {
+                        resolve(properties);
+                    }
+                });
+            });
+            this.checkCopyStatus(result, blobName);
+        }
+
+        if (result.copy.status !== COPY_STATUS_SUCCESS) {
+            throw new StorageError(StorageErrorCode.Unknown, 'The copy to blob "' + blobName + '" ' + result.copy.status + ': '
+                + result.copy.statusDescription, blobName);
+        }
+
+        return result;
+    }
+
+    /**
+     * Throws an error, if the given properties of the blob copied to have no copy status, e.g. the
+     * blob was replaced by an upload in between.
+     *
+     * @param result The properties of the blob.
+     * @param blobName The name of the blob.
+     */
+    protected checkCopyStatus(result: azure.BlobService.BlobResult, blobName: string) {
+        if (!result.copy || !result.copy.status) {
+            throw new StorageError(StorageErrorCode.Unknown, 'The copy to blob "' + blobName + '" has no status', blobName);
+        }
+    }
+
+    /**
+     * Aborts the given pending copy. A copy no longer pending cannot be aborted, so the failures
+     * are ignored.
+     *
+     * @param copyId The ID of the copy.
+     * @param blobName The name of the blob copied to.
+     * @param containerName The name of the container.
+     * @return Resolved when the abort has been requested.
+     */
+    protected abortCopyBlob(copyId: string, blobName: string, containerName: string): Promise<void> {
+        let thisInstance: AzureBlobStorageClient = this;
+
+        return new Promise<void>(function(resolve, reject) {
+            thisInstance.azureBlobService.abortCopyBlob(containerName, blobName, copyId, function(error) {
+                resolve();
+            });
+        });
+    }
+
+    /**
+     * Lists the blobs or the directories of the given container as entries.
+     * 
+     * @param blobNamePrefix The blob name prefix.
+     * @param containerName The container name.
+     * @param options The delimiter and the page size.
+     * @param directories True to list the directories, false to list the blobs.
+     * @return The entries sorted by the name.
+     */
+    protected async *listEntries(blobNamePrefix: string, containerName: string, options: ListOptions,
+        directories: boolean): AsyncIterableIterator<StorageListEntry> {
+        for await (const segment of this.listSegments(blobNamePrefix, containerName, options, directories)) {
+            for (const blobResult of segment.entries) {
+                if (directories) {
+                    yield { name: blobResult.name, isPrefix: true };
+                } else {
+                    yield {
+                        name: blobResult.name,
+                        isPrefix: false,
+                        size: parseInt(blobResult.contentLength, 10),
+                        lastModified: new Date(blobResult.lastModified)
+                    };
+                }
+            }
+        }
+    }
+
+    /**
+     * Retrieves the segments of the listing of the given container.
+     * 
+     * @param blobNamePrefix The blob name prefix.
+     * @param containerName The container name.
+     * @param options The delimiter and the page size.
+     * @param directories True to list the directories, false to list the blobs.
+     * @return The segments.
+     */
+    protected async *listSegments(blobNamePrefix: string, containerName: string, options: ListOptions,
+        directories: boolean): AsyncIterableIterator<azure.BlobService.ListBlobsResult> {
+        let thisInstance: AzureBlobStorageClient = this;
+        let continuationToken: azure.common.ContinuationToken = null;
+        let requestOptions: azure.BlobService.ListBlobsSegmentedRequestOptions = {};
+
+        if (options.delimiter) {
+            requestOptions.delimiter = options.delimiter;
+        }
+
+        if (options.pageSize) {
+            requestOptions.maxResults = options.pageSize;
+        }
+
+        do {
+            const segment: azure.BlobService.ListBlobsResult = await new Promise<azure.BlobService.ListBlobsResult>(function(resolve, reject) {
+                const callback = function(error, result) {
+                    if (result) {
+                        resolve(result);
+                    } else {
+                        reject(toStorageError(error));
+                    }
+                };
+
+                if (directories) {
+                    (thisInstance.azureBlobService as DirectoryListingBlobService).listBlobDirectoriesSegmentedWithPrefix(
+                        containerName, blobNamePrefix, continuationToken, requestOptions, callback);
+                } else {
+                    thisInstance.azureBlobService.listBlobsSegmentedWithPrefix(
+                        containerName, blobNamePrefix, continuationToken, requestOptions, callback);
+                }
+            });
+
+            yield segment;
+            continuationToken = segment.continuationToken;
+        } while (continuationToken);
+    }
+
+    /**
+     * @param blobName The name/path of the destination blob.
+     * @param containerName The name of the container where the blob is uploaded.
+     * @param options The options for creating the block blob.
+     * @return The multipart upload of the blob using the Put Block and Put Block List APIs.
+     */
+    protected createMultipartUploader(blobName: string, containerName: string,
+        options: azure.BlobService.CreateBlockBlobRequestOptions): MultipartUploader {
+        let thisInstance: AzureBlobStorageClient = this;
+
+        return {
+            maxPartCount: MAX_AZURE_BLOCK_COUNT,
+            uploadSinglePart: (content) => new Promise<void>(function(resolve, reject) {
+                thisInstance.azureBlobService.createBlockBlobFromText(containerName, blobName, content, options, function(error, result) {
+                    if (result) {
+                        resolve();
+                    } else {
+                        reject(toStorageError(error, blobName));
+                    }
+                });
+            }),
+            // The blocks are staged until committed, the ID keeps apart the blocks of different uploads
+            createUpload: async () => crypto.randomBytes(8).toString('hex'),
+            uploadPart: (uploadId, partNumber, content) => new Promise<string>(function(resolve, reject) {
+                // The block IDs of a blob must have the same length
+                const blockId: string = Buffer.from(uploadId + '-'
+                    + ('0'.repeat(BLOCK_NUMBER_LENGTH) + partNumber).slice(-BLOCK_NUMBER_LENGTH)).toString('base64');
+
+                // Sent with the MD5 hash of the block, so that Azure rejects corrupted content
+                const blockOptions: azure.BlobService.CreateBlobRequestOptions = { useTransactionalMD5: true };
+
+                thisInstance.azureBlobService.createBlockFromText(blockId, containerName, blobName, content, blockOptions, function(error) {
+                    if (error) {
+                        reject(toStorageError(error, blobName));
+                    } else {
+                        resolve(blockId);
+                    }
+                });
+            }),
+            completeUpload: (uploadId, parts) => new Promise<void>(function(resolve, reject) {
+                thisInstance.azureBlobService.commitBlocks(containerName, blobName, {
+                    LatestBlocks: parts.map((part) => part.tag)
+                }, options, function(error, result) {
+                    if (result) {
+                        resolve();
+                    } else {
+                        reject(toStorageError(error, blobName));
+                    }
+                });
+            }),
+            // Azure discards the uncommitted blocks
+            abortUpload: async (uploadId) => {}
+        };
+    }
+
+    /**
+     * @param blobName The name of the blob to download.
+     * @param containerName The name of the container containing the blob.
+     * @return The ranged download of the blob with the If-Match condition.
+     */
+    protected createRangeDownloader(blobName: string, containerName: string): RangeDownloader {
+        return {
+            getFileProperties: () => this.getFileProperties(blobName, containerName),
+            downloadRange: (start, end, etag) => readStreamToBuffer(this.azureBlobService.createReadStream(containerName, blobName, {
+                rangeStart: start,
+                rangeEnd: end,
+                accessConditions: { EtagMatch: '"' + etag + '"' }
+            }, function() {})).catch((error) => {
+                throw toStorageError(error, blobName);
+            })
+        };
+    }
+
+    /**
+     * @param metadata The metadata of the blob.
+     * @param filePath The path used to deduce the content type, if not given in the metadata.
+     * @return The options for creating a block blob with the block size and the concurrency of the
+     * transfer options. Each request is sent with the MD5 hash of its content, and the MD5 hash of
+     * the blob is stored with it, so that the downloads are checked by the SDK.
+     */
+    protected createUploadOptions(metadata: StorageFileMetadata, filePath: string): azure.BlobService.CreateBlockBlobRequestOptions {
+        let options: azure.BlobService.CreateBlockBlobRequestOptions = {
+            blockSize: this.transferOptions.partSizeInBytes,
+            parallelOperationThreadCount: this.transferOptions.concurrency,
+            useTransactionalMD5: true,
+            storeBlobContentMD5: true,
+            contentSettings: {
+                // Like S3, deduce the content type instead of using the default of the block blob APIs
+                contentType: metadata.contentType || mime.lookup(filePath, DEFAULT_CONTENT_TYPE)
+            }
+        };
+
+        if (metadata.cacheControl) {
+            options.contentSettings.cacheControl = metadata.cacheControl;
+        }
+
+        if (metadata.contentDisposition) {
+            options.contentSettings.contentDisposition = metadata.contentDisposition;
+        }
+
+        if (metadata.userMetadata) {
+            options.metadata = metadata.userMetadata;
+        }
+
+        return options;
+    }
 }
@@ -0,0 +1,682 @@
+#!/usr/bin/env node
+import * as path from 'path';
+import { Readable } from 'stream';
+import { StorageFileProperties, toStorageFileMetadata } from './storage-client';
+import { ConfigurationError, loadMultiStorageClient } from './configuration';
+import { ChecksumAlgorithm, VerificationReport } from './integrity';
+import { LazyReplicationResult, MergedListEntry, MultiStorageClient, StorageType } from './multi-storage-client';
+import { ReconciliationReport } from './reconciliation';
+import { NotFoundError, StorageError } from './storage-errors';
+
+export const CLI_NAME = 'lazy-storage-replicator';
+export const EXIT_CODE_SUCCESS = 0;
+export const EXIT_CODE_FAILURE = 1;
+export const EXIT_CODE_USAGE = 2;
+export const CONFIGURATION_FILE_ENVIRONMENT_VARIABLE = 'LAZY_STORAGE_REPLICATOR_CONFIG';
+const STDOUT_FILE_PATH = '-';
+
+// The names accepted by the target storage selector in addition to the storage IDs
+const STORAGE_ID_ALIASES: { [alias: string]: string } = {
+    'azure': StorageType.AzureBlobStorage,
+    'aws': StorageType.AwsS3,
+    's3': StorageType.AwsS3
+};
+
+// The options taking a value
+const VALUE_OPTIONS: string[] = ['config', 'profile', 'container', 'to', 'delimiter', 'max-keys', 'content-type', 'algorithm'];
+
+// The options without a value
+const FLAG_OPTIONS: string[] = ['help', 'json', 'replicate', 'compare-hashes', 'dry-run', 'repair'];
+
+const USAGE: string = [
+    'Usage: ' + CLI_NAME + ' <command> [arguments] [options]',
+    '',
+    'Commands:',
+    '  ls [prefix]                     Lists the files in all storages',
+    '  stat <key>                      Shows which storages hold the file',
+    '  get <key> [local path|-]        Downloads the file (- writes it to the standard output)',
+    '  put <local path> <key>          Uploads the file',
+    '  rm <key>...                     Deletes the files from all storages',
+    '  cp <source key> <target key>    Copies the file',
+    '  diff [prefix]                   Reports the files missing from or differing between storages',
+    '  sync [prefix]                   Copies the missing files to the storages missing them',
+    '  verify [prefix]                 Downloads every copy of the files and compares the checksums',
+    '',
+    'Options:',
+    '  --config <path>                 The JSON or YAML configuration file of the storages',
+    '  --profile <name>                The profile of the configuration file',
+    '  --container <name>              The container/bucket (the default of each storage if not given)',
+    '  --json                          Writes the output as JSON',
+    '  --to <storages>                 put, cp: The comma separated target storages: all (the default),',
+    '                                  azure, aws, s3 or any storage ID',
+    '  --content-type <type>           put: The content type of the file',
+    '  --delimiter <delimiter>         ls: Groups the keys by the delimiter',
+    '  --max-keys <count>              ls: The maximum number of entries listed',
+    '  --replicate                     get: Replicates the file to the storages missing it',
+    '  --compare-hashes                diff, sync: Compares the MD5 hashes of the files of the same size',
+    '  --dry-run                       sync: Reports the copies without copying',
+    '  --algorithm <md5|crc32c>        verify: The checksum compared between the copies (crc32c by default)',
+    '  --repair                        verify: Replaces the corrupt copies with an intact copy',
+    '',
+    'The storages are configured with the configuration file given with --config or the environment',
+    'variable ' + CONFIGURATION_FILE_ENVIRONMENT_VARIABLE + '. Without a configuration file, the environment variables',
+    'AZURE_STORAGE_ACCOUNT, AZURE_STORAGE_ACCESS_KEY, AWS_ACCESS_KEY_ID, AWS_SECRET_ACCESS_KEY and AWS_REGION',
+    'are used. AZURE_STORAGE_CONTAINER and AWS_S3_BUCKET set the default container/bucket.'
+].join('\n');
+
+/**
+ * An error in the command line arguments.
+ */
+export class CliUsageError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'CliUsageError';
+        Object.setPrototypeOf(this, CliUsageError.prototype);
+    }
+}
+
+/**
+ * The command line arguments split to the command, the positional arguments and the options.
+ */
+export interface ParsedArguments {
+    command: string;
+    positionals: string[];
+
+    /**
+     * The values of the options by the option names without the leading dashes. The value of a
+     * flag is true.
+     */
+    options: { [name: string]: string | boolean };
+}
+
+export interface CliOptions {
+    /**
+     * The stream to write the output to. The default is the standard output.
+     */
+    output?: NodeJS.WritableStream;
+
+    /**
+     * The stream to write the errors to. The default is the standard error.
+     */
+    errorOutput?: NodeJS.WritableStream;
+}
+
+/**
+ * @param args The command line arguments without the node executable and the script.
+ * @return The parsed arguments. Throws a CliUsageError, if an option is unknown or missing its value.
+ */
+export function parseArguments(args: string[]): ParsedArguments {
+    let positionals: string[] = [];
+    let options: { [name: string]: string | boolean } = {};
+
+    for (let i = 0; i < args.length; i++) {
+        const arg: string = args[i];
+
+        if (arg === '--') {
+            positionals = positionals.concat(args.slice(i + 1));
+            break;
+        }
+
+        if (arg.indexOf('--') !== 0) {
+            positionals.push(arg);
+            continue;
+        }
+
+        const separatorIndex: number = arg.indexOf('=');
+        const name: string = arg.substring(2, (separatorIndex === -1 ? arg.length : separatorIndex));
+
+        if (FLAG_OPTIONS.indexOf(name) !== -1) {
+            options[name] = true;
+        } else if (VALUE_OPTIONS.indexOf(name) === -1) {
+            throw new CliUsageError('Unknown option --' + name);
+        } else if (separatorIndex !== -1) {
+            options[name] = arg.substring(separatorIndex + 1);
+        } else if (i + 1 < args.length) {
+            options[name] = args[++i];
+        } else {
+            throw new CliUsageError('Option --' + name + ' requires a value');
+        }
+    }
+
+    return {
+        command: positionals.length > 0 ? positionals[0] : null,
+        positionals: positionals.slice(1),
+        options: options
+    };
+}
+
+/**
+ * Resolves the target storage selector of the put and cp commands.
+ *
+ * @param selector The comma separated storage IDs or aliases ("azure", "aws" and "s3" for the
+ * storages registered with the StorageType IDs, "all" for all storages).
+ * @param storageIds The IDs of the registered storages.
+ * @return The IDs of the selected storages. Throws a CliUsageError, if a storage is not registered.
+ */
+export function resolveStorageIds(selector: string, storageIds: string[]): string[] {
+    if (!selector || selector === 'all') {
+        return storageIds;
+    }
+
+    let result: string[] = [];
+
+    selector.split(',').forEach((name) => {
+        const storageId: string = STORAGE_ID_ALIASES[name.trim().toLowerCase()] || name.trim();
+
+        if (storageIds.indexOf(storageId) === -1) {
+            throw new CliUsageError('Unknown storage "' + name + '", the storages are: ' + storageIds.join(', '));
+        }
+
+        if (result.indexOf(storageId) === -1) {
+            result.push(storageId);
+        }
+    });
+
+    return result;
+}
+
+/**
+ * Creates a client for Azure Blob Storage and AWS S3 from the environment variables listed in the
+ * usage of the command line tool.
+ *
+ * @param env The environment variables.
+ * @return The initialized client. Throws a CliUsageError, if any of the variables is missing.
+ */
+export function createMultiStorageClientFromEnvironment(env: { [name: string]: string }): MultiStorageClient {
+    const requiredNames: string[] = [
+        'AZURE_STORAGE_ACCOUNT', 'AZURE_STORAGE_ACCESS_KEY', 'AWS_ACCESS_KEY_ID', 'AWS_SECRET_ACCESS_KEY', 'AWS_REGION'
+    ];
+    const missingNames: string[] = requiredNames.filter((name) => !env[name]);
+
+    if (missingNames.length > 0) {
+        throw new CliUsageError('Missing environment variables: ' + missingNames.join(', '));
+    }
+
+    let multiStorageClient: MultiStorageClient = new MultiStorageClient();
+    multiStorageClient.initialize(env.AZURE_STORAGE_ACCOUNT, env.AZURE_STORAGE_ACCESS_KEY,
+        env.AWS_ACCESS_KEY_ID, env.AWS_SECRET_ACCESS_KEY, env.AWS_REGION,
+        env.AZURE_STORAGE_CONTAINER, env.AWS_S3_BUCKET);
+    return multiStorageClient;
+}
+
+/**
+ * A command line tool for the day-to-day operations on the storages of a multi storage client.
+ * Every command writes either human readable lines or, with --json, a single JSON document.
+ */
+export class Cli {
+    protected multiStorageClient: MultiStorageClient;
+    protected output: NodeJS.WritableStream;
+    protected errorOutput: NodeJS.WritableStream;
+
+    /**
+     * @param multiStorageClient The initialized client to operate on.
+     * @param options The output streams (optional).
+     */
+    constructor(multiStorageClient: MultiStorageClient, options?: CliOptions) {
+        options = options || {};
+        this.multiStorageClient = multiStorageClient;
+        this.output = options.output || process.stdout;
+        this.errorOutput = options.errorOutput || process.stderr;
+    }
+
+    /**
+     * Runs the command given in the arguments.
+     *
+     * @param args The command line arguments without the node executable and the script.
+     * @return The exit code: EXIT_CODE_SUCCESS, EXIT_CODE_FAILURE, if the command failed (or diff
+     * or verify found differences), or EXIT_CODE_USAGE, if the arguments are invalid. Never rejected.
+     */
+    public async run(args: string[]): Promise<number> {
+        let parsedArguments: ParsedArguments = null;
+
+        try {
+            parsedArguments = parseArguments(args);
+
+            if (parsedArguments.options['help'] || parsedArguments.command === null || parsedArguments.command === 'help') {
+                this.output.write(USAGE + '\n');
+                return EXIT_CODE_SUCCESS;
+            }
+
+            switch (parsedArguments.command) {
+                case 'ls':
+                    return await this.listFiles(parsedArguments);
+                case 'stat':
+                    return await this.statFile(parsedArguments);
+                case 'get':
+                    return await this.getFile(parsedArguments);
+                case 'put':
+                    return await this.putFile(parsedArguments);
+                case 'rm':
+                    return await this.removeFiles(parsedArguments);
+                case 'cp':
+                    return await this.copyFile(parsedArguments);
+                case 'diff':
+                    return await this.reconcile(parsedArguments, false);
+                case 'sync':
+                    return await this.reconcile(parsedArguments, true);
+                case 'verify':
+                    return await this.verify(parsedArguments);
+                default:
+                    throw new CliUsageError('Unknown command "' + parsedArguments.command + '"');
+            }
+        } catch (error) {
+            const json: boolean = !!(parsedArguments && parsedArguments.options['json']);
+
+            if (error instanceof CliUsageError) {
+                this.writeError(json, 'Usage', error.message + (json ? '' : '\n\n' + USAGE));
+                return EXIT_CODE_USAGE;
+            }
+
+            this.writeError(json, (error instanceof StorageError ? error.code : 'Unknown'), (error && error.message) || String(error));
+            return EXIT_CODE_FAILURE;
+        }
+    }
+
+    /**
+     * ls [prefix] [--delimiter <delimiter>] [--max-keys <count>]
+     */
+    protected async listFiles(parsedArguments: ParsedArguments): Promise<number> {
+        const options = parsedArguments.options;
+        const maxKeys: number = (options['max-keys'] ? parseInt(options['max-keys'] as string, 10) : Infinity);
+
+        if (isNaN(maxKeys) || maxKeys < 1) {
+            throw new CliUsageError('Invalid --max-keys: ' + options['max-keys']);
+        }
+
+        let entries: MergedListEntry[] = [];
+        let listOptions = (options['delimiter'] ? { delimiter: options['delimiter'] as string } : undefined);
+
+        for await (const entry of this.multiStorageClient.listFiles(
+            parsedArguments.positionals[0] || '', this.getContainerName(parsedArguments), listOptions)) {
+            entries.push(entry);
+
+            if (entries.length >= maxKeys) {
+                break;
+            }
+        }
+
+        if (options['json']) {
+            this.writeJson(entries.map((entry) => ({
+                name: entry.name,
+                isPrefix: entry.isPrefix,
+                size: (entry.isPrefix ? undefined : entry.size),
+                lastModified: (entry.lastModified ? entry.lastModified.toISOString() : undefined),
+                storageIds: entry.storageIds
+            })));
+        } else {
+            entries.forEach((entry) => this.writeLine(entry.isPrefix
+                ? ['PRE', '', '', entry.name].join('\t')
+                : [entry.size, entry.lastModified ? entry.lastModified.toISOString() : '', entry.storageIds.join(','), entry.name].join('\t')));
+        }
+
+        return EXIT_CODE_SUCCESS;
+    }
+
+    /**
+     * stat <key>
+     */
+    protected async statFile(parsedArguments: ParsedArguments): Promise<number> {
+        const storageFilePath: string = this.getPositional(parsedArguments, 0, 'key');
+        const containerOrBucketName: string = this.getContainerName(parsedArguments);
+        const storageIds: Set<string> = await this.multiStorageClient.storagesContainingFile(storageFilePath, containerOrBucketName);
+
+        if (storageIds.size === 0) {
+            throw new NotFoundError('File not found: ' + storageFilePath, storageFilePath);
+        }
+
+        let propertiesByStorage: { [storageId: string]: StorageFileProperties } = {};
+
+        await Promise.all(Array.from(storageIds).map((storageId) =>
+            this.multiStorageClient.getStorageClient(storageId).getFileProperties(storageFilePath, containerOrBucketName)
+                .then((fileProperties) => propertiesByStorage[storageId] = fileProperties, () => propertiesByStorage[storageId] = null)));
+
+        const missingStorageIds: string[] = this.multiStorageClient.getStorageIds().filter((storageId) => !storageIds.has(storageId));
+
+        if (parsedArguments.options['json']) {
+            this.writeJson({
+                name: storageFilePath,
+                storageIds: Array.from(storageIds),
+                missingStorageIds: missingStorageIds,
+                propertiesByStorage: propertiesByStorage
+            });
+        } else {
+            this.writeLine(storageFilePath);
+
+            storageIds.forEach((storageId) => {
+                const fileProperties: StorageFileProperties = propertiesByStorage[storageId];
+                this.writeLine('  ' + storageId + ': ' + (fileProperties
+                    ? fileProperties.size + ' bytes, modified ' + fileProperties.lastModified.toISOString()
+                        + (fileProperties.etag ? ', etag ' + fileProperties.etag : '')
+                    : 'present'));
+            });
+
+            missingStorageIds.forEach((storageId) => this.writeLine('  ' + storageId + ': not held'));
+        }
+
+        return EXIT_CODE_SUCCESS;
+    }
+
+    /**
+     * get <key> [local path|-] [--replicate]
+     */
+    protected async getFile(parsedArguments: ParsedArguments): Promise<number> {
+        const storageFilePath: string = this.getPositional(parsedArguments, 0, 'key');
+        const localFilePath: string = parsedArguments.positionals[1] || path.basename(storageFilePath);
+        const containerOrBucketName: string = this.getContainerName(parsedArguments);
+
+        if (localFilePath === STDOUT_FILE_PATH) {
+            const readStream: Readable = await this.multiStorageClient.downloadFileAsStream(storageFilePath, containerOrBucketName);
+            await this.pipeToOutput(readStream);
+            return EXIT_CODE_SUCCESS;
+        }
+
+        let sourceStorageId: string = null;
+        let targetStorageIds: string[] = [];
+
+        if (parsedArguments.options['replicate']) {
+            const result: LazyReplicationResult = await this.multiStorageClient.downloadFileToDiskAndReplicateIfNecessary(
+                storageFilePath, localFilePath, containerOrBucketName);
+
+            if (result.error) {
+                throw result.error;
+            }
+
+            sourceStorageId = result.sourceStorageId;
+            targetStorageIds = result.targetStorageIds;
+        } else {
+            await this.multiStorageClient.downloadFileToDisk(storageFilePath, localFilePath, containerOrBucketName);
+        }
+
+        if (parsedArguments.options['json']) {
+            this.writeJson({
+                name: storageFilePath,
+                localFilePath: localFilePath,
+                sourceStorageId: sourceStorageId,
+                replicatedTo: targetStorageIds
+            });
+        } else {
+            this.writeLine('Downloaded ' + storageFilePath + ' to ' + localFilePath
+                + (targetStorageIds.length > 0 ? ', replicated to ' + targetStorageIds.join(', ') : ''));
+        }
+
+        return EXIT_CODE_SUCCESS;
+    }
+
+    /**
+     * put <local path> <key> [--to <storages>] [--content-type <type>]
+     */
+    protected async putFile(parsedArguments: ParsedArguments): Promise<number> {
+        const localFilePath: string = this.getPositional(parsedArguments, 0, 'local path');
+        const storageFilePath: string = this.getPositional(parsedArguments, 1, 'key');
+        const storageIdsToUse: string[] = this.getTargetStorageIds(parsedArguments);
+
+        const storageIds: Set<string> = await this.multiStorageClient.uploadFileToStorage(localFilePath, storageFilePath,
+            storageIdsToUse, this.getContainerName(parsedArguments), parsedArguments.options['content-type'] as string);
+
+        return this.writeUploadResult(parsedArguments, storageFilePath, storageIdsToUse, storageIds);
+    }
+
+    /**
+     * rm <key>...
+     */
+    protected async removeFiles(parsedArguments: ParsedArguments): Promise<number> {
+        this.getPositional(parsedArguments, 0, 'key');
+        await this.multiStorageClient.deleteFiles(parsedArguments.positionals, this.getContainerName(parsedArguments));
+
+        if (parsedArguments.options['json']) {
+            this.writeJson({ deleted: parsedArguments.positionals });
+        } else {
+            parsedArguments.positionals.forEach((storageFilePath) => this.writeLine('Deleted ' + storageFilePath));
+        }
+
+        return EXIT_CODE_SUCCESS;
+    }
+
+    /**
+     * cp <source key> <target key> [--to <storages>]
+     *
+     * The file is read from the first storage holding it and written with its metadata to the target storages.
+     */
+    protected async copyFile(parsedArguments: ParsedArguments): Promise<number> {
+        const sourceStorageFilePath: string = this.getPositional(parsedArguments, 0, 'source key');
+        const targetStorageFilePath: string = this.getPositional(parsedArguments, 1, 'target key');
+        const storageIdsToUse: string[] = this.getTargetStorageIds(parsedArguments);
+        const containerOrBucketName: string = this.getContainerName(parsedArguments);
+
+        const fileProperties: StorageFileProperties =
+            await this.multiStorageClient.getFileProperties(sourceStorageFilePath, containerOrBucketName);
+        const readStream: Readable = await this.multiStorageClient.downloadFileAsStream(sourceStorageFilePath, containerOrBucketName);
+        const storageIds: Set<string> = await this.multiStorageClient.uploadStreamToStorage(readStream, targetStorageFilePath,
+            storageIdsToUse, containerOrBucketName, toStorageFileMetadata(fileProperties));
+
+        return this.writeUploadResult(parsedArguments, targetStorageFilePath, storageIdsToUse, storageIds);
+    }
+
+    /**
+     * diff [prefix] [--compare-hashes]
+     * sync [prefix] [--dry-run] [--compare-hashes]
+     *
+     * @param copyMissingFiles True for sync, false for diff.
+     */
+    protected async reconcile(parsedArguments: ParsedArguments, copyMissingFiles: boolean): Promise<number> {
+        const options = parsedArguments.options;
+        const report: ReconciliationReport = await this.multiStorageClient.reconcile(
+            parsedArguments.positionals[0] || '', this.getContainerName(parsedArguments), {
+                copyMissingFiles: copyMissingFiles,
+                dryRun: !!options['dry-run'],
+                compareHashes: !!options['compare-hashes']
+            });
+
+        if (options['json']) {
+            this.writeJson(report);
+        } else {
+            this.writeReport(report);
+        }
+
+        const summary = report.summary;
+
+        if (summary.failures > 0 || summary.copyFailures > 0 || summary.deleteFailures > 0) {
+            return EXIT_CODE_FAILURE;
+        }
+
+        // Like diff(1), tell whether there are differences
+        return (!copyMissingFiles && (summary.filesMissing > 0 || summary.filesMismatched > 0) ? EXIT_CODE_FAILURE : EXIT_CODE_SUCCESS);
+    }
+
+    /**
+     * Writes the human readable lines of the given reconciliation report.
+     *
+     * @param report The report.
+     */
+    protected writeReport(report: ReconciliationReport) {
+        const prefix: string = (report.dryRun ? 'Would ' : '');
+
+        Object.keys(report.missingFilesByStorage).forEach((storageId) =>
+            report.missingFilesByStorage[storageId].forEach((name) => this.writeLine('missing from ' + storageId + ': ' + name)));
+        report.mismatches.forEach((mismatch) => this.writeLine('differs (' + mismatch.reason + '): ' + mismatch.name));
+        report.copies.forEach((copy) => this.writeLine((prefix ? prefix + 'copy ' : 'Copied ') + copy.name + ' from '
+            + copy.sourceStorageId + ' to ' + copy.targetStorageIds.join(', ') + this.formatErrors(copy.errorsByStorage)));
+        report.deletions.forEach((deletion) => this.writeLine((prefix ? prefix + 'delete ' : 'Deleted ') + deletion.name
+            + ' from ' + deletion.storageIds.join(', ') + this.formatErrors(deletion.errorsByStorage)));
+        report.failures.forEach((failure) => this.writeLine('failed: ' + failure.name + ': ' + failure.error));
+
+        const summary = report.summary;
+        this.writeLine(summary.filesChecked + ' checked, ' + summary.filesMissing + ' missing, '
+            + summary.filesMismatched + ' differing, ' + summary.filesCopied + ' copied, '
+            + summary.filesDeleted + ' deleted, ' + (summary.failures + summary.copyFailures + summary.deleteFailures) + ' failed');
+    }
+
+    /**
+     * verify [prefix] [--algorithm <md5|crc32c>] [--repair]
+     */
+    protected async verify(parsedArguments: ParsedArguments): Promise<number> {
+        const options = parsedArguments.options;
+        const algorithm = options['algorithm'] as ChecksumAlgorithm;
+
+        if (algorithm !== undefined && [ChecksumAlgorithm.MD5, ChecksumAlgorithm.CRC32C].indexOf(algorithm) === -1) {
+            throw new CliUsageError('Unknown checksum algorithm "' + algorithm + '"');
+        }
+
+        const report: VerificationReport = await this.multiStorageClient.verify(
+            parsedArguments.positionals[0] || '', this.getContainerName(parsedArguments), {
+                algorithm: algorithm,
+                repairCorruptCopies: !!options['repair']
+            });
+
+        if (options['json']) {
+            this.writeJson(report);
+        } else {
+            report.mismatches.forEach((mismatch) => {
+                this.writeLine((mismatch.corruptStorageIds.length > 0 ? 'corrupt in ' + mismatch.corruptStorageIds.join(', ')
+                    : 'differs') + ': ' + mismatch.name);
+
+                if (mismatch.repairedStorageIds.length > 0 || Object.keys(mismatch.repairErrorsByStorage).length > 0) {
+                    this.writeLine('Repaired ' + mismatch.name + ' in ' + mismatch.repairedStorageIds.join(', ')
+                        + this.formatErrors(mismatch.repairErrorsByStorage));
+                }
+            });
+            report.failures.forEach((failure) => this.writeLine('failed: ' + failure.name + ': ' + failure.error));
+
+            const summary = report.summary;
+            this.writeLine(summary.filesChecked + ' checked, ' + summary.filesMismatched + ' differing, '
+                + summary.corruptCopies + ' corrupt, ' + summary.copiesRepaired + ' repaired, ' + summary.failures + ' failed');
+        }
+
+        // The differences remaining after the repair, if any
+        return (report.summary.failures > 0 || report.mismatches.some((mismatch) => mismatch.corruptStorageIds.length === 0
+            || mismatch.repairedStorageIds.length < mismatch.corruptStorageIds.length) ? EXIT_CODE_FAILURE : EXIT_CODE_SUCCESS);
+    }
+
+    /**
+     * Writes the result of put or cp.
+     *
+     * @param parsedArguments The parsed arguments.
+     * @param storageFilePath The key of the uploaded file.
+     * @param storageIdsToUse The IDs of the target storages.
+     * @param storageIds The IDs of the storages where the upload succeeded.
+     * @return EXIT_CODE_SUCCESS, if uploaded to all target storages. EXIT_CODE_FAILURE otherwise.
+     */
+    protected writeUploadResult(parsedArguments: ParsedArguments, storageFilePath: string,
+        storageIdsToUse: string[], storageIds: Set<string>): number {
+        const failedStorageIds: string[] = storageIdsToUse.filter((storageId) => !storageIds.has(storageId));
+
+        if (parsedArguments.options['json']) {
+            this.writeJson({
+                name: storageFilePath,
+                storageIds: Array.from(storageIds),
+                failedStorageIds: failedStorageIds
+            });
+        } else {
+            this.writeLine('Uploaded ' + storageFilePath + ' to ' + (storageIds.size > 0 ? Array.from(storageIds).join(', ') : 'no storages')
+                + (failedStorageIds.length > 0 ? ', failed: ' + failedStorageIds.join(', ') : ''));
+        }
+
+        return (failedStorageIds.length > 0 ? EXIT_CODE_FAILURE : EXIT_CODE_SUCCESS);
+    }
+
+    /**
+     * @param parsedArguments The parsed arguments.
+     * @param index The index of the positional argument after the command.
+     * @param name The name of the argument for the error message.
+     * @return The argument. Throws a CliUsageError, if missing.
+     */
+    protected getPositional(parsedArguments: ParsedArguments, index: number, name: string): string {
+        if (parsedArguments.positionals.length <= index) {
+            throw new CliUsageError('Missing ' + name);
+        }
+
+        return parsedArguments.positionals[index];
+    }
+
+    /**
+     * @param parsedArguments The parsed arguments.
+     * @return The container/bucket name given with --container or undefined.
+     */
+    protected getContainerName(parsedArguments: ParsedArguments): string {
+        return (parsedArguments.options['container'] as string) || undefined;
+    }
+
+    /**
+     * @param parsedArguments The parsed arguments.
+     * @return The IDs of the storages selected with --to or all storages.
+     */
+    protected getTargetStorageIds(parsedArguments: ParsedArguments): string[] {
+        return resolveStorageIds(parsedArguments.options['to'] as string, this.multiStorageClient.getStorageIds());
+    }
+
+    /**
+     * @param errorsByStorage The errors by the storage IDs.
+     * @return The errors formatted for the end of a line or an empty string, if none.
+     */
+    protected formatErrors(errorsByStorage: { [storageId: string]: StorageError }): string {
+        const storageIds: string[] = Object.keys(errorsByStorage || {});
+        return (storageIds.length > 0
+            ? ' (failed: ' + storageIds.map((storageId) => storageId + ': ' + errorsByStorage[storageId]).join(', ') + ')'
+            : '');
+    }
+
+    /**
+     * @param readStream The stream to copy to the output. The output is not ended.
+     * @return Resolved when the stream has ended.
+     */
+    protected pipeToOutput(readStream: Readable): Promise<void> {
+        let thisInstance: Cli = this;
+
+        return new Promise<void>(function(resolve, reject) {
+            readStream.on('error', reject);
+            readStream.on('end', resolve);
+            readStream.pipe(thisInstance.output, { end: false });
+        });
+    }
+
+    protected writeLine(line: string) {
+        this.output.write(line + '\n');
+    }
+
+    protected writeJson(value: any) {
+        this.output.write(JSON.stringify(value, null, 2) + '\n');
+    }
+
+    /**
+     * @param json True to write the error as JSON.
+     * @param code The error code.
+     * @param message The error message.
+     */
+    protected writeError(json: boolean, code: string, message: string) {
+        this.errorOutput.write((json ? JSON.stringify({ error: code, message: message }) : 'Error: ' + message) + '\n');
+    }
+}
+
+/**
+ * Runs the command line tool with the storages configured by the configuration file or, if none,
+ * by the environment variables.
+ *
+ * @param args The command line arguments without the node executable and the script.
+ * @return The exit code.
+ */
+export async function main(args: string[]): Promise<number> {
+    let multiStorageClient: MultiStorageClient = null;
+
+    if (args.length === 0 || args[0] === 'help' || args.indexOf('--help') !== -1) {
+        return new Cli(new MultiStorageClient()).run(args);
+    }
+
+    try {
+        const options = parseArguments(args).options;
+        const configurationFilePath: string = (options['config'] as string) || process.env[CONFIGURATION_FILE_ENVIRONMENT_VARIABLE];
+
+        multiStorageClient = (configurationFilePath
+            ? await loadMultiStorageClient(configurationFilePath, options['profile'] as string)
+            : createMultiStorageClientFromEnvironment(process.env));
+    } catch (error) {
+        process.stderr.write('Error: ' + error.message + '\n'
+            + (error instanceof ConfigurationError ? '' : '\n' + USAGE + '\n'));
+        return EXIT_CODE_USAGE;
+    }
+
+    return new Cli(multiStorageClient).run(args);
+}
+
+if (require.main === module) {
+    main(process.argv.slice(2)).then((exitCode) => process.exitCode = exitCode);
+}
@@ -0,0 +1,825 @@
+import * as fs from 'fs';
+import * as yaml from 'js-yaml';
+import * as path from 'path';
+import * as url from 'url';
+import { IStorageClient } from './storage-client';
+import { AwsS3Client, MIN_AWS_S3_PART_SIZE_IN_BYTES } from './aws-s3-client';
+import { AzureBlobStorageClient, MAX_AZURE_BLOCK_SIZE_IN_BYTES } from './azure-blob-storage-client';
+import { ContainerMappingStorageClient } from './container-mapping-storage-client';
+import { InMemoryStorageClient } from './in-memory-storage-client';
+import {
+    ChainedKeyMapper, EscapingKeyMapper, EscapingKeyMapperOptions, KeyMapper, MAX_AWS_S3_KEY_LENGTH_IN_BYTES,
+    MAX_AZURE_BLOB_NAME_LENGTH_IN_BYTES, PrefixKeyMapper
+} from './key-mapper';
+import { KeyMappingStorageClient } from './key-mapping-storage-client';
+import { LocalFileSystemStorageClient } from './local-file-system-storage-client';
+import { MultiStorageClient } from './multi-storage-client';
+import { ReadPreference, ReadPreferenceStrategy } from './read-preference';
+import { TransferOptions } from './resumable-transfers';
+import { WriteMode } from './write-modes';
+
+/**
+ * The environment variable selecting the profile, if not given by the caller.
+ */
+export const PROFILE_ENVIRONMENT_VARIABLE = 'LAZY_STORAGE_REPLICATOR_PROFILE';
+export const DEFAULT_PROFILE_NAME = 'default';
+const YAML_FILE_EXTENSIONS: string[] = ['.yaml', '.yml'];
+const ENVIRONMENT_VARIABLE_PATTERN = /\$\{([A-Za-z_][A-Za-z0-9_]*)\}/g;
+
+// The environment variables the credentials are read from, if not configured
+const CREDENTIAL_ENVIRONMENT_VARIABLES: { [credentialName: string]: string } = {
+    accessKey: 'AZURE_STORAGE_ACCESS_KEY',
+    accessKeyId: 'AWS_ACCESS_KEY_ID',
+    secretAccessKey: 'AWS_SECRET_ACCESS_KEY'
+};
+
+const CONFIGURATION_FIELDS: string[] = ['defaultProfile', 'profiles'];
+const PROFILE_FIELDS: string[] = ['defaultContainer', 'readPreference', 'writeMode', 'transfers', 'storages'];
+const WRITE_MODES: string[] = [WriteMode.All, WriteMode.Quorum, WriteMode.Any, WriteMode.PrimaryThenAsync, WriteMode.BestEffort];
+const TRANSFER_FIELDS: string[] = ['partSizeInBytes', 'concurrency', 'stagingDirectoryPath', 'stagingThresholdInBytes'];
+const READ_PREFERENCE_FIELDS: string[] = ['strategy', 'primaryStorageId', 'egressCostsPerGB', 'latencySmoothingFactor', 'fallbackOnError'];
+const STORAGE_FIELDS: string[] = [
+    'id', 'type', 'accountName', 'region', 'rootDirectoryPath', 'endpoint', 'defaultContainer', 'containerNameMappings', 'keyMapping',
+    'credentials'
+];
+const CREDENTIALS_FIELDS: string[] = ['accessKey', 'accessKeyId', 'secretAccessKey', 'file', 'section'];
+const KEY_MAPPING_FIELDS: string[] = ['prefix', 'storagePrefix', 'escape', 'maxKeyLengthInBytes'];
+const ESCAPE_FIELDS: string[] = [
+    'escapeCharacter', 'charactersToEscape', 'escapeTrailingDotsAndSlashes', 'escapeLeadingSlashes', 'escapeUpperCase'
+];
+
+/**
+ * The types of the storages that can be configured.
+ */
+export enum StorageProvider {
+    AzureBlobStorage = 'azure-blob-storage',
+    AwsS3 = 'aws-s3',
+    LocalFileSystem = 'local-file-system',
+    InMemory = 'in-memory'
+};
+
+export enum ConfigurationFormat {
+    Json = 'json',
+    Yaml = 'yaml'
+};
+
+// The fields required by each storage type, after resolving the credentials
+const REQUIRED_FIELDS_BY_PROVIDER: { [provider: string]: string[] } = {
+    [StorageProvider.AzureBlobStorage]: ['accountName', 'credentials.accessKey'],
+    [StorageProvider.AwsS3]: ['region', 'credentials.accessKeyId', 'credentials.secretAccessKey'],
+    [StorageProvider.LocalFileSystem]: ['rootDirectoryPath'],
+    [StorageProvider.InMemory]: []
+};
+
+// The maximum lengths of the storage keys, if the storage has a key mapping without one
+const MAX_KEY_LENGTH_IN_BYTES_BY_PROVIDER: { [provider: string]: number } = {
+    [StorageProvider.AzureBlobStorage]: MAX_AZURE_BLOB_NAME_LENGTH_IN_BYTES,
+    [StorageProvider.AwsS3]: MAX_AWS_S3_KEY_LENGTH_IN_BYTES
+};
+
+/**
+ * The credentials of a storage. The values not given here are read from the credentials file, if
+ * any, and then from the environment variables AZURE_STORAGE_ACCESS_KEY, AWS_ACCESS_KEY_ID and
+ * AWS_SECRET_ACCESS_KEY.
+ */
+export interface CredentialsConfiguration {
+    /**
+     * The access key of an Azure Blob Storage account.
+     */
+    accessKey?: string;
+
+    /**
+     * The access key ID of AWS S3.
+     */
+    accessKeyId?: string;
+
+    /**
+     * The secret access key of AWS S3.
+     */
+    secretAccessKey?: string;
+
+    /**
+     * The path of a JSON or YAML file with the credentials by the section names, e.g.
+     * { "prod-s3": { "accessKeyId": "...", "secretAccessKey": "..." } }. A relative path is
+     * resolved against the working directory.
+     */
+    file?: string;
+
+    /**
+     * The section of the credentials file. The default is the ID of the storage.
+     */
+    section?: string;
+}
+
+/**
+ * The translation of the keys used by the callers to the keys in a storage. The prefix is
+ * rewritten first and the result is then escaped.
+ */
+export interface KeyMappingConfiguration {
+    /**
+     * The prefix of the keys rewritten to storagePrefix. The default is all keys.
+     */
+    prefix?: string;
+
+    /**
+     * The prefix replacing the prefix in the storage, e.g. "prod/".
+     */
+    storagePrefix?: string;
+
+    /**
+     * true to escape the characters with the default options, or the escaping options.
+     */
+    escape?: boolean | EscapingKeyMapperOptions;
+
+    /**
+     * The maximum length of the keys in the storage. The default is the limit of Azure Blob Storage
+     * and AWS S3, and none for the other storages.
+     */
+    maxKeyLengthInBytes?: number;
+}
+
+export interface StorageConfiguration {
+    /**
+     * The ID the storage is registered with. The default is the type, so that the default IDs of
+     * Azure Blob Storage and AWS S3 match StorageType.
+     */
+    id?: string;
+    type: StorageProvider;
+
+    /**
+     * azure-blob-storage: The name of the account.
+     */
+    accountName?: string;
+
+    /**
+     * aws-s3: The region of the buckets, e.g. eu-west-2.
+     */
+    region?: string;
+
+    /**
+     * local-file-system: The path of the root directory.
+     */
+    rootDirectoryPath?: string;
+
+    /**
+     * azure-blob-storage, aws-s3: The URL of the endpoint to use instead of the default one of the
+     * cloud, e.g. an emulator or an S3 compatible service.
+     */
+    endpoint?: string;
+
+    /**
+     * The name of the default container/bucket in this storage. The default is the default
+     * container of the profile translated with containerNameMappings.
+     */
+    defaultContainer?: string;
+
+    /**
+     * The names of the containers/buckets in this storage by the names used by the callers.
+     */
+    containerNameMappings?: { [containerName: string]: string };
+
+    /**
+     * The translation of the keys in this storage, e.g. when the blob names in Azure differ from
+     * the keys in S3.
+     */
+    keyMapping?: KeyMappingConfiguration;
+
+    credentials?: CredentialsConfiguration;
+}
+
+/**
+ * A named set of storages, e.g. for development, staging or production.
+ */
+/**
+ * The choice of the storage a file is read from, see ReadPreferenceOptions. The custom strategy
+ * cannot be configured in a file.
+ */
+export interface ReadPreferenceConfiguration {
+    strategy?: ReadPreferenceStrategy;
+    primaryStorageId?: string;
+    egressCostsPerGB?: { [storageId: string]: number };
+    latencySmoothingFactor?: number;
+    fallbackOnError?: boolean;
+}
+
+/**
+ * The transfers of the large files. The part size and the concurrency apply to the Azure and S3
+ * storages. If the staging directory is given, the large files are replicated through it, see
+ * MultiStorageClient.setTransferOptions().
+ */
+export interface TransferConfiguration {
+    partSizeInBytes?: number;
+    concurrency?: number;
+    stagingDirectoryPath?: string;
+    stagingThresholdInBytes?: number;
+}
+
+export interface ProfileConfiguration {
+    /**
+     * The container/bucket used when the callers give none.
+     */
+    defaultContainer?: string;
+
+    /**
+     * The default is the storages in the order of registration with the fallback on errors.
+     */
+    readPreference?: ReadPreferenceConfiguration;
+
+    /**
+     * The consistency required by the uploads. The default is WriteMode.BestEffort.
+     */
+    writeMode?: WriteMode;
+
+    /**
+     * The default is the multipart transfers with the default part size and concurrency, and the
+     * replication without staging.
+     */
+    transfers?: TransferConfiguration;
+
+    /**
+     * The storages in the order of registration.
+     */
+    storages: StorageConfiguration[];
+}
+
+/**
+ * The configuration of the storages as loaded from a file. Any string value may refer to the
+ * environment variables as ${NAME}. The references are resolved only in the selected profile.
+ */
+export interface Configuration {
+    /**
+     * The profile used when none is selected. The default is DEFAULT_PROFILE_NAME.
+     */
+    defaultProfile?: string;
+    profiles: { [profileName: string]: ProfileConfiguration };
+}
+
+/**
+ * A validated profile with the environment variable references and the credentials resolved.
+ */
+export interface ResolvedProfile extends ProfileConfiguration {
+    name: string;
+}
+
+/**
+ * An invalid configuration. Lists all the problems found instead of the first one.
+ */
+export class ConfigurationError extends Error {
+    /**
+     * The problems, each prefixed with the location in the configuration, e.g.
+     * 'profiles.prod.storages[1].region: required for aws-s3'.
+     */
+    public problems: string[];
+
+    constructor(message: string, problems?: string[]) {
+        problems = problems || [];
+        super(problems.length > 0 ? message + ':\n  - ' + problems.join('\n  - ') : message);
+        this.name = this.constructor.name;
+        this.problems = problems;
+    }
+}
+
+/**
+ * @param filePath The path of a configuration or credentials file.
+ * @return ConfigurationFormat.Yaml for the .yaml and .yml files, ConfigurationFormat.Json otherwise.
+ */
+export function getConfigurationFormat(filePath: string): ConfigurationFormat {
+    return (YAML_FILE_EXTENSIONS.indexOf(path.extname(filePath).toLowerCase()) !== -1 ? ConfigurationFormat.Yaml : ConfigurationFormat.Json);
+}
+
+/**
+ * @param text The content of a configuration or credentials file.
+ * @param format The format of the content. The default is ConfigurationFormat.Json.
+ * @return The parsed content. Throws a ConfigurationError, if the content cannot be parsed or is not an object.
+ */
+export function parseConfiguration(text: string, format?: ConfigurationFormat): any {
+    let result: any = null;
+
+    try {
+        result = (format === ConfigurationFormat.Yaml ? yaml.safeLoad(text) : JSON.parse(text));
+    } catch (error) {
+        throw new ConfigurationError('Failed to parse the configuration: ' + error.message);
+    }
+
+    if (!isObject(result)) {
+        throw new ConfigurationError('The configuration must be an object');
+    }
+
+    return result;
+}
+
+/**
+ * Reads a JSON or YAML configuration or credentials file.
+ *
+ * @param filePath The path of the file. The format is chosen by the extension, see getConfigurationFormat().
+ * @return The parsed content. Rejected with a ConfigurationError, if the file cannot be read or parsed.
+ */
+export function loadConfiguration(filePath: string): Promise<Configuration> {
+    return new Promise<Configuration>(function(resolve, reject) {
+        fs.readFile(filePath, 'utf8', function(error, text) {
+            if (error) {
+                reject(new ConfigurationError('Failed to read the configuration file "' + filePath + '": ' + error.message));
+                return;
+            }
+
+            try {
+                resolve(parseConfiguration(text, getConfigurationFormat(filePath)));
+            } catch (error) {
+                reject(new ConfigurationError('Invalid configuration file "' + filePath + '": ' + error.message));
+            }
+        });
+    });
+}
+
+/**
+ * Selects a profile, resolves its environment variable references and credentials and validates it.
+ *
+ * @param configuration The configuration.
+ * @param profileName The name of the profile (optional). If not given, the profile is selected by
+ * the environment variable PROFILE_ENVIRONMENT_VARIABLE, the default profile of the configuration
+ * or DEFAULT_PROFILE_NAME in this order.
+ * @param env The environment variables. The default is process.env.
+ * @return The resolved profile. Rejected with a ConfigurationError listing all the problems found.
+ */
+export async function resolveProfile(configuration: Configuration, profileName?: string,
+    env?: { [name: string]: string }): Promise<ResolvedProfile> {
+    env = env || process.env;
+    let problems: string[] = [];
+
+    if (!isObject(configuration) || !isObject(configuration.profiles)) {
+        throw new ConfigurationError('Invalid configuration', ['profiles: required']);
+    }
+
+    checkFields(configuration, CONFIGURATION_FIELDS, '', problems);
+    profileName = profileName || env[PROFILE_ENVIRONMENT_VARIABLE] || configuration.defaultProfile || DEFAULT_PROFILE_NAME;
+
+    if (!configuration.profiles.hasOwnProperty(profileName)) {
+        throw new ConfigurationError('Profile "' + profileName + '" not found, the profiles are: '
+            + Object.keys(configuration.profiles).join(', '));
+    }
+
+    const location: string = 'profiles.' + profileName;
+    let profile: ProfileConfiguration = interpolate(configuration.profiles[profileName], env, location, problems);
+
+    if (!isObject(profile)) {
+        throw new ConfigurationError('Invalid configuration', [location + ': must be an object']);
+    }
+
+    checkFields(profile, PROFILE_FIELDS, location, problems);
+    checkType(profile.defaultContainer, 'string', location + '.defaultContainer', problems);
+
+    if (profile.writeMode !== undefined && WRITE_MODES.indexOf(profile.writeMode) === -1) {
+        problems.push(location + '.writeMode: unknown write mode "' + profile.writeMode + '", the write modes are: '
+            + WRITE_MODES.join(', '));
+    }
+
+    if (profile.transfers !== undefined) {
+        checkTransfers(profile.transfers, location + '.transfers', problems);
+    }
+
+    let storages: StorageConfiguration[] = [];
+
+    if (!Array.isArray(profile.storages) || profile.storages.length === 0) {
+        problems.push(location + '.storages: at least one storage is required');
+    } else {
+        let credentialFiles: Map<string, Promise<any>> = new Map<string, Promise<any>>();
+
+        for (let i = 0; i < profile.storages.length; i++) {
+            const storageLocation: string = location + '.storages[' + i + ']';
+
+            if (!isObject(profile.storages[i])) {
+                problems.push(storageLocation + ': must be an object');
+                continue;
+            }
+
+            storages.push(await resolveStorage(profile.storages[i], env, credentialFiles, storageLocation, problems));
+        }
+
+        let storageIds: Set<string> = new Set<string>();
+
+        storages.forEach((storage, index) => {
+            if (storageIds.has(storage.id)) {
+                problems.push(location + '.storages[' + index + '].id: duplicate ID "' + storage.id + '"');
+            }
+
+            storageIds.add(storage.id);
+        });
+
+        if (profile.readPreference !== undefined) {
+            checkReadPreference(profile.readPreference, Array.from(storageIds), location + '.readPreference', problems);
+        }
+    }
+
+    if (problems.length > 0) {
+        throw new ConfigurationError('Invalid configuration of profile "' + profileName + '"', problems);
+    }
+
+    return {
+        name: profileName,
+        defaultContainer: profile.defaultContainer,
+        readPreference: profile.readPreference,
+        writeMode: profile.writeMode,
+        transfers: profile.transfers,
+        storages: storages
+    };
+}
+
+/**
+ * Creates and initializes the storage client of the given storage.
+ *
+ * @param storage The configuration of a storage of a resolved profile.
+ * @param defaultContainer The default container of the profile (optional).
+ * @param transfers The transfers of the profile (optional).
+ * @return The storage client. Wrapped in a KeyMappingStorageClient, if the storage has a key mapping, and in a
+ * ContainerMappingStorageClient, if the storage has container name mappings.
+ */
+export function createStorageClient(storage: StorageConfiguration, defaultContainer?: string,
+    transfers?: TransferConfiguration): IStorageClient<any> {
+    const credentials: CredentialsConfiguration = storage.credentials || {};
+    const transferOptions: TransferOptions = {};
+    const containerNameMappings: { [containerName: string]: string } = storage.containerNameMappings || {};
+    const defaultContainerName: string = storage.defaultContainer
+        || (defaultContainer && containerNameMappings.hasOwnProperty(defaultContainer) ? containerNameMappings[defaultContainer] : defaultContainer);
+    let storageClient: IStorageClient<any> = null;
+
+    if (transfers && transfers.partSizeInBytes) {
+        transferOptions.partSizeInBytes = transfers.partSizeInBytes;
+    }
+
+    if (transfers && transfers.concurrency) {
+        transferOptions.concurrency = transfers.concurrency;
+    }
+
+    switch (storage.type) {
+        case StorageProvider.AzureBlobStorage:
+            let azureBlobStorageClient: AzureBlobStorageClient = new AzureBlobStorageClient();
+            azureBlobStorageClient.initialize(storage.accountName, credentials.accessKey, defaultContainerName, storage.endpoint);
+            azureBlobStorageClient.setTransferOptions(transferOptions);
+            storageClient = azureBlobStorageClient;
+            break;
+        case StorageProvider.AwsS3:
+            let awsS3Client: AwsS3Client = new AwsS3Client();
+            awsS3Client.initialize(credentials.accessKeyId, credentials.secretAccessKey, storage.region,
+                defaultContainerName, undefined, storage.endpoint);
+            awsS3Client.setTransferOptions(transferOptions);
+            storageClient = awsS3Client;
+            break;
+        case StorageProvider.LocalFileSystem:
+            let localFileSystemStorageClient: LocalFileSystemStorageClient = new LocalFileSystemStorageClient();
+            localFileSystemStorageClient.initialize(storage.rootDirectoryPath, defaultContainerName);
+            storageClient = localFileSystemStorageClient;
+            break;
+        case StorageProvider.InMemory:
+            let inMemoryStorageClient: InMemoryStorageClient = new InMemoryStorageClient();
+            inMemoryStorageClient.initialize(defaultContainerName);
+            storageClient = inMemoryStorageClient;
+            break;
+        default:
+            throw new ConfigurationError('Unknown storage type "' + storage.type + '"');
+    }
+
+    if (storage.keyMapping) {
+        storageClient = new KeyMappingStorageClient(storageClient, createKeyMapper(storage.keyMapping), {
+            maxKeyLengthInBytes: storage.keyMapping.maxKeyLengthInBytes || MAX_KEY_LENGTH_IN_BYTES_BY_PROVIDER[storage.type]
+        });
+    }
+
+    if (Object.keys(containerNameMappings).length > 0) {
+        storageClient = new ContainerMappingStorageClient(storageClient, containerNameMappings);
+    }
+
+    return storageClient;
+}
+
+/**
+ * @param profile The resolved profile.
+ * @return A client with the storages of the profile registered in the configured order.
+ */
+export function createMultiStorageClient(profile: ResolvedProfile): MultiStorageClient {
+    let multiStorageClient: MultiStorageClient = new MultiStorageClient();
+
+    profile.storages.forEach((storage) =>
+        multiStorageClient.addStorageClient(storage.id, createStorageClient(storage, profile.defaultContainer, profile.transfers)));
+
+    if (profile.readPreference) {
+        multiStorageClient.setReadPreference(new ReadPreference(profile.readPreference));
+    }
+
+    if (profile.writeMode) {
+        multiStorageClient.setWriteMode(profile.writeMode);
+    }
+
+    if (profile.transfers && profile.transfers.stagingDirectoryPath) {
+        multiStorageClient.setTransferOptions({
+            partSizeInBytes: profile.transfers.partSizeInBytes,
+            concurrency: profile.transfers.concurrency,
+            stagingDirectoryPath: profile.transfers.stagingDirectoryPath,
+            stagingThresholdInBytes: profile.transfers.stagingThresholdInBytes
+        });
+    }
+
+    return multiStorageClient;
+}
+
+/**
+ * Loads the configuration file and creates a client with the storages of the selected profile.
+ *
+ * @param filePath The path of the JSON or YAML configuration file.
+ * @param profileName The name of the profile (optional), see resolveProfile().
+ * @param env The environment variables. The default is process.env.
+ * @return The client. Rejected with a ConfigurationError, if the configuration is invalid.
+ */
+export async function loadMultiStorageClient(filePath: string, profileName?: string,
+    env?: { [name: string]: string }): Promise<MultiStorageClient> {
+    return createMultiStorageClient(await resolveProfile(await loadConfiguration(filePath), profileName, env));
+}
+
+/**
+ * Resolves the ID and the credentials of the given storage and validates it.
+ *
+ * @param storage The configuration of the storage with the environment variable references resolved.
+ * @param env The environment variables.
+ * @param credentialFiles The credentials files read so far by the paths.
+ * @param location The location of the storage in the configuration.
+ * @param problems The problems found, appended to.
+ * @return The resolved storage.
+ */
+async function resolveStorage(storage: StorageConfiguration, env: { [name: string]: string },
+    credentialFiles: Map<string, Promise<any>>, location: string, problems: string[]): Promise<StorageConfiguration> {
+    checkFields(storage, STORAGE_FIELDS, location, problems);
+    ['id', 'accountName', 'region', 'rootDirectoryPath', 'endpoint', 'defaultContainer'].forEach((fieldName) =>
+        checkType(storage[fieldName], 'string', location + '.' + fieldName, problems));
+
+    let resolvedStorage: StorageConfiguration = Object.assign({}, storage, { id: storage.id || storage.type });
+
+    if (!REQUIRED_FIELDS_BY_PROVIDER.hasOwnProperty(storage.type)) {
+        problems.push(location + '.type: ' + (storage.type === undefined ? 'required' : 'unknown type "' + storage.type + '"')
+            + ', the types are: ' + Object.keys(REQUIRED_FIELDS_BY_PROVIDER).join(', '));
+        return resolvedStorage;
+    }
+
+    if (storage.endpoint && !isHttpUrl(storage.endpoint)) {
+        problems.push(location + '.endpoint: not an http or https URL: "' + storage.endpoint + '"');
+    }
+
+    if (storage.containerNameMappings !== undefined) {
+        if (!isObject(storage.containerNameMappings)) {
+            problems.push(location + '.containerNameMappings: must be an object');
+        } else {
+            Object.keys(storage.containerNameMappings).forEach((containerName) =>
+                checkType(storage.containerNameMappings[containerName], 'string',
+                    location + '.containerNameMappings.' + containerName, problems));
+        }
+    }
+
+    if (storage.keyMapping !== undefined) {
+        checkKeyMapping(storage.keyMapping, location + '.keyMapping', problems);
+    }
+
+    let credentials: CredentialsConfiguration = {};
+
+    if (storage.credentials !== undefined) {
+        if (!isObject(storage.credentials)) {
+            problems.push(location + '.credentials: must be an object');
+        } else {
+            checkFields(storage.credentials, CREDENTIALS_FIELDS, location + '.credentials', problems);
+            credentials = Object.assign({}, storage.credentials);
+        }
+    }
+
+    if (credentials.file) {
+        const section: string = credentials.section || resolvedStorage.id;
+        let credentialsFileContent: any = null;
+
+        if (!credentialFiles.has(credentials.file)) {
+            credentialFiles.set(credentials.file, loadConfiguration(credentials.file));
+        }
+
+        try {
+            credentialsFileContent = await credentialFiles.get(credentials.file);
+        } catch (error) {
+            problems.push(location + '.credentials.file: ' + error.message);
+        }
+
+        if (credentialsFileContent && !isObject(credentialsFileContent[section])) {
+            problems.push(location + '.credentials.section: section "' + section + '" not found in "' + credentials.file + '"');
+        } else if (credentialsFileContent) {
+            Object.keys(CREDENTIAL_ENVIRONMENT_VARIABLES).forEach((credentialName) =>
+                credentials[credentialName] = credentials[credentialName] || credentialsFileContent[section][credentialName]);
+        }
+    }
+
+    Object.keys(CREDENTIAL_ENVIRONMENT_VARIABLES).forEach((credentialName) =>
+        credentials[credentialName] = credentials[credentialName] || env[CREDENTIAL_ENVIRONMENT_VARIABLES[credentialName]]);
+
+    resolvedStorage.credentials = {
+        accessKey: credentials.accessKey,
+        accessKeyId: credentials.accessKeyId,
+        secretAccessKey: credentials.secretAccessKey
+    };
+
+    REQUIRED_FIELDS_BY_PROVIDER[storage.type].forEach((fieldPath) => {
+        const value: any = fieldPath.split('.').reduce((object, fieldName) => (object ? object[fieldName] : undefined), resolvedStorage);
+
+        if (!value) {
+            const credentialName: string = fieldPath.split('.')[1];
+            problems.push(location + '.' + fieldPath + ': required for ' + storage.type
+                + (credentialName ? ' (or set ' + CREDENTIAL_ENVIRONMENT_VARIABLES[credentialName] + ')' : ''));
+        }
+    });
+
+    return resolvedStorage;
+}
+
+/**
+ * @param value The value to resolve the environment variable references of.
+ * @param env The environment variables.
+ * @param location The location of the value in the configuration.
+ * @param problems The problems found, appended to.
+ * @return A copy of the value with the references replaced by the values of the variables.
+ */
+function interpolate(value: any, env: { [name: string]: string }, location: string, problems: string[]): any {
+    if (typeof value === 'string') {
+        return value.replace(ENVIRONMENT_VARIABLE_PATTERN, function(reference: string, name: string) {
+            if (env[name] === undefined) {
+                problems.push(location + ': environment variable ' + name + ' is not set');
+                return '';
+            }
+
+            return env[name];
+        });
+    }
+
+    if (Array.isArray(value)) {
+        return value.map((item, index) => interpolate(item, env, location + '[' + index + ']', problems));
+    }
+
+    if (isObject(value)) {
+        let result: any = {};
+        Object.keys(value).forEach((key) => result[key] = interpolate(value[key], env, location + '.' + key, problems));
+        return result;
+    }
+
+    return value;
+}
+
+/**
+ * @param keyMapping The validated key mapping of a storage.
+ * @return The key mapper rewriting the prefix and then escaping the keys, as configured.
+ */
+function createKeyMapper(keyMapping: KeyMappingConfiguration): KeyMapper {
+    let keyMappers: KeyMapper[] = [];
+
+    if (keyMapping.prefix || keyMapping.storagePrefix) {
+        keyMappers.push(new PrefixKeyMapper(keyMapping.prefix, keyMapping.storagePrefix));
+    }
+
+    if (keyMapping.escape) {
+        keyMappers.push(new EscapingKeyMapper(keyMapping.escape === true ? {} : keyMapping.escape as EscapingKeyMapperOptions));
+    }
+
+    return (keyMappers.length === 1 ? keyMappers[0] : new ChainedKeyMapper(keyMappers));
+}
+
+/**
+ * Reports the problems of the key mapping of a storage.
+ */
+function checkKeyMapping(keyMapping: KeyMappingConfiguration, location: string, problems: string[]) {
+    if (!isObject(keyMapping)) {
+        problems.push(location + ': must be an object');
+        return;
+    }
+
+    checkFields(keyMapping, KEY_MAPPING_FIELDS, location, problems);
+    checkType(keyMapping.prefix, 'string', location + '.prefix', problems);
+    checkType(keyMapping.storagePrefix, 'string', location + '.storagePrefix', problems);
+
+    if (keyMapping.maxKeyLengthInBytes !== undefined
+        && !(typeof keyMapping.maxKeyLengthInBytes === 'number' && keyMapping.maxKeyLengthInBytes > 0 && keyMapping.maxKeyLengthInBytes % 1 === 0)) {
+        problems.push(location + '.maxKeyLengthInBytes: must be a positive integer');
+    }
+
+    if (keyMapping.escape === undefined || typeof keyMapping.escape === 'boolean') {
+        return;
+    }
+
+    if (!isObject(keyMapping.escape)) {
+        problems.push(location + '.escape: must be a boolean or an object');
+        return;
+    }
+
+    const escape: EscapingKeyMapperOptions = keyMapping.escape as EscapingKeyMapperOptions;
+    checkFields(escape, ESCAPE_FIELDS, location + '.escape', problems);
+    checkType(escape.charactersToEscape, 'string', location + '.escape.charactersToEscape', problems);
+    ['escapeTrailingDotsAndSlashes', 'escapeLeadingSlashes', 'escapeUpperCase'].forEach((fieldName) =>
+        checkType(escape[fieldName], 'boolean', location + '.escape.' + fieldName, problems));
+
+    if (escape.escapeCharacter !== undefined && !(typeof escape.escapeCharacter === 'string' && escape.escapeCharacter.length === 1
+        && !/[0-9a-zA-Z]/.test(escape.escapeCharacter))) {
+        problems.push(location + '.escape.escapeCharacter: must be a single character other than a letter or a digit');
+    }
+}
+
+/**
+ * Reports the problems of the transfers of a profile.
+ */
+function checkTransfers(transfers: TransferConfiguration, location: string, problems: string[]) {
+    if (!isObject(transfers)) {
+        problems.push(location + ': must be an object');
+        return;
+    }
+
+    checkFields(transfers, TRANSFER_FIELDS, location, problems);
+    checkType(transfers.stagingDirectoryPath, 'string', location + '.stagingDirectoryPath', problems);
+
+    ['concurrency', 'stagingThresholdInBytes'].forEach((fieldName) => {
+        const value: any = transfers[fieldName];
+
+        if (value !== undefined && !(typeof value === 'number' && value > 0 && value % 1 === 0)) {
+            problems.push(location + '.' + fieldName + ': must be a positive integer');
+        }
+    });
+
+    // The minimum part size of S3 and the maximum block size of Azure
+    if (transfers.partSizeInBytes !== undefined && !(typeof transfers.partSizeInBytes === 'number' && transfers.partSizeInBytes % 1 === 0
+        && transfers.partSizeInBytes >= MIN_AWS_S3_PART_SIZE_IN_BYTES && transfers.partSizeInBytes <= MAX_AZURE_BLOCK_SIZE_IN_BYTES)) {
+        problems.push(location + '.partSizeInBytes: must be an integer between ' + MIN_AWS_S3_PART_SIZE_IN_BYTES
+            + ' and ' + MAX_AZURE_BLOCK_SIZE_IN_BYTES);
+    }
+}
+
+/**
+ * Reports the problems of the read preference of a profile.
+ */
+function checkReadPreference(readPreference: ReadPreferenceConfiguration, storageIds: string[], location: string, problems: string[]) {
+    if (!isObject(readPreference)) {
+        problems.push(location + ': must be an object');
+        return;
+    }
+
+    const strategies: string[] = [ReadPreferenceStrategy.Primary, ReadPreferenceStrategy.LowestLatency, ReadPreferenceStrategy.LowestCost];
+    checkFields(readPreference, READ_PREFERENCE_FIELDS, location, problems);
+    checkType(readPreference.fallbackOnError, 'boolean', location + '.fallbackOnError', problems);
+
+    if (readPreference.strategy !== undefined && strategies.indexOf(readPreference.strategy) === -1) {
+        problems.push(location + '.strategy: unknown strategy "' + readPreference.strategy + '", the strategies are: '
+            + strategies.join(', '));
+    }
+
+    if (readPreference.primaryStorageId !== undefined && storageIds.indexOf(readPreference.primaryStorageId) === -1) {
+        problems.push(location + '.primaryStorageId: unknown storage ID "' + readPreference.primaryStorageId + '"');
+    }
+
+    if (readPreference.latencySmoothingFactor !== undefined && !(typeof readPreference.latencySmoothingFactor === 'number'
+        && readPreference.latencySmoothingFactor > 0 && readPreference.latencySmoothingFactor <= 1)) {
+        problems.push(location + '.latencySmoothingFactor: must be a number greater than 0 and at most 1');
+    }
+
+    if (readPreference.egressCostsPerGB === undefined) {
+        return;
+    }
+
+    if (!isObject(readPreference.egressCostsPerGB)) {
+        problems.push(location + '.egressCostsPerGB: must be an object');
+        return;
+    }
+
+    Object.keys(readPreference.egressCostsPerGB).forEach((storageId) => {
+        const egressCostPerGB: any = readPreference.egressCostsPerGB[storageId];
+
+        if (storageIds.indexOf(storageId) === -1) {
+            problems.push(location + '.egressCostsPerGB.' + storageId + ': unknown storage ID');
+        } else if (!(typeof egressCostPerGB === 'number' && egressCostPerGB >= 0)) {
+            problems.push(location + '.egressCostsPerGB.' + storageId + ': must be a non-negative number');
+        }
+    });
+}
+
+/**
+ * Reports the unknown fields of the given object, e.g. misspelled ones.
+ */
+function checkFields(object: any, knownFieldNames: string[], location: string, problems: string[]) {
+    Object.keys(object).forEach((fieldName) => {
+        if (knownFieldNames.indexOf(fieldName) === -1) {
+            problems.push((location ? location + '.' : '') + fieldName + ': unknown field');
+        }
+    });
+}
+
+/**
+ * Reports the given value, if defined and not of the given type.
+ */
+function checkType(value: any, typeName: string, location: string, problems: string[]) {
+    if (value !== undefined && value !== null && typeof value !== typeName) {
+        problems.push(location + ': must be a ' + typeName);
+    }
+}
+
+function isObject(value: any): boolean {
+    return (value !== null && typeof value === 'object' && !Array.isArray(value));
+}
+
+function isHttpUrl(value: string): boolean {
+    const protocol: string = url.parse(value).protocol;
+    return (protocol === 'http:' || protocol === 'https:');
+}
@@ -0,0 +1,117 @@
+import { StorageFileProperties } from './storage-client';
+
+/**
+ * Policies for resolving the conflict when the copies of a file differ between storages.
+ */
+export enum ConflictResolutionPolicy {
+    /**
+     * The most recently modified copy is served and copied over the others.
+     */
+    NewestWins = 'newest-wins',
+
+    /**
+     * The copy in the first registered storage is served and copied over the others.
+     */
+    PrimaryWins = 'primary-wins',
+
+    /**
+     * The copy in the first registered storage is served, but nothing is repaired.
+     */
+    ReportOnly = 'report-only'
+};
+
+/**
+ * The decision made when the copies of a file were found to differ.
+ */
+export interface ConflictResolution {
+    policy: ConflictResolutionPolicy;
+
+    /**
+     * The properties of the file in each storage containing it.
+     */
+    filePropertiesByStorage: { [storageId: string]: StorageFileProperties };
+
+    /**
+     * The ID of the storage holding the copy considered correct.
+     */
+    winningStorageId: string;
+
+    /**
+     * The IDs of the storages holding a copy that differs from the winning one.
+     */
+    staleStorageIds: string[];
+
+    /**
+     * The IDs of the storages where the stale copy is overwritten with the winning one.
+     */
+    repairedStorageIds: string[];
+}
+
+/**
+ * Checks whether the given properties describe the same content. The MD5 hashes are compared
+ * when known for both copies, otherwise only the sizes. The modification times are not compared,
+ * since a replica is always written after the original.
+ *
+ * @param a The properties of a copy.
+ * @param b The properties of another copy.
+ * @return True, if the copies are considered identical. False otherwise.
+ */
+export function filePropertiesMatch(a: StorageFileProperties, b: StorageFileProperties): boolean {
+    if (a.size !== b.size) {
+        return false;
+    }
+
+    if (a.contentMD5 && b.contentMD5) {
+        return (a.contentMD5 === b.contentMD5);
+    }
+
+    return true;
+}
+
+/**
+ * Compares the copies of a file and decides which one is correct.
+ *
+ * @param policy The conflict resolution policy.
+ * @param filePropertiesByStorage The properties of the file in each storage containing it in the
+ * order of preference (the primary storage first).
+ * @return The decision or null, if all the copies match.
+ */
+export function resolveConflict(policy: ConflictResolutionPolicy,
+    filePropertiesByStorage: Map<string, StorageFileProperties>): ConflictResolution {
+    let storageIds: string[] = Array.from(filePropertiesByStorage.keys());
+
+    if (storageIds.length === 0) {
+        return null;
+    }
+
+    let winningStorageId: string = storageIds[0];
+
+    if (policy === ConflictResolutionPolicy.NewestWins) {
+        storageIds.forEach((storageId) => {
+            // Ties are won by the storage registered first
+            if (filePropertiesByStorage.get(storageId).lastModified.getTime()
+                > filePropertiesByStorage.get(winningStorageId).lastModified.getTime()) {
+                winningStorageId = storageId;
+            }
+        });
+    }
+
+    const winningFileProperties: StorageFileProperties = filePropertiesByStorage.get(winningStorageId);
+    let staleStorageIds: string[] = storageIds.filter((storageId) =>
+        !filePropertiesMatch(filePropertiesByStorage.get(storageId), winningFileProperties));
+
+    if (staleStorageIds.length === 0) {
+        return null;
+    }
+
+    let filePropertiesByStorageAsObject: { [storageId: string]: StorageFileProperties } = {};
+    filePropertiesByStorage.forEach((fileProperties, storageId) => filePropertiesByStorageAsObject[storageId] = fileProperties);
+
+    return {
+        policy: policy,
+        filePropertiesByStorage: filePropertiesByStorageAsObject,
+        winningStorageId: winningStorageId,
+        staleStorageIds: staleStorageIds,
+        repairedStorageIds: (policy === ConflictResolutionPolicy.ReportOnly ? [] : staleStorageIds.slice())
+    };
+}
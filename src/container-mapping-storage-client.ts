@@ -0,0 +1,176 @@
+import { Readable } from 'stream';
+import {
+    IStorageClient, ListOptions, MetadataUpdatingStorageClient, SignedUrlOptions, StorageFileMetadata, StorageFileProperties,
+    StorageListEntry, UrlCopyingStorageClient, copyFileFromUrl, setUserMetadata
+} from './storage-client';
+import {
+    ResumableStorageClient, ResumableTransferOptions, downloadFileToDiskResumable, uploadFileResumable
+} from './resumable-transfers';
+
+/**
+ * A storage client translating the container/bucket names before passing the calls to the wrapped
+ * storage client, e.g. when the S3 buckets are named differently from the Azure containers.
+ * The names without a mapping and the default container/bucket (no name given) are passed as is.
+ * The upload and copy results and the listing result are those of the wrapped storage client.
+ */
+export class ContainerMappingStorageClient<TUploadResult = void, TListResult extends object = object>
+    implements IStorageClient<TUploadResult, TListResult>,
+    ResumableStorageClient, MetadataUpdatingStorageClient, UrlCopyingStorageClient {
+    protected storageClient: IStorageClient<TUploadResult, TListResult>;
+    protected containerNameMappings: { [containerName: string]: string };
+
+    /**
+     * @param storageClient The storage client to wrap.
+     * @param containerNameMappings The names in the wrapped storage by the container/bucket names
+     * used by the callers.
+     */
+    constructor(storageClient: IStorageClient<TUploadResult, TListResult>, containerNameMappings: { [containerName: string]: string }) {
+        this.storageClient = storageClient;
+        this.containerNameMappings = Object.assign({}, containerNameMappings);
+    }
+
+    /**
+     * @return The wrapped storage client.
+     */
+    public getStorageClient(): IStorageClient<TUploadResult, TListResult> {
+        return this.storageClient;
+    }
+
+    /**
+     * @param containerOrBucketName The name of the container/bucket used by the callers.
+     * @return The name in the wrapped storage.
+     */
+    public mapContainerName(containerOrBucketName: string): string {
+        if (containerOrBucketName && this.containerNameMappings.hasOwnProperty(containerOrBucketName)) {
+            return this.containerNameMappings[containerOrBucketName];
+        }
+
+        return containerOrBucketName;
+    }
+
+    public isInitialized(): boolean {
+        return this.storageClient.isInitialized();
+    }
+
+    public initialize(...initializationArguments: string[]) {
+        this.storageClient.initialize(...initializationArguments);
+    }
+
+    public keepsUserMetadata(): boolean {
+        return this.storageClient.keepsUserMetadata();
+    }
+
+    public fileExists(storageFilePath: string, containerOrBucketName?: string): Promise<boolean> {
+        return this.storageClient.fileExists(storageFilePath, this.mapContainerName(containerOrBucketName));
+    }
+
+    public getFileProperties(storageFilePath: string, containerOrBucketName?: string): Promise<StorageFileProperties> {
+        return this.storageClient.getFileProperties(storageFilePath, this.mapContainerName(containerOrBucketName));
+    }
+
+    public listFilesWithPrefix(storageFileNamePrefix: string, containerOrBucketName?: string): Promise<TListResult> {
+        return this.storageClient.listFilesWithPrefix(storageFileNamePrefix, this.mapContainerName(containerOrBucketName));
+    }
+
+    public listFileNamesWithPrefix(storageFileNamePrefix?: string, containerOrBucketName?: string): Promise<string[]> {
+        return this.storageClient.listFileNamesWithPrefix(storageFileNamePrefix, this.mapContainerName(containerOrBucketName));
+    }
+
+    public listFiles(storageFileNamePrefix?: string, containerOrBucketName?: string,
+        options?: ListOptions): AsyncIterableIterator<StorageListEntry> {
+        return this.storageClient.listFiles(storageFileNamePrefix, this.mapContainerName(containerOrBucketName), options);
+    }
+
+    public downloadFile(storageFilePath: string, containerOrBucketName?: string): Promise<Buffer> {
+        return this.storageClient.downloadFile(storageFilePath, this.mapContainerName(containerOrBucketName));
+    }
+
+    public downloadFileToDisk(storageFilePath: string, localFilePath: string, containerOrBucketName?: string): Promise<void> {
+        return this.storageClient.downloadFileToDisk(storageFilePath, localFilePath, this.mapContainerName(containerOrBucketName));
+    }
+
+    /**
+     * Passed to the wrapped storage client, if resumable. Downloaded in a single attempt otherwise.
+     */
+    public downloadFileToDiskResumable(storageFilePath: string, localFilePath: string, containerOrBucketName?: string,
+        options?: ResumableTransferOptions): Promise<void> {
+        return downloadFileToDiskResumable(this.storageClient, storageFilePath, localFilePath,
+            this.mapContainerName(containerOrBucketName), options);
+    }
+
+    public downloadFileAsStream(storageFilePath: string, containerOrBucketName?: string): Promise<Readable> {
+        return this.storageClient.downloadFileAsStream(storageFilePath, this.mapContainerName(containerOrBucketName));
+    }
+
+    public downloadFileAsBuffer(storageFilePath: string, containerOrBucketName?: string): Promise<Buffer> {
+        return this.storageClient.downloadFileAsBuffer(storageFilePath, this.mapContainerName(containerOrBucketName));
+    }
+
+    public uploadFile(localFilePath: string, storageFilePath: string, containerOrBucketName?: string,
+        contentTypeOrMetadata?: string | StorageFileMetadata): Promise<TUploadResult> {
+        return this.storageClient.uploadFile(localFilePath, storageFilePath,
+            this.mapContainerName(containerOrBucketName), contentTypeOrMetadata);
+    }
+
+    /**
+     * Passed to the wrapped storage client, if resumable. Uploaded in a single attempt otherwise.
+     */
+    public uploadFileResumable(localFilePath: string, storageFilePath: string, containerOrBucketName?: string,
+        contentTypeOrMetadata?: string | StorageFileMetadata, options?: ResumableTransferOptions): Promise<void> {
+        return uploadFileResumable(this.storageClient, localFilePath, storageFilePath,
+            this.mapContainerName(containerOrBucketName), contentTypeOrMetadata, options);
+    }
+
+    public uploadStream(readStream: Readable, storageFilePath: string, containerOrBucketName?: string,
+        contentTypeOrMetadata?: string | StorageFileMetadata): Promise<TUploadResult> {
+        return this.storageClient.uploadStream(readStream, storageFilePath,
+            this.mapContainerName(containerOrBucketName), contentTypeOrMetadata);
+    }
+
+    public uploadBuffer(buffer: Buffer, storageFilePath: string, containerOrBucketName?: string,
+        contentTypeOrMetadata?: string | StorageFileMetadata): Promise<TUploadResult> {
+        return this.storageClient.uploadBuffer(buffer, storageFilePath,
+            this.mapContainerName(containerOrBucketName), contentTypeOrMetadata);
+    }
+
+    /**
+     * Passed to the wrapped storage client. Rejected, if it cannot replace the metadata.
+     */
+    public setUserMetadata(storageFilePath: string, userMetadata: { [key: string]: string }, containerOrBucketName?: string,
+        etag?: string): Promise<void> {
+        return setUserMetadata(this.storageClient, storageFilePath, userMetadata, this.mapContainerName(containerOrBucketName), etag);
+    }
+
+    public copyFile(sourceStorageFilePath: string, targetStorageFilePath: string, containerOrBucketName?: string,
+        targetContainerOrBucketName?: string): Promise<TUploadResult> {
+        return this.storageClient.copyFile(sourceStorageFilePath, targetStorageFilePath, this.mapContainerName(containerOrBucketName),
+            this.mapContainerName(targetContainerOrBucketName));
+    }
+
+    public moveFile(sourceStorageFilePath: string, targetStorageFilePath: string, containerOrBucketName?: string,
+        targetContainerOrBucketName?: string): Promise<TUploadResult> {
+        return this.storageClient.moveFile(sourceStorageFilePath, targetStorageFilePath, this.mapContainerName(containerOrBucketName),
+            this.mapContainerName(targetContainerOrBucketName));
+    }
+
+    public getSignedUrl(storageFilePath: string, containerOrBucketName?: string, options?: SignedUrlOptions): Promise<string> {
+        return this.storageClient.getSignedUrl(storageFilePath, this.mapContainerName(containerOrBucketName), options);
+    }
+
+    /**
+     * Passed to the wrapped storage client. Rejected, if it cannot copy from URLs.
+     */
+    public copyFileFromUrl(sourceUrl: string, storageFilePath: string, containerOrBucketName?: string,
+        contentTypeOrMetadata?: string | StorageFileMetadata): Promise<void> {
+        return copyFileFromUrl(this.storageClient, sourceUrl, storageFilePath, this.mapContainerName(containerOrBucketName),
+            contentTypeOrMetadata);
+    }
+
+    public deleteFiles(storageFilePaths: string[], containerOrBucketName?: string): Promise<void> {
+        return this.storageClient.deleteFiles(storageFilePaths, this.mapContainerName(containerOrBucketName));
+    }
+
+    public deleteFile(storageFilePath: string, containerOrBucketName?: string): Promise<void> {
+        return this.storageClient.deleteFile(storageFilePath, this.mapContainerName(containerOrBucketName));
+    }
+}
@@ -0,0 +1,435 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Logger } from './logger';
+import { StorageFileProperties } from './storage-client';
+
+export const DEFAULT_DISK_CACHE_MAX_SIZE_IN_BYTES = 1024 * 1024 * 1024;
+const INDEX_FILE_NAME = 'index.json';
+const INDEX_VERSION = 1;
+const TEMPORARY_FILE_EXTENSION = '.tmp';
+const ERROR_CODE_FILE_NOT_FOUND = 'ENOENT';
+const ERROR_CODE_FILE_EXISTS = 'EEXIST';
+
+export interface DiskCacheOptions {
+    /**
+     * The directory of the cached files. Created, if it does not exist.
+     */
+    directoryPath: string;
+
+    /**
+     * The maximum total size of the cached files. The least recently used files are evicted when
+     * exceeded. The default is DEFAULT_DISK_CACHE_MAX_SIZE_IN_BYTES.
+     */
+    maxSizeInBytes?: number;
+
+    /**
+     * The logger of the unreadable index, which is discarded. The default is the console.
+     */
+    logger?: Logger;
+}
+
+/**
+ * A cached file.
+ */
+export interface DiskCacheEntry {
+    key: string;
+    fileName: string;
+    size: number;
+
+    /**
+     * The ID of the storage the file was downloaded from.
+     */
+    storageId: string;
+
+    /**
+     * The ETag of the file in the storage or null, if not known.
+     */
+    etag: string;
+
+    /**
+     * The last modified time of the file in the storage in milliseconds since the epoch or null,
+     * if not known.
+     */
+    lastModified: number;
+
+    /**
+     * The time the file was last read from the cache in milliseconds since the epoch.
+     */
+    lastAccessTime: number;
+}
+
+export interface DiskCacheStatistics {
+    hits: number;
+
+    /**
+     * The number of reads of files not cached or changed in the storage since cached.
+     */
+    misses: number;
+
+    evictions: number;
+    entryCount: number;
+    sizeInBytes: number;
+}
+
+/**
+ * Retrieves the current properties of the cached file from the storage it was downloaded from.
+ *
+ * @param entry The cache entry.
+ * @return The properties or null, if the file no longer exists or cannot be checked.
+ */
+export type FilePropertiesProvider = (entry: DiskCacheEntry) => Promise<StorageFileProperties>;
+
+/**
+ * A local directory of downloaded files with a size cap and least recently used eviction. The
+ * cached files are validated against the ETag (or the last modified time and the size) of the file
+ * in the storage before they are used. The index of the cache is saved to the directory on every
+ * change, so the cache survives restarts. The access times of the hits are saved with the next change.
+ */
+export class DiskCache {
+    protected options: DiskCacheOptions;
+
+    // In the order of use, the least recently used first
+    protected entries: Map<string, DiskCacheEntry> = new Map<string, DiskCacheEntry>();
+    protected sizeInBytes: number = 0;
+    protected hits: number = 0;
+    protected misses: number = 0;
+    protected evictions: number = 0;
+    protected indexSaving: Promise<any> = Promise.resolve();
+
+    /**
+     * @param options The options of the cache.
+     */
+    constructor(options: DiskCacheOptions) {
+        this.options = Object.assign({
+            maxSizeInBytes: DEFAULT_DISK_CACHE_MAX_SIZE_IN_BYTES,
+            logger: console
+        }, options);
+    }
+
+    /**
+     * Creates the cache directory, if necessary, and loads the index of the cached files. The
+     * entries whose files are missing are dropped. An index that cannot be parsed is logged and
+     * discarded, so the cache starts empty.
+     *
+     * @return Null, if successful. An error otherwise.
+     */
+    public async initialize(): Promise<any> {
+        let directoryPath: string = this.options.directoryPath;
+        let indexFilePath: string = path.join(directoryPath, INDEX_FILE_NAME);
+        let logger: Logger = this.options.logger;
+
+        await new Promise(function(resolve, reject) {
+            fs.mkdir(directoryPath, function(error) {
+                if (error && error.code !== ERROR_CODE_FILE_EXISTS) {
+                    reject(error);
+                } else {
+                    resolve();
+                }
+            });
+        });
+
+        const index = await new Promise<any>(function(resolve, reject) {
+            fs.readFile(indexFilePath, 'utf8', function(error, data) {
+                if (error && error.code === ERROR_CODE_FILE_NOT_FOUND) {
+                    resolve(null);
+                } else if (error) {
+                    reject(error);
+                } else {
+                    try {
+                        resolve(JSON.parse(data));
+                    } catch (error) {
+                        logger.warn('Discarding the invalid disk cache index "' + indexFilePath + '": ' + error.message);
+                        resolve(null);
+                    }
+                }
+            });
+        });
+
+        this.entries.clear();
+        this.sizeInBytes = 0;
+
+        let entries: DiskCacheEntry[] = ((index && index.entries) || []).slice();
+        entries.sort((a, b) => a.lastAccessTime - b.lastAccessTime);
+
+        for (const entry of entries) {
+            if (await this.cachedFileExists(entry)) {
+                this.entries.set(entry.key, entry);
+                this.sizeInBytes += entry.size;
+            }
+        }
+
+        await this.evict();
+        return this.saveIndex();
+    }
+
+    /**
+     * @param key The key of the file.
+     * @return A copy of the cache entry of the given file or null, if not cached.
+     */
+    public getEntry(key: string): DiskCacheEntry {
+        const entry: DiskCacheEntry = this.entries.get(key);
+        return (entry ? Object.assign({}, entry) : null);
+    }
+
+    /**
+     * Looks up the given file. The cached file is used only if it matches the file in the storage;
+     * a stale file is removed from the cache.
+     *
+     * @param key The key of the file.
+     * @param getFileProperties Retrieves the current properties of the file in the storage.
+     * @return The path of the cached file or null, if not cached or stale.
+     */
+    public async get(key: string, getFileProperties: FilePropertiesProvider): Promise<string> {
+        const entry: DiskCacheEntry = this.entries.get(key);
+
+        if (!entry) {
+            this.misses++;
+            return null;
+        }
+
+        const fileProperties: StorageFileProperties = await getFileProperties(Object.assign({}, entry));
+
+        // The file may have been replaced or evicted meanwhile
+        if (this.entries.get(key) !== entry || fileProperties === null || !this.isValid(entry, fileProperties)) {
+            this.misses++;
+
+            if (this.entries.get(key) === entry) {
+                await this.remove(key);
+            }
+
+            return null;
+        }
+
+        this.hits++;
+        entry.lastAccessTime = Date.now();
+        this.entries.delete(key);
+        this.entries.set(key, entry);
+        return this.getCachedFilePath(entry);
+    }
+
+    /**
+     * Adds the given file to the cache, replacing the cached copy, if any, and evicts the least
+     * recently used files, if the maximum size is exceeded. A file larger than the maximum size is
+     * neither downloaded nor cached.
+     *
+     * @param key The key of the file.
+     * @param storageId The ID of the storage the file is downloaded from.
+     * @param fileProperties The properties of the file in the storage, retrieved before downloading.
+     * @param download Writes the content of the file to the given path.
+     * @return The path of the cached file or null, if the file is too large to cache.
+     */
+    public async put(key: string, storageId: string, fileProperties: StorageFileProperties,
+        download: (localFilePath: string) => Promise<any>): Promise<string> {
+        const fileName: string = crypto.randomBytes(16).toString('hex');
+        const temporaryFilePath: string = path.join(this.options.directoryPath, fileName + TEMPORARY_FILE_EXTENSION);
+        let entry: DiskCacheEntry = {
+            key: key,
+            fileName: fileName,
+            size: 0,
+            storageId: storageId,
+            etag: fileProperties.etag || null,
+            lastModified: (fileProperties.lastModified ? fileProperties.lastModified.getTime() : null),
+            lastAccessTime: Date.now()
+        };
+
+        if (fileProperties.size > this.options.maxSizeInBytes) {
+            return null;
+        }
+
+        try {
+            await download(temporaryFilePath);
+            entry.size = await this.getFileSize(temporaryFilePath);
+
+            if (entry.size > this.options.maxSizeInBytes) {
+                await this.removeFile(temporaryFilePath);
+                return null;
+            }
+
+            await this.renameFile(temporaryFilePath, this.getCachedFilePath(entry));
+        } catch (error) {
+            await this.removeFile(temporaryFilePath).catch(() => null);
+            throw error;
+        }
+
+        if (this.entries.has(key)) {
+            await this.remove(key);
+        }
+
+        this.entries.set(key, entry);
+        this.sizeInBytes += entry.size;
+        await this.evict();
+        await this.saveIndex();
+        return this.getCachedFilePath(entry);
+    }
+
+    /**
+     * Removes the given file from the cache.
+     *
+     * @param key The key of the file.
+     * @return True, if the file was cached. False otherwise.
+     */
+    public async remove(key: string): Promise<boolean> {
+        const entry: DiskCacheEntry = this.entries.get(key);
+
+        if (!entry) {
+            return false;
+        }
+
+        this.entries.delete(key);
+        this.sizeInBytes -= entry.size;
+        await this.removeFile(this.getCachedFilePath(entry));
+        await this.saveIndex();
+        return true;
+    }
+
+    /**
+     * Removes all the files from the cache. The statistics are not reset.
+     */
+    public async clear(): Promise<void> {
+        for (const key of Array.from(this.entries.keys())) {
+            await this.remove(key);
+        }
+    }
+
+    /**
+     * @return The number of hits, misses and evictions since created and the current size.
+     */
+    public getStatistics(): DiskCacheStatistics {
+        return {
+            hits: this.hits,
+            misses: this.misses,
+            evictions: this.evictions,
+            entryCount: this.entries.size,
+            sizeInBytes: this.sizeInBytes
+        };
+    }
+
+    /**
+     * @param entry The cache entry.
+     * @param fileProperties The current properties of the file in the storage.
+     * @return True, if the cached file matches the file in the storage.
+     */
+    protected isValid(entry: DiskCacheEntry, fileProperties: StorageFileProperties): boolean {
+        if (entry.etag && fileProperties.etag) {
+            return (entry.etag === fileProperties.etag);
+        }
+
+        return (entry.size === fileProperties.size && entry.lastModified !== null && !!fileProperties.lastModified
+            && entry.lastModified === fileProperties.lastModified.getTime());
+    }
+
+    /**
+     * Evicts the least recently used files until the total size is within the maximum size.
+     */
+    protected async evict() {
+        while (this.sizeInBytes > this.options.maxSizeInBytes && this.entries.size > 0) {
+            const leastRecentlyUsedEntry: DiskCacheEntry = this.entries.values().next().value;
+            this.entries.delete(leastRecentlyUsedEntry.key);
+            this.sizeInBytes -= leastRecentlyUsedEntry.size;
+            this.evictions++;
+            await this.removeFile(this.getCachedFilePath(leastRecentlyUsedEntry));
+        }
+    }
+
+    /**
+     * @param entry The cache entry.
+     * @return The path of the cached file.
+     */
+    protected getCachedFilePath(entry: DiskCacheEntry): string {
+        return path.join(this.options.directoryPath, entry.fileName);
+    }
+
+    /**
+     * @param entry The cache entry.
+     * @return True, if the cached file exists.
+     */
+    protected cachedFileExists(entry: DiskCacheEntry): Promise<boolean> {
+        return this.getFileSize(this.getCachedFilePath(entry)).then((size) => size === entry.size, () => false);
+    }
+
+    /**
+     * @param filePath The path of the file.
+     * @return The size of the file.
+     */
+    protected getFileSize(filePath: string): Promise<number> {
+        return new Promise<number>(function(resolve, reject) {
+            fs.stat(filePath, function(error, stats) {
+                if (error) {
+                    reject(error);
+                } else {
+                    resolve(stats.size);
+                }
+            });
+        });
+    }
+
+    /**
+     * @param sourceFilePath The current path of the file.
+     * @param destinationFilePath The new path of the file.
+     * @return Resolved when the file is renamed.
+     */
+    protected renameFile(sourceFilePath: string, destinationFilePath: string): Promise<void> {
+        return new Promise<void>(function(resolve, reject) {
+            fs.rename(sourceFilePath, destinationFilePath, function(error) {
+                if (error) {
+                    reject(error);
+                } else {
+                    resolve();
+                }
+            });
+        });
+    }
+
+    /**
+     * Removes the given file. A file that does not exist is ignored.
+     *
+     * @param filePath The path of the file.
+     * @return Resolved when the file is removed.
+     */
+    protected removeFile(filePath: string): Promise<void> {
+        return new Promise<void>(function(resolve, reject) {
+            fs.unlink(filePath, function(error) {
+                if (error && error.code !== ERROR_CODE_FILE_NOT_FOUND) {
+                    reject(error);
+                } else {
+                    resolve();
+                }
+            });
+        });
+    }
+
+    /**
+     * Saves the index to the cache directory. The file is replaced atomically, so that a crash
+     * cannot leave it half written.
+     *
+     * @return Null, if successful. An error otherwise.
+     */
+    protected saveIndex(): Promise<any> {
+        const indexFilePath: string = path.join(this.options.directoryPath, INDEX_FILE_NAME);
+        const temporaryFilePath: string = indexFilePath + TEMPORARY_FILE_EXTENSION;
+        const data: string = JSON.stringify({
+            version: INDEX_VERSION,
+            entries: Array.from(this.entries.values())
+        });
+
+        let saving: Promise<any> = this.indexSaving.catch(() => null).then(() => new Promise(function(resolve, reject) {
+            fs.writeFile(temporaryFilePath, data, function(error) {
+                if (error) {
+                    reject(error);
+                } else {
+                    fs.rename(temporaryFilePath, indexFilePath, function(error) {
+                        if (error) {
+                            reject(error);
+                        } else {
+                            resolve(null);
+                        }
+                    });
+                }
+            });
+        }));
+
+        this.indexSaving = saving;
+        return saving;
+    }
+}
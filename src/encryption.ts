@@ -0,0 +1,447 @@
+import * as crypto from 'crypto';
+import { Readable, Transform } from 'stream';
+import { StorageFileMetadata, StorageFileProperties, toStorageFileMetadata } from './storage-client';
+import { DecryptionError } from './storage-errors';
+
+export const ENCRYPTION_ALGORITHM = 'AES-256-GCM';
+export const MASTER_KEY_LENGTH_IN_BYTES = 32;
+export const DEFAULT_KEY_ROTATION_CONCURRENCY = 4;
+
+// The user metadata keys are valid C# identifiers, as Azure Blob Storage requires
+export const ENCRYPTION_METADATA_KEY_ALGORITHM = 'encryption_algorithm';
+export const ENCRYPTION_METADATA_KEY_KEY_ID = 'encryption_key_id';
+export const ENCRYPTION_METADATA_KEY_WRAPPED_KEY = 'encryption_wrapped_key';
+export const ENCRYPTION_METADATA_KEY_IV = 'encryption_iv';
+const ENCRYPTION_METADATA_KEYS = [
+    ENCRYPTION_METADATA_KEY_ALGORITHM, ENCRYPTION_METADATA_KEY_KEY_ID, ENCRYPTION_METADATA_KEY_WRAPPED_KEY, ENCRYPTION_METADATA_KEY_IV
+];
+const CIPHER_NAME = 'aes-256-gcm';
+const DATA_KEY_LENGTH_IN_BYTES = 32;
+const IV_LENGTH_IN_BYTES = 12;
+const AUTH_TAG_LENGTH_IN_BYTES = 16;
+
+export interface EncryptionOptions {
+    /**
+     * The master keys of MASTER_KEY_LENGTH_IN_BYTES bytes by their IDs. Keep the retired keys
+     * until the data keys wrapped with them have been rotated.
+     */
+    masterKeys: { [keyId: string]: Buffer };
+
+    /**
+     * The ID of the master key wrapping the data keys of the files uploaded and rotated.
+     */
+    activeKeyId: string;
+
+    /**
+     * Tells whether to encrypt the file uploaded. If not given, all files are encrypted.
+     */
+    shouldEncrypt?: (storageFilePath: string, containerOrBucketName?: string) => boolean;
+
+    /**
+     * If true, the files to encrypt that are stored without encryption, e.g. uploaded before the
+     * encryption was set, are not decrypted but rejected with a DecryptionError. By default they
+     * are read as they are.
+     */
+    rejectUnencrypted?: boolean;
+}
+
+/**
+ * The encrypted content of a file and the metadata to upload it with.
+ */
+export interface EncryptedContent<T> {
+    content: T;
+    metadata: StorageFileMetadata;
+}
+
+/**
+ * The options for rotating the data keys of the files.
+ */
+export interface KeyRotationOptions {
+    /**
+     * The maximum number of files rotated at the same time. The default is DEFAULT_KEY_ROTATION_CONCURRENCY.
+     */
+    concurrency?: number;
+}
+
+/**
+ * A copy of a file whose data key could not be rotated.
+ */
+export interface KeyRotationFailure {
+    name: string;
+    storageId: string;
+    error: any;
+}
+
+export interface KeyRotationSummary {
+    filesChecked: number;
+
+    /**
+     * The number of copies whose data key was wrapped again with the active master key.
+     */
+    copiesRewrapped: number;
+    failures: number;
+}
+
+/**
+ * The result of wrapping the data keys of the files under a prefix with the active master key.
+ */
+export interface KeyRotationReport {
+    prefix: string;
+    keyId: string;
+    failures: KeyRotationFailure[];
+    summary: KeyRotationSummary;
+}
+
+/**
+ * A stream encrypting the content passed through and appending the authentication tag at the end.
+ */
+class EncryptingStream extends Transform {
+    protected cipher: crypto.Cipher;
+
+    constructor(cipher: crypto.Cipher) {
+        super();
+        this.cipher = cipher;
+    }
+
+    public _transform(chunk: Buffer, encoding: string, callback: Function) {
+        callback(null, this.cipher.update(chunk));
+    }
+
+    public _flush(callback: Function) {
+        this.push(this.cipher.final());
+        callback(null, this.cipher.getAuthTag());
+    }
+}
+
+/**
+ * A stream decrypting the content passed through. The authentication tag at the end of the content
+ * is held back and checked once all of the content has been read, so the stream is failed with a
+ * DecryptionError only at the end, if the content was tampered with.
+ */
+class DecryptingStream extends Transform {
+    protected decipher: crypto.Decipher;
+    protected storageFilePath: string;
+    protected tail: Buffer = Buffer.alloc(0);
+
+    constructor(decipher: crypto.Decipher, storageFilePath: string) {
+        super();
+        this.decipher = decipher;
+        this.storageFilePath = storageFilePath;
+    }
+
+    public _transform(chunk: Buffer, encoding: string, callback: Function) {
+        const data: Buffer = Buffer.concat([this.tail, chunk]);
+        const end: number = Math.max(data.length - AUTH_TAG_LENGTH_IN_BYTES, 0);
+
+        this.tail = data.slice(end);
+        callback(null, this.decipher.update(data.slice(0, end)));
+    }
+
+    public _flush(callback: Function) {
+        try {
+            callback(null, finishDecryption(this.decipher, this.tail, this.storageFilePath));
+        } catch (error) {
+            callback(error);
+        }
+    }
+}
+
+/**
+ * Envelope encryption of the files with keys held by the application: each file is encrypted with
+ * its own data key, which is stored with the file in the user metadata wrapped (encrypted) with a
+ * master key. Rotating the master key only wraps the data keys again, so the content is not
+ * rewritten.
+ */
+export class EnvelopeEncryption {
+    protected options: EncryptionOptions;
+
+    /**
+     * @param options The master keys and the ID of the active one.
+     */
+    constructor(options: EncryptionOptions) {
+        this.options = Object.assign({}, options);
+        this.options.masterKeys = Object.assign({}, options.masterKeys);
+
+        Object.keys(this.options.masterKeys).forEach((keyId) => {
+            const masterKey: Buffer = this.options.masterKeys[keyId];
+
+            if (!Buffer.isBuffer(masterKey) || masterKey.length !== MASTER_KEY_LENGTH_IN_BYTES) {
+                throw new Error('The master key "' + keyId + '" must be ' + MASTER_KEY_LENGTH_IN_BYTES + ' bytes long');
+            }
+        });
+
+        if (!this.options.masterKeys.hasOwnProperty(this.options.activeKeyId)) {
+            throw new Error('No master key with the active key ID "' + this.options.activeKeyId + '"');
+        }
+    }
+
+    /**
+     * @return The ID of the master key wrapping the new data keys.
+     */
+    public getActiveKeyId(): string {
+        return this.options.activeKeyId;
+    }
+
+    /**
+     * @param storageFilePath The file/blob path in the storage.
+     * @param containerOrBucketName The name of the container/bucket.
+     * @return True, if the given file is encrypted when uploaded.
+     */
+    public shouldEncrypt(storageFilePath: string, containerOrBucketName?: string): boolean {
+        return (!this.options.shouldEncrypt || this.options.shouldEncrypt(storageFilePath, containerOrBucketName));
+    }
+
+    /**
+     * @param buffer The content of the file.
+     * @param contentTypeOrMetadata The content type or the metadata of the file (optional).
+     * @return The encrypted content and the metadata including the wrapped data key.
+     */
+    public encryptBuffer(buffer: Buffer, contentTypeOrMetadata?: string | StorageFileMetadata): EncryptedContent<Buffer> {
+        const metadata: StorageFileMetadata = toStorageFileMetadata(contentTypeOrMetadata);
+        const cipher: crypto.Cipher = this.createCipher(metadata);
+        const content: Buffer = Buffer.concat([cipher.update(buffer), cipher.final(), cipher.getAuthTag()]);
+
+        return { content: content, metadata: metadata };
+    }
+
+    /**
+     * @param readStream The content of the file. Its errors are emitted by the returned stream.
+     * @param contentTypeOrMetadata The content type or the metadata of the file (optional).
+     * @return The stream of the encrypted content and the metadata including the wrapped data key.
+     */
+    public encryptStream(readStream: Readable, contentTypeOrMetadata?: string | StorageFileMetadata): EncryptedContent<Readable> {
+        const metadata: StorageFileMetadata = toStorageFileMetadata(contentTypeOrMetadata);
+        const encryptingStream: EncryptingStream = new EncryptingStream(this.createCipher(metadata));
+
+        readStream.on('error', (error) => {
+            encryptingStream.emit('error', error);
+        });
+
+        return { content: readStream.pipe(encryptingStream), metadata: metadata };
+    }
+
+    /**
+     * @param content The content of the file as stored.
+     * @param fileProperties The properties of the file in the storage.
+     * @param storageFilePath The path of the file, for the errors.
+     * @param containerOrBucketName The name of the container/bucket (optional).
+     * @return The decrypted content or the given content, if the file is not encrypted. A
+     * DecryptionError is thrown, if it cannot be decrypted or is to be encrypted but is not and
+     * such files are rejected.
+     */
+    public decryptBuffer(content: Buffer, fileProperties: StorageFileMetadata, storageFilePath: string,
+        containerOrBucketName?: string): Buffer {
+        if (!isEncrypted(fileProperties)) {
+            this.checkUnencrypted(storageFilePath, containerOrBucketName);
+            return content;
+        }
+
+        const decipher: crypto.Decipher = this.createDecipher(fileProperties, storageFilePath);
+        const end: number = Math.max(content.length - AUTH_TAG_LENGTH_IN_BYTES, 0);
+
+        return Buffer.concat([decipher.update(content.slice(0, end)),
+            finishDecryption(decipher, content.slice(end), storageFilePath)]);
+    }
+
+    /**
+     * @param readStream The content of the file as stored. Its errors are emitted by the returned stream.
+     * @param fileProperties The properties of the file in the storage.
+     * @param storageFilePath The path of the file, for the errors.
+     * @param containerOrBucketName The name of the container/bucket (optional).
+     * @return The stream of the decrypted content or the given stream, if the file is not
+     * encrypted. The stream is failed with a DecryptionError, if the content cannot be decrypted.
+     * Throws a DecryptionError, if the master key is not known or the file is to be encrypted but
+     * is not and such files are rejected.
+     */
+    public decryptStream(readStream: Readable, fileProperties: StorageFileMetadata, storageFilePath: string,
+        containerOrBucketName?: string): Readable {
+        if (!isEncrypted(fileProperties)) {
+            this.checkUnencrypted(storageFilePath, containerOrBucketName);
+            return readStream;
+        }
+
+        const decryptingStream: DecryptingStream = new DecryptingStream(this.createDecipher(fileProperties, storageFilePath),
+            storageFilePath);
+
+        readStream.on('error', (error) => {
+            decryptingStream.emit('error', error);
+        });
+
+        return readStream.pipe(decryptingStream);
+    }
+
+    /**
+     * Wraps the data key of a file with the active master key.
+     *
+     * @param userMetadata The user metadata of the encrypted file.
+     * @param storageFilePath The path of the file, for the errors.
+     * @return The user metadata with the data key wrapped with the active master key or null, if
+     * it already is or the file is not encrypted. Throws a DecryptionError, if the master key is not known.
+     */
+    public rewrapDataKey(userMetadata: { [key: string]: string }, storageFilePath: string): { [key: string]: string } {
+        if (!isEncrypted({ userMetadata: userMetadata }) || userMetadata[ENCRYPTION_METADATA_KEY_KEY_ID] === this.options.activeKeyId) {
+            return null;
+        }
+
+        const dataKey: Buffer = this.unwrapDataKey(userMetadata, storageFilePath);
+
+        return Object.assign({}, userMetadata, {
+            [ENCRYPTION_METADATA_KEY_KEY_ID]: this.options.activeKeyId,
+            [ENCRYPTION_METADATA_KEY_WRAPPED_KEY]: this.wrapDataKey(dataKey, this.options.activeKeyId)
+        });
+    }
+
+    /**
+     * Throws a DecryptionError, if the given file stored without encryption is to be encrypted and
+     * such files are rejected.
+     *
+     * @param storageFilePath The path of the file.
+     * @param containerOrBucketName The name of the container/bucket.
+     */
+    protected checkUnencrypted(storageFilePath: string, containerOrBucketName: string) {
+        if (this.options.rejectUnencrypted && this.shouldEncrypt(storageFilePath, containerOrBucketName)) {
+            throw new DecryptionError('The file is not encrypted: ' + storageFilePath, storageFilePath);
+        }
+    }
+
+    /**
+     * Generates a data key and adds it to the given metadata wrapped with the active master key.
+     *
+     * @param metadata The metadata of the file, updated.
+     * @return The cipher encrypting the content with the data key.
+     */
+    protected createCipher(metadata: StorageFileMetadata): crypto.Cipher {
+        const dataKey: Buffer = crypto.randomBytes(DATA_KEY_LENGTH_IN_BYTES);
+        const iv: Buffer = crypto.randomBytes(IV_LENGTH_IN_BYTES);
+
+        metadata.userMetadata = Object.assign({}, metadata.userMetadata, {
+            [ENCRYPTION_METADATA_KEY_ALGORITHM]: ENCRYPTION_ALGORITHM,
+            [ENCRYPTION_METADATA_KEY_KEY_ID]: this.options.activeKeyId,
+            [ENCRYPTION_METADATA_KEY_WRAPPED_KEY]: this.wrapDataKey(dataKey, this.options.activeKeyId),
+            [ENCRYPTION_METADATA_KEY_IV]: iv.toString('base64')
+        });
+
+        return crypto.createCipheriv(CIPHER_NAME, dataKey, iv);
+    }
+
+    /**
+     * @param fileProperties The properties of the encrypted file.
+     * @param storageFilePath The path of the file, for the errors.
+     * @return The decipher decrypting the content with the data key of the file.
+     */
+    protected createDecipher(fileProperties: StorageFileMetadata, storageFilePath: string): crypto.Decipher {
+        const userMetadata: { [key: string]: string } = fileProperties.userMetadata;
+
+        if (userMetadata[ENCRYPTION_METADATA_KEY_ALGORITHM] !== ENCRYPTION_ALGORITHM) {
+            throw new DecryptionError('Unsupported encryption algorithm "' + userMetadata[ENCRYPTION_METADATA_KEY_ALGORITHM]
+                + '": ' + storageFilePath, storageFilePath);
+        }
+
+        return crypto.createDecipheriv(CIPHER_NAME, this.unwrapDataKey(userMetadata, storageFilePath),
+            Buffer.from(userMetadata[ENCRYPTION_METADATA_KEY_IV] || '', 'base64'));
+    }
+
+    /**
+     * @param dataKey The data key.
+     * @param keyId The ID of the master key.
+     * @return The base64 encoded IV, encrypted data key and authentication tag. The key ID is
+     * authenticated with the data key.
+     */
+    protected wrapDataKey(dataKey: Buffer, keyId: string): string {
+        const iv: Buffer = crypto.randomBytes(IV_LENGTH_IN_BYTES);
+        const cipher: crypto.Cipher = crypto.createCipheriv(CIPHER_NAME, this.options.masterKeys[keyId], iv);
+
+        cipher.setAAD(Buffer.from(keyId, 'utf8'));
+        return Buffer.concat([iv, cipher.update(dataKey), cipher.final(), cipher.getAuthTag()]).toString('base64');
+    }
+
+    /**
+     * @param userMetadata The user metadata of the encrypted file.
+     * @param storageFilePath The path of the file, for the errors.
+     * @return The data key of the file. A DecryptionError is thrown, if the master key is not
+     * known or the wrapped key is not valid.
+     */
+    protected unwrapDataKey(userMetadata: { [key: string]: string }, storageFilePath: string): Buffer {
+        const keyId: string = userMetadata[ENCRYPTION_METADATA_KEY_KEY_ID];
+
+        if (!keyId || !this.options.masterKeys.hasOwnProperty(keyId)) {
+            throw new DecryptionError('No master key with ID "' + keyId + '" to decrypt file: ' + storageFilePath, storageFilePath);
+        }
+
+        const wrappedKey: Buffer = Buffer.from(userMetadata[ENCRYPTION_METADATA_KEY_WRAPPED_KEY] || '', 'base64');
+        const decipher: crypto.Decipher = crypto.createDecipheriv(CIPHER_NAME, this.options.masterKeys[keyId],
+            wrappedKey.slice(0, IV_LENGTH_IN_BYTES));
+
+        decipher.setAAD(Buffer.from(keyId, 'utf8'));
+        return Buffer.concat([decipher.update(wrappedKey.slice(IV_LENGTH_IN_BYTES, wrappedKey.length - AUTH_TAG_LENGTH_IN_BYTES)),
+            finishDecryption(decipher, wrappedKey.slice(Math.max(wrappedKey.length - AUTH_TAG_LENGTH_IN_BYTES, IV_LENGTH_IN_BYTES)),
+                storageFilePath)]);
+    }
+}
+
+/**
+ * @param metadata The metadata or the properties of a file.
+ * @return True, if the file was encrypted by EnvelopeEncryption.
+ */
+export function isEncrypted(metadata: StorageFileMetadata): boolean {
+    return !!(metadata && metadata.userMetadata && metadata.userMetadata[ENCRYPTION_METADATA_KEY_ALGORITHM]);
+}
+
+/**
+ * @param fileProperties The properties of a file in the storage.
+ * @return The properties of the decrypted content: the size without the authentication tag and
+ * the user metadata without the encryption fields. The MD5 hash of the encrypted content is left
+ * out. The given properties, if the file is not encrypted.
+ */
+export function toDecryptedFileProperties(fileProperties: StorageFileProperties): StorageFileProperties {
+    if (!isEncrypted(fileProperties)) {
+        return fileProperties;
+    }
+
+    let userMetadata: { [key: string]: string } = Object.assign({}, fileProperties.userMetadata);
+    ENCRYPTION_METADATA_KEYS.forEach((key) => delete userMetadata[key]);
+
+    return Object.assign({}, fileProperties, {
+        size: Math.max(fileProperties.size - AUTH_TAG_LENGTH_IN_BYTES, 0),
+        contentMD5: undefined,
+        userMetadata: (Object.keys(userMetadata).length > 0 ? userMetadata : undefined)
+    });
+}
+
+/**
+ * @param prefix The prefix being rotated.
+ * @param keyId The ID of the active master key.
+ * @return An empty report.
+ */
+export function createKeyRotationReport(prefix: string, keyId: string): KeyRotationReport {
+    return {
+        prefix: prefix,
+        keyId: keyId,
+        failures: [],
+        summary: {
+            filesChecked: 0,
+            copiesRewrapped: 0,
+            failures: 0
+        }
+    };
+}
+
+/**
+ * @param decipher The decipher of an authenticated encryption.
+ * @param authTag The authentication tag read at the end of the content.
+ * @param storageFilePath The path of the file, for the errors.
+ * @return The last decrypted bytes. A DecryptionError is thrown, if the content was tampered with.
+ */
+function finishDecryption(decipher: crypto.Decipher, authTag: Buffer, storageFilePath: string): Buffer {
+    if (authTag.length !== AUTH_TAG_LENGTH_IN_BYTES) {
+        throw new DecryptionError('The encrypted content is truncated: ' + storageFilePath, storageFilePath);
+    }
+
+    try {
+        decipher.setAuthTag(authTag);
+        return decipher.final();
+    } catch (error) {
+        throw new DecryptionError('The content cannot be decrypted, the key or the content does not match: '
+            + storageFilePath, storageFilePath, error);
+    }
+}
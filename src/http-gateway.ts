@@ -0,0 +1,524 @@
+import * as http from 'http';
+import * as url from 'url';
+import { Readable } from 'stream';
+import { StorageFileMetadata, StorageFileProperties } from './storage-client';
+import { MergedListEntry, MultiStorageClient, ReplicatingReadStream } from './multi-storage-client';
+import { toDecryptedFileProperties } from './encryption';
+import { compareKeys } from './listing-utils';
+import { StorageMetrics } from './metrics';
+import { FilePresence, NotFoundError, StorageError, StorageErrorCode, toStorageError } from './storage-errors';
+import { sliceStream } from './stream-utils';
+
+export const DEFAULT_HTTP_GATEWAY_PORT = 8080;
+export const DEFAULT_LIST_MAX_KEYS = 1000;
+export const HEADER_SERVED_FROM = 'X-Served-From';
+export const HEADER_USER_METADATA_PREFIX = 'x-meta-';
+const DEFAULT_CONTENT_TYPE = 'application/octet-stream';
+const ALLOWED_METHODS = 'GET, HEAD, PUT, DELETE';
+const RANGE_PATTERN = /^bytes=(\d*)-(\d*)$/;
+
+// The HTTP status codes of the storage errors
+const STATUS_CODES_BY_ERROR_CODE: { [code: string]: number } = {
+    [StorageErrorCode.NotFound]: 404,
+    [StorageErrorCode.AccessDenied]: 403,
+    [StorageErrorCode.Throttled]: 503,
+    [StorageErrorCode.Transient]: 503,
+    [StorageErrorCode.Conflict]: 409,
+    [StorageErrorCode.InvalidKey]: 400,
+    [StorageErrorCode.ChecksumMismatch]: 502,
+    [StorageErrorCode.NotSupported]: 501,
+    [StorageErrorCode.Unknown]: 500
+};
+
+export interface HttpGatewayOptions {
+    /**
+     * The port to listen to. 0 picks a free port. The default is DEFAULT_HTTP_GATEWAY_PORT.
+     */
+    port?: number;
+
+    /**
+     * The host name or address to listen to. If not given, all addresses are listened to.
+     */
+    host?: string;
+
+    /**
+     * The maximum number of entries returned by a list request. The default is DEFAULT_LIST_MAX_KEYS.
+     */
+    maxListKeys?: number;
+
+    /**
+     * The path serving the metrics of the client in the Prometheus text format, e.g. "/metrics".
+     * If not given, the metrics are not served. The path takes precedence over a container of the
+     * same name.
+     */
+    metricsPath?: string;
+}
+
+/**
+ * A byte range of a file.
+ */
+export interface ByteRange {
+    start: number;
+    end: number;
+}
+
+/**
+ * An HTTP server exposing a multi storage client as a REST service:
+ *
+ * - GET /{container}/{key} downloads the file and replicates it to the storages missing it
+ * - HEAD /{container}/{key} returns the headers of the file
+ * - PUT /{container}/{key} uploads the request body to all storages
+ * - DELETE /{container}/{key} deletes the file from all storages
+ * - GET /{container}?prefix=&delimiter=&startAfter=&maxKeys= lists the files as JSON
+ * - GET {metricsPath} returns the metrics of the client in the Prometheus text format, if enabled
+ *
+ * The responses of GET and HEAD include the Content-Type, ETag and Last-Modified headers of the
+ * file and the X-Served-From header with the ID of the storage the file was read from. GET
+ * supports single byte ranges. The errors are returned as JSON with the storage error code.
+ */
+export class HttpGateway {
+    protected multiStorageClient: MultiStorageClient;
+    protected options: HttpGatewayOptions;
+    protected server: http.Server = null;
+
+    /**
+     * @param multiStorageClient The initialized client to expose.
+     * @param options The options of the gateway (optional).
+     */
+    constructor(multiStorageClient: MultiStorageClient, options?: HttpGatewayOptions) {
+        this.multiStorageClient = multiStorageClient;
+        this.options = Object.assign({
+            port: DEFAULT_HTTP_GATEWAY_PORT,
+            maxListKeys: DEFAULT_LIST_MAX_KEYS,
+            metricsPath: null
+        }, options || {});
+    }
+
+    /**
+     * Starts listening to the requests.
+     *
+     * @return The port listened to.
+     */
+    public start(): Promise<number> {
+        let thisInstance: HttpGateway = this;
+
+        if (this.server !== null) {
+            return Promise.reject(new Error('The gateway is already started'));
+        }
+
+        this.server = http.createServer((request, response) => {
+            this.handleRequest(request, response).catch((error) => {
+                this.multiStorageClient.getLogger().error('Failed to handle request ' + request.method + ' ' + request.url + ': ' + error);
+                request.socket.destroy();
+            });
+        });
+
+        return new Promise<number>(function(resolve, reject) {
+            thisInstance.server.once('error', reject);
+
+            thisInstance.server.listen(thisInstance.options.port, thisInstance.options.host, () => {
+                thisInstance.server.removeListener('error', reject);
+                resolve(thisInstance.getPort());
+            });
+        });
+    }
+
+    /**
+     * Stops listening. The requests in progress are completed.
+     *
+     * @return Resolved when stopped.
+     */
+    public stop(): Promise<void> {
+        let server: http.Server = this.server;
+        this.server = null;
+
+        return new Promise<void>(function(resolve, reject) {
+            if (server === null) {
+                resolve();
+                return;
+            }
+
+            server.close((error) => {
+                if (error) {
+                    reject(error);
+                } else {
+                    resolve();
+                }
+            });
+        });
+    }
+
+    /**
+     * @return The port listened to or null, if not started.
+     */
+    public getPort(): number {
+        return (this.server !== null ? this.server.address().port : null);
+    }
+
+    /**
+     * Routes the given request.
+     *
+     * @param request The request.
+     * @param response The response.
+     */
+    protected async handleRequest(request: http.IncomingMessage, response: http.ServerResponse) {
+        const requestUrl = url.parse(request.url, true);
+        const pathSegments: string[] = (requestUrl.pathname || '/').split('/').slice(1);
+        let containerOrBucketName: string = null;
+        let storageFilePath: string = null;
+
+        if (this.options.metricsPath && requestUrl.pathname === this.options.metricsPath) {
+            if (request.method === 'GET') {
+                this.sendMetrics(response);
+            } else {
+                this.sendMethodNotAllowed(response, 'GET');
+            }
+
+            return;
+        }
+
+        try {
+            containerOrBucketName = decodeURIComponent(pathSegments[0]);
+            storageFilePath = pathSegments.slice(1).map((segment) => decodeURIComponent(segment)).join('/');
+        } catch (error) {
+            this.sendError(response, 400, 'BadRequest', 'Invalid path');
+            return;
+        }
+
+        if (!containerOrBucketName) {
+            this.sendError(response, 404, StorageErrorCode.NotFound, 'No container given');
+            return;
+        }
+
+        try {
+            if (!storageFilePath) {
+                if (request.method === 'GET') {
+                    await this.listFiles(containerOrBucketName, requestUrl.query, response);
+                } else {
+                    this.sendMethodNotAllowed(response, 'GET');
+                }
+
+                return;
+            }
+
+            switch (request.method) {
+                case 'GET':
+                    await this.getFile(storageFilePath, containerOrBucketName, request, response);
+                    break;
+                case 'HEAD':
+                    await this.headFile(storageFilePath, containerOrBucketName, response);
+                    break;
+                case 'PUT':
+                    await this.putFile(storageFilePath, containerOrBucketName, request, response);
+                    break;
+                case 'DELETE':
+                    await this.multiStorageClient.deleteFile(storageFilePath, containerOrBucketName);
+                    response.writeHead(204);
+                    response.end();
+                    break;
+                default:
+                    this.sendMethodNotAllowed(response, ALLOWED_METHODS);
+            }
+        } catch (error) {
+            if (response.headersSent) {
+                throw error;
+            }
+
+            const storageError: StorageError = toStorageError(error, storageFilePath);
+            this.sendError(response, STATUS_CODES_BY_ERROR_CODE[storageError.code] || 500, storageError.code, storageError.message);
+        }
+    }
+
+    /**
+     * Streams the given file to the response while replicating it to the storages missing it.
+     *
+     * @param storageFilePath The file/blob path in the storage.
+     * @param containerOrBucketName The name of the container/bucket.
+     * @param request The request.
+     * @param response The response.
+     */
+    protected async getFile(storageFilePath: string, containerOrBucketName: string,
+        request: http.IncomingMessage, response: http.ServerResponse) {
+        let replicatingReadStream: ReplicatingReadStream =
+            await this.multiStorageClient.downloadFileAsStreamAndReplicateIfNecessary(storageFilePath, containerOrBucketName);
+        let fileProperties: StorageFileProperties = replicatingReadStream.fileProperties;
+        let stream: Readable = replicatingReadStream.stream;
+        let headers: { [name: string]: any } = this.getFileHeaders(fileProperties, replicatingReadStream.sourceStorageId);
+        let statusCode: number = 200;
+
+        replicatingReadStream.replication.then((error) => {
+            if (error) {
+                this.multiStorageClient.getLogger().error('Failed to replicate file "' + storageFilePath + '": ' + error);
+            }
+        });
+
+        const range: ByteRange = this.parseRange(request.headers['range'] as string, fileProperties.size);
+
+        if (range === null) {
+            // The whole file is still read, so that the replication completes
+            stream.resume();
+            this.sendError(response, 416, 'RangeNotSatisfiable', 'Range not satisfiable', {
+                'Content-Range': 'bytes */' + fileProperties.size
+            });
+            return;
+        } else if (range !== undefined) {
+            statusCode = 206;
+            headers['Content-Length'] = range.end - range.start + 1;
+            headers['Content-Range'] = 'bytes ' + range.start + '-' + range.end + '/' + fileProperties.size;
+            stream = sliceStream(stream, range.start, range.end);
+        }
+
+        response.writeHead(statusCode, headers);
+
+        stream.on('error', (error) => {
+            this.multiStorageClient.getLogger().error('Failed to read file "' + storageFilePath + '": ' + error);
+            request.socket.destroy();
+        });
+
+        response.on('close', () => {
+            // The client went away, keep reading for the replication
+            stream.unpipe(response);
+            stream.resume();
+        });
+
+        stream.pipe(response);
+    }
+
+    /**
+     * Sends the headers of the given file in the storage preferred by the read preference, the one
+     * a GET request reads from.
+     *
+     * @param storageFilePath The file/blob path in the storage.
+     * @param containerOrBucketName The name of the container/bucket.
+     * @param response The response.
+     */
+    protected async headFile(storageFilePath: string, containerOrBucketName: string, response: http.ServerResponse) {
+        let presenceByStorage: Map<string, FilePresence> =
+            await this.multiStorageClient.getFilePresence(storageFilePath, containerOrBucketName);
+        let storageIds: string[] = Array.from(presenceByStorage.keys());
+        let sourceStorageId: string = this.multiStorageClient.getReadPreference().orderStorageIds(
+            storageIds.filter((storageId) => presenceByStorage.get(storageId) === FilePresence.Present),
+            storageFilePath, containerOrBucketName)[0];
+
+        if (!sourceStorageId) {
+            if (storageIds.some((storageId) => presenceByStorage.get(storageId) === FilePresence.Unknown)) {
+                throw new StorageError(StorageErrorCode.Transient, 'The presence of the file is unknown', storageFilePath);
+            }
+
+            throw new NotFoundError('File not found: ' + storageFilePath, storageFilePath);
+        }
+
+        let fileProperties: StorageFileProperties = await this.multiStorageClient.getStorageClient(sourceStorageId)
+            .getFileProperties(storageFilePath, containerOrBucketName);
+
+        if (this.multiStorageClient.getEncryption() !== null) {
+            fileProperties = toDecryptedFileProperties(fileProperties);
+        }
+
+        response.writeHead(200, this.getFileHeaders(fileProperties, sourceStorageId));
+        response.end();
+    }
+
+    /**
+     * Uploads the request body to all storages. The metadata is taken from the Content-Type,
+     * Cache-Control, Content-Disposition and X-Meta-* headers.
+     *
+     * @param storageFilePath The file/blob path in the storage.
+     * @param containerOrBucketName The name of the container/bucket.
+     * @param request The request.
+     * @param response The response.
+     */
+    protected async putFile(storageFilePath: string, containerOrBucketName: string,
+        request: http.IncomingMessage, response: http.ServerResponse) {
+        let metadata: StorageFileMetadata = {
+            contentType: request.headers['content-type'] as string,
+            cacheControl: request.headers['cache-control'] as string,
+            contentDisposition: request.headers['content-disposition'] as string
+        };
+
+        Object.keys(request.headers).filter((name) => name.indexOf(HEADER_USER_METADATA_PREFIX) === 0).forEach((name) => {
+            metadata.userMetadata = metadata.userMetadata || {};
+            metadata.userMetadata[name.substring(HEADER_USER_METADATA_PREFIX.length)] = request.headers[name] as string;
+        });
+
+        let storageIds: Set<string> =
+            await this.multiStorageClient.uploadStream(request, storageFilePath, containerOrBucketName, metadata);
+
+        if (storageIds.size === 0) {
+            this.sendError(response, 502, StorageErrorCode.Unknown, 'Failed to upload the file to any storage');
+            return;
+        }
+
+        this.sendJson(response, 201, { storageIds: Array.from(storageIds) });
+    }
+
+    /**
+     * Sends a page of the merged listing of the storages as JSON.
+     *
+     * @param containerOrBucketName The name of the container/bucket.
+     * @param query The prefix, the delimiter, the key to start after and the maximum number of keys.
+     * @param response The response.
+     */
+    protected async listFiles(containerOrBucketName: string, query: any, response: http.ServerResponse) {
+        const prefix: string = query.prefix || '';
+        const startAfter: string = query.startAfter || null;
+        const maxKeys: number = Math.min(parseInt(query.maxKeys, 10) || this.options.maxListKeys, this.options.maxListKeys);
+        let entries: any[] = [];
+        let isTruncated: boolean = false;
+
+        for await (const entry of this.multiStorageClient.listFiles(prefix, containerOrBucketName,
+            { delimiter: query.delimiter || undefined })) {
+            if (startAfter !== null && compareKeys(entry.name, startAfter) <= 0) {
+                continue;
+            }
+
+            if (entries.length >= maxKeys) {
+                isTruncated = true;
+                break;
+            }
+
+            entries.push(this.toListEntryJson(entry));
+        }
+
+        this.sendJson(response, 200, {
+            container: containerOrBucketName,
+            prefix: prefix,
+            delimiter: query.delimiter || null,
+            entries: entries,
+            isTruncated: isTruncated,
+            nextStartAfter: (isTruncated ? entries[entries.length - 1].name : null)
+        });
+    }
+
+    /**
+     * @param entry The merged listing entry.
+     * @return The entry as returned by the list requests.
+     */
+    protected toListEntryJson(entry: MergedListEntry): any {
+        return {
+            name: entry.name,
+            isPrefix: entry.isPrefix,
+            size: entry.size,
+            lastModified: (entry.lastModified ? entry.lastModified.toISOString() : undefined),
+            storageIds: entry.storageIds
+        };
+    }
+
+    /**
+     * @param fileProperties The properties of the file.
+     * @param sourceStorageId The ID of the storage the file is read from.
+     * @return The response headers of the file.
+     */
+    protected getFileHeaders(fileProperties: StorageFileProperties, sourceStorageId: string): { [name: string]: any } {
+        let headers: { [name: string]: any } = {
+            'Content-Type': fileProperties.contentType || DEFAULT_CONTENT_TYPE,
+            'Content-Length': fileProperties.size,
+            'Accept-Ranges': 'bytes',
+            [HEADER_SERVED_FROM]: sourceStorageId
+        };
+
+        if (fileProperties.etag) {
+            headers['ETag'] = '"' + fileProperties.etag + '"';
+        }
+
+        if (fileProperties.lastModified) {
+            headers['Last-Modified'] = fileProperties.lastModified.toUTCString();
+        }
+
+        if (fileProperties.cacheControl) {
+            headers['Cache-Control'] = fileProperties.cacheControl;
+        }
+
+        if (fileProperties.contentDisposition) {
+            headers['Content-Disposition'] = fileProperties.contentDisposition;
+        }
+
+        Object.keys(fileProperties.userMetadata || {}).forEach((key) => {
+            headers[HEADER_USER_METADATA_PREFIX + key] = fileProperties.userMetadata[key];
+        });
+
+        return headers;
+    }
+
+    /**
+     * Parses a Range header. Only single byte ranges are supported; other ranges are ignored.
+     *
+     * @param rangeHeader The value of the header, if any.
+     * @param size The size of the file.
+     * @return The range, undefined to send the whole file or null, if the range is not satisfiable.
+     */
+    protected parseRange(rangeHeader: string, size: number): ByteRange {
+        const match: RegExpExecArray = (rangeHeader ? RANGE_PATTERN.exec(rangeHeader.trim()) : null);
+
+        if (!match || (match[1] === '' && match[2] === '')) {
+            return undefined;
+        }
+
+        let range: ByteRange = null;
+
+        if (match[1] === '') {
+            // The last bytes of the file
+            range = { start: Math.max(size - parseInt(match[2], 10), 0), end: size - 1 };
+        } else {
+            range = {
+                start: parseInt(match[1], 10),
+                end: (match[2] === '' ? size - 1 : Math.min(parseInt(match[2], 10), size - 1))
+            };
+        }
+
+        return (range.start <= range.end && range.start < size ? range : null);
+    }
+
+    /**
+     * @param response The response.
+     * @param statusCode The HTTP status code.
+     * @param body The object to send as JSON.
+     * @param headers Additional headers (optional).
+     */
+    protected sendJson(response: http.ServerResponse, statusCode: number, body: any, headers?: { [name: string]: any }) {
+        const data: Buffer = Buffer.from(JSON.stringify(body));
+
+        response.writeHead(statusCode, Object.assign({
+            'Content-Type': 'application/json',
+            'Content-Length': data.length
+        }, headers || {}));
+
+        response.end(data);
+    }
+
+    /**
+     * @param response The response.
+     * @param statusCode The HTTP status code.
+     * @param code The error code.
+     * @param message The error message.
+     * @param headers Additional headers (optional).
+     */
+    protected sendError(response: http.ServerResponse, statusCode: number, code: string, message: string,
+        headers?: { [name: string]: any }) {
+        this.sendJson(response, statusCode, { error: code, message: message }, headers);
+    }
+
+    /**
+     * @param response The response.
+     * @param allowedMethods The methods allowed for the resource.
+     */
+    protected sendMethodNotAllowed(response: http.ServerResponse, allowedMethods: string) {
+        this.sendError(response, 405, 'MethodNotAllowed', 'Method not allowed', { 'Allow': allowedMethods });
+    }
+
+    /**
+     * Sends the metrics of the client in the Prometheus text format.
+     *
+     * @param response The response.
+     */
+    protected sendMetrics(response: http.ServerResponse) {
+        const metrics: StorageMetrics = this.multiStorageClient.getMetrics();
+        const body: string = metrics.toPrometheusText();
+
+        response.writeHead(200, {
+            'Content-Type': metrics.getPrometheusContentType(),
+            'Content-Length': Buffer.byteLength(body)
+        });
+        response.end(body);
+    }
+}
@@ -0,0 +1,735 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import { Readable } from 'stream';
+import {
+    DEFAULT_SIGNED_URL_EXPIRY_IN_SECONDS, IStorageClient, ListOptions, MetadataUpdatingStorageClient, SignedUrlOptions,
+    SignedUrlPermission, StorageFileMetadata, StorageFileProperties, StorageListEntry, checkCopyTarget, createNotFoundError,
+    toStorageFileMetadata
+} from './storage-client';
+import { computeChecksum, verifyContent } from './integrity';
+import { compareKeys, groupByDelimiter } from './listing-utils';
+import {
+    MultipartUploader, RangeDownloader, ResumableStorageClient, ResumableTransferOptions, downloadFileInParts,
+    getCheckpointFilePath, uploadFileInParts
+} from './resumable-transfers';
+import { ConflictError, NotFoundError, toStorageError } from './storage-errors';
+import { bufferToStream, readStreamToBuffer } from './stream-utils';
+
+/**
+ * The operation name used to inject an error into all operations.
+ */
+export const ALL_OPERATIONS = '*';
+const MAX_PART_COUNT = 10000;
+
+/**
+ * A file stored in the in-memory storage.
+ */
+export interface InMemoryFile extends StorageFileMetadata {
+    name: string;
+    data: Buffer;
+    size: number;
+    lastModified: Date;
+
+    /**
+     * The base64 encoded MD5 hash of the data when stored.
+     */
+    contentMD5: string;
+}
+
+/**
+ * Information about a file stored in the in-memory storage.
+ */
+export interface InMemoryFileInfo {
+    name: string;
+    size: number;
+    lastModified: Date;
+}
+
+/**
+ * An error injected into an operation.
+ */
+export interface InjectedError {
+    error: any;
+    remainingCount: number;
+}
+
+/**
+ * A storage client keeping the files in memory. Meant for testing: latency, errors and missing
+ * files can be injected to simulate the behavior of a remote storage. Like the clients of the cloud
+ * storages, the downloads check the data against the MD5 hash stored with it, which can be made
+ * fail with corruptFile(). The resumable transfers
+ * simulate the multipart uploads of S3 with the operations 'createMultipartUpload', 'uploadPart'
+ * and 'completeMultipartUpload', and the ranged downloads with the operation 'downloadRange'.
+ */
+export class InMemoryStorageClient implements IStorageClient<void, InMemoryFileInfo[]>, ResumableStorageClient,
+    MetadataUpdatingStorageClient {
+    protected containers: Map<string, Map<string, InMemoryFile>> = new Map<string, Map<string, InMemoryFile>>();
+    protected defaultContainerName: string = "";
+    protected initialized: boolean = false;
+    protected latencyInMs: number = 0;
+    protected injectedErrors: Map<string, InjectedError> = new Map<string, InjectedError>();
+    protected notFoundFilePaths: Set<string> = new Set<string>();
+    protected multipartUploads: Map<string, Map<number, Buffer>> = new Map<string, Map<number, Buffer>>();
+    protected nextUploadId: number = 1;
+
+    /**
+     * @return True, if this instance is initialized. False otherwise.
+     */
+    public isInitialized(): boolean {
+        return this.initialized;
+    }
+
+    /**
+     * @return True, the content type and the user metadata are stored with the files.
+     */
+    public keepsUserMetadata(): boolean {
+        return true;
+    }
+
+    /**
+     * Initializes the client.
+     *
+     * @param defaultContainerName The name of the default container (optional).
+     */
+    public initialize(defaultContainerName?: string) {
+        this.defaultContainerName = defaultContainerName;
+        this.initialized = true;
+    }
+
+    /**
+     * @return The default container name if any.
+     */
+    public getDefaultContainerName(): string {
+        return this.defaultContainerName;
+    }
+
+    /**
+     * Sets the delay applied to every operation.
+     *
+     * @param latencyInMs The delay in milliseconds.
+     */
+    public setLatency(latencyInMs: number) {
+        this.latencyInMs = latencyInMs;
+    }
+
+    /**
+     * Makes the given operation fail with the given error.
+     *
+     * @param operationName The name of the method to fail, e.g. 'uploadFile', or ALL_OPERATIONS.
+     * @param error The error to reject with.
+     * @param count The number of times the operation should fail. If not given, the operation
+     * fails until clearFaults() is called.
+     */
+    public injectError(operationName: string, error: any, count?: number) {
+        this.injectedErrors.set(operationName, {
+            error: error,
+            remainingCount: (count === undefined ? Infinity : count)
+        });
+    }
+
+    /**
+     * Makes the file with the given key appear missing even if it exists.
+     *
+     * @param fileKey The key of the file.
+     * @param containerName The name of the container.
+     */
+    public injectNotFound(fileKey: string, containerName?: string) {
+        this.notFoundFilePaths.add(this.resolveContainerName(containerName) + '/' + fileKey);
+    }
+
+    /**
+     * Removes the injected latency, errors and missing files.
+     */
+    public clearFaults() {
+        this.latencyInMs = 0;
+        this.injectedErrors.clear();
+        this.notFoundFilePaths.clear();
+    }
+
+    /**
+     * Stores the given data directly without simulating faults.
+     *
+     * @param fileKey The key of the file.
+     * @param data The content of the file.
+     * @param containerName The name of the container.
+     * @param contentTypeOrMetadata The content type or the metadata of the file (optional).
+     */
+    public putFile(fileKey: string, data: Buffer | string, containerName?: string,
+        contentTypeOrMetadata?: string | StorageFileMetadata) {
+        containerName = this.resolveContainerName(containerName);
+        const dataAsBuffer: Buffer = (typeof data === 'string' ? Buffer.from(data) : Buffer.from(data));
+
+        if (!this.containers.has(containerName)) {
+            this.containers.set(containerName, new Map<string, InMemoryFile>());
+        }
+
+        const metadata: StorageFileMetadata = toStorageFileMetadata(contentTypeOrMetadata);
+
+        this.containers.get(containerName).set(fileKey, {
+            name: fileKey,
+            data: dataAsBuffer,
+            size: dataAsBuffer.length,
+            lastModified: new Date(),
+            contentMD5: computeChecksum(dataAsBuffer),
+            contentType: metadata.contentType,
+            cacheControl: metadata.cacheControl,
+            contentDisposition: metadata.contentDisposition,
+            userMetadata: metadata.userMetadata
+        });
+    }
+
+    /**
+     * Returns the stored file directly without simulating faults.
+     *
+     * @param fileKey The key of the file.
+     * @param containerName The name of the container.
+     * @return The file or undefined if not found.
+     */
+    public getFile(fileKey: string, containerName?: string): InMemoryFile {
+        const container = this.containers.get(this.resolveContainerName(containerName));
+        return (container ? container.get(fileKey) : undefined);
+    }
+
+    /**
+     * Changes the data of the stored file without changing its MD5 hash, like bit rot or a write
+     * corrupted on the way would.
+     *
+     * @param fileKey The key of the file.
+     * @param containerName The name of the container.
+     */
+    public corruptFile(fileKey: string, containerName?: string) {
+        let file: InMemoryFile = this.getExistingFile(fileKey, containerName);
+        file.data = Buffer.from(file.data);
+        file.data[0] ^= 0xff;
+    }
+
+    /**
+     * @return The number of the multipart uploads neither completed nor aborted.
+     */
+    public getMultipartUploadCount(): number {
+        return this.multipartUploads.size;
+    }
+
+    /**
+     * Checks if a file with the given key exists in the given container.
+     *
+     * @param fileKey The key of the file to check.
+     * @param containerName The name of the container.
+     * @return True, if the file exists. False otherwise.
+     */
+    public async fileExists(fileKey: string, containerName?: string): Promise<boolean> {
+        await this.simulateFaults('fileExists');
+        return (this.findFile(fileKey, containerName) !== undefined);
+    }
+
+    /**
+     * Retrieves the properties of the file with the given key.
+     *
+     * @param fileKey The key of the file.
+     * @param containerName The name of the container.
+     * @return The properties of the file.
+     */
+    public async getFileProperties(fileKey: string, containerName?: string): Promise<StorageFileProperties> {
+        await this.simulateFaults('getFileProperties');
+        const file: InMemoryFile = this.getExistingFile(fileKey, containerName);
+
+        return {
+            size: file.size,
+            lastModified: file.lastModified,
+            etag: Buffer.from(file.contentMD5, 'base64').toString('hex'),
+            contentMD5: file.contentMD5,
+            contentType: file.contentType,
+            cacheControl: file.cacheControl,
+            contentDisposition: file.contentDisposition,
+            userMetadata: (file.userMetadata ? Object.assign({}, file.userMetadata) : undefined)
+        };
+    }
+
+    /**
+     * Lists the files with the given prefix in the given container.
+     *
+     * @param fileKeyPrefix The prefix of the file keys to list.
+     * @param containerName The name of the container.
+     * @return A list of files found sorted by the file key.
+     */
+    public async listFilesWithPrefix(fileKeyPrefix: string, containerName?: string): Promise<InMemoryFileInfo[]> {
+        await this.simulateFaults('listFilesWithPrefix');
+        return this.findFilesWithPrefix(fileKeyPrefix, containerName);
+    }
+
+    /**
+     * Lists the files with the given prefix in the given container. The page size is ignored.
+     *
+     * @param fileKeyPrefix The prefix of the file keys to list.
+     * @param containerName The name of the container.
+     * @param options The delimiter and the page size (optional).
+     * @return The files and the common prefixes (if the delimiter is given) sorted by the key.
+     */
+    public async *listFiles(fileKeyPrefix?: string, containerName?: string,
+        options?: ListOptions): AsyncIterableIterator<StorageListEntry> {
+        await this.simulateFaults('listFiles');
+        const entries: StorageListEntry[] = this.findFilesWithPrefix(fileKeyPrefix, containerName).map((file) => ({
+            name: file.name,
+            isPrefix: false,
+            size: file.size,
+            lastModified: file.lastModified
+        }));
+
+        yield* groupByDelimiter(entries, fileKeyPrefix, (options || {}).delimiter);
+    }
+
+    /**
+     * Lists the keys of the files with the given prefix in the given container.
+     *
+     * @param fileKeyPrefix The prefix of the file keys to list.
+     * @param containerName The name of the container.
+     * @return A string list of file keys found.
+     */
+    public async listFileNamesWithPrefix(fileKeyPrefix?: string, containerName?: string): Promise<string[]> {
+        const files: InMemoryFileInfo[] = await this.listFilesWithPrefix(fileKeyPrefix, containerName);
+        return files.map((file) => file.name);
+    }
+
+    /**
+     * Returns the content of the file with the given key.
+     *
+     * @param fileKey The key of the file.
+     * @param containerName The name of the container.
+     * @return A copy of the content of the file.
+     */
+    public async downloadFile(fileKey: string, containerName?: string): Promise<Buffer> {
+        await this.simulateFaults('downloadFile');
+        return Buffer.from(this.readExistingFile(fileKey, containerName));
+    }
+
+    /**
+     * Writes the file with the given key to the disk in the specified location.
+     *
+     * @param fileKey The key of the file.
+     * @param localFilePath The desired local path to store the file in.
+     * @param containerName The name of the container.
+     * @return Resolved when the file is written.
+     */
+    public async downloadFileToDisk(fileKey: string, localFilePath: string, containerName?: string): Promise<void> {
+        await this.simulateFaults('downloadFileToDisk');
+        const data: Buffer = this.readExistingFile(fileKey, containerName);
+
+        return new Promise<void>(function(resolve, reject) {
+            fs.writeFile(localFilePath, data, function(error) {
+                if (error) {
+                    reject(toStorageError(error));
+                } else {
+                    resolve();
+                }
+            });
+        });
+    }
+
+    /**
+     * Writes the file with the given key to the disk in ranges. The ranges written are recorded in a
+     * checkpoint file, so that an interrupted download continues where it stopped.
+     *
+     * @param fileKey The key of the file.
+     * @param localFilePath The desired local path to store the file in.
+     * @param containerName The name of the container.
+     * @param options The checkpoint file and the transfer options (optional).
+     * @return Resolved when the file is written.
+     */
+    public downloadFileToDiskResumable(fileKey: string, localFilePath: string, containerName?: string,
+        options?: ResumableTransferOptions): Promise<void> {
+        return downloadFileInParts(fileKey, localFilePath, this.createRangeDownloader(fileKey, containerName),
+            Object.assign({}, options, { checkpointFilePath: getCheckpointFilePath(localFilePath, options) }));
+    }
+
+    /**
+     * Returns the content of the file with the given key as a stream.
+     *
+     * @param fileKey The key of the file.
+     * @param containerName The name of the container.
+     * @return A stream providing the content of the file.
+     */
+    public async downloadFileAsStream(fileKey: string, containerName?: string): Promise<Readable> {
+        await this.simulateFaults('downloadFileAsStream');
+        return bufferToStream(Buffer.from(this.readExistingFile(fileKey, containerName)));
+    }
+
+    /**
+     * Returns the content of the file with the given key.
+     *
+     * @param fileKey The key of the file.
+     * @param containerName The name of the container.
+     * @return A copy of the content of the file.
+     */
+    public async downloadFileAsBuffer(fileKey: string, containerName?: string): Promise<Buffer> {
+        await this.simulateFaults('downloadFileAsBuffer');
+        return Buffer.from(this.readExistingFile(fileKey, containerName));
+    }
+
+    /**
+     * Stores the given local file.
+     *
+     * @param localFilePath The local path of the file to store.
+     * @param fileKey The destination key of the file.
+     * @param containerName The name of the container.
+     * @param contentTypeOrMetadata The content type or the metadata of the file (optional).
+     * @return Resolved when the file is stored.
+     */
+    public async uploadFile(localFilePath: string, fileKey: string, containerName?: string,
+        contentTypeOrMetadata?: string | StorageFileMetadata): Promise<void> {
+        await this.simulateFaults('uploadFile');
+        let thisInstance: InMemoryStorageClient = this;
+
+        return new Promise<void>(function(resolve, reject) {
+            fs.readFile(localFilePath, function(error, data) {
+                if (error) {
+                    reject(toStorageError(error));
+                } else {
+                    thisInstance.putFile(fileKey, data, containerName, contentTypeOrMetadata);
+                    resolve();
+                }
+            });
+        });
+    }
+
+    /**
+     * Stores the given local file uploaded in parts. The parts uploaded are recorded in a checkpoint
+     * file, so that an interrupted upload continues where it stopped.
+     *
+     * @param localFilePath The local path of the file to store.
+     * @param fileKey The destination key of the file.
+     * @param containerName The name of the container.
+     * @param contentTypeOrMetadata The content type or the metadata of the file (optional).
+     * @param options The checkpoint file and the transfer options (optional).
+     * @return Resolved when the file is stored.
+     */
+    public uploadFileResumable(localFilePath: string, fileKey: string, containerName?: string,
+        contentTypeOrMetadata?: string | StorageFileMetadata, options?: ResumableTransferOptions): Promise<void> {
+        return uploadFileInParts(localFilePath, fileKey, this.createMultipartUploader(fileKey, containerName, contentTypeOrMetadata),
+            Object.assign({}, options, { checkpointFilePath: getCheckpointFilePath(localFilePath, options) }));
+    }
+
+    /**
+     * Stores the content of the given stream.
+     *
+     * @param readStream The stream to read the content of the file from.
+     * @param fileKey The destination key of the file.
+     * @param containerName The name of the container.
+     * @param contentTypeOrMetadata The content type or the metadata of the file (optional).
+     * @return Resolved when the file is stored.
+     */
+    public async uploadStream(readStream: Readable, fileKey: string, containerName?: string,
+        contentTypeOrMetadata?: string | StorageFileMetadata): Promise<void> {
+        await this.simulateFaults('uploadStream');
+        this.putFile(fileKey, await readStreamToBuffer(readStream), containerName, contentTypeOrMetadata);
+    }
+
+    /**
+     * Stores the given data.
+     *
+     * @param buffer The content of the file.
+     * @param fileKey The destination key of the file.
+     * @param containerName The name of the container.
+     * @param contentTypeOrMetadata The content type or the metadata of the file (optional).
+     * @return Resolved when the file is stored.
+     */
+    public async uploadBuffer(buffer: Buffer, fileKey: string, containerName?: string,
+        contentTypeOrMetadata?: string | StorageFileMetadata): Promise<void> {
+        await this.simulateFaults('uploadBuffer');
+        this.putFile(fileKey, buffer, containerName, contentTypeOrMetadata);
+    }
+
+    /**
+     * Replaces the user metadata of the given file without changing its data.
+     *
+     * @param fileKey The key of the file.
+     * @param userMetadata The new user metadata.
+     * @param containerName The name of the container.
+     * @param etag If given, the metadata is replaced only if the file still has this ETag (optional).
+     * @return Resolved when the metadata is replaced. Rejected with a ConflictError, if the ETag
+     * does not match.
+     */
+    public async setUserMetadata(fileKey: string, userMetadata: { [key: string]: string }, containerName?: string,
+        etag?: string): Promise<void> {
+        await this.simulateFaults('setUserMetadata');
+        let file: InMemoryFile = this.getExistingFile(fileKey, containerName);
+
+        if (etag && Buffer.from(file.contentMD5, 'base64').toString('hex') !== etag) {
+            throw new ConflictError('The file has changed: ' + fileKey, fileKey);
+        }
+
+        file.userMetadata = toStorageFileMetadata({ userMetadata: userMetadata }).userMetadata;
+        file.lastModified = new Date();
+    }
+
+    /**
+     * Copies the given file including its metadata. Like a copy made by a cloud storage, the data
+     * is copied as is, with the MD5 hash stored with it.
+     *
+     * @param sourceFileKey The key of the file to copy.
+     * @param targetFileKey The key of the copy.
+     * @param containerName The name of the container.
+     * @param targetContainerName The name of the container of the copy (optional). The same container, if not given.
+     * @return Resolved when the file is copied.
+     */
+    public async copyFile(sourceFileKey: string, targetFileKey: string, containerName?: string,
+        targetContainerName?: string): Promise<void> {
+        await this.simulateFaults('copyFile');
+        this.copyExistingFile(sourceFileKey, targetFileKey, containerName, targetContainerName);
+    }
+
+    /**
+     * Moves the given file including its metadata.
+     *
+     * @param sourceFileKey The key of the file to move.
+     * @param targetFileKey The new key of the file.
+     * @param containerName The name of the container.
+     * @param targetContainerName The name of the container to move the file to (optional). The same container, if not given.
+     * @return Resolved when the file is moved.
+     */
+    public async moveFile(sourceFileKey: string, targetFileKey: string, containerName?: string,
+        targetContainerName?: string): Promise<void> {
+        await this.simulateFaults('moveFile');
+        this.copyExistingFile(sourceFileKey, targetFileKey, containerName, targetContainerName);
+        this.removeFile(sourceFileKey, containerName);
+    }
+
+    /**
+     * Creates a fake URL of the given file, "memory://<container>/<key>" with the permissions and
+     * the expiry time in the query. Like the signing of the cloud storages, the file is not checked.
+     *
+     * @param fileKey The key of the file.
+     * @param containerName The name of the container.
+     * @param options The expiry and the permissions (optional).
+     * @return The URL.
+     */
+    public async getSignedUrl(fileKey: string, containerName?: string, options?: SignedUrlOptions): Promise<string> {
+        await this.simulateFaults('getSignedUrl');
+        options = Object.assign({
+            expiry: DEFAULT_SIGNED_URL_EXPIRY_IN_SECONDS,
+            permissions: SignedUrlPermission.Read
+        }, options || {});
+
+        return 'memory://' + encodeURIComponent(containerName || this.defaultContainerName || '') + '/' + encodeURI(fileKey)
+            + '?permissions=' + options.permissions + '&expiry=' + new Date(Date.now() + options.expiry * 1000).toISOString();
+    }
+
+    /**
+     * Deletes the given files. Files that do not exist are ignored.
+     *
+     * @param fileKeys The keys matching the files to delete.
+     * @param containerName The name of the container.
+     * @return Resolved when the files are deleted.
+     */
+    public async deleteFiles(fileKeys: string[], containerName?: string): Promise<void> {
+        await this.simulateFaults('deleteFiles');
+        fileKeys.forEach((fileKey) => this.removeFile(fileKey, containerName));
+    }
+
+    /**
+     * Deletes the given file. A file that does not exist is ignored.
+     *
+     * @param fileKey The key matching the file to delete.
+     * @param containerName The name of the container.
+     * @return Resolved when the file is deleted.
+     */
+    public async deleteFile(fileKey: string, containerName?: string): Promise<void> {
+        await this.simulateFaults('deleteFile');
+        this.removeFile(fileKey, containerName);
+    }
+
+    /**
+     * @param fileKey The destination key of the file.
+     * @param containerName The name of the container.
+     * @param contentTypeOrMetadata The content type or the metadata of the file.
+     * @return The multipart upload of the file keeping the parts in memory until completed.
+     */
+    protected createMultipartUploader(fileKey: string, containerName: string,
+        contentTypeOrMetadata: string | StorageFileMetadata): MultipartUploader {
+        const getParts = (uploadId: string): Map<number, Buffer> => {
+            if (!this.multipartUploads.has(uploadId)) {
+                throw new NotFoundError('Upload not found: ' + uploadId, fileKey);
+            }
+
+            return this.multipartUploads.get(uploadId);
+        };
+
+        return {
+            maxPartCount: MAX_PART_COUNT,
+            uploadSinglePart: (content) => this.uploadBuffer(content, fileKey, containerName, contentTypeOrMetadata),
+            createUpload: async () => {
+                await this.simulateFaults('createMultipartUpload');
+                const uploadId: string = String(this.nextUploadId++);
+                this.multipartUploads.set(uploadId, new Map<number, Buffer>());
+                return uploadId;
+            },
+            uploadPart: async (uploadId, partNumber, content) => {
+                await this.simulateFaults('uploadPart');
+                getParts(uploadId).set(partNumber, Buffer.from(content));
+                return crypto.createHash('md5').update(content).digest('hex');
+            },
+            completeUpload: async (uploadId, parts) => {
+                await this.simulateFaults('completeMultipartUpload');
+                const partsByNumber: Map<number, Buffer> = getParts(uploadId);
+
+                this.putFile(fileKey, Buffer.concat(parts.map((part) => {
+                    if (!partsByNumber.has(part.partNumber)) {
+                        throw new NotFoundError('Part not found: ' + part.partNumber, fileKey);
+                    }
+
+                    return partsByNumber.get(part.partNumber);
+                })), containerName, contentTypeOrMetadata);
+                this.multipartUploads.delete(uploadId);
+            },
+            abortUpload: async (uploadId) => {
+                this.multipartUploads.delete(uploadId);
+            }
+        };
+    }
+
+    /**
+     * @param fileKey The key of the file.
+     * @param containerName The name of the container.
+     * @return The ranged download of the file.
+     */
+    protected createRangeDownloader(fileKey: string, containerName: string): RangeDownloader {
+        return {
+            getFileProperties: () => this.getFileProperties(fileKey, containerName),
+            downloadRange: async (start, end, etag) => {
+                await this.simulateFaults('downloadRange');
+                const file: InMemoryFile = this.getExistingFile(fileKey, containerName);
+
+                if (Buffer.from(file.contentMD5, 'base64').toString('hex') !== etag) {
+                    throw new ConflictError('The file has changed: ' + fileKey, fileKey);
+                }
+
+                return Buffer.from(file.data.slice(start, end + 1));
+            }
+        };
+    }
+
+    /**
+     * Applies the injected latency and errors.
+     *
+     * @param operationName The name of the operation.
+     */
+    protected async simulateFaults(operationName: string) {
+        if (this.latencyInMs > 0) {
+            await new Promise((resolve) => setTimeout(resolve, this.latencyInMs));
+        }
+
+        let injectedError: InjectedError =
+            this.injectedErrors.get(operationName) || this.injectedErrors.get(ALL_OPERATIONS);
+
+        if (injectedError && injectedError.remainingCount > 0) {
+            injectedError.remainingCount--;
+            throw injectedError.error;
+        }
+    }
+
+    /**
+     * @param containerName The name of the container. If not given, the default container is used.
+     * @return The name of the container to use.
+     */
+    protected resolveContainerName(containerName?: string): string {
+        return (containerName || this.defaultContainerName || '');
+    }
+
+    /**
+     * @param fileKey The key of the file.
+     * @param containerName The name of the container.
+     * @return The file or undefined, if not found or injected to be missing.
+     */
+    protected findFile(fileKey: string, containerName?: string): InMemoryFile {
+        containerName = this.resolveContainerName(containerName);
+
+        if (this.notFoundFilePaths.has(containerName + '/' + fileKey)) {
+            return undefined;
+        }
+
+        return this.getFile(fileKey, containerName);
+    }
+
+    /**
+     * @param fileKeyPrefix The prefix of the file keys.
+     * @param containerName The name of the container.
+     * @return The files with the given prefix sorted by the key.
+     */
+    protected findFilesWithPrefix(fileKeyPrefix: string, containerName?: string): InMemoryFileInfo[] {
+        fileKeyPrefix = fileKeyPrefix || '';
+        containerName = this.resolveContainerName(containerName);
+        const container = this.containers.get(containerName);
+        let files: InMemoryFileInfo[] = [];
+
+        if (container) {
+            for (let file of container.values()) {
+                if (file.name.indexOf(fileKeyPrefix) === 0 && this.findFile(file.name, containerName)) {
+                    files.push({ name: file.name, size: file.size, lastModified: file.lastModified });
+                }
+            }
+        }
+
+        files.sort((a, b) => compareKeys(a.name, b.name));
+        return files;
+    }
+
+    /**
+     * @param fileKey The key of the file.
+     * @param containerName The name of the container.
+     * @return The file. An error with code ERROR_CODE_NOT_FOUND is thrown if not found.
+     */
+    protected getExistingFile(fileKey: string, containerName?: string): InMemoryFile {
+        const file: InMemoryFile = this.findFile(fileKey, containerName);
+
+        if (file === undefined) {
+            throw createNotFoundError(fileKey);
+        }
+
+        return file;
+    }
+
+    /**
+     * @param fileKey The key of the file.
+     * @param containerName The name of the container.
+     * @return The data of the file. A ChecksumMismatchError is thrown, if it does not match the
+     * MD5 hash stored with it.
+     */
+    protected readExistingFile(fileKey: string, containerName?: string): Buffer {
+        const file: InMemoryFile = this.getExistingFile(fileKey, containerName);
+        return verifyContent(file.data, fileKey, { size: file.size, contentMD5: file.contentMD5 });
+    }
+
+    /**
+     * @param sourceFileKey The key of the file to copy.
+     * @param targetFileKey The key of the copy.
+     * @param containerName The name of the container.
+     * @param targetContainerName The name of the container of the copy. The same container, if not given.
+     */
+    protected copyExistingFile(sourceFileKey: string, targetFileKey: string, containerName?: string, targetContainerName?: string) {
+        containerName = this.resolveContainerName(containerName);
+        targetContainerName = targetContainerName || containerName;
+        checkCopyTarget(sourceFileKey, targetFileKey, containerName, targetContainerName);
+        const file: InMemoryFile = this.getExistingFile(sourceFileKey, containerName);
+
+        if (!this.containers.has(targetContainerName)) {
+            this.containers.set(targetContainerName, new Map<string, InMemoryFile>());
+        }
+
+        this.containers.get(targetContainerName).set(targetFileKey, Object.assign({}, file, {
+            name: targetFileKey,
+            lastModified: new Date(),
+            userMetadata: (file.userMetadata ? Object.assign({}, file.userMetadata) : undefined)
+        }));
+    }
+
+    /**
+     * @param fileKey The key of the file to remove.
+     * @param containerName The name of the container.
+     */
+    protected removeFile(fileKey: string, containerName?: string) {
+        const container = this.containers.get(this.resolveContainerName(containerName));
+
+        if (container) {
+            container.delete(fileKey);
+        }
+    }
+}
@@ -0,0 +1,367 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import { Readable, Transform } from 'stream';
+import { ChecksumMismatchError, StorageError } from './storage-errors';
+
+export const DEFAULT_VERIFICATION_CONCURRENCY = 4;
+const CRC32C_POLYNOMIAL = 0x82f63b78;
+
+/**
+ * The algorithms of the checksums computed of the content of the files.
+ */
+export enum ChecksumAlgorithm {
+    /**
+     * The hash stored by the storages (Content-MD5), so the content can be checked against it.
+     */
+    MD5 = 'md5',
+
+    /**
+     * A faster checksum for comparing the copies of a file, not stored by the storages.
+     */
+    CRC32C = 'crc32c'
+};
+
+/**
+ * A checksum computed incrementally.
+ */
+export interface Checksum {
+    update(data: Buffer);
+
+    /**
+     * @return The checksum of the data given so far.
+     */
+    digest(): Buffer;
+}
+
+/**
+ * The size and the hash the content of a file is expected to have. The fields not given are not checked.
+ */
+export interface ExpectedContent {
+    size?: number;
+
+    /**
+     * The base64 encoded MD5 hash.
+     */
+    contentMD5?: string;
+}
+
+/**
+ * The options for verifying the copies of the files.
+ */
+export interface VerificationOptions {
+    /**
+     * The checksum compared between the copies. The default is ChecksumAlgorithm.CRC32C.
+     */
+    algorithm?: ChecksumAlgorithm;
+
+    /**
+     * The maximum number of files verified at the same time. The default is DEFAULT_VERIFICATION_CONCURRENCY.
+     */
+    concurrency?: number;
+
+    /**
+     * If true, the corrupt copies are replaced with a copy from a storage whose copy is intact.
+     * By default, they are only reported.
+     */
+    repairCorruptCopies?: boolean;
+}
+
+/**
+ * A file whose copies do not have the same content, or with a copy that does not match the hash
+ * stored with it.
+ */
+export interface ChecksumMismatch {
+    name: string;
+
+    /**
+     * The base64 encoded checksums of the content of the copies by the storage IDs. Null for the corrupt copies.
+     */
+    checksumsByStorage: { [storageId: string]: string };
+
+    /**
+     * The IDs of the storages whose copy does not match the hash stored with it.
+     */
+    corruptStorageIds: string[];
+
+    /**
+     * The IDs of the storages whose corrupt copy was replaced.
+     */
+    repairedStorageIds: string[];
+
+    /**
+     * The errors by the IDs of the storages where replacing the corrupt copy failed.
+     */
+    repairErrorsByStorage: { [storageId: string]: StorageError };
+}
+
+/**
+ * A file that could not be verified.
+ */
+export interface VerificationFailure {
+    name: string;
+    error: any;
+}
+
+export interface VerificationSummary {
+    filesChecked: number;
+    filesMismatched: number;
+    corruptCopies: number;
+    copiesRepaired: number;
+    failures: number;
+}
+
+/**
+ * The files whose copies differ and the corrupt copies found by verifying the storages.
+ */
+export interface VerificationReport {
+    prefix: string;
+    algorithm: ChecksumAlgorithm;
+    mismatches: ChecksumMismatch[];
+    failures: VerificationFailure[];
+    summary: VerificationSummary;
+}
+
+/**
+ * A stream passing the content through while computing its size and checksum. If the expected
+ * content is given, the stream is failed with a ChecksumMismatchError at the end, unless the
+ * content matches.
+ */
+export class ChecksumStream extends Transform {
+    /**
+     * The number of bytes passed through so far.
+     */
+    public size: number = 0;
+
+    /**
+     * The base64 encoded checksum of the content. Null until the stream has ended.
+     */
+    public checksum: string = null;
+
+    protected storageFilePath: string;
+    protected algorithm: ChecksumAlgorithm;
+    protected state: Checksum;
+    protected getExpectedContent: () => ExpectedContent;
+
+    /**
+     * @param storageFilePath The path of the file, for the errors.
+     * @param algorithm The checksum algorithm. The expected hash is only checked with ChecksumAlgorithm.MD5.
+     * @param getExpectedContent Called at the end to get the expected content (optional), e.g.
+     * once the response headers have been received.
+     */
+    constructor(storageFilePath: string, algorithm: ChecksumAlgorithm, getExpectedContent?: () => ExpectedContent) {
+        super();
+        this.storageFilePath = storageFilePath;
+        this.algorithm = algorithm;
+        this.state = createChecksum(algorithm);
+        this.getExpectedContent = getExpectedContent || (() => ({}));
+    }
+
+    public _transform(chunk: Buffer, encoding: string, callback: Function) {
+        this.state.update(chunk);
+        this.size += chunk.length;
+        callback(null, chunk);
+    }
+
+    public _flush(callback: Function) {
+        this.checksum = this.state.digest().toString('base64');
+        const expectedContent: ExpectedContent = this.getExpectedContent();
+
+        callback(checkContent(this.storageFilePath, expectedContent, {
+            size: this.size,
+            contentMD5: (this.algorithm === ChecksumAlgorithm.MD5 ? this.checksum : undefined)
+        }));
+    }
+}
+
+/**
+ * The MD5 hash of the crypto module as a checksum.
+ */
+class Md5 implements Checksum {
+    protected hash: crypto.Hash = crypto.createHash('md5');
+
+    public update(data: Buffer) {
+        this.hash.update(data);
+    }
+
+    public digest(): Buffer {
+        return this.hash.digest();
+    }
+}
+
+/**
+ * The CRC-32C (Castagnoli) checksum used by e.g. iSCSI and Google Cloud Storage.
+ */
+class Crc32c implements Checksum {
+    protected static table: number[] = null;
+    protected crc: number = 0xffffffff;
+
+    public update(data: Buffer) {
+        const table: number[] = Crc32c.getTable();
+        let crc: number = this.crc;
+
+        for (let i = 0; i < data.length; i++) {
+            crc = table[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+        }
+
+        this.crc = crc;
+    }
+
+    public digest(): Buffer {
+        let checksum: Buffer = Buffer.alloc(4);
+        checksum.writeUInt32BE((this.crc ^ 0xffffffff) >>> 0, 0);
+        return checksum;
+    }
+
+    /**
+     * @return The CRC of each byte value, computed on first use.
+     */
+    protected static getTable(): number[] {
+        if (Crc32c.table === null) {
+            Crc32c.table = [];
+
+            for (let i = 0; i < 256; i++) {
+                let crc: number = i;
+
+                for (let bit = 0; bit < 8; bit++) {
+                    crc = ((crc & 1) ? (crc >>> 1) ^ CRC32C_POLYNOMIAL : crc >>> 1);
+                }
+
+                Crc32c.table.push(crc >>> 0);
+            }
+        }
+
+        return Crc32c.table;
+    }
+}
+
+/**
+ * @param algorithm The checksum algorithm.
+ * @return A new checksum.
+ */
+export function createChecksum(algorithm: ChecksumAlgorithm): Checksum {
+    switch (algorithm) {
+        case ChecksumAlgorithm.MD5:
+            return new Md5();
+        case ChecksumAlgorithm.CRC32C:
+            return new Crc32c();
+        default:
+            throw new Error('Unknown checksum algorithm "' + algorithm + '"');
+    }
+}
+
+/**
+ * @param content The content.
+ * @param algorithm The checksum algorithm. The default is ChecksumAlgorithm.MD5.
+ * @return The base64 encoded checksum of the content.
+ */
+export function computeChecksum(content: Buffer, algorithm?: ChecksumAlgorithm): string {
+    let checksum: Checksum = createChecksum(algorithm || ChecksumAlgorithm.MD5);
+    checksum.update(content);
+    return checksum.digest().toString('base64');
+}
+
+/**
+ * @param localFilePath The path of the file.
+ * @param algorithm The checksum algorithm. The default is ChecksumAlgorithm.MD5.
+ * @return The base64 encoded checksum of the content of the file.
+ */
+export function computeFileChecksum(localFilePath: string, algorithm?: ChecksumAlgorithm): Promise<string> {
+    return new Promise<string>(function(resolve, reject) {
+        let checksum: Checksum = createChecksum(algorithm || ChecksumAlgorithm.MD5);
+
+        fs.createReadStream(localFilePath).on('data', (chunk: Buffer) => {
+            checksum.update(chunk);
+        }).on('error', (error) => {
+            reject(error);
+        }).on('end', () => {
+            resolve(checksum.digest().toString('base64'));
+        });
+    });
+}
+
+/**
+ * Compares the given content with the expected one.
+ *
+ * @param storageFilePath The path of the file, for the error.
+ * @param expectedContent The expected size and hash.
+ * @param actualContent The size and the hash of the content.
+ * @return Null, if the fields known on both sides match. A ChecksumMismatchError otherwise.
+ */
+export function checkContent(storageFilePath: string, expectedContent: ExpectedContent,
+    actualContent: ExpectedContent): ChecksumMismatchError {
+    if (typeof expectedContent.size === 'number' && typeof actualContent.size === 'number'
+        && expectedContent.size !== actualContent.size) {
+        return new ChecksumMismatchError('Expected ' + expectedContent.size + ' bytes but the content has '
+            + actualContent.size + ': ' + storageFilePath, storageFilePath);
+    }
+
+    if (expectedContent.contentMD5 && actualContent.contentMD5 && expectedContent.contentMD5 !== actualContent.contentMD5) {
+        return new ChecksumMismatchError('Expected the MD5 hash ' + expectedContent.contentMD5 + ' but the content has '
+            + actualContent.contentMD5 + ': ' + storageFilePath, storageFilePath);
+    }
+
+    return null;
+}
+
+/**
+ * Checks the given content against the expected one.
+ *
+ * @param content The content.
+ * @param storageFilePath The path of the file, for the error.
+ * @param expectedContent The expected size and hash.
+ * @return The given content. A ChecksumMismatchError is thrown, if it does not match.
+ */
+export function verifyContent(content: Buffer, storageFilePath: string, expectedContent: ExpectedContent): Buffer {
+    const error: ChecksumMismatchError = checkContent(storageFilePath, expectedContent, {
+        size: content.length,
+        contentMD5: (expectedContent.contentMD5 ? computeChecksum(content) : undefined)
+    });
+
+    if (error !== null) {
+        throw error;
+    }
+
+    return content;
+}
+
+/**
+ * Pipes the given stream through a stream checking the MD5 hash and the size of the content. The
+ * errors of the given stream are emitted by the returned one.
+ *
+ * @param readStream The stream to check.
+ * @param storageFilePath The path of the file, for the errors.
+ * @param getExpectedContent Called at the end to get the expected content.
+ * @return The stream providing the same content, failed with a ChecksumMismatchError at the end
+ * if the content does not match.
+ */
+export function verifyStream(readStream: Readable, storageFilePath: string,
+    getExpectedContent: () => ExpectedContent): ChecksumStream {
+    const checksumStream: ChecksumStream = new ChecksumStream(storageFilePath, ChecksumAlgorithm.MD5, getExpectedContent);
+
+    readStream.on('error', (error) => {
+        checksumStream.emit('error', error);
+    });
+
+    return readStream.pipe(checksumStream);
+}
+
+/**
+ * @param prefix The prefix being verified.
+ * @param algorithm The checksum algorithm.
+ * @return An empty report.
+ */
+export function createVerificationReport(prefix: string, algorithm: ChecksumAlgorithm): VerificationReport {
+    return {
+        prefix: prefix,
+        algorithm: algorithm,
+        mismatches: [],
+        failures: [],
+        summary: {
+            filesChecked: 0,
+            filesMismatched: 0,
+            corruptCopies: 0,
+            copiesRepaired: 0,
+            failures: 0
+        }
+    };
+}
@@ -0,0 +1,303 @@
+import { InvalidKeyError } from './storage-errors';
+
+export const DEFAULT_ESCAPE_CHARACTER = '%';
+
+/**
+ * The characters AWS S3 recommends to avoid in keys. The control characters and the escape
+ * character are always escaped.
+ */
+export const DEFAULT_CHARACTERS_TO_ESCAPE = '\\{}^`[]"<>~#|';
+
+export const MAX_AWS_S3_KEY_LENGTH_IN_BYTES = 1024;
+export const MAX_AZURE_BLOB_NAME_LENGTH_IN_BYTES = 1024;
+
+const CONTROL_CHARACTER_PATTERN = /[\u0000-\u001f\u007f]/;
+const HEX_PATTERN = /^[0-9a-fA-F]{2}$/;
+
+/**
+ * Translates the keys used by the callers to the keys in a storage and back. The translation
+ * must round-trip: fromStorageKey(toStorageKey(key)) === key for every key accepted.
+ */
+export interface KeyMapper {
+    /**
+     * @param key The key used by the callers.
+     * @return The key in the storage. Throws an InvalidKeyError, if the key cannot be represented.
+     */
+    toStorageKey(key: string): string;
+
+    /**
+     * @param storageKey A key in the storage.
+     * @return The key used by the callers or null, if no key maps to the given one (e.g. it is
+     * outside of the storage prefix).
+     */
+    fromStorageKey(storageKey: string): string;
+
+    /**
+     * @param prefix A prefix of the keys used by the callers.
+     * @return The prefixes of the storage keys to list to find every key with the given prefix.
+     * The listings may also contain other keys, which are filtered out by the caller.
+     */
+    toStoragePrefixes(prefix: string): string[];
+
+    /**
+     * @return True, if the storage keys under each storage prefix (and under none of the longer
+     * storage prefixes of the same listing) are in the same order as the keys of the callers, so
+     * that the listings can be translated and merged as they are read.
+     */
+    isOrderPreserving(): boolean;
+}
+
+/**
+ * Replaces a prefix of the keys, e.g. the keys under "media/" in the containers are under
+ * "prod/media/" in the buckets. The keys without the prefix are kept as is, but the keys starting
+ * with the storage prefix without starting with the prefix are rejected, since they could not be
+ * told apart from the translated keys.
+ */
+export class PrefixKeyMapper implements KeyMapper {
+    protected prefix: string;
+    protected storagePrefix: string;
+
+    /**
+     * @param prefix The prefix of the keys used by the callers. An empty string for all keys.
+     * @param storagePrefix The prefix replacing it in the storage.
+     */
+    constructor(prefix: string, storagePrefix: string) {
+        this.prefix = prefix || '';
+        this.storagePrefix = storagePrefix || '';
+    }
+
+    public toStorageKey(key: string): string {
+        if (key.indexOf(this.prefix) === 0) {
+            return this.storagePrefix + key.substring(this.prefix.length);
+        }
+
+        if (key.indexOf(this.storagePrefix) === 0) {
+            throw new InvalidKeyError('The key "' + key + '" collides with the storage prefix "' + this.storagePrefix + '"', key);
+        }
+
+        return key;
+    }
+
+    public fromStorageKey(storageKey: string): string {
+        if (storageKey.indexOf(this.storagePrefix) === 0) {
+            return this.prefix + storageKey.substring(this.storagePrefix.length);
+        }
+
+        return (storageKey.indexOf(this.prefix) === 0 ? null : storageKey);
+    }
+
+    public toStoragePrefixes(prefix: string): string[] {
+        if (prefix.indexOf(this.prefix) === 0) {
+            return [this.storagePrefix + prefix.substring(this.prefix.length)];
+        }
+
+        if (this.prefix.indexOf(prefix) === 0) {
+            // Both the translated keys and the keys kept as is
+            return [prefix, this.storagePrefix];
+        }
+
+        return [prefix];
+    }
+
+    public isOrderPreserving(): boolean {
+        return true;
+    }
+}
+
+export interface EscapingKeyMapperOptions {
+    /**
+     * The character starting an escape sequence. The default is DEFAULT_ESCAPE_CHARACTER.
+     */
+    escapeCharacter?: string;
+
+    /**
+     * The characters escaped anywhere in the keys. The default is DEFAULT_CHARACTERS_TO_ESCAPE.
+     */
+    charactersToEscape?: string;
+
+    /**
+     * If true, the dots and slashes at the end of the keys are escaped, since Azure Blob Storage
+     * does not allow blob names ending with them.
+     */
+    escapeTrailingDotsAndSlashes?: boolean;
+
+    /**
+     * If true, the slashes at the beginning of the keys are escaped.
+     */
+    escapeLeadingSlashes?: boolean;
+
+    /**
+     * If true, the upper case letters are escaped and the escape sequences are in lower case, so
+     * that the keys differing only by case do not collide in a case-insensitive storage.
+     */
+    escapeUpperCase?: boolean;
+}
+
+/**
+ * Escapes the characters not allowed in a storage as the escape character followed by the
+ * hexadecimal UTF-8 bytes of the character, e.g. "a|b" as "a%7Cb". The escape character itself is
+ * always escaped, so the keys round-trip.
+ */
+export class EscapingKeyMapper implements KeyMapper {
+    protected options: EscapingKeyMapperOptions;
+
+    /**
+     * @param options The characters to escape (optional).
+     */
+    constructor(options?: EscapingKeyMapperOptions) {
+        this.options = Object.assign({
+            escapeCharacter: DEFAULT_ESCAPE_CHARACTER,
+            charactersToEscape: DEFAULT_CHARACTERS_TO_ESCAPE,
+            escapeTrailingDotsAndSlashes: false,
+            escapeLeadingSlashes: false,
+            escapeUpperCase: false
+        }, options || {});
+    }
+
+    public toStorageKey(key: string): string {
+        return this.escape(key, true);
+    }
+
+    public fromStorageKey(storageKey: string): string {
+        const escapeCharacter: string = this.options.escapeCharacter;
+        let result: string = '';
+        let bytes: number[] = [];
+
+        for (let i = 0; i < storageKey.length; i++) {
+            if (storageKey[i] === escapeCharacter) {
+                const hex: string = storageKey.substr(i + 1, 2);
+
+                if (!HEX_PATTERN.test(hex)) {
+                    return null;
+                }
+
+                bytes.push(parseInt(hex, 16));
+                i += 2;
+                continue;
+            }
+
+            if (bytes.length > 0) {
+                result += Buffer.from(bytes).toString('utf8');
+                bytes = [];
+            }
+
+            result += storageKey[i];
+        }
+
+        if (bytes.length > 0) {
+            result += Buffer.from(bytes).toString('utf8');
+        }
+
+        // Not produced by toStorageKey(), e.g. malformed UTF-8 or an unnecessary escape
+        return (this.escape(result, true) === storageKey ? result : null);
+    }
+
+    public toStoragePrefixes(prefix: string): string[] {
+        const storagePrefix: string = this.escape(prefix, false);
+        const storagePrefixAsKey: string = this.escape(prefix, true);
+
+        // The keys continuing with other characters keep the trailing dots and slashes of the prefix
+        return (storagePrefix === storagePrefixAsKey ? [storagePrefix] : [storagePrefix, storagePrefixAsKey]);
+    }
+
+    public isOrderPreserving(): boolean {
+        return false;
+    }
+
+    /**
+     * @param key The key or the prefix to escape.
+     * @param isKey True, if the end of the given string is the end of a key.
+     * @return The escaped key.
+     */
+    protected escape(key: string, isKey: boolean): string {
+        const characters: string[] = Array.from(key);
+        let leadingEnd: number = 0;
+        let trailingStart: number = characters.length;
+
+        if (this.options.escapeLeadingSlashes) {
+            while (leadingEnd < characters.length && characters[leadingEnd] === '/') {
+                leadingEnd++;
+            }
+        }
+
+        if (isKey && this.options.escapeTrailingDotsAndSlashes) {
+            while (trailingStart > leadingEnd && (characters[trailingStart - 1] === '.' || characters[trailingStart - 1] === '/')) {
+                trailingStart--;
+            }
+        }
+
+        return characters.map((character, index) =>
+            (index < leadingEnd || index >= trailingStart || this.mustEscape(character) ? this.toEscapeSequence(character) : character)).join('');
+    }
+
+    /**
+     * @param character A character of a key.
+     * @return True, if the character is escaped regardless of its position.
+     */
+    protected mustEscape(character: string): boolean {
+        return (character === this.options.escapeCharacter
+            || this.options.charactersToEscape.indexOf(character) !== -1
+            || CONTROL_CHARACTER_PATTERN.test(character)
+            || (this.options.escapeUpperCase && character !== character.toLowerCase()));
+    }
+
+    /**
+     * @param character A character.
+     * @return The escape sequence of the character.
+     */
+    protected toEscapeSequence(character: string): string {
+        const hex: string = Array.from(Buffer.from(character, 'utf8')).map((byte) =>
+            this.options.escapeCharacter + (byte < 16 ? '0' : '') + byte.toString(16)).join('');
+        return (this.options.escapeUpperCase ? hex : hex.toUpperCase());
+    }
+}
+
+/**
+ * Applies the given key mappers in order, e.g. a prefix rewrite followed by escaping.
+ */
+export class ChainedKeyMapper implements KeyMapper {
+    protected keyMappers: KeyMapper[];
+
+    /**
+     * @param keyMappers The key mappers in the order applied to the keys of the callers.
+     */
+    constructor(keyMappers: KeyMapper[]) {
+        this.keyMappers = keyMappers.slice();
+    }
+
+    public toStorageKey(key: string): string {
+        return this.keyMappers.reduce((result, keyMapper) => keyMapper.toStorageKey(result), key);
+    }
+
+    public fromStorageKey(storageKey: string): string {
+        let result: string = storageKey;
+
+        for (let i = this.keyMappers.length - 1; i >= 0 && result !== null; i--) {
+            result = this.keyMappers[i].fromStorageKey(result);
+        }
+
+        return result;
+    }
+
+    public toStoragePrefixes(prefix: string): string[] {
+        let result: string[] = [prefix];
+
+        this.keyMappers.forEach((keyMapper) => {
+            let storagePrefixes: string[] = [];
+
+            result.forEach((resultPrefix) => keyMapper.toStoragePrefixes(resultPrefix).forEach((storagePrefix) => {
+                if (storagePrefixes.indexOf(storagePrefix) === -1) {
+                    storagePrefixes.push(storagePrefix);
+                }
+            }));
+
+            result = storagePrefixes;
+        });
+
+        return result;
+    }
+
+    public isOrderPreserving(): boolean {
+        return this.keyMappers.every((keyMapper) => keyMapper.isOrderPreserving());
+    }
+}
@@ -0,0 +1,334 @@
+import { Readable } from 'stream';
+import {
+    IStorageClient, ListOptions, MetadataUpdatingStorageClient, SignedUrlOptions, StorageFileMetadata, StorageFileProperties,
+    StorageListEntry, UrlCopyingStorageClient, copyFileFromUrl, setUserMetadata
+} from './storage-client';
+import { KeyMapper } from './key-mapper';
+import { compareKeys, groupByDelimiter, groupListingByDelimiter, mergeListings } from './listing-utils';
+import {
+    ResumableStorageClient, ResumableTransferOptions, downloadFileToDiskResumable, uploadFileResumable
+} from './resumable-transfers';
+import { InvalidKeyError } from './storage-errors';
+
+export interface KeyMappingStorageClientOptions {
+    /**
+     * If given, the storage keys longer than this in UTF-8 are rejected with an InvalidKeyError
+     * before calling the storage, e.g. MAX_AWS_S3_KEY_LENGTH_IN_BYTES.
+     */
+    maxKeyLengthInBytes?: number;
+}
+
+/**
+ * A storage client translating the keys with a key mapper before passing the calls to the wrapped
+ * storage client. The listings are translated back to the keys of the callers, and the storage keys
+ * no key maps to are left out.
+ *
+ * If the key mapper preserves the order of the keys, the listings of the storage prefixes are merged
+ * as they are read. Otherwise the whole listing under the prefix is read and sorted before the first
+ * entry is yielded.
+ *
+ * The upload and copy results and the listing result are those of the wrapped storage client.
+ */
+export class KeyMappingStorageClient<TUploadResult = void, TListResult extends object = object>
+    implements IStorageClient<TUploadResult, TListResult>,
+    ResumableStorageClient, MetadataUpdatingStorageClient, UrlCopyingStorageClient {
+    protected storageClient: IStorageClient<TUploadResult, TListResult>;
+    protected keyMapper: KeyMapper;
+    protected options: KeyMappingStorageClientOptions;
+
+    /**
+     * @param storageClient The storage client to wrap.
+     * @param keyMapper The key mapper.
+     * @param options The validation options (optional).
+     */
+    constructor(storageClient: IStorageClient<TUploadResult, TListResult>, keyMapper: KeyMapper, options?: KeyMappingStorageClientOptions) {
+        this.storageClient = storageClient;
+        this.keyMapper = keyMapper;
+        this.options = Object.assign({}, options || {});
+    }
+
+    /**
+     * @return The wrapped storage client.
+     */
+    public getStorageClient(): IStorageClient<TUploadResult, TListResult> {
+        return this.storageClient;
+    }
+
+    /**
+     * @return The key mapper.
+     */
+    public getKeyMapper(): KeyMapper {
+        return this.keyMapper;
+    }
+
+    /**
+     * @param storageFilePath The key used by the callers.
+     * @return The key in the wrapped storage. Throws an InvalidKeyError, if the key cannot be
+     * translated or is too long.
+     */
+    public toStorageKey(storageFilePath: string): string {
+        const storageKey: string = this.keyMapper.toStorageKey(storageFilePath);
+
+        if (this.options.maxKeyLengthInBytes && Buffer.byteLength(storageKey, 'utf8') > this.options.maxKeyLengthInBytes) {
+            throw new InvalidKeyError('The key "' + storageFilePath + '" is longer than '
+                + this.options.maxKeyLengthInBytes + ' bytes in the storage', storageFilePath);
+        }
+
+        return storageKey;
+    }
+
+    public isInitialized(): boolean {
+        return this.storageClient.isInitialized();
+    }
+
+    public initialize(...initializationArguments: string[]) {
+        this.storageClient.initialize(...initializationArguments);
+    }
+
+    public keepsUserMetadata(): boolean {
+        return this.storageClient.keepsUserMetadata();
+    }
+
+    public fileExists(storageFilePath: string, containerOrBucketName?: string): Promise<boolean> {
+        return this.withStorageKey(storageFilePath, (storageKey) => this.storageClient.fileExists(storageKey, containerOrBucketName));
+    }
+
+    public getFileProperties(storageFilePath: string, containerOrBucketName?: string): Promise<StorageFileProperties> {
+        return this.withStorageKey(storageFilePath, (storageKey) =>
+            this.storageClient.getFileProperties(storageKey, containerOrBucketName));
+    }
+
+    /**
+     * Note that the listing result of the backend is returned as is, without translating the keys.
+     * Only the first storage prefix of the given prefix is listed.
+     */
+    public listFilesWithPrefix(storageFileNamePrefix: string, containerOrBucketName?: string): Promise<TListResult> {
+        return this.storageClient.listFilesWithPrefix(
+            this.keyMapper.toStoragePrefixes(storageFileNamePrefix || '')[0], containerOrBucketName);
+    }
+
+    public async listFileNamesWithPrefix(storageFileNamePrefix?: string, containerOrBucketName?: string): Promise<string[]> {
+        let fileNames: string[] = [];
+
+        for await (const entry of this.listFiles(storageFileNamePrefix, containerOrBucketName)) {
+            fileNames.push(entry.name);
+        }
+
+        return fileNames;
+    }
+
+    public async *listFiles(storageFileNamePrefix?: string, containerOrBucketName?: string,
+        options?: ListOptions): AsyncIterableIterator<StorageListEntry> {
+        const prefix: string = storageFileNamePrefix || '';
+        const storagePrefixes: string[] = this.keyMapper.toStoragePrefixes(prefix);
+        options = options || {};
+
+        if (this.keyMapper.isOrderPreserving() && storagePrefixes.length === 1) {
+            for await (const entry of this.storageClient.listFiles(storagePrefixes[0], containerOrBucketName, options)) {
+                const name: string = this.keyMapper.fromStorageKey(entry.name);
+
+                if (name !== null && name.indexOf(prefix) === 0) {
+                    yield Object.assign({}, entry, { name: name });
+                }
+            }
+
+            return;
+        }
+
+        if (this.keyMapper.isOrderPreserving()) {
+            // The delimiter is applied to the translated keys
+            yield* groupListingByDelimiter(this.listStoragePrefixes(storagePrefixes, prefix, containerOrBucketName, options.pageSize),
+                prefix, options.delimiter);
+            return;
+        }
+
+        let entriesByName: Map<string, StorageListEntry> = new Map<string, StorageListEntry>();
+
+        for (const storagePrefix of storagePrefixes) {
+            for await (const entry of this.storageClient.listFiles(storagePrefix, containerOrBucketName, { pageSize: options.pageSize })) {
+                const name: string = this.keyMapper.fromStorageKey(entry.name);
+
+                if (name !== null && name.indexOf(prefix) === 0 && !entriesByName.has(name)) {
+                    entriesByName.set(name, Object.assign({}, entry, { name: name }));
+                }
+            }
+        }
+
+        let entries: StorageListEntry[] = Array.from(entriesByName.values()).sort((a, b) => compareKeys(a.name, b.name));
+
+        for (const entry of groupByDelimiter(entries, prefix, options.delimiter)) {
+            yield entry;
+        }
+    }
+
+    /**
+     * Merges the listings of the given storage prefixes with the keys translated as they are read.
+     *
+     * @param storagePrefixes The storage prefixes to list.
+     * @param prefix The prefix of the keys of the callers.
+     * @param containerOrBucketName The name of the container/bucket.
+     * @param pageSize The page size (optional).
+     * @return The entries with the translated keys starting with the given prefix sorted by the key.
+     */
+    protected async *listStoragePrefixes(storagePrefixes: string[], prefix: string, containerOrBucketName?: string,
+        pageSize?: number): AsyncIterableIterator<StorageListEntry> {
+        const listings: AsyncIterator<StorageListEntry>[] = storagePrefixes.map((storagePrefix) =>
+            this.listStoragePrefix(storagePrefix, storagePrefixes, prefix, containerOrBucketName, pageSize));
+
+        for await (const entries of mergeListings(listings)) {
+            yield entries.find((entry) => !!entry);
+        }
+    }
+
+    /**
+     * Lists the given storage prefix with the keys translated. The storage keys under a longer one
+     * of the other storage prefixes are left to the listing of that prefix, so that each listing is
+     * sorted by the translated key when the key mapper preserves the order.
+     *
+     * @param storagePrefix The storage prefix to list.
+     * @param storagePrefixes All storage prefixes listed.
+     * @param prefix The prefix of the keys of the callers.
+     * @param containerOrBucketName The name of the container/bucket.
+     * @param pageSize The page size (optional).
+     * @return The entries with the translated keys starting with the given prefix.
+     */
+    protected async *listStoragePrefix(storagePrefix: string, storagePrefixes: string[], prefix: string,
+        containerOrBucketName?: string, pageSize?: number): AsyncIterableIterator<StorageListEntry> {
+        const longerStoragePrefixes: string[] = storagePrefixes.filter((otherStoragePrefix) =>
+            otherStoragePrefix.length > storagePrefix.length && otherStoragePrefix.indexOf(storagePrefix) === 0);
+
+        for await (const entry of this.storageClient.listFiles(storagePrefix, containerOrBucketName, { pageSize: pageSize })) {
+            const name: string = this.keyMapper.fromStorageKey(entry.name);
+
+            if (name !== null && name.indexOf(prefix) === 0
+                && !longerStoragePrefixes.some((otherStoragePrefix) => entry.name.indexOf(otherStoragePrefix) === 0)) {
+                yield Object.assign({}, entry, { name: name });
+            }
+        }
+    }
+
+    public downloadFile(storageFilePath: string, containerOrBucketName?: string): Promise<Buffer> {
+        return this.withStorageKey(storageFilePath, (storageKey) => this.storageClient.downloadFile(storageKey, containerOrBucketName));
+    }
+
+    public downloadFileToDisk(storageFilePath: string, localFilePath: string, containerOrBucketName?: string): Promise<void> {
+        return this.withStorageKey(storageFilePath, (storageKey) =>
+            this.storageClient.downloadFileToDisk(storageKey, localFilePath, containerOrBucketName));
+    }
+
+    /**
+     * Passed to the wrapped storage client, if resumable. Downloaded in a single attempt otherwise.
+     */
+    public downloadFileToDiskResumable(storageFilePath: string, localFilePath: string, containerOrBucketName?: string,
+        options?: ResumableTransferOptions): Promise<void> {
+        return this.withStorageKey(storageFilePath, (storageKey) =>
+            downloadFileToDiskResumable(this.storageClient, storageKey, localFilePath, containerOrBucketName, options));
+    }
+
+    public downloadFileAsStream(storageFilePath: string, containerOrBucketName?: string): Promise<Readable> {
+        return this.withStorageKey(storageFilePath, (storageKey) =>
+            this.storageClient.downloadFileAsStream(storageKey, containerOrBucketName));
+    }
+
+    public downloadFileAsBuffer(storageFilePath: string, containerOrBucketName?: string): Promise<Buffer> {
+        return this.withStorageKey(storageFilePath, (storageKey) =>
+            this.storageClient.downloadFileAsBuffer(storageKey, containerOrBucketName));
+    }
+
+    public uploadFile(localFilePath: string, storageFilePath: string, containerOrBucketName?: string,
+        contentTypeOrMetadata?: string | StorageFileMetadata): Promise<TUploadResult> {
+        return this.withStorageKey(storageFilePath, (storageKey) =>
+            this.storageClient.uploadFile(localFilePath, storageKey, containerOrBucketName, contentTypeOrMetadata));
+    }
+
+    /**
+     * Passed to the wrapped storage client, if resumable. Uploaded in a single attempt otherwise.
+     */
+    public uploadFileResumable(localFilePath: string, storageFilePath: string, containerOrBucketName?: string,
+        contentTypeOrMetadata?: string | StorageFileMetadata, options?: ResumableTransferOptions): Promise<void> {
+        return this.withStorageKey(storageFilePath, (storageKey) =>
+            uploadFileResumable(this.storageClient, localFilePath, storageKey, containerOrBucketName, contentTypeOrMetadata, options));
+    }
+
+    public uploadStream(readStream: Readable, storageFilePath: string, containerOrBucketName?: string,
+        contentTypeOrMetadata?: string | StorageFileMetadata): Promise<TUploadResult> {
+        return this.withStorageKey(storageFilePath, (storageKey) =>
+            this.storageClient.uploadStream(readStream, storageKey, containerOrBucketName, contentTypeOrMetadata));
+    }
+
+    public uploadBuffer(buffer: Buffer, storageFilePath: string, containerOrBucketName?: string,
+        contentTypeOrMetadata?: string | StorageFileMetadata): Promise<TUploadResult> {
+        return this.withStorageKey(storageFilePath, (storageKey) =>
+            this.storageClient.uploadBuffer(buffer, storageKey, containerOrBucketName, contentTypeOrMetadata));
+    }
+
+    /**
+     * Passed to the wrapped storage client. Rejected, if it cannot replace the metadata.
+     */
+    public setUserMetadata(storageFilePath: string, userMetadata: { [key: string]: string }, containerOrBucketName?: string,
+        etag?: string): Promise<void> {
+        return this.withStorageKey(storageFilePath, (storageKey) =>
+            setUserMetadata(this.storageClient, storageKey, userMetadata, containerOrBucketName, etag));
+    }
+
+    public copyFile(sourceStorageFilePath: string, targetStorageFilePath: string, containerOrBucketName?: string,
+        targetContainerOrBucketName?: string): Promise<TUploadResult> {
+        return this.withStorageKey(sourceStorageFilePath, (sourceStorageKey) => this.withStorageKey(targetStorageFilePath,
+            (targetStorageKey) => this.storageClient.copyFile(sourceStorageKey, targetStorageKey, containerOrBucketName,
+                targetContainerOrBucketName)));
+    }
+
+    public moveFile(sourceStorageFilePath: string, targetStorageFilePath: string, containerOrBucketName?: string,
+        targetContainerOrBucketName?: string): Promise<TUploadResult> {
+        return this.withStorageKey(sourceStorageFilePath, (sourceStorageKey) => this.withStorageKey(targetStorageFilePath,
+            (targetStorageKey) => this.storageClient.moveFile(sourceStorageKey, targetStorageKey, containerOrBucketName,
+                targetContainerOrBucketName)));
+    }
+
+    public getSignedUrl(storageFilePath: string, containerOrBucketName?: string, options?: SignedUrlOptions): Promise<string> {
+        return this.withStorageKey(storageFilePath, (storageKey) =>
+            this.storageClient.getSignedUrl(storageKey, containerOrBucketName, options));
+    }
+
+    /**
+     * Passed to the wrapped storage client. Rejected, if it cannot copy from URLs.
+     */
+    public copyFileFromUrl(sourceUrl: string, storageFilePath: string, containerOrBucketName?: string,
+        contentTypeOrMetadata?: string | StorageFileMetadata): Promise<void> {
+        return this.withStorageKey(storageFilePath, (storageKey) =>
+            copyFileFromUrl(this.storageClient, sourceUrl, storageKey, containerOrBucketName, contentTypeOrMetadata));
+    }
+
+    public deleteFiles(storageFilePaths: string[], containerOrBucketName?: string): Promise<void> {
+        let storageKeys: string[] = null;
+
+        try {
+            storageKeys = storageFilePaths.map((storageFilePath) => this.toStorageKey(storageFilePath));
+        } catch (error) {
+            return Promise.reject(error);
+        }
+
+        return this.storageClient.deleteFiles(storageKeys, containerOrBucketName);
+    }
+
+    public deleteFile(storageFilePath: string, containerOrBucketName?: string): Promise<void> {
+        return this.withStorageKey(storageFilePath, (storageKey) => this.storageClient.deleteFile(storageKey, containerOrBucketName));
+    }
+
+    /**
+     * @param storageFilePath The key used by the callers.
+     * @param operation The operation to call with the key in the wrapped storage.
+     * @return The result of the operation. Rejected with an InvalidKeyError, if the key cannot be translated.
+     */
+    protected withStorageKey<T>(storageFilePath: string, operation: (storageKey: string) => Promise<T>): Promise<T> {
+        let storageKey: string = null;
+
+        try {
+            storageKey = this.toStorageKey(storageFilePath);
+        } catch (error) {
+            return Promise.reject(error);
+        }
+
+        return operation(storageKey);
+    }
+}
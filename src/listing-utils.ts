@@ -0,0 +1,128 @@
+import { StorageListEntry } from './storage-client';
+
+/**
+ * Compares the given keys in the order used by the storages when listing files, i.e. by the bytes
+ * of their UTF-8 encoding. Comparing the UTF-16 code units of the strings puts the characters
+ * outside the Basic Multilingual Plane before the ones from U+E000 to U+FFFF instead.
+ *
+ * @param a A key.
+ * @param b Another key.
+ * @return A negative number, if a comes first, a positive number, if b comes first, and zero, if equal.
+ */
+export function compareKeys(a: string, b: string): number {
+    return Buffer.compare(Buffer.from(a), Buffer.from(b));
+}
+
+/**
+ * Groups the keys containing the given delimiter after the given prefix into prefix entries.
+ *
+ * @param entries The entries sorted by the key.
+ * @param prefix The prefix of the listing.
+ * @param delimiter The delimiter. If not given, the entries are returned as is.
+ * @return The entries and the prefix entries sorted by the key (name).
+ */
+export function groupByDelimiter(entries: StorageListEntry[], prefix?: string, delimiter?: string): StorageListEntry[] {
+    if (!delimiter) {
+        return entries;
+    }
+
+    prefix = prefix || '';
+    let result: StorageListEntry[] = [];
+    let lastCommonPrefix: string = null;
+
+    entries.forEach((entry) => {
+        const delimiterIndex: number = entry.name.indexOf(delimiter, prefix.length);
+
+        if (delimiterIndex === -1) {
+            result.push(entry);
+            return;
+        }
+
+        // The keys sharing a prefix are consecutive, since the entries are sorted
+        const commonPrefix: string = entry.name.substring(0, delimiterIndex + delimiter.length);
+
+        if (commonPrefix !== lastCommonPrefix) {
+            result.push({ name: commonPrefix, isPrefix: true });
+            lastCommonPrefix = commonPrefix;
+        }
+    });
+
+    return result;
+}
+
+/**
+ * Groups the keys containing the given delimiter after the given prefix into prefix entries as the
+ * given listing is read, like groupByDelimiter.
+ *
+ * @param listing The listing sorted by the key.
+ * @param prefix The prefix of the listing.
+ * @param delimiter The delimiter. If not given, the entries are yielded as is.
+ * @return The entries and the prefix entries sorted by the key (name).
+ */
+export async function* groupListingByDelimiter(listing: AsyncIterable<StorageListEntry>, prefix?: string,
+    delimiter?: string): AsyncIterableIterator<StorageListEntry> {
+    prefix = prefix || '';
+    let lastCommonPrefix: string = null;
+
+    for await (const entry of listing) {
+        const delimiterIndex: number = (delimiter ? entry.name.indexOf(delimiter, prefix.length) : -1);
+
+        if (delimiterIndex === -1) {
+            yield entry;
+            continue;
+        }
+
+        const commonPrefix: string = entry.name.substring(0, delimiterIndex + delimiter.length);
+
+        if (commonPrefix !== lastCommonPrefix) {
+            yield { name: commonPrefix, isPrefix: true };
+            lastCommonPrefix = commonPrefix;
+        }
+    }
+}
+
+/**
+ * Merges the given listings sorted by the key. The entries with the same name are yielded together.
+ *
+ * @param listings The listings to merge.
+ * @return The entries with the same name as an array with the entry of each listing at the index
+ * of the listing (undefined, if not present in the listing).
+ */
+export async function* mergeListings(listings: AsyncIterator<StorageListEntry>[]): AsyncIterableIterator<StorageListEntry[]> {
+    try {
+        let heads: IteratorResult<StorageListEntry>[] = await Promise.all(listings.map((listing) => listing.next()));
+
+        while (true) {
+            let name: string = null;
+
+            heads.forEach((head) => {
+                if (!head.done && (name === null || compareKeys(head.value.name, name) < 0)) {
+                    name = head.value.name;
+                }
+            });
+
+            if (name === null) {
+                return;
+            }
+
+            let indexesOfEntries: number[] = [];
+            let entries: StorageListEntry[] = heads.map((head, index) => {
+                if (!head.done && head.value.name === name) {
+                    indexesOfEntries.push(index);
+                    return head.value;
+                }
+
+                return undefined;
+            });
+
+            yield entries;
+
+            const nextHeads: IteratorResult<StorageListEntry>[] =
+                await Promise.all(indexesOfEntries.map((index) => listings[index].next()));
+            indexesOfEntries.forEach((index, i) => heads[index] = nextHeads[i]);
+        }
+    } finally {
+        // Release the listings, if the iteration was stopped early or failed
+        await Promise.all(listings.map((listing) => (listing.return ? listing.return().catch(() => null) : null)));
+    }
+}
@@ -0,0 +1,619 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as mime from 'mime';
+import * as path from 'path';
+import { Readable } from 'stream';
+import {
+    IStorageClient, ListOptions, SignedUrlOptions, StorageFileMetadata, StorageFileProperties, StorageListEntry, checkCopyTarget,
+    createNotFoundError
+} from './storage-client';
+import { compareKeys, groupByDelimiter } from './listing-utils';
+import { NotSupportedError, isNotFoundError, toStorageError } from './storage-errors';
+import { writeStreamToFile } from './stream-utils';
+
+const KEY_SEPARATOR = '/';
+const DEFAULT_CONTENT_TYPE = 'application/octet-stream';
+const ERROR_CODE_FILE_NOT_FOUND = 'ENOENT';
+const ERROR_CODE_FILE_EXISTS = 'EEXIST';
+const TEMP_FILE_EXTENSION = '.partial';
+const TEMP_FILE_NAME_PATTERN = /^\..*\.[0-9a-f]{16}\.partial$/;
+
+/**
+ * Information about a file stored in the local file system storage.
+ */
+export interface LocalFileInfo {
+    name: string;
+    size: number;
+    lastModified: Date;
+}
+
+/**
+ * A simple storage client using a directory in the local file system (or a mounted network drive)
+ * as the storage. Containers map to the subdirectories of the root directory and the file keys
+ * to the paths relative to the container directory.
+ */
+export class LocalFileSystemStorageClient implements IStorageClient<void, LocalFileInfo[]> {
+    protected rootDirectoryPath: string = null;
+    protected defaultContainerName: string = "";
+
+    /**
+     * @return True, if this instance is initialized. False otherwise.
+     */
+    public isInitialized(): boolean {
+        return (this.rootDirectoryPath !== null);
+    }
+
+    /**
+     * @return False, only the content of the files is stored. The content type is derived from
+     * the file extension and the user metadata given to the uploads is discarded.
+     */
+    public keepsUserMetadata(): boolean {
+        return false;
+    }
+
+    /**
+     * Initializes the client.
+     *
+     * @param rootDirectoryPath The path of the root directory of the storage.
+     * @param defaultContainerName The name of the default container (optional).
+     */
+    public initialize(rootDirectoryPath: string, defaultContainerName?: string) {
+        this.rootDirectoryPath = path.resolve(rootDirectoryPath);
+        this.defaultContainerName = defaultContainerName;
+    }
+
+    /**
+     * @return The default container name if any.
+     */
+    public getDefaultContainerName(): string {
+        return this.defaultContainerName;
+    }
+
+    /**
+     * Checks if a file with the given key exists in the given container.
+     *
+     * @param fileKey The key of the file to check.
+     * @param containerName The name of the container.
+     * @return True, if the file exists. False otherwise. Rejected with a StorageError, if the file
+     * system does not tell (e.g. permission denied).
+     */
+    public fileExists(fileKey: string, containerName?: string): Promise<boolean> {
+        let thisInstance: LocalFileSystemStorageClient = this;
+
+        return new Promise<boolean>(function(resolve, reject) {
+            fs.stat(thisInstance.resolveFilePath(fileKey, containerName), function(error, stats) {
+                if (error && isNotFoundError(toStorageError(error))) {
+                    resolve(false);
+                } else if (error) {
+                    reject(toStorageError(error, fileKey));
+                } else {
+                    resolve(stats.isFile());
+                }
+            });
+        });
+    }
+
+    /**
+     * Retrieves the properties of the file with the given key from the file system, without
+     * reading the file. No MD5 hash is stored, so the copies are compared by the size, and verify()
+     * of MultiStorageClient hashes the content when asked. Since no metadata is stored, the
+     * content type is deduced from the key.
+     *
+     * @param fileKey The key of the file.
+     * @param containerName The name of the container.
+     * @return The properties of the file.
+     */
+    public async getFileProperties(fileKey: string, containerName?: string): Promise<StorageFileProperties> {
+        const filePath: string = this.resolveFilePath(fileKey, containerName);
+
+        const stats: fs.Stats = await new Promise<fs.Stats>(function(resolve, reject) {
+            fs.stat(filePath, function(error, stats) {
+                if (error && error.code === ERROR_CODE_FILE_NOT_FOUND) {
+                    reject(createNotFoundError(fileKey));
+                } else if (error) {
+                    reject(toStorageError(error, fileKey));
+                } else if (!stats.isFile()) {
+                    reject(createNotFoundError(fileKey));
+                } else {
+                    resolve(stats);
+                }
+            });
+        });
+
+        return {
+            size: stats.size,
+            lastModified: stats.mtime,
+            etag: stats.size.toString(16) + '-' + stats.mtime.getTime().toString(16),
+            contentType: mime.lookup(fileKey, DEFAULT_CONTENT_TYPE)
+        };
+    }
+
+    /**
+     * Lists the files with the given prefix in the given container.
+     * Note that this is can be an expensive method to call!
+     *
+     * @param fileKeyPrefix The prefix of the file keys to list.
+     * @param containerName The name of the container.
+     * @return A list of files found sorted by the file key.
+     */
+    public async listFilesWithPrefix(fileKeyPrefix: string, containerName?: string): Promise<LocalFileInfo[]> {
+        fileKeyPrefix = fileKeyPrefix || '';
+        let containerDirectoryPath: string = this.resolveContainerDirectoryPath(containerName);
+        let files: LocalFileInfo[] = [];
+
+        await this.collectFiles(containerDirectoryPath, '', fileKeyPrefix, files).catch((error) => {
+            throw toStorageError(error);
+        });
+        files.sort((a, b) => compareKeys(a.name, b.name));
+        return files;
+    }
+
+    /**
+     * Lists the files with the given prefix in the given container. The page size is ignored.
+     *
+     * @param fileKeyPrefix The prefix of the file keys to list.
+     * @param containerName The name of the container.
+     * @param options The delimiter and the page size (optional).
+     * @return The files and the common prefixes (if the delimiter is given) sorted by the key.
+     */
+    public async *listFiles(fileKeyPrefix?: string, containerName?: string,
+        options?: ListOptions): AsyncIterableIterator<StorageListEntry> {
+        const entries: StorageListEntry[] = (await this.listFilesWithPrefix(fileKeyPrefix, containerName)).map((file) => ({
+            name: file.name,
+            isPrefix: false,
+            size: file.size,
+            lastModified: file.lastModified
+        }));
+
+        yield* groupByDelimiter(entries, fileKeyPrefix, (options || {}).delimiter);
+    }
+
+    /**
+     * Lists the keys of the files with the given prefix in the given container.
+     * Note that this is can be an expensive method to call!
+     *
+     * @param fileKeyPrefix The prefix of the file keys to list.
+     * @param containerName The name of the container.
+     * @return A string list of file keys found.
+     */
+    public async listFileNamesWithPrefix(fileKeyPrefix?: string, containerName?: string): Promise<string[]> {
+        const files: LocalFileInfo[] = await this.listFilesWithPrefix(fileKeyPrefix, containerName);
+        return files.map((file) => file.name);
+    }
+
+    /**
+     * Reads the file with the given key.
+     *
+     * @param fileKey The key of the file to read.
+     * @param containerName The name of the container.
+     * @return The content of the file.
+     */
+    public downloadFile(fileKey: string, containerName?: string): Promise<Buffer> {
+        let thisInstance: LocalFileSystemStorageClient = this;
+
+        return new Promise<Buffer>(function(resolve, reject) {
+            fs.readFile(thisInstance.resolveFilePath(fileKey, containerName), function(error, data) {
+                if (error) {
+                    reject(toStorageError(error, fileKey));
+                } else {
+                    resolve(data);
+                }
+            });
+        });
+    }
+
+    /**
+     * Copies the file with the given key to the specified location.
+     *
+     * @param fileKey The key of the file to copy.
+     * @param localFilePath The desired local path to store the file in.
+     * @param containerName The name of the container.
+     * @return Resolved when the file is copied.
+     */
+    public async downloadFileToDisk(fileKey: string, localFilePath: string, containerName?: string): Promise<void> {
+        await this.copyLocalFile(this.resolveFilePath(fileKey, containerName), localFilePath).catch((error) => {
+            throw toStorageError(error, fileKey);
+        });
+    }
+
+    /**
+     * Opens the file with the given key for reading.
+     *
+     * @param fileKey The key of the file to read.
+     * @param containerName The name of the container.
+     * @return A stream providing the content of the file.
+     */
+    public downloadFileAsStream(fileKey: string, containerName?: string): Promise<Readable> {
+        let thisInstance: LocalFileSystemStorageClient = this;
+
+        return new Promise<Readable>(function(resolve, reject) {
+            const readStream = fs.createReadStream(thisInstance.resolveFilePath(fileKey, containerName));
+            const onError = (error) => reject(toStorageError(error, fileKey));
+            readStream.once('error', onError);
+
+            readStream.once('open', () => {
+                readStream.removeListener('error', onError);
+                resolve(readStream);
+            });
+        });
+    }
+
+    /**
+     * Reads the file with the given key.
+     *
+     * @param fileKey The key of the file to read.
+     * @param containerName The name of the container.
+     * @return The content of the file.
+     */
+    public downloadFileAsBuffer(fileKey: string, containerName?: string): Promise<Buffer> {
+        return this.downloadFile(fileKey, containerName);
+    }
+
+    /**
+     * Copies the given file to the specified container. The missing directories are created.
+     * The file is written under a temporary name and renamed when complete, so that a partially
+     * written file is never seen. Note that the metadata is not stored.
+     *
+     * @param localFilePath The local path of the file to copy.
+     * @param fileKey The destination key of the file.
+     * @param containerName The name of the container.
+     * @param contentTypeOrMetadata Discarded, see keepsUserMetadata().
+     * @return Resolved when the file is copied.
+     */
+    public async uploadFile(localFilePath: string, fileKey: string, containerName?: string,
+        contentTypeOrMetadata?: string | StorageFileMetadata): Promise<void> {
+        const filePath: string = this.resolveFilePath(fileKey, containerName);
+
+        try {
+            await this.makeDirectory(path.dirname(filePath));
+            await this.writeFileAtomically(filePath, (tempFilePath) => this.copyLocalFile(localFilePath, tempFilePath));
+        } catch (error) {
+            throw toStorageError(error, fileKey);
+        }
+    }
+
+    /**
+     * Writes the content of the given stream to a file in the specified container. The missing
+     * directories are created. The file is renamed into place when complete, see uploadFile().
+     * Note that the metadata is not stored.
+     *
+     * @param readStream The stream to read the content of the file from.
+     * @param fileKey The destination key of the file.
+     * @param containerName The name of the container.
+     * @param contentTypeOrMetadata Discarded, see keepsUserMetadata().
+     * @return Resolved when the file is written.
+     */
+    public async uploadStream(readStream: Readable, fileKey: string, containerName?: string,
+        contentTypeOrMetadata?: string | StorageFileMetadata): Promise<void> {
+        const filePath: string = this.resolveFilePath(fileKey, containerName);
+
+        try {
+            await this.makeDirectory(path.dirname(filePath));
+            await this.writeFileAtomically(filePath, (tempFilePath) => writeStreamToFile(readStream, tempFilePath));
+        } catch (error) {
+            throw toStorageError(error, fileKey);
+        }
+    }
+
+    /**
+     * Writes the given data to a file in the specified container. The missing directories are
+     * created. The file is renamed into place when complete, see uploadFile(). Note that the
+     * metadata is not stored.
+     *
+     * @param buffer The content of the file.
+     * @param fileKey The destination key of the file.
+     * @param containerName The name of the container.
+     * @param contentTypeOrMetadata Discarded, see keepsUserMetadata().
+     * @return Resolved when the file is written.
+     */
+    public async uploadBuffer(buffer: Buffer, fileKey: string, containerName?: string,
+        contentTypeOrMetadata?: string | StorageFileMetadata): Promise<void> {
+        const filePath: string = this.resolveFilePath(fileKey, containerName);
+
+        try {
+            await this.makeDirectory(path.dirname(filePath));
+            await this.writeFileAtomically(filePath, (tempFilePath) => new Promise<void>(function(resolve, reject) {
+                fs.writeFile(tempFilePath, buffer, function(error) {
+                    if (error) {
+                        reject(error);
+                    } else {
+                        resolve();
+                    }
+                });
+            }));
+        } catch (error) {
+            throw toStorageError(error, fileKey);
+        }
+    }
+
+    /**
+     * Copies the file with the given key to the given key. The missing directories are created.
+     * The copy is renamed into place when complete, see uploadFile().
+     *
+     * @param sourceFileKey The key of the file to copy.
+     * @param targetFileKey The key of the copy.
+     * @param containerName The name of the container.
+     * @param targetContainerName The name of the container of the copy (optional). The same container, if not given.
+     * @return Resolved when the file is copied.
+     */
+    public async copyFile(sourceFileKey: string, targetFileKey: string, containerName?: string,
+        targetContainerName?: string): Promise<void> {
+        containerName = containerName || this.defaultContainerName;
+        targetContainerName = targetContainerName || containerName;
+        checkCopyTarget(sourceFileKey, targetFileKey, containerName, targetContainerName);
+        const targetFilePath: string = this.resolveFilePath(targetFileKey, targetContainerName);
+
+        try {
+            await this.makeDirectory(path.dirname(targetFilePath));
+            const sourceFilePath: string = this.resolveFilePath(sourceFileKey, containerName);
+            await this.writeFileAtomically(targetFilePath, (tempFilePath) => this.copyLocalFile(sourceFilePath, tempFilePath));
+        } catch (error) {
+            throw toStorageError(error, sourceFileKey);
+        }
+    }
+
+    /**
+     * Moves the file with the given key to the given key by renaming it. The missing directories
+     * are created.
+     *
+     * @param sourceFileKey The key of the file to move.
+     * @param targetFileKey The new key of the file.
+     * @param containerName The name of the container.
+     * @param targetContainerName The name of the container to move the file to (optional). The same container, if not given.
+     * @return Resolved when the file is moved.
+     */
+    public async moveFile(sourceFileKey: string, targetFileKey: string, containerName?: string,
+        targetContainerName?: string): Promise<void> {
+        containerName = containerName || this.defaultContainerName;
+        targetContainerName = targetContainerName || containerName;
+        checkCopyTarget(sourceFileKey, targetFileKey, containerName, targetContainerName);
+        const targetFilePath: string = this.resolveFilePath(targetFileKey, targetContainerName);
+
+        // Also tells that a directory is not a file
+        if (!await this.fileExists(sourceFileKey, containerName)) {
+            throw createNotFoundError(sourceFileKey);
+        }
+
+        await this.makeDirectory(path.dirname(targetFilePath)).catch((error) => {
+            throw toStorageError(error, targetFileKey);
+        });
+
+        let thisInstance: LocalFileSystemStorageClient = this;
+
+        return new Promise<void>(function(resolve, reject) {
+            fs.rename(thisInstance.resolveFilePath(sourceFileKey, containerName), targetFilePath, function(error) {
+                if (error) {
+                    reject(toStorageError(error, sourceFileKey));
+                } else {
+                    resolve();
+                }
+            });
+        });
+    }
+
+    /**
+     * The local file system cannot be accessed through signed URLs.
+     *
+     * @param fileKey The key of the file.
+     * @param containerName The name of the container.
+     * @param options The options of the URL (optional).
+     * @return Rejected with a NotSupportedError.
+     */
+    public async getSignedUrl(fileKey: string, containerName?: string, options?: SignedUrlOptions): Promise<string> {
+        throw new NotSupportedError('The local file system cannot create signed URLs', fileKey);
+    }
+
+    /**
+     * Deletes the given files from the specified container. Files that do not exist are ignored.
+     *
+     * @param fileKeys The keys matching the files to delete.
+     * @param containerName The name of the container.
+     * @return Resolved when the files are deleted.
+     */
+    public async deleteFiles(fileKeys: string[], containerName?: string): Promise<void> {
+        await Promise.all(fileKeys.map((fileKey) => this.deleteFile(fileKey, containerName)));
+    }
+
+    /**
+     * Deletes the given file from the specified container. A file that does not exist is ignored.
+     *
+     * @param fileKey The key matching the file to delete.
+     * @param containerName The name of the container.
+     * @return Resolved when the file is deleted.
+     */
+    public deleteFile(fileKey: string, containerName?: string): Promise<void> {
+        let thisInstance: LocalFileSystemStorageClient = this;
+
+        return new Promise<void>(function(resolve, reject) {
+            fs.unlink(thisInstance.resolveFilePath(fileKey, containerName), function(error) {
+                if (error && error.code !== ERROR_CODE_FILE_NOT_FOUND) {
+                    reject(toStorageError(error, fileKey));
+                } else {
+                    resolve();
+                }
+            });
+        });
+    }
+
+    /**
+     * @param containerName The name of the container. If not given, the default container is used.
+     * @return The absolute path of the container directory.
+     */
+    protected resolveContainerDirectoryPath(containerName?: string): string {
+        containerName = containerName || this.defaultContainerName || '';
+        const containerDirectoryPath: string = path.resolve(this.rootDirectoryPath, containerName);
+
+        if (containerDirectoryPath !== this.rootDirectoryPath
+            && containerDirectoryPath.indexOf(this.rootDirectoryPath + path.sep) !== 0) {
+            throw new Error('Invalid container name: ' + containerName);
+        }
+
+        return containerDirectoryPath;
+    }
+
+    /**
+     * @param fileKey The key of the file.
+     * @param containerName The name of the container.
+     * @return The absolute path of the file. Keys pointing outside the container are rejected.
+     */
+    protected resolveFilePath(fileKey: string, containerName?: string): string {
+        const containerDirectoryPath: string = this.resolveContainerDirectoryPath(containerName);
+        const filePath: string = path.resolve(containerDirectoryPath, ...fileKey.split(KEY_SEPARATOR));
+
+        if (filePath.indexOf(containerDirectoryPath + path.sep) !== 0) {
+            throw new Error('Invalid file key: ' + fileKey);
+        }
+
+        return filePath;
+    }
+
+    /**
+     * Recursively collects the files in the given directory with keys matching the given prefix.
+     *
+     * @param directoryPath The absolute path of the directory.
+     * @param keyPrefixOfDirectory The key prefix of the files in the directory.
+     * @param fileKeyPrefix The prefix the file keys must match.
+     * @param files The array where the files found are added.
+     */
+    protected async collectFiles(directoryPath: string, keyPrefixOfDirectory: string,
+        fileKeyPrefix: string, files: LocalFileInfo[]) {
+        let entryNames: string[] = await new Promise<string[]>(function(resolve, reject) {
+            fs.readdir(directoryPath, function(error, entryNames) {
+                if (error && error.code === ERROR_CODE_FILE_NOT_FOUND) {
+                    resolve([]);
+                } else if (error) {
+                    reject(error);
+                } else {
+                    resolve(entryNames);
+                }
+            });
+        });
+
+        for (let entryName of entryNames) {
+            // The files being written are not listed
+            if (TEMP_FILE_NAME_PATTERN.test(entryName)) {
+                continue;
+            }
+
+            const entryPath: string = path.join(directoryPath, entryName);
+            const entryKey: string = keyPrefixOfDirectory + entryName;
+            const stats: fs.Stats = await new Promise<fs.Stats>(function(resolve, reject) {
+                fs.stat(entryPath, function(error, stats) {
+                    if (error) {
+                        reject(error);
+                    } else {
+                        resolve(stats);
+                    }
+                });
+            });
+
+            if (stats.isDirectory()) {
+                const directoryKey: string = entryKey + KEY_SEPARATOR;
+
+                // Only descend to directories that can contain matching keys
+                if (directoryKey.indexOf(fileKeyPrefix) === 0 || fileKeyPrefix.indexOf(directoryKey) === 0) {
+                    await this.collectFiles(entryPath, directoryKey, fileKeyPrefix, files);
+                }
+            } else if (stats.isFile() && entryKey.indexOf(fileKeyPrefix) === 0) {
+                files.push({
+                    name: entryKey,
+                    size: stats.size,
+                    lastModified: stats.mtime
+                });
+            }
+        }
+    }
+
+    /**
+     * Creates the given directory including the missing parent directories.
+     *
+     * @param directoryPath The path of the directory to create.
+     */
+    protected async makeDirectory(directoryPath: string) {
+        const parentDirectoryPath: string = path.dirname(directoryPath);
+
+        if (parentDirectoryPath !== directoryPath && !fs.existsSync(parentDirectoryPath)) {
+            await this.makeDirectory(parentDirectoryPath);
+        }
+
+        return new Promise(function(resolve, reject) {
+            fs.mkdir(directoryPath, function(error) {
+                if (error && error.code !== ERROR_CODE_FILE_EXISTS) {
+                    reject(error);
+                } else {
+                    resolve();
+                }
+            });
+        });
+    }
+
+    /**
+     * Writes a file under a temporary name in the same directory and renames it to the given path
+     * when written, so that the file is either complete or missing. The temporary file is removed,
+     * if writing fails.
+     *
+     * @param filePath The path of the file.
+     * @param write Writes the file to the given temporary path.
+     * @return Resolved when the file is in place.
+     */
+    protected async writeFileAtomically(filePath: string, write: (tempFilePath: string) => Promise<void>): Promise<void> {
+        const tempFilePath: string = path.join(path.dirname(filePath),
+            '.' + path.basename(filePath) + '.' + crypto.randomBytes(8).toString('hex') + TEMP_FILE_EXTENSION);
+
+        try {
+            await write(tempFilePath);
+
+            await new Promise<void>(function(resolve, reject) {
+                fs.rename(tempFilePath, filePath, function(error) {
+                    if (error) {
+                        reject(error);
+                    } else {
+                        resolve();
+                    }
+                });
+            });
+        } catch (error) {
+            await new Promise<void>((resolve) => fs.unlink(tempFilePath, () => resolve()));
+            throw error;
+        }
+    }
+
+    /**
+     * Copies a file.
+     *
+     * @param sourceFilePath The path of the file to copy.
+     * @param destinationFilePath The path of the copy.
+     * @return Resolved when the file is copied.
+     */
+    protected copyLocalFile(sourceFilePath: string, destinationFilePath: string): Promise<void> {
+        return new Promise<void>(function(resolve, reject) {
+            const readStream = fs.createReadStream(sourceFilePath);
+            let writeStream: fs.WriteStream = null;
+
+            readStream.on('error', (error) => {
+                // Closes the destination file, if the source fails after opening
+                if (writeStream !== null) {
+                    readStream.unpipe(writeStream);
+                    writeStream.close();
+                }
+
+                reject(error);
+            });
+
+            // Do not create the destination file before the source file is known to be readable
+            readStream.on('open', () => {
+                writeStream = fs.createWriteStream(destinationFilePath);
+
+                writeStream.on('error', (error) => {
+                    reject(error);
+                });
+
+                writeStream.on('finish', () => {
+                    resolve();
+                });
+
+                readStream.pipe(writeStream);
+            });
+        });
+    }
+}
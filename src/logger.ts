@@ -0,0 +1,28 @@
+/**
+ * Receives the messages of the failures that are handled without rejecting, e.g. a storage that
+ * could not be read from when another storage was read instead. The console satisfies this
+ * interface and is the default logger.
+ */
+export interface Logger {
+    /**
+     * Logs a failure that was recovered from, e.g. by retrying or by falling back to another storage.
+     *
+     * @param message The message.
+     */
+    warn(message: string): void;
+
+    /**
+     * Logs a failure that was not recovered from, e.g. a storage left without a copy of a file.
+     *
+     * @param message The message.
+     */
+    error(message: string): void;
+}
+
+/**
+ * A logger discarding all messages.
+ */
+export const NULL_LOGGER: Logger = {
+    warn: function(message: string) {},
+    error: function(message: string) {}
+};
@@ -0,0 +1,254 @@
+import { compareKeys } from './listing-utils';
+
+export const DEFAULT_METRIC_NAME_PREFIX = 'multi_storage_';
+export const DEFAULT_LATENCY_BUCKETS_IN_MS = [5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000];
+const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+/**
+ * The operations measured per storage.
+ */
+export enum StorageOperation {
+    FileExists = 'fileExists',
+    GetFileProperties = 'getFileProperties',
+
+    /**
+     * Reading a file for the caller. The latency is the time to the response, also when the
+     * content is streamed.
+     */
+    Download = 'download',
+
+    Upload = 'upload',
+
+    /**
+     * Copying a file to the storage from another storage, including the check of the copy.
+     */
+    Replicate = 'replicate',
+
+    Delete = 'delete',
+
+    /**
+     * Copying or moving a file within the storage with copyFile() or moveFile().
+     */
+    Copy = 'copy',
+    Move = 'move'
+};
+
+export interface StorageMetricsOptions {
+    /**
+     * The prefix of the names of the exported metrics. The default is DEFAULT_METRIC_NAME_PREFIX.
+     */
+    metricNamePrefix?: string;
+
+    /**
+     * The upper bounds of the buckets of the latency histograms in ascending order. The default
+     * is DEFAULT_LATENCY_BUCKETS_IN_MS.
+     */
+    latencyBucketsInMs?: number[];
+}
+
+/**
+ * The counters and the latency histogram of one operation in one storage.
+ */
+export interface OperationMetrics {
+    storageId: string;
+    operation: StorageOperation;
+    requestCount: number;
+
+    /**
+     * The number of the requests that failed, included in the request count.
+     */
+    errorCount: number;
+
+    /**
+     * The number of the requests that took at most the bound of each bucket, in the order of the
+     * buckets. The requests taking longer than the last bound are only in the request count.
+     */
+    latencyBucketCounts: number[];
+
+    totalLatencyInMs: number;
+}
+
+/**
+ * The number of bytes copied from one storage to another.
+ */
+export interface ReplicatedBytes {
+    sourceStorageId: string;
+    targetStorageId: string;
+    sizeInBytes: number;
+}
+
+/**
+ * The counters and the latency histograms of the requests made to the storages, by storage and
+ * operation, and the number of bytes replicated between each pair of storages. Exported in the
+ * Prometheus text format with toPrometheusText().
+ */
+export class StorageMetrics {
+    protected options: StorageMetricsOptions;
+    protected operationMetrics: Map<string, OperationMetrics> = new Map<string, OperationMetrics>();
+    protected replicatedBytes: Map<string, ReplicatedBytes> = new Map<string, ReplicatedBytes>();
+
+    /**
+     * @param options The names and the histogram buckets (optional).
+     */
+    constructor(options?: StorageMetricsOptions) {
+        this.options = Object.assign({
+            metricNamePrefix: DEFAULT_METRIC_NAME_PREFIX,
+            latencyBucketsInMs: DEFAULT_LATENCY_BUCKETS_IN_MS
+        }, options || {});
+
+        if (this.options.latencyBucketsInMs.some((bound, index, bounds) => !(bound > 0) || (index > 0 && bound <= bounds[index - 1]))) {
+            throw new Error('The latency buckets must be positive and in ascending order: ' + this.options.latencyBucketsInMs.join(', '));
+        }
+    }
+
+    /**
+     * @return The upper bounds of the buckets of the latency histograms.
+     */
+    public getLatencyBuckets(): number[] {
+        return this.options.latencyBucketsInMs.slice();
+    }
+
+    /**
+     * Counts a request made to the given storage.
+     *
+     * @param storageId The ID of the storage.
+     * @param operation The operation requested.
+     * @param latencyInMs The time the request took in milliseconds.
+     * @param failed True, if the request failed.
+     */
+    public recordRequest(storageId: string, operation: StorageOperation, latencyInMs: number, failed: boolean = false) {
+        const key: string = storageId + '\n' + operation;
+        let operationMetrics: OperationMetrics = this.operationMetrics.get(key);
+
+        if (operationMetrics === undefined) {
+            operationMetrics = {
+                storageId: storageId,
+                operation: operation,
+                requestCount: 0,
+                errorCount: 0,
+                latencyBucketCounts: this.options.latencyBucketsInMs.map(() => 0),
+                totalLatencyInMs: 0
+            };
+            this.operationMetrics.set(key, operationMetrics);
+        }
+
+        operationMetrics.requestCount++;
+        operationMetrics.errorCount += (failed ? 1 : 0);
+        operationMetrics.totalLatencyInMs += latencyInMs;
+
+        this.options.latencyBucketsInMs.forEach((bound, index) => {
+            if (latencyInMs <= bound) {
+                operationMetrics.latencyBucketCounts[index]++;
+            }
+        });
+    }
+
+    /**
+     * Counts the bytes of a file copied from one storage to another.
+     *
+     * @param sourceStorageId The ID of the storage the file was copied from.
+     * @param targetStorageId The ID of the storage the file was copied to.
+     * @param sizeInBytes The size of the file.
+     */
+    public recordReplicatedBytes(sourceStorageId: string, targetStorageId: string, sizeInBytes: number) {
+        const key: string = sourceStorageId + '\n' + targetStorageId;
+        const entry: ReplicatedBytes = this.replicatedBytes.get(key);
+
+        if (entry === undefined) {
+            this.replicatedBytes.set(key, { sourceStorageId: sourceStorageId, targetStorageId: targetStorageId, sizeInBytes: sizeInBytes });
+        } else {
+            entry.sizeInBytes += sizeInBytes;
+        }
+    }
+
+    /**
+     * @param storageId The ID of the storage.
+     * @param operation The operation.
+     * @return A copy of the metrics of the operation in the storage or null, if not requested.
+     */
+    public getOperationMetrics(storageId: string, operation: StorageOperation): OperationMetrics {
+        const operationMetrics: OperationMetrics = this.operationMetrics.get(storageId + '\n' + operation);
+
+        return (operationMetrics !== undefined ? Object.assign({}, operationMetrics,
+            { latencyBucketCounts: operationMetrics.latencyBucketCounts.slice() }) : null);
+    }
+
+    /**
+     * @param sourceStorageId The ID of the storage the files were copied from.
+     * @param targetStorageId The ID of the storage the files were copied to.
+     * @return The number of bytes replicated.
+     */
+    public getReplicatedBytes(sourceStorageId: string, targetStorageId: string): number {
+        const entry: ReplicatedBytes = this.replicatedBytes.get(sourceStorageId + '\n' + targetStorageId);
+        return (entry !== undefined ? entry.sizeInBytes : 0);
+    }
+
+    /**
+     * Sets all the counters to zero.
+     */
+    public reset() {
+        this.operationMetrics.clear();
+        this.replicatedBytes.clear();
+    }
+
+    /**
+     * @return The content type of the Prometheus text format.
+     */
+    public getPrometheusContentType(): string {
+        return PROMETHEUS_CONTENT_TYPE;
+    }
+
+    /**
+     * Exports the metrics in the Prometheus text format. The latencies are in seconds, as
+     * Prometheus expects.
+     *
+     * @return The metrics.
+     */
+    public toPrometheusText(): string {
+        const prefix: string = this.options.metricNamePrefix;
+        const operationMetrics: OperationMetrics[] = Array.from(this.operationMetrics.values()).sort((a, b) =>
+            compareKeys(a.storageId, b.storageId) || compareKeys(a.operation, b.operation));
+        const replicatedBytes: ReplicatedBytes[] = Array.from(this.replicatedBytes.values()).sort((a, b) =>
+            compareKeys(a.sourceStorageId, b.sourceStorageId) || compareKeys(a.targetStorageId, b.targetStorageId));
+        let lines: string[] = [];
+
+        lines.push('# HELP ' + prefix + 'requests_total The number of requests made to the storages.');
+        lines.push('# TYPE ' + prefix + 'requests_total counter');
+        operationMetrics.forEach((metrics) => lines.push(prefix + 'requests_total' + formatLabels({
+            storage: metrics.storageId, operation: metrics.operation }) + ' ' + metrics.requestCount));
+
+        lines.push('# HELP ' + prefix + 'request_errors_total The number of requests to the storages that failed.');
+        lines.push('# TYPE ' + prefix + 'request_errors_total counter');
+        operationMetrics.forEach((metrics) => lines.push(prefix + 'request_errors_total' + formatLabels({
+            storage: metrics.storageId, operation: metrics.operation }) + ' ' + metrics.errorCount));
+
+        lines.push('# HELP ' + prefix + 'request_duration_seconds The latencies of the requests made to the storages.');
+        lines.push('# TYPE ' + prefix + 'request_duration_seconds histogram');
+        operationMetrics.forEach((metrics) => {
+            const labels: { [name: string]: string } = { storage: metrics.storageId, operation: metrics.operation };
+
+            this.options.latencyBucketsInMs.forEach((bound, index) => lines.push(prefix + 'request_duration_seconds_bucket'
+                + formatLabels(Object.assign({}, labels, { le: String(bound / 1000) })) + ' ' + metrics.latencyBucketCounts[index]));
+            lines.push(prefix + 'request_duration_seconds_bucket' + formatLabels(Object.assign({}, labels, { le: '+Inf' }))
+                + ' ' + metrics.requestCount);
+            lines.push(prefix + 'request_duration_seconds_sum' + formatLabels(labels) + ' ' + metrics.totalLatencyInMs / 1000);
+            lines.push(prefix + 'request_duration_seconds_count' + formatLabels(labels) + ' ' + metrics.requestCount);
+        });
+
+        lines.push('# HELP ' + prefix + 'replicated_bytes_total The number of bytes copied between the storages.');
+        lines.push('# TYPE ' + prefix + 'replicated_bytes_total counter');
+        replicatedBytes.forEach((entry) => lines.push(prefix + 'replicated_bytes_total' + formatLabels({
+            source: entry.sourceStorageId, target: entry.targetStorageId }) + ' ' + entry.sizeInBytes));
+
+        return lines.join('\n') + '\n';
+    }
+}
+
+/**
+ * @param labels The label values by the label names.
+ * @return The labels in the Prometheus text format with the values escaped.
+ */
+function formatLabels(labels: { [name: string]: string }): string {
+    return '{' + Object.keys(labels).map((name) => name + '="'
+        + labels[name].replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n') + '"').join(',') + '}';
+}
@@ -1,352 +1,3049 @@
-import { IStorageClient, ERROR_CODE_NOT_FOUND } from './storage-client';
+import * as crypto from 'crypto';
+import { EventEmitter } from 'events';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Readable } from 'stream';
+import {
+    IStorageClient, ListOptions, SignedUrlOptions, SignedUrlPermission, StorageFileMetadata, StorageFileProperties, StorageListEntry,
+    checkCopyTarget, copyFileFromUrl, createNotFoundError, isUrlCopyingStorageClient, setUserMetadata, toStorageFileMetadata
+} from './storage-client';
 import { AzureBlobStorageClient } from './azure-blob-storage-client';
 import { AwsS3Client } from './aws-s3-client';
+import { ConflictResolution, ConflictResolutionPolicy, filePropertiesMatch, resolveConflict } from './conflict-resolution';
+import { DiskCache } from './disk-cache';
+import {
+    DEFAULT_KEY_ROTATION_CONCURRENCY, EncryptedContent, EnvelopeEncryption, KeyRotationOptions, KeyRotationReport,
+    createKeyRotationReport, isEncrypted, toDecryptedFileProperties
+} from './encryption';
+import {
+    ChecksumAlgorithm, ChecksumMismatch, ChecksumStream, DEFAULT_VERIFICATION_CONCURRENCY, ExpectedContent, VerificationOptions,
+    VerificationReport, checkContent, createVerificationReport, verifyStream
+} from './integrity';
+import { compareKeys, mergeListings } from './listing-utils';
+import { Logger } from './logger';
+import { StorageMetrics, StorageOperation } from './metrics';
+import { PresenceCache } from './presence-cache';
+import { SettledResult, settleAll } from './promise-utils';
+import { ReadPreference } from './read-preference';
+import { ReplicationQueue, ReplicationTask } from './replication-queue';
+import {
+    CHECKPOINT_FILE_EXTENSION, DEFAULT_STAGING_THRESHOLD_IN_BYTES, ReplicationTransferOptions, ResumableTransferOptions,
+    TransferProgress, checkTransferOptions, downloadFileToDiskResumable, uploadFileResumable
+} from './resumable-transfers';
+import {
+    ReconciliationOptions, ReconciliationReport, FileCopy, FileDeletion, MismatchReason, DEFAULT_CHECKPOINT_INTERVAL,
+    DEFAULT_RECONCILIATION_CONCURRENCY, createReconciliationReport, readCheckpoint, removeCheckpoint, writeCheckpoint
+} from './reconciliation';
+import {
+    ChecksumMismatchError, FilePresence, NotFoundError, NotSupportedError, StorageError, StorageErrorCode, isNotFoundError, toStorageError
+} from './storage-errors';
+import { readStreamToBuffer, teeStream, writeStreamToFile } from './stream-utils';
+import { Tombstone, TombstoneStore } from './tombstones';
+import { WriteError, WriteMode, WriteResult, getRequiredWriteCount } from './write-modes';
+
+const MAX_DOWNLOAD_ATTEMPTS = 2;
 
 /**
- * Storage types.
+ * The IDs of the storages registered by MultiStorageClient.initialize().
+ * Any other string can be used as an ID when registering storage clients with addStorageClient().
  */
 export enum StorageType {
-    Undefined = 0,
-    AzureBlobStorage = 1,
-    AwsS3 = 2,
-    Both = 3
+    AzureBlobStorage = 'azure-blob-storage',
+    AwsS3 = 'aws-s3'
+};
+
+/**
+ * A stream reading a file from one storage while replicating it to the storages missing it.
+ */
+export interface ReplicatingReadStream {
+    /**
+     * The content of the file. Note that the replication proceeds at the pace the stream is read.
+     */
+    stream: Readable;
+
+    /**
+     * The ID of the storage the file is read from.
+     */
+    sourceStorageId: string;
+
+    /**
+     * The properties of the file in the source storage.
+     */
+    fileProperties: StorageFileProperties;
+
+    /**
+     * The IDs of the storages the file is replicated to.
+     */
+    targetStorageIds: string[];
+
+    /**
+     * The IDs of the storages where the presence of the file could not be checked. The file is not
+     * replicated to them.
+     */
+    unknownStorageIds: string[];
+
+    /**
+     * The decision made, if the copies of the file differed between storages. Null otherwise.
+     */
+    conflictResolution: ConflictResolution;
+
+    /**
+     * True, if the replication was added to the replication queue instead of streaming the file
+     * to the target storages.
+     */
+    replicationQueued: boolean;
+
+    /**
+     * Resolves to null, if the file was replicated to all target storages (or the replication was
+     * queued). An error otherwise.
+     */
+    replication: Promise<StorageError>;
+}
+
+/**
+ * An entry of the merged listing of the storages. The size and the last modified time are the ones
+ * in the first storage holding the file.
+ */
+export interface MergedListEntry extends StorageListEntry {
+    /**
+     * The IDs of the storages holding the file (or the prefix) in the order of registration.
+     */
+    storageIds: string[];
+
+    /**
+     * The entries of the storages holding the file by the storage IDs.
+     */
+    entriesByStorage: { [storageId: string]: StorageListEntry };
+}
+
+/**
+ * The result of downloading a file and replicating it to the storages missing it.
+ */
+export interface LazyReplicationResult {
+    /**
+     * Null, if successful. A NotFoundError, if the file was not found. A StorageError otherwise.
+     */
+    error: StorageError;
+
+    /**
+     * The ID of the storage the file was read from or null, if not found.
+     */
+    sourceStorageId: string;
+
+    /**
+     * The IDs of the storages the file was replicated to.
+     */
+    targetStorageIds: string[];
+
+    /**
+     * The IDs of the storages where the presence of the file could not be checked.
+     */
+    unknownStorageIds: string[];
+
+    /**
+     * The decision made, if the copies of the file differed between storages. Null otherwise.
+     */
+    conflictResolution: ConflictResolution;
+
+    /**
+     * True, if the replication was added to the replication queue.
+     */
+    replicationQueued: boolean;
+}
+
+/**
+ * The events emitted by MultiStorageClient. The listeners are called synchronously, so they should
+ * return quickly.
+ */
+export enum MultiStorageClientEvent {
+    /**
+     * A file is being copied to the storages missing it, lazily when read, from the replication
+     * queue, by reconcile() or to complete a write. Emitted with a ReplicationEvent.
+     */
+    ReplicationStarted = 'replicationStarted',
+
+    /**
+     * A file was copied to all the target storages. Emitted with a ReplicatedEvent.
+     */
+    Replicated = 'replicated',
+
+    /**
+     * Copying a file failed in some of the target storages. Emitted with a ReplicationFailedEvent.
+     */
+    ReplicationFailed = 'replicationFailed',
+
+    /**
+     * A file was read for a caller of the download methods. Emitted with a ServedEvent.
+     */
+    Served = 'served',
+
+    /**
+     * A file was deleted from storages, by a caller, because it has a tombstone or because it was
+     * moved. Emitted with a DeletedEvent.
+     */
+    Deleted = 'deleted'
 };
 
-/**
- * A simple multi storage client that wraps both Azure Blob Storage client and AWS S3 client.
- */
-export class MultiStorageClient implements IStorageClient {
-    protected azureBlobStorageClient: AzureBlobStorageClient = null;
-    protected awsS3Client: AwsS3Client = null;
+export interface ReplicationEvent {
+    storageFilePath: string;
+    containerOrBucketName: string;
+    sourceStorageId: string;
+
+    /**
+     * The IDs of the storages the file is copied to.
+     */
+    targetStorageIds: string[];
+}
+
+export interface ReplicatedEvent extends ReplicationEvent {
+    /**
+     * The time from the start of the replication to the check of the last copy.
+     */
+    durationInMs: number;
+}
+
+export interface ReplicationFailedEvent extends ReplicationEvent {
+    /**
+     * The errors by the IDs of the target storages where the copy failed. The other target
+     * storages hold the file.
+     */
+    errorsByStorage: { [storageId: string]: StorageError };
+
+    durationInMs: number;
+}
+
+export interface ServedEvent {
+    storageFilePath: string;
+    containerOrBucketName: string;
+
+    /**
+     * The ID of the storage the file was read from or null, if it was read from the disk cache
+     * without downloading it.
+     */
+    storageId: string;
+
+    /**
+     * The time to the response. The content of a stream may still be being read.
+     */
+    durationInMs: number;
+}
+
+export interface DeletedEvent {
+    storageFilePath: string;
+    containerOrBucketName: string;
+
+    /**
+     * The IDs of the storages the file was deleted from.
+     */
+    storageIds: string[];
+}
+
+/**
+ * A simple multi storage client that wraps any number of storage clients registered under
+ * named IDs. The read preference defines the order of preference when reading, by default the
+ * order of registration. The client emits the MultiStorageClientEvent events and records the
+ * metrics of the requests made to the storages.
+ */
+export class MultiStorageClient extends EventEmitter implements IStorageClient<Set<string>, { [storageId: string]: object }> {
+    protected storageClients: Map<string, IStorageClient> = new Map<string, IStorageClient>();
+    protected conflictResolutionPolicy: ConflictResolutionPolicy = ConflictResolutionPolicy.ReportOnly;
+    protected replicationQueue: ReplicationQueue = null;
+    protected tombstoneStore: TombstoneStore = null;
+    protected diskCache: DiskCache = null;
+    protected presenceCache: PresenceCache = null;
+    protected readPreference: ReadPreference = new ReadPreference();
+    protected writeMode: WriteMode = WriteMode.BestEffort;
+    protected transferOptions: ReplicationTransferOptions = null;
+    protected encryption: EnvelopeEncryption = null;
+    protected logger: Logger = console;
+    protected metrics: StorageMetrics = new StorageMetrics();
+    protected stagedCopies: Map<string, Promise<StorageError[]>> = new Map<string, Promise<StorageError[]>>();
+
+    /**
+     * @return True, if this instance is initialized. False otherwise.
+     */
+    public isInitialized(): boolean {
+        if (this.storageClients.size === 0) {
+            return false;
+        }
+
+        for (let storageClient of this.storageClients.values()) {
+            if (!storageClient.isInitialized()) {
+                return false;
+            }
+        }
+
+        return true;
+    }
+
+    /**
+     * @return True, if every registered storage keeps the content type and the user metadata.
+     */
+    public keepsUserMetadata(): boolean {
+        return Array.from(this.storageClients.values()).every((storageClient) => storageClient.keepsUserMetadata());
+    }
+
+    /**
+     * Initializes the client with an Azure Blob Storage client and an AWS S3 client registered
+     * with the IDs StorageType.AzureBlobStorage and StorageType.AwsS3 respectively.
+     * Any previously registered storage clients are removed. See also loadMultiStorageClient() in
+     * configuration.ts for configuring the storages with a file.
+     */
+    public initialize(azureBlobStorageAccountName: string, azureBlobStorageAccessKey: string,
+        awsS3AccessKeyId: string, awsS3SecretAccessKey: string, awsS3Region: string,
+        defaultAzureBlobStorageContainerName?: string, defaultAwsS3BucketName?: string) {
+        this.storageClients.clear();
+
+        let azureBlobStorageClient = new AzureBlobStorageClient();
+        azureBlobStorageClient.initialize(azureBlobStorageAccountName, azureBlobStorageAccessKey, defaultAzureBlobStorageContainerName);
+        this.addStorageClient(StorageType.AzureBlobStorage, azureBlobStorageClient);
+
+        let awsS3Client = new AwsS3Client();
+        awsS3Client.initialize(awsS3AccessKeyId, awsS3SecretAccessKey, awsS3Region,
+            defaultAwsS3BucketName || defaultAzureBlobStorageContainerName);
+        this.addStorageClient(StorageType.AwsS3, awsS3Client);
+    }
+
+    /**
+     * Registers the given storage client.
+     *
+     * @param storageId The unique ID of the storage.
+     * @param storageClient The initialized storage client. A NotSupportedError is thrown, if the
+     * encryption is set and the storage does not keep the user metadata.
+     */
+    public addStorageClient(storageId: string, storageClient: IStorageClient) {
+        if (this.storageClients.has(storageId)) {
+            throw new Error('A storage client with ID "' + storageId + '" is already registered');
+        }
+
+        if (this.encryption !== null) {
+            this.checkKeepsUserMetadata(storageId, storageClient);
+        }
+
+        this.storageClients.set(storageId, storageClient);
+    }
+
+    /**
+     * Unregisters the storage client with the given ID.
+     *
+     * @param storageId The ID of the storage.
+     * @return True, if the storage client was found and removed. False otherwise.
+     */
+    public removeStorageClient(storageId: string): boolean {
+        return this.storageClients.delete(storageId);
+    }
+
+    /**
+     * @param storageId The ID of the storage.
+     * @return The storage client with the given ID or undefined if not found.
+     */
+    public getStorageClient(storageId: string): IStorageClient {
+        return this.storageClients.get(storageId);
+    }
+
+    /**
+     * @return The IDs of the registered storages in the order of registration.
+     */
+    public getStorageIds(): string[] {
+        return Array.from(this.storageClients.keys());
+    }
+
+    /**
+     * @return The policy applied when the copies of a file differ between storages.
+     */
+    public getConflictResolutionPolicy(): ConflictResolutionPolicy {
+        return this.conflictResolutionPolicy;
+    }
+
+    /**
+     * Sets the policy applied during lazy replication when the copies of a file differ between
+     * storages. The default policy is ConflictResolutionPolicy.ReportOnly.
+     *
+     * @param conflictResolutionPolicy The policy.
+     */
+    public setConflictResolutionPolicy(conflictResolutionPolicy: ConflictResolutionPolicy) {
+        this.conflictResolutionPolicy = conflictResolutionPolicy;
+    }
+
+    /**
+     * @return The policy choosing the storage a file is read from.
+     */
+    public getReadPreference(): ReadPreference {
+        return this.readPreference;
+    }
+
+    /**
+     * Sets the policy choosing the storage a file is read from, when several storages hold it, and
+     * whether a failed read falls back to the other storages. The default prefers the storages in
+     * the order of registration. The conflict resolution policy still decides which copy is read,
+     * if the copies differ.
+     *
+     * @param readPreference The read preference.
+     */
+    public setReadPreference(readPreference: ReadPreference) {
+        this.readPreference = readPreference;
+    }
+
+    /**
+     * @return The write mode of the upload methods.
+     */
+    public getWriteMode(): WriteMode {
+        return this.writeMode;
+    }
+
+    /**
+     * Sets the consistency required by the upload methods, see WriteMode. The default is
+     * WriteMode.BestEffort. If a replication queue is set, the repairs are queued.
+     *
+     * @param writeMode The write mode.
+     */
+    public setWriteMode(writeMode: WriteMode) {
+        this.writeMode = writeMode;
+    }
+
+    /**
+     * @return The replication queue or null, if not set.
+     */
+    public getReplicationQueue(): ReplicationQueue {
+        return this.replicationQueue;
+    }
+
+    /**
+     * Sets the queue used for lazy replication. When set, the files read are not streamed to the
+     * storages missing them, but the replication is queued and done in the background by the
+     * queue, once started. This client becomes the replicator of the queue.
+     *
+     * @param replicationQueue The queue or null to replicate while reading.
+     */
+    public setReplicationQueue(replicationQueue: ReplicationQueue) {
+        this.replicationQueue = replicationQueue;
+
+        if (replicationQueue) {
+            replicationQueue.setReplicator((task) => this.replicateQueuedFile(task));
+        }
+    }
+
+    /**
+     * @return The tombstone store or null, if not set.
+     */
+    public getTombstoneStore(): TombstoneStore {
+        return this.tombstoneStore;
+    }
+
+    /**
+     * Sets the store of the tombstones of the deleted files. When set, deleteFiles() records a
+     * tombstone for each file before deleting it, and a file with a tombstone is deleted from the
+     * storages still holding it instead of being replicated by the lazy reads, the replication
+     * queue and reconcile(). Uploading a file removes its tombstone.
+     *
+     * @param tombstoneStore The store or null to not record the deletes.
+     */
+    public setTombstoneStore(tombstoneStore: TombstoneStore) {
+        this.tombstoneStore = tombstoneStore;
+    }
+
+    /**
+     * @return The disk cache or null, if not set.
+     */
+    public getDiskCache(): DiskCache {
+        return this.diskCache;
+    }
+
+    /**
+     * Sets the local cache of the files read with downloadFile(), downloadFileAsBuffer() and
+     * downloadFileToDisk(). A cached file is validated with a single request to the storage it was
+     * downloaded from instead of downloading it again. The lazy replication methods and the reads
+     * without a container/bucket name bypass the cache.
+     *
+     * @param diskCache The initialized cache or null to not cache the files.
+     */
+    public setDiskCache(diskCache: DiskCache) {
+        this.diskCache = diskCache;
+    }
+
+    /**
+     * @return The presence cache or null, if not set.
+     */
+    public getPresenceCache(): PresenceCache {
+        return this.presenceCache;
+    }
+
+    /**
+     * Sets the cache of the storages holding each file used by getFilePresence(),
+     * storagesContainingFile(), fileExists() and the download methods. The files uploaded,
+     * replicated or deleted by this client are invalidated.
+     *
+     * @param presenceCache The cache or null to ask the storages every time.
+     */
+    public setPresenceCache(presenceCache: PresenceCache) {
+        this.presenceCache = presenceCache;
+    }
+
+    /**
+     * @return The options of the replication of the large files or null, if not set.
+     */
+    public getTransferOptions(): ReplicationTransferOptions {
+        return this.transferOptions;
+    }
+
+    /**
+     * Sets how the large files are replicated by the lazy reads, the replication queue, the write
+     * repairs and reconcile(). When set, a file of at least the staging threshold is not streamed
+     * to the storages missing it, but downloaded to the staging directory and uploaded from there
+     * with the resumable transfers of the storage clients. If a copy is interrupted, the next copy
+     * of the same version of the file (e.g. a retry of the replication queue) continues from the
+     * checkpoints. A lazy read streams the file to the caller and copies it separately.
+     *
+     * @param transferOptions The staging directory, the threshold and the transfer options, or null
+     * to stream all the files.
+     */
+    public setTransferOptions(transferOptions: ReplicationTransferOptions) {
+        if (transferOptions) {
+            checkTransferOptions(transferOptions);
+
+            if (!transferOptions.stagingDirectoryPath) {
+                throw new Error('The staging directory is required');
+            }
+        }
+
+        this.transferOptions = transferOptions || null;
+    }
+
+    /**
+     * @return The encryption or null, if not set.
+     */
+    public getEncryption(): EnvelopeEncryption {
+        return this.encryption;
+    }
+
+    /**
+     * Sets the envelope encryption of the files written by this client. The files are encrypted
+     * once and the same encrypted content is uploaded to every storage, so the copies match. The
+     * download methods decrypt the encrypted files, getFileProperties() tells the size of the
+     * decrypted content, and the replication, the verification and the reconciliation copy and
+     * compare the encrypted content as is. The storages must keep the user metadata of the files,
+     * which holds the wrapped data keys. The files to encrypt that are stored without encryption are
+     * logged as a warning when read, unless rejected by the encryption.
+     *
+     * @param encryption The encryption or null to neither encrypt nor decrypt the files. A
+     * NotSupportedError is thrown, if any of the storages does not keep the user metadata.
+     */
+    public setEncryption(encryption: EnvelopeEncryption) {
+        if (encryption !== null) {
+            this.storageClients.forEach((storageClient, storageId) => this.checkKeepsUserMetadata(storageId, storageClient));
+        }
+
+        this.encryption = encryption;
+    }
+
+    /**
+     * @return The logger of the failures handled without rejecting.
+     */
+    public getLogger(): Logger {
+        return this.logger;
+    }
+
+    /**
+     * Sets the logger of the failures handled without rejecting, e.g. a storage that could not be
+     * read from when another storage was read instead. The console is the default.
+     *
+     * @param logger The logger.
+     */
+    public setLogger(logger: Logger) {
+        this.logger = logger;
+    }
+
+    /**
+     * @return The counters and the latency histograms of the requests made to the storages.
+     */
+    public getMetrics(): StorageMetrics {
+        return this.metrics;
+    }
+
+    /**
+     * Sets the metrics the requests made to the storages are recorded to, e.g. to share them
+     * between clients or to use other histogram buckets.
+     *
+     * @param metrics The metrics.
+     */
+    public setMetrics(metrics: StorageMetrics) {
+        this.metrics = metrics;
+    }
+
+    /**
+     * Adds a listener of the given event.
+     *
+     * @param event The event.
+     * @param listener The listener called with the details of the event.
+     * @return This client.
+     */
+    public on(event: MultiStorageClientEvent.ReplicationStarted, listener: (event: ReplicationEvent) => void): this;
+    public on(event: MultiStorageClientEvent.Replicated, listener: (event: ReplicatedEvent) => void): this;
+    public on(event: MultiStorageClientEvent.ReplicationFailed, listener: (event: ReplicationFailedEvent) => void): this;
+    public on(event: MultiStorageClientEvent.Served, listener: (event: ServedEvent) => void): this;
+    public on(event: MultiStorageClientEvent.Deleted, listener: (event: DeletedEvent) => void): this;
+    public on(event: string | symbol, listener: (...args: any[]) => void): this;
+    public on(event: string | symbol, listener: (...args: any[]) => void): this {
+        return super.on(event, listener);
+    }
+
+    /**
+     * Adds a listener of the next occurrence of the given event.
+     *
+     * @param event The event.
+     * @param listener The listener called with the details of the event.
+     * @return This client.
+     */
+    public once(event: MultiStorageClientEvent.ReplicationStarted, listener: (event: ReplicationEvent) => void): this;
+    public once(event: MultiStorageClientEvent.Replicated, listener: (event: ReplicatedEvent) => void): this;
+    public once(event: MultiStorageClientEvent.ReplicationFailed, listener: (event: ReplicationFailedEvent) => void): this;
+    public once(event: MultiStorageClientEvent.Served, listener: (event: ServedEvent) => void): this;
+    public once(event: MultiStorageClientEvent.Deleted, listener: (event: DeletedEvent) => void): this;
+    public once(event: string | symbol, listener: (...args: any[]) => void): this;
+    public once(event: string | symbol, listener: (...args: any[]) => void): this {
+        return super.once(event, listener);
+    }
+
+    /**
+     * Checks whether a file with the given name is present in each of the registered storages.
+     *
+     * @param storageFilePath The path of the file to check including the file name.
+     * @param containerOrBucketName The name of the container/bucket. If not given, the default
+     * container/bucket of each storage client is used.
+     * @return The presence of the file by the storage IDs in the order of registration.
+     */
+    public async getFilePresence(storageFilePath: string, containerOrBucketName?: string): Promise<Map<string, FilePresence>> {
+        let result: Map<string, FilePresence> = new Map<string, FilePresence>();
+
+        (await this.checkFileExistence(storageFilePath, containerOrBucketName)).forEach((fileExists, storageId) => {
+            if (fileExists instanceof StorageError) {
+                result.set(storageId, FilePresence.Unknown);
+            } else {
+                result.set(storageId, (fileExists ? FilePresence.Present : FilePresence.Missing));
+            }
+        });
+
+        return result;
+    }
+
+    /**
+     * Checks which of the registered storages contain a file with the given name. The storages
+     * where the presence of the file is unknown are not included, see getFilePresence().
+     *
+     * @param storageFilePath The path of the file to check including the file name.
+     * @param containerOrBucketName The name of the container/bucket. If not given, the default
+     * container/bucket of each storage client is used.
+     * @return The IDs of the storages known to contain the file. The set is empty if the file was not found.
+     */
+    public async storagesContainingFile(storageFilePath: string, containerOrBucketName?: string): Promise<Set<string>> {
+        let result: Set<string> = new Set<string>();
+
+        (await this.getFilePresence(storageFilePath, containerOrBucketName)).forEach((filePresence, storageId) => {
+            if (filePresence === FilePresence.Present) {
+                result.add(storageId);
+            }
+        });
+
+        return result;
+    }
+
+    /**
+     * Checks if a file with the given name exists in any of the storages.
+     *
+     * @param storageFilePath The path of the file to check including the file name.
+     * @param containerOrBucketName The name of the container/bucket.
+     * @return True, if found. False, if all the storages tell it is missing. Rejected with the
+     * StorageError of a storage, if not found and the presence is unknown in that storage.
+     */
+    public async fileExists(storageFilePath: string, containerOrBucketName?: string): Promise<boolean> {
+        let fileExistsResults: any[] = Array.from(
+            (await this.checkFileExistence(storageFilePath, containerOrBucketName)).values());
+
+        if (fileExistsResults.indexOf(true) !== -1) {
+            return true;
+        }
+
+        const error: StorageError = fileExistsResults.find((fileExists) => fileExists instanceof StorageError);
+
+        if (error) {
+            throw error;
+        }
+
+        return false;
+    }
+
+    /**
+     * Lists the blobs/files in the storages matching the given prefix.
+     * Note that this is can be an expensive method to call!
+     *
+     * @param storageFileNamePrefix The prefix of the names of the storage blobs/files to list.
+     * @param containerOrBucketName The name of the container/bucket.
+     * @return An object where the keys are the storage IDs and the values the storage specific
+     * listing results. The value is null for storages where the listing failed.
+     */
+    public async listFilesWithPrefix(storageFileNamePrefix: string,
+        containerOrBucketName?: string): Promise<{ [storageId: string]: object }> {
+        let result: { [storageId: string]: object } = {};
+
+        for (let [storageId, storageClient] of this.storageClients) {
+            result[storageId] = null;
+
+            try {
+                result[storageId] = await storageClient.listFilesWithPrefix(storageFileNamePrefix, containerOrBucketName);
+            } catch (error) {
+                this.logger.warn('Failed to list files in storage "' + storageId + '": ' + error);
+            }
+        }
+
+        return result;
+    }
+
+    /**
+     * Lists the blobs/files in all storages matching the given prefix. The listings of the storages
+     * are retrieved page by page and merged so that each key is yielded once. Rejected, if the
+     * listing of any of the storages fails.
+     *
+     * @param storageFileNamePrefix The prefix of the storage blob/file names to list.
+     * @param containerOrBucketName The name of the container/bucket.
+     * @param options The delimiter and the page size (optional).
+     * @return The merged entries sorted by the key.
+     */
+    public async *listFiles(storageFileNamePrefix?: string, containerOrBucketName?: string,
+        options?: ListOptions): AsyncIterableIterator<MergedListEntry> {
+        let storageIds: string[] = this.getStorageIds();
+        let listings: AsyncIterator<StorageListEntry>[] = storageIds.map((storageId) =>
+            this.storageClients.get(storageId).listFiles(storageFileNamePrefix, containerOrBucketName, options));
+
+        for await (const entries of mergeListings(listings)) {
+            let mergedListEntry: MergedListEntry = null;
+
+            entries.forEach((entry, index) => {
+                if (!entry) {
+                    return;
+                }
+
+                if (mergedListEntry === null) {
+                    mergedListEntry = {
+                        name: entry.name,
+                        isPrefix: entry.isPrefix,
+                        size: entry.size,
+                        lastModified: entry.lastModified,
+                        storageIds: [],
+                        entriesByStorage: {}
+                    };
+                }
+
+                mergedListEntry.storageIds.push(storageIds[index]);
+                mergedListEntry.entriesByStorage[storageIds[index]] = entry;
+            });
+
+            yield mergedListEntry;
+        }
+    }
+
+    /**
+     * Lists the names of the blobs/files in the storages matching the given prefix.
+     * Note that this is can be an expensive method to call!
+     *
+     * @param storageFileNamePrefix The prefix of the storage blob/file names to list.
+     * @param containerOrBucketName The name of the container/bucket.
+     * @return The list of unique file names in a string array.
+     */
+    public async listFileNamesWithPrefix(storageFileNamePrefix: string, containerOrBucketName?: string): Promise<string[]> {
+        let fileNames: Set<string> = new Set<string>();
+
+        for (let [storageId, storageClient] of this.storageClients) {
+            try {
+                let fileNamesInStorage: string[] =
+                    await storageClient.listFileNamesWithPrefix(storageFileNamePrefix, containerOrBucketName);
+                fileNamesInStorage.forEach((fileName) => fileNames.add(fileName));
+            } catch (error) {
+                this.logger.warn('Failed to list file names in storage "' + storageId + '": ' + error);
+            }
+        }
+
+        return Array.from(fileNames);
+    }
+
+    /**
+     * Retrieves the properties of the given file from the preferred storage containing it.
+     *
+     * @param storageFilePath The file/blob path in the storage.
+     * @param containerOrBucketName The name of the container/bucket.
+     * @return The properties of the file. Rejected with a NotFoundError, if the file was not found.
+     */
+    public async getFileProperties(storageFilePath: string, containerOrBucketName?: string): Promise<StorageFileProperties> {
+        let { filePropertiesByStorage } = await this.getFilePropertiesByStorage(storageFilePath, containerOrBucketName);
+        let fileProperties: StorageFileProperties = filePropertiesByStorage.get(
+            this.readPreference.orderStorageIds(Array.from(filePropertiesByStorage.keys()), storageFilePath, containerOrBucketName)[0]);
+
+        return (this.encryption !== null ? toDecryptedFileProperties(fileProperties) : fileProperties);
+    }
+
+    /**
+     * Downloads the given file from the storage. If the file is missing from some of the storages,
+     * it will be replicated to the ones where it's missing. The content is streamed to the disk and
+     * to the replicas at the same time.
+     *
+     * If the copies of the file differ between the storages (the sizes or the MD5 hashes do not
+     * match), the conflict resolution policy decides which copy is downloaded and whether the
+     * stale copies are overwritten.
+     *
+     * If a replication queue is set, the replication is queued instead and this method returns as
+     * soon as the file is written to the disk.
+     *
+     * The content read is checked against the size and the MD5 hash of the source, and the copies
+     * against the content read. If the content read does not match, the file is downloaded once
+     * more. The copies that do not match are copied again once.
+     *
+     * @param storageFilePath The file/blob path in the storage.
+     * @param localFilePath The desired local path for the file.
+     * @param containerOrBucketName The name of the container/bucket.
+     * @return The result including the error, if any, and the conflict resolution decision.
+     */
+    public async downloadFileToDiskAndReplicateIfNecessary(storageFilePath: string, localFilePath: string,
+        containerOrBucketName?: string): Promise<LazyReplicationResult> {
+        let result: LazyReplicationResult = null;
+
+        for (let attempt = 1; attempt <= MAX_DOWNLOAD_ATTEMPTS; attempt++) {
+            let downloadError: StorageError = null;
+            result = {
+                error: null,
+                sourceStorageId: null,
+                targetStorageIds: [],
+                unknownStorageIds: [],
+                conflictResolution: null,
+                replicationQueued: false
+            };
+
+            try {
+                let replicatingReadStream: ReplicatingReadStream =
+                    await this.downloadFileAsStreamAndReplicateIfNecessary(storageFilePath, containerOrBucketName);
+                result.sourceStorageId = replicatingReadStream.sourceStorageId;
+                result.targetStorageIds = replicatingReadStream.targetStorageIds;
+                result.unknownStorageIds = replicatingReadStream.unknownStorageIds;
+                result.conflictResolution = replicatingReadStream.conflictResolution;
+                result.replicationQueued = replicatingReadStream.replicationQueued;
+
+                try {
+                    await writeStreamToFile(replicatingReadStream.stream, localFilePath);
+                } catch (error) {
+                    downloadError = toStorageError(error, storageFilePath);
+                }
+
+                // Wait for the replication also when the content read was corrupt
+                const replicationError: StorageError = await replicatingReadStream.replication;
+                result.error = downloadError || replicationError;
+            } catch (error) {
+                downloadError = toStorageError(error, storageFilePath);
+                result.error = downloadError;
+            }
+
+            if (downloadError === null || downloadError.code !== StorageErrorCode.ChecksumMismatch || attempt === MAX_DOWNLOAD_ATTEMPTS) {
+                break;
+            }
+
+            this.logger.warn('Failed to download file "' + storageFilePath + '" from storage "' + result.sourceStorageId
+                + '", downloading again: ' + result.error);
+        }
+
+        return result;
+    }
+
+    /**
+     * Downloads the given file as a stream. If the file is missing from some of the storages, the
+     * content read from the source storage is streamed to the ones where it's missing at the same time.
+     * The conflicts are resolved as in downloadFileToDiskAndReplicateIfNecessary(). With
+     * encryption, the encrypted content is replicated as is, and the stream and the properties are
+     * the ones of the decrypted content.
+     *
+     * @param storageFilePath The file/blob path in the storage.
+     * @param containerOrBucketName The name of the container/bucket.
+     * @return The stream and the state of the replication. Rejected with a NotFoundError, if the
+     * file was not found.
+     */
+    public async downloadFileAsStreamAndReplicateIfNecessary(storageFilePath: string,
+        containerOrBucketName?: string): Promise<ReplicatingReadStream> {
+        const startTime: number = Date.now();
+        let replicatingReadStream: ReplicatingReadStream = await this.createReplicatingReadStream(storageFilePath, containerOrBucketName);
+
+        if (this.encryption !== null) {
+            try {
+                replicatingReadStream.stream = this.decryptStream(replicatingReadStream.stream,
+                    replicatingReadStream.fileProperties, storageFilePath, containerOrBucketName);
+            } catch (error) {
+                // Keep reading for the replication
+                replicatingReadStream.stream.resume();
+                throw error;
+            }
+
+            replicatingReadStream.fileProperties = toDecryptedFileProperties(replicatingReadStream.fileProperties);
+        }
+
+        this.emitEvent(MultiStorageClientEvent.Served, {
+            storageFilePath: storageFilePath,
+            containerOrBucketName: containerOrBucketName,
+            storageId: replicatingReadStream.sourceStorageId,
+            durationInMs: Date.now() - startTime
+        });
+        return replicatingReadStream;
+    }
+
+    /**
+     * Downloads the given file from the preferred storage containing it or from the disk cache.
+     *
+     * @param storageFilePath The file/blob path in the storage.
+     * @param containerOrBucketName The name of the container/bucket.
+     * @return The content of the file. Rejected with a NotFoundError, if the file was not found.
+     */
+    public async downloadFile(storageFilePath: string, containerOrBucketName?: string): Promise<Buffer> {
+        return this.downloadFileAsBuffer(storageFilePath, containerOrBucketName);
+    }
+
+    /**
+     * Downloads the given file to disk from the preferred storage containing it or from the disk cache.
+     *
+     * @param storageFilePath The file/blob path in the storage.
+     * @param localFilePath The desired local path for the file.
+     * @param containerOrBucketName The name of the container/bucket.
+     * @return Resolved when the file is written. Rejected with a NotFoundError, if the file was not found.
+     */
+    public async downloadFileToDisk(storageFilePath: string, localFilePath: string, containerOrBucketName?: string): Promise<void> {
+        if (this.diskCache !== null && await this.readThroughDiskCache(storageFilePath, containerOrBucketName,
+            (cachedFilePath, fileProperties) => writeStreamToFile(this.decryptStream(fs.createReadStream(cachedFilePath),
+                fileProperties, storageFilePath, containerOrBucketName), localFilePath).then(() => true))) {
+            return;
+        }
+
+        return this.readFromSourceStorage(storageFilePath, containerOrBucketName, async (storageClient) => {
+            if (this.encryption === null) {
+                return storageClient.downloadFileToDisk(storageFilePath, localFilePath, containerOrBucketName);
+            }
+
+            await writeStreamToFile(await this.downloadDecryptedStream(storageClient, storageFilePath, containerOrBucketName),
+                localFilePath);
+        });
+    }
+
+    /**
+     * Downloads the given file as a stream from the preferred storage containing it.
+     *
+     * @param storageFilePath The file/blob path in the storage.
+     * @param containerOrBucketName The name of the container/bucket.
+     * @return A stream providing the content of the file. Rejected with a NotFoundError, if the
+     * file was not found.
+     */
+    public async downloadFileAsStream(storageFilePath: string, containerOrBucketName?: string): Promise<Readable> {
+        return this.readFromSourceStorage(storageFilePath, containerOrBucketName, (storageClient) =>
+            (this.encryption === null ? storageClient.downloadFileAsStream(storageFilePath, containerOrBucketName)
+                : this.downloadDecryptedStream(storageClient, storageFilePath, containerOrBucketName)));
+    }
+
+    /**
+     * Downloads the given file to memory from the preferred storage containing it or from the disk cache.
+     *
+     * @param storageFilePath The file/blob path in the storage.
+     * @param containerOrBucketName The name of the container/bucket.
+     * @return The content of the file. Rejected with a NotFoundError, if the file was not found.
+     */
+    public async downloadFileAsBuffer(storageFilePath: string, containerOrBucketName?: string): Promise<Buffer> {
+        if (this.diskCache !== null) {
+            const content: Buffer = await this.readThroughDiskCache(storageFilePath, containerOrBucketName,
+                (cachedFilePath, fileProperties) => readStreamToBuffer(
+                    this.decryptStream(fs.createReadStream(cachedFilePath), fileProperties, storageFilePath, containerOrBucketName)));
+
+            if (content !== null) {
+                return content;
+            }
+        }
+
+        return this.readFromSourceStorage(storageFilePath, containerOrBucketName, async (storageClient) => {
+            if (this.encryption === null) {
+                return storageClient.downloadFileAsBuffer(storageFilePath, containerOrBucketName);
+            }
+
+            const fileProperties: StorageFileProperties = await storageClient.getFileProperties(storageFilePath, containerOrBucketName);
+            const content: Buffer = await storageClient.downloadFileAsBuffer(storageFilePath, containerOrBucketName);
+            const decryptedContent: Buffer = this.encryption.decryptBuffer(content, fileProperties, storageFilePath,
+                containerOrBucketName);
+            this.warnIfNotEncrypted(fileProperties, storageFilePath, containerOrBucketName);
+            return decryptedContent;
+        });
+    }
+
+    /**
+     * Uploads the given file to the given storage(s) with the write mode of this client.
+     *
+     * @param localFilePath The local file path of the file to upload.
+     * @param storageFilePath The storage location for the file.
+     * @param storageIdsToUse The IDs of the storages to upload the file to. If not given, the file
+     * is uploaded to all registered storages.
+     * @param containerOrBucketName The name of the container/bucket.
+     * @param contentTypeOrMetadata The content type or the metadata of the file.
+     * @return The IDs of the storages where the file was successfully uploaded. Rejected with a
+     * WriteError, if the write mode was not satisfied.
+     */
+    public async uploadFileToStorage(localFilePath: string, storageFilePath: string, storageIdsToUse?: string[],
+        containerOrBucketName?: string, contentTypeOrMetadata?: string | StorageFileMetadata): Promise<Set<string>> {
+        return new Set<string>((await this.writeFile(localFilePath, storageFilePath, storageIdsToUse,
+            containerOrBucketName, contentTypeOrMetadata)).storageIds);
+    }
+
+    /**
+     * Uploads the content of the given stream to the given storage(s) simultaneously with the write
+     * mode of this client.
+     *
+     * @param readStream The stream to read the content of the file from.
+     * @param storageFilePath The storage location for the file.
+     * @param storageIdsToUse The IDs of the storages to upload the file to. If not given, the file
+     * is uploaded to all registered storages.
+     * @param containerOrBucketName The name of the container/bucket.
+     * @param contentTypeOrMetadata The content type or the metadata of the file.
+     * @return The IDs of the storages where the file was successfully uploaded. Rejected with a
+     * WriteError, if the write mode was not satisfied.
+     */
+    public async uploadStreamToStorage(readStream: Readable, storageFilePath: string, storageIdsToUse?: string[],
+        containerOrBucketName?: string, contentTypeOrMetadata?: string | StorageFileMetadata): Promise<Set<string>> {
+        return new Set<string>((await this.writeStream(readStream, storageFilePath, storageIdsToUse,
+            containerOrBucketName, contentTypeOrMetadata)).storageIds);
+    }
+
+    /**
+     * Uploads the given data to the given storage(s) with the write mode of this client.
+     *
+     * @param buffer The content of the file.
+     * @param storageFilePath The storage location for the file.
+     * @param storageIdsToUse The IDs of the storages to upload the file to. If not given, the file
+     * is uploaded to all registered storages.
+     * @param containerOrBucketName The name of the container/bucket.
+     * @param contentTypeOrMetadata The content type or the metadata of the file.
+     * @return The IDs of the storages where the file was successfully uploaded. Rejected with a
+     * WriteError, if the write mode was not satisfied.
+     */
+    public async uploadBufferToStorage(buffer: Buffer, storageFilePath: string, storageIdsToUse?: string[],
+        containerOrBucketName?: string, contentTypeOrMetadata?: string | StorageFileMetadata): Promise<Set<string>> {
+        return new Set<string>((await this.writeBuffer(buffer, storageFilePath, storageIdsToUse,
+            containerOrBucketName, contentTypeOrMetadata)).storageIds);
+    }
+
+    /**
+     * Writes the given file to the given storage(s) with the given write mode.
+     *
+     * @param localFilePath The local file path of the file to upload.
+     * @param storageFilePath The storage location for the file.
+     * @param storageIdsToUse The IDs of the storages to write the file to. If not given, the file
+     * is written to all registered storages. With WriteMode.PrimaryThenAsync, the first one is the primary.
+     * @param containerOrBucketName The name of the container/bucket.
+     * @param contentTypeOrMetadata The content type or the metadata of the file.
+     * @param writeMode The write mode. The default is the write mode of this client.
+     * @return The storages holding the file and the pending repair. Rejected with a WriteError, if
+     * the write mode was not satisfied.
+     */
+    public async writeFile(localFilePath: string, storageFilePath: string, storageIdsToUse?: string[],
+        containerOrBucketName?: string, contentTypeOrMetadata?: string | StorageFileMetadata, writeMode?: WriteMode): Promise<WriteResult> {
+        if (this.shouldEncrypt(storageFilePath, containerOrBucketName)) {
+            // Encrypted once while streamed to all the storages
+            return this.writeStream(fs.createReadStream(localFilePath), storageFilePath, storageIdsToUse, containerOrBucketName,
+                contentTypeOrMetadata, writeMode);
+        }
+
+        storageIdsToUse = storageIdsToUse || this.getStorageIds();
+        this.validateStorageIds(storageIdsToUse);
+
+        return this.uploadToStorages(storageIdsToUse, storageFilePath, containerOrBucketName, writeMode || this.writeMode,
+            (storageClient) => storageClient.uploadFile(localFilePath, storageFilePath, containerOrBucketName, contentTypeOrMetadata));
+    }
+
+    /**
+     * Writes the content of the given stream to the given storage(s) with the given write mode.
+     * With WriteMode.PrimaryThenAsync, the stream is written to the primary storage only and the
+     * file is then copied from there.
+     *
+     * @param readStream The stream to read the content of the file from.
+     * @param storageFilePath The storage location for the file.
+     * @param storageIdsToUse The IDs of the storages to write the file to. If not given, the file
+     * is written to all registered storages. With WriteMode.PrimaryThenAsync, the first one is the primary.
+     * @param containerOrBucketName The name of the container/bucket.
+     * @param contentTypeOrMetadata The content type or the metadata of the file.
+     * @param writeMode The write mode. The default is the write mode of this client.
+     * @return The storages holding the file and the pending repair. Rejected with a WriteError, if
+     * the write mode was not satisfied.
+     */
+    public async writeStream(readStream: Readable, storageFilePath: string, storageIdsToUse?: string[],
+        containerOrBucketName?: string, contentTypeOrMetadata?: string | StorageFileMetadata, writeMode?: WriteMode): Promise<WriteResult> {
+        storageIdsToUse = storageIdsToUse || this.getStorageIds();
+        writeMode = writeMode || this.writeMode;
+        this.validateStorageIds(storageIdsToUse);
+
+        if (this.shouldEncrypt(storageFilePath, containerOrBucketName)) {
+            const encryptedContent: EncryptedContent<Readable> = this.encryption.encryptStream(readStream, contentTypeOrMetadata);
+            readStream = encryptedContent.content;
+            contentTypeOrMetadata = encryptedContent.metadata;
+        }
+
+        let branches: Readable[] = teeStream(readStream, (writeMode === WriteMode.PrimaryThenAsync ? 1 : storageIdsToUse.length));
+
+        return this.uploadToStorages(storageIdsToUse, storageFilePath, containerOrBucketName, writeMode, (storageClient, index) =>
+            storageClient.uploadStream(branches[index], storageFilePath, containerOrBucketName, contentTypeOrMetadata).catch((error) => {
+                // Keep the other uploads going
+                branches[index].resume();
+                throw error;
+            }));
+    }
+
+    /**
+     * Writes the given data to the given storage(s) with the given write mode.
+     *
+     * @param buffer The content of the file.
+     * @param storageFilePath The storage location for the file.
+     * @param storageIdsToUse The IDs of the storages to write the file to. If not given, the file
+     * is written to all registered storages. With WriteMode.PrimaryThenAsync, the first one is the primary.
+     * @param containerOrBucketName The name of the container/bucket.
+     * @param contentTypeOrMetadata The content type or the metadata of the file.
+     * @param writeMode The write mode. The default is the write mode of this client.
+     * @return The storages holding the file and the pending repair. Rejected with a WriteError, if
+     * the write mode was not satisfied.
+     */
+    public async writeBuffer(buffer: Buffer, storageFilePath: string, storageIdsToUse?: string[],
+        containerOrBucketName?: string, contentTypeOrMetadata?: string | StorageFileMetadata, writeMode?: WriteMode): Promise<WriteResult> {
+        storageIdsToUse = storageIdsToUse || this.getStorageIds();
+        this.validateStorageIds(storageIdsToUse);
+
+        if (this.shouldEncrypt(storageFilePath, containerOrBucketName)) {
+            const encryptedContent: EncryptedContent<Buffer> = this.encryption.encryptBuffer(buffer, contentTypeOrMetadata);
+            buffer = encryptedContent.content;
+            contentTypeOrMetadata = encryptedContent.metadata;
+        }
+
+        return this.uploadToStorages(storageIdsToUse, storageFilePath, containerOrBucketName, writeMode || this.writeMode,
+            (storageClient) => storageClient.uploadBuffer(buffer, storageFilePath, containerOrBucketName, contentTypeOrMetadata));
+    }
+
+    /**
+     * Uploads the given file to all storages with the write mode of this client.
+     *
+     * @param localFilePath The local file path of the file to upload.
+     * @param storageFilePath The storage location for the file.
+     * @param containerOrBucketName The name of the container/bucket.
+     * @param contentTypeOrMetadata The content type or the metadata of the file.
+     * @return The IDs of the storages where the file was successfully uploaded. Rejected with a
+     * WriteError, if the write mode was not satisfied.
+     */
+    public async uploadFile(localFilePath: string, storageFilePath: string, containerOrBucketName?: string,
+        contentTypeOrMetadata?: string | StorageFileMetadata): Promise<Set<string>> {
+        return this.uploadFileToStorage(localFilePath, storageFilePath, this.getStorageIds(), containerOrBucketName, contentTypeOrMetadata);
+    }
+
+    /**
+     * Uploads the content of the given stream to all storages with the write mode of this client.
+     *
+     * @param readStream The stream to read the content of the file from.
+     * @param storageFilePath The storage location for the file.
+     * @param containerOrBucketName The name of the container/bucket.
+     * @param contentTypeOrMetadata The content type or the metadata of the file.
+     * @return The IDs of the storages where the file was successfully uploaded. Rejected with a
+     * WriteError, if the write mode was not satisfied.
+     */
+    public async uploadStream(readStream: Readable, storageFilePath: string, containerOrBucketName?: string,
+        contentTypeOrMetadata?: string | StorageFileMetadata): Promise<Set<string>> {
+        return this.uploadStreamToStorage(readStream, storageFilePath, this.getStorageIds(), containerOrBucketName, contentTypeOrMetadata);
+    }
+
+    /**
+     * Uploads the given data to all storages with the write mode of this client.
+     *
+     * @param buffer The content of the file.
+     * @param storageFilePath The storage location for the file.
+     * @param containerOrBucketName The name of the container/bucket.
+     * @param contentTypeOrMetadata The content type or the metadata of the file.
+     * @return The IDs of the storages where the file was successfully uploaded. Rejected with a
+     * WriteError, if the write mode was not satisfied.
+     */
+    public async uploadBuffer(buffer: Buffer, storageFilePath: string, containerOrBucketName?: string,
+        contentTypeOrMetadata?: string | StorageFileMetadata): Promise<Set<string>> {
+        return this.uploadBufferToStorage(buffer, storageFilePath, this.getStorageIds(), containerOrBucketName, contentTypeOrMetadata);
+    }
+
+    /**
+     * Tries to delete the given files from all storages. If a tombstone store is set, the tombstones
+     * are recorded first, so that the files are not replicated back to the storages where the
+     * delete succeeded, even if it fails in the others.
+     *
+     * @param filePaths The paths/keys of the files to delete.
+     * @param containerOrBucketName The name of the container/bucket.
+     * @return Resolved when deleted from all storages. Rejected with the error of the last storage
+     * that failed, once all the storages have been tried. Rejected without deleting anything, if
+     * recording the tombstones fails.
+     */
+    public async deleteFiles(filePaths: string[], containerOrBucketName?: string): Promise<void> {
+        let result: StorageError = null;
+
+        if (this.tombstoneStore !== null) {
+            const deletedTime: number = Date.now();
+
+            try {
+                await Promise.all(filePaths.map((filePath) =>
+                    this.tombstoneStore.addTombstone(filePath, containerOrBucketName, deletedTime)));
+            } catch (error) {
+                throw toStorageError(error);
+            }
+        }
+
+        let storageIds: string[] = this.getStorageIds();
+        let deleteErrors: StorageError[] = await Promise.all(storageIds.map((storageId) =>
+            this.measureRequest(storageId, StorageOperation.Delete, () =>
+                this.storageClients.get(storageId).deleteFiles(filePaths, containerOrBucketName))
+                .then(() => null, (error) => toStorageError(error || new Error('Delete failed')))));
+
+        deleteErrors.forEach((error) => {
+            if (error) {
+                result = error;
+            }
+        });
+
+        filePaths.forEach((filePath) => {
+            this.invalidatePresence(filePath, containerOrBucketName);
+            this.emitDeletedEvent(filePath, containerOrBucketName, storageIds.filter((storageId, index) => !deleteErrors[index]));
+        });
+
+        if (result !== null) {
+            throw result;
+        }
+    }
+
+    /**
+     * Tries to delete the given file from all storages.
+     *
+     * @param filePath The path/key of the file to delete.
+     * @param containerOrBucketName The name of the container/bucket.
+     * @return Resolved when deleted from all storages. Rejected as deleteFiles().
+     */
+    public async deleteFile(filePath: string, containerOrBucketName?: string): Promise<void> {
+        let filePaths: string[] = [filePath];
+        return await this.deleteFiles(filePaths, containerOrBucketName);
+    }
+
+    /**
+     * Copies the given file within each storage holding it, so that the content does not pass
+     * through this client. The copies keep the metadata of the file, and an encrypted file stays
+     * encrypted with the same data key. The storages missing the file are not written to; the
+     * copy is replicated to them like any file. The tombstone of the copy, if any, is removed.
+     *
+     * @param sourceStorageFilePath The path/key of the file to copy.
+     * @param targetStorageFilePath The path/key of the copy.
+     * @param containerOrBucketName The name of the container/bucket.
+     * @param targetContainerOrBucketName The name of the container/bucket of the copy (optional).
+     * The same container/bucket, if not given.
+     * @return The IDs of the storages where the file was copied. Rejected with a NotFoundError, if
+     * the file was not found, or with the error of the last storage that failed, once all the
+     * storages holding the file have been tried.
+     */
+    public async copyFile(sourceStorageFilePath: string, targetStorageFilePath: string, containerOrBucketName?: string,
+        targetContainerOrBucketName?: string): Promise<Set<string>> {
+        return this.copyOrMoveFile(sourceStorageFilePath, targetStorageFilePath, containerOrBucketName,
+            targetContainerOrBucketName || containerOrBucketName, false);
+    }
+
+    /**
+     * Moves (renames) the given file within each storage holding it as copyFile() does. If a
+     * tombstone store is set and the file was moved in any storage, the moved file gets a
+     * tombstone, so that it is deleted from the storages where the move failed instead of being
+     * replicated back.
+     *
+     * @param sourceStorageFilePath The path/key of the file to move.
+     * @param targetStorageFilePath The new path/key of the file.
+     * @param containerOrBucketName The name of the container/bucket.
+     * @param targetContainerOrBucketName The name of the container/bucket to move the file to
+     * (optional). The same container/bucket, if not given.
+     * @return The IDs of the storages where the file was moved. Rejected as copyFile().
+     */
+    public async moveFile(sourceStorageFilePath: string, targetStorageFilePath: string, containerOrBucketName?: string,
+        targetContainerOrBucketName?: string): Promise<Set<string>> {
+        return this.copyOrMoveFile(sourceStorageFilePath, targetStorageFilePath, containerOrBucketName,
+            targetContainerOrBucketName || containerOrBucketName, true);
+    }
+
+    /**
+     * Creates a signed URL of the given file for the storage preferred by the read preference. A
+     * download URL is signed for the preferred storage among the storages known to contain the
+     * file, as storagesContainingFile() tells. If the file is missing from some of the storages,
+     * it is replicated to them, through the replication queue if one is set, so that the later URLs
+     * are signed for the preferred storage. As with the downloads, a file with a tombstone is
+     * deleted from the storages still holding it instead, unless written after the delete. An
+     * upload URL is signed for the preferred storage; the uploaded file is replicated like any file
+     * missing from the other storages, e.g. by reconcile().
+     *
+     * @param storageFilePath The file/blob path in the storage.
+     * @param containerOrBucketName The name of the container/bucket.
+     * @param options The expiry, the permissions and the content type of an upload (optional).
+     * @return The URL. Rejected with a NotFoundError, if the file to download is not known to be in
+     * any storage or has a tombstone, or with the error of the storage signing the URL.
+     */
+    public async getSignedUrl(storageFilePath: string, containerOrBucketName?: string, options?: SignedUrlOptions): Promise<string> {
+        const storageIds: string[] = this.readPreference.orderStorageIds(this.getStorageIds(), storageFilePath, containerOrBucketName);
+
+        if (options && options.permissions === SignedUrlPermission.Write) {
+            return this.storageClients.get(storageIds[0]).getSignedUrl(storageFilePath, containerOrBucketName, options);
+        }
+
+        const filePresence: Map<string, FilePresence> = await this.getFilePresence(storageFilePath, containerOrBucketName);
+        const sourceStorageId: string = storageIds.find((storageId) => filePresence.get(storageId) === FilePresence.Present);
+
+        if (sourceStorageId === undefined) {
+            throw createNotFoundError(storageFilePath);
+        }
+
+        const targetStorageIds: string[] = this.getStorageIds().filter((storageId) => filePresence.get(storageId) === FilePresence.Missing);
+
+        if (targetStorageIds.length > 0) {
+            let tombstone: Tombstone = null;
+
+            try {
+                const lastModifiedTimes: Date[] = (this.tombstoneStore === null ? [] :
+                    Array.from((await this.getFilePropertiesByStorage(storageFilePath, containerOrBucketName))
+                        .filePropertiesByStorage.values()).map((fileProperties) => fileProperties.lastModified));
+                tombstone = await this.replicateMissingFile(storageFilePath, containerOrBucketName, sourceStorageId, targetStorageIds,
+                    lastModifiedTimes);
+            } catch (error) {
+                // The URL does not depend on the replication
+                this.logger.error('Failed to replicate file "' + storageFilePath + '" to storages ' + targetStorageIds.join(', ')
+                    + ': ' + error);
+            }
+
+            if (tombstone !== null) {
+                await this.propagateDelete(storageFilePath, this.getStorageIds().filter((storageId) =>
+                    filePresence.get(storageId) === FilePresence.Present), containerOrBucketName);
+                throw new NotFoundError('File deleted: ' + storageFilePath, storageFilePath);
+            }
+        }
+
+        return this.storageClients.get(sourceStorageId).getSignedUrl(storageFilePath, containerOrBucketName, options);
+    }
+
+    /**
+     * Compares the files with the given prefix in all storages and reports the files missing from
+     * some of the storages and the files whose copies differ. Optionally, copies the missing files
+     * from the first storage holding them, or deletes them from the storages holding them, if they
+     * have tombstones. The copies that differ are only reported.
+     *
+     * The files are processed in the order of the keys, so an interrupted reconciliation can be
+     * continued using the checkpoint file or by starting after the last processed key.
+     *
+     * @param prefix The prefix of the keys of the files to reconcile.
+     * @param containerOrBucketName The name of the container/bucket.
+     * @param options The reconciliation options (optional).
+     * @return The report. Rejected, if listing the files fails (the checkpoint is saved first).
+     */
+    public async reconcile(prefix?: string, containerOrBucketName?: string,
+        options?: ReconciliationOptions): Promise<ReconciliationReport> {
+        prefix = prefix || '';
+        options = options || {};
+        let storageIds: string[] = this.getStorageIds();
+        let concurrency: number = options.concurrency || DEFAULT_RECONCILIATION_CONCURRENCY;
+        let checkpointInterval: number = options.checkpointInterval || DEFAULT_CHECKPOINT_INTERVAL;
+        let report: ReconciliationReport = createReconciliationReport(prefix, storageIds, !!options.dryRun);
+        let startAfter: string = options.startAfter || null;
+
+        if (options.checkpointFilePath) {
+            const checkpoint: string = await readCheckpoint(options.checkpointFilePath, prefix);
+
+            if (checkpoint !== null && (startAfter === null || compareKeys(checkpoint, startAfter) > 0)) {
+                startAfter = checkpoint;
+            }
+        }
+
+        report.summary.resumedAfter = startAfter;
+
+        // The files in progress in the order of the keys
+        let filesInProgress: { name: string, done: boolean }[] = [];
+        let tasks: Set<Promise<any>> = new Set<Promise<any>>();
+        let filesProcessedSinceCheckpoint: number = 0;
+        let checkpointSaving: Promise<any> = Promise.resolve();
+
+        const saveCheckpoint = () => {
+            const lastProcessedKey: string = report.summary.lastProcessedKey;
+
+            if (options.checkpointFilePath && lastProcessedKey !== null) {
+                checkpointSaving = checkpointSaving.then(() =>
+                    writeCheckpoint(options.checkpointFilePath, prefix, lastProcessedKey)).catch((error) => {
+                        this.logger.error('Failed to save the reconciliation checkpoint: ' + error);
+                    });
+            }
+        };
+
+        try {
+            for await (const entry of this.listFiles(prefix, containerOrBucketName)) {
+                if (startAfter !== null && compareKeys(entry.name, startAfter) <= 0) {
+                    continue;
+                }
+
+                let fileInProgress = { name: entry.name, done: false };
+                filesInProgress.push(fileInProgress);
+
+                let task: Promise<any> = this.reconcileFile(entry, storageIds, containerOrBucketName, options, report).then(() => {
+                    fileInProgress.done = true;
+                    tasks.delete(task);
+
+                    while (filesInProgress.length > 0 && filesInProgress[0].done) {
+                        report.summary.lastProcessedKey = filesInProgress.shift().name;
+                    }
+
+                    if (++filesProcessedSinceCheckpoint >= checkpointInterval) {
+                        filesProcessedSinceCheckpoint = 0;
+                        saveCheckpoint();
+                    }
+                });
+
+                tasks.add(task);
+
+                if (tasks.size >= concurrency) {
+                    await Promise.race(tasks);
+                }
+            }
+        } finally {
+            await Promise.all(Array.from(tasks));
+            saveCheckpoint();
+            await checkpointSaving;
+        }
+
+        if (options.checkpointFilePath) {
+            await removeCheckpoint(options.checkpointFilePath);
+        }
+
+        report.mismatches.sort((a, b) => compareKeys(a.name, b.name));
+        report.copies.sort((a, b) => compareKeys(a.name, b.name));
+        report.deletions.sort((a, b) => compareKeys(a.name, b.name));
+        report.failures.sort((a, b) => compareKeys(a.name, b.name));
+        report.summary.completed = true;
+        return report;
+    }
+
+    /**
+     * Audits the copies of the files with the given prefix. Every copy is downloaded and checked
+     * against the size and the MD5 hash stored with it, and the checksums of the copies of each
+     * file are compared. Optionally, the corrupt copies are replaced with an intact copy, if the
+     * intact copies agree. The files missing from some of the storages are left to reconcile().
+     *
+     * @param prefix The prefix of the keys of the files to verify.
+     * @param containerOrBucketName The name of the container/bucket.
+     * @param options The checksum algorithm, the concurrency and whether to repair (optional).
+     * @return The report. Rejected, if listing the files fails.
+     */
+    public async verify(prefix?: string, containerOrBucketName?: string, options?: VerificationOptions): Promise<VerificationReport> {
+        prefix = prefix || '';
+        options = options || {};
+        let concurrency: number = options.concurrency || DEFAULT_VERIFICATION_CONCURRENCY;
+        let report: VerificationReport = createVerificationReport(prefix, options.algorithm || ChecksumAlgorithm.CRC32C);
+        let tasks: Set<Promise<any>> = new Set<Promise<any>>();
+
+        try {
+            for await (const entry of this.listFiles(prefix, containerOrBucketName)) {
+                let task: Promise<any> = this.verifyFile(entry, containerOrBucketName, options, report).then(() => {
+                    tasks.delete(task);
+                });
+
+                tasks.add(task);
+
+                if (tasks.size >= concurrency) {
+                    await Promise.race(tasks);
+                }
+            }
+        } finally {
+            await Promise.all(Array.from(tasks));
+        }
+
+        report.mismatches.sort((a, b) => compareKeys(a.name, b.name));
+        report.failures.sort((a, b) => compareKeys(a.name, b.name));
+        return report;
+    }
+
+    /**
+     * Wraps the data keys of the encrypted files under the given prefix with the active master key
+     * of the encryption, e.g. after a new master key was added. Only the metadata of the copies is
+     * replaced, the content is not uploaded again. A copy replaced meanwhile is left as is and
+     * reported as a failure. The files not encrypted and the copies already wrapped with the
+     * active master key are skipped.
+     *
+     * @param prefix The prefix of the keys of the files to rotate.
+     * @param containerOrBucketName The name of the container/bucket.
+     * @param options The concurrency (optional).
+     * @return The report. Rejected, if the encryption is not set or listing the files fails.
+     */
+    public async rotateKeys(prefix?: string, containerOrBucketName?: string, options?: KeyRotationOptions): Promise<KeyRotationReport> {
+        if (this.encryption === null) {
+            throw new Error('The encryption is not set');
+        }
+
+        prefix = prefix || '';
+        options = options || {};
+        let concurrency: number = options.concurrency || DEFAULT_KEY_ROTATION_CONCURRENCY;
+        let report: KeyRotationReport = createKeyRotationReport(prefix, this.encryption.getActiveKeyId());
+        let tasks: Set<Promise<any>> = new Set<Promise<any>>();
+
+        try {
+            for await (const entry of this.listFiles(prefix, containerOrBucketName)) {
+                let task: Promise<any> = this.rotateFileKeys(entry, containerOrBucketName, report).then(() => {
+                    tasks.delete(task);
+                });
+
+                tasks.add(task);
+
+                if (tasks.size >= concurrency) {
+                    await Promise.race(tasks);
+                }
+            }
+        } finally {
+            await Promise.all(Array.from(tasks));
+        }
+
+        report.failures.sort((a, b) => compareKeys(a.name, b.name) || compareKeys(a.storageId, b.storageId));
+        return report;
+    }
+
+    /**
+     * Asks every storage whether the given file exists.
+     *
+     * @param storageFilePath The file/blob path in the storage.
+     * @param containerOrBucketName The name of the container/bucket.
+     * @return True or false by the storage IDs in the order of registration. The StorageError, if
+     * the storage did not tell. The cached presence, if any.
+     */
+    protected async checkFileExistence(storageFilePath: string,
+        containerOrBucketName?: string): Promise<Map<string, boolean | StorageError>> {
+        let storageIds: string[] = this.getStorageIds();
+        let result: Map<string, boolean | StorageError> = new Map<string, boolean | StorageError>();
+
+        if (this.presenceCache !== null) {
+            const cachedPresenceByStorage: Map<string, FilePresence> =
+                this.presenceCache.get(storageFilePath, containerOrBucketName, storageIds);
+
+            if (cachedPresenceByStorage !== null) {
+                cachedPresenceByStorage.forEach((filePresence, storageId) => result.set(storageId, filePresence === FilePresence.Present));
+                return result;
+            }
+        }
+
+        const presenceCacheGeneration: number = (this.presenceCache !== null ? this.presenceCache.getGeneration() : 0);
+
+        let fileExistsResults: SettledResult<boolean>[] = await settleAll(storageIds.map((storageId) =>
+            this.measureLatency(storageId, StorageOperation.FileExists, () =>
+                this.storageClients.get(storageId).fileExists(storageFilePath, containerOrBucketName))));
+
+        storageIds.forEach((storageId, index) => result.set(storageId, (fileExistsResults[index].error ?
+            toStorageError(fileExistsResults[index].error, storageFilePath) : fileExistsResults[index].value)));
+
+        if (this.presenceCache !== null) {
+            let presenceByStorage: Map<string, FilePresence> = new Map<string, FilePresence>();
+
+            result.forEach((fileExists, storageId) => presenceByStorage.set(storageId, (fileExists instanceof StorageError ?
+                FilePresence.Unknown : (fileExists ? FilePresence.Present : FilePresence.Missing))));
+            this.presenceCache.set(storageFilePath, containerOrBucketName, presenceByStorage, presenceCacheGeneration);
+        }
+
+        return result;
+    }
+
+    /**
+     * @param storageFilePath The file/blob path in the storage.
+     * @param containerOrBucketName The name of the container/bucket.
+     * @return The IDs of the storages containing the file in the order of the read preference.
+     * Rejected with a NotFoundError, if the file was not found, or with the StorageError of a
+     * storage, if not found and the presence is unknown in that storage.
+     */
+    protected async findSourceStorageIds(storageFilePath: string, containerOrBucketName?: string): Promise<string[]> {
+        let sourceStorageIds: string[] = [];
+        let firstError: StorageError = null;
+
+        for (let [storageId, fileExists] of await this.checkFileExistence(storageFilePath, containerOrBucketName)) {
+            if (fileExists === true) {
+                sourceStorageIds.push(storageId);
+            } else if (fileExists instanceof StorageError && firstError === null) {
+                firstError = fileExists;
+            }
+        }
+
+        if (sourceStorageIds.length === 0) {
+            throw (firstError || createNotFoundError(storageFilePath));
+        }
+
+        return this.readPreference.orderStorageIds(sourceStorageIds, storageFilePath, containerOrBucketName);
+    }
+
+    /**
+     * Reads the given file from the preferred storage containing it. If the file is not found there,
+     * e.g. because the cached presence was stale, the storages are checked again and the read retried.
+     * The Served event is emitted with the storage the file was read from.
+     *
+     * @param storageFilePath The file/blob path in the storage.
+     * @param containerOrBucketName The name of the container/bucket.
+     * @param read Reads the file from the given storage client.
+     * @return The result of the read. Rejected with a NotFoundError, if the file was not found.
+     */
+    protected async readFromSourceStorage<T>(storageFilePath: string, containerOrBucketName: string,
+        read: (storageClient: IStorageClient) => Promise<T>): Promise<T> {
+        const startTime: number = Date.now();
+        let sourceStorageIds: string[] = await this.findSourceStorageIds(storageFilePath, containerOrBucketName);
+
+        const readAndMeasure = (storageId: string): Promise<T> => this.measureRequest(storageId, StorageOperation.Download,
+            () => read(this.storageClients.get(storageId))).then((content) => {
+                this.emitEvent(MultiStorageClientEvent.Served, {
+                    storageFilePath: storageFilePath,
+                    containerOrBucketName: containerOrBucketName,
+                    storageId: storageId,
+                    durationInMs: Date.now() - startTime
+                });
+
+                return content;
+            });
+
+        try {
+            return await this.readWithFallback(storageFilePath, sourceStorageIds, readAndMeasure);
+        } catch (error) {
+            if (this.presenceCache === null || !isNotFoundError(error)) {
+                throw error;
+            }
+        }
+
+        this.presenceCache.invalidate(storageFilePath, containerOrBucketName);
+        sourceStorageIds = await this.findSourceStorageIds(storageFilePath, containerOrBucketName);
+        return this.readWithFallback(storageFilePath, sourceStorageIds, readAndMeasure);
+    }
+
+    /**
+     * Reads the given file from the first of the given storages. If the read fails and the read
+     * preference allows falling back, the file is read from the next storage instead.
+     *
+     * @param storageFilePath The file/blob path in the storage.
+     * @param sourceStorageIds The IDs of the storages containing the file in the order of preference.
+     * @param read Reads the file from the given storage.
+     * @return The result of the first successful read. Rejected with the error of the last storage
+     * tried, if all the reads failed.
+     */
+    protected async readWithFallback<T>(storageFilePath: string, sourceStorageIds: string[],
+        read: (storageId: string) => Promise<T>): Promise<T> {
+        const lastIndex: number = (this.readPreference.isFallbackEnabled() ? sourceStorageIds.length - 1 : 0);
+
+        for (let i = 0; i < lastIndex; i++) {
+            try {
+                return await read(sourceStorageIds[i]);
+            } catch (error) {
+                this.logger.warn('Failed to read file "' + storageFilePath + '" from storage "' + sourceStorageIds[i]
+                    + '", reading from storage "' + sourceStorageIds[i + 1] + '" instead: ' + error);
+            }
+        }
+
+        return read(sourceStorageIds[lastIndex]);
+    }
+
+    /**
+     * Records the latency of the given request to the read preference, if the request succeeds,
+     * and to the metrics.
+     *
+     * @param storageId The ID of the storage the request is made to.
+     * @param operation The operation requested.
+     * @param request Makes the request.
+     * @return The result of the request.
+     */
+    protected async measureLatency<T>(storageId: string, operation: StorageOperation, request: () => Promise<T>): Promise<T> {
+        const startTime: number = Date.now();
+        const result: T = await this.measureRequest(storageId, operation, request);
+
+        this.readPreference.recordLatency(storageId, Date.now() - startTime);
+        return result;
+    }
+
+    /**
+     * Records the latency and the outcome of the given request to the metrics. A file not found
+     * is not counted as an error.
+     *
+     * @param storageId The ID of the storage the request is made to.
+     * @param operation The operation requested.
+     * @param request Makes the request.
+     * @return The result of the request.
+     */
+    protected async measureRequest<T>(storageId: string, operation: StorageOperation, request: () => Promise<T>): Promise<T> {
+        const startTime: number = Date.now();
+
+        try {
+            const result: T = await request();
+            this.metrics.recordRequest(storageId, operation, Date.now() - startTime);
+            return result;
+        } catch (error) {
+            this.metrics.recordRequest(storageId, operation, Date.now() - startTime, !isNotFoundError(error));
+            throw error;
+        }
+    }
+
+    /**
+     * Emits the given event. The errors thrown by the listeners are logged, so that they do not
+     * fail the operation.
+     *
+     * @param event The event.
+     * @param details The details of the event passed to the listeners.
+     */
+    protected emitEvent(event: MultiStorageClientEvent, details: ReplicationEvent | ServedEvent | DeletedEvent) {
+        try {
+            this.emit(event, details);
+        } catch (error) {
+            this.logger.error('Failed to handle the "' + event + '" event: ' + error);
+        }
+    }
+
+    /**
+     * Emits the Deleted event, if the given file was deleted from any storage.
+     *
+     * @param storageFilePath The file/blob path in the storage.
+     * @param containerOrBucketName The name of the container/bucket.
+     * @param storageIds The IDs of the storages the file was deleted from.
+     */
+    protected emitDeletedEvent(storageFilePath: string, containerOrBucketName: string, storageIds: string[]) {
+        if (storageIds.length > 0) {
+            this.emitEvent(MultiStorageClientEvent.Deleted, {
+                storageFilePath: storageFilePath,
+                containerOrBucketName: containerOrBucketName,
+                storageIds: storageIds
+            });
+        }
+    }
+
+    /**
+     * Emits the events of replicating the given file: ReplicationStarted right away, and
+     * Replicated or ReplicationFailed once the copies are done.
+     *
+     * @param storageFilePath The file/blob path in the storage.
+     * @param containerOrBucketName The name of the container/bucket.
+     * @param sourceStorageId The ID of the storage the file is copied from.
+     * @param targetStorageIds The IDs of the storages the file is copied to.
+     * @param replication Resolves to the errors of the copies in the order of the target storage IDs.
+     * @return The same errors.
+     */
+    protected trackReplication(storageFilePath: string, containerOrBucketName: string, sourceStorageId: string,
+        targetStorageIds: string[], replication: Promise<StorageError[]>): Promise<StorageError[]> {
+        const startTime: number = Date.now();
+        const replicationEvent: ReplicationEvent = {
+            storageFilePath: storageFilePath,
+            containerOrBucketName: containerOrBucketName,
+            sourceStorageId: sourceStorageId,
+            targetStorageIds: targetStorageIds
+        };
+
+        if (targetStorageIds.length === 0) {
+            return replication;
+        }
+
+        this.emitEvent(MultiStorageClientEvent.ReplicationStarted, replicationEvent);
+
+        return replication.then((errors) => {
+            let errorsByStorage: { [storageId: string]: StorageError } = {};
+
+            targetStorageIds.forEach((storageId, index) => {
+                if (errors[index]) {
+                    errorsByStorage[storageId] = errors[index];
+                }
+            });
+
+            if (Object.keys(errorsByStorage).length === 0) {
+                this.emitEvent(MultiStorageClientEvent.Replicated,
+                    Object.assign({ durationInMs: Date.now() - startTime }, replicationEvent));
+            } else {
+                this.emitEvent(MultiStorageClientEvent.ReplicationFailed, Object.assign({
+                    errorsByStorage: errorsByStorage,
+                    durationInMs: Date.now() - startTime
+                }, replicationEvent));
+            }
+
+            return errors;
+        });
+    }
+
+    /**
+     * Reads the given file from the disk cache. If the file is not cached or has changed in the
+     * storage, it is downloaded to the cache from the first storage containing it first.
+     *
+     * @param storageFilePath The file/blob path in the storage.
+     * @param containerOrBucketName The name of the container/bucket.
+     * @param read Reads the cached file with the properties of the file in the storage it was
+     * downloaded from. The Served event is emitted, if the read succeeds.
+     * @return The result of reading the cached file or null, if the file cannot be cached (it is
+     * too large or no container/bucket is given) or the cached file could not be read (it was
+     * evicted meanwhile). Rejected with a NotFoundError, if the file was not found.
+     */
+    protected async readThroughDiskCache<T>(storageFilePath: string, containerOrBucketName: string,
+        read: (cachedFilePath: string, fileProperties: StorageFileProperties) => Promise<T>): Promise<T> {
+        // The default container/bucket differs between the storages, so the file is not known by a single key
+        if (!containerOrBucketName) {
+            return null;
+        }
+
+        const startTime: number = Date.now();
+        // A separator could occur in both the container name and the path
+        const key: string = JSON.stringify([containerOrBucketName, storageFilePath]);
+        let fileProperties: StorageFileProperties = null;
+        let downloadStorageId: string = null;
+
+        let cachedFilePath: string = await this.diskCache.get(key, (entry) => {
+            let storageClient: IStorageClient = this.storageClients.get(entry.storageId);
+
+            // Download again from the preferred storage containing the file, if it cannot be validated
+            return (storageClient ? storageClient.getFileProperties(storageFilePath, containerOrBucketName)
+                .then((properties) => fileProperties = properties, () => null) : Promise.resolve(null));
+        });
+
+        if (cachedFilePath === null) {
+            let { filePropertiesByStorage } = await this.getFilePropertiesByStorage(storageFilePath, containerOrBucketName);
+            let sourceStorageIds: string[] = this.readPreference.orderStorageIds(
+                Array.from(filePropertiesByStorage.keys()), storageFilePath, containerOrBucketName);
+
+            cachedFilePath = await this.readWithFallback(storageFilePath, sourceStorageIds, (storageId) => {
+                fileProperties = filePropertiesByStorage.get(storageId);
+                downloadStorageId = storageId;
+
+                return this.diskCache.put(key, storageId, fileProperties, (localFilePath) =>
+                    this.measureRequest(storageId, StorageOperation.Download, () =>
+                        this.storageClients.get(storageId).downloadFileToDisk(storageFilePath, localFilePath, containerOrBucketName)));
+            });
+        }
+
+        if (cachedFilePath === null) {
+            return null;
+        }
+
+        try {
+            const result: T = await read(cachedFilePath, fileProperties);
+
+            this.emitEvent(MultiStorageClientEvent.Served, {
+                storageFilePath: storageFilePath,
+                containerOrBucketName: containerOrBucketName,
+                storageId: downloadStorageId,
+                durationInMs: Date.now() - startTime
+            });
+            return result;
+        } catch (error) {
+            this.logger.warn('Failed to read file "' + storageFilePath + '" from the disk cache: ' + error);
+            return null;
+        }
+    }
+
+    /**
+     * Removes the given file from the presence cache, if set.
+     *
+     * @param storageFilePath The file/blob path in the storage.
+     * @param containerOrBucketName The name of the container/bucket.
+     */
+    protected invalidatePresence(storageFilePath: string, containerOrBucketName?: string) {
+        if (this.presenceCache !== null) {
+            this.presenceCache.invalidate(storageFilePath, containerOrBucketName);
+        }
+    }
+
+    /**
+     * @param storageFilePath The file/blob path in the storage.
+     * @param containerOrBucketName The name of the container/bucket.
+     * @return True, if the encryption is set and the given file is to be encrypted.
+     */
+    protected shouldEncrypt(storageFilePath: string, containerOrBucketName?: string): boolean {
+        return (this.encryption !== null && this.encryption.shouldEncrypt(storageFilePath, containerOrBucketName));
+    }
+
+    /**
+     * @param readStream The content of the file as stored.
+     * @param fileProperties The properties of the file in the storage.
+     * @param storageFilePath The file/blob path in the storage.
+     * @param containerOrBucketName The name of the container/bucket.
+     * @return The stream of the decrypted content, if the encryption is set and the file is
+     * encrypted. The given stream otherwise. Throws a DecryptionError as EnvelopeEncryption.decryptStream().
+     */
+    protected decryptStream(readStream: Readable, fileProperties: StorageFileProperties, storageFilePath: string,
+        containerOrBucketName: string): Readable {
+        if (this.encryption === null) {
+            return readStream;
+        }
+
+        const decryptedStream: Readable = this.encryption.decryptStream(readStream, fileProperties, storageFilePath,
+            containerOrBucketName);
+        this.warnIfNotEncrypted(fileProperties, storageFilePath, containerOrBucketName);
+        return decryptedStream;
+    }
+
+    /**
+     * Logs a warning, if the given file is to be encrypted but is stored without encryption, e.g.
+     * uploaded before the encryption was set, so that it is not read as plaintext unnoticed.
+     *
+     * @param fileProperties The properties of the file in the storage.
+     * @param storageFilePath The file/blob path in the storage.
+     * @param containerOrBucketName The name of the container/bucket.
+     */
+    protected warnIfNotEncrypted(fileProperties: StorageFileProperties, storageFilePath: string, containerOrBucketName: string) {
+        if (this.shouldEncrypt(storageFilePath, containerOrBucketName) && !isEncrypted(fileProperties)) {
+            this.logger.warn('Reading file "' + storageFilePath + '" without decryption, it is stored without encryption');
+        }
+    }
+
+    /**
+     * Downloads the given file as a stream from the given storage and decrypts it, if encrypted.
+     *
+     * @param storageClient The storage client.
+     * @param storageFilePath The file/blob path in the storage.
+     * @param containerOrBucketName The name of the container/bucket.
+     * @return The stream of the decrypted content. Rejected with a DecryptionError, if the master
+     * key of the file is not known.
+     */
+    protected async downloadDecryptedStream(storageClient: IStorageClient, storageFilePath: string,
+        containerOrBucketName: string): Promise<Readable> {
+        const fileProperties: StorageFileProperties = await storageClient.getFileProperties(storageFilePath, containerOrBucketName);
+        const stream: Readable = await storageClient.downloadFileAsStream(storageFilePath, containerOrBucketName);
+
+        try {
+            return this.decryptStream(stream, fileProperties, storageFilePath, containerOrBucketName);
+        } catch (error) {
+            stream.resume();
+            throw error;
+        }
+    }
+
+    /**
+     * Throws a NotSupportedError, if the given storage does not keep the user metadata, which holds
+     * the wrapped data keys of the encrypted files.
+     *
+     * @param storageId The ID of the storage.
+     * @param storageClient The storage client.
+     */
+    protected checkKeepsUserMetadata(storageId: string, storageClient: IStorageClient) {
+        if (!storageClient.keepsUserMetadata()) {
+            throw new NotSupportedError('Storage "' + storageId + '" cannot hold encrypted files, it does not keep the user metadata');
+        }
+    }
+
+    /**
+     * Throws an error if any of the given storage IDs is not registered.
+     *
+     * @param storageIds The storage IDs to validate.
+     */
+    protected validateStorageIds(storageIds: string[]) {
+        storageIds.forEach((storageId) => {
+            if (!this.storageClients.has(storageId)) {
+                throw new Error('No storage client registered with ID "' + storageId + '"');
+            }
+        });
+    }
+
+    /**
+     * Runs the given upload operation for each given storage simultaneously (only for the first
+     * one with WriteMode.PrimaryThenAsync). If the write mode is not satisfied, the copies written
+     * are deleted, except those replacing an earlier version of the file. Otherwise the tombstone of the file, if any, is removed and the file is copied to
+     * the storages missing it in the background, unless the write mode is WriteMode.BestEffort.
+     *
+     * @param storageIdsToUse The IDs of the storages to write to.
+     * @param storageFilePath The storage location for the file.
+     * @param containerOrBucketName The name of the container/bucket.
+     * @param writeMode The write mode.
+     * @param upload The upload operation taking the storage client and the index of the storage ID.
+     * @return The storages holding the file and the pending repair. Rejected with a WriteError, if
+     * the write mode was not satisfied.
+     */
+    protected async uploadToStorages(storageIdsToUse: string[], storageFilePath: string, containerOrBucketName: string,
+        writeMode: WriteMode, upload: (storageClient: IStorageClient, index: number) => Promise<any>): Promise<WriteResult> {
+        const requiredWriteCount: number = getRequiredWriteCount(writeMode, storageIdsToUse.length);
+        const uploadStorageIds: string[] = (writeMode === WriteMode.PrimaryThenAsync ? storageIdsToUse.slice(0, 1) : storageIdsToUse);
+        let result: WriteResult = {
+            writeMode: writeMode,
+            storageIds: [],
+            errorsByStorage: {},
+            rolledBackStorageIds: [],
+            pendingStorageIds: [],
+            repairQueued: false,
+            repair: Promise.resolve(null)
+        };
+
+        let replacedStorageIds: string[] = [];
+
+        // A rollback must not delete the earlier version, so the storages holding the file are noted
+        if (requiredWriteCount > 1) {
+            let fileExistsResults: SettledResult<boolean>[] = await settleAll(uploadStorageIds.map((storageId) =>
+                this.measureLatency(storageId, StorageOperation.FileExists, () =>
+                    this.storageClients.get(storageId).fileExists(storageFilePath, containerOrBucketName))));
+
+            // The storages that do not tell may hold the file
+            replacedStorageIds = uploadStorageIds.filter((storageId, index) =>
+                !!fileExistsResults[index].error || fileExistsResults[index].value);
+        }
+
+        let uploadResults: SettledResult<any>[] = await settleAll(uploadStorageIds.map((storageId, index) =>
+            this.measureRequest(storageId, StorageOperation.Upload, () => upload(this.storageClients.get(storageId), index))));
+
+        uploadStorageIds.forEach((storageId, index) => {
+            if (uploadResults[index].error) {
+                this.logger.error('Failed to upload file to storage "' + storageId + '": ' + uploadResults[index].error);
+                result.errorsByStorage[storageId] = toStorageError(uploadResults[index].error, storageFilePath);
+            } else {
+                result.storageIds.push(storageId);
+            }
+        });
+
+        if (result.storageIds.length < requiredWriteCount) {
+            await this.rollBackWrite(storageFilePath, containerOrBucketName, result, replacedStorageIds);
+            this.invalidatePresence(storageFilePath, containerOrBucketName);
+
+            const failedStorageIds: string[] = Object.keys(result.errorsByStorage);
+            throw new WriteError('Failed to write file "' + storageFilePath + '" with write mode ' + writeMode + ' to storages: '
+                + failedStorageIds.join(', '), storageFilePath, result, result.errorsByStorage[failedStorageIds[0]]);
+        }
+
+        this.invalidatePresence(storageFilePath, containerOrBucketName);
+
+        if (this.tombstoneStore !== null && result.storageIds.length > 0) {
+            try {
+                await this.tombstoneStore.removeTombstone(storageFilePath, containerOrBucketName);
+            } catch (error) {
+                this.logger.error('Failed to remove the tombstone of file "' + storageFilePath + '": ' + error);
+            }
+        }
+
+        if (writeMode !== WriteMode.BestEffort) {
+            result.pendingStorageIds = storageIdsToUse.filter((storageId) => result.storageIds.indexOf(storageId) === -1);
+        }
+
+        if (result.pendingStorageIds.length > 0) {
+            this.repairWrite(storageFilePath, containerOrBucketName, result);
+        }
+
+        return result;
+    }
+
+    /**
+     * Deletes the copies of a failed write. The copies replacing an earlier version are kept, as
+     * deleting them would remove the file from the storages that held it before the write. The
+     * storages where the delete fails keep holding the file too.
+     *
+     * @param storageFilePath The storage location for the file.
+     * @param containerOrBucketName The name of the container/bucket.
+     * @param result The result of the write, updated.
+     * @param replacedStorageIds The IDs of the storages that held the file before the write.
+     */
+    protected async rollBackWrite(storageFilePath: string, containerOrBucketName: string, result: WriteResult,
+        replacedStorageIds: string[]) {
+        const storageIdsToRollBack: string[] = result.storageIds.filter((storageId) => replacedStorageIds.indexOf(storageId) === -1);
+
+        result.storageIds.filter((storageId) => replacedStorageIds.indexOf(storageId) !== -1).forEach((storageId) =>
+            this.logger.warn('Keeping the new version of file "' + storageFilePath + '" in storage "' + storageId
+                + '" on the rollback, as it replaced an earlier version'));
+
+        let deleteErrors: StorageError[] = await Promise.all(storageIdsToRollBack.map((storageId) =>
+            this.storageClients.get(storageId).deleteFile(storageFilePath, containerOrBucketName)
+                .then(() => null, (error) => toStorageError(error || new Error('Delete failed'), storageFilePath))));
+
+        storageIdsToRollBack.forEach((storageId, index) => {
+            if (deleteErrors[index]) {
+                this.logger.error('Failed to roll back file "' + storageFilePath + '" in storage "' + storageId + '": '
+                    + deleteErrors[index]);
+            } else {
+                result.rolledBackStorageIds.push(storageId);
+            }
+        });
+
+        result.storageIds = result.storageIds.filter((storageId) => result.rolledBackStorageIds.indexOf(storageId) === -1);
+    }
+
+    /**
+     * Starts copying the file of a write to the pending storages of the result from the first
+     * storage holding it, or queues the copy, if a replication queue is set.
+     *
+     * @param storageFilePath The storage location for the file.
+     * @param containerOrBucketName The name of the container/bucket.
+     * @param result The result of the write, updated.
+     */
+    protected repairWrite(storageFilePath: string, containerOrBucketName: string, result: WriteResult) {
+        const sourceStorageId: string = result.storageIds[0];
+
+        if (this.replicationQueue !== null) {
+            result.repairQueued = true;
+            result.repair = this.replicationQueue.enqueue(storageFilePath, sourceStorageId, result.pendingStorageIds,
+                containerOrBucketName).then(() => null, (error) => toStorageError(error || new Error('Queueing the repair failed'),
+                    storageFilePath));
+            return;
+        }
+
+        result.repair = this.trackReplication(storageFilePath, containerOrBucketName, sourceStorageId, result.pendingStorageIds,
+            this.copyFileBetweenStorages(storageFilePath, sourceStorageId, result.pendingStorageIds, containerOrBucketName))
+            .then((copyErrors) => {
+                const copyError: StorageError = copyErrors.find((error) => !!error) || null;
+
+                this.invalidatePresence(storageFilePath, containerOrBucketName);
+
+                if (copyError) {
+                    this.logger.error('Failed to repair file "' + storageFilePath + '" in storages '
+                        + result.pendingStorageIds.join(', ') + ': ' + copyError);
+                }
+
+                return copyError;
+            }, (error) => toStorageError(error || new Error('Repair failed'), storageFilePath));
+    }
 
     /**
-     * @return True, if this instance is initialized. False otherwise.
+     * Queues copying the given file to the given storages, if a replication queue is set, or starts
+     * copying it. Nothing is copied, if the file has a tombstone and has not been written after the delete.
+     *
+     * @param storageFilePath The file/blob path in the storage.
+     * @param containerOrBucketName The name of the container/bucket.
+     * @param sourceStorageId The ID of the storage to copy the file from.
+     * @param targetStorageIds The IDs of the storages to copy the file to.
+     * @param lastModifiedTimes The last modified times of the copies of the file.
+     * @return The tombstone of the file, if not copied because of it. Null once the copy is queued or
+     * started. Rejected, if queueing fails or the tombstone cannot be checked.
      */
-    public isInitialized(): boolean {
-        return (this.azureBlobStorageClient.isInitialized() && this.awsS3Client.isInitialized());
+    protected async replicateMissingFile(storageFilePath: string, containerOrBucketName: string, sourceStorageId: string,
+        targetStorageIds: string[], lastModifiedTimes: Date[]): Promise<Tombstone> {
+        if (this.tombstoneStore !== null) {
+            // Replicating a file that may have been deleted could resurrect it
+            const tombstone: Tombstone = await this.findTombstone(storageFilePath, containerOrBucketName, lastModifiedTimes);
+
+            if (tombstone !== null) {
+                return tombstone;
+            }
+        }
+
+        if (this.replicationQueue !== null) {
+            await this.replicationQueue.enqueue(storageFilePath, sourceStorageId, targetStorageIds, containerOrBucketName);
+            return null;
+        }
+
+        this.trackReplication(storageFilePath, containerOrBucketName, sourceStorageId, targetStorageIds,
+            this.copyFileBetweenStorages(storageFilePath, sourceStorageId, targetStorageIds, containerOrBucketName))
+            .then((copyErrors) => {
+                const copyError: StorageError = copyErrors.find((error) => !!error) || null;
+
+                this.invalidatePresence(storageFilePath, containerOrBucketName);
+
+                if (copyError) {
+                    this.logger.error('Failed to replicate file "' + storageFilePath + '" to storages '
+                        + targetStorageIds.join(', ') + ': ' + copyError);
+                }
+            }, (error) => this.logger.error('Failed to replicate file "' + storageFilePath + '": ' + error));
+        return null;
     }
 
     /**
-     * Initializes the client.
+     * Retrieves the properties of the given file from every storage.
+     *
+     * @param storageFilePath The file/blob path in the storage.
+     * @param containerOrBucketName The name of the container/bucket.
+     * @return The properties by the IDs of the storages containing the file and the errors by the
+     * IDs of the storages where the presence of the file is unknown, both in the order of
+     * registration. Rejected with a NotFoundError, if the file was not found, or with the
+     * StorageError of a storage, if not found and the presence is unknown in that storage.
      */
-    public initialize(azureBlobStorageAccountName: string, azureBlobStorageAccessKey: string,
-        awsS3AccessKeyId: string, awsS3SecretAccessKey: string, awsS3Region: string,
-        defaultAzureBlobStorageContainerName?: string, defaultAwsS3BucketName?: string) {
-        this.azureBlobStorageClient = new AzureBlobStorageClient();
-        this.azureBlobStorageClient.initialize(azureBlobStorageAccountName, azureBlobStorageAccessKey, defaultAzureBlobStorageContainerName);
+    protected async getFilePropertiesByStorage(storageFilePath: string, containerOrBucketName?: string): Promise<{
+        filePropertiesByStorage: Map<string, StorageFileProperties>, errorsByStorage: Map<string, StorageError> }> {
+        let storageIds: string[] = this.getStorageIds();
+
+        let filePropertiesResults: SettledResult<StorageFileProperties>[] = await settleAll(storageIds.map((storageId) =>
+            this.measureLatency(storageId, StorageOperation.GetFileProperties, () =>
+                this.storageClients.get(storageId).getFileProperties(storageFilePath, containerOrBucketName))));
+
+        let filePropertiesByStorage: Map<string, StorageFileProperties> = new Map<string, StorageFileProperties>();
+        let errorsByStorage: Map<string, StorageError> = new Map<string, StorageError>();
+
+        storageIds.forEach((storageId, index) => {
+            if (!filePropertiesResults[index].error) {
+                filePropertiesByStorage.set(storageId, filePropertiesResults[index].value);
+                return;
+            }
 
-        this.awsS3Client = new AwsS3Client();
-        this.awsS3Client.initialize(awsS3AccessKeyId, awsS3SecretAccessKey, awsS3Region, defaultAwsS3BucketName);
+            const error: StorageError = toStorageError(filePropertiesResults[index].error, storageFilePath);
+
+            if (!isNotFoundError(error)) {
+                errorsByStorage.set(storageId, error);
+            }
+        });
+
+        if (filePropertiesByStorage.size === 0) {
+            throw (errorsByStorage.size > 0 ? errorsByStorage.values().next().value : createNotFoundError(storageFilePath));
+        }
+
+        return { filePropertiesByStorage: filePropertiesByStorage, errorsByStorage: errorsByStorage };
     }
 
     /**
-     * Checks if a file with the given name exists in the given container/bucket.
-     * 
-     * @param storageFilePath The path of the file to check including the file name.
-     * @param containerName The name of the Azure Blob Storage container. If the container name
-     * and the S3 bucket name are the same, you only need to provide this one.
-     * @param bucketName The name of the S3 bucket.
-     * @return The type(s) of the storage(s) containing the file or StorageType.Undefined if not found.
+     * Starts reading the given file and streaming it to the storages missing it. If the copies of the
+     * file differ between the storages, the conflict resolution policy selects the copy to read and
+     * the stale copies to overwrite. If the file has a tombstone, it is deleted from the storages
+     * still holding it instead.
+     *
+     * @param storageFilePath The file/blob path in the storage.
+     * @param containerOrBucketName The name of the container/bucket.
+     * @return The stream and the state of the replication. Rejected with a NotFoundError, if the
+     * file was not found or has a tombstone.
      */
-    public async storagesContainingFile(storageFilePath: string, containerName?: string, bucketName?: string): Promise<StorageType> {
-        containerName = containerName || this.azureBlobStorageClient.getDefaultContainerName();
-        bucketName = bucketName || this.awsS3Client.getDefaultBucketName() || containerName;
-        let result: StorageType = StorageType.Undefined;
+    protected async createReplicatingReadStream(storageFilePath: string,
+        containerOrBucketName?: string): Promise<ReplicatingReadStream> {
+        let { filePropertiesByStorage, errorsByStorage } =
+            await this.getFilePropertiesByStorage(storageFilePath, containerOrBucketName);
+        let unknownStorageIds: string[] = Array.from(errorsByStorage.keys());
 
-        var [fileExistsBlob, fileExistsAws] = await Promise.all([
-            await this.azureBlobStorageClient.fileExists(storageFilePath, containerName),
-            await this.awsS3Client.fileExists(storageFilePath, bucketName)
-        ]);
+        unknownStorageIds.forEach((storageId) => {
+            this.logger.warn('Failed to check file "' + storageFilePath + '" in storage "' + storageId + '": '
+                + errorsByStorage.get(storageId));
+        });
+
+        let conflictResolution: ConflictResolution = resolveConflict(this.conflictResolutionPolicy, filePropertiesByStorage);
+        // Only the winning copy is read, if the copies differ
+        let sourceStorageIds: string[] = (conflictResolution ? [conflictResolution.winningStorageId] :
+            this.readPreference.orderStorageIds(Array.from(filePropertiesByStorage.keys()), storageFilePath, containerOrBucketName));
+        // The file is not replicated to the storages that may already have it
+        let targetStorageIds: string[] = this.getStorageIds().filter((storageId) =>
+            (!filePropertiesByStorage.has(storageId) && !errorsByStorage.has(storageId))
+            || (conflictResolution && conflictResolution.repairedStorageIds.indexOf(storageId) !== -1));
+
+        if (this.tombstoneStore !== null && targetStorageIds.length > 0) {
+            let tombstone: Tombstone = null;
+
+            try {
+                tombstone = await this.findTombstone(storageFilePath, containerOrBucketName,
+                    Array.from(filePropertiesByStorage.values()).map((fileProperties) => fileProperties.lastModified));
+            } catch (error) {
+                // Replicating a file that may have been deleted could resurrect it
+                this.logger.warn('Failed to check the tombstone of file "' + storageFilePath + '": ' + error);
+                targetStorageIds = [];
+            }
+
+            if (tombstone !== null) {
+                await this.propagateDelete(storageFilePath, Array.from(filePropertiesByStorage.keys()), containerOrBucketName);
+                throw new NotFoundError('File deleted: ' + storageFilePath, storageFilePath);
+            }
+        }
+
+        let sourceStorageId: string = null;
+        let sourceStream: Readable = await this.readWithFallback(storageFilePath, sourceStorageIds, (storageId) => {
+            sourceStorageId = storageId;
+            return this.measureRequest(storageId, StorageOperation.Download, () =>
+                this.storageClients.get(storageId).downloadFileAsStream(storageFilePath, containerOrBucketName));
+        });
 
-        if (fileExistsBlob) {
-            result |= StorageType.AzureBlobStorage;
+        if (this.replicationQueue !== null && targetStorageIds.length > 0) {
+            return {
+                stream: sourceStream,
+                sourceStorageId: sourceStorageId,
+                fileProperties: filePropertiesByStorage.get(sourceStorageId),
+                targetStorageIds: targetStorageIds,
+                unknownStorageIds: unknownStorageIds,
+                conflictResolution: conflictResolution,
+                replicationQueued: true,
+                replication: this.replicationQueue.enqueue(storageFilePath, sourceStorageId, targetStorageIds,
+                    containerOrBucketName).then(() => null, (error) => toStorageError(error || new Error('Queueing the replication failed'),
+                        storageFilePath))
+            };
         }
 
-        if (fileExistsAws) {
-            result |= StorageType.AwsS3;
+        // The large files are copied separately, so that an interrupted copy can be resumed
+        if (targetStorageIds.length > 0 && this.isStagedCopy(filePropertiesByStorage.get(sourceStorageId))) {
+            return {
+                stream: sourceStream,
+                sourceStorageId: sourceStorageId,
+                fileProperties: filePropertiesByStorage.get(sourceStorageId),
+                targetStorageIds: targetStorageIds,
+                unknownStorageIds: unknownStorageIds,
+                conflictResolution: conflictResolution,
+                replicationQueued: false,
+                replication: this.trackReplication(storageFilePath, containerOrBucketName, sourceStorageId, targetStorageIds,
+                    this.copyFileThroughStagingDirectory(storageFilePath, sourceStorageId, filePropertiesByStorage.get(sourceStorageId),
+                        targetStorageIds, containerOrBucketName)
+                        .then((errors) => this.refetchMismatchedCopies(errors, storageFilePath, sourceStorageId, targetStorageIds,
+                            containerOrBucketName)))
+                    .then((errors) => errors.find((error) => !!error) || null)
+            };
         }
 
-        return result;
+        let { stream, replicationErrors } = this.replicateStream(sourceStream, sourceStorageId, storageFilePath, targetStorageIds,
+            filePropertiesByStorage.get(sourceStorageId), containerOrBucketName);
+
+        return {
+            stream: stream,
+            sourceStorageId: sourceStorageId,
+            fileProperties: filePropertiesByStorage.get(sourceStorageId),
+            targetStorageIds: targetStorageIds,
+            unknownStorageIds: unknownStorageIds,
+            conflictResolution: conflictResolution,
+            replicationQueued: false,
+            replication: this.trackReplication(storageFilePath, containerOrBucketName, sourceStorageId, targetStorageIds,
+                replicationErrors.then((errors) => this.refetchMismatchedCopies(errors, storageFilePath, sourceStorageId,
+                    targetStorageIds, containerOrBucketName)))
+                .then((errors) => errors.find((error) => !!error) || null)
+        };
     }
 
     /**
-     * Checks if a file with the given name exists in the given container/bucket.
-     * 
-     * @param storageFilePath The path of the file to check including the file name.
-     * @param containerName The name of the Azure Blob Storage container. If the container name
-     * and the S3 bucket name are the same, you only need to provide this one.
-     * @param bucketName The name of the S3 bucket.
-     * @return True, if found. False otherwise.
+     * Streams the content of the given stream to the given storages. The content is checked against
+     * the size and the MD5 hash of the source, and each copy against the content streamed.
+     *
+     * @param sourceStream The stream providing the content of the file.
+     * @param sourceStorageId The ID of the storage the content is read from.
+     * @param storageFilePath The file/blob path in the storage.
+     * @param targetStorageIds The IDs of the storages to replicate the file to.
+     * @param fileProperties The properties of the file in the source storage. The metadata is carried over.
+     * @param containerOrBucketName The name of the container/bucket.
+     * @return A stream providing the same content (to be consumed or resumed by the caller) and the
+     * errors of the uploads in the order of the target storage IDs (null for each successful upload).
+     * The stream fails with a ChecksumMismatchError, if the content does not match the source.
      */
-    public async fileExists(storageFilePath: string, containerName?: string, bucketName?: string): Promise<boolean> {
-        return (await this.storagesContainingFile(storageFilePath, containerName, bucketName) != StorageType.Undefined);
+    protected replicateStream(sourceStream: Readable, sourceStorageId: string, storageFilePath: string, targetStorageIds: string[],
+        fileProperties: StorageFileProperties,
+        containerOrBucketName?: string): { stream: Readable, replicationErrors: Promise<StorageError[]> } {
+        const checksumStream: ChecksumStream = verifyStream(sourceStream, storageFilePath, () => fileProperties);
+        let [stream, ...replicaStreams] = teeStream(checksumStream, targetStorageIds.length + 1);
+        // Carry the content type, cache control etc. of the source over to the replicas
+        let metadata: StorageFileMetadata = toStorageFileMetadata(fileProperties);
+
+        let replicationErrors: Promise<StorageError>[] = targetStorageIds.map((storageId, index) =>
+            this.measureRequest(storageId, StorageOperation.Replicate, () =>
+                this.storageClients.get(storageId).uploadStream(replicaStreams[index], storageFilePath, containerOrBucketName, metadata)
+                    .then(() => this.verifyCopy(storageId, storageFilePath,
+                        { size: checksumStream.size, contentMD5: checksumStream.checksum }, containerOrBucketName)))
+                .then(() => {
+                    this.metrics.recordReplicatedBytes(sourceStorageId, storageId, checksumStream.size);
+                    return null;
+                }, (error) => {
+                    // Do not stall the caller
+                    replicaStreams[index].resume();
+                    return toStorageError(error || new Error('Replication failed'), storageFilePath);
+                }));
+
+        return {
+            stream: stream,
+            replicationErrors: Promise.all(replicationErrors).then((errors) => {
+                this.invalidatePresence(storageFilePath, containerOrBucketName);
+                return errors;
+            })
+        };
     }
 
     /**
-     * Lists the blobs/files in the storages matching the given prefix.
-     * Note that this is can be an expensive method to call!
-     * 
-     * @param storageFileNamePrefix The prefix of the names of the storage blobs/files to list.
-     * @param containerName The name of the Azure Blob Storage container.
-     * @param bucketName The name of the AWS S3 bucket.
-     * @return A 2-tuple, where blobs found in Azure Blob Storage are first and files found in AWS S3 second.
+     * Checks the given file and copies it to the storages missing it, if requested. The results
+     * are added to the given report. Never rejected.
+     *
+     * @param entry The merged listing entry of the file.
+     * @param storageIds The IDs of the storages being reconciled.
+     * @param containerOrBucketName The name of the container/bucket.
+     * @param options The reconciliation options.
+     * @param report The report to update.
      */
-    public async listFilesWithPrefix(storageFileNamePrefix: string, containerName?: string, bucketName?: string): Promise<any> {
-        containerName = containerName || this.azureBlobStorageClient.getDefaultContainerName();
-        bucketName = bucketName || this.awsS3Client.getDefaultBucketName() || containerName;
-        var blobsFoundInAzureBlobStorage = null;
+    protected async reconcileFile(entry: MergedListEntry, storageIds: string[], containerOrBucketName: string,
+        options: ReconciliationOptions, report: ReconciliationReport) {
+        let summary = report.summary;
+        let missingStorageIds: string[] = storageIds.filter((storageId) => entry.storageIds.indexOf(storageId) === -1);
+        summary.filesChecked++;
+
+        missingStorageIds.forEach((storageId) => report.missingFilesByStorage[storageId].push(entry.name));
+
+        if (missingStorageIds.length > 0) {
+            summary.filesMissing++;
+        }
 
         try {
-            blobsFoundInAzureBlobStorage =
-                await this.azureBlobStorageClient.listFilesWithPrefix(storageFileNamePrefix, containerName);
+            let filePropertiesByStorage: { [storageId: string]: StorageFileProperties } = {};
+            let mismatchReason: MismatchReason = null;
+
+            entry.storageIds.forEach((storageId) => {
+                const storageEntry: StorageListEntry = entry.entriesByStorage[storageId];
+                filePropertiesByStorage[storageId] = { size: storageEntry.size, lastModified: storageEntry.lastModified };
+
+                if (storageEntry.size !== entry.size) {
+                    mismatchReason = MismatchReason.Size;
+                }
+            });
+
+            if (mismatchReason === null && options.compareHashes && entry.storageIds.length > 1) {
+                const filePropertiesList: StorageFileProperties[] = await Promise.all(entry.storageIds.map((storageId) =>
+                    this.storageClients.get(storageId).getFileProperties(entry.name, containerOrBucketName)));
+
+                entry.storageIds.forEach((storageId, index) => {
+                    filePropertiesByStorage[storageId] = filePropertiesList[index];
+
+                    if (!filePropertiesMatch(filePropertiesList[index], filePropertiesList[0])) {
+                        mismatchReason = MismatchReason.Hash;
+                    }
+                });
+            }
+
+            if (mismatchReason !== null) {
+                summary.filesMismatched++;
+
+                report.mismatches.push({
+                    name: entry.name,
+                    reason: mismatchReason,
+                    filePropertiesByStorage: filePropertiesByStorage
+                });
+            }
         } catch (error) {
-            console.error('Failed to list files in Azure Blob Storage: ' + error);
+            summary.failures++;
+            report.failures.push({ name: entry.name, error: error });
+        }
+
+        if (!options.copyMissingFiles || missingStorageIds.length === 0) {
+            return;
         }
 
-        const filesFoundInS3 = await this.awsS3Client.listFilesWithPrefix(storageFileNamePrefix, bucketName);
+        if (this.tombstoneStore !== null) {
+            let tombstone: Tombstone = null;
 
-        return {
-            blobsFoundInAzureBlobStorage,
-            filesFoundInS3
+            try {
+                tombstone = await this.findTombstone(entry.name, containerOrBucketName,
+                    entry.storageIds.map((storageId) => entry.entriesByStorage[storageId].lastModified));
+            } catch (error) {
+                summary.failures++;
+                report.failures.push({ name: entry.name, error: error });
+                return;
+            }
+
+            if (tombstone !== null) {
+                await this.reconcileDeletedFile(entry, tombstone, containerOrBucketName, options, report);
+                return;
+            }
+        }
+
+        let fileCopy: FileCopy = {
+            name: entry.name,
+            sourceStorageId: entry.storageIds[0],
+            targetStorageIds: missingStorageIds,
+            errorsByStorage: {}
         };
+
+        report.copies.push(fileCopy);
+
+        if (options.dryRun) {
+            return;
+        }
+
+        let copyErrors: StorageError[] = await this.trackReplication(entry.name, containerOrBucketName, fileCopy.sourceStorageId,
+            missingStorageIds, this.copyFileBetweenStorages(entry.name, fileCopy.sourceStorageId, missingStorageIds, containerOrBucketName));
+
+        copyErrors.forEach((error, index) => {
+            if (error) {
+                fileCopy.errorsByStorage[missingStorageIds[index]] = error;
+            }
+        });
+
+        if (Object.keys(fileCopy.errorsByStorage).length === 0) {
+            summary.filesCopied++;
+        } else {
+            summary.copyFailures++;
+        }
     }
 
     /**
-     * Lists the names of the blobs/files in the storages matching the given prefix.
-     * Note that this is can be an expensive method to call!
-     * 
-     * @param storageFileNamePrefix The prefix of the storage blob/file names to list.
-     * @param containerName The name of the Azure Blob Storage container.
-     * @param bucketName The name of the AWS S3 bucket.
-     * @return The list of file names in a string array.
+     * Deletes the given file with a tombstone from the storages still holding it. The results are
+     * added to the given report. Never rejected.
+     *
+     * @param entry The merged listing entry of the file.
+     * @param tombstone The tombstone of the file.
+     * @param containerOrBucketName The name of the container/bucket.
+     * @param options The reconciliation options.
+     * @param report The report to update.
+     */
+    protected async reconcileDeletedFile(entry: MergedListEntry, tombstone: Tombstone, containerOrBucketName: string,
+        options: ReconciliationOptions, report: ReconciliationReport) {
+        let fileDeletion: FileDeletion = {
+            name: entry.name,
+            storageIds: entry.storageIds.slice(),
+            deletedTime: tombstone.deletedTime,
+            errorsByStorage: {}
+        };
+
+        report.deletions.push(fileDeletion);
+
+        if (options.dryRun) {
+            return;
+        }
+
+        fileDeletion.errorsByStorage = await this.propagateDelete(entry.name, fileDeletion.storageIds, containerOrBucketName);
+
+        if (Object.keys(fileDeletion.errorsByStorage).length === 0) {
+            report.summary.filesDeleted++;
+        } else {
+            report.summary.deleteFailures++;
+        }
+    }
+
+    /**
+     * Verifies the copies of the given file. The results are added to the given report. Never rejected.
+     *
+     * @param entry The merged listing entry of the file.
+     * @param containerOrBucketName The name of the container/bucket.
+     * @param options The verification options.
+     * @param report The report to update.
      */
-    public async listFileNamesWithPrefix(storageFileNamePrefix: string, containerName?: string, bucketName?: string): Promise<string[]> {
-        containerName = containerName || this.azureBlobStorageClient.getDefaultContainerName();
-        bucketName = bucketName || this.awsS3Client.getDefaultBucketName() || containerName;
-        let fileNames: string[] = [];
+    protected async verifyFile(entry: MergedListEntry, containerOrBucketName: string, options: VerificationOptions,
+        report: VerificationReport) {
+        let summary = report.summary;
+        let checksums: string[] = null;
+        summary.filesChecked++;
 
         try {
-            fileNames = await this.azureBlobStorageClient.listFileNamesWithPrefix(storageFileNamePrefix, containerName);
+            checksums = await Promise.all(entry.storageIds.map((storageId) =>
+                this.computeCopyChecksum(storageId, entry.name, report.algorithm, containerOrBucketName).catch((error) => {
+                    // A copy not matching the hash stored with it
+                    if (toStorageError(error).code === StorageErrorCode.ChecksumMismatch) {
+                        return null;
+                    }
+
+                    throw error;
+                })));
         } catch (error) {
-            console.error('Failed to list file names in Azure Blob Storage: ' + error);
+            summary.failures++;
+            report.failures.push({ name: entry.name, error: error });
+            return;
+        }
+
+        let intactChecksums: Set<string> = new Set<string>(checksums.filter((checksum) => checksum !== null));
+        let mismatch: ChecksumMismatch = {
+            name: entry.name,
+            checksumsByStorage: {},
+            corruptStorageIds: entry.storageIds.filter((storageId, index) => checksums[index] === null),
+            repairedStorageIds: [],
+            repairErrorsByStorage: {}
+        };
+
+        if (intactChecksums.size <= 1 && mismatch.corruptStorageIds.length === 0) {
+            return;
+        }
+
+        entry.storageIds.forEach((storageId, index) => mismatch.checksumsByStorage[storageId] = checksums[index]);
+        summary.filesMismatched++;
+        summary.corruptCopies += mismatch.corruptStorageIds.length;
+        report.mismatches.push(mismatch);
+
+        // Without a single intact version, it is unknown which one to copy
+        if (!options.repairCorruptCopies || mismatch.corruptStorageIds.length === 0 || intactChecksums.size !== 1) {
+            return;
         }
 
-        fileNames.concat(await this.awsS3Client.listFileNamesWithPrefix(storageFileNamePrefix, bucketName));
-        return fileNames;
+        const sourceStorageId: string = entry.storageIds.find((storageId, index) => checksums[index] !== null);
+        let copyErrors: StorageError[] = await this.copyFileBetweenStorages(entry.name, sourceStorageId, mismatch.corruptStorageIds,
+            containerOrBucketName);
+
+        mismatch.corruptStorageIds.forEach((storageId, index) => {
+            if (copyErrors[index]) {
+                mismatch.repairErrorsByStorage[storageId] = copyErrors[index];
+            } else {
+                mismatch.repairedStorageIds.push(storageId);
+            }
+        });
+
+        summary.copiesRepaired += mismatch.repairedStorageIds.length;
+    }
+
+    /**
+     * Downloads the copy of the given file in the given storage and computes its checksum.
+     *
+     * @param storageId The ID of the storage holding the copy.
+     * @param storageFilePath The file/blob path in the storage.
+     * @param algorithm The checksum algorithm.
+     * @param containerOrBucketName The name of the container/bucket.
+     * @return The base64 encoded checksum. Rejected with a ChecksumMismatchError, if the storage
+     * client finds that the content does not match the hash stored with it.
+     */
+    protected async computeCopyChecksum(storageId: string, storageFilePath: string, algorithm: ChecksumAlgorithm,
+        containerOrBucketName?: string): Promise<string> {
+        const readStream: Readable = await this.storageClients.get(storageId).downloadFileAsStream(storageFilePath, containerOrBucketName);
+        const checksumStream: ChecksumStream = new ChecksumStream(storageFilePath, algorithm);
+
+        return new Promise<string>(function(resolve, reject) {
+            readStream.on('error', (error) => {
+                reject(error);
+            });
+
+            readStream.pipe(checksumStream).on('error', (error) => {
+                reject(error);
+            }).on('end', () => {
+                resolve(checksumStream.checksum);
+            }).resume();
+        });
     }
 
+    /**
+     * Wraps the data key of each copy of the given file with the active master key, unless it already is.
+     *
+     * @param entry The merged listing entry of the file.
+     * @param containerOrBucketName The name of the container/bucket.
+     * @param report The report, updated.
+     */
+    protected async rotateFileKeys(entry: MergedListEntry, containerOrBucketName: string, report: KeyRotationReport) {
+        report.summary.filesChecked++;
+
+        await Promise.all(entry.storageIds.map(async (storageId) => {
+            const storageClient: IStorageClient = this.storageClients.get(storageId);
+
+            try {
+                const fileProperties: StorageFileProperties = await storageClient.getFileProperties(entry.name, containerOrBucketName);
+                const userMetadata: { [key: string]: string } = this.encryption.rewrapDataKey(fileProperties.userMetadata || {}, entry.name);
+
+                if (userMetadata !== null) {
+                    await setUserMetadata(storageClient, entry.name, userMetadata, containerOrBucketName, fileProperties.etag);
+                    report.summary.copiesRewrapped++;
+                }
+            } catch (error) {
+                this.logger.error('Failed to rotate the key of file "' + entry.name + '" in storage "' + storageId + '": ' + error);
+                report.summary.failures++;
+                report.failures.push({ name: entry.name, storageId: storageId, error: toStorageError(error, entry.name) });
+            }
+        }));
+    }
 
     /**
-     * Downloads the given file from the storage. If the file exists only one of the storages,
-     * it will be replicated to the one where it's missing.
-     * 
+     * Retrieves the tombstone of the given file and checks that none of the copies of the file has
+     * been written after the delete, i.e. the file has not been uploaded again. The copies modified
+     * within the maximum clock skew of the store after the delete count as written before it.
+     *
      * @param storageFilePath The file/blob path in the storage.
-     * @param localFilePath The desired local path for the file.
-     * @param containerName The name of the Azure Blob Storage container.
-     * @param bucketName The name of the S3 bucket.
-     * @return Null, if successful. An error otherwise.
+     * @param containerOrBucketName The name of the container/bucket.
+     * @param lastModifiedTimes The last modified times of the copies of the file. Unknown times are
+     * considered to be before the delete.
+     * @return The tombstone or null, if the file has no tombstone or has been written after the delete.
      */
-    public async downloadFileToDiskAndReplicateIfNecessary(storageFilePath: string, localFilePath:
-        string, containerName?: string, bucketName?: string): Promise<any> {
-        containerName = containerName || this.azureBlobStorageClient.getDefaultContainerName();
-        bucketName = bucketName || this.awsS3Client.getDefaultBucketName() || containerName;
-        let storagesContainingFile: StorageType = await this.storagesContainingFile(storageFilePath, containerName, bucketName);
-        var result = null;
+    protected async findTombstone(storageFilePath: string, containerOrBucketName: string,
+        lastModifiedTimes: Date[]): Promise<Tombstone> {
+        let tombstone: Tombstone = await this.tombstoneStore.getTombstone(storageFilePath, containerOrBucketName);
 
-        try {
-            if (storagesContainingFile === StorageType.Undefined) {
-                // File not found
-                result = ERROR_CODE_NOT_FOUND;
-            } else if (storagesContainingFile === (StorageType.AzureBlobStorage | StorageType.AwsS3)) {
-                // File is already stored in both storages
-                await this.azureBlobStorageClient.downloadFileToDisk(storageFilePath, localFilePath, containerName);
-            } else if (storagesContainingFile === StorageType.AzureBlobStorage) {
-                // File only in Azure
-                await this.azureBlobStorageClient.downloadFileToDisk(storageFilePath, localFilePath, containerName);
-                await this.awsS3Client.uploadFile(localFilePath, storageFilePath, bucketName);
-            } else if (storagesContainingFile === StorageType.AwsS3) {
-                // File only in S3
-                await this.awsS3Client.downloadFileToDisk(storageFilePath, localFilePath, bucketName);
-                await this.azureBlobStorageClient.uploadFile(localFilePath, storageFilePath, containerName);
+        if (tombstone === null || lastModifiedTimes.some((lastModified) =>
+            !!lastModified && this.tombstoneStore.isWrittenAfter(tombstone, lastModified))) {
+            return null;
+        }
+
+        return tombstone;
+    }
+
+    /**
+     * Copies or moves the given file within each storage holding it.
+     *
+     * @param sourceStorageFilePath The path/key of the file.
+     * @param targetStorageFilePath The path/key of the copy.
+     * @param containerOrBucketName The name of the container/bucket.
+     * @param targetContainerOrBucketName The name of the container/bucket of the copy.
+     * @param move True to move the file, false to copy it.
+     * @return The IDs of the storages where the file was copied or moved. Rejected as copyFile().
+     */
+    protected async copyOrMoveFile(sourceStorageFilePath: string, targetStorageFilePath: string, containerOrBucketName: string,
+        targetContainerOrBucketName: string, move: boolean): Promise<Set<string>> {
+        const operation: StorageOperation = (move ? StorageOperation.Move : StorageOperation.Copy);
+        let result: StorageError = null;
+
+        checkCopyTarget(sourceStorageFilePath, targetStorageFilePath, containerOrBucketName, targetContainerOrBucketName);
+
+        const sourceStorageIds: string[] = await this.findSourceStorageIds(sourceStorageFilePath, containerOrBucketName);
+        const storageIdsToUse: string[] = this.getStorageIds().filter((storageId) => sourceStorageIds.indexOf(storageId) !== -1);
+
+        let copyResults: SettledResult<any>[] = await settleAll(storageIdsToUse.map((storageId) =>
+            this.measureRequest(storageId, operation, () => (move ?
+                this.storageClients.get(storageId).moveFile(sourceStorageFilePath, targetStorageFilePath, containerOrBucketName,
+                    targetContainerOrBucketName) :
+                this.storageClients.get(storageId).copyFile(sourceStorageFilePath, targetStorageFilePath, containerOrBucketName,
+                    targetContainerOrBucketName)))));
+        const storageIds: string[] = storageIdsToUse.filter((storageId, index) => !copyResults[index].error);
+
+        storageIdsToUse.forEach((storageId, index) => {
+            if (copyResults[index].error) {
+                result = toStorageError(copyResults[index].error, sourceStorageFilePath);
+                this.logger.error('Failed to ' + operation + ' file "' + sourceStorageFilePath + '" to "' + targetStorageFilePath
+                    + '" in storage "' + storageId + '": ' + result);
+            }
+        });
+
+        this.invalidatePresence(targetStorageFilePath, targetContainerOrBucketName);
+
+        if (this.tombstoneStore !== null && storageIds.length > 0) {
+            try {
+                await this.tombstoneStore.removeTombstone(targetStorageFilePath, targetContainerOrBucketName);
+            } catch (error) {
+                this.logger.error('Failed to remove the tombstone of file "' + targetStorageFilePath + '": ' + error);
+            }
+
+            if (move) {
+                try {
+                    await this.tombstoneStore.addTombstone(sourceStorageFilePath, containerOrBucketName);
+                } catch (error) {
+                    this.logger.error('Failed to record the tombstone of moved file "' + sourceStorageFilePath + '": ' + error);
+                }
             }
-        } catch (error) {
-            result = error;
         }
 
-        return result;
+        if (move) {
+            this.invalidatePresence(sourceStorageFilePath, containerOrBucketName);
+            this.emitDeletedEvent(sourceStorageFilePath, containerOrBucketName, storageIds);
+        }
+
+        if (result !== null) {
+            throw result;
+        }
+
+        return new Set<string>(storageIds);
     }
 
     /**
-     * Downloads the given file.
-     * 
+     * Deletes the given file with a tombstone from the given storages.
+     *
      * @param storageFilePath The file/blob path in the storage.
-     * @param containerName The name of the Azure Blob Storage container.
-     * @param bucketName The name of the S3 bucket.
-     * @return Null, if successful. An error otherwise.
+     * @param storageIds The IDs of the storages still holding the file.
+     * @param containerOrBucketName The name of the container/bucket.
+     * @return The errors by the IDs of the storages where deleting the file failed.
      */
-    public async downloadFile(storageFilePath: string, containerName?: string, bucketName?: string): Promise<any> {
-        containerName = containerName || this.azureBlobStorageClient.getDefaultContainerName();
-        bucketName = bucketName || this.awsS3Client.getDefaultBucketName() || containerName;
-        let storagesContainingFile: StorageType = await this.storagesContainingFile(storageFilePath, containerName, bucketName);
-        var result = null;
+    protected async propagateDelete(storageFilePath: string, storageIds: string[],
+        containerOrBucketName?: string): Promise<{ [storageId: string]: StorageError }> {
+        let errorsByStorage: { [storageId: string]: StorageError } = {};
 
-        try {
-            if (storagesContainingFile === StorageType.Undefined) {
-                result = ERROR_CODE_NOT_FOUND;
-            } else if (storagesContainingFile & StorageType.AzureBlobStorage) {
-                result = await this.azureBlobStorageClient.downloadFile(storageFilePath, containerName);
-            } else if (storagesContainingFile & StorageType.AwsS3) {
-                result = await this.awsS3Client.downloadFile(storageFilePath, bucketName);
+        let deleteResults: SettledResult<void>[] = await settleAll(storageIds.map((storageId) =>
+            this.measureRequest(storageId, StorageOperation.Delete, () =>
+                this.storageClients.get(storageId).deleteFile(storageFilePath, containerOrBucketName))));
+
+        this.invalidatePresence(storageFilePath, containerOrBucketName);
+        this.emitDeletedEvent(storageFilePath, containerOrBucketName, storageIds.filter((storageId, index) => !deleteResults[index].error));
+
+        storageIds.forEach((storageId, index) => {
+            if (deleteResults[index].error) {
+                errorsByStorage[storageId] = toStorageError(deleteResults[index].error, storageFilePath);
+                this.logger.error('Failed to delete file "' + storageFilePath + '" with a tombstone from storage "'
+                    + storageId + '": ' + errorsByStorage[storageId]);
             }
-        } catch (error) {
-            result = error;
-        }
+        });
 
-        return result;
+        return errorsByStorage;
     }
 
     /**
-     * Downloads the given file to disk.
-     * 
+     * Copies the given file including its metadata from the source storage to the target storages.
+     * The target storages able to copy from a URL copy the file on the server side, if the source
+     * storage creates URLs, e.g. Azure copying from a presigned S3 URL. The file is streamed
+     * through this client to the other target storages and the ones where the server-side copy failed.
+     *
      * @param storageFilePath The file/blob path in the storage.
-     * @param localFilePath The desired local path for the file.
-     * @param containerName The name of the Azure Blob Storage container.
-     * @param bucketName The name of the S3 bucket.
-     * @return Null, if successful. An error otherwise.
+     * @param sourceStorageId The ID of the storage to copy the file from.
+     * @param targetStorageIds The IDs of the storages to copy the file to.
+     * @param containerOrBucketName The name of the container/bucket.
+     * @param refetchMismatchedCopies If false, the copies not matching the source are not copied again.
+     * @return The errors in the order of the target storage IDs (null for each successful copy).
      */
-    public async downloadFileToDisk(storageFilePath: string, localFilePath: string, containerName?: string, bucketName?: string): Promise<any> {
-        containerName = containerName || this.azureBlobStorageClient.getDefaultContainerName();
-        bucketName = bucketName || this.awsS3Client.getDefaultBucketName() || containerName;
-        let storagesContainingFile: StorageType = await this.storagesContainingFile(storageFilePath, containerName, bucketName);
-        var result = null;
+    protected async copyFileBetweenStorages(storageFilePath: string, sourceStorageId: string,
+        targetStorageIds: string[], containerOrBucketName?: string, refetchMismatchedCopies: boolean = true): Promise<StorageError[]> {
+        let sourceStorageClient: IStorageClient = this.storageClients.get(sourceStorageId);
+        let sourceStream: Readable = null;
+        let fileProperties: StorageFileProperties = null;
+        let streamedStorageIds: string[] = targetStorageIds;
+        let streamErrors: StorageError[] = null;
 
         try {
-            if (storagesContainingFile === StorageType.Undefined) {
-                result = ERROR_CODE_NOT_FOUND;
-            } else if (storagesContainingFile & StorageType.AzureBlobStorage) {
-                await this.azureBlobStorageClient.downloadFileToDisk(storageFilePath, localFilePath, containerName);
-            } else if (storagesContainingFile & StorageType.AwsS3) {
-                await this.awsS3Client.downloadFileToDisk(storageFilePath, localFilePath, bucketName);
+            fileProperties = await sourceStorageClient.getFileProperties(storageFilePath, containerOrBucketName);
+            const copiedStorageIds: string[] = await this.copyFileFromUrl(storageFilePath, sourceStorageId, fileProperties,
+                targetStorageIds, containerOrBucketName);
+
+            streamedStorageIds = targetStorageIds.filter((storageId) => copiedStorageIds.indexOf(storageId) === -1);
+
+            if (streamedStorageIds.length === 0) {
+                streamErrors = [];
+            } else if (this.isStagedCopy(fileProperties)) {
+                streamErrors = await this.copyFileThroughStagingDirectory(storageFilePath, sourceStorageId, fileProperties,
+                    streamedStorageIds, containerOrBucketName);
+            } else {
+                sourceStream = await sourceStorageClient.downloadFileAsStream(storageFilePath, containerOrBucketName);
             }
         } catch (error) {
-            result = error;
+            const storageError: StorageError = toStorageError(error, storageFilePath);
+            streamErrors = streamedStorageIds.map(() => storageError);
         }
 
-        return result;
+        if (streamErrors === null) {
+            let { stream, replicationErrors } = this.replicateStream(sourceStream, sourceStorageId, storageFilePath, streamedStorageIds,
+                fileProperties, containerOrBucketName);
+
+            // Nobody reads the content
+            stream.resume();
+            streamErrors = await replicationErrors;
+        }
+
+        const copyErrors: StorageError[] = targetStorageIds.map((storageId) => {
+            const streamIndex: number = streamedStorageIds.indexOf(storageId);
+            return (streamIndex === -1 ? null : streamErrors[streamIndex]);
+        });
+
+        return (refetchMismatchedCopies ? this.refetchMismatchedCopies(copyErrors, storageFilePath, sourceStorageId,
+            targetStorageIds, containerOrBucketName) : copyErrors);
     }
 
     /**
-     * Uploads the given file to the given storage(s).
-     * 
-     * @param localFilePath The local file path of the file to upload.
-     * @param storageFilePath The storage location for the file.
-     * @param storageToUse The storage(s) to upload the file to.
-     * @param containerName The name of the Azure Blob Storage container.
-     * @param bucketName The name of the S3 bucket.
-     * @param contentType The content type of the file.
-     * @return The storages where the file was successfully uploaded.
+     * Copies the given file on the server side to the target storages able to copy from a URL, if
+     * the source storage creates URLs. The copies are checked against the source. The failures
+     * are logged as warnings, as the file is streamed to those storages instead. Never rejected.
+     *
+     * @param storageFilePath The file/blob path in the storage.
+     * @param sourceStorageId The ID of the storage to copy the file from.
+     * @param fileProperties The properties of the file in the source storage. The metadata is carried over.
+     * @param targetStorageIds The IDs of the storages to copy the file to.
+     * @param containerOrBucketName The name of the container/bucket.
+     * @return The IDs of the target storages where the file was copied.
      */
-    public async uploadFileToStorage(localFilePath: string, storageFilePath: string, storageToUse?: StorageType,
-        containerName?: string, bucketName?: string, contentType?: string): Promise<StorageType> {
-        storageToUse = storageToUse || (StorageType.AzureBlobStorage | StorageType.AwsS3);
-        containerName = containerName || this.azureBlobStorageClient.getDefaultContainerName();
-        bucketName = bucketName || this.awsS3Client.getDefaultBucketName() || containerName;
-        let storagesWhereFileWasUploaded: StorageType = StorageType.Undefined;
+    protected async copyFileFromUrl(storageFilePath: string, sourceStorageId: string, fileProperties: StorageFileProperties,
+        targetStorageIds: string[], containerOrBucketName: string): Promise<string[]> {
+        const sourceStorageClient: IStorageClient = this.storageClients.get(sourceStorageId);
+        const urlCopyingStorageIds: string[] = targetStorageIds.filter((storageId) =>
+            isUrlCopyingStorageClient(this.storageClients.get(storageId)));
+        let sourceUrl: string = null;
 
-        let azurePromise: Promise<any>;
-
-        if (storageToUse & StorageType.AzureBlobStorage) {
-            azurePromise = this.azureBlobStorageClient.uploadFile(localFilePath, storageFilePath, containerName)
+        if (urlCopyingStorageIds.length === 0) {
+            return [];
         }
 
-        let awsPromise: Promise<any>;
+        try {
+            sourceUrl = await sourceStorageClient.getSignedUrl(storageFilePath, containerOrBucketName);
+        } catch (error) {
+            // E.g. the local file system
+            if (toStorageError(error).code === StorageErrorCode.NotSupported) {
+                return [];
+            }
 
-        if (storageToUse & StorageType.AwsS3) {
-            awsPromise = this.awsS3Client.uploadFile(localFilePath, storageFilePath, bucketName, contentType);
+            this.logger.warn('Failed to create a URL of file "' + storageFilePath + '" in storage "' + sourceStorageId
+                + '", streaming the file instead: ' + error);
+            return [];
         }
 
-        if (storageToUse & StorageType.AzureBlobStorage) {
-            try {
-                await azurePromise;
-                storagesWhereFileWasUploaded |= StorageType.AzureBlobStorage;
-            } catch (error) {
-                console.error('Failed to upload file to Azure Blob Storage: ' + error);
+        const metadata: StorageFileMetadata = toStorageFileMetadata(fileProperties);
+        let copyErrors: StorageError[] = await Promise.all(urlCopyingStorageIds.map((storageId) =>
+            this.measureRequest(storageId, StorageOperation.Replicate, () =>
+                copyFileFromUrl(this.storageClients.get(storageId), sourceUrl, storageFilePath, containerOrBucketName, metadata)
+                    .then(() => this.verifyCopy(storageId, storageFilePath, fileProperties, containerOrBucketName)))
+                .then(() => {
+                    this.metrics.recordReplicatedBytes(sourceStorageId, storageId, fileProperties.size);
+                    return null;
+                }, (error) => toStorageError(error || new Error('Copy failed'), storageFilePath))));
+
+        this.invalidatePresence(storageFilePath, containerOrBucketName);
+
+        urlCopyingStorageIds.forEach((storageId, index) => {
+            if (copyErrors[index]) {
+                this.logger.warn('Failed to copy file "' + storageFilePath + '" from storage "' + sourceStorageId + '" to storage "'
+                    + storageId + '" on the server side, streaming the file instead: ' + copyErrors[index]);
             }
+        });
+
+        return urlCopyingStorageIds.filter((storageId, index) => !copyErrors[index]);
+    }
+
+    /**
+     * Copies the file again to the storages where the copy did not match the source, once.
+     *
+     * @param copyErrors The errors of the copies in the order of the target storage IDs.
+     * @param storageFilePath The file/blob path in the storage.
+     * @param sourceStorageId The ID of the storage the file was copied from.
+     * @param targetStorageIds The IDs of the storages the file was copied to.
+     * @param containerOrBucketName The name of the container/bucket.
+     * @return The errors of the copies with the errors of the second copies in place of the mismatches.
+     */
+    protected async refetchMismatchedCopies(copyErrors: StorageError[], storageFilePath: string, sourceStorageId: string,
+        targetStorageIds: string[], containerOrBucketName?: string): Promise<StorageError[]> {
+        let mismatchedStorageIds: string[] = targetStorageIds.filter((storageId, index) =>
+            !!copyErrors[index] && copyErrors[index].code === StorageErrorCode.ChecksumMismatch);
+
+        if (mismatchedStorageIds.length === 0) {
+            return copyErrors;
         }
 
-        if (storageToUse & StorageType.AwsS3) {
-            try {
-                await awsPromise;
-                storagesWhereFileWasUploaded |= StorageType.AwsS3;
-            } catch (error) {
-                console.error('Failed to upload file to AWS S3: ' + error);
-            }
+        this.logger.warn('The copies of file "' + storageFilePath + '" in storages "' + mismatchedStorageIds.join('", "')
+            + '" do not match storage "' + sourceStorageId + '", copying again: ' + copyErrors[targetStorageIds.indexOf(mismatchedStorageIds[0])]);
+
+        let refetchErrors: StorageError[] = await this.copyFileBetweenStorages(storageFilePath, sourceStorageId, mismatchedStorageIds,
+            containerOrBucketName, false);
+
+        return copyErrors.map((error, index) => {
+            const mismatchIndex: number = mismatchedStorageIds.indexOf(targetStorageIds[index]);
+            return (mismatchIndex === -1 ? error : refetchErrors[mismatchIndex]);
+        });
+    }
+
+    /**
+     * Checks the copy of the given file in the given storage against the content copied.
+     *
+     * @param storageId The ID of the storage holding the copy.
+     * @param storageFilePath The file/blob path in the storage.
+     * @param expectedContent The size and the MD5 hash of the content copied.
+     * @param containerOrBucketName The name of the container/bucket.
+     * @return Resolved, if the size and the MD5 hash (if the storage has it) of the copy match.
+     * Rejected with a ChecksumMismatchError otherwise.
+     */
+    protected async verifyCopy(storageId: string, storageFilePath: string, expectedContent: ExpectedContent,
+        containerOrBucketName?: string) {
+        const fileProperties: StorageFileProperties =
+            await this.storageClients.get(storageId).getFileProperties(storageFilePath, containerOrBucketName);
+        const error: ChecksumMismatchError = checkContent(storageFilePath, expectedContent, fileProperties);
+
+        if (error !== null) {
+            error.message = 'The copy in storage "' + storageId + '" does not match: ' + error.message;
+            throw error;
         }
+    }
 
-        return storagesWhereFileWasUploaded;
+    /**
+     * @param fileProperties The properties of the file to copy.
+     * @return True, if the file is copied through the staging directory.
+     */
+    protected isStagedCopy(fileProperties: StorageFileProperties): boolean {
+        return (this.transferOptions !== null
+            && fileProperties.size >= (this.transferOptions.stagingThresholdInBytes || DEFAULT_STAGING_THRESHOLD_IN_BYTES));
     }
 
     /**
-     * Uploads the given file to both storages. Note that the name of the container and bucket
-     * are expected to be the same.
-     * 
-     * @param localFilePath The local file path of the file to upload.
-     * @param storageFilePath The storage location for the file.
-     * @param containerAndBucketName The name of the Azure Blob Storage container and the S3 bucket.
-     * @return The storages where the file was successfully uploaded.
+     * Copies the given file by downloading it to the staging directory and uploading it from there
+     * to the target storages. The staged file is named after the version of the file, so that an
+     * interrupted copy of the same version continues from the checkpoints of the transfers. The
+     * staged file is removed once uploaded to all the target storages.
+     *
+     * @param storageFilePath The file/blob path in the storage.
+     * @param sourceStorageId The ID of the storage to copy the file from.
+     * @param fileProperties The properties of the file in the source storage.
+     * @param targetStorageIds The IDs of the storages to copy the file to.
+     * @param containerOrBucketName The name of the container/bucket.
+     * @return The errors in the order of the target storage IDs (null for each successful copy).
      */
-    public async uploadFile(localFilePath: string, storageFilePath: string, containerAndBucketName?: string): Promise<StorageType> {
-        let thisInstance: MultiStorageClient = this;
+    protected copyFileThroughStagingDirectory(storageFilePath: string, sourceStorageId: string,
+        fileProperties: StorageFileProperties, targetStorageIds: string[], containerOrBucketName?: string): Promise<StorageError[]> {
+        const version: string = [sourceStorageId, containerOrBucketName || '', storageFilePath,
+            fileProperties.etag || fileProperties.lastModified.getTime()].join('\n');
+        const stagedFilePath: string = path.join(this.transferOptions.stagingDirectoryPath,
+            crypto.createHash('sha1').update(version).digest('hex'));
 
-        return new Promise<StorageType>(function (resolve) {
-            thisInstance.uploadFileToStorage(localFilePath, storageFilePath,
-                (StorageType.AzureBlobStorage | StorageType.AwsS3), containerAndBucketName).then(function (result) {
-                    resolve(result);
-                });
+        // The copies of the same version take turns, as they share the staged file and the checkpoints
+        const previousCopy: Promise<StorageError[]> = this.stagedCopies.get(stagedFilePath) || Promise.resolve(null);
+        const copy: Promise<StorageError[]> = previousCopy.then(() =>
+            this.copyStagedFile(stagedFilePath, storageFilePath, sourceStorageId, fileProperties, targetStorageIds,
+                containerOrBucketName));
+
+        this.stagedCopies.set(stagedFilePath, copy);
+        copy.then(() => {
+            if (this.stagedCopies.get(stagedFilePath) === copy) {
+                this.stagedCopies.delete(stagedFilePath);
+            }
         });
+
+        return copy;
     }
 
     /**
-     * Tries to delete the given files from both storages.
-     * 
-     * @param filePaths The paths/keys of the files to delete.
-     * @param containerName The name of the Azure Blob Storage container.
-     * @param bucketName The name of the S3 bucket.
-     * @return Null, if succssful. An error otherwise.
+     * Downloads the given file to the staged file, unless downloaded by an earlier copy, and
+     * uploads it to the target storages. The copies are checked against the size and the MD5 hash
+     * (if known) of the source. Never rejected.
+     *
+     * @param stagedFilePath The path of the staged file.
+     * @param storageFilePath The file/blob path in the storage.
+     * @param sourceStorageId The ID of the storage to copy the file from.
+     * @param fileProperties The properties of the file in the source storage. The metadata is carried over.
+     * @param targetStorageIds The IDs of the storages to copy the file to.
+     * @param containerOrBucketName The name of the container/bucket.
+     * @return The errors in the order of the target storage IDs (null for each successful copy).
      */
-    public async deleteFiles(filePaths: string[], containerName?: string, bucketName?: string): Promise<any> {
-        containerName = containerName || this.azureBlobStorageClient.getDefaultContainerName();
-        bucketName = bucketName || this.awsS3Client.getDefaultBucketName() || containerName;
-        var result = null;
-
-        let azurePromise = this.azureBlobStorageClient.deleteFiles(filePaths, containerName);
-        let awsPromise = this.awsS3Client.deleteFiles(filePaths, bucketName);
+    protected async copyStagedFile(stagedFilePath: string, storageFilePath: string, sourceStorageId: string,
+        fileProperties: StorageFileProperties, targetStorageIds: string[], containerOrBucketName: string): Promise<StorageError[]> {
+        const metadata: StorageFileMetadata = toStorageFileMetadata(fileProperties);
+        const staged: boolean = await new Promise<boolean>(function(resolve) {
+            fs.stat(stagedFilePath, function(error) {
+                resolve(!error);
+            });
+        });
 
-        try {
-            await azurePromise;
-        } catch (error) {
-            result = error;
+        if (!staged) {
+            try {
+                await downloadFileToDiskResumable(this.storageClients.get(sourceStorageId), storageFilePath, stagedFilePath,
+                    containerOrBucketName, this.createStagedTransferOptions(sourceStorageId, stagedFilePath + CHECKPOINT_FILE_EXTENSION));
+            } catch (error) {
+                const storageError: StorageError = toStorageError(error, storageFilePath);
+                return targetStorageIds.map(() => storageError);
+            }
         }
 
-        try {
-            await awsPromise;
-        } catch (error) {
-            result = error;
+        let copyErrors: StorageError[] = await Promise.all(targetStorageIds.map((storageId) =>
+            this.measureRequest(storageId, StorageOperation.Replicate, () =>
+                uploadFileResumable(this.storageClients.get(storageId), stagedFilePath, storageFilePath, containerOrBucketName, metadata,
+                    this.createStagedTransferOptions(storageId,
+                        stagedFilePath + '.' + encodeURIComponent(storageId) + CHECKPOINT_FILE_EXTENSION))
+                    .then(() => this.verifyCopy(storageId, storageFilePath, fileProperties, containerOrBucketName)))
+                .then(() => {
+                    this.metrics.recordReplicatedBytes(sourceStorageId, storageId, fileProperties.size);
+                    return null;
+                }, (error) => toStorageError(error || new Error('Replication failed'), storageFilePath))));
+
+        this.invalidatePresence(storageFilePath, containerOrBucketName);
+
+        if (copyErrors.every((error) => !error)) {
+            let thisInstance: MultiStorageClient = this;
+
+            await new Promise(function(resolve) {
+                fs.unlink(stagedFilePath, function(error) {
+                    if (error) {
+                        thisInstance.logger.error('Failed to remove the staged file "' + stagedFilePath + '": ' + error);
+                    }
+
+                    resolve();
+                });
+            });
         }
 
-        return result;
+        return copyErrors;
     }
 
     /**
-     * Tries to delete the given file from both storages.
-     * 
-     * @param filePath The path/key of the file to delete.
-     * @param containerName The name of the Azure Blob Storage container.
-     * @param bucketName The name of the S3 bucket.
-     * @return Null, if succssful. An error otherwise.
+     * @param storageId The ID of the storage transferred to or from.
+     * @param checkpointFilePath The path of the checkpoint file of the transfer.
+     * @return The transfer options reporting the progress with the storage ID.
      */
-    public async deleteFile(filePath: string, containerName?: string, bucketName?: string): Promise<any> {
-        let filePaths: string[] = [filePath];
-        return await this.deleteFiles(filePaths, containerName, bucketName);
+    protected createStagedTransferOptions(storageId: string, checkpointFilePath: string): ResumableTransferOptions {
+        const onProgress = this.transferOptions.onProgress;
+
+        return {
+            partSizeInBytes: this.transferOptions.partSizeInBytes,
+            concurrency: this.transferOptions.concurrency,
+            onProgress: (onProgress ? (progress: TransferProgress) => onProgress(Object.assign(progress, { storageId: storageId })) : undefined),
+            checkpointFilePath: checkpointFilePath
+        };
     }
-}
+
+    /**
+     * Replicates the file of the given task from the queue.
+     *
+     * @param task The task.
+     * @return The errors by the IDs of the target storages where the replication failed.
+     */
+    protected async replicateQueuedFile(task: ReplicationTask): Promise<{ [storageId: string]: StorageError }> {
+        let errorsByStorage: { [storageId: string]: StorageError } = {};
+
+        if (!this.storageClients.has(task.sourceStorageId)) {
+            task.targetStorageIds.forEach((storageId) =>
+                errorsByStorage[storageId] = toStorageError(new Error('Unknown storage: ' + task.sourceStorageId), task.storageFilePath));
+            return errorsByStorage;
+        }
+
+        if (this.tombstoneStore !== null) {
+            try {
+                const tombstone: Tombstone =
+                    await this.tombstoneStore.getTombstone(task.storageFilePath, task.containerOrBucketName || undefined);
+
+                // Nothing to replicate, if the file has been deleted since queueing
+                if (tombstone !== null && tombstone.deletedTime >= task.createdTime) {
+                    return errorsByStorage;
+                }
+            } catch (error) {
+                const storageError: StorageError = toStorageError(error, task.storageFilePath);
+                task.targetStorageIds.forEach((storageId) => errorsByStorage[storageId] = storageError);
+                return errorsByStorage;
+            }
+        }
+
+        // The storages removed since queueing are skipped
+        let targetStorageIds: string[] = task.targetStorageIds.filter((storageId) => this.storageClients.has(storageId));
+        let copyErrors: StorageError[] = await this.trackReplication(task.storageFilePath, task.containerOrBucketName || undefined,
+            task.sourceStorageId, targetStorageIds, this.copyFileBetweenStorages(task.storageFilePath, task.sourceStorageId,
+                targetStorageIds, task.containerOrBucketName || undefined));
+
+        copyErrors.forEach((error, index) => {
+            // Nothing to replicate, if the file has been deleted since queueing
+            if (error && !isNotFoundError(error)) {
+                errorsByStorage[targetStorageIds[index]] = error;
+            }
+        });
+
+        return errorsByStorage;
+    }
+}
\ No newline at end of file
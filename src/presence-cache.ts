@@ -0,0 +1,174 @@
+import { FilePresence } from './storage-errors';
+
+export const DEFAULT_PRESENCE_CACHE_TTL_IN_MS = 60 * 1000;
+export const DEFAULT_PRESENCE_CACHE_NEGATIVE_TTL_IN_MS = 5 * 1000;
+export const DEFAULT_PRESENCE_CACHE_MAX_ENTRIES = 10000;
+
+export interface PresenceCacheOptions {
+    /**
+     * The time the presence of a file held by at least one storage is cached. The default is
+     * DEFAULT_PRESENCE_CACHE_TTL_IN_MS.
+     */
+    ttlInMs?: number;
+
+    /**
+     * The time the absence of a file missing from all storages is cached. The default is
+     * DEFAULT_PRESENCE_CACHE_NEGATIVE_TTL_IN_MS.
+     */
+    negativeTtlInMs?: number;
+
+    /**
+     * The maximum number of files cached. The oldest entries are dropped when exceeded. The default
+     * is DEFAULT_PRESENCE_CACHE_MAX_ENTRIES.
+     */
+    maxEntries?: number;
+}
+
+export interface PresenceCacheStatistics {
+    hits: number;
+    misses: number;
+    entryCount: number;
+}
+
+/**
+ * The cached presence of a file.
+ */
+export interface PresenceCacheEntry {
+    presenceByStorage: Map<string, FilePresence>;
+
+    /**
+     * The time the entry expires in milliseconds since the epoch.
+     */
+    expiryTime: number;
+}
+
+/**
+ * An in-process cache of the storages holding each file. The presence is cached only if every
+ * storage told whether it holds the file. A cached presence is used until it expires or the file is
+ * invalidated, so the client should invalidate the files it writes or deletes.
+ */
+export class PresenceCache {
+    protected options: PresenceCacheOptions;
+
+    // In the order of insertion, the oldest first
+    protected entries: Map<string, PresenceCacheEntry> = new Map<string, PresenceCacheEntry>();
+    protected generation: number = 0;
+    protected hits: number = 0;
+    protected misses: number = 0;
+
+    /**
+     * @param options The options of the cache (optional).
+     */
+    constructor(options?: PresenceCacheOptions) {
+        this.options = Object.assign({
+            ttlInMs: DEFAULT_PRESENCE_CACHE_TTL_IN_MS,
+            negativeTtlInMs: DEFAULT_PRESENCE_CACHE_NEGATIVE_TTL_IN_MS,
+            maxEntries: DEFAULT_PRESENCE_CACHE_MAX_ENTRIES
+        }, options || {});
+    }
+
+    /**
+     * @param storageFilePath The file/blob path in the storage.
+     * @param containerOrBucketName The name of the container/bucket.
+     * @param storageIds The IDs of the storages the presence is needed for.
+     * @return A copy of the cached presence of the file by the storage IDs or null, if not cached,
+     * expired or not cached for all the given storages.
+     */
+    public get(storageFilePath: string, containerOrBucketName: string, storageIds: string[]): Map<string, FilePresence> {
+        const key: string = this.getKey(storageFilePath, containerOrBucketName);
+        let entry: PresenceCacheEntry = this.entries.get(key);
+
+        if (entry && entry.expiryTime <= Date.now()) {
+            this.entries.delete(key);
+            entry = undefined;
+        }
+
+        if (!entry || storageIds.some((storageId) => !entry.presenceByStorage.has(storageId))) {
+            this.misses++;
+            return null;
+        }
+
+        this.hits++;
+        let result: Map<string, FilePresence> = new Map<string, FilePresence>();
+        storageIds.forEach((storageId) => result.set(storageId, entry.presenceByStorage.get(storageId)));
+        return result;
+    }
+
+    /**
+     * Caches the presence of the given file. Not cached, if the presence is unknown in any of the
+     * storages or if any file has been invalidated since the given generation, i.e. while the
+     * presence was being checked.
+     *
+     * @param storageFilePath The file/blob path in the storage.
+     * @param containerOrBucketName The name of the container/bucket.
+     * @param presenceByStorage The presence of the file by the storage IDs.
+     * @param generation The generation of the cache when the check was started, see getGeneration().
+     * @return True, if cached. False otherwise.
+     */
+    public set(storageFilePath: string, containerOrBucketName: string, presenceByStorage: Map<string, FilePresence>,
+        generation: number): boolean {
+        let presences: FilePresence[] = Array.from(presenceByStorage.values());
+
+        if (generation !== this.generation || presences.indexOf(FilePresence.Unknown) !== -1) {
+            return false;
+        }
+
+        const key: string = this.getKey(storageFilePath, containerOrBucketName);
+        const ttlInMs: number = (presences.indexOf(FilePresence.Present) !== -1 ? this.options.ttlInMs : this.options.negativeTtlInMs);
+
+        this.entries.delete(key);
+        this.entries.set(key, { presenceByStorage: new Map<string, FilePresence>(presenceByStorage), expiryTime: Date.now() + ttlInMs });
+
+        while (this.entries.size > this.options.maxEntries) {
+            this.entries.delete(this.entries.keys().next().value);
+        }
+
+        return true;
+    }
+
+    /**
+     * @return The generation of the cache. Changes whenever a file is invalidated.
+     */
+    public getGeneration(): number {
+        return this.generation;
+    }
+
+    /**
+     * Removes the given file from the cache.
+     *
+     * @param storageFilePath The file/blob path in the storage.
+     * @param containerOrBucketName The name of the container/bucket.
+     */
+    public invalidate(storageFilePath: string, containerOrBucketName?: string) {
+        this.generation++;
+        this.entries.delete(this.getKey(storageFilePath, containerOrBucketName));
+    }
+
+    /**
+     * Removes all files from the cache. The statistics are not reset.
+     */
+    public clear() {
+        this.generation++;
+        this.entries.clear();
+    }
+
+    /**
+     * @return The number of hits and misses since created and the number of cached files.
+     */
+    public getStatistics(): PresenceCacheStatistics {
+        return {
+            hits: this.hits,
+            misses: this.misses,
+            entryCount: this.entries.size
+        };
+    }
+
+    /**
+     * @param storageFilePath The file/blob path in the storage.
+     * @param containerOrBucketName The name of the container/bucket.
+     * @return The key of the cache entry.
+     */
+    protected getKey(storageFilePath: string, containerOrBucketName?: string): string {
+        return (containerOrBucketName || '') + '/' + storageFilePath;
+    }
+}
@@ -0,0 +1,28 @@
+/**
+ * The outcome of a promise waited for with settleAll().
+ */
+export interface SettledResult<T> {
+    /**
+     * The value of the promise. Undefined, if rejected.
+     */
+    value: T;
+
+    /**
+     * The reason of the rejection (an Error, if rejected without a reason) or null, if fulfilled.
+     */
+    error: any;
+}
+
+/**
+ * Waits for all of the given promises, e.g. the requests to each storage. Unlike Promise.all(), a
+ * rejection does not end the wait, and the rejections are caught as they occur so that none of
+ * them goes unhandled while waiting for the others.
+ *
+ * @param promises The promises.
+ * @return The outcomes in the order of the promises. Never rejected.
+ */
+export function settleAll<T>(promises: Promise<T>[]): Promise<SettledResult<T>[]> {
+    return Promise.all(promises.map((promise) => promise.then(
+        (value) => ({ value: value, error: null }),
+        (error) => ({ value: undefined, error: error || new Error('Rejected without a reason') }))));
+}
@@ -0,0 +1,198 @@
+export const DEFAULT_LATENCY_SMOOTHING_FACTOR = 0.2;
+
+/**
+ * Strategies for choosing the storage a file is read from, when several storages hold it.
+ */
+export enum ReadPreferenceStrategy {
+    /**
+     * The primary storage first, then the others in the order of registration.
+     */
+    Primary = 'primary',
+
+    /**
+     * The storage with the lowest average latency first. The storages without measured latency come last.
+     */
+    LowestLatency = 'lowest-latency',
+
+    /**
+     * The storage with the lowest egress cost first. The storages without a cost come last.
+     */
+    LowestCost = 'lowest-cost',
+
+    /**
+     * The order returned by a custom function.
+     */
+    Custom = 'custom'
+};
+
+/**
+ * What is known when ordering the storages for reading a file.
+ */
+export interface ReadPreferenceContext {
+    storageFilePath: string;
+    containerOrBucketName: string;
+
+    /**
+     * The moving averages of the latencies by the storage IDs. Missing for the storages without
+     * measured latency.
+     */
+    averageLatenciesInMs: { [storageId: string]: number };
+}
+
+/**
+ * Orders the given storage IDs from the most preferred to the least preferred. The storages left
+ * out are tried last in their original order.
+ */
+export type ReadPreferenceFunction = (storageIds: string[], context: ReadPreferenceContext) => string[];
+
+export interface ReadPreferenceOptions {
+    /**
+     * The default is ReadPreferenceStrategy.Primary.
+     */
+    strategy?: ReadPreferenceStrategy;
+
+    /**
+     * ReadPreferenceStrategy.Primary: The ID of the primary storage. The default is the first registered one.
+     */
+    primaryStorageId?: string;
+
+    /**
+     * ReadPreferenceStrategy.LowestCost: The egress costs per gigabyte by the storage IDs, e.g. the
+     * cost of transferring the data out of the cloud.
+     */
+    egressCostsPerGB?: { [storageId: string]: number };
+
+    /**
+     * ReadPreferenceStrategy.Custom: The function ordering the storages.
+     */
+    orderStorageIds?: ReadPreferenceFunction;
+
+    /**
+     * The weight of a new latency sample in the exponential moving average, between 0 and 1. The
+     * default is DEFAULT_LATENCY_SMOOTHING_FACTOR.
+     */
+    latencySmoothingFactor?: number;
+
+    /**
+     * If true (the default), a read failing in the preferred storage is retried from the next
+     * storage holding the file instead of rejecting.
+     */
+    fallbackOnError?: boolean;
+}
+
+/**
+ * Orders the storages holding a file for reading it, and tracks the latency of each storage as an
+ * exponential moving average. The latencies are recorded by MultiStorageClient from the requests
+ * made to all storages (the existence and the property checks), so that they are comparable
+ * regardless of the sizes of the files.
+ */
+export class ReadPreference {
+    protected options: ReadPreferenceOptions;
+    protected averageLatenciesInMs: Map<string, number> = new Map<string, number>();
+
+    /**
+     * @param options The strategy and its parameters (optional).
+     */
+    constructor(options?: ReadPreferenceOptions) {
+        this.options = Object.assign({
+            strategy: ReadPreferenceStrategy.Primary,
+            primaryStorageId: null,
+            egressCostsPerGB: {},
+            orderStorageIds: null,
+            latencySmoothingFactor: DEFAULT_LATENCY_SMOOTHING_FACTOR,
+            fallbackOnError: true
+        }, options || {});
+
+        if (this.options.strategy === ReadPreferenceStrategy.Custom && typeof this.options.orderStorageIds !== 'function') {
+            throw new Error('The custom read preference requires the orderStorageIds function');
+        }
+
+        if (!(this.options.latencySmoothingFactor > 0 && this.options.latencySmoothingFactor <= 1)) {
+            throw new Error('The latency smoothing factor must be greater than 0 and at most 1: '
+                + this.options.latencySmoothingFactor);
+        }
+    }
+
+    /**
+     * @return The strategy.
+     */
+    public getStrategy(): ReadPreferenceStrategy {
+        return this.options.strategy;
+    }
+
+    /**
+     * @return True, if the failed reads are retried from the other storages holding the file.
+     */
+    public isFallbackEnabled(): boolean {
+        return this.options.fallbackOnError;
+    }
+
+    /**
+     * Adds a latency sample of the given storage to its moving average.
+     *
+     * @param storageId The ID of the storage.
+     * @param latencyInMs The time a request took in milliseconds.
+     */
+    public recordLatency(storageId: string, latencyInMs: number) {
+        const averageLatencyInMs: number = this.averageLatenciesInMs.get(storageId);
+        const smoothingFactor: number = this.options.latencySmoothingFactor;
+
+        this.averageLatenciesInMs.set(storageId, (averageLatencyInMs === undefined ?
+            latencyInMs : smoothingFactor * latencyInMs + (1 - smoothingFactor) * averageLatencyInMs));
+    }
+
+    /**
+     * @param storageId The ID of the storage.
+     * @return The moving average of the latency of the storage in milliseconds or undefined, if not measured.
+     */
+    public getAverageLatency(storageId: string): number {
+        return this.averageLatenciesInMs.get(storageId);
+    }
+
+    /**
+     * @param storageIds The IDs of the storages holding the file in the order of registration.
+     * @param storageFilePath The file/blob path in the storage.
+     * @param containerOrBucketName The name of the container/bucket.
+     * @return The same IDs from the most preferred to the least preferred.
+     */
+    public orderStorageIds(storageIds: string[], storageFilePath: string, containerOrBucketName?: string): string[] {
+        switch (this.options.strategy) {
+            case ReadPreferenceStrategy.Primary:
+                return this.sortStorageIds(storageIds, (storageId) =>
+                    (storageId === this.options.primaryStorageId ? 0 : 1));
+            case ReadPreferenceStrategy.LowestLatency:
+                return this.sortStorageIds(storageIds, (storageId) =>
+                    (this.averageLatenciesInMs.has(storageId) ? this.averageLatenciesInMs.get(storageId) : Infinity));
+            case ReadPreferenceStrategy.LowestCost:
+                return this.sortStorageIds(storageIds, (storageId) =>
+                    (this.options.egressCostsPerGB.hasOwnProperty(storageId) ? this.options.egressCostsPerGB[storageId] : Infinity));
+            case ReadPreferenceStrategy.Custom:
+                let averageLatenciesInMs: { [storageId: string]: number } = {};
+                this.averageLatenciesInMs.forEach((averageLatencyInMs, storageId) => averageLatenciesInMs[storageId] = averageLatencyInMs);
+
+                const preferredStorageIds: string[] = (this.options.orderStorageIds(storageIds.slice(), {
+                    storageFilePath: storageFilePath,
+                    containerOrBucketName: containerOrBucketName,
+                    averageLatenciesInMs: averageLatenciesInMs
+                }) || []).filter((storageId, index, result) =>
+                    storageIds.indexOf(storageId) !== -1 && result.indexOf(storageId) === index);
+
+                return preferredStorageIds.concat(storageIds.filter((storageId) => preferredStorageIds.indexOf(storageId) === -1));
+            default:
+                throw new Error('Unknown read preference strategy "' + this.options.strategy + '"');
+        }
+    }
+
+    /**
+     * @param storageIds The storage IDs.
+     * @param getRank Returns the rank of a storage, the lowest first.
+     * @return The storage IDs sorted by the rank. The storages with the same rank keep their order.
+     */
+    protected sortStorageIds(storageIds: string[], getRank: (storageId: string) => number): string[] {
+        const ranks: number[] = storageIds.map(getRank);
+
+        return storageIds.map((storageId, index) => index)
+            .sort((a, b) => (ranks[a] !== ranks[b] ? (ranks[a] < ranks[b] ? -1 : 1) : a - b))
+            .map((index) => storageIds[index]);
+    }
+}
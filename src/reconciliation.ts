@@ -0,0 +1,258 @@
+import * as fs from 'fs';
+import { StorageFileProperties } from './storage-client';
+import { StorageError } from './storage-errors';
+
+export const DEFAULT_RECONCILIATION_CONCURRENCY = 4;
+export const DEFAULT_CHECKPOINT_INTERVAL = 100;
+const ERROR_CODE_FILE_NOT_FOUND = 'ENOENT';
+
+/**
+ * The options for reconciling the storages.
+ */
+export interface ReconciliationOptions {
+    /**
+     * If true, the files missing from some of the storages are copied from the first storage
+     * holding the file. By default, only the differences are reported. If the client has a
+     * tombstone store, the files deleted since their copies were written are deleted from the
+     * storages still holding them instead.
+     */
+    copyMissingFiles?: boolean;
+
+    /**
+     * If true, nothing is copied or deleted, but the copies and the deletes that would be made are reported.
+     */
+    dryRun?: boolean;
+
+    /**
+     * If true, the MD5 hashes of the files of the same size are compared. Note that this requires
+     * retrieving the properties of every file present in more than one storage.
+     */
+    compareHashes?: boolean;
+
+    /**
+     * The maximum number of files processed at the same time. The default is DEFAULT_RECONCILIATION_CONCURRENCY.
+     */
+    concurrency?: number;
+
+    /**
+     * If given, only the files with keys after this one are processed.
+     */
+    startAfter?: string;
+
+    /**
+     * If given, the key of the last processed file is saved to this file while reconciling and
+     * the reconciliation continues after it, when run again. The file is removed when completed.
+     */
+    checkpointFilePath?: string;
+
+    /**
+     * The number of files processed between saving the checkpoint. The default is DEFAULT_CHECKPOINT_INTERVAL.
+     */
+    checkpointInterval?: number;
+}
+
+export enum MismatchReason {
+    Size = 'size',
+    Hash = 'hash'
+};
+
+/**
+ * A file whose copies differ between the storages.
+ */
+export interface FileMismatch {
+    name: string;
+    reason: MismatchReason;
+
+    /**
+     * The properties of the file in each storage holding it. Only the size and the last modified
+     * time are known, unless the hashes were compared.
+     */
+    filePropertiesByStorage: { [storageId: string]: StorageFileProperties };
+}
+
+/**
+ * A file copied (or, in a dry run, to be copied) to the storages missing it.
+ */
+export interface FileCopy {
+    name: string;
+    sourceStorageId: string;
+    targetStorageIds: string[];
+
+    /**
+     * The errors by the IDs of the storages where copying the file failed.
+     */
+    errorsByStorage: { [storageId: string]: StorageError };
+}
+
+/**
+ * A file with a tombstone deleted (or, in a dry run, to be deleted) from the storages still holding it.
+ */
+export interface FileDeletion {
+    name: string;
+    storageIds: string[];
+
+    /**
+     * The time of the delete recorded by the tombstone in milliseconds since the epoch.
+     */
+    deletedTime: number;
+
+    /**
+     * The errors by the IDs of the storages where deleting the file failed.
+     */
+    errorsByStorage: { [storageId: string]: StorageError };
+}
+
+/**
+ * A file that could not be checked.
+ */
+export interface ReconciliationFailure {
+    name: string;
+    error: any;
+}
+
+export interface ReconciliationSummary {
+    filesChecked: number;
+    filesMissing: number;
+    filesMismatched: number;
+    filesCopied: number;
+    copyFailures: number;
+    filesDeleted: number;
+    deleteFailures: number;
+    failures: number;
+
+    /**
+     * The key of the file processed last. All the files before it have been processed as well.
+     */
+    lastProcessedKey: string;
+
+    /**
+     * The key after which the reconciliation was started or null, if started from the beginning.
+     */
+    resumedAfter: string;
+
+    /**
+     * True, if all the files were processed.
+     */
+    completed: boolean;
+}
+
+/**
+ * The differences between the storages and the actions taken.
+ */
+export interface ReconciliationReport {
+    prefix: string;
+    dryRun: boolean;
+
+    /**
+     * The keys of the files missing from each storage by the storage IDs.
+     */
+    missingFilesByStorage: { [storageId: string]: string[] };
+
+    mismatches: FileMismatch[];
+    copies: FileCopy[];
+    deletions: FileDeletion[];
+    failures: ReconciliationFailure[];
+    summary: ReconciliationSummary;
+}
+
+/**
+ * @param prefix The prefix being reconciled.
+ * @param storageIds The IDs of the storages being reconciled.
+ * @param dryRun True, if nothing is copied or deleted.
+ * @return An empty report.
+ */
+export function createReconciliationReport(prefix: string, storageIds: string[], dryRun: boolean): ReconciliationReport {
+    let missingFilesByStorage: { [storageId: string]: string[] } = {};
+    storageIds.forEach((storageId) => missingFilesByStorage[storageId] = []);
+
+    return {
+        prefix: prefix,
+        dryRun: dryRun,
+        missingFilesByStorage: missingFilesByStorage,
+        mismatches: [],
+        copies: [],
+        deletions: [],
+        failures: [],
+        summary: {
+            filesChecked: 0,
+            filesMissing: 0,
+            filesMismatched: 0,
+            filesCopied: 0,
+            copyFailures: 0,
+            filesDeleted: 0,
+            deleteFailures: 0,
+            failures: 0,
+            lastProcessedKey: null,
+            resumedAfter: null,
+            completed: false
+        }
+    };
+}
+
+/**
+ * Reads the checkpoint saved by an interrupted reconciliation.
+ *
+ * @param checkpointFilePath The path of the checkpoint file.
+ * @param prefix The prefix being reconciled.
+ * @return The key of the last processed file or null, if there is no checkpoint. Rejected, if the
+ * checkpoint was saved when reconciling another prefix.
+ */
+export function readCheckpoint(checkpointFilePath: string, prefix: string): Promise<string> {
+    return new Promise<string>(function(resolve, reject) {
+        fs.readFile(checkpointFilePath, 'utf8', function(error, data) {
+            if (error && error.code === ERROR_CODE_FILE_NOT_FOUND) {
+                resolve(null);
+            } else if (error) {
+                reject(error);
+            } else {
+                const checkpoint = JSON.parse(data);
+
+                if (checkpoint.prefix !== prefix) {
+                    reject(new Error('The checkpoint in ' + checkpointFilePath + ' is for the prefix "' + checkpoint.prefix + '"'));
+                } else {
+                    resolve(checkpoint.lastProcessedKey);
+                }
+            }
+        });
+    });
+}
+
+/**
+ * Saves the checkpoint of a reconciliation.
+ *
+ * @param checkpointFilePath The path of the checkpoint file.
+ * @param prefix The prefix being reconciled.
+ * @param lastProcessedKey The key of the last processed file.
+ * @return Null, if successful. An error otherwise.
+ */
+export function writeCheckpoint(checkpointFilePath: string, prefix: string, lastProcessedKey: string): Promise<any> {
+    const data: string = JSON.stringify({ prefix: prefix, lastProcessedKey: lastProcessedKey });
+
+    return new Promise(function(resolve, reject) {
+        fs.writeFile(checkpointFilePath, data, function(error) {
+            if (error) {
+                reject(error);
+            } else {
+                resolve(null);
+            }
+        });
+    });
+}
+
+/**
+ * Removes the checkpoint file, if it exists.
+ *
+ * @param checkpointFilePath The path of the checkpoint file.
+ * @return Null, if successful. An error otherwise.
+ */
+export function removeCheckpoint(checkpointFilePath: string): Promise<any> {
+    return new Promise(function(resolve, reject) {
+        fs.unlink(checkpointFilePath, function(error) {
+            if (error && error.code !== ERROR_CODE_FILE_NOT_FOUND) {
+                reject(error);
+            } else {
+                resolve(null);
+            }
+        });
+    });
+}
@@ -0,0 +1,434 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import { Logger } from './logger';
+
+export const DEFAULT_MAX_ATTEMPTS = 5;
+export const DEFAULT_INITIAL_RETRY_DELAY_IN_MS = 1000;
+export const DEFAULT_MAX_RETRY_DELAY_IN_MS = 5 * 60 * 1000;
+export const DEFAULT_POLL_INTERVAL_IN_MS = 1000;
+const JOURNAL_VERSION = 1;
+const ERROR_CODE_FILE_NOT_FOUND = 'ENOENT';
+
+/**
+ * A file waiting to be replicated.
+ */
+export interface ReplicationTask {
+    id: string;
+    storageFilePath: string;
+    containerOrBucketName: string;
+    sourceStorageId: string;
+
+    /**
+     * The IDs of the storages the file has not been replicated to yet.
+     */
+    targetStorageIds: string[];
+
+    attempts: number;
+
+    /**
+     * The time of the next attempt in milliseconds since the epoch.
+     */
+    nextAttemptTime: number;
+
+    /**
+     * The error of the last failed attempt as a string or null.
+     */
+    lastError: string;
+
+    createdTime: number;
+}
+
+export interface ReplicationQueueOptions {
+    /**
+     * The path of the file where the pending tasks and the dead letters are saved. If not given,
+     * the queue is kept in memory only.
+     */
+    journalFilePath?: string;
+
+    /**
+     * The number of attempts before a task is moved to the dead letters. The default is DEFAULT_MAX_ATTEMPTS.
+     */
+    maxAttempts?: number;
+
+    /**
+     * The delay before the first retry. The delay is doubled after each failed attempt.
+     * The default is DEFAULT_INITIAL_RETRY_DELAY_IN_MS.
+     */
+    initialRetryDelayInMs?: number;
+
+    /**
+     * The maximum delay between the attempts. The default is DEFAULT_MAX_RETRY_DELAY_IN_MS.
+     */
+    maxRetryDelayInMs?: number;
+
+    /**
+     * The interval of checking for due tasks when started. The default is DEFAULT_POLL_INTERVAL_IN_MS.
+     */
+    pollIntervalInMs?: number;
+
+    /**
+     * The logger of the tasks given up and the failures of the background processing. The default
+     * is the console.
+     */
+    logger?: Logger;
+}
+
+/**
+ * Replicates the file of the given task.
+ *
+ * @param task The task.
+ * @return The errors by the IDs of the target storages where the replication failed. An empty
+ * object, if replicated to all target storages.
+ */
+export type Replicator = (task: ReplicationTask) => Promise<{ [storageId: string]: any }>;
+
+/**
+ * A queue of files to replicate in the background. The tasks are retried with an exponential
+ * backoff and moved to the dead letters after the maximum number of attempts. The queue is saved
+ * to a journal file on every change, so the pending tasks survive restarts.
+ */
+export class ReplicationQueue {
+    protected options: ReplicationQueueOptions;
+    protected pendingTasks: ReplicationTask[] = [];
+    protected deadLetters: ReplicationTask[] = [];
+    protected replicator: Replicator = null;
+    protected timer: NodeJS.Timer = null;
+    protected started: boolean = false;
+    protected processing: Promise<number> = null;
+    protected journalSaving: Promise<any> = Promise.resolve();
+
+    /**
+     * @param options The options of the queue (optional).
+     */
+    constructor(options?: ReplicationQueueOptions) {
+        this.options = Object.assign({
+            maxAttempts: DEFAULT_MAX_ATTEMPTS,
+            initialRetryDelayInMs: DEFAULT_INITIAL_RETRY_DELAY_IN_MS,
+            maxRetryDelayInMs: DEFAULT_MAX_RETRY_DELAY_IN_MS,
+            pollIntervalInMs: DEFAULT_POLL_INTERVAL_IN_MS,
+            logger: console
+        }, options || {});
+    }
+
+    /**
+     * Loads the pending tasks and the dead letters from the journal file, if any.
+     *
+     * @return Resolved to null when loaded. Rejected, if the journal file cannot be read or parsed.
+     */
+    public async initialize(): Promise<any> {
+        if (!this.options.journalFilePath) {
+            return null;
+        }
+
+        let journalFilePath: string = this.options.journalFilePath;
+
+        const journal = await new Promise<any>(function(resolve, reject) {
+            fs.readFile(journalFilePath, 'utf8', function(error, data) {
+                if (error && error.code === ERROR_CODE_FILE_NOT_FOUND) {
+                    resolve(null);
+                    return;
+                } else if (error) {
+                    reject(error);
+                    return;
+                }
+
+                try {
+                    resolve(JSON.parse(data));
+                } catch (error) {
+                    reject(new Error('Invalid replication journal "' + journalFilePath + '": ' + error.message));
+                }
+            });
+        });
+
+        if (journal) {
+            this.pendingTasks = journal.pendingTasks || [];
+            this.deadLetters = journal.deadLetters || [];
+        }
+
+        return null;
+    }
+
+    /**
+     * Sets the function replicating the files.
+     *
+     * @param replicator The replicator.
+     */
+    public setReplicator(replicator: Replicator) {
+        this.replicator = replicator;
+    }
+
+    /**
+     * Adds the given file to the queue. If the file is already queued, the target storages are
+     * added to the existing task.
+     *
+     * @param storageFilePath The file/blob path in the storage.
+     * @param sourceStorageId The ID of the storage to copy the file from.
+     * @param targetStorageIds The IDs of the storages to copy the file to.
+     * @param containerOrBucketName The name of the container/bucket.
+     * @return The task, once saved to the journal.
+     */
+    public async enqueue(storageFilePath: string, sourceStorageId: string, targetStorageIds: string[],
+        containerOrBucketName?: string): Promise<ReplicationTask> {
+        let task: ReplicationTask = this.pendingTasks.find((pendingTask) =>
+            pendingTask.storageFilePath === storageFilePath
+            && pendingTask.containerOrBucketName === (containerOrBucketName || null)
+            && pendingTask.sourceStorageId === sourceStorageId);
+
+        if (task) {
+            targetStorageIds.forEach((storageId) => {
+                if (task.targetStorageIds.indexOf(storageId) === -1) {
+                    task.targetStorageIds.push(storageId);
+                }
+            });
+        } else {
+            task = {
+                id: crypto.randomBytes(16).toString('hex'),
+                storageFilePath: storageFilePath,
+                containerOrBucketName: containerOrBucketName || null,
+                sourceStorageId: sourceStorageId,
+                targetStorageIds: targetStorageIds.slice(),
+                attempts: 0,
+                nextAttemptTime: Date.now(),
+                lastError: null,
+                createdTime: Date.now()
+            };
+
+            this.pendingTasks.push(task);
+        }
+
+        await this.saveJournal();
+
+        if (this.started) {
+            this.schedule(0);
+        }
+
+        return task;
+    }
+
+    /**
+     * Starts processing the tasks in the background.
+     */
+    public start() {
+        this.started = true;
+        this.schedule(0);
+    }
+
+    /**
+     * Stops processing the tasks. The task being processed, if any, is completed.
+     */
+    public stop() {
+        this.started = false;
+
+        if (this.timer !== null) {
+            clearTimeout(this.timer);
+            this.timer = null;
+        }
+    }
+
+    /**
+     * @return True, if processing the tasks in the background.
+     */
+    public isStarted(): boolean {
+        return this.started;
+    }
+
+    /**
+     * Processes the tasks that are due one by one.
+     *
+     * @return The number of tasks processed.
+     */
+    public processDueTasks(): Promise<number> {
+        if (this.processing === null) {
+            this.processing = this.processTasks().then((processedTaskCount) => {
+                this.processing = null;
+                return processedTaskCount;
+            }, (error) => {
+                this.processing = null;
+                throw error;
+            });
+        }
+
+        return this.processing;
+    }
+
+    /**
+     * @return Copies of the tasks waiting to be processed.
+     */
+    public getPendingTasks(): ReplicationTask[] {
+        return this.pendingTasks.map((task) => Object.assign({}, task, { targetStorageIds: task.targetStorageIds.slice() }));
+    }
+
+    /**
+     * @return Copies of the tasks that failed the maximum number of times.
+     */
+    public getDeadLetters(): ReplicationTask[] {
+        return this.deadLetters.map((task) => Object.assign({}, task, { targetStorageIds: task.targetStorageIds.slice() }));
+    }
+
+    /**
+     * Moves the given dead letter back to the queue.
+     *
+     * @param taskId The ID of the task.
+     * @return True, if the task was found. False otherwise.
+     */
+    public async retryDeadLetter(taskId: string): Promise<boolean> {
+        const index: number = this.deadLetters.findIndex((task) => task.id === taskId);
+
+        if (index === -1) {
+            return false;
+        }
+
+        let task: ReplicationTask = this.deadLetters.splice(index, 1)[0];
+        task.attempts = 0;
+        task.nextAttemptTime = Date.now();
+        this.pendingTasks.push(task);
+        await this.saveJournal();
+
+        if (this.started) {
+            this.schedule(0);
+        }
+
+        return true;
+    }
+
+    /**
+     * Removes the given dead letter.
+     *
+     * @param taskId The ID of the task.
+     * @return True, if the task was found. False otherwise.
+     */
+    public async removeDeadLetter(taskId: string): Promise<boolean> {
+        const index: number = this.deadLetters.findIndex((task) => task.id === taskId);
+
+        if (index === -1) {
+            return false;
+        }
+
+        this.deadLetters.splice(index, 1);
+        await this.saveJournal();
+        return true;
+    }
+
+    /**
+     * @param attempts The number of failed attempts.
+     * @return The delay before the next attempt.
+     */
+    public getRetryDelayInMs(attempts: number): number {
+        return Math.min(this.options.initialRetryDelayInMs * Math.pow(2, attempts - 1), this.options.maxRetryDelayInMs);
+    }
+
+    /**
+     * Processes the due tasks.
+     *
+     * @return The number of tasks processed.
+     */
+    protected async processTasks(): Promise<number> {
+        if (this.replicator === null) {
+            throw new Error('No replicator set');
+        }
+
+        let processedTaskCount: number = 0;
+        let task: ReplicationTask = null;
+
+        while ((task = this.pendingTasks.find((pendingTask) => pendingTask.nextAttemptTime <= Date.now())) !== undefined) {
+            // Targets may be added to the task while replicating
+            const attemptedStorageIds: string[] = task.targetStorageIds.slice();
+            let errorsByStorage: { [storageId: string]: any } = null;
+
+            try {
+                errorsByStorage = await this.replicator(task);
+            } catch (error) {
+                errorsByStorage = {};
+                attemptedStorageIds.forEach((storageId) => errorsByStorage[storageId] = error);
+            }
+
+            processedTaskCount++;
+            task.attempts++;
+            task.targetStorageIds = task.targetStorageIds.filter((storageId) =>
+                attemptedStorageIds.indexOf(storageId) === -1 || !!errorsByStorage[storageId]);
+            this.pendingTasks.splice(this.pendingTasks.indexOf(task), 1);
+
+            if (task.targetStorageIds.length > 0) {
+                task.lastError = task.targetStorageIds.map((storageId) =>
+                    storageId + ': ' + errorsByStorage[storageId]).join(', ');
+
+                if (task.attempts >= this.options.maxAttempts) {
+                    this.options.logger.error('Giving up replicating "' + task.storageFilePath + '": ' + task.lastError);
+                    this.deadLetters.push(task);
+                } else {
+                    task.nextAttemptTime = Date.now() + this.getRetryDelayInMs(task.attempts);
+                    this.pendingTasks.push(task);
+                }
+            }
+
+            await this.saveJournal();
+        }
+
+        return processedTaskCount;
+    }
+
+    /**
+     * Schedules processing the tasks after the given delay.
+     *
+     * @param delayInMs The delay.
+     */
+    protected schedule(delayInMs: number) {
+        if (this.timer !== null) {
+            clearTimeout(this.timer);
+        }
+
+        this.timer = setTimeout(() => {
+            this.timer = null;
+
+            this.processDueTasks().catch((error) => {
+                this.options.logger.error('Failed to process the replication queue: ' + error);
+            }).then(() => {
+                if (this.started && this.timer === null) {
+                    this.schedule(this.options.pollIntervalInMs);
+                }
+            });
+        }, delayInMs);
+
+        // Do not keep the process alive only for the queue
+        this.timer.unref();
+    }
+
+    /**
+     * Saves the queue to the journal file. The file is replaced atomically, so that a crash
+     * cannot leave it half written.
+     *
+     * @return Null, if successful. An error otherwise.
+     */
+    protected saveJournal(): Promise<any> {
+        if (!this.options.journalFilePath) {
+            return Promise.resolve(null);
+        }
+
+        const journalFilePath: string = this.options.journalFilePath;
+        const temporaryFilePath: string = journalFilePath + '.tmp';
+        const data: string = JSON.stringify({
+            version: JOURNAL_VERSION,
+            pendingTasks: this.pendingTasks,
+            deadLetters: this.deadLetters
+        });
+
+        let saving: Promise<any> = this.journalSaving.catch(() => null).then(() => new Promise(function(resolve, reject) {
+            fs.writeFile(temporaryFilePath, data, function(error) {
+                if (error) {
+                    reject(error);
+                } else {
+                    fs.rename(temporaryFilePath, journalFilePath, function(error) {
+                        if (error) {
+                            reject(error);
+                        } else {
+                            resolve(null);
+                        }
+                    });
+                }
+            });
+        }));
+
+        this.journalSaving = saving;
+        return saving;
+    }
+}
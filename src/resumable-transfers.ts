@@ -0,0 +1,685 @@
+import * as fs from 'fs';
+import { IStorageClient, StorageFileMetadata, StorageFileProperties } from './storage-client';
+import { ChecksumAlgorithm, computeFileChecksum } from './integrity';
+import { ChecksumMismatchError, StorageError, StorageErrorCode, isNotFoundError, toStorageError } from './storage-errors';
+
+export const DEFAULT_PART_SIZE_IN_BYTES = 8 * 1024 * 1024;
+export const DEFAULT_TRANSFER_CONCURRENCY = 4;
+export const DEFAULT_STAGING_THRESHOLD_IN_BYTES = 64 * 1024 * 1024;
+export const CHECKPOINT_FILE_EXTENSION = '.checkpoint.json';
+export const PARTIAL_FILE_EXTENSION = '.partial';
+const CHECKPOINT_VERSION = 1;
+const TEMPORARY_FILE_EXTENSION = '.tmp';
+const ERROR_CODE_FILE_NOT_FOUND = 'ENOENT';
+
+/**
+ * The state of a transfer reported to the progress callback.
+ */
+export interface TransferProgress {
+    storageFilePath: string;
+    transferredBytes: number;
+    totalBytes: number;
+
+    /**
+     * The ID of the storage transferred to or from. Only set by MultiStorageClient.
+     */
+    storageId?: string;
+}
+
+export type TransferProgressCallback = (progress: TransferProgress) => void;
+
+export interface TransferOptions {
+    /**
+     * The size of the parts (S3) or the blocks (Azure) a large file is transferred in. The default is
+     * DEFAULT_PART_SIZE_IN_BYTES. Raised for the files that would exceed the maximum part count of
+     * the storage.
+     */
+    partSizeInBytes?: number;
+
+    /**
+     * The number of parts transferred at the same time. The default is DEFAULT_TRANSFER_CONCURRENCY.
+     */
+    concurrency?: number;
+
+    /**
+     * Called whenever a part is transferred, and once when a transfer starts, with the bytes
+     * transferred by the earlier attempts.
+     */
+    onProgress?: TransferProgressCallback;
+}
+
+export interface ResumableTransferOptions extends TransferOptions {
+    /**
+     * The file keeping the parts transferred so far. The default is the local file path followed
+     * by CHECKPOINT_FILE_EXTENSION. The file is removed once the transfer completes.
+     */
+    checkpointFilePath?: string;
+}
+
+/**
+ * The options of the replication of the large files by MultiStorageClient.
+ */
+export interface ReplicationTransferOptions extends TransferOptions {
+    /**
+     * The existing directory where the large files are downloaded to before uploading them to the
+     * storages missing them, along with the checkpoints of the transfers.
+     */
+    stagingDirectoryPath: string;
+
+    /**
+     * The files of at least this size are replicated through the staging directory. The default is
+     * DEFAULT_STAGING_THRESHOLD_IN_BYTES.
+     */
+    stagingThresholdInBytes?: number;
+}
+
+/**
+ * A part uploaded in a multipart upload.
+ */
+export interface UploadedPart {
+    /**
+     * The number of the part starting from 1.
+     */
+    partNumber: number;
+
+    /**
+     * The identifier of the part returned by the storage, e.g. the ETag in S3 or the block ID in Azure.
+     */
+    tag: string;
+}
+
+/**
+ * The multipart upload of a single file to a storage.
+ */
+export interface MultipartUploader {
+    /**
+     * The maximum number of parts of a file in the storage.
+     */
+    maxPartCount: number;
+
+    /**
+     * Uploads a file fitting in a single part with a single request.
+     */
+    uploadSinglePart(content: Buffer): Promise<void>;
+
+    /**
+     * Starts a new multipart upload.
+     *
+     * @return The ID of the upload.
+     */
+    createUpload(): Promise<string>;
+    uploadPart(uploadId: string, partNumber: number, content: Buffer): Promise<string>;
+
+    /**
+     * Combines the uploaded parts into the file.
+     */
+    completeUpload(uploadId: string, parts: UploadedPart[]): Promise<void>;
+
+    /**
+     * Discards the uploaded parts.
+     */
+    abortUpload(uploadId: string): Promise<void>;
+}
+
+/**
+ * The ranged download of a single file from a storage.
+ */
+export interface RangeDownloader {
+    getFileProperties(): Promise<StorageFileProperties>;
+
+    /**
+     * Downloads the bytes from start to end (inclusive). Rejected with a ConflictError, if the file
+     * no longer has the given ETag.
+     */
+    downloadRange(start: number, end: number, etag: string): Promise<Buffer>;
+}
+
+/**
+ * A storage client able to resume the interrupted transfers of large files.
+ */
+export interface ResumableStorageClient {
+    uploadFileResumable(localFilePath: string, storageFilePath: string, containerOrBucketName?: string,
+        contentTypeOrMetadata?: string | StorageFileMetadata, options?: ResumableTransferOptions): Promise<void>;
+    downloadFileToDiskResumable(storageFilePath: string, localFilePath: string, containerOrBucketName?: string,
+        options?: ResumableTransferOptions): Promise<void>;
+}
+
+interface UploadCheckpoint {
+    version: number;
+    storageFilePath: string;
+    size: number;
+    lastModified: number;
+    partSizeInBytes: number;
+    uploadId: string;
+    parts: UploadedPart[];
+}
+
+interface DownloadCheckpoint {
+    version: number;
+    storageFilePath: string;
+    size: number;
+    etag: string;
+    partSizeInBytes: number;
+    partNumbers: number[];
+}
+
+/**
+ * @param storageClient A storage client.
+ * @return True, if the storage client implements ResumableStorageClient.
+ */
+export function isResumableStorageClient(storageClient: any): storageClient is ResumableStorageClient {
+    return (!!storageClient && typeof storageClient.uploadFileResumable === 'function'
+        && typeof storageClient.downloadFileToDiskResumable === 'function');
+}
+
+/**
+ * Uploads the given file with the given storage client, resuming an interrupted upload if the
+ * client supports it. Otherwise the file is uploaded in a single attempt.
+ *
+ * @param storageClient The storage client.
+ * @param localFilePath The local path of the file to upload.
+ * @param storageFilePath The file/blob path in the storage.
+ * @param containerOrBucketName The name of the container/bucket.
+ * @param contentTypeOrMetadata The content type or the metadata of the file.
+ * @param options The transfer options.
+ * @return Resolved when the file is uploaded.
+ */
+export async function uploadFileResumable(storageClient: IStorageClient<any>, localFilePath: string, storageFilePath: string,
+    containerOrBucketName?: string, contentTypeOrMetadata?: string | StorageFileMetadata, options?: ResumableTransferOptions): Promise<void> {
+    if (isResumableStorageClient(storageClient)) {
+        return storageClient.uploadFileResumable(localFilePath, storageFilePath, containerOrBucketName, contentTypeOrMetadata, options);
+    }
+
+    const stats: fs.Stats = await statFile(localFilePath);
+    await storageClient.uploadFile(localFilePath, storageFilePath, containerOrBucketName, contentTypeOrMetadata);
+    reportProgress(options || {}, storageFilePath, stats.size, stats.size);
+}
+
+/**
+ * Downloads the given file with the given storage client, resuming an interrupted download if the
+ * client supports it. Otherwise the file is downloaded in a single attempt.
+ *
+ * @param storageClient The storage client.
+ * @param storageFilePath The file/blob path in the storage.
+ * @param localFilePath The desired local path for the file.
+ * @param containerOrBucketName The name of the container/bucket.
+ * @param options The transfer options.
+ * @return Resolved when the file is written.
+ */
+export async function downloadFileToDiskResumable(storageClient: IStorageClient<any>, storageFilePath: string, localFilePath: string,
+    containerOrBucketName?: string, options?: ResumableTransferOptions): Promise<void> {
+    if (isResumableStorageClient(storageClient)) {
+        return storageClient.downloadFileToDiskResumable(storageFilePath, localFilePath, containerOrBucketName, options);
+    }
+
+    await storageClient.downloadFileToDisk(storageFilePath, localFilePath, containerOrBucketName);
+    const stats: fs.Stats = await statFile(localFilePath);
+    reportProgress(options || {}, storageFilePath, stats.size, stats.size);
+}
+
+/**
+ * Throws an error, if the given options are invalid.
+ *
+ * @param options The transfer options.
+ */
+export function checkTransferOptions(options: TransferOptions) {
+    ['partSizeInBytes', 'concurrency'].forEach((name) => {
+        const value: any = options[name];
+
+        if (value !== undefined && value !== null && !(typeof value === 'number' && value > 0 && value % 1 === 0)) {
+            throw new Error('The ' + name + ' must be a positive integer: ' + value);
+        }
+    });
+}
+
+/**
+ * @param localFilePath The local path of the file transferred.
+ * @param options The transfer options (optional).
+ * @return The path of the checkpoint file of the transfer.
+ */
+export function getCheckpointFilePath(localFilePath: string, options?: ResumableTransferOptions): string {
+    return ((options && options.checkpointFilePath) || localFilePath + CHECKPOINT_FILE_EXTENSION);
+}
+
+/**
+ * Uploads the given file in parts uploaded in parallel. If the checkpoint file is given, the parts
+ * uploaded are recorded in it, and the upload continues from the recorded parts, unless the local
+ * file has changed since. If the storage no longer knows the upload (e.g. it was aborted or
+ * expired), the checkpoint is removed, so that the next attempt starts over.
+ *
+ * @param localFilePath The local path of the file to upload.
+ * @param storageFilePath The file/blob path in the storage.
+ * @param uploader The multipart upload of the storage.
+ * @param options The transfer options. Without the checkpoint file the parts are discarded, if the upload fails.
+ * @return Resolved when the file is uploaded. Rejected with a StorageError.
+ */
+export async function uploadFileInParts(localFilePath: string, storageFilePath: string, uploader: MultipartUploader,
+    options: ResumableTransferOptions): Promise<void> {
+    const stats: fs.Stats = await statFile(localFilePath);
+    const checkpointFilePath: string = options.checkpointFilePath || null;
+    const partSizeInBytes: number = Math.max(options.partSizeInBytes || DEFAULT_PART_SIZE_IN_BYTES,
+        Math.ceil(stats.size / uploader.maxPartCount));
+
+    let checkpoint: UploadCheckpoint = (checkpointFilePath ? await readCheckpoint(checkpointFilePath) : null);
+
+    if (checkpoint && (checkpoint.storageFilePath !== storageFilePath || checkpoint.size !== stats.size
+        || checkpoint.lastModified !== stats.mtime.getTime())) {
+        checkpoint = null;
+    }
+
+    if (checkpoint === null && stats.size <= partSizeInBytes) {
+        reportProgress(options, storageFilePath, 0, stats.size);
+        await uploader.uploadSinglePart(await readFilePart(localFilePath, 0, stats.size)).catch((error) => {
+            throw toStorageError(error, storageFilePath);
+        });
+        reportProgress(options, storageFilePath, stats.size, stats.size);
+
+        if (checkpointFilePath) {
+            await removeFile(checkpointFilePath);
+        }
+
+        return;
+    }
+
+    if (checkpoint === null) {
+        checkpoint = {
+            version: CHECKPOINT_VERSION,
+            storageFilePath: storageFilePath,
+            size: stats.size,
+            lastModified: stats.mtime.getTime(),
+            partSizeInBytes: partSizeInBytes,
+            uploadId: await uploader.createUpload().catch((error) => {
+                throw toStorageError(error, storageFilePath);
+            }),
+            parts: []
+        };
+    }
+
+    const uploadedPartNumbers: Set<number> = new Set<number>(checkpoint.parts.map((part) => part.partNumber));
+    const partNumbers: number[] = getPartNumbers(checkpoint.size, checkpoint.partSizeInBytes);
+    let transferredBytes: number = 0;
+    let checkpointSaving: Promise<any> = (checkpointFilePath ? writeCheckpoint(checkpointFilePath, checkpoint) : Promise.resolve());
+
+    partNumbers.filter((partNumber) => uploadedPartNumbers.has(partNumber)).forEach((partNumber) =>
+        transferredBytes += getPartLength(checkpoint.size, checkpoint.partSizeInBytes, partNumber));
+    reportProgress(options, storageFilePath, transferredBytes, checkpoint.size);
+
+    try {
+        await runInParallel(partNumbers.filter((partNumber) => !uploadedPartNumbers.has(partNumber)), options.concurrency,
+            async (partNumber) => {
+                const start: number = (partNumber - 1) * checkpoint.partSizeInBytes;
+                const length: number = getPartLength(checkpoint.size, checkpoint.partSizeInBytes, partNumber);
+                const tag: string = await uploader.uploadPart(checkpoint.uploadId, partNumber,
+                    await readFilePart(localFilePath, start, length));
+
+                checkpoint.parts.push({ partNumber: partNumber, tag: tag });
+                transferredBytes += length;
+
+                if (checkpointFilePath) {
+                    checkpointSaving = checkpointSaving.then(() => writeCheckpoint(checkpointFilePath, checkpoint));
+                }
+
+                reportProgress(options, storageFilePath, transferredBytes, checkpoint.size);
+            });
+
+        checkpoint.parts.sort((a, b) => a.partNumber - b.partNumber);
+        await checkpointSaving;
+        await uploader.completeUpload(checkpoint.uploadId, checkpoint.parts);
+    } catch (error) {
+        await checkpointSaving.catch(() => null);
+
+        if (!checkpointFilePath) {
+            await uploader.abortUpload(checkpoint.uploadId).catch(() => null);
+        } else if (isNotFoundError(error)) {
+            await removeFile(checkpointFilePath).catch(() => null);
+        }
+
+        throw toStorageError(error, storageFilePath);
+    }
+
+    if (checkpointFilePath) {
+        await removeFile(checkpointFilePath);
+    }
+}
+
+/**
+ * Downloads the given file in ranges downloaded in parallel to a partial file next to the local
+ * file, which is renamed to the local file once complete. If the checkpoint file is given, the
+ * parts downloaded are recorded in it, and the download continues from the recorded parts, unless
+ * the file in the storage has changed since. The complete file is checked against the MD5 hash in
+ * the storage, if any, and removed with the checkpoint, if it does not match.
+ *
+ * @param storageFilePath The file/blob path in the storage.
+ * @param localFilePath The desired local path for the file.
+ * @param downloader The ranged download of the storage.
+ * @param options The transfer options. Without the checkpoint file the partial file is removed, if the download fails.
+ * @return Resolved when the file is written. Rejected with a StorageError.
+ */
+export async function downloadFileInParts(storageFilePath: string, localFilePath: string, downloader: RangeDownloader,
+    options: ResumableTransferOptions): Promise<void> {
+    const fileProperties: StorageFileProperties = await downloader.getFileProperties().catch((error) => {
+        throw toStorageError(error, storageFilePath);
+    });
+    const checkpointFilePath: string = options.checkpointFilePath || null;
+    const partialFilePath: string = localFilePath + PARTIAL_FILE_EXTENSION;
+    let checkpoint: DownloadCheckpoint = (checkpointFilePath ? await readCheckpoint(checkpointFilePath) : null);
+
+    if (checkpoint && (checkpoint.storageFilePath !== storageFilePath || checkpoint.size !== fileProperties.size
+        || checkpoint.etag !== fileProperties.etag || !(await fileExists(partialFilePath)))) {
+        checkpoint = null;
+    }
+
+    if (checkpoint === null) {
+        checkpoint = {
+            version: CHECKPOINT_VERSION,
+            storageFilePath: storageFilePath,
+            size: fileProperties.size,
+            etag: fileProperties.etag,
+            partSizeInBytes: options.partSizeInBytes || DEFAULT_PART_SIZE_IN_BYTES,
+            partNumbers: []
+        };
+
+        await closeFile(await openFile(partialFilePath, 'w'));
+    }
+
+    const downloadedPartNumbers: Set<number> = new Set<number>(checkpoint.partNumbers);
+    const partNumbers: number[] = getPartNumbers(checkpoint.size, checkpoint.partSizeInBytes);
+    let transferredBytes: number = 0;
+    let checkpointSaving: Promise<any> = (checkpointFilePath ? writeCheckpoint(checkpointFilePath, checkpoint) : Promise.resolve());
+
+    partNumbers.filter((partNumber) => downloadedPartNumbers.has(partNumber)).forEach((partNumber) =>
+        transferredBytes += getPartLength(checkpoint.size, checkpoint.partSizeInBytes, partNumber));
+    reportProgress(options, storageFilePath, transferredBytes, checkpoint.size);
+
+    try {
+        const fileDescriptor: number = await openFile(partialFilePath, 'r+');
+
+        try {
+            await runInParallel(partNumbers.filter((partNumber) => !downloadedPartNumbers.has(partNumber)), options.concurrency,
+                async (partNumber) => {
+                    const start: number = (partNumber - 1) * checkpoint.partSizeInBytes;
+                    const length: number = getPartLength(checkpoint.size, checkpoint.partSizeInBytes, partNumber);
+                    const content: Buffer = await downloader.downloadRange(start, start + length - 1, checkpoint.etag);
+
+                    if (content.length !== length) {
+                        throw new ChecksumMismatchError('Expected ' + length + ' bytes at ' + start + ' but received '
+                            + content.length, storageFilePath);
+                    }
+
+                    await writeFilePart(fileDescriptor, content, start);
+                    checkpoint.partNumbers.push(partNumber);
+                    transferredBytes += length;
+
+                    if (checkpointFilePath) {
+                        checkpointSaving = checkpointSaving.then(() => writeCheckpoint(checkpointFilePath, checkpoint));
+                    }
+
+                    reportProgress(options, storageFilePath, transferredBytes, checkpoint.size);
+                });
+        } finally {
+            await closeFile(fileDescriptor);
+        }
+
+        await checkpointSaving;
+    } catch (error) {
+        const storageError: StorageError = toStorageError(error, storageFilePath);
+        await checkpointSaving.catch(() => null);
+
+        // Start over, if the file has changed in the storage
+        if (!checkpointFilePath || storageError.code === StorageErrorCode.Conflict) {
+            await removeFile(partialFilePath).catch(() => null);
+
+            if (checkpointFilePath) {
+                await removeFile(checkpointFilePath).catch(() => null);
+            }
+        }
+
+        throw storageError;
+    }
+
+    // The parts are checked against the hash of the whole file, if the storage has it
+    const contentMD5: string = (fileProperties.contentMD5 ? await computeFileChecksum(partialFilePath, ChecksumAlgorithm.MD5) : null);
+
+    if (contentMD5 !== null && contentMD5 !== fileProperties.contentMD5) {
+        await removeFile(partialFilePath).catch(() => null);
+
+        if (checkpointFilePath) {
+            await removeFile(checkpointFilePath).catch(() => null);
+        }
+
+        throw new ChecksumMismatchError('Expected the MD5 hash ' + fileProperties.contentMD5 + ' but the downloaded file has '
+            + contentMD5 + ': ' + storageFilePath, storageFilePath);
+    }
+
+    await renameFile(partialFilePath, localFilePath);
+
+    if (checkpointFilePath) {
+        await removeFile(checkpointFilePath);
+    }
+}
+
+/**
+ * Calls the progress callback of the given options, if any.
+ */
+function reportProgress(options: TransferOptions, storageFilePath: string, transferredBytes: number, totalBytes: number) {
+    if (options.onProgress) {
+        options.onProgress({ storageFilePath: storageFilePath, transferredBytes: transferredBytes, totalBytes: totalBytes });
+    }
+}
+
+/**
+ * @param size The size of the file.
+ * @param partSizeInBytes The size of the parts.
+ * @return The numbers of the parts of the file starting from 1.
+ */
+function getPartNumbers(size: number, partSizeInBytes: number): number[] {
+    return Array.from({ length: Math.ceil(size / partSizeInBytes) }, (value, index) => index + 1);
+}
+
+/**
+ * @return The size of the given part. The last part may be smaller than the others.
+ */
+function getPartLength(size: number, partSizeInBytes: number, partNumber: number): number {
+    return Math.min(partSizeInBytes, size - (partNumber - 1) * partSizeInBytes);
+}
+
+/**
+ * Runs the given task for each item with at most the given number of tasks running at a time. No
+ * more tasks are started after one fails.
+ *
+ * @param items The items.
+ * @param concurrency The maximum number of tasks running at a time. The default is DEFAULT_TRANSFER_CONCURRENCY.
+ * @param task The task.
+ * @return Resolved when all the tasks are done. Rejected with the error of the first failed task,
+ * once the running tasks are done.
+ */
+async function runInParallel<T>(items: T[], concurrency: number, task: (item: T) => Promise<void>): Promise<void> {
+    let nextIndex: number = 0;
+    let firstError: any = null;
+
+    const runTasks = async () => {
+        while (nextIndex < items.length && firstError === null) {
+            try {
+                await task(items[nextIndex++]);
+            } catch (error) {
+                firstError = firstError || error || new Error('Transfer failed');
+            }
+        }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(concurrency || DEFAULT_TRANSFER_CONCURRENCY, items.length) }, runTasks));
+
+    if (firstError !== null) {
+        throw firstError;
+    }
+}
+
+/**
+ * @param checkpointFilePath The path of the checkpoint file.
+ * @return The checkpoint or null, if the file does not exist or is not a checkpoint of this version.
+ */
+function readCheckpoint(checkpointFilePath: string): Promise<any> {
+    return new Promise<any>(function(resolve, reject) {
+        fs.readFile(checkpointFilePath, 'utf8', function(error, data) {
+            if (error && error.code === ERROR_CODE_FILE_NOT_FOUND) {
+                resolve(null);
+            } else if (error) {
+                reject(toStorageError(error));
+            } else {
+                let checkpoint: any = null;
+
+                try {
+                    checkpoint = JSON.parse(data);
+                } catch (parseError) {
+                    // A corrupted checkpoint is replaced
+                }
+
+                resolve(checkpoint && checkpoint.version === CHECKPOINT_VERSION ? checkpoint : null);
+            }
+        });
+    });
+}
+
+/**
+ * Saves the given checkpoint. The file is replaced atomically, so that a crash cannot leave it half written.
+ */
+function writeCheckpoint(checkpointFilePath: string, checkpoint: UploadCheckpoint | DownloadCheckpoint): Promise<void> {
+    const temporaryFilePath: string = checkpointFilePath + TEMPORARY_FILE_EXTENSION;
+    const data: string = JSON.stringify(checkpoint);
+
+    return new Promise<void>(function(resolve, reject) {
+        fs.writeFile(temporaryFilePath, data, function(error) {
+            if (error) {
+                reject(toStorageError(error));
+            } else {
+                fs.rename(temporaryFilePath, checkpointFilePath, function(error) {
+                    if (error) {
+                        reject(toStorageError(error));
+                    } else {
+                        resolve();
+                    }
+                });
+            }
+        });
+    });
+}
+
+function statFile(filePath: string): Promise<fs.Stats> {
+    return new Promise<fs.Stats>(function(resolve, reject) {
+        fs.stat(filePath, function(error, stats) {
+            if (error) {
+                reject(toStorageError(error));
+            } else {
+                resolve(stats);
+            }
+        });
+    });
+}
+
+function fileExists(filePath: string): Promise<boolean> {
+    return statFile(filePath).then(() => true, () => false);
+}
+
+function openFile(filePath: string, flags: string): Promise<number> {
+    return new Promise<number>(function(resolve, reject) {
+        fs.open(filePath, flags, function(error, fileDescriptor) {
+            if (error) {
+                reject(toStorageError(error));
+            } else {
+                resolve(fileDescriptor);
+            }
+        });
+    });
+}
+
+function closeFile(fileDescriptor: number): Promise<void> {
+    return new Promise<void>(function(resolve, reject) {
+        fs.close(fileDescriptor, function(error) {
+            if (error) {
+                reject(toStorageError(error));
+            } else {
+                resolve();
+            }
+        });
+    });
+}
+
+/**
+ * @return The given bytes of the given file.
+ */
+async function readFilePart(filePath: string, start: number, length: number): Promise<Buffer> {
+    const fileDescriptor: number = await openFile(filePath, 'r');
+    let buffer: Buffer = Buffer.alloc(length);
+
+    try {
+        let bytesRead: number = 0;
+
+        while (bytesRead < length) {
+            const count: number = await new Promise<number>(function(resolve, reject) {
+                fs.read(fileDescriptor, buffer, bytesRead, length - bytesRead, start + bytesRead, function(error, count) {
+                    if (error) {
+                        reject(toStorageError(error));
+                    } else {
+                        resolve(count);
+                    }
+                });
+            });
+
+            if (count === 0) {
+                throw new Error('The file "' + filePath + '" ended before ' + (start + length) + ' bytes');
+            }
+
+            bytesRead += count;
+        }
+    } finally {
+        await closeFile(fileDescriptor);
+    }
+
+    return buffer;
+}
+
+/**
+ * Writes the given content to the given position of the open file.
+ */
+async function writeFilePart(fileDescriptor: number, content: Buffer, start: number): Promise<void> {
+    let bytesWritten: number = 0;
+
+    while (bytesWritten < content.length) {
+        bytesWritten += await new Promise<number>(function(resolve, reject) {
+            fs.write(fileDescriptor, content, bytesWritten, content.length - bytesWritten, start + bytesWritten, function(error, count) {
+                if (error) {
+                    reject(toStorageError(error));
+                } else {
+                    resolve(count);
+                }
+            });
+        });
+    }
+}
+
+function renameFile(sourceFilePath: string, destinationFilePath: string): Promise<void> {
+    return new Promise<void>(function(resolve, reject) {
+        fs.rename(sourceFilePath, destinationFilePath, function(error) {
+            if (error) {
+                reject(toStorageError(error));
+            } else {
+                resolve();
+            }
+        });
+    });
+}
+
+/**
+ * Removes the given file. A file that does not exist is ignored.
+ */
+function removeFile(filePath: string): Promise<void> {
+    return new Promise<void>(function(resolve, reject) {
+        fs.unlink(filePath, function(error) {
+            if (error && error.code !== ERROR_CODE_FILE_NOT_FOUND) {
+                reject(toStorageError(error));
+            } else {
+                resolve();
+            }
+        });
+    });
+}
@@ -1,17 +1,301 @@
-export const ERROR_CODE_NOT_FOUND: string = 'NotFound';
+import { Readable } from 'stream';
+import { NotFoundError, StorageErrorCode } from './storage-errors';
+
+export const ERROR_CODE_NOT_FOUND: string = StorageErrorCode.NotFound;
+export const DEFAULT_SIGNED_URL_EXPIRY_IN_SECONDS = 3600;
+
+/**
+ * What a signed URL grants access to.
+ */
+export enum SignedUrlPermission {
+    /**
+     * Downloading the file with a GET request.
+     */
+    Read = 'read',
+
+    /**
+     * Uploading the file with a PUT request, replacing the file if it exists. Azure expects the
+     * header "x-ms-blob-type: BlockBlob" in the request.
+     */
+    Write = 'write'
+};
+
+export interface SignedUrlOptions {
+    /**
+     * The time the URL is valid in seconds. The default is DEFAULT_SIGNED_URL_EXPIRY_IN_SECONDS.
+     */
+    expiry?: number;
+
+    /**
+     * The default is SignedUrlPermission.Read.
+     */
+    permissions?: SignedUrlPermission;
+
+    /**
+     * The content type an upload must be made with, if any. Only S3 signs it.
+     */
+    contentType?: string;
+}
+
+/**
+ * The metadata of a stored file carried over when the file is replicated.
+ */
+export interface StorageFileMetadata {
+    contentType?: string;
+    cacheControl?: string;
+    contentDisposition?: string;
+
+    /**
+     * The custom metadata (x-amz-meta-* in S3, blob metadata in Azure). The keys are case-insensitive
+     * and returned in lower case.
+     */
+    userMetadata?: { [key: string]: string };
+}
+
+/**
+ * The properties of a stored file.
+ */
+export interface StorageFileProperties extends StorageFileMetadata {
+    size: number;
+    lastModified: Date;
+    etag?: string;
+
+    /**
+     * The base64 encoded MD5 hash of the content, if known.
+     */
+    contentMD5?: string;
+}
+
+/**
+ * An entry yielded when listing the files of a storage.
+ */
+export interface StorageListEntry {
+    /**
+     * The key of the file or, if isPrefix is true, the common prefix of the keys in a "directory"
+     * including the delimiter.
+     */
+    name: string;
+    isPrefix: boolean;
+
+    /**
+     * The size of the file. Not defined for prefixes.
+     */
+    size?: number;
+
+    /**
+     * The last modified time of the file. Not defined for prefixes.
+     */
+    lastModified?: Date;
+}
+
+/**
+ * The options for listing the files of a storage.
+ */
+export interface ListOptions {
+    /**
+     * If given, the keys containing the delimiter after the prefix are grouped and listed as a
+     * single prefix entry, e.g. '/' to list "directories".
+     */
+    delimiter?: string;
+
+    /**
+     * The maximum number of entries retrieved per request. If not given, the default of the backend is used.
+     */
+    pageSize?: number;
+}
 
 /**
- * Unified interface for simple storage clients.
+ * Unified interface for simple storage clients. The methods are rejected with a StorageError
+ * (see storage-errors.ts) when the operation fails.
+ *
+ * The type parameters are the result of the upload, copy and move methods and the listing result
+ * of the backend returned by listFilesWithPrefix().
  */
-export interface IStorageClient {
+export interface IStorageClient<TUploadResult = void, TListResult extends object = object> {
     isInitialized(): boolean;
     initialize(...initializationArguments: string[]);
+
+    /**
+     * Tells whether the storage keeps the content type and the user metadata given to the uploads.
+     * The local file system does not, so the callers relying on the metadata (e.g. the encryption
+     * keeping the wrapped data keys in it) must check this.
+     */
+    keepsUserMetadata(): boolean;
+
+    /**
+     * Resolves to true or false, if the storage tells whether the file exists. Rejected, if the
+     * presence of the file is unknown (e.g. access denied or a network failure).
+     */
     fileExists(storageFilePath: string, containerOrBucketName?: string): Promise<boolean>;
-    listFilesWithPrefix(storageFileNamePrefix: string, containerOrBucketName?: string): Promise<any>;
+    getFileProperties(storageFilePath: string, containerOrBucketName?: string): Promise<StorageFileProperties>;
+
+    /**
+     * Resolves to the listing result of the backend (e.g. S3.Types.ListObjectsV2Output). Use
+     * listFiles() for a listing that is the same for all storages.
+     */
+    listFilesWithPrefix(storageFileNamePrefix: string, containerOrBucketName?: string): Promise<TListResult>;
     listFileNamesWithPrefix(storageFileNamePrefix?: string, containerOrBucketName?: string): Promise<string[]>;
-    downloadFile(storageFilePath: string, containerOrBucketName?: string): Promise<any>;
-    downloadFileToDisk(storageFilePath: string, localFilePath: string, containerOrBucketName?: string): Promise<any>;
-    uploadFile(localFilePath: string, storageFilePath: string, containerOrBucketName?: string): Promise<any>;
-    deleteFiles(storageFilePaths: string[], containerOrBucketName?: string): Promise<any>;
-    deleteFile(storageFilePath: string, containerOrBucketName?: string): Promise<any>;
+    listFiles(storageFileNamePrefix?: string, containerOrBucketName?: string, options?: ListOptions): AsyncIterableIterator<StorageListEntry>;
+    downloadFile(storageFilePath: string, containerOrBucketName?: string): Promise<Buffer>;
+    downloadFileToDisk(storageFilePath: string, localFilePath: string, containerOrBucketName?: string): Promise<void>;
+    downloadFileAsStream(storageFilePath: string, containerOrBucketName?: string): Promise<Readable>;
+    downloadFileAsBuffer(storageFilePath: string, containerOrBucketName?: string): Promise<Buffer>;
+    uploadFile(localFilePath: string, storageFilePath: string, containerOrBucketName?: string, contentTypeOrMetadata?: string | StorageFileMetadata): Promise<TUploadResult>;
+    uploadStream(readStream: Readable, storageFilePath: string, containerOrBucketName?: string, contentTypeOrMetadata?: string | StorageFileMetadata): Promise<TUploadResult>;
+    uploadBuffer(buffer: Buffer, storageFilePath: string, containerOrBucketName?: string, contentTypeOrMetadata?: string | StorageFileMetadata): Promise<TUploadResult>;
+    deleteFiles(storageFilePaths: string[], containerOrBucketName?: string): Promise<void>;
+    deleteFile(storageFilePath: string, containerOrBucketName?: string): Promise<void>;
+
+    /**
+     * Copies the given file including its metadata within the storage, without downloading it.
+     * The target container/bucket defaults to the source one. Rejected with a NotFoundError, if
+     * the source file does not exist.
+     */
+    copyFile(sourceStorageFilePath: string, targetStorageFilePath: string, containerOrBucketName?: string,
+        targetContainerOrBucketName?: string): Promise<TUploadResult>;
+
+    /**
+     * Moves (renames) the given file as copyFile() and deletes the source file.
+     */
+    moveFile(sourceStorageFilePath: string, targetStorageFilePath: string, containerOrBucketName?: string,
+        targetContainerOrBucketName?: string): Promise<TUploadResult>;
+
+    /**
+     * Resolves to a URL the given file can be downloaded from (or uploaded to) without credentials
+     * until it expires, e.g. an S3 presigned URL or an Azure SAS URL. Rejected with a
+     * NotSupportedError, if the storage cannot be accessed through URLs.
+     */
+    getSignedUrl(storageFilePath: string, containerOrBucketName?: string, options?: SignedUrlOptions): Promise<string>;
+}
+
+/**
+ * A storage client able to replace the user metadata of a stored file without uploading the
+ * content again.
+ */
+export interface MetadataUpdatingStorageClient {
+    /**
+     * Replaces the user metadata of the given file. If the ETag is given, the metadata is replaced
+     * only if the file still has it; rejected with a ConflictError otherwise.
+     */
+    setUserMetadata(storageFilePath: string, userMetadata: { [key: string]: string }, containerOrBucketName?: string,
+        etag?: string): Promise<void>;
+}
+
+/**
+ * A storage client able to copy a file from a URL on the server side, so that the content does
+ * not pass through the client.
+ */
+export interface UrlCopyingStorageClient {
+    /**
+     * Copies the file at the given URL to the given file with the given metadata.
+     */
+    copyFileFromUrl(sourceUrl: string, storageFilePath: string, containerOrBucketName?: string,
+        contentTypeOrMetadata?: string | StorageFileMetadata): Promise<void>;
+}
+
+/**
+ * @param storageFilePath The path of the file that was not found.
+ * @return An error with the code ERROR_CODE_NOT_FOUND.
+ */
+export function createNotFoundError(storageFilePath: string): NotFoundError {
+    return new NotFoundError('File not found: ' + storageFilePath, storageFilePath);
+}
+
+/**
+ * Rejects copying or moving a file onto itself, which would delete or truncate the file in some storages.
+ *
+ * @param sourceStorageFilePath The path of the file to copy.
+ * @param targetStorageFilePath The path of the copy.
+ * @param containerOrBucketName The name of the container/bucket of the file.
+ * @param targetContainerOrBucketName The name of the container/bucket of the copy.
+ */
+export function checkCopyTarget(sourceStorageFilePath: string, targetStorageFilePath: string, containerOrBucketName: string,
+    targetContainerOrBucketName: string) {
+    if (sourceStorageFilePath === targetStorageFilePath && containerOrBucketName === targetContainerOrBucketName) {
+        throw new Error('Cannot copy file "' + sourceStorageFilePath + '" onto itself');
+    }
+}
+
+/**
+ * @param contentTypeOrMetadata The content type or the metadata of a file (optional).
+ * @return The metadata fields only with the user metadata keys in lower case. Never null.
+ */
+export function toStorageFileMetadata(contentTypeOrMetadata?: string | StorageFileMetadata): StorageFileMetadata {
+    if (typeof contentTypeOrMetadata === 'string') {
+        return { contentType: contentTypeOrMetadata };
+    }
+
+    let metadata: StorageFileMetadata = {};
+
+    if (contentTypeOrMetadata) {
+        metadata.contentType = contentTypeOrMetadata.contentType;
+        metadata.cacheControl = contentTypeOrMetadata.cacheControl;
+        metadata.contentDisposition = contentTypeOrMetadata.contentDisposition;
+
+        if (contentTypeOrMetadata.userMetadata) {
+            metadata.userMetadata = {};
+
+            Object.keys(contentTypeOrMetadata.userMetadata).forEach((key) => {
+                metadata.userMetadata[key.toLowerCase()] = contentTypeOrMetadata.userMetadata[key];
+            });
+        }
+    }
+
+    return metadata;
+}
+
+/**
+ * @param storageClient A storage client.
+ * @return True, if the storage client implements MetadataUpdatingStorageClient.
+ */
+export function isMetadataUpdatingStorageClient(storageClient: any): storageClient is MetadataUpdatingStorageClient {
+    return (!!storageClient && typeof storageClient.setUserMetadata === 'function');
+}
+
+/**
+ * Replaces the user metadata of the given file with the given storage client.
+ *
+ * @param storageClient The storage client.
+ * @param storageFilePath The file/blob path in the storage.
+ * @param userMetadata The new user metadata.
+ * @param containerOrBucketName The name of the container/bucket.
+ * @param etag If given, the metadata is replaced only if the file still has this ETag (optional).
+ * @return Resolved when the metadata is replaced. Rejected, if the storage client does not
+ * implement MetadataUpdatingStorageClient.
+ */
+export function setUserMetadata(storageClient: IStorageClient<any>, storageFilePath: string, userMetadata: { [key: string]: string },
+    containerOrBucketName?: string, etag?: string): Promise<void> {
+    if (!isMetadataUpdatingStorageClient(storageClient)) {
+        return Promise.reject(new Error('The storage client cannot replace the metadata of file "' + storageFilePath + '"'));
+    }
+
+    return storageClient.setUserMetadata(storageFilePath, userMetadata, containerOrBucketName, etag);
+}
+
+/**
+ * @param storageClient A storage client.
+ * @return True, if the storage client implements UrlCopyingStorageClient.
+ */
+export function isUrlCopyingStorageClient(storageClient: any): storageClient is UrlCopyingStorageClient {
+    return (!!storageClient && typeof storageClient.copyFileFromUrl === 'function');
+}
+
+/**
+ * Copies the file at the given URL to the given file with the given storage client.
+ *
+ * @param storageClient The storage client.
+ * @param sourceUrl The URL of the file to copy.
+ * @param storageFilePath The file/blob path in the storage.
+ * @param containerOrBucketName The name of the container/bucket.
+ * @param contentTypeOrMetadata The content type or the metadata of the file.
+ * @return Resolved when the file is copied. Rejected, if the storage client does not implement
+ * UrlCopyingStorageClient.
+ */
+export function copyFileFromUrl(storageClient: IStorageClient<any>, sourceUrl: string, storageFilePath: string,
+    containerOrBucketName?: string, contentTypeOrMetadata?: string | StorageFileMetadata): Promise<void> {
+    if (!isUrlCopyingStorageClient(storageClient)) {
+        return Promise.reject(new Error('The storage client cannot copy file "' + storageFilePath + '" from a URL'));
+    }
+
+    return storageClient.copyFileFromUrl(sourceUrl, storageFilePath, containerOrBucketName, contentTypeOrMetadata);
 }
@@ -0,0 +1,284 @@
+/**
+ * The codes of the errors reported by the storage clients regardless of the backend.
+ */
+export enum StorageErrorCode {
+    NotFound = 'NotFound',
+    AccessDenied = 'AccessDenied',
+    Throttled = 'Throttled',
+    Transient = 'Transient',
+    Conflict = 'Conflict',
+
+    /**
+     * The key is not allowed in the storage, e.g. too long or containing invalid characters.
+     */
+    InvalidKey = 'InvalidKey',
+
+    /**
+     * The content read or written does not match its size or hash, e.g. corrupted in transit.
+     */
+    ChecksumMismatch = 'ChecksumMismatch',
+
+    /**
+     * An encrypted file cannot be decrypted, e.g. its master key is not known or the content was tampered with.
+     */
+    DecryptionFailed = 'DecryptionFailed',
+
+    /**
+     * The storage does not support the operation, e.g. signed URLs of the local file system.
+     */
+    NotSupported = 'NotSupported',
+    Unknown = 'Unknown'
+};
+
+/**
+ * Whether a file is present in a storage.
+ */
+export enum FilePresence {
+    Present = 'present',
+    Missing = 'missing',
+
+    /**
+     * The storage could not be asked, e.g. due to a network failure or missing permissions.
+     */
+    Unknown = 'unknown'
+};
+
+// The codes of AWS S3, Azure Blob Storage and Node.js mapped to the storage error codes
+const ERROR_CODES_BY_BACKEND_CODE: { [backendCode: string]: StorageErrorCode } = {
+    // AWS S3
+    NotFound: StorageErrorCode.NotFound,
+    NoSuchKey: StorageErrorCode.NotFound,
+    NoSuchBucket: StorageErrorCode.NotFound,
+    NoSuchUpload: StorageErrorCode.NotFound,
+    AccessDenied: StorageErrorCode.AccessDenied,
+    Forbidden: StorageErrorCode.AccessDenied,
+    InvalidAccessKeyId: StorageErrorCode.AccessDenied,
+    SignatureDoesNotMatch: StorageErrorCode.AccessDenied,
+    SlowDown: StorageErrorCode.Throttled,
+    Throttling: StorageErrorCode.Throttled,
+    ThrottlingException: StorageErrorCode.Throttled,
+    RequestLimitExceeded: StorageErrorCode.Throttled,
+    PreconditionFailed: StorageErrorCode.Conflict,
+    OperationAborted: StorageErrorCode.Conflict,
+    KeyTooLongError: StorageErrorCode.InvalidKey,
+    BadDigest: StorageErrorCode.ChecksumMismatch,
+    NetworkingError: StorageErrorCode.Transient,
+    TimeoutError: StorageErrorCode.Transient,
+    RequestTimeout: StorageErrorCode.Transient,
+    InternalError: StorageErrorCode.Transient,
+    ServiceUnavailable: StorageErrorCode.Transient,
+
+    // Azure Blob Storage
+    BlobNotFound: StorageErrorCode.NotFound,
+    ContainerNotFound: StorageErrorCode.NotFound,
+    // The uncommitted blocks expired
+    InvalidBlockList: StorageErrorCode.NotFound,
+    AuthenticationFailed: StorageErrorCode.AccessDenied,
+    AuthorizationFailure: StorageErrorCode.AccessDenied,
+    InsufficientAccountPermissions: StorageErrorCode.AccessDenied,
+    ServerBusy: StorageErrorCode.Throttled,
+    BlobAlreadyExists: StorageErrorCode.Conflict,
+    ConditionNotMet: StorageErrorCode.Conflict,
+    LeaseIdMissing: StorageErrorCode.Conflict,
+    InvalidResourceName: StorageErrorCode.InvalidKey,
+    Md5Mismatch: StorageErrorCode.ChecksumMismatch,
+    OperationTimedOut: StorageErrorCode.Transient,
+    InternalServerError: StorageErrorCode.Transient,
+
+    // Node.js
+    ENOENT: StorageErrorCode.NotFound,
+    ENOTDIR: StorageErrorCode.NotFound,
+    EACCES: StorageErrorCode.AccessDenied,
+    EPERM: StorageErrorCode.AccessDenied,
+    EEXIST: StorageErrorCode.Conflict,
+    ETIMEDOUT: StorageErrorCode.Transient,
+    ECONNRESET: StorageErrorCode.Transient,
+    ECONNREFUSED: StorageErrorCode.Transient,
+    EPIPE: StorageErrorCode.Transient,
+    EAI_AGAIN: StorageErrorCode.Transient,
+    EBUSY: StorageErrorCode.Transient,
+    EMFILE: StorageErrorCode.Transient
+};
+
+// The checks of the Azure Storage SDK failing without an error code
+const CHECKSUM_MISMATCH_MESSAGE_PATTERN = /^(Hash mismatch \(integrity check failed\)|An incorrect number of bytes was read)/;
+
+/**
+ * The base class of the errors reported by the storage clients.
+ */
+export class StorageError extends Error {
+    public code: StorageErrorCode;
+
+    /**
+     * The path of the file the operation failed with, if any.
+     */
+    public storageFilePath: string;
+
+    /**
+     * The HTTP status code of the response, if any.
+     */
+    public statusCode: number;
+
+    /**
+     * The original error of the SDK or the file system, if any.
+     */
+    public cause: any;
+
+    /**
+     * @param code The error code.
+     * @param message The error message.
+     * @param storageFilePath The path of the file (optional).
+     * @param cause The original error (optional).
+     */
+    constructor(code: StorageErrorCode, message: string, storageFilePath?: string, cause?: any) {
+        super(message);
+        this.name = this.constructor.name;
+        this.code = code;
+        this.storageFilePath = storageFilePath || null;
+        this.statusCode = (cause && cause.statusCode) || null;
+        this.cause = cause || null;
+    }
+
+    /**
+     * @return True, if the operation may succeed when retried.
+     */
+    public isRetryable(): boolean {
+        return (this.code === StorageErrorCode.Throttled || this.code === StorageErrorCode.Transient
+            || this.code === StorageErrorCode.ChecksumMismatch);
+    }
+}
+
+export class NotFoundError extends StorageError {
+    constructor(message: string, storageFilePath?: string, cause?: any) {
+        super(StorageErrorCode.NotFound, message, storageFilePath, cause);
+    }
+}
+
+export class AccessDeniedError extends StorageError {
+    constructor(message: string, storageFilePath?: string, cause?: any) {
+        super(StorageErrorCode.AccessDenied, message, storageFilePath, cause);
+    }
+}
+
+export class ThrottledError extends StorageError {
+    constructor(message: string, storageFilePath?: string, cause?: any) {
+        super(StorageErrorCode.Throttled, message, storageFilePath, cause);
+    }
+}
+
+export class TransientError extends StorageError {
+    constructor(message: string, storageFilePath?: string, cause?: any) {
+        super(StorageErrorCode.Transient, message, storageFilePath, cause);
+    }
+}
+
+export class ConflictError extends StorageError {
+    constructor(message: string, storageFilePath?: string, cause?: any) {
+        super(StorageErrorCode.Conflict, message, storageFilePath, cause);
+    }
+}
+
+export class InvalidKeyError extends StorageError {
+    constructor(message: string, storageFilePath?: string, cause?: any) {
+        super(StorageErrorCode.InvalidKey, message, storageFilePath, cause);
+    }
+}
+
+export class ChecksumMismatchError extends StorageError {
+    constructor(message: string, storageFilePath?: string, cause?: any) {
+        super(StorageErrorCode.ChecksumMismatch, message, storageFilePath, cause);
+    }
+}
+
+export class DecryptionError extends StorageError {
+    constructor(message: string, storageFilePath?: string, cause?: any) {
+        super(StorageErrorCode.DecryptionFailed, message, storageFilePath, cause);
+    }
+}
+
+export class NotSupportedError extends StorageError {
+    constructor(message: string, storageFilePath?: string, cause?: any) {
+        super(StorageErrorCode.NotSupported, message, storageFilePath, cause);
+    }
+}
+
+/**
+ * @param code The error code of the backend, if any.
+ * @param statusCode The HTTP status code, if any.
+ * @return The storage error code.
+ */
+function getStorageErrorCode(code: string, statusCode: number): StorageErrorCode {
+    if (code && ERROR_CODES_BY_BACKEND_CODE.hasOwnProperty(code)) {
+        return ERROR_CODES_BY_BACKEND_CODE[code];
+    }
+
+    if (statusCode === 404) {
+        return StorageErrorCode.NotFound;
+    } else if (statusCode === 401 || statusCode === 403) {
+        return StorageErrorCode.AccessDenied;
+    } else if (statusCode === 429 || statusCode === 503) {
+        return StorageErrorCode.Throttled;
+    } else if (statusCode === 409 || statusCode === 412) {
+        return StorageErrorCode.Conflict;
+    } else if (statusCode >= 500) {
+        return StorageErrorCode.Transient;
+    }
+
+    return StorageErrorCode.Unknown;
+}
+
+/**
+ * Maps an error of the AWS S3 SDK, the Azure Storage SDK or the file system to a storage error.
+ *
+ * @param error The original error.
+ * @param storageFilePath The path of the file the operation failed with (optional).
+ * @return The storage error. The given error, if already a storage error.
+ */
+export function toStorageError(error: any, storageFilePath?: string): StorageError {
+    if (error instanceof StorageError) {
+        return error;
+    }
+
+    let code: StorageErrorCode = getStorageErrorCode(error && error.code, error && error.statusCode);
+    let message: string = (error && error.message) || String(error);
+
+    if (code === StorageErrorCode.Unknown && CHECKSUM_MISMATCH_MESSAGE_PATTERN.test(message)) {
+        code = StorageErrorCode.ChecksumMismatch;
+    }
+
+    switch (code) {
+        case StorageErrorCode.NotFound:
+            return new NotFoundError(message, storageFilePath, error);
+        case StorageErrorCode.AccessDenied:
+            return new AccessDeniedError(message, storageFilePath, error);
+        case StorageErrorCode.Throttled:
+            return new ThrottledError(message, storageFilePath, error);
+        case StorageErrorCode.Transient:
+            return new TransientError(message, storageFilePath, error);
+        case StorageErrorCode.Conflict:
+            return new ConflictError(message, storageFilePath, error);
+        case StorageErrorCode.InvalidKey:
+            return new InvalidKeyError(message, storageFilePath, error);
+        case StorageErrorCode.ChecksumMismatch:
+            return new ChecksumMismatchError(message, storageFilePath, error);
+        case StorageErrorCode.DecryptionFailed:
+            return new DecryptionError(message, storageFilePath, error);
+        case StorageErrorCode.NotSupported:
+            return new NotSupportedError(message, storageFilePath, error);
+        default:
+            // Retryable according to the SDK, e.g. a socket error
+            if (error && error.retryable) {
+                return new TransientError(message, storageFilePath, error);
+            }
+
+            return new StorageError(StorageErrorCode.Unknown, message, storageFilePath, error);
+    }
+}
+
+/**
+ * @param error Any error.
+ * @return True, if the error tells that the file (or the container) does not exist.
+ */
+export function isNotFoundError(error: any): boolean {
+    return !!error && error.code === StorageErrorCode.NotFound;
+}
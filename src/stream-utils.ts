@@ -0,0 +1,157 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import { PassThrough, Readable, Transform } from 'stream';
+
+/**
+ * Reads the given stream to the end.
+ *
+ * @param readStream The stream to read.
+ * @return The content of the stream.
+ */
+export function readStreamToBuffer(readStream: Readable): Promise<Buffer> {
+    return new Promise<Buffer>(function(resolve, reject) {
+        let chunks: Buffer[] = [];
+
+        readStream.on('data', (chunk) => {
+            chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk);
+        });
+
+        readStream.on('error', (error) => {
+            reject(error);
+        });
+
+        readStream.on('end', () => {
+            resolve(Buffer.concat(chunks));
+        });
+    });
+}
+
+/**
+ * Calculates the hash of the content of the given stream.
+ *
+ * @param readStream The stream to read.
+ * @param algorithm The hash algorithm, e.g. 'md5'.
+ * @return The hash.
+ */
+export function hashStream(readStream: Readable, algorithm: string): Promise<Buffer> {
+    return new Promise<Buffer>(function(resolve, reject) {
+        const hash = crypto.createHash(algorithm);
+
+        readStream.on('data', (chunk) => {
+            hash.update(chunk);
+        });
+
+        readStream.on('error', (error) => {
+            reject(error);
+        });
+
+        readStream.on('end', () => {
+            resolve(hash.digest() as Buffer);
+        });
+    });
+}
+
+/**
+ * @param buffer The content of the stream.
+ * @return A stream providing the content of the given buffer.
+ */
+export function bufferToStream(buffer: Buffer): Readable {
+    const readStream = new PassThrough();
+    readStream.end(buffer);
+    return readStream;
+}
+
+/**
+ * Writes the given stream to a file. The file is removed if reading the stream fails.
+ *
+ * @param readStream The stream to write.
+ * @param localFilePath The path of the file.
+ * @return Resolved when the file is written.
+ */
+export function writeStreamToFile(readStream: Readable, localFilePath: string): Promise<void> {
+    return new Promise<void>(function(resolve, reject) {
+        const writeStream = fs.createWriteStream(localFilePath);
+        let readFailed: boolean = false;
+
+        readStream.on('error', (error) => {
+            readFailed = true;
+            readStream.unpipe(writeStream);
+            writeStream.end(() => fs.unlink(localFilePath, () => reject(error)));
+        });
+
+        writeStream.on('error', (error) => {
+            reject(error);
+        });
+
+        writeStream.on('finish', () => {
+            if (!readFailed) {
+                resolve();
+            }
+        });
+
+        readStream.pipe(writeStream);
+    });
+}
+
+/**
+ * Splits the given stream into a number of streams providing the same content. Errors emitted by
+ * the source stream are emitted by all the branches. The source stream proceeds at the pace of the
+ * slowest branch, so every branch must be consumed (or resumed, if no longer needed).
+ *
+ * @param sourceStream The stream to split.
+ * @param branchCount The number of branches.
+ * @return The branches.
+ */
+export function teeStream(sourceStream: Readable, branchCount: number): PassThrough[] {
+    let branches: PassThrough[] = [];
+
+    for (let i = 0; i < branchCount; ++i) {
+        branches.push(new PassThrough());
+    }
+
+    sourceStream.on('error', (error) => {
+        branches.forEach((branch) => branch.emit('error', error));
+    });
+
+    branches.forEach((branch) => sourceStream.pipe(branch));
+    return branches;
+}
+
+/**
+ * Provides the given byte range of the given stream. The rest of the source stream is read and
+ * discarded, so that the other consumers of the source, if any, are not stalled.
+ *
+ * @param sourceStream The stream to slice.
+ * @param start The offset of the first byte.
+ * @param end The offset of the last byte (inclusive).
+ * @return A stream providing the bytes of the range.
+ */
+export function sliceStream(sourceStream: Readable, start: number, end: number): Readable {
+    let position: number = 0;
+    let ended: boolean = false;
+
+    const slice = new Transform({
+        transform: (chunk: Buffer, encoding: string, callback: Function) => {
+            const chunkStart: number = position;
+            position += chunk.length;
+
+            const from: number = Math.max(start - chunkStart, 0);
+            const to: number = Math.min(end + 1 - chunkStart, chunk.length);
+            callback(null, (from < to ? chunk.slice(from, to) : undefined));
+
+            // The chunks written before unpiping may still follow
+            if (position > end && !ended) {
+                ended = true;
+                sourceStream.unpipe(slice);
+                slice.end();
+                sourceStream.resume();
+            }
+        }
+    });
+
+    sourceStream.on('error', (error) => {
+        slice.emit('error', error);
+    });
+
+    return sourceStream.pipe(slice);
+}
@@ -0,0 +1,225 @@
+import { IStorageClient, StorageListEntry } from './storage-client';
+import { isNotFoundError } from './storage-errors';
+
+export const DEFAULT_TOMBSTONE_RETENTION_IN_MS = 30 * 24 * 60 * 60 * 1000;
+export const DEFAULT_TOMBSTONE_KEY_PREFIX = '.tombstones/';
+export const DEFAULT_MAX_CLOCK_SKEW_IN_MS = 5 * 60 * 1000;
+
+// Not a valid S3 bucket or Azure container name, so it cannot collide with a real one
+const DEFAULT_CONTAINER_KEY = '_default';
+const TOMBSTONE_CONTENT_TYPE = 'application/json';
+
+/**
+ * A record of a deleted file.
+ */
+export interface Tombstone {
+    storageFilePath: string;
+
+    /**
+     * The name of the container/bucket or null, if the default one.
+     */
+    containerOrBucketName: string;
+
+    /**
+     * The time of the delete in milliseconds since the epoch, by the clock of the deleting host.
+     */
+    deletedTime: number;
+}
+
+export interface TombstoneStoreOptions {
+    /**
+     * The time after which a tombstone is ignored and can be purged. The default is DEFAULT_TOMBSTONE_RETENTION_IN_MS.
+     */
+    retentionInMs?: number;
+
+    /**
+     * The maximum difference between the clocks of the hosts recording the tombstones and of the
+     * storages reporting the last modified times of the files. A copy counts as written after the
+     * delete only if modified this much later than the tombstone. The default is DEFAULT_MAX_CLOCK_SKEW_IN_MS.
+     */
+    maxClockSkewInMs?: number;
+
+    /**
+     * The prefix of the keys of the tombstone markers. The default is DEFAULT_TOMBSTONE_KEY_PREFIX.
+     */
+    keyPrefix?: string;
+
+    /**
+     * The container/bucket where the markers are stored. If not given, the default one of the storage client is used.
+     */
+    containerOrBucketName?: string;
+}
+
+/**
+ * Stores the tombstones of deleted files as small marker objects in a storage, so that lazy
+ * replication and reconciliation do not copy a deleted file back to the storages it was deleted
+ * from. Any storage client can hold the markers, e.g. a local directory for a single process or
+ * a bucket shared by several processes. Use a container/bucket that is not replicated, so that
+ * the markers are not listed with the files.
+ */
+export class TombstoneStore {
+    protected storageClient: IStorageClient<any>;
+    protected options: TombstoneStoreOptions;
+
+    /**
+     * @param storageClient The initialized client of the storage holding the markers.
+     * @param options The options of the store (optional).
+     */
+    constructor(storageClient: IStorageClient<any>, options?: TombstoneStoreOptions) {
+        this.storageClient = storageClient;
+        this.options = Object.assign({
+            retentionInMs: DEFAULT_TOMBSTONE_RETENTION_IN_MS,
+            maxClockSkewInMs: DEFAULT_MAX_CLOCK_SKEW_IN_MS,
+            keyPrefix: DEFAULT_TOMBSTONE_KEY_PREFIX
+        }, options || {});
+    }
+
+    /**
+     * @return The time after which a tombstone is ignored.
+     */
+    public getRetentionInMs(): number {
+        return this.options.retentionInMs;
+    }
+
+    /**
+     * @return The maximum clock difference allowed when comparing the tombstones with the last modified times.
+     */
+    public getMaxClockSkewInMs(): number {
+        return this.options.maxClockSkewInMs;
+    }
+
+    /**
+     * @param tombstone The tombstone.
+     * @param lastModified The last modified time of a copy of the file reported by the storage.
+     * @return True, if the copy was written after the delete, even if the clocks differ by the maximum skew.
+     */
+    public isWrittenAfter(tombstone: Tombstone, lastModified: Date): boolean {
+        return (lastModified.getTime() > tombstone.deletedTime + this.options.maxClockSkewInMs);
+    }
+
+    /**
+     * Records that the given file was deleted. An existing tombstone is replaced.
+     *
+     * @param storageFilePath The file/blob path in the storage.
+     * @param containerOrBucketName The name of the container/bucket of the file.
+     * @param deletedTime The time of the delete in milliseconds since the epoch. The default is now.
+     * @return The tombstone.
+     */
+    public async addTombstone(storageFilePath: string, containerOrBucketName?: string, deletedTime?: number): Promise<Tombstone> {
+        const tombstone: Tombstone = {
+            storageFilePath: storageFilePath,
+            containerOrBucketName: containerOrBucketName || null,
+            deletedTime: (deletedTime === undefined ? Date.now() : deletedTime)
+        };
+
+        await this.storageClient.uploadBuffer(Buffer.from(JSON.stringify(tombstone)),
+            this.getMarkerKey(storageFilePath, containerOrBucketName), this.options.containerOrBucketName, TOMBSTONE_CONTENT_TYPE);
+        return tombstone;
+    }
+
+    /**
+     * @param storageFilePath The file/blob path in the storage.
+     * @param containerOrBucketName The name of the container/bucket of the file.
+     * @return The tombstone of the given file or null, if the file has no tombstone or it has expired.
+     */
+    public async getTombstone(storageFilePath: string, containerOrBucketName?: string): Promise<Tombstone> {
+        let tombstone: Tombstone = null;
+
+        try {
+            tombstone = JSON.parse((await this.storageClient.downloadFileAsBuffer(
+                this.getMarkerKey(storageFilePath, containerOrBucketName), this.options.containerOrBucketName)).toString());
+        } catch (error) {
+            if (isNotFoundError(error)) {
+                return null;
+            }
+
+            throw error;
+        }
+
+        return (this.isExpired(tombstone) ? null : tombstone);
+    }
+
+    /**
+     * Removes the tombstone of the given file, if any.
+     *
+     * @param storageFilePath The file/blob path in the storage.
+     * @param containerOrBucketName The name of the container/bucket of the file.
+     */
+    public async removeTombstone(storageFilePath: string, containerOrBucketName?: string): Promise<void> {
+        await this.storageClient.deleteFiles([this.getMarkerKey(storageFilePath, containerOrBucketName)], this.options.containerOrBucketName);
+    }
+
+    /**
+     * @return The tombstones that have not expired.
+     */
+    public async listTombstones(): Promise<Tombstone[]> {
+        let tombstones: Tombstone[] = [];
+
+        for await (const entry of this.storageClient.listFiles(this.options.keyPrefix, this.options.containerOrBucketName)) {
+            const tombstone: Tombstone = await this.readMarker(entry);
+
+            if (tombstone !== null && !this.isExpired(tombstone)) {
+                tombstones.push(tombstone);
+            }
+        }
+
+        return tombstones;
+    }
+
+    /**
+     * Removes the expired tombstones.
+     *
+     * @return The number of tombstones removed.
+     */
+    public async purgeExpiredTombstones(): Promise<number> {
+        let expiredMarkerKeys: string[] = [];
+
+        for await (const entry of this.storageClient.listFiles(this.options.keyPrefix, this.options.containerOrBucketName)) {
+            const tombstone: Tombstone = await this.readMarker(entry);
+
+            if (tombstone !== null && this.isExpired(tombstone)) {
+                expiredMarkerKeys.push(entry.name);
+            }
+        }
+
+        if (expiredMarkerKeys.length > 0) {
+            await this.storageClient.deleteFiles(expiredMarkerKeys, this.options.containerOrBucketName);
+        }
+
+        return expiredMarkerKeys.length;
+    }
+
+    /**
+     * @param tombstone The tombstone.
+     * @param now The current time in milliseconds since the epoch (optional).
+     * @return True, if the retention period of the tombstone has passed.
+     */
+    public isExpired(tombstone: Tombstone, now?: number): boolean {
+        return (tombstone.deletedTime + this.options.retentionInMs <= (now === undefined ? Date.now() : now));
+    }
+
+    /**
+     * @param storageFilePath The file/blob path in the storage.
+     * @param containerOrBucketName The name of the container/bucket of the file.
+     * @return The key of the marker of the given file.
+     */
+    protected getMarkerKey(storageFilePath: string, containerOrBucketName?: string): string {
+        return this.options.keyPrefix + (containerOrBucketName || DEFAULT_CONTAINER_KEY) + '/' + storageFilePath;
+    }
+
+    /**
+     * @param entry The listing entry of a marker.
+     * @return The tombstone or null, if the marker was removed meanwhile.
+     */
+    protected async readMarker(entry: StorageListEntry): Promise<Tombstone> {
+        try {
+            return JSON.parse((await this.storageClient.downloadFileAsBuffer(entry.name, this.options.containerOrBucketName)).toString());
+        } catch (error) {
+            if (isNotFoundError(error)) {
+                return null;
+            }
+
+            throw error;
+        }
+    }
+}
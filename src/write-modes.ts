@@ -0,0 +1,115 @@
+import { StorageError, StorageErrorCode } from './storage-errors';
+
+/**
+ * The consistency required when writing a file to several storages.
+ */
+export enum WriteMode {
+    /**
+     * The write succeeds only if the file is written to every storage. Otherwise the copies
+     * written are deleted, except those replacing an earlier version of the file, and the write fails.
+     */
+    All = 'all',
+
+    /**
+     * The write succeeds if the file is written to a majority of the storages. The others are
+     * repaired in the background.
+     */
+    Quorum = 'quorum',
+
+    /**
+     * The write succeeds if the file is written to at least one storage. The others are repaired
+     * in the background.
+     */
+    Any = 'any',
+
+    /**
+     * The file is written to the first of the storages, and the write succeeds once written there.
+     * The file is then copied from it to the others in the background.
+     */
+    PrimaryThenAsync = 'primary-then-async',
+
+    /**
+     * The file is written to every storage and the write always succeeds. The failures are only
+     * logged and nothing is repaired.
+     */
+    BestEffort = 'best-effort'
+};
+
+/**
+ * The outcome of writing a file to several storages.
+ */
+export interface WriteResult {
+    writeMode: WriteMode;
+
+    /**
+     * The IDs of the storages holding the file when the write returned.
+     */
+    storageIds: string[];
+
+    /**
+     * The errors of the failed writes by the storage IDs.
+     */
+    errorsByStorage: { [storageId: string]: StorageError };
+
+    /**
+     * The IDs of the storages where the file was deleted again, because the write failed. The
+     * storages that held the file before the write are not rolled back.
+     */
+    rolledBackStorageIds: string[];
+
+    /**
+     * The IDs of the storages the file is yet to be copied to by the repair.
+     */
+    pendingStorageIds: string[];
+
+    /**
+     * True, if the repair was added to the replication queue instead of copying the file right away.
+     */
+    repairQueued: boolean;
+
+    /**
+     * Resolves to null, once the file is copied to the pending storages (or the copy queued), and
+     * to an error, if the repair failed. Never rejects.
+     */
+    repair: Promise<StorageError>;
+}
+
+/**
+ * A write that did not reach the storages required by the write mode. The code is the one of the
+ * first storage that failed.
+ */
+export class WriteError extends StorageError {
+    public result: WriteResult;
+
+    /**
+     * @param message The error message.
+     * @param storageFilePath The path of the file.
+     * @param result The outcome of the write.
+     * @param cause The error of the first storage that failed (optional).
+     */
+    constructor(message: string, storageFilePath: string, result: WriteResult, cause?: StorageError) {
+        super((cause ? cause.code : StorageErrorCode.Unknown), message, storageFilePath, cause);
+        this.result = result;
+    }
+}
+
+/**
+ * @param writeMode The write mode.
+ * @param storageCount The number of storages the file is written to.
+ * @return The number of storages the file must be written to for the write to succeed.
+ */
+export function getRequiredWriteCount(writeMode: WriteMode, storageCount: number): number {
+    switch (writeMode) {
+        case WriteMode.All:
+            return storageCount;
+        case WriteMode.Quorum:
+            return Math.floor(storageCount / 2) + 1;
+        case WriteMode.Any:
+        case WriteMode.PrimaryThenAsync:
+            return Math.min(1, storageCount);
+        case WriteMode.BestEffort:
+            return 0;
+        default:
+            throw new Error('Unknown write mode "' + writeMode + '"');
+    }
+}
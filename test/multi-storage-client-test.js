@@ -7,18 +7,14 @@
 const fs = require('fs');
 const path = require('path');
 const uuid = require('node-uuid');
-const { MultiStorageClient, StorageType } = require('../dist/multi-storage-client');
+const { StorageType } = require('../dist/multi-storage-client');
+const { loadMultiStorageClient } = require('../dist/configuration');
 
 /*
- * Define the following values as per the details of your accounts
+ * The storages are configured in the configuration file, see ./test/configuration.yaml
  */
-const TEST_AZURE_BLOB_STORAGE_ACCOUNT_NAME = ''; // The account name is the same as the beginning of the storage URI
-const TEST_AZURE_BLOB_STORAGE_ACCESS_KEY = '';
-const TEST_AWS_S3_ACCESS_KEY_ID = '';
-const TEST_AWS_S3_SECRET_ACCESS_KEY = '';
-const TEST_AWS_S3_REGION = 'eu-west-2'; // See http://docs.aws.amazon.com/general/latest/gr/rande.html
-const TEST_AZURE_BLOB_STORAGE_CONTAINER_NAME = '';
-const TEST_AWS_S3_BUCKET_NAME = TEST_AZURE_BLOB_STORAGE_CONTAINER_NAME; // Change if the bucket name does not match the container name
+const TEST_CONFIGURATION_FILE_PATH = process.env.LAZY_STORAGE_REPLICATOR_CONFIG || './test/configuration.yaml';
+const TEST_PROFILE_NAME = process.env.LAZY_STORAGE_REPLICATOR_PROFILE || 'test';
 
 const TEST_STORAGE_FILE_NAME_PREFIX = `test_${uuid.v1()}`;
 const TEST_STORAGE_FILE_NAME_1 = `${TEST_STORAGE_FILE_NAME_PREFIX}_1.jpg`; // Also known as file "key" in S3
@@ -28,14 +24,12 @@ const TEMP_FOLDER = fs.mkdtempSync(`${TEST_LOCAL_FILE_PATH_PREFIX}tmp-`);
 
 
 function getTestMultiStorageClient() {
-    const multiStorageClient = new MultiStorageClient();
-
-    multiStorageClient.initialize(
-      TEST_AZURE_BLOB_STORAGE_ACCOUNT_NAME, TEST_AZURE_BLOB_STORAGE_ACCESS_KEY,
-      TEST_AWS_S3_ACCESS_KEY_ID, TEST_AWS_S3_SECRET_ACCESS_KEY, TEST_AWS_S3_REGION,
-      TEST_AZURE_BLOB_STORAGE_CONTAINER_NAME, TEST_AWS_S3_BUCKET_NAME);
+    return loadMultiStorageClient(TEST_CONFIGURATION_FILE_PATH, TEST_PROFILE_NAME);
+}
 
-    return multiStorageClient;
+function containsExactly(storageIdSet, expectedStorageIds) {
+  return (storageIdSet.size === expectedStorageIds.length
+    && expectedStorageIds.every(storageId => storageIdSet.has(storageId)));
 }
 
 function getTestFunc(getTestClient) {
@@ -55,13 +49,12 @@ function getTestFunc(getTestClient) {
      */
     async tearDown(callback) {
       try {
-        const client = getTestClient();
+        const client = await getTestClient();
 
-        var fileNamesToDelete = await client.listFileNamesWithPrefix(
-          TEST_STORAGE_FILE_NAME_PREFIX, TEST_AZURE_BLOB_STORAGE_CONTAINER_NAME, TEST_AWS_S3_BUCKET_NAME);
+        var fileNamesToDelete = await client.listFileNamesWithPrefix(TEST_STORAGE_FILE_NAME_PREFIX);
 
         if (fileNamesToDelete && fileNamesToDelete.length > 0) {
-          await client.deleteFiles(fileNamesToDelete, TEST_AZURE_BLOB_STORAGE_CONTAINER_NAME, TEST_AWS_S3_BUCKET_NAME);
+          await client.deleteFiles(fileNamesToDelete);
         }
 
         const localFiles = fs.readdirSync(TEMP_FOLDER);
@@ -81,11 +74,11 @@ function getTestFunc(getTestClient) {
       // No file in either of the storages
       const client = await getTestMultiStorageClient();
 
-      var fileExists = await client.fileExists(TEST_STORAGE_FILE_NAME_1, TEST_AZURE_BLOB_STORAGE_CONTAINER_NAME, TEST_AWS_S3_BUCKET_NAME);
+      var fileExists = await client.fileExists(TEST_STORAGE_FILE_NAME_1);
       test.ok(fileExists === false);
       
-      var storagesContainingFile = await client.storagesContainingFile(TEST_STORAGE_FILE_NAME_1, TEST_AZURE_BLOB_STORAGE_CONTAINER_NAME, TEST_AWS_S3_BUCKET_NAME);
-      test.ok(storagesContainingFile === StorageType.Undefined);
+      var storagesContainingFile = await client.storagesContainingFile(TEST_STORAGE_FILE_NAME_1);
+      test.ok(storagesContainingFile.size === 0);
 
       test.done();
     },
@@ -95,21 +88,19 @@ function getTestFunc(getTestClient) {
       
       var storagesWhereFileWasUploaded = await client.uploadFileToStorage(
         TEST_LOCAL_FILE_PATH_1, TEST_STORAGE_FILE_NAME_1,
-        StorageType.AwsS3, TEST_AZURE_BLOB_STORAGE_CONTAINER_NAME, TEST_AWS_S3_BUCKET_NAME);
-      test.ok(storagesWhereFileWasUploaded == StorageType.AwsS3);
+        [StorageType.AwsS3]);
+      test.ok(containsExactly(storagesWhereFileWasUploaded, [StorageType.AwsS3]));
       
-      var fileExists = await client.fileExists(TEST_STORAGE_FILE_NAME_1, TEST_AZURE_BLOB_STORAGE_CONTAINER_NAME, TEST_AWS_S3_BUCKET_NAME);
+      var fileExists = await client.fileExists(TEST_STORAGE_FILE_NAME_1);
       test.ok(fileExists === true);
 
-      var storagesContainingFile = await client.storagesContainingFile(
-        TEST_STORAGE_FILE_NAME_1, TEST_AZURE_BLOB_STORAGE_CONTAINER_NAME, TEST_AWS_S3_BUCKET_NAME);
-      test.ok(storagesContainingFile == StorageType.AwsS3);
+      var storagesContainingFile = await client.storagesContainingFile(TEST_STORAGE_FILE_NAME_1);
+      test.ok(containsExactly(storagesContainingFile, [StorageType.AwsS3]));
 
       // Clean up
-      var deleteFileResult = await client.deleteFile(TEST_STORAGE_FILE_NAME_1, TEST_AZURE_BLOB_STORAGE_CONTAINER_NAME, TEST_AWS_S3_BUCKET_NAME);
-      test.ok(deleteFileResult === null);
+      await client.deleteFile(TEST_STORAGE_FILE_NAME_1);
 
-      fileExists = await client.fileExists(TEST_STORAGE_FILE_NAME_1, TEST_AZURE_BLOB_STORAGE_CONTAINER_NAME, TEST_AWS_S3_BUCKET_NAME);
+      fileExists = await client.fileExists(TEST_STORAGE_FILE_NAME_1);
       test.ok(fileExists === false);
 
       test.done();
@@ -120,21 +111,19 @@ function getTestFunc(getTestClient) {
 
       var storagesWhereFileWasUploaded = await client.uploadFileToStorage(
         TEST_LOCAL_FILE_PATH_1, TEST_STORAGE_FILE_NAME_1,
-        StorageType.AzureBlobStorage, TEST_AZURE_BLOB_STORAGE_CONTAINER_NAME, TEST_AWS_S3_BUCKET_NAME);
-      test.ok(storagesWhereFileWasUploaded == StorageType.AzureBlobStorage);
+        [StorageType.AzureBlobStorage]);
+      test.ok(containsExactly(storagesWhereFileWasUploaded, [StorageType.AzureBlobStorage]));
 
-      var fileExists = await client.fileExists(TEST_STORAGE_FILE_NAME_1, TEST_AZURE_BLOB_STORAGE_CONTAINER_NAME, TEST_AWS_S3_BUCKET_NAME);
+      var fileExists = await client.fileExists(TEST_STORAGE_FILE_NAME_1);
       test.ok(fileExists === true);
 
-      var storagesContainingFile = await client.storagesContainingFile(
-        TEST_STORAGE_FILE_NAME_1, TEST_AZURE_BLOB_STORAGE_CONTAINER_NAME, TEST_AWS_S3_BUCKET_NAME);
-      test.ok(storagesContainingFile === StorageType.AzureBlobStorage);
+      var storagesContainingFile = await client.storagesContainingFile(TEST_STORAGE_FILE_NAME_1);
+      test.ok(containsExactly(storagesContainingFile, [StorageType.AzureBlobStorage]));
 
       // Clean up
-      var deleteFileResult = await client.deleteFile(TEST_STORAGE_FILE_NAME_1, TEST_AZURE_BLOB_STORAGE_CONTAINER_NAME, TEST_AWS_S3_BUCKET_NAME);
-      test.ok(deleteFileResult === null);
+      await client.deleteFile(TEST_STORAGE_FILE_NAME_1);
 
-      fileExists = await client.fileExists(TEST_STORAGE_FILE_NAME_1, TEST_AZURE_BLOB_STORAGE_CONTAINER_NAME, TEST_AWS_S3_BUCKET_NAME);
+      fileExists = await client.fileExists(TEST_STORAGE_FILE_NAME_1);
       test.ok(fileExists === false);
 
       test.done();
@@ -142,22 +131,21 @@ function getTestFunc(getTestClient) {
     async uploadAndCheckFileExistsAndDeleteBothStorages(test) {
       // File in both storages
       const client = await getTestMultiStorageClient();
-      await client.uploadFileToStorage(TEST_LOCAL_FILE_PATH_1, TEST_STORAGE_FILE_NAME_1, StorageType.AzureBlobStorage | StorageType.AwsS3, TEST_AZURE_BLOB_STORAGE_CONTAINER_NAME, TEST_AWS_S3_BUCKET_NAME);
-      var storagesContainingFile = await client.storagesContainingFile(TEST_STORAGE_FILE_NAME_1, TEST_AZURE_BLOB_STORAGE_CONTAINER_NAME, TEST_AWS_S3_BUCKET_NAME);
-      test.ok(storagesContainingFile === (StorageType.AzureBlobStorage | StorageType.AwsS3));
+      await client.uploadFileToStorage(TEST_LOCAL_FILE_PATH_1, TEST_STORAGE_FILE_NAME_1, [StorageType.AzureBlobStorage, StorageType.AwsS3]);
+      var storagesContainingFile = await client.storagesContainingFile(TEST_STORAGE_FILE_NAME_1);
+      test.ok(containsExactly(storagesContainingFile, [StorageType.AzureBlobStorage, StorageType.AwsS3]));
 
       // Clean up
-      await client.deleteFile(TEST_STORAGE_FILE_NAME_1, TEST_AZURE_BLOB_STORAGE_CONTAINER_NAME, TEST_AWS_S3_BUCKET_NAME);
-      storagesContainingFile = await client.storagesContainingFile(TEST_STORAGE_FILE_NAME_1, TEST_AZURE_BLOB_STORAGE_CONTAINER_NAME, TEST_AWS_S3_BUCKET_NAME);
-      test.ok(storagesContainingFile === StorageType.Undefined);
+      await client.deleteFile(TEST_STORAGE_FILE_NAME_1);
+      storagesContainingFile = await client.storagesContainingFile(TEST_STORAGE_FILE_NAME_1);
+      test.ok(storagesContainingFile.size === 0);
 
       test.done();
     },
     async downloadFileToDiskAndReplicateNoFile(test) {
       const client = await getTestMultiStorageClient();
-      var result = await client.downloadFileToDiskAndReplicateIfNecessary(
-        TEST_STORAGE_FILE_NAME_1, TEST_LOCAL_FILE_PATH_1, TEST_AZURE_BLOB_STORAGE_CONTAINER_NAME, TEST_AWS_S3_BUCKET_NAME);
-      test.ok(result != null); // Error is expected
+      var result = await client.downloadFileToDiskAndReplicateIfNecessary(TEST_STORAGE_FILE_NAME_1, TEST_LOCAL_FILE_PATH_1);
+      test.ok(result.error != null); // Error is expected
       test.done();
     },
     async downloadFileToDiskAndReplicateFileS3(test) {
@@ -166,22 +154,21 @@ function getTestFunc(getTestClient) {
       
       await client.uploadFileToStorage(
         TEST_LOCAL_FILE_PATH_1, TEST_STORAGE_FILE_NAME_1,
-        StorageType.AwsS3, TEST_AZURE_BLOB_STORAGE_CONTAINER_NAME, TEST_AWS_S3_BUCKET_NAME);
+        [StorageType.AwsS3]);
 
-      var storagesContainingFile = await client.storagesContainingFile(TEST_STORAGE_FILE_NAME_1, TEST_AZURE_BLOB_STORAGE_CONTAINER_NAME, TEST_AWS_S3_BUCKET_NAME);
-      test.ok(storagesContainingFile === StorageType.AwsS3);
+      var storagesContainingFile = await client.storagesContainingFile(TEST_STORAGE_FILE_NAME_1);
+      test.ok(containsExactly(storagesContainingFile, [StorageType.AwsS3]));
 
-      var result = await client.downloadFileToDiskAndReplicateIfNecessary(
-        TEST_STORAGE_FILE_NAME_1, TEST_LOCAL_FILE_PATH_1, TEST_AZURE_BLOB_STORAGE_CONTAINER_NAME, TEST_AWS_S3_BUCKET_NAME);
-      test.ok(result === null); // No error
+      var result = await client.downloadFileToDiskAndReplicateIfNecessary(TEST_STORAGE_FILE_NAME_1, TEST_LOCAL_FILE_PATH_1);
+      test.ok(result.error === null); // No error
 
-      storagesContainingFile = await client.storagesContainingFile(TEST_STORAGE_FILE_NAME_1, TEST_AZURE_BLOB_STORAGE_CONTAINER_NAME, TEST_AWS_S3_BUCKET_NAME);
-      test.ok(storagesContainingFile === (StorageType.AzureBlobStorage | StorageType.AwsS3));
+      storagesContainingFile = await client.storagesContainingFile(TEST_STORAGE_FILE_NAME_1);
+      test.ok(containsExactly(storagesContainingFile, [StorageType.AzureBlobStorage, StorageType.AwsS3]));
 
       // Clean up
-      await client.deleteFile(TEST_STORAGE_FILE_NAME_1, TEST_AZURE_BLOB_STORAGE_CONTAINER_NAME, TEST_AWS_S3_BUCKET_NAME);
-      storagesContainingFile = await client.storagesContainingFile(TEST_STORAGE_FILE_NAME_1, TEST_AZURE_BLOB_STORAGE_CONTAINER_NAME, TEST_AWS_S3_BUCKET_NAME);
-      test.ok(storagesContainingFile === StorageType.Undefined);
+      await client.deleteFile(TEST_STORAGE_FILE_NAME_1);
+      storagesContainingFile = await client.storagesContainingFile(TEST_STORAGE_FILE_NAME_1);
+      test.ok(storagesContainingFile.size === 0);
 
       test.done();
     },
@@ -191,22 +178,21 @@ function getTestFunc(getTestClient) {
 
       await client.uploadFileToStorage(
         TEST_LOCAL_FILE_PATH_1, TEST_STORAGE_FILE_NAME_1,
-        StorageType.AzureBlobStorage, TEST_AZURE_BLOB_STORAGE_CONTAINER_NAME, TEST_AWS_S3_BUCKET_NAME);
+        [StorageType.AzureBlobStorage]);
 
-      var storagesContainingFile = await client.storagesContainingFile(TEST_STORAGE_FILE_NAME_1, TEST_AZURE_BLOB_STORAGE_CONTAINER_NAME, TEST_AWS_S3_BUCKET_NAME);
-      test.ok(storagesContainingFile === StorageType.AzureBlobStorage);
+      var storagesContainingFile = await client.storagesContainingFile(TEST_STORAGE_FILE_NAME_1);
+      test.ok(containsExactly(storagesContainingFile, [StorageType.AzureBlobStorage]));
 
-      var result = await client.downloadFileToDiskAndReplicateIfNecessary(
-        TEST_STORAGE_FILE_NAME_1, TEST_LOCAL_FILE_PATH_1, TEST_AZURE_BLOB_STORAGE_CONTAINER_NAME, TEST_AWS_S3_BUCKET_NAME);
-      test.ok(result == null); // No error
+      var result = await client.downloadFileToDiskAndReplicateIfNecessary(TEST_STORAGE_FILE_NAME_1, TEST_LOCAL_FILE_PATH_1);
+      test.ok(result.error == null); // No error
 
-      storagesContainingFile = await client.storagesContainingFile(TEST_STORAGE_FILE_NAME_1, TEST_AZURE_BLOB_STORAGE_CONTAINER_NAME, TEST_AWS_S3_BUCKET_NAME);
-      test.ok(storagesContainingFile === (StorageType.AzureBlobStorage | StorageType.AwsS3));
+      storagesContainingFile = await client.storagesContainingFile(TEST_STORAGE_FILE_NAME_1);
+      test.ok(containsExactly(storagesContainingFile, [StorageType.AzureBlobStorage, StorageType.AwsS3]));
 
       // Clean up
-      await client.deleteFile(TEST_STORAGE_FILE_NAME_1, TEST_AZURE_BLOB_STORAGE_CONTAINER_NAME, TEST_AWS_S3_BUCKET_NAME);
-      storagesContainingFile = await client.storagesContainingFile(TEST_STORAGE_FILE_NAME_1, TEST_AZURE_BLOB_STORAGE_CONTAINER_NAME, TEST_AWS_S3_BUCKET_NAME);
-      test.ok(storagesContainingFile === StorageType.Undefined);
+      await client.deleteFile(TEST_STORAGE_FILE_NAME_1);
+      storagesContainingFile = await client.storagesContainingFile(TEST_STORAGE_FILE_NAME_1);
+      test.ok(storagesContainingFile.size === 0);
 
       test.done();
     },
@@ -215,20 +201,18 @@ function getTestFunc(getTestClient) {
 
       await client.uploadFileToStorage(
         TEST_LOCAL_FILE_PATH_1, TEST_STORAGE_FILE_NAME_1,
-        (StorageType.AzureBlobStorage | StorageType.AwsS3),
-        TEST_AZURE_BLOB_STORAGE_CONTAINER_NAME, TEST_AWS_S3_BUCKET_NAME);
+        [StorageType.AzureBlobStorage, StorageType.AwsS3]);
 
-      var storagesContainingFile = await client.storagesContainingFile(TEST_STORAGE_FILE_NAME_1, TEST_AZURE_BLOB_STORAGE_CONTAINER_NAME, TEST_AWS_S3_BUCKET_NAME);
-      test.ok(storagesContainingFile === (StorageType.AzureBlobStorage | StorageType.AwsS3));
+      var storagesContainingFile = await client.storagesContainingFile(TEST_STORAGE_FILE_NAME_1);
+      test.ok(containsExactly(storagesContainingFile, [StorageType.AzureBlobStorage, StorageType.AwsS3]));
 
-      var result = await client.downloadFileToDisk(
-        TEST_STORAGE_FILE_NAME_1, TEST_LOCAL_FILE_PATH_1, TEST_AZURE_BLOB_STORAGE_CONTAINER_NAME, TEST_AWS_S3_BUCKET_NAME);
+      var result = await client.downloadFileToDisk(TEST_STORAGE_FILE_NAME_1, TEST_LOCAL_FILE_PATH_1);
       test.ok(result == null); // No error
 
       // Clean up
-      await client.deleteFile(TEST_STORAGE_FILE_NAME_1, TEST_AZURE_BLOB_STORAGE_CONTAINER_NAME, TEST_AWS_S3_BUCKET_NAME);
-      storagesContainingFile = await client.storagesContainingFile(TEST_STORAGE_FILE_NAME_1, TEST_AZURE_BLOB_STORAGE_CONTAINER_NAME, TEST_AWS_S3_BUCKET_NAME);
-      test.ok(storagesContainingFile === StorageType.Undefined);
+      await client.deleteFile(TEST_STORAGE_FILE_NAME_1);
+      storagesContainingFile = await client.storagesContainingFile(TEST_STORAGE_FILE_NAME_1);
+      test.ok(storagesContainingFile.size === 0);
 
       test.done();
     }
@@ -0,0 +1,371 @@
+/*
+ * Conformance tests every IStorageClient implementation must pass.
+ *
+ * Usage in a test module:
+ *
+ *   const { getConformanceTests } = require('../storage-client-conformance');
+ *   module.exports.conformance = getConformanceTests(createTestStorage);
+ *
+ * where createTestStorage is an async function returning an object
+ * { client, containerName, cleanUp } and cleanUp is an async function removing the test files.
+ */
+
+const crypto = require('crypto');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const uuid = require('node-uuid');
+const { ERROR_CODE_NOT_FOUND } = require('../dist/storage-client');
+
+const TEST_LOCAL_FILE_PATH_1 = path.join(__dirname, 'data', '1.jpg');
+
+function removeDirectory(directoryPath) {
+  fs.readdirSync(directoryPath).forEach(fileName => fs.unlinkSync(path.join(directoryPath, fileName)));
+  fs.rmdirSync(directoryPath);
+}
+
+async function rejects(promise) {
+  try {
+    await promise;
+  } catch (error) {
+    return true;
+  }
+
+  return false;
+}
+
+async function getRejection(promise) {
+  try {
+    await promise;
+  } catch (error) {
+    return error;
+  }
+
+  return null;
+}
+
+async function collect(asyncIterator) {
+  const items = [];
+
+  for await (const item of asyncIterator) {
+    items.push(item);
+  }
+
+  return items;
+}
+
+/**
+ * @return The content of the stream or an error, if either the promise or the stream failed.
+ */
+async function readStreamOrError(streamPromise) {
+  try {
+    const readStream = await streamPromise;
+
+    return await new Promise((resolve) => {
+      const chunks = [];
+      readStream.on('data', chunk => chunks.push(chunk));
+      readStream.on('error', error => resolve(error));
+      readStream.on('end', () => resolve(Buffer.concat(chunks)));
+    });
+  } catch (error) {
+    return error;
+  }
+}
+
+function getConformanceTests(createTestStorage) {
+  return ({
+    /**
+     * This is called before every test.
+     *
+     * @param {*} callback
+     */
+    async setUp(callback) {
+      this.storage = await createTestStorage();
+      this.keyPrefix = `conformance_${uuid.v1()}/`;
+      this.tempFolder = fs.mkdtempSync(path.join(os.tmpdir(), 'conformance-'));
+      callback();
+    },
+    /**
+     * This is called after every test.
+     *
+     * @param {*} callback
+     */
+    async tearDown(callback) {
+      try {
+        const { client, containerName } = this.storage;
+        const fileNamesToDelete = await client.listFileNamesWithPrefix(this.keyPrefix, containerName);
+
+        if (fileNamesToDelete && fileNamesToDelete.length > 0) {
+          await client.deleteFiles(fileNamesToDelete, containerName);
+        }
+
+        await this.storage.cleanUp();
+        removeDirectory(this.tempFolder);
+      } catch (error) {
+        console.error('Test teardown failed: ' + error);
+      }
+
+      callback();
+    },
+    async isInitialized(test) {
+      test.ok(this.storage.client.isInitialized() === true);
+      test.done();
+    },
+    async fileExistsMissingFile(test) {
+      const { client, containerName } = this.storage;
+      test.ok(await client.fileExists(`${this.keyPrefix}missing.jpg`, containerName) === false);
+      test.done();
+    },
+    async uploadFileAndCheckFileExists(test) {
+      const { client, containerName } = this.storage;
+      const fileKey = `${this.keyPrefix}1.jpg`;
+
+      await client.uploadFile(TEST_LOCAL_FILE_PATH_1, fileKey, containerName);
+      test.ok(await client.fileExists(fileKey, containerName) === true);
+      test.done();
+    },
+    async uploadFileToNestedPath(test) {
+      const { client, containerName } = this.storage;
+      const fileKey = `${this.keyPrefix}a/b/c/1.jpg`;
+
+      await client.uploadFile(TEST_LOCAL_FILE_PATH_1, fileKey, containerName);
+      test.ok(await client.fileExists(fileKey, containerName) === true);
+      test.ok(await client.fileExists(`${this.keyPrefix}a/b`, containerName) === false);
+      test.done();
+    },
+    async uploadFileOverwrites(test) {
+      const { client, containerName } = this.storage;
+      const fileKey = `${this.keyPrefix}1.jpg`;
+      const localFilePath = path.join(this.tempFolder, 'small.txt');
+      const downloadedFilePath = path.join(this.tempFolder, 'downloaded');
+      fs.writeFileSync(localFilePath, 'small');
+
+      await client.uploadFile(TEST_LOCAL_FILE_PATH_1, fileKey, containerName);
+      await client.uploadFile(localFilePath, fileKey, containerName);
+      await client.downloadFileToDisk(fileKey, downloadedFilePath, containerName);
+      test.ok(fs.readFileSync(downloadedFilePath, 'utf8') === 'small');
+      test.done();
+    },
+    async listFileNamesWithPrefix(test) {
+      const { client, containerName } = this.storage;
+
+      await client.uploadFile(TEST_LOCAL_FILE_PATH_1, `${this.keyPrefix}x/1.jpg`, containerName);
+      await client.uploadFile(TEST_LOCAL_FILE_PATH_1, `${this.keyPrefix}x/2.jpg`, containerName);
+      await client.uploadFile(TEST_LOCAL_FILE_PATH_1, `${this.keyPrefix}y/3.jpg`, containerName);
+
+      const fileNames = await client.listFileNamesWithPrefix(`${this.keyPrefix}x/`, containerName);
+      test.deepEqual(fileNames.slice().sort(), [`${this.keyPrefix}x/1.jpg`, `${this.keyPrefix}x/2.jpg`]);
+
+      const allFileNames = await client.listFileNamesWithPrefix(this.keyPrefix, containerName);
+      test.ok(allFileNames.length === 3);
+      test.done();
+    },
+    async listFileNamesWithPrefixNoMatches(test) {
+      const { client, containerName } = this.storage;
+      const fileNames = await client.listFileNamesWithPrefix(`${this.keyPrefix}missing`, containerName);
+      test.deepEqual(fileNames, []);
+      test.done();
+    },
+    async listFilesWithPrefix(test) {
+      const { client, containerName } = this.storage;
+
+      await client.uploadFile(TEST_LOCAL_FILE_PATH_1, `${this.keyPrefix}1.jpg`, containerName);
+      const result = await client.listFilesWithPrefix(this.keyPrefix, containerName);
+      test.ok(result !== null && result !== undefined);
+      test.done();
+    },
+    async listFiles(test) {
+      const { client, containerName } = this.storage;
+
+      await client.uploadFile(TEST_LOCAL_FILE_PATH_1, `${this.keyPrefix}y/3.jpg`, containerName);
+      await client.uploadFile(TEST_LOCAL_FILE_PATH_1, `${this.keyPrefix}x/1.jpg`, containerName);
+      await client.uploadFile(TEST_LOCAL_FILE_PATH_1, `${this.keyPrefix}x/2.jpg`, containerName);
+
+      const entries = await collect(client.listFiles(this.keyPrefix, containerName, { pageSize: 2 }));
+      test.deepEqual(entries.map(entry => entry.name),
+        [`${this.keyPrefix}x/1.jpg`, `${this.keyPrefix}x/2.jpg`, `${this.keyPrefix}y/3.jpg`]);
+      test.ok(entries.every(entry => entry.isPrefix === false));
+      test.ok(entries.every(entry => entry.size === fs.statSync(TEST_LOCAL_FILE_PATH_1).size));
+      test.ok(entries.every(entry => entry.lastModified instanceof Date));
+      test.done();
+    },
+    async listFilesWithDelimiter(test) {
+      const { client, containerName } = this.storage;
+
+      await client.uploadFile(TEST_LOCAL_FILE_PATH_1, `${this.keyPrefix}x/1.jpg`, containerName);
+      await client.uploadFile(TEST_LOCAL_FILE_PATH_1, `${this.keyPrefix}x/y/2.jpg`, containerName);
+      await client.uploadFile(TEST_LOCAL_FILE_PATH_1, `${this.keyPrefix}z/3.jpg`, containerName);
+      await client.uploadFile(TEST_LOCAL_FILE_PATH_1, `${this.keyPrefix}4.jpg`, containerName);
+
+      const entries = await collect(client.listFiles(this.keyPrefix, containerName, { delimiter: '/' }));
+      test.deepEqual(entries.map(entry => [entry.name, entry.isPrefix]), [
+        [`${this.keyPrefix}4.jpg`, false],
+        [`${this.keyPrefix}x/`, true],
+        [`${this.keyPrefix}z/`, true]
+      ]);
+
+      const nestedEntries = await collect(client.listFiles(`${this.keyPrefix}x/`, containerName, { delimiter: '/' }));
+      test.deepEqual(nestedEntries.map(entry => [entry.name, entry.isPrefix]), [
+        [`${this.keyPrefix}x/1.jpg`, false],
+        [`${this.keyPrefix}x/y/`, true]
+      ]);
+      test.done();
+    },
+    async downloadFileToDisk(test) {
+      const { client, containerName } = this.storage;
+      const fileKey = `${this.keyPrefix}1.jpg`;
+      const downloadedFilePath = path.join(this.tempFolder, 'downloaded.jpg');
+
+      await client.uploadFile(TEST_LOCAL_FILE_PATH_1, fileKey, containerName);
+      await client.downloadFileToDisk(fileKey, downloadedFilePath, containerName);
+      test.ok(fs.readFileSync(downloadedFilePath).equals(fs.readFileSync(TEST_LOCAL_FILE_PATH_1)));
+      test.done();
+    },
+    async downloadFileToDiskMissingFile(test) {
+      const { client, containerName } = this.storage;
+      const downloadedFilePath = path.join(this.tempFolder, 'downloaded.jpg');
+
+      const error = await getRejection(client.downloadFileToDisk(`${this.keyPrefix}missing.jpg`, downloadedFilePath, containerName));
+      test.ok(error !== null && error.code === ERROR_CODE_NOT_FOUND);
+      test.done();
+    },
+    async downloadFileMissingFile(test) {
+      const { client, containerName } = this.storage;
+      const error = await getRejection(client.downloadFile(`${this.keyPrefix}missing.jpg`, containerName));
+      test.ok(error !== null && error.code === ERROR_CODE_NOT_FOUND);
+      test.done();
+    },
+    async uploadBufferAndDownloadFileAsBuffer(test) {
+      const { client, containerName } = this.storage;
+      const fileKey = `${this.keyPrefix}buffer.txt`;
+
+      await client.uploadBuffer(Buffer.from('buffer content'), fileKey, containerName);
+      const content = await client.downloadFileAsBuffer(fileKey, containerName);
+      test.ok(Buffer.isBuffer(content) && content.toString() === 'buffer content');
+      test.done();
+    },
+    async uploadStreamAndDownloadFileAsStream(test) {
+      const { client, containerName } = this.storage;
+      const fileKey = `${this.keyPrefix}1.jpg`;
+
+      await client.uploadStream(fs.createReadStream(TEST_LOCAL_FILE_PATH_1), fileKey, containerName);
+      const content = await readStreamOrError(client.downloadFileAsStream(fileKey, containerName));
+      test.ok(Buffer.isBuffer(content) && content.equals(fs.readFileSync(TEST_LOCAL_FILE_PATH_1)));
+      test.done();
+    },
+    async downloadFileAsStreamMissingFile(test) {
+      const { client, containerName } = this.storage;
+      const result = await readStreamOrError(client.downloadFileAsStream(`${this.keyPrefix}missing.jpg`, containerName));
+      test.ok(result instanceof Error);
+      test.done();
+    },
+    async downloadFileAsBufferMissingFile(test) {
+      const { client, containerName } = this.storage;
+      const error = await getRejection(client.downloadFileAsBuffer(`${this.keyPrefix}missing.jpg`, containerName));
+      test.ok(error !== null && error.code === ERROR_CODE_NOT_FOUND);
+      test.done();
+    },
+    async getFileProperties(test) {
+      const { client, containerName } = this.storage;
+      const fileKey = `${this.keyPrefix}properties.txt`;
+      const content = Buffer.from('properties');
+
+      await client.uploadBuffer(content, fileKey, containerName);
+      const fileProperties = await client.getFileProperties(fileKey, containerName);
+      test.ok(fileProperties.size === content.length);
+      test.ok(fileProperties.lastModified instanceof Date);
+      test.ok(!fileProperties.contentMD5
+        || fileProperties.contentMD5 === crypto.createHash('md5').update(content).digest('base64'));
+      test.done();
+    },
+    async getFilePropertiesContentType(test) {
+      const { client, containerName } = this.storage;
+      const fileKey = `${this.keyPrefix}1.jpg`;
+
+      await client.uploadFile(TEST_LOCAL_FILE_PATH_1, fileKey, containerName, { contentType: 'image/jpeg' });
+      test.ok((await client.getFileProperties(fileKey, containerName)).contentType === 'image/jpeg');
+      test.done();
+    },
+    async getFilePropertiesMissingFile(test) {
+      const { client, containerName } = this.storage;
+      const error = await getRejection(client.getFileProperties(`${this.keyPrefix}missing.jpg`, containerName));
+      test.ok(error !== null && error.code === ERROR_CODE_NOT_FOUND);
+      test.done();
+    },
+    async deleteFile(test) {
+      const { client, containerName } = this.storage;
+      const fileKey = `${this.keyPrefix}1.jpg`;
+
+      await client.uploadFile(TEST_LOCAL_FILE_PATH_1, fileKey, containerName);
+      await client.deleteFile(fileKey, containerName);
+      test.ok(await client.fileExists(fileKey, containerName) === false);
+      test.done();
+    },
+    async deleteFiles(test) {
+      const { client, containerName } = this.storage;
+      const fileKeys = [`${this.keyPrefix}1.jpg`, `${this.keyPrefix}2.jpg`];
+
+      await client.uploadFile(TEST_LOCAL_FILE_PATH_1, fileKeys[0], containerName);
+      await client.uploadFile(TEST_LOCAL_FILE_PATH_1, fileKeys[1], containerName);
+      await client.deleteFiles(fileKeys, containerName);
+      test.deepEqual(await client.listFileNamesWithPrefix(this.keyPrefix, containerName), []);
+      test.done();
+    },
+    async deleteFilesIgnoresMissingFiles(test) {
+      const { client, containerName } = this.storage;
+      const fileKey = `${this.keyPrefix}1.jpg`;
+
+      await client.uploadFile(TEST_LOCAL_FILE_PATH_1, fileKey, containerName);
+      test.ok(await rejects(client.deleteFiles([fileKey, `${this.keyPrefix}missing.jpg`], containerName)) === false);
+      test.ok(await client.fileExists(fileKey, containerName) === false);
+      test.done();
+    },
+    async copyFile(test) {
+      const { client, containerName } = this.storage;
+      const fileKey = `${this.keyPrefix}1.jpg`;
+      const copyFileKey = `${this.keyPrefix}copies/1.jpg`;
+
+      await client.uploadFile(TEST_LOCAL_FILE_PATH_1, fileKey, containerName, { contentType: 'image/jpeg' });
+      await client.copyFile(fileKey, copyFileKey, containerName);
+      test.ok(await client.fileExists(fileKey, containerName) === true);
+      test.ok((await client.downloadFileAsBuffer(copyFileKey, containerName)).equals(fs.readFileSync(TEST_LOCAL_FILE_PATH_1)));
+      test.ok((await client.getFileProperties(copyFileKey, containerName)).contentType === 'image/jpeg');
+      test.done();
+    },
+    async copyFileMissingFile(test) {
+      const { client, containerName } = this.storage;
+      const error = await getRejection(client.copyFile(`${this.keyPrefix}missing.jpg`, `${this.keyPrefix}copy.jpg`, containerName));
+      test.ok(error !== null && error.code === ERROR_CODE_NOT_FOUND);
+      test.ok(await client.fileExists(`${this.keyPrefix}copy.jpg`, containerName) === false);
+      test.done();
+    },
+    async moveFile(test) {
+      const { client, containerName } = this.storage;
+      const fileKey = `${this.keyPrefix}1.jpg`;
+      const newFileKey = `${this.keyPrefix}moved/1.jpg`;
+
+      await client.uploadFile(TEST_LOCAL_FILE_PATH_1, fileKey, containerName);
+      await client.moveFile(fileKey, newFileKey, containerName);
+      test.ok(await client.fileExists(fileKey, containerName) === false);
+      test.ok((await client.downloadFileAsBuffer(newFileKey, containerName)).equals(fs.readFileSync(TEST_LOCAL_FILE_PATH_1)));
+      test.done();
+    },
+    async moveFileOntoItself(test) {
+      const { client, containerName } = this.storage;
+      const fileKey = `${this.keyPrefix}1.jpg`;
+
+      await client.uploadFile(TEST_LOCAL_FILE_PATH_1, fileKey, containerName);
+      test.ok(await rejects(client.moveFile(fileKey, fileKey, containerName)));
+      test.ok((await client.downloadFileAsBuffer(fileKey, containerName)).equals(fs.readFileSync(TEST_LOCAL_FILE_PATH_1)));
+      test.done();
+    },
+    async moveFileMissingFile(test) {
+      const { client, containerName } = this.storage;
+      const error = await getRejection(client.moveFile(`${this.keyPrefix}missing.jpg`, `${this.keyPrefix}moved.jpg`, containerName));
+      test.ok(error !== null && error.code === ERROR_CODE_NOT_FOUND);
+      test.done();
+    }
+  });
+}
+
+module.exports = { getConformanceTests };
@@ -0,0 +1,72 @@
+/*
+ * Tests the server-side copies of the Azure client against a fake Blob service, so no network
+ * access or real credentials are needed.
+ *
+ * To run the test type command:
+ * ./node_modules/.bin/nodeunit ./test/unit/azure-blob-storage-client-test.js
+ */
+
+const { AzureBlobStorageClient, DEFAULT_MAX_COPY_WAIT_IN_MS } = require('../../dist/azure-blob-storage-client');
+const { StorageErrorCode, TransientError } = require('../../dist/storage-errors');
+
+const TEST_CONTAINER_NAME = 'test-container';
+const TEST_SOURCE_URL = 'https://bucket.s3.amazonaws.com/a.jpg?Signature=x';
+
+/**
+ * @param copyResults The properties returned by the start of the copy and by each poll, the last one repeated.
+ * @return An Azure client with a fake Blob service recording the aborted copies.
+ */
+function getTestAzureClient(copyResults) {
+  const azureClient = new AzureBlobStorageClient();
+  azureClient.initialize('account', Buffer.from('key').toString('base64'), TEST_CONTAINER_NAME);
+  const nextCopyResult = () => (copyResults.length > 1 ? copyResults.shift() : copyResults[0]);
+  azureClient.abortedCopyIds = [];
+  azureClient.azureBlobService = {
+    startCopyBlob: (sourceUri, containerName, blobName, options, callback) => callback(null, nextCopyResult()),
+    getBlobProperties: (containerName, blobName, callback) => callback(null, nextCopyResult()),
+    abortCopyBlob: (containerName, blobName, copyId, callback) => {
+      azureClient.abortedCopyIds.push(copyId);
+      callback(null);
+    }
+  };
+  return azureClient;
+}
+
+async function getRejection(promise) {
+  try {
+    await promise;
+  } catch (error) {
+    return error;
+  }
+
+  return null;
+}
+
+module.exports = {
+  async pendingCopyIsAborted(test) {
+    const pending = { copy: { id: 'copy-1', status: 'pending' } };
+    const azureClient = getTestAzureClient([pending]);
+    test.equal(azureClient.getMaxCopyWaitInMs(), DEFAULT_MAX_COPY_WAIT_IN_MS);
+    azureClient.setMaxCopyWaitInMs(20);
+
+    const error = await getRejection(azureClient.copyFileFromUrl(TEST_SOURCE_URL, 'a.jpg'));
+    test.ok(error instanceof TransientError);
+    test.equal(error.code, StorageErrorCode.Transient);
+    test.deepEqual(azureClient.abortedCopyIds, ['copy-1']);
+    test.throws(() => azureClient.setMaxCopyWaitInMs(-1));
+    test.done();
+  },
+  async copyWithoutStatusFails(test) {
+    let azureClient = getTestAzureClient([{ etag: '"1"' }]);
+    let error = await getRejection(azureClient.copyFileFromUrl(TEST_SOURCE_URL, 'a.jpg'));
+    test.ok(error !== null && error.message.indexOf('no status') !== -1, 'Not polled forever');
+
+    // Replaced by an upload while pending
+    azureClient = getTestAzureClient([{ copy: { id: 'copy-1', status: 'pending' } }, { etag: '"2"' }]);
+    azureClient.setMaxCopyWaitInMs(50);
+    error = await getRejection(azureClient.copyFileFromUrl(TEST_SOURCE_URL, 'a.jpg'));
+    test.ok(error !== null && error.message.indexOf('no status') !== -1);
+    test.deepEqual(azureClient.abortedCopyIds, []);
+    test.done();
+  }
+};
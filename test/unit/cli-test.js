@@ -0,0 +1,221 @@
+/*
+ * Tests the command line tool with in-memory storages.
+ *
+ * To run the test type command:
+ * ./node_modules/.bin/nodeunit ./test/unit/cli-test.js
+ */
+
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { Writable } = require('stream');
+const { NULL_LOGGER } = require('../../dist/logger');
+const { MultiStorageClient, StorageType } = require('../../dist/multi-storage-client');
+const { InMemoryStorageClient } = require('../../dist/in-memory-storage-client');
+const {
+  Cli, CliUsageError, EXIT_CODE_FAILURE, EXIT_CODE_SUCCESS, EXIT_CODE_USAGE, parseArguments, resolveStorageIds
+} = require('../../dist/cli');
+
+const TEST_STORAGE_IDS = [StorageType.AzureBlobStorage, StorageType.AwsS3];
+const TEST_CONTAINER_NAME = 'test-container';
+const TEST_STORAGE_FILE_NAME_1 = 'images/test_1.txt';
+const TEST_STORAGE_FILE_NAME_2 = 'images/test_2.txt';
+const TEST_CONTENT = 'CLI test content';
+
+function getTestMultiStorageClient() {
+  const multiStorageClient = new MultiStorageClient();
+  multiStorageClient.setLogger(NULL_LOGGER);
+
+  TEST_STORAGE_IDS.forEach((storageId) => {
+    const storageClient = new InMemoryStorageClient();
+    storageClient.initialize(TEST_CONTAINER_NAME);
+    multiStorageClient.addStorageClient(storageId, storageClient);
+  });
+
+  return multiStorageClient;
+}
+
+function createOutput() {
+  const output = new Writable({
+    write(chunk, encoding, callback) {
+      output.text += chunk.toString();
+      callback();
+    }
+  });
+
+  output.text = '';
+  return output;
+}
+
+async function runCli(multiStorageClient, args) {
+  const output = createOutput();
+  const errorOutput = createOutput();
+  const exitCode = await new Cli(multiStorageClient, { output: output, errorOutput: errorOutput }).run(args);
+  return { exitCode: exitCode, output: output.text, errorOutput: errorOutput.text };
+}
+
+module.exports = {
+  /**
+   * This is called before every test.
+   *
+   * @param {*} callback
+   */
+  setUp(callback) {
+    this.tempFolder = fs.mkdtempSync(path.join(os.tmpdir(), 'cli-'));
+    this.multiStorageClient = getTestMultiStorageClient();
+    callback();
+  },
+  /**
+   * This is called after every test.
+   *
+   * @param {*} callback
+   */
+  tearDown(callback) {
+    fs.rmSync(this.tempFolder, { recursive: true, force: true });
+    callback();
+  },
+  parseArguments(test) {
+    test.deepEqual(parseArguments(['put', 'a.txt', '--to', 'azure', 'b.txt', '--json', '--container=c']), {
+      command: 'put',
+      positionals: ['a.txt', 'b.txt'],
+      options: { to: 'azure', json: true, container: 'c' }
+    });
+    test.deepEqual(parseArguments(['rm', '--', '--odd-key']).positionals, ['--odd-key']);
+    test.throws(() => parseArguments(['ls', '--delimiter']), CliUsageError);
+    test.throws(() => parseArguments(['sync', '--dry-rn']), CliUsageError);
+
+    test.deepEqual(resolveStorageIds('s3', TEST_STORAGE_IDS), [StorageType.AwsS3]);
+    test.deepEqual(resolveStorageIds('aws,Azure,aws', TEST_STORAGE_IDS), [StorageType.AwsS3, StorageType.AzureBlobStorage]);
+    test.deepEqual(resolveStorageIds('all', TEST_STORAGE_IDS), TEST_STORAGE_IDS);
+    test.throws(() => resolveStorageIds('gcs', TEST_STORAGE_IDS), CliUsageError);
+    test.done();
+  },
+  async putStatAndGet(test) {
+    const localFilePath = path.join(this.tempFolder, 'upload.txt');
+    fs.writeFileSync(localFilePath, TEST_CONTENT);
+
+    let result = await runCli(this.multiStorageClient, ['put', localFilePath, TEST_STORAGE_FILE_NAME_1, '--to', 's3', '--json']);
+    test.equal(result.exitCode, EXIT_CODE_SUCCESS);
+    test.deepEqual(JSON.parse(result.output), { name: TEST_STORAGE_FILE_NAME_1, storageIds: [StorageType.AwsS3], failedStorageIds: [] });
+
+    result = await runCli(this.multiStorageClient, ['stat', TEST_STORAGE_FILE_NAME_1, '--json']);
+    test.equal(result.exitCode, EXIT_CODE_SUCCESS);
+    const stat = JSON.parse(result.output);
+    test.deepEqual(stat.storageIds, [StorageType.AwsS3]);
+    test.deepEqual(stat.missingStorageIds, [StorageType.AzureBlobStorage]);
+    test.equal(stat.propertiesByStorage[StorageType.AwsS3].size, TEST_CONTENT.length);
+
+    result = await runCli(this.multiStorageClient, ['stat', TEST_STORAGE_FILE_NAME_1]);
+    test.ok(result.output.indexOf(StorageType.AzureBlobStorage + ': not held') !== -1);
+
+    result = await runCli(this.multiStorageClient, ['get', TEST_STORAGE_FILE_NAME_1, '-']);
+    test.equal(result.exitCode, EXIT_CODE_SUCCESS);
+    test.equal(result.output, TEST_CONTENT);
+
+    const downloadedFilePath = path.join(this.tempFolder, 'download.txt');
+    result = await runCli(this.multiStorageClient, ['get', TEST_STORAGE_FILE_NAME_1, downloadedFilePath, '--replicate', '--json']);
+    test.equal(result.exitCode, EXIT_CODE_SUCCESS);
+    test.deepEqual(JSON.parse(result.output).replicatedTo, [StorageType.AzureBlobStorage]);
+    test.equal(fs.readFileSync(downloadedFilePath, 'utf8'), TEST_CONTENT);
+    test.deepEqual(Array.from(await this.multiStorageClient.storagesContainingFile(TEST_STORAGE_FILE_NAME_1)), TEST_STORAGE_IDS);
+    test.done();
+  },
+  async lsCpAndRm(test) {
+    this.multiStorageClient.getStorageClient(StorageType.AzureBlobStorage).putFile(TEST_STORAGE_FILE_NAME_1, TEST_CONTENT, undefined,
+      { contentType: 'text/plain', userMetadata: { owner: 'test' } });
+
+    let result = await runCli(this.multiStorageClient, ['cp', TEST_STORAGE_FILE_NAME_1, TEST_STORAGE_FILE_NAME_2]);
+    test.equal(result.exitCode, EXIT_CODE_SUCCESS);
+    const copiedFile = this.multiStorageClient.getStorageClient(StorageType.AwsS3).getFile(TEST_STORAGE_FILE_NAME_2);
+    test.equal(copiedFile.data.toString(), TEST_CONTENT);
+    test.equal(copiedFile.contentType, 'text/plain');
+    test.deepEqual(copiedFile.userMetadata, { owner: 'test' });
+
+    result = await runCli(this.multiStorageClient, ['ls', 'images/', '--json']);
+    test.deepEqual(JSON.parse(result.output).map((entry) => [entry.name, entry.storageIds]), [
+      [TEST_STORAGE_FILE_NAME_1, [StorageType.AzureBlobStorage]],
+      [TEST_STORAGE_FILE_NAME_2, TEST_STORAGE_IDS]
+    ]);
+
+    result = await runCli(this.multiStorageClient, ['ls', '--delimiter', '/']);
+    test.equal(result.output, 'PRE\t\t\timages/\n');
+
+    result = await runCli(this.multiStorageClient, ['ls', '--max-keys', '1']);
+    test.equal(result.output.trim().split('\n').length, 1);
+
+    result = await runCli(this.multiStorageClient, ['rm', TEST_STORAGE_FILE_NAME_1, TEST_STORAGE_FILE_NAME_2]);
+    test.equal(result.exitCode, EXIT_CODE_SUCCESS);
+    test.equal(await this.multiStorageClient.fileExists(TEST_STORAGE_FILE_NAME_2), false);
+
+    result = await runCli(this.multiStorageClient, ['stat', TEST_STORAGE_FILE_NAME_1, '--json']);
+    test.equal(result.exitCode, EXIT_CODE_FAILURE);
+    test.equal(JSON.parse(result.errorOutput).error, 'NotFound');
+    test.done();
+  },
+  async diffAndSync(test) {
+    this.multiStorageClient.getStorageClient(StorageType.AwsS3).putFile(TEST_STORAGE_FILE_NAME_1, TEST_CONTENT);
+
+    let result = await runCli(this.multiStorageClient, ['diff']);
+    test.equal(result.exitCode, EXIT_CODE_FAILURE, 'Differences are reported with the exit code');
+    test.ok(result.output.indexOf('missing from ' + StorageType.AzureBlobStorage + ': ' + TEST_STORAGE_FILE_NAME_1) !== -1);
+
+    result = await runCli(this.multiStorageClient, ['sync', '--dry-run', '--json']);
+    test.equal(result.exitCode, EXIT_CODE_SUCCESS);
+    test.equal(JSON.parse(result.output).copies.length, 1);
+    test.equal(this.multiStorageClient.getStorageClient(StorageType.AzureBlobStorage).getFile(TEST_STORAGE_FILE_NAME_1), undefined);
+
+    result = await runCli(this.multiStorageClient, ['sync', 'images/']);
+    test.equal(result.exitCode, EXIT_CODE_SUCCESS);
+    test.ok(result.output.indexOf('Copied ' + TEST_STORAGE_FILE_NAME_1 + ' from ' + StorageType.AwsS3 + ' to ' + StorageType.AzureBlobStorage) !== -1);
+
+    result = await runCli(this.multiStorageClient, ['diff', 'images/']);
+    test.equal(result.exitCode, EXIT_CODE_SUCCESS);
+    test.done();
+  },
+  async verify(test) {
+    TEST_STORAGE_IDS.forEach((storageId) => {
+      this.multiStorageClient.getStorageClient(storageId).putFile(TEST_STORAGE_FILE_NAME_1, TEST_CONTENT);
+    });
+    this.multiStorageClient.getStorageClient(StorageType.AwsS3).corruptFile(TEST_STORAGE_FILE_NAME_1);
+
+    let result = await runCli(this.multiStorageClient, ['verify', 'images/']);
+    test.equal(result.exitCode, EXIT_CODE_FAILURE, 'Corrupt copies are reported with the exit code');
+    test.ok(result.output.indexOf('corrupt in ' + StorageType.AwsS3 + ': ' + TEST_STORAGE_FILE_NAME_1) !== -1);
+    test.ok(result.output.indexOf('1 checked, 1 differing, 1 corrupt, 0 repaired, 0 failed') !== -1);
+
+    result = await runCli(this.multiStorageClient, ['verify', '--repair', '--algorithm', 'md5', '--json']);
+    test.equal(result.exitCode, EXIT_CODE_SUCCESS);
+    test.deepEqual(JSON.parse(result.output).mismatches[0].repairedStorageIds, [StorageType.AwsS3]);
+
+    result = await runCli(this.multiStorageClient, ['verify']);
+    test.equal(result.exitCode, EXIT_CODE_SUCCESS);
+
+    result = await runCli(this.multiStorageClient, ['verify', '--algorithm', 'sha1']);
+    test.equal(result.exitCode, EXIT_CODE_USAGE);
+    test.done();
+  },
+  async failures(test) {
+    let result = await runCli(this.multiStorageClient, ['mv', 'a', 'b']);
+    test.equal(result.exitCode, EXIT_CODE_USAGE);
+    test.ok(result.errorOutput.indexOf('Unknown command "mv"') !== -1);
+
+    result = await runCli(this.multiStorageClient, ['get']);
+    test.equal(result.exitCode, EXIT_CODE_USAGE);
+
+    result = await runCli(this.multiStorageClient, ['rm', 'a', '--dry-rn']);
+    test.equal(result.exitCode, EXIT_CODE_USAGE);
+    test.ok(result.errorOutput.indexOf('Unknown option --dry-rn') !== -1);
+
+    result = await runCli(this.multiStorageClient, ['--help']);
+    test.equal(result.exitCode, EXIT_CODE_SUCCESS);
+    test.ok(result.output.indexOf('Usage:') === 0);
+
+    const localFilePath = path.join(this.tempFolder, 'upload.txt');
+    fs.writeFileSync(localFilePath, TEST_CONTENT);
+    this.multiStorageClient.getStorageClient(StorageType.AwsS3).injectError('uploadFile', new Error('Injected'));
+    result = await runCli(this.multiStorageClient, ['put', localFilePath, TEST_STORAGE_FILE_NAME_1]);
+    test.equal(result.exitCode, EXIT_CODE_FAILURE, 'Not uploaded to all target storages');
+    test.ok(result.output.indexOf('failed: ' + StorageType.AwsS3) !== -1);
+    test.done();
+  }
+};
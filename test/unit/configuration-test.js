@@ -0,0 +1,207 @@
+/*
+ * Tests loading the configuration of the storages.
+ *
+ * To run the test type command:
+ * ./node_modules/.bin/nodeunit ./test/unit/configuration-test.js
+ */
+
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { AwsS3Client } = require('../../dist/aws-s3-client');
+const { AzureBlobStorageClient } = require('../../dist/azure-blob-storage-client');
+const { ContainerMappingStorageClient } = require('../../dist/container-mapping-storage-client');
+const { InMemoryStorageClient } = require('../../dist/in-memory-storage-client');
+const { LocalFileSystemStorageClient } = require('../../dist/local-file-system-storage-client');
+const {
+  ConfigurationError, PROFILE_ENVIRONMENT_VARIABLE, createMultiStorageClient, loadConfiguration, loadMultiStorageClient,
+  parseConfiguration, resolveProfile
+} = require('../../dist/configuration');
+
+const TEST_CONFIGURATION_YAML = `
+defaultProfile: dev
+profiles:
+  dev:
+    defaultContainer: photos
+    storages:
+      - id: memory
+        type: in-memory
+      - id: disk
+        type: local-file-system
+        rootDirectoryPath: \${TEST_ROOT_DIRECTORY}
+  prod:
+    storages:
+      - type: aws-s3
+        region: eu-west-2
+        credentials:
+          secretAccessKey: \${PROD_SECRET_ACCESS_KEY}
+`;
+const TEST_CONTENT = 'Configuration test content';
+
+async function getConfigurationError(promise) {
+  try {
+    await promise;
+  } catch (error) {
+    return error;
+  }
+
+  return null;
+}
+
+module.exports = {
+  /**
+   * This is called before every test.
+   *
+   * @param {*} callback
+   */
+  setUp(callback) {
+    this.tempFolder = fs.mkdtempSync(path.join(os.tmpdir(), 'configuration-'));
+    this.configurationFilePath = path.join(this.tempFolder, 'configuration.yaml');
+    fs.writeFileSync(this.configurationFilePath, TEST_CONFIGURATION_YAML);
+    callback();
+  },
+  /**
+   * This is called after every test.
+   *
+   * @param {*} callback
+   */
+  tearDown(callback) {
+    fs.rmSync(this.tempFolder, { recursive: true, force: true });
+    callback();
+  },
+  async profiles(test) {
+    const env = { TEST_ROOT_DIRECTORY: this.tempFolder };
+    const multiStorageClient = await loadMultiStorageClient(this.configurationFilePath, undefined, env);
+    test.deepEqual(multiStorageClient.getStorageIds(), ['memory', 'disk']);
+    test.ok(multiStorageClient.getStorageClient('memory') instanceof InMemoryStorageClient);
+    test.ok(multiStorageClient.getStorageClient('disk') instanceof LocalFileSystemStorageClient);
+    test.equal(multiStorageClient.getStorageClient('disk').getDefaultContainerName(), 'photos');
+
+    await multiStorageClient.uploadBuffer(Buffer.from(TEST_CONTENT), 'a.txt');
+    test.equal(fs.readFileSync(path.join(this.tempFolder, 'photos', 'a.txt'), 'utf8'), TEST_CONTENT);
+
+    // Selected by the environment variable
+    env[PROFILE_ENVIRONMENT_VARIABLE] = 'prod';
+    env.AWS_ACCESS_KEY_ID = 'id-from-env';
+    env.PROD_SECRET_ACCESS_KEY = 'secret';
+    const profile = await resolveProfile(await loadConfiguration(this.configurationFilePath), undefined, env);
+    test.equal(profile.name, 'prod');
+    test.deepEqual(profile.storages[0].id, 'aws-s3', 'The ID defaults to the type');
+    test.deepEqual(profile.storages[0].credentials, { accessKey: undefined, accessKeyId: 'id-from-env', secretAccessKey: 'secret' });
+    test.done();
+  },
+  async credentialsAndEndpoints(test) {
+    const credentialsFilePath = path.join(this.tempFolder, 'credentials.json');
+    fs.writeFileSync(credentialsFilePath, JSON.stringify({
+      azure: { accessKey: 'YXp1cmUta2V5' },
+      s3: { accessKeyId: 'id-from-file', secretAccessKey: 'secret-from-file' }
+    }));
+
+    const configuration = {
+      profiles: {
+        default: {
+          storages: [{
+            id: 'azure',
+            type: 'azure-blob-storage',
+            accountName: 'account',
+            endpoint: 'http://127.0.0.1:10000/account',
+            credentials: { file: credentialsFilePath }
+          }, {
+            type: 'aws-s3',
+            region: 'eu-west-2',
+            endpoint: 'http://127.0.0.1:9000',
+            credentials: { file: credentialsFilePath, section: 's3', accessKeyId: 'inline-id' }
+          }]
+        }
+      }
+    };
+
+    const profile = await resolveProfile(configuration, undefined, {});
+    test.equal(profile.name, 'default');
+    test.equal(profile.storages[0].credentials.accessKey, 'YXp1cmUta2V5');
+    test.deepEqual(profile.storages[1].credentials,
+      { accessKey: undefined, accessKeyId: 'inline-id', secretAccessKey: 'secret-from-file' }, 'The inline values come first');
+
+    const multiStorageClient = createMultiStorageClient(profile);
+    const azureBlobStorageClient = multiStorageClient.getStorageClient('azure');
+    const awsS3Client = multiStorageClient.getStorageClient('aws-s3');
+    test.ok(azureBlobStorageClient instanceof AzureBlobStorageClient);
+    test.ok(awsS3Client instanceof AwsS3Client);
+    test.equal(azureBlobStorageClient.azureBlobService.host.primaryHost, 'http://127.0.0.1:10000/account');
+    test.equal(awsS3Client.s3Client.endpoint.href, 'http://127.0.0.1:9000/');
+    test.done();
+  },
+  async containerNameMappings(test) {
+    const profile = await resolveProfile({
+      profiles: {
+        default: {
+          defaultContainer: 'photos',
+          storages: [
+            { id: 'first', type: 'in-memory' },
+            { id: 'second', type: 'in-memory', containerNameMappings: { photos: 'photos-bucket', videos: 'videos-bucket' } }
+          ]
+        }
+      }
+    }, undefined, {});
+    const multiStorageClient = createMultiStorageClient(profile);
+    const firstStorageClient = multiStorageClient.getStorageClient('first');
+    const secondStorageClient = multiStorageClient.getStorageClient('second');
+    test.ok(secondStorageClient instanceof ContainerMappingStorageClient);
+    test.equal(secondStorageClient.getStorageClient().getDefaultContainerName(), 'photos-bucket', 'The default container is mapped');
+
+    await multiStorageClient.uploadBuffer(Buffer.from(TEST_CONTENT), 'a.txt');
+    await multiStorageClient.uploadBuffer(Buffer.from(TEST_CONTENT), 'b.txt', 'videos');
+    test.ok(firstStorageClient.getFile('a.txt', 'photos'));
+    test.ok(firstStorageClient.getFile('b.txt', 'videos'));
+    test.ok(secondStorageClient.getStorageClient().getFile('a.txt', 'photos-bucket'));
+    test.ok(secondStorageClient.getStorageClient().getFile('b.txt', 'videos-bucket'));
+
+    test.deepEqual((await multiStorageClient.listFileNamesWithPrefix('', 'videos')), ['b.txt']);
+    test.deepEqual(Array.from(await multiStorageClient.storagesContainingFile('b.txt', 'videos')), ['first', 'second']);
+    test.done();
+  },
+  async validation(test) {
+    let error = await getConfigurationError(resolveProfile({
+      profiles: {
+        default: {
+          storages: [
+            { type: 'aws-s3', regoin: 'eu-west-2', endpoint: 'ftp://example.com' },
+            { type: 'azure-blob-storage', accountName: '\${MISSING_ACCOUNT}', credentials: { accessKey: 'key' } },
+            { type: 'gcs' },
+            { id: 'aws-s3', type: 'local-file-system', rootDirectoryPath: 1 }
+          ]
+        }
+      }
+    }, undefined, {}));
+
+    test.ok(error instanceof ConfigurationError);
+    test.deepEqual(error.problems, [
+      'profiles.default.storages[1].accountName: environment variable MISSING_ACCOUNT is not set',
+      'profiles.default.storages[0].regoin: unknown field',
+      'profiles.default.storages[0].endpoint: not an http or https URL: "ftp://example.com"',
+      'profiles.default.storages[0].region: required for aws-s3',
+      'profiles.default.storages[0].credentials.accessKeyId: required for aws-s3 (or set AWS_ACCESS_KEY_ID)',
+      'profiles.default.storages[0].credentials.secretAccessKey: required for aws-s3 (or set AWS_SECRET_ACCESS_KEY)',
+      'profiles.default.storages[1].accountName: required for azure-blob-storage',
+      'profiles.default.storages[2].type: unknown type "gcs", the types are: azure-blob-storage, aws-s3, local-file-system, in-memory',
+      'profiles.default.storages[3].rootDirectoryPath: must be a string',
+      'profiles.default.storages[3].id: duplicate ID "aws-s3"'
+    ]);
+    test.ok(error.message.indexOf('Invalid configuration of profile "default":\n  - ') === 0);
+
+    error = await getConfigurationError(resolveProfile({ profiles: { dev: { storages: [] } } }, 'prod', {}));
+    test.equal(error.message, 'Profile "prod" not found, the profiles are: dev');
+
+    error = await getConfigurationError(resolveProfile({ profiles: { dev: { storages: [] } } }, 'dev', {}));
+    test.deepEqual(error.problems, ['profiles.dev.storages: at least one storage is required']);
+
+    error = await getConfigurationError(resolveProfile({
+      profiles: { default: { storages: [{ type: 'in-memory', credentials: { file: path.join(this.tempFolder, 'missing.json') } }] } }
+    }, undefined, {}));
+    test.ok(error.problems[0].indexOf('profiles.default.storages[0].credentials.file: Failed to read') === 0);
+
+    test.throws(() => parseConfiguration('{ "profiles": '), ConfigurationError);
+    test.throws(() => parseConfiguration('- a list', 'yaml'), ConfigurationError);
+    test.done();
+  }
+};
@@ -0,0 +1,78 @@
+/*
+ * Tests for comparing the copies of a file and resolving conflicts between them.
+ */
+
+const { ConflictResolutionPolicy, filePropertiesMatch, resolveConflict } = require('../../dist/conflict-resolution');
+
+function getFileProperties(size, contentMD5, secondsAgo) {
+  return { size: size, contentMD5: contentMD5, lastModified: new Date(Date.now() - secondsAgo * 1000) };
+}
+
+module.exports = {
+  filePropertiesMatch(test) {
+    test.ok(filePropertiesMatch(getFileProperties(1, 'a', 0), getFileProperties(1, 'a', 10)) === true);
+    test.ok(filePropertiesMatch(getFileProperties(1, 'a', 0), getFileProperties(1, 'b', 0)) === false);
+    test.ok(filePropertiesMatch(getFileProperties(1, 'a', 0), getFileProperties(2, 'a', 0)) === false);
+    // Only the sizes can be compared, if either hash is unknown
+    test.ok(filePropertiesMatch(getFileProperties(1, undefined, 0), getFileProperties(1, 'b', 0)) === true);
+    test.done();
+  },
+  resolveConflictAllMatch(test) {
+    const filePropertiesByStorage = new Map([
+      ['first', getFileProperties(1, 'a', 10)],
+      ['second', getFileProperties(1, 'a', 0)]
+    ]);
+
+    test.ok(resolveConflict(ConflictResolutionPolicy.NewestWins, filePropertiesByStorage) === null);
+    test.ok(resolveConflict(ConflictResolutionPolicy.PrimaryWins, new Map()) === null);
+    test.done();
+  },
+  resolveConflictNewestWins(test) {
+    const filePropertiesByStorage = new Map([
+      ['first', getFileProperties(1, 'a', 20)],
+      ['second', getFileProperties(1, 'b', 0)],
+      ['third', getFileProperties(1, 'a', 10)]
+    ]);
+
+    const conflictResolution = resolveConflict(ConflictResolutionPolicy.NewestWins, filePropertiesByStorage);
+    test.ok(conflictResolution.policy === ConflictResolutionPolicy.NewestWins);
+    test.ok(conflictResolution.winningStorageId === 'second');
+    test.deepEqual(conflictResolution.staleStorageIds, ['first', 'third']);
+    test.deepEqual(conflictResolution.repairedStorageIds, ['first', 'third']);
+    test.deepEqual(Object.keys(conflictResolution.filePropertiesByStorage), ['first', 'second', 'third']);
+    test.done();
+  },
+  resolveConflictNewestWinsTie(test) {
+    const lastModified = new Date();
+    const filePropertiesByStorage = new Map([
+      ['first', { size: 1, contentMD5: 'a', lastModified: lastModified }],
+      ['second', { size: 1, contentMD5: 'b', lastModified: lastModified }]
+    ]);
+
+    test.ok(resolveConflict(ConflictResolutionPolicy.NewestWins, filePropertiesByStorage).winningStorageId === 'first');
+    test.done();
+  },
+  resolveConflictPrimaryWins(test) {
+    const filePropertiesByStorage = new Map([
+      ['first', getFileProperties(1, 'a', 20)],
+      ['second', getFileProperties(2, 'b', 0)]
+    ]);
+
+    const conflictResolution = resolveConflict(ConflictResolutionPolicy.PrimaryWins, filePropertiesByStorage);
+    test.ok(conflictResolution.winningStorageId === 'first');
+    test.deepEqual(conflictResolution.repairedStorageIds, ['second']);
+    test.done();
+  },
+  resolveConflictReportOnly(test) {
+    const filePropertiesByStorage = new Map([
+      ['first', getFileProperties(1, 'a', 20)],
+      ['second', getFileProperties(2, 'b', 0)]
+    ]);
+
+    const conflictResolution = resolveConflict(ConflictResolutionPolicy.ReportOnly, filePropertiesByStorage);
+    test.ok(conflictResolution.winningStorageId === 'first');
+    test.deepEqual(conflictResolution.staleStorageIds, ['second']);
+    test.deepEqual(conflictResolution.repairedStorageIds, []);
+    test.done();
+  }
+};
@@ -0,0 +1,202 @@
+/*
+ * Tests the disk cache alone and with MultiStorageClient.
+ *
+ * To run the test type command:
+ * ./node_modules/.bin/nodeunit ./test/unit/disk-cache-test.js
+ */
+
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { MultiStorageClient } = require('../../dist/multi-storage-client');
+const { InMemoryStorageClient } = require('../../dist/in-memory-storage-client');
+const { DiskCache } = require('../../dist/disk-cache');
+const { StorageErrorCode } = require('../../dist/storage-errors');
+
+const TEST_STORAGE_IDS = ['first', 'second'];
+const TEST_CONTAINER_NAME = 'test-container';
+const TEST_STORAGE_FILE_NAME_1 = 'test_1.txt';
+const TEST_STORAGE_FILE_NAME_2 = 'test_2.txt';
+const TEST_STORAGE_FILE_NAME_3 = 'test_3.txt';
+const TEST_CONTENT = '0123456789';
+
+function getTestMultiStorageClient(diskCache) {
+  const multiStorageClient = new MultiStorageClient();
+
+  TEST_STORAGE_IDS.forEach((storageId) => {
+    const storageClient = new InMemoryStorageClient();
+    storageClient.initialize(TEST_CONTAINER_NAME);
+    multiStorageClient.addStorageClient(storageId, storageClient);
+  });
+
+  multiStorageClient.setDiskCache(diskCache);
+  return multiStorageClient;
+}
+
+/**
+ * @param fileName The name of the file in the test container.
+ * @return The key of the file in the disk cache.
+ */
+function getCacheKey(fileName) {
+  return JSON.stringify([TEST_CONTAINER_NAME, fileName]);
+}
+
+async function getTestDiskCache(directoryPath, maxSizeInBytes) {
+  const diskCache = new DiskCache({ directoryPath: directoryPath, maxSizeInBytes: maxSizeInBytes });
+  await diskCache.initialize();
+  return diskCache;
+}
+
+module.exports = {
+  /**
+   * This is called before every test.
+   *
+   * @param {*} callback
+   */
+  setUp(callback) {
+    this.tempFolder = fs.mkdtempSync(path.join(os.tmpdir(), 'disk-cache-'));
+    this.cacheFolder = path.join(this.tempFolder, 'cache');
+    callback();
+  },
+  /**
+   * This is called after every test.
+   *
+   * @param {*} callback
+   */
+  tearDown(callback) {
+    fs.rmSync(this.tempFolder, { recursive: true, force: true });
+    callback();
+  },
+  async hitsAndMisses(test) {
+    const diskCache = await getTestDiskCache(this.cacheFolder);
+    const multiStorageClient = getTestMultiStorageClient(diskCache);
+    const storageClient = multiStorageClient.getStorageClient('second');
+    storageClient.putFile(TEST_STORAGE_FILE_NAME_1, TEST_CONTENT);
+
+    test.equal((await multiStorageClient.downloadFileAsBuffer(TEST_STORAGE_FILE_NAME_1, TEST_CONTAINER_NAME)).toString(), TEST_CONTENT);
+    test.equal(diskCache.getEntry(getCacheKey(TEST_STORAGE_FILE_NAME_1)).storageId, 'second');
+
+    // Served from the cache without downloading
+    storageClient.injectError('downloadFileToDisk', new Error('Injected download error'));
+    test.equal((await multiStorageClient.downloadFile(TEST_STORAGE_FILE_NAME_1, TEST_CONTAINER_NAME)).toString(), TEST_CONTENT);
+
+    const localFilePath = path.join(this.tempFolder, 'downloaded.txt');
+    await multiStorageClient.downloadFileToDisk(TEST_STORAGE_FILE_NAME_1, localFilePath, TEST_CONTAINER_NAME);
+    test.equal(fs.readFileSync(localFilePath, 'utf8'), TEST_CONTENT);
+
+    test.deepEqual(diskCache.getStatistics(), { hits: 2, misses: 1, evictions: 0, entryCount: 1, sizeInBytes: 10 });
+    test.done();
+  },
+  async staleFileIsDownloadedAgain(test) {
+    const diskCache = await getTestDiskCache(this.cacheFolder);
+    const multiStorageClient = getTestMultiStorageClient(diskCache);
+    const storageClient = multiStorageClient.getStorageClient('first');
+    storageClient.putFile(TEST_STORAGE_FILE_NAME_1, TEST_CONTENT);
+    await multiStorageClient.downloadFileAsBuffer(TEST_STORAGE_FILE_NAME_1, TEST_CONTAINER_NAME);
+
+    storageClient.putFile(TEST_STORAGE_FILE_NAME_1, 'Changed');
+    test.equal((await multiStorageClient.downloadFileAsBuffer(TEST_STORAGE_FILE_NAME_1, TEST_CONTAINER_NAME)).toString(), 'Changed');
+    test.deepEqual(diskCache.getStatistics(), { hits: 0, misses: 2, evictions: 0, entryCount: 1, sizeInBytes: 7 });
+
+    // Read from the other storage, when deleted from the one the file was cached from
+    multiStorageClient.getStorageClient('second').putFile(TEST_STORAGE_FILE_NAME_1, TEST_CONTENT);
+    await storageClient.deleteFile(TEST_STORAGE_FILE_NAME_1);
+    test.equal((await multiStorageClient.downloadFileAsBuffer(TEST_STORAGE_FILE_NAME_1, TEST_CONTAINER_NAME)).toString(), TEST_CONTENT);
+    test.equal(diskCache.getEntry(getCacheKey(TEST_STORAGE_FILE_NAME_1)).storageId, 'second');
+
+    await multiStorageClient.getStorageClient('second').deleteFile(TEST_STORAGE_FILE_NAME_1);
+
+    try {
+      await multiStorageClient.downloadFileAsBuffer(TEST_STORAGE_FILE_NAME_1, TEST_CONTAINER_NAME);
+      test.ok(false, 'The download should have failed');
+    } catch (error) {
+      test.equal(error.code, StorageErrorCode.NotFound);
+    }
+
+    test.equal(diskCache.getStatistics().entryCount, 0);
+    test.done();
+  },
+  async leastRecentlyUsedFileIsEvicted(test) {
+    const diskCache = await getTestDiskCache(this.cacheFolder, 25);
+    const multiStorageClient = getTestMultiStorageClient(diskCache);
+
+    [TEST_STORAGE_FILE_NAME_1, TEST_STORAGE_FILE_NAME_2, TEST_STORAGE_FILE_NAME_3].forEach((fileName) =>
+      multiStorageClient.getStorageClient('first').putFile(fileName, TEST_CONTENT));
+
+    await multiStorageClient.downloadFileAsBuffer(TEST_STORAGE_FILE_NAME_1, TEST_CONTAINER_NAME);
+    await multiStorageClient.downloadFileAsBuffer(TEST_STORAGE_FILE_NAME_2, TEST_CONTAINER_NAME);
+    await multiStorageClient.downloadFileAsBuffer(TEST_STORAGE_FILE_NAME_1, TEST_CONTAINER_NAME);
+    await multiStorageClient.downloadFileAsBuffer(TEST_STORAGE_FILE_NAME_3, TEST_CONTAINER_NAME);
+
+    test.notEqual(diskCache.getEntry(getCacheKey(TEST_STORAGE_FILE_NAME_1)), null);
+    test.equal(diskCache.getEntry(getCacheKey(TEST_STORAGE_FILE_NAME_2)), null);
+    test.notEqual(diskCache.getEntry(getCacheKey(TEST_STORAGE_FILE_NAME_3)), null);
+    test.deepEqual(diskCache.getStatistics(), { hits: 1, misses: 3, evictions: 1, entryCount: 2, sizeInBytes: 20 });
+    test.equal(fs.readdirSync(this.cacheFolder).length, 3, 'The index and the two cached files');
+    test.done();
+  },
+  async tooLargeFileIsNotCached(test) {
+    const diskCache = await getTestDiskCache(this.cacheFolder, 5);
+    const multiStorageClient = getTestMultiStorageClient(diskCache);
+    multiStorageClient.getStorageClient('first').putFile(TEST_STORAGE_FILE_NAME_1, TEST_CONTENT);
+
+    test.equal((await multiStorageClient.downloadFileAsBuffer(TEST_STORAGE_FILE_NAME_1, TEST_CONTAINER_NAME)).toString(), TEST_CONTENT);
+    test.equal(diskCache.getStatistics().entryCount, 0);
+    test.done();
+  },
+  async containerIsPartOfTheKey(test) {
+    const diskCache = await getTestDiskCache(this.cacheFolder);
+    const multiStorageClient = getTestMultiStorageClient(diskCache);
+    const storageClient = multiStorageClient.getStorageClient('first');
+    storageClient.putFile('b/c', 'In container a', 'a');
+    storageClient.putFile('c', 'In container a/b', 'a/b');
+
+    test.equal((await multiStorageClient.downloadFileAsBuffer('b/c', 'a')).toString(), 'In container a');
+    test.equal((await multiStorageClient.downloadFileAsBuffer('c', 'a/b')).toString(), 'In container a/b');
+    test.equal(diskCache.getStatistics().entryCount, 2);
+
+    // The default container differs between the storages
+    storageClient.putFile(TEST_STORAGE_FILE_NAME_1, TEST_CONTENT);
+    test.equal((await multiStorageClient.downloadFileAsBuffer(TEST_STORAGE_FILE_NAME_1)).toString(), TEST_CONTENT);
+    test.equal(diskCache.getStatistics().entryCount, 2, 'Not cached without a container');
+    test.done();
+  },
+  async cacheSurvivesRestart(test) {
+    const diskCache = await getTestDiskCache(this.cacheFolder);
+    const multiStorageClient = getTestMultiStorageClient(diskCache);
+    multiStorageClient.getStorageClient('first').putFile(TEST_STORAGE_FILE_NAME_1, TEST_CONTENT);
+    multiStorageClient.getStorageClient('first').putFile(TEST_STORAGE_FILE_NAME_2, TEST_CONTENT);
+    await multiStorageClient.downloadFileAsBuffer(TEST_STORAGE_FILE_NAME_1, TEST_CONTAINER_NAME);
+    await multiStorageClient.downloadFileAsBuffer(TEST_STORAGE_FILE_NAME_2, TEST_CONTAINER_NAME);
+
+    // A cached file removed by hand is dropped
+    fs.unlinkSync(path.join(this.cacheFolder, diskCache.getEntry(getCacheKey(TEST_STORAGE_FILE_NAME_2)).fileName));
+
+    const restartedDiskCache = await getTestDiskCache(this.cacheFolder);
+    test.equal(restartedDiskCache.getStatistics().entryCount, 1);
+    multiStorageClient.setDiskCache(restartedDiskCache);
+    test.equal((await multiStorageClient.downloadFileAsBuffer(TEST_STORAGE_FILE_NAME_1, TEST_CONTAINER_NAME)).toString(), TEST_CONTENT);
+    test.equal(restartedDiskCache.getStatistics().hits, 1);
+
+    await restartedDiskCache.clear();
+    test.deepEqual(fs.readdirSync(this.cacheFolder), ['index.json']);
+    test.done();
+  },
+  async corruptIndexIsDiscarded(test) {
+    fs.mkdirSync(this.cacheFolder);
+    fs.writeFileSync(path.join(this.cacheFolder, 'index.json'), '{"version":1,"entr');
+    const warnings = [];
+    const diskCache = new DiskCache({
+      directoryPath: this.cacheFolder,
+      logger: { warn: (message) => warnings.push(message), error: (message) => test.ok(false, message) }
+    });
+
+    await diskCache.initialize();
+    test.equal(diskCache.getStatistics().entryCount, 0);
+    test.equal(warnings.length, 1);
+    test.ok(warnings[0].indexOf('index.json') >= 0);
+    test.equal(JSON.parse(fs.readFileSync(path.join(this.cacheFolder, 'index.json'), 'utf8')).entries.length, 0,
+      'The index is replaced');
+    test.done();
+  }
+};
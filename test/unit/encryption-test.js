@@ -0,0 +1,270 @@
+/*
+ * Tests the envelope encryption of the files and the rotation of the master keys.
+ *
+ * To run the test type command:
+ * ./node_modules/.bin/nodeunit ./test/unit/encryption-test.js
+ */
+
+const crypto = require('crypto');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { Readable } = require('stream');
+const { DiskCache } = require('../../dist/disk-cache');
+const {
+  ENCRYPTION_ALGORITHM, ENCRYPTION_METADATA_KEY_ALGORITHM, ENCRYPTION_METADATA_KEY_KEY_ID, EnvelopeEncryption, isEncrypted
+} = require('../../dist/encryption');
+const { InMemoryStorageClient } = require('../../dist/in-memory-storage-client');
+const { LocalFileSystemStorageClient } = require('../../dist/local-file-system-storage-client');
+const { NULL_LOGGER } = require('../../dist/logger');
+const { MultiStorageClient } = require('../../dist/multi-storage-client');
+const { readStreamToBuffer } = require('../../dist/stream-utils');
+const { ConflictError, DecryptionError, NotSupportedError, StorageErrorCode } = require('../../dist/storage-errors');
+
+const TEST_STORAGE_IDS = ['first', 'second'];
+const TEST_CONTAINER_NAME = 'test-container';
+const TEST_STORAGE_FILE_NAME_1 = 'secret/test_1.txt';
+const TEST_STORAGE_FILE_NAME_2 = 'public/test_2.txt';
+const TEST_CONTENT = 'Encryption test content';
+const TEST_MASTER_KEYS = { k1: crypto.randomBytes(32), k2: crypto.randomBytes(32) };
+
+async function getError(promise) {
+  try {
+    await promise;
+  } catch (error) {
+    return error;
+  }
+
+  return null;
+}
+
+module.exports = {
+  /**
+   * This is called before every test.
+   *
+   * @param {*} callback
+   */
+  setUp(callback) {
+    this.tempFolder = fs.mkdtempSync(path.join(os.tmpdir(), 'encryption-'));
+    this.encryption = new EnvelopeEncryption({
+      masterKeys: { k1: TEST_MASTER_KEYS.k1 },
+      activeKeyId: 'k1',
+      shouldEncrypt: (storageFilePath) => storageFilePath.indexOf('secret/') === 0
+    });
+    this.multiStorageClient = new MultiStorageClient();
+    this.multiStorageClient.setLogger(NULL_LOGGER);
+    this.multiStorageClient.setEncryption(this.encryption);
+
+    TEST_STORAGE_IDS.forEach((storageId) => {
+      const storageClient = new InMemoryStorageClient();
+      storageClient.initialize(TEST_CONTAINER_NAME);
+      this.multiStorageClient.addStorageClient(storageId, storageClient);
+    });
+
+    callback();
+  },
+  /**
+   * This is called after every test.
+   *
+   * @param {*} callback
+   */
+  tearDown(callback) {
+    fs.rmSync(this.tempFolder, { recursive: true, force: true });
+    callback();
+  },
+  async encryptAndDecrypt(test) {
+    const encrypted = this.encryption.encryptBuffer(Buffer.from(TEST_CONTENT), { contentType: 'text/plain', userMetadata: { Owner: 'a' } });
+    test.equal(encrypted.content.length, Buffer.byteLength(TEST_CONTENT) + 16, 'The authentication tag is appended');
+    test.equal(encrypted.metadata.contentType, 'text/plain');
+    test.equal(encrypted.metadata.userMetadata.owner, 'a');
+    test.equal(encrypted.metadata.userMetadata[ENCRYPTION_METADATA_KEY_ALGORITHM], ENCRYPTION_ALGORITHM);
+    test.equal(encrypted.metadata.userMetadata[ENCRYPTION_METADATA_KEY_KEY_ID], 'k1');
+    test.ok(isEncrypted(encrypted.metadata));
+    test.equal(this.encryption.decryptBuffer(encrypted.content, encrypted.metadata, 'a.txt').toString(), TEST_CONTENT);
+    test.equal(this.encryption.decryptBuffer(Buffer.from(TEST_CONTENT), {}, 'a.txt').toString(), TEST_CONTENT, 'Not encrypted');
+
+    const encryptedStream = this.encryption.encryptStream(Readable.from([Buffer.from('Encryption '), Buffer.from('test content')]));
+    const content = await readStreamToBuffer(encryptedStream.content);
+    const decryptedStream = this.encryption.decryptStream(Readable.from([content.slice(0, 5), content.slice(5)]), encryptedStream.metadata, 'a.txt');
+    test.equal((await readStreamToBuffer(decryptedStream)).toString(), TEST_CONTENT);
+
+    // Tampered with or truncated
+    content[0] ^= 0xff;
+    test.throws(() => this.encryption.decryptBuffer(content, encryptedStream.metadata, 'a.txt'), DecryptionError);
+    let error = await getError(readStreamToBuffer(this.encryption.decryptStream(Readable.from([content]), encryptedStream.metadata, 'a.txt')));
+    test.equal(error.code, StorageErrorCode.DecryptionFailed);
+    test.throws(() => this.encryption.decryptBuffer(content.slice(0, 10), encryptedStream.metadata, 'a.txt'), DecryptionError);
+
+    // Without the master key
+    const otherEncryption = new EnvelopeEncryption({ masterKeys: { k2: TEST_MASTER_KEYS.k2 }, activeKeyId: 'k2' });
+    test.throws(() => otherEncryption.decryptBuffer(encrypted.content, encrypted.metadata, 'a.txt'), DecryptionError);
+
+    test.throws(() => new EnvelopeEncryption({ masterKeys: { k1: Buffer.alloc(16) }, activeKeyId: 'k1' }));
+    test.throws(() => new EnvelopeEncryption({ masterKeys: { k1: TEST_MASTER_KEYS.k1 }, activeKeyId: 'k2' }));
+    test.done();
+  },
+  async uploadAndDownload(test) {
+    await this.multiStorageClient.uploadBuffer(Buffer.from(TEST_CONTENT), TEST_STORAGE_FILE_NAME_1, undefined,
+      { contentType: 'text/plain', userMetadata: { owner: 'a' } });
+    await this.multiStorageClient.uploadBuffer(Buffer.from(TEST_CONTENT), TEST_STORAGE_FILE_NAME_2);
+
+    const first = this.multiStorageClient.getStorageClient('first').getFile(TEST_STORAGE_FILE_NAME_1);
+    const second = this.multiStorageClient.getStorageClient('second').getFile(TEST_STORAGE_FILE_NAME_1);
+    test.ok(first.data.toString().indexOf(TEST_CONTENT) === -1, 'Stored encrypted');
+    test.ok(first.data.equals(second.data), 'Encrypted once for all the storages');
+    test.deepEqual(first.userMetadata, second.userMetadata);
+    test.equal(this.multiStorageClient.getStorageClient('first').getFile(TEST_STORAGE_FILE_NAME_2).data.toString(), TEST_CONTENT,
+      'Only the files selected are encrypted');
+
+    test.equal((await this.multiStorageClient.downloadFileAsBuffer(TEST_STORAGE_FILE_NAME_1)).toString(), TEST_CONTENT);
+    test.equal((await readStreamToBuffer(await this.multiStorageClient.downloadFileAsStream(TEST_STORAGE_FILE_NAME_1))).toString(),
+      TEST_CONTENT);
+    const localFilePath = path.join(this.tempFolder, 'a.txt');
+    await this.multiStorageClient.downloadFileToDisk(TEST_STORAGE_FILE_NAME_1, localFilePath);
+    test.equal(fs.readFileSync(localFilePath).toString(), TEST_CONTENT);
+    test.equal((await this.multiStorageClient.downloadFileAsBuffer(TEST_STORAGE_FILE_NAME_2)).toString(), TEST_CONTENT);
+
+    const fileProperties = await this.multiStorageClient.getFileProperties(TEST_STORAGE_FILE_NAME_1);
+    test.equal(fileProperties.size, Buffer.byteLength(TEST_CONTENT));
+    test.equal(fileProperties.contentType, 'text/plain');
+    test.deepEqual(fileProperties.userMetadata, { owner: 'a' });
+
+    // Uploaded from a file and a stream
+    fs.writeFileSync(localFilePath, TEST_CONTENT);
+    await this.multiStorageClient.uploadFile(localFilePath, TEST_STORAGE_FILE_NAME_1);
+    test.ok(isEncrypted(this.multiStorageClient.getStorageClient('second').getFile(TEST_STORAGE_FILE_NAME_1)));
+    test.equal((await this.multiStorageClient.downloadFile(TEST_STORAGE_FILE_NAME_1)).toString(), TEST_CONTENT);
+    await this.multiStorageClient.uploadStream(fs.createReadStream(localFilePath), TEST_STORAGE_FILE_NAME_1);
+    test.equal((await this.multiStorageClient.downloadFile(TEST_STORAGE_FILE_NAME_1)).toString(), TEST_CONTENT);
+
+    // Read as stored without the encryption
+    this.multiStorageClient.setEncryption(null);
+    test.equal((await this.multiStorageClient.getFileProperties(TEST_STORAGE_FILE_NAME_1)).size, Buffer.byteLength(TEST_CONTENT) + 16);
+    test.ok((await this.multiStorageClient.downloadFile(TEST_STORAGE_FILE_NAME_1)).toString() !== TEST_CONTENT);
+    test.done();
+  },
+  async replicationCopiesTheEncryptedContent(test) {
+    const encrypted = this.encryption.encryptBuffer(Buffer.from(TEST_CONTENT));
+    this.multiStorageClient.getStorageClient('first').putFile(TEST_STORAGE_FILE_NAME_1, encrypted.content, undefined, encrypted.metadata);
+
+    const localFilePath = path.join(this.tempFolder, 'a.txt');
+    const result = await this.multiStorageClient.downloadFileToDiskAndReplicateIfNecessary(TEST_STORAGE_FILE_NAME_1, localFilePath);
+    test.equal(result.error, null);
+    test.deepEqual(result.targetStorageIds, ['second']);
+    test.equal(fs.readFileSync(localFilePath).toString(), TEST_CONTENT);
+
+    const copy = this.multiStorageClient.getStorageClient('second').getFile(TEST_STORAGE_FILE_NAME_1);
+    test.ok(copy.data.equals(encrypted.content));
+    test.deepEqual(copy.userMetadata, encrypted.metadata.userMetadata);
+
+    const replicatingReadStream = await this.multiStorageClient.downloadFileAsStreamAndReplicateIfNecessary(TEST_STORAGE_FILE_NAME_1);
+    test.equal(replicatingReadStream.fileProperties.size, Buffer.byteLength(TEST_CONTENT));
+    test.equal((await readStreamToBuffer(replicatingReadStream.stream)).toString(), TEST_CONTENT);
+    test.done();
+  },
+  async diskCacheKeepsTheEncryptedContent(test) {
+    const diskCache = new DiskCache({ directoryPath: path.join(this.tempFolder, 'cache') });
+    await diskCache.initialize();
+    this.multiStorageClient.setDiskCache(diskCache);
+    await this.multiStorageClient.uploadBuffer(Buffer.from(TEST_CONTENT), TEST_STORAGE_FILE_NAME_1, TEST_CONTAINER_NAME);
+
+    const download = () => this.multiStorageClient.downloadFileAsBuffer(TEST_STORAGE_FILE_NAME_1, TEST_CONTAINER_NAME);
+    test.equal((await download()).toString(), TEST_CONTENT);
+    test.equal((await download()).toString(), TEST_CONTENT, 'Read from the cache');
+    test.equal(diskCache.getStatistics().hits, 1);
+
+    const cachedFileName = diskCache.getEntry(JSON.stringify([TEST_CONTAINER_NAME, TEST_STORAGE_FILE_NAME_1])).fileName;
+    test.ok(fs.readFileSync(path.join(this.tempFolder, 'cache', cachedFileName)).toString().indexOf(TEST_CONTENT) === -1);
+    test.done();
+  },
+  async rotateKeys(test) {
+    await this.multiStorageClient.uploadBuffer(Buffer.from(TEST_CONTENT), TEST_STORAGE_FILE_NAME_1);
+    await this.multiStorageClient.uploadBuffer(Buffer.from(TEST_CONTENT), TEST_STORAGE_FILE_NAME_2);
+    const data = this.multiStorageClient.getStorageClient('first').getFile(TEST_STORAGE_FILE_NAME_1).data;
+
+    this.multiStorageClient.setEncryption(new EnvelopeEncryption({ masterKeys: TEST_MASTER_KEYS, activeKeyId: 'k2' }));
+    let report = await this.multiStorageClient.rotateKeys();
+    test.equal(report.keyId, 'k2');
+    test.deepEqual(report.summary, { filesChecked: 2, copiesRewrapped: 2, failures: 0 });
+
+    const file = this.multiStorageClient.getStorageClient('first').getFile(TEST_STORAGE_FILE_NAME_1);
+    test.equal(file.data, data, 'The content is not rewritten');
+    test.equal(file.userMetadata[ENCRYPTION_METADATA_KEY_KEY_ID], 'k2');
+
+    // The retired master key is no longer needed
+    this.multiStorageClient.setEncryption(new EnvelopeEncryption({ masterKeys: { k2: TEST_MASTER_KEYS.k2 }, activeKeyId: 'k2' }));
+    test.equal((await this.multiStorageClient.downloadFileAsBuffer(TEST_STORAGE_FILE_NAME_1)).toString(), TEST_CONTENT);
+    report = await this.multiStorageClient.rotateKeys('secret/');
+    test.deepEqual(report.summary, { filesChecked: 1, copiesRewrapped: 0, failures: 0 });
+
+    this.multiStorageClient.setEncryption(new EnvelopeEncryption({ masterKeys: TEST_MASTER_KEYS, activeKeyId: 'k1' }));
+    this.multiStorageClient.getStorageClient('second').injectError('setUserMetadata', new Error('Injected'));
+    report = await this.multiStorageClient.rotateKeys();
+    test.deepEqual(report.summary, { filesChecked: 2, copiesRewrapped: 1, failures: 1 });
+    test.deepEqual(report.failures.map((failure) => [failure.name, failure.storageId]), [[TEST_STORAGE_FILE_NAME_1, 'second']]);
+    test.equal((await this.multiStorageClient.downloadFileAsBuffer(TEST_STORAGE_FILE_NAME_1)).toString(), TEST_CONTENT,
+      'The copies wrapped with either key are read');
+
+    this.multiStorageClient.setEncryption(null);
+    test.ok(await getError(this.multiStorageClient.rotateKeys()) instanceof Error);
+    test.done();
+  },
+  async setUserMetadataChecksTheETag(test) {
+    const storageClient = this.multiStorageClient.getStorageClient('first');
+    storageClient.putFile(TEST_STORAGE_FILE_NAME_1, TEST_CONTENT, undefined, { contentType: 'text/plain' });
+    const fileProperties = await storageClient.getFileProperties(TEST_STORAGE_FILE_NAME_1);
+
+    await storageClient.setUserMetadata(TEST_STORAGE_FILE_NAME_1, { Owner: 'a' }, undefined, fileProperties.etag);
+    test.deepEqual((await storageClient.getFileProperties(TEST_STORAGE_FILE_NAME_1)).userMetadata, { owner: 'a' });
+    test.equal((await storageClient.getFileProperties(TEST_STORAGE_FILE_NAME_1)).contentType, 'text/plain');
+
+    storageClient.putFile(TEST_STORAGE_FILE_NAME_1, 'Replaced');
+    test.ok(await getError(storageClient.setUserMetadata(TEST_STORAGE_FILE_NAME_1, {}, undefined, fileProperties.etag))
+      instanceof ConflictError);
+    test.done();
+  },
+  async storageWithoutMetadataIsRefused(test) {
+    const localFileSystemStorageClient = new LocalFileSystemStorageClient();
+    localFileSystemStorageClient.initialize(this.tempFolder, TEST_CONTAINER_NAME);
+    test.throws(() => this.multiStorageClient.addStorageClient('local', localFileSystemStorageClient), NotSupportedError,
+      'The wrapped data keys would be lost');
+    test.deepEqual(this.multiStorageClient.getStorageIds(), TEST_STORAGE_IDS);
+
+    this.multiStorageClient.setEncryption(null);
+    this.multiStorageClient.addStorageClient('local', localFileSystemStorageClient);
+    test.throws(() => this.multiStorageClient.setEncryption(this.encryption), NotSupportedError);
+    test.equal(this.multiStorageClient.getEncryption(), null);
+    test.done();
+  },
+  async filesStoredWithoutEncryption(test) {
+    const warnings = [];
+    this.multiStorageClient.setLogger({ warn: (message) => warnings.push(message), error: (message) => test.ok(false, message) });
+    TEST_STORAGE_IDS.forEach((storageId) => {
+      this.multiStorageClient.getStorageClient(storageId).putFile(TEST_STORAGE_FILE_NAME_1, TEST_CONTENT);
+      this.multiStorageClient.getStorageClient(storageId).putFile(TEST_STORAGE_FILE_NAME_2, TEST_CONTENT);
+    });
+
+    test.equal((await this.multiStorageClient.downloadFileAsBuffer(TEST_STORAGE_FILE_NAME_1)).toString(), TEST_CONTENT);
+    test.equal((await readStreamToBuffer(await this.multiStorageClient.downloadFileAsStream(TEST_STORAGE_FILE_NAME_1))).toString(),
+      TEST_CONTENT);
+    test.equal(warnings.length, 2, 'Read as stored, with a warning');
+    test.ok(warnings[0].indexOf(TEST_STORAGE_FILE_NAME_1) !== -1);
+    await this.multiStorageClient.downloadFileAsBuffer(TEST_STORAGE_FILE_NAME_2);
+    test.equal(warnings.length, 2, 'Not to be encrypted');
+
+    this.multiStorageClient.setEncryption(new EnvelopeEncryption({
+      masterKeys: { k1: TEST_MASTER_KEYS.k1 },
+      activeKeyId: 'k1',
+      shouldEncrypt: (storageFilePath) => storageFilePath.indexOf('secret/') === 0,
+      rejectUnencrypted: true
+    }));
+    let error = await getError(this.multiStorageClient.downloadFileAsBuffer(TEST_STORAGE_FILE_NAME_1));
+    test.ok(error instanceof DecryptionError);
+    test.equal(error.code, StorageErrorCode.DecryptionFailed);
+    error = await getError(this.multiStorageClient.downloadFileAsStreamAndReplicateIfNecessary(TEST_STORAGE_FILE_NAME_1));
+    test.ok(error instanceof DecryptionError);
+    test.equal((await this.multiStorageClient.downloadFileAsBuffer(TEST_STORAGE_FILE_NAME_2)).toString(), TEST_CONTENT);
+    test.equal(warnings.filter((message) => message.indexOf('without decryption') !== -1).length, 2);
+    test.done();
+  }
+};
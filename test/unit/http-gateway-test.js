@@ -0,0 +1,256 @@
+/*
+ * Tests the HTTP gateway with in-memory storages.
+ *
+ * To run the test type command:
+ * ./node_modules/.bin/nodeunit ./test/unit/http-gateway-test.js
+ */
+
+const http = require('http');
+const { MultiStorageClient } = require('../../dist/multi-storage-client');
+const { InMemoryStorageClient } = require('../../dist/in-memory-storage-client');
+const { HttpGateway } = require('../../dist/http-gateway');
+const { ReadPreference, ReadPreferenceStrategy } = require('../../dist/read-preference');
+const { ChecksumMismatchError, NotSupportedError } = require('../../dist/storage-errors');
+
+const TEST_STORAGE_IDS = ['first', 'second'];
+const TEST_CONTAINER_NAME = 'test-container';
+const TEST_STORAGE_FILE_NAME_1 = 'images/test 1.txt';
+const TEST_CONTENT = '0123456789';
+
+function getTestMultiStorageClient() {
+  const multiStorageClient = new MultiStorageClient();
+
+  TEST_STORAGE_IDS.forEach((storageId) => {
+    const storageClient = new InMemoryStorageClient();
+    storageClient.initialize(TEST_CONTAINER_NAME);
+    multiStorageClient.addStorageClient(storageId, storageClient);
+  });
+
+  return multiStorageClient;
+}
+
+function sendRequest(port, method, path, headers, body) {
+  return new Promise((resolve, reject) => {
+    const request = http.request({
+      host: '127.0.0.1',
+      port: port,
+      method: method,
+      path: path,
+      headers: headers || {},
+      agent: false
+    }, (response) => {
+      let chunks = [];
+      response.on('data', (chunk) => chunks.push(chunk));
+      response.on('end', () => resolve({
+        statusCode: response.statusCode,
+        headers: response.headers,
+        body: Buffer.concat(chunks).toString()
+      }));
+    });
+
+    request.on('error', reject);
+    request.end(body);
+  });
+}
+
+function filePath(fileName) {
+  return '/' + TEST_CONTAINER_NAME + '/' + fileName.split('/').map(encodeURIComponent).join('/');
+}
+
+function waitFor(condition, timeoutInMs) {
+  const startTime = Date.now();
+
+  return new Promise((resolve, reject) => {
+    const check = () => {
+      if (condition()) {
+        resolve();
+      } else if (Date.now() - startTime > timeoutInMs) {
+        reject(new Error('Timed out'));
+      } else {
+        setTimeout(check, 5);
+      }
+    };
+
+    check();
+  });
+}
+
+module.exports = {
+  /**
+   * This is called before every test.
+   *
+   * @param {*} callback
+   */
+  setUp(callback) {
+    this.multiStorageClient = getTestMultiStorageClient();
+    this.httpGateway = new HttpGateway(this.multiStorageClient, { port: 0, host: '127.0.0.1', maxListKeys: 2, metricsPath: '/metrics' });
+    this.httpGateway.start().then((port) => {
+      this.port = port;
+      callback();
+    }, callback);
+  },
+  /**
+   * This is called after every test.
+   *
+   * @param {*} callback
+   */
+  tearDown(callback) {
+    this.httpGateway.stop().then(() => callback(), callback);
+  },
+  async getReplicatesFile(test) {
+    const secondStorageClient = this.multiStorageClient.getStorageClient('second');
+    secondStorageClient.putFile(TEST_STORAGE_FILE_NAME_1, TEST_CONTENT, undefined,
+      { contentType: 'text/plain', userMetadata: { owner: 'test' } });
+
+    const response = await sendRequest(this.port, 'GET', filePath(TEST_STORAGE_FILE_NAME_1));
+    test.equal(response.statusCode, 200);
+    test.equal(response.body, TEST_CONTENT);
+    test.equal(response.headers['content-type'], 'text/plain');
+    test.equal(response.headers['content-length'], '10');
+    test.equal(response.headers['x-served-from'], 'second');
+    test.equal(response.headers['x-meta-owner'], 'test');
+    test.equal(response.headers['accept-ranges'], 'bytes');
+    test.ok(/^"[0-9a-f]+"$/.test(response.headers['etag']));
+    test.ok(response.headers['last-modified']);
+
+    const firstStorageClient = this.multiStorageClient.getStorageClient('first');
+    await waitFor(() => !!firstStorageClient.getFile(TEST_STORAGE_FILE_NAME_1), 1000);
+    test.equal(firstStorageClient.getFile(TEST_STORAGE_FILE_NAME_1).contentType, 'text/plain');
+    test.done();
+  },
+  async getRange(test) {
+    this.multiStorageClient.getStorageClient('second').putFile(TEST_STORAGE_FILE_NAME_1, TEST_CONTENT);
+
+    let response = await sendRequest(this.port, 'GET', filePath(TEST_STORAGE_FILE_NAME_1), { Range: 'bytes=2-5' });
+    test.equal(response.statusCode, 206);
+    test.equal(response.body, '2345');
+    test.equal(response.headers['content-range'], 'bytes 2-5/10');
+    test.equal(response.headers['content-length'], '4');
+
+    // The whole file is replicated
+    const firstStorageClient = this.multiStorageClient.getStorageClient('first');
+    await waitFor(() => !!firstStorageClient.getFile(TEST_STORAGE_FILE_NAME_1), 1000);
+    test.equal(firstStorageClient.getFile(TEST_STORAGE_FILE_NAME_1).data.toString(), TEST_CONTENT);
+
+    response = await sendRequest(this.port, 'GET', filePath(TEST_STORAGE_FILE_NAME_1), { Range: 'bytes=-3' });
+    test.equal(response.statusCode, 206);
+    test.equal(response.body, '789');
+
+    response = await sendRequest(this.port, 'GET', filePath(TEST_STORAGE_FILE_NAME_1), { Range: 'bytes=8-100' });
+    test.equal(response.body, '89');
+    test.equal(response.headers['content-range'], 'bytes 8-9/10');
+
+    response = await sendRequest(this.port, 'GET', filePath(TEST_STORAGE_FILE_NAME_1), { Range: 'bytes=10-' });
+    test.equal(response.statusCode, 416);
+    test.equal(response.headers['content-range'], 'bytes */10');
+
+    response = await sendRequest(this.port, 'GET', filePath(TEST_STORAGE_FILE_NAME_1), { Range: 'bytes=0-1,4-5' });
+    test.equal(response.statusCode, 200, 'Multiple ranges are not supported');
+    test.equal(response.body, TEST_CONTENT);
+    test.done();
+  },
+  async head(test) {
+    this.multiStorageClient.getStorageClient('second').putFile(TEST_STORAGE_FILE_NAME_1, TEST_CONTENT, undefined, 'text/plain');
+
+    let response = await sendRequest(this.port, 'HEAD', filePath(TEST_STORAGE_FILE_NAME_1));
+    test.equal(response.statusCode, 200);
+    test.equal(response.body, '');
+    test.equal(response.headers['content-length'], '10');
+    test.equal(response.headers['content-type'], 'text/plain');
+    test.equal(response.headers['x-served-from'], 'second');
+    test.equal(this.multiStorageClient.getStorageClient('first').getFile(TEST_STORAGE_FILE_NAME_1), undefined,
+      'HEAD should not replicate');
+
+    response = await sendRequest(this.port, 'HEAD', filePath('missing.txt'));
+    test.equal(response.statusCode, 404);
+    test.done();
+  },
+  async headFollowsReadPreference(test) {
+    const secondStorageClient = this.multiStorageClient.getStorageClient('second');
+    this.multiStorageClient.getStorageClient('first').putFile(TEST_STORAGE_FILE_NAME_1, TEST_CONTENT);
+    secondStorageClient.putFile(TEST_STORAGE_FILE_NAME_1, TEST_CONTENT);
+    this.multiStorageClient.setReadPreference(new ReadPreference({
+      strategy: ReadPreferenceStrategy.Primary,
+      primaryStorageId: 'second'
+    }));
+
+    const headResponse = await sendRequest(this.port, 'HEAD', filePath(TEST_STORAGE_FILE_NAME_1));
+    const getResponse = await sendRequest(this.port, 'GET', filePath(TEST_STORAGE_FILE_NAME_1));
+    test.equal(headResponse.headers['x-served-from'], 'second');
+    test.equal(getResponse.headers['x-served-from'], 'second');
+    test.equal(headResponse.headers['etag'], getResponse.headers['etag']);
+    test.equal(headResponse.headers['content-length'], getResponse.headers['content-length']);
+
+    secondStorageClient.injectError('getFileProperties', new ChecksumMismatchError('Injected'), 1);
+    test.equal((await sendRequest(this.port, 'HEAD', filePath(TEST_STORAGE_FILE_NAME_1))).statusCode, 502);
+    secondStorageClient.injectError('getFileProperties', new NotSupportedError('Injected'), 1);
+    test.equal((await sendRequest(this.port, 'HEAD', filePath(TEST_STORAGE_FILE_NAME_1))).statusCode, 501);
+    test.done();
+  },
+  async putAndDelete(test) {
+    let response = await sendRequest(this.port, 'PUT', filePath(TEST_STORAGE_FILE_NAME_1),
+      { 'Content-Type': 'text/plain', 'X-Meta-Owner': 'test' }, TEST_CONTENT);
+    test.equal(response.statusCode, 201);
+    test.deepEqual(JSON.parse(response.body), { storageIds: TEST_STORAGE_IDS });
+
+    TEST_STORAGE_IDS.forEach((storageId) => {
+      const file = this.multiStorageClient.getStorageClient(storageId).getFile(TEST_STORAGE_FILE_NAME_1);
+      test.equal(file.data.toString(), TEST_CONTENT);
+      test.equal(file.contentType, 'text/plain');
+      test.deepEqual(file.userMetadata, { owner: 'test' });
+    });
+
+    response = await sendRequest(this.port, 'DELETE', filePath(TEST_STORAGE_FILE_NAME_1));
+    test.equal(response.statusCode, 204);
+
+    response = await sendRequest(this.port, 'GET', filePath(TEST_STORAGE_FILE_NAME_1));
+    test.equal(response.statusCode, 404);
+    test.equal(JSON.parse(response.body).error, 'NotFound');
+    test.done();
+  },
+  async list(test) {
+    ['a/1.txt', 'a/2.txt', 'a/b/3.txt', 'c.txt'].forEach((fileName, index) =>
+      this.multiStorageClient.getStorageClient(TEST_STORAGE_IDS[index % 2]).putFile(fileName, TEST_CONTENT));
+
+    let response = await sendRequest(this.port, 'GET', '/' + TEST_CONTAINER_NAME + '?prefix=a/');
+    test.equal(response.statusCode, 200);
+    let listing = JSON.parse(response.body);
+    test.deepEqual(listing.entries.map(entry => [entry.name, entry.storageIds]), [['a/1.txt', ['first']], ['a/2.txt', ['second']]]);
+    test.equal(listing.isTruncated, true);
+    test.equal(listing.nextStartAfter, 'a/2.txt');
+
+    response = await sendRequest(this.port, 'GET', '/' + TEST_CONTAINER_NAME + '/?prefix=a/&startAfter=a/2.txt');
+    listing = JSON.parse(response.body);
+    test.deepEqual(listing.entries.map(entry => entry.name), ['a/b/3.txt']);
+    test.equal(listing.isTruncated, false);
+    test.equal(listing.nextStartAfter, null);
+
+    response = await sendRequest(this.port, 'GET', '/' + TEST_CONTAINER_NAME + '?delimiter=/&maxKeys=1');
+    listing = JSON.parse(response.body);
+    test.deepEqual(listing.entries.map(entry => [entry.name, entry.isPrefix]), [['a/', true]]);
+    test.equal(listing.nextStartAfter, 'a/');
+    test.done();
+  },
+  async metrics(test) {
+    this.multiStorageClient.getStorageClient('first').putFile(TEST_STORAGE_FILE_NAME_1, TEST_CONTENT);
+    await sendRequest(this.port, 'GET', filePath(TEST_STORAGE_FILE_NAME_1));
+
+    let response = await sendRequest(this.port, 'GET', '/metrics');
+    test.equal(response.statusCode, 200);
+    test.ok(response.headers['content-type'].indexOf('text/plain; version=0.0.4') === 0);
+    test.ok(response.body.indexOf('multi_storage_requests_total{storage="first",operation="download"} 1\n') !== -1);
+
+    response = await sendRequest(this.port, 'PUT', '/metrics');
+    test.equal(response.statusCode, 405);
+    test.done();
+  },
+  async unsupportedRequests(test) {
+    let response = await sendRequest(this.port, 'POST', filePath(TEST_STORAGE_FILE_NAME_1));
+    test.equal(response.statusCode, 405);
+    test.equal(response.headers['allow'], 'GET, HEAD, PUT, DELETE');
+
+    response = await sendRequest(this.port, 'GET', '/');
+    test.equal(response.statusCode, 404);
+    test.done();
+  }
+};
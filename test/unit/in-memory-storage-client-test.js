@@ -0,0 +1,137 @@
+
+/*
+ * To run the test type command:
+ * ./node_modules/.bin/nodeunit ./test/unit/in-memory-storage-client-test.js
+ */
+
+const { InMemoryStorageClient, ALL_OPERATIONS } = require('../../dist/in-memory-storage-client');
+const { ERROR_CODE_NOT_FOUND } = require('../../dist/storage-client');
+const { getConformanceTests } = require('../storage-client-conformance');
+
+const TEST_CONTAINER_NAME = 'test-container';
+const TEST_STORAGE_FILE_NAME_1 = 'test_1.txt';
+
+function getTestInMemoryStorageClient() {
+  const client = new InMemoryStorageClient();
+  client.initialize(TEST_CONTAINER_NAME);
+  return client;
+}
+
+async function createTestStorage() {
+  return {
+    client: getTestInMemoryStorageClient(),
+    containerName: TEST_CONTAINER_NAME,
+    async cleanUp() {}
+  };
+}
+
+async function getRejection(promise) {
+  try {
+    await promise;
+  } catch (error) {
+    return error;
+  }
+
+  return null;
+}
+
+const testSuite = {};
+
+testSuite.conformance = getConformanceTests(createTestStorage);
+
+testSuite.faultInjection = {
+  async latency(test) {
+    const client = getTestInMemoryStorageClient();
+    client.setLatency(50);
+
+    const startTime = Date.now();
+    await client.fileExists(TEST_STORAGE_FILE_NAME_1);
+    test.ok(Date.now() - startTime >= 45);
+    test.done();
+  },
+  async injectedErrorFailsOperation(test) {
+    const client = getTestInMemoryStorageClient();
+    const injectedError = new Error('Injected');
+    client.putFile(TEST_STORAGE_FILE_NAME_1, 'data');
+    client.injectError('downloadFile', injectedError);
+
+    test.ok(await getRejection(client.downloadFile(TEST_STORAGE_FILE_NAME_1)) === injectedError);
+    test.ok(await getRejection(client.downloadFile(TEST_STORAGE_FILE_NAME_1)) === injectedError);
+    test.ok(await client.fileExists(TEST_STORAGE_FILE_NAME_1) === true);
+    test.done();
+  },
+  async injectedErrorWithCount(test) {
+    const client = getTestInMemoryStorageClient();
+    const injectedError = new Error('Injected');
+    client.putFile(TEST_STORAGE_FILE_NAME_1, 'data');
+    client.injectError('downloadFile', injectedError, 1);
+
+    test.ok(await getRejection(client.downloadFile(TEST_STORAGE_FILE_NAME_1)) === injectedError);
+    test.ok((await client.downloadFile(TEST_STORAGE_FILE_NAME_1)).toString() === 'data');
+    test.done();
+  },
+  async injectedErrorAllOperations(test) {
+    const client = getTestInMemoryStorageClient();
+    const injectedError = new Error('Injected');
+    client.injectError(ALL_OPERATIONS, injectedError);
+
+    test.ok(await getRejection(client.fileExists(TEST_STORAGE_FILE_NAME_1)) === injectedError);
+    test.ok(await getRejection(client.listFileNamesWithPrefix('')) === injectedError);
+    test.ok(await getRejection(client.deleteFile(TEST_STORAGE_FILE_NAME_1)) === injectedError);
+    test.done();
+  },
+  async injectedNotFound(test) {
+    const client = getTestInMemoryStorageClient();
+    client.putFile(TEST_STORAGE_FILE_NAME_1, 'data');
+    client.injectNotFound(TEST_STORAGE_FILE_NAME_1);
+
+    test.ok(await client.fileExists(TEST_STORAGE_FILE_NAME_1) === false);
+    test.deepEqual(await client.listFileNamesWithPrefix(''), []);
+
+    const error = await getRejection(client.downloadFile(TEST_STORAGE_FILE_NAME_1));
+    test.ok(error !== null && error.code === ERROR_CODE_NOT_FOUND);
+    test.done();
+  },
+  async clearFaults(test) {
+    const client = getTestInMemoryStorageClient();
+    client.putFile(TEST_STORAGE_FILE_NAME_1, 'data');
+    client.injectNotFound(TEST_STORAGE_FILE_NAME_1);
+    client.injectError('fileExists', new Error('Injected'));
+    client.clearFaults();
+
+    test.ok(await client.fileExists(TEST_STORAGE_FILE_NAME_1) === true);
+    test.done();
+  }
+};
+
+testSuite.metadata = {
+  async uploadBufferWithMetadata(test) {
+    const client = getTestInMemoryStorageClient();
+
+    await client.uploadBuffer(Buffer.from('data'), TEST_STORAGE_FILE_NAME_1, undefined, {
+      contentType: 'text/plain',
+      cacheControl: 'max-age=60',
+      contentDisposition: 'attachment',
+      userMetadata: { 'Owner': 'test' }
+    });
+
+    const fileProperties = await client.getFileProperties(TEST_STORAGE_FILE_NAME_1);
+    test.ok(fileProperties.contentType === 'text/plain');
+    test.ok(fileProperties.cacheControl === 'max-age=60');
+    test.ok(fileProperties.contentDisposition === 'attachment');
+    test.deepEqual(fileProperties.userMetadata, { owner: 'test' });
+    test.done();
+  },
+  async uploadBufferWithContentType(test) {
+    const client = getTestInMemoryStorageClient();
+
+    await client.uploadBuffer(Buffer.from('data'), TEST_STORAGE_FILE_NAME_1, undefined, 'text/csv');
+
+    const fileProperties = await client.getFileProperties(TEST_STORAGE_FILE_NAME_1);
+    test.ok(fileProperties.contentType === 'text/csv');
+    test.ok(fileProperties.userMetadata === undefined);
+    test.done();
+  }
+};
+
+module.exports = testSuite;
@@ -0,0 +1,233 @@
+/*
+ * Tests the checksums, the verification of the downloads and the copies, and the audit of the copies.
+ *
+ * To run the test type command:
+ * ./node_modules/.bin/nodeunit ./test/unit/integrity-test.js
+ */
+
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { Readable } = require('stream');
+const { InMemoryStorageClient } = require('../../dist/in-memory-storage-client');
+const { NULL_LOGGER } = require('../../dist/logger');
+const { MultiStorageClient } = require('../../dist/multi-storage-client');
+const {
+  ChecksumAlgorithm, ChecksumStream, checkContent, computeChecksum, computeFileChecksum, createChecksum, verifyContent
+} = require('../../dist/integrity');
+const { ChecksumMismatchError, StorageErrorCode } = require('../../dist/storage-errors');
+
+const TEST_STORAGE_IDS = ['first', 'second', 'third'];
+const TEST_CONTAINER_NAME = 'test-container';
+const TEST_STORAGE_FILE_NAME_1 = 'test_1.txt';
+const TEST_CONTENT = 'Integrity test content';
+
+async function getError(promise) {
+  try {
+    await promise;
+  } catch (error) {
+    return error;
+  }
+
+  return null;
+}
+
+/**
+ * A storage client flipping a byte of the given number of the uploaded streams.
+ */
+class CorruptingStorageClient extends InMemoryStorageClient {
+  constructor(corruptUploadCount) {
+    super();
+    this.corruptUploadCount = corruptUploadCount;
+  }
+
+  async uploadStream(readStream, fileKey, containerName, contentTypeOrMetadata) {
+    const chunks = [];
+
+    for await (const chunk of readStream) {
+      chunks.push(chunk);
+    }
+
+    const data = Buffer.concat(chunks);
+
+    if (this.corruptUploadCount > 0) {
+      this.corruptUploadCount--;
+      data[0] ^= 0xff;
+    }
+
+    return super.uploadStream(Readable.from([data]), fileKey, containerName, contentTypeOrMetadata);
+  }
+}
+
+module.exports = {
+  /**
+   * This is called before every test.
+   *
+   * @param {*} callback
+   */
+  setUp(callback) {
+    this.tempFolder = fs.mkdtempSync(path.join(os.tmpdir(), 'integrity-'));
+    this.multiStorageClient = new MultiStorageClient();
+    this.multiStorageClient.setLogger(NULL_LOGGER);
+
+    TEST_STORAGE_IDS.forEach((storageId) => {
+      const storageClient = new InMemoryStorageClient();
+      storageClient.initialize(TEST_CONTAINER_NAME);
+      this.multiStorageClient.addStorageClient(storageId, storageClient);
+    });
+
+    callback();
+  },
+  /**
+   * This is called after every test.
+   *
+   * @param {*} callback
+   */
+  tearDown(callback) {
+    fs.rmSync(this.tempFolder, { recursive: true, force: true });
+    callback();
+  },
+  async checksums(test) {
+    test.equal(computeChecksum(Buffer.from('123456789'), ChecksumAlgorithm.CRC32C), Buffer.from('e3069283', 'hex').toString('base64'));
+    test.equal(computeChecksum(Buffer.alloc(0), ChecksumAlgorithm.CRC32C), 'AAAAAA==');
+    test.equal(computeChecksum(Buffer.from(TEST_CONTENT)),
+      require('crypto').createHash('md5').update(TEST_CONTENT).digest('base64'), 'MD5 by default');
+
+    // Computed incrementally
+    const checksum = createChecksum(ChecksumAlgorithm.CRC32C);
+    checksum.update(Buffer.from('1234'));
+    checksum.update(Buffer.from('56789'));
+    test.equal(checksum.digest().toString('hex'), 'e3069283');
+    test.throws(() => createChecksum('sha1'));
+
+    const localFilePath = path.join(this.tempFolder, 'a.txt');
+    fs.writeFileSync(localFilePath, TEST_CONTENT);
+    test.equal(await computeFileChecksum(localFilePath, ChecksumAlgorithm.CRC32C), computeChecksum(Buffer.from(TEST_CONTENT),
+      ChecksumAlgorithm.CRC32C));
+    test.done();
+  },
+  async contentChecks(test) {
+    const content = Buffer.from(TEST_CONTENT);
+    test.equal(checkContent('a.txt', {}, { size: 1, contentMD5: 'x' }), null, 'Only the known fields are checked');
+    test.ok(checkContent('a.txt', { size: 2 }, { size: 1 }) instanceof ChecksumMismatchError);
+    test.equal(verifyContent(content, 'a.txt', { size: content.length, contentMD5: computeChecksum(content) }), content);
+    test.throws(() => verifyContent(content, 'a.txt', { contentMD5: computeChecksum(Buffer.from('other')) }), ChecksumMismatchError);
+
+    const error = await getError(new Promise((resolve, reject) => {
+      const checksumStream = new ChecksumStream('a.txt', ChecksumAlgorithm.MD5, () => ({ size: content.length + 1 }));
+      checksumStream.on('error', reject).on('end', resolve).resume();
+      checksumStream.end(content);
+    }));
+    test.equal(error.code, StorageErrorCode.ChecksumMismatch);
+    test.equal(error.storageFilePath, 'a.txt');
+    test.ok(error.isRetryable());
+    test.done();
+  },
+  async corruptDownloads(test) {
+    const first = this.multiStorageClient.getStorageClient('first');
+    first.putFile(TEST_STORAGE_FILE_NAME_1, TEST_CONTENT);
+    const fileProperties = await first.getFileProperties(TEST_STORAGE_FILE_NAME_1);
+    first.corruptFile(TEST_STORAGE_FILE_NAME_1);
+
+    test.equal((await first.getFileProperties(TEST_STORAGE_FILE_NAME_1)).contentMD5, fileProperties.contentMD5);
+    test.ok(await getError(first.downloadFileAsBuffer(TEST_STORAGE_FILE_NAME_1)) instanceof ChecksumMismatchError);
+    test.ok(await getError(first.downloadFileAsStream(TEST_STORAGE_FILE_NAME_1)) instanceof ChecksumMismatchError);
+
+    // The parts of a resumable download are checked against the hash of the whole file
+    const localFilePath = path.join(this.tempFolder, 'a.txt');
+    const error = await getError(first.downloadFileToDiskResumable(TEST_STORAGE_FILE_NAME_1, localFilePath, undefined,
+      { partSizeInBytes: 4 }));
+    test.ok(error instanceof ChecksumMismatchError);
+    test.deepEqual(fs.readdirSync(this.tempFolder), [], 'The partial file and the checkpoint are removed');
+
+    // The copy of another storage is read instead
+    this.multiStorageClient.getStorageClient('second').putFile(TEST_STORAGE_FILE_NAME_1, TEST_CONTENT);
+    test.equal((await this.multiStorageClient.downloadFileAsBuffer(TEST_STORAGE_FILE_NAME_1)).toString(), TEST_CONTENT);
+    test.done();
+  },
+  async corruptCopiesAreCopiedAgain(test) {
+    const target = new CorruptingStorageClient(1);
+    target.initialize(TEST_CONTAINER_NAME);
+    const multiStorageClient = new MultiStorageClient();
+    multiStorageClient.setLogger(NULL_LOGGER);
+    multiStorageClient.addStorageClient('source', this.multiStorageClient.getStorageClient('first'));
+    multiStorageClient.addStorageClient('target', target);
+    multiStorageClient.getStorageClient('source').putFile(TEST_STORAGE_FILE_NAME_1, TEST_CONTENT);
+
+    const localFilePath = path.join(this.tempFolder, 'a.txt');
+    let result = await multiStorageClient.downloadFileToDiskAndReplicateIfNecessary(TEST_STORAGE_FILE_NAME_1, localFilePath);
+    test.equal(result.error, null);
+    test.deepEqual(result.targetStorageIds, ['target']);
+    test.equal(target.corruptUploadCount, 0, 'The corrupt copy was detected');
+    test.equal(target.getFile(TEST_STORAGE_FILE_NAME_1).data.toString(), TEST_CONTENT);
+
+    // Copied again only once
+    target.corruptUploadCount = 2;
+    await multiStorageClient.deleteFile(TEST_STORAGE_FILE_NAME_1);
+    multiStorageClient.getStorageClient('source').putFile(TEST_STORAGE_FILE_NAME_1, TEST_CONTENT);
+    result = await multiStorageClient.downloadFileToDiskAndReplicateIfNecessary(TEST_STORAGE_FILE_NAME_1, localFilePath);
+    test.ok(result.error instanceof ChecksumMismatchError);
+    test.ok(result.error.message.indexOf('"target"') !== -1);
+    test.equal(fs.readFileSync(localFilePath).toString(), TEST_CONTENT, 'The download is not affected');
+    test.done();
+  },
+  async corruptReadsAreDownloadedAgain(test) {
+    const first = this.multiStorageClient.getStorageClient('first');
+    const downloadFileAsStream = first.downloadFileAsStream.bind(first);
+    let corruptReadCount = 1;
+
+    // The content read differs from the one stored, e.g. corrupted on the way
+    first.downloadFileAsStream = async (fileKey, containerName) => {
+      const stream = await downloadFileAsStream(fileKey, containerName);
+
+      if (corruptReadCount-- > 0) {
+        const chunks = [];
+
+        for await (const chunk of stream) {
+          chunks.push(chunk);
+        }
+
+        return Readable.from([Buffer.concat(chunks).slice(1)]);
+      }
+
+      return stream;
+    };
+
+    first.putFile(TEST_STORAGE_FILE_NAME_1, TEST_CONTENT);
+    const localFilePath = path.join(this.tempFolder, 'a.txt');
+    const result = await this.multiStorageClient.downloadFileToDiskAndReplicateIfNecessary(TEST_STORAGE_FILE_NAME_1, localFilePath);
+    test.equal(result.error, null);
+    test.equal(fs.readFileSync(localFilePath).toString(), TEST_CONTENT);
+    test.equal(this.multiStorageClient.getStorageClient('second').getFile(TEST_STORAGE_FILE_NAME_1).data.toString(), TEST_CONTENT);
+    test.equal(this.multiStorageClient.getStorageClient('third').getFile(TEST_STORAGE_FILE_NAME_1).data.toString(), TEST_CONTENT);
+    test.done();
+  },
+  async verify(test) {
+    TEST_STORAGE_IDS.forEach((storageId) => {
+      this.multiStorageClient.getStorageClient(storageId).putFile('a.txt', TEST_CONTENT);
+      this.multiStorageClient.getStorageClient(storageId).putFile('b.txt', TEST_CONTENT);
+    });
+    this.multiStorageClient.getStorageClient('first').putFile('c.txt', TEST_CONTENT);
+    this.multiStorageClient.getStorageClient('second').corruptFile('a.txt');
+    this.multiStorageClient.getStorageClient('third').putFile('b.txt', TEST_CONTENT.toUpperCase());
+
+    let report = await this.multiStorageClient.verify();
+    test.equal(report.algorithm, ChecksumAlgorithm.CRC32C);
+    test.deepEqual(report.summary, { filesChecked: 3, filesMismatched: 2, corruptCopies: 1, copiesRepaired: 0, failures: 0 });
+    test.deepEqual(report.mismatches.map((mismatch) => [mismatch.name, mismatch.corruptStorageIds]), [['a.txt', ['second']], ['b.txt', []]]);
+    test.equal(report.mismatches[0].checksumsByStorage.second, null);
+    test.equal(report.mismatches[0].checksumsByStorage.first, computeChecksum(Buffer.from(TEST_CONTENT), ChecksumAlgorithm.CRC32C));
+    test.notEqual(report.mismatches[1].checksumsByStorage.third, report.mismatches[1].checksumsByStorage.first);
+
+    report = await this.multiStorageClient.verify('a', undefined, { algorithm: ChecksumAlgorithm.MD5, repairCorruptCopies: true });
+    test.deepEqual(report.mismatches.map((mismatch) => [mismatch.name, mismatch.repairedStorageIds]), [['a.txt', ['second']]]);
+    test.equal(report.summary.copiesRepaired, 1);
+    test.equal(report.mismatches[0].checksumsByStorage.first, computeChecksum(Buffer.from(TEST_CONTENT)));
+
+    this.multiStorageClient.getStorageClient('third').injectError('downloadFileAsStream', new Error('Injected'), 1);
+    report = await this.multiStorageClient.verify('a');
+    test.deepEqual(report.mismatches.map((mismatch) => mismatch.name), [], 'The corrupt copy was replaced');
+    test.deepEqual(report.failures.map((failure) => failure.name), ['a.txt']);
+    test.done();
+  }
+};
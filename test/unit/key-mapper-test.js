@@ -0,0 +1,213 @@
+/*
+ * Tests translating the keys between the storages.
+ *
+ * To run the test type command:
+ * ./node_modules/.bin/nodeunit ./test/unit/key-mapper-test.js
+ */
+
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { InMemoryStorageClient } = require('../../dist/in-memory-storage-client');
+const { ChainedKeyMapper, EscapingKeyMapper, PrefixKeyMapper } = require('../../dist/key-mapper');
+const { KeyMappingStorageClient } = require('../../dist/key-mapping-storage-client');
+const { MultiStorageClient } = require('../../dist/multi-storage-client');
+const { createMultiStorageClient, resolveProfile } = require('../../dist/configuration');
+const { InvalidKeyError, StorageErrorCode } = require('../../dist/storage-errors');
+
+const TEST_CONTENT = 'Key mapping test content';
+
+async function getError(promise) {
+  try {
+    await promise;
+  } catch (error) {
+    return error;
+  }
+
+  return null;
+}
+
+async function collect(iterator) {
+  let entries = [];
+
+  for await (const entry of iterator) {
+    entries.push(entry);
+  }
+
+  return entries;
+}
+
+module.exports = {
+  /**
+   * This is called before every test.
+   *
+   * @param {*} callback
+   */
+  setUp(callback) {
+    this.tempFolder = fs.mkdtempSync(path.join(os.tmpdir(), 'key-mapper-'));
+    callback();
+  },
+  /**
+   * This is called after every test.
+   *
+   * @param {*} callback
+   */
+  tearDown(callback) {
+    fs.rmSync(this.tempFolder, { recursive: true, force: true });
+    callback();
+  },
+  async prefixKeyMapper(test) {
+    const keyMapper = new PrefixKeyMapper('media/', 'prod/media/');
+    test.equal(keyMapper.toStorageKey('media/a.jpg'), 'prod/media/a.jpg');
+    test.equal(keyMapper.toStorageKey('docs/a.txt'), 'docs/a.txt', 'The other keys are kept as is');
+    test.throws(() => keyMapper.toStorageKey('prod/media/a.jpg'), InvalidKeyError);
+    test.equal(keyMapper.fromStorageKey('prod/media/a.jpg'), 'media/a.jpg');
+    test.equal(keyMapper.fromStorageKey('docs/a.txt'), 'docs/a.txt');
+    test.equal(keyMapper.fromStorageKey('media/a.jpg'), null, 'No key maps to the key under the prefix');
+    test.deepEqual(keyMapper.toStoragePrefixes('media/2017/'), ['prod/media/2017/']);
+    test.deepEqual(keyMapper.toStoragePrefixes('me'), ['me', 'prod/media/']);
+    test.deepEqual(keyMapper.toStoragePrefixes('docs/'), ['docs/']);
+    test.ok(keyMapper.isOrderPreserving());
+
+    const rootKeyMapper = new PrefixKeyMapper('', 'prod/');
+    test.equal(rootKeyMapper.toStorageKey('a.txt'), 'prod/a.txt');
+    test.equal(rootKeyMapper.fromStorageKey('prod/a.txt'), 'a.txt');
+    test.equal(rootKeyMapper.fromStorageKey('staging/a.txt'), null);
+    test.done();
+  },
+  async escapingKeyMapper(test) {
+    let keyMapper = new EscapingKeyMapper();
+    test.equal(keyMapper.toStorageKey('a|b%c\n.txt'), 'a%7Cb%25c%0A.txt');
+    test.equal(keyMapper.toStorageKey('näyttö.txt'), 'näyttö.txt', 'Only the configured characters are escaped');
+    test.equal(keyMapper.fromStorageKey('a%7Cb%25c%0A.txt'), 'a|b%c\n.txt');
+    test.equal(keyMapper.fromStorageKey('a%7cb'), null, 'Not produced by the mapper');
+    test.equal(keyMapper.fromStorageKey('a%41'), null);
+    test.equal(keyMapper.fromStorageKey('a%7'), null);
+    test.ok(!keyMapper.isOrderPreserving());
+
+    keyMapper = new EscapingKeyMapper({
+      charactersToEscape: '\\|', escapeTrailingDotsAndSlashes: true, escapeLeadingSlashes: true, escapeUpperCase: true
+    });
+    ['/root/Report.', 'dir/', 'a|b', 'Ä\\ö..', '%%'].forEach((key) =>
+      test.equal(keyMapper.fromStorageKey(keyMapper.toStorageKey(key)), key));
+    test.equal(keyMapper.toStorageKey('/root/Report.'), '%2froot/%52eport%2e');
+    test.equal(keyMapper.toStorageKey('Ä'), '%c3%84');
+    test.deepEqual(keyMapper.toStoragePrefixes('dir/'), ['dir/', 'dir%2f']);
+    test.deepEqual(keyMapper.toStoragePrefixes('dir/a'), ['dir/a']);
+
+    const chainedKeyMapper = new ChainedKeyMapper([new PrefixKeyMapper('', 'prod/'), new EscapingKeyMapper()]);
+    test.equal(chainedKeyMapper.toStorageKey('a|b'), 'prod/a%7Cb');
+    test.equal(chainedKeyMapper.fromStorageKey('prod/a%7Cb'), 'a|b');
+    test.equal(chainedKeyMapper.fromStorageKey('staging/a'), null);
+    test.ok(!chainedKeyMapper.isOrderPreserving());
+    test.done();
+  },
+  async prefixListingsAreMerged(test) {
+    const storageClient = new InMemoryStorageClient();
+    storageClient.initialize('photos');
+    ['docs/a.txt', 'me.txt', 'media/hidden.jpg', 'prod/media/2017/a.jpg', 'prod/media/b.jpg', 'zeta.txt'].forEach((key) =>
+      storageClient.putFile(key, TEST_CONTENT));
+    const keyMappingStorageClient = new KeyMappingStorageClient(storageClient, new PrefixKeyMapper('media/', 'prod/media/'));
+
+    test.deepEqual((await collect(keyMappingStorageClient.listFiles())).map((entry) => entry.name),
+      ['docs/a.txt', 'me.txt', 'media/2017/a.jpg', 'media/b.jpg', 'zeta.txt'], 'Each key once, in order');
+    test.deepEqual((await collect(keyMappingStorageClient.listFiles('me'))).map((entry) => entry.name),
+      ['me.txt', 'media/2017/a.jpg', 'media/b.jpg']);
+    test.deepEqual((await collect(keyMappingStorageClient.listFiles('', undefined, { delimiter: '/' }))).map((entry) => entry.name),
+      ['docs/', 'me.txt', 'media/', 'zeta.txt']);
+    test.done();
+  },
+  async listingAndReplication(test) {
+    const azureBlobStorageClient = new InMemoryStorageClient();
+    const awsS3Client = new InMemoryStorageClient();
+    azureBlobStorageClient.initialize('photos');
+    awsS3Client.initialize('photos');
+
+    const multiStorageClient = new MultiStorageClient();
+    multiStorageClient.addStorageClient('azure', new KeyMappingStorageClient(azureBlobStorageClient,
+      new EscapingKeyMapper({ escapeTrailingDotsAndSlashes: true })));
+    multiStorageClient.addStorageClient('aws', new KeyMappingStorageClient(awsS3Client, new PrefixKeyMapper('', 'prod/')));
+
+    awsS3Client.putFile('prod/2017/report.', TEST_CONTENT);
+    awsS3Client.putFile('prod/2017/a|b.txt', TEST_CONTENT);
+    awsS3Client.putFile('staging/2017/c.txt', TEST_CONTENT);
+    azureBlobStorageClient.putFile('2017/a%7Cb.txt', TEST_CONTENT);
+    azureBlobStorageClient.putFile('2017/a|b.txt', TEST_CONTENT);
+
+    const entries = await collect(multiStorageClient.listFiles('2017/'));
+    test.deepEqual(entries.map((entry) => [entry.name, entry.storageIds]),
+      [['2017/a|b.txt', ['azure', 'aws']], ['2017/report.', ['aws']]], 'The keys no key maps to are left out');
+    test.deepEqual((await collect(multiStorageClient.listFiles('', undefined, { delimiter: '/' }))).map((entry) => entry.name), ['2017/']);
+
+    // Replicated with the key translated to both directions
+    const localFilePath = path.join(this.tempFolder, 'report');
+    const result = await multiStorageClient.downloadFileToDiskAndReplicateIfNecessary('2017/report.', localFilePath);
+    test.equal(result.error, null);
+    test.equal(result.sourceStorageId, 'aws');
+    test.deepEqual(result.targetStorageIds, ['azure']);
+    test.equal(fs.readFileSync(localFilePath, 'utf8'), TEST_CONTENT);
+    test.equal(azureBlobStorageClient.getFile('2017/report%2E').data.toString(), TEST_CONTENT);
+
+    await multiStorageClient.deleteFiles(['2017/report.']);
+    test.ok(!azureBlobStorageClient.getFile('2017/report%2E'));
+    test.ok(!awsS3Client.getFile('prod/2017/report.'));
+    test.done();
+  },
+  async lengthValidation(test) {
+    const inMemoryStorageClient = new InMemoryStorageClient();
+    inMemoryStorageClient.initialize('photos');
+    const storageClient = new KeyMappingStorageClient(inMemoryStorageClient, new EscapingKeyMapper(), { maxKeyLengthInBytes: 10 });
+
+    await storageClient.uploadBuffer(Buffer.from(TEST_CONTENT), 'ä|.txt');
+    test.ok(inMemoryStorageClient.getFile('ä%7C.txt'));
+
+    const error = await getError(storageClient.uploadBuffer(Buffer.from(TEST_CONTENT), 'äö|.txt'));
+    test.ok(error instanceof InvalidKeyError);
+    test.equal(error.code, StorageErrorCode.InvalidKey);
+    test.equal(error.storageFilePath, 'äö|.txt');
+    test.ok(await getError(storageClient.deleteFiles(['a.txt', 'äö|.txt'])) instanceof InvalidKeyError);
+    test.ok(inMemoryStorageClient.getFile('ä%7C.txt'), 'Nothing is deleted');
+    test.done();
+  },
+  async configuration(test) {
+    const profile = await resolveProfile({
+      profiles: {
+        default: {
+          defaultContainer: 'photos',
+          storages: [
+            { id: 'first', type: 'in-memory', keyMapping: { prefix: 'media/', storagePrefix: 'prod/media/', escape: true } },
+            { id: 'second', type: 'in-memory', keyMapping: { escape: { escapeUpperCase: true }, maxKeyLengthInBytes: 16 } }
+          ]
+        }
+      }
+    }, undefined, {});
+    const multiStorageClient = createMultiStorageClient(profile);
+    const firstStorageClient = multiStorageClient.getStorageClient('first');
+    const secondStorageClient = multiStorageClient.getStorageClient('second');
+    test.ok(firstStorageClient instanceof KeyMappingStorageClient);
+    test.equal(firstStorageClient.toStorageKey('media/a|b'), 'prod/media/a%7Cb');
+    test.equal(secondStorageClient.toStorageKey('media/A'), 'media/%41');
+    test.throws(() => secondStorageClient.toStorageKey('media/ABCDEFGH'), InvalidKeyError);
+
+    let error = await getError(resolveProfile({
+      profiles: {
+        default: {
+          storages: [{
+            type: 'in-memory',
+            keyMapping: { prefix: 1, maxKeyLengthInBytes: -1, escape: { escapeCharacter: 'x', escapeUppercase: true } }
+          }, {
+            type: 'in-memory', id: 'second', keyMapping: 'escape'
+          }]
+        }
+      }
+    }, undefined, {}));
+    test.deepEqual(error.problems, [
+      'profiles.default.storages[0].keyMapping.prefix: must be a string',
+      'profiles.default.storages[0].keyMapping.maxKeyLengthInBytes: must be a positive integer',
+      'profiles.default.storages[0].keyMapping.escape.escapeUppercase: unknown field',
+      'profiles.default.storages[0].keyMapping.escape.escapeCharacter: must be a single character other than a letter or a digit',
+      'profiles.default.storages[1].keyMapping: must be an object'
+    ]);
+    test.done();
+  }
+};
@@ -0,0 +1,78 @@
+/*
+ * Tests for the listing helpers.
+ */
+
+const { compareKeys, groupByDelimiter, groupListingByDelimiter, mergeListings } = require('../../dist/listing-utils');
+
+function toEntries(names) {
+  return names.map(name => ({ name: name, isPrefix: false }));
+}
+
+async function* toListing(names) {
+  yield* toEntries(names);
+}
+
+module.exports = {
+  groupByDelimiter(test) {
+    const entries = toEntries(['p/a', 'p/a-b', 'p/a/1', 'p/a/2/3', 'p/b/1', 'p/c']);
+
+    test.deepEqual(groupByDelimiter(entries, 'p/', '/').map(entry => [entry.name, entry.isPrefix]), [
+      ['p/a', false],
+      ['p/a-b', false],
+      ['p/a/', true],
+      ['p/b/', true],
+      ['p/c', false]
+    ]);
+    test.ok(groupByDelimiter(entries, 'p/') === entries);
+    test.done();
+  },
+  async groupListingByDelimiter(test) {
+    const names = ['p/a', 'p/a-b', 'p/a/1', 'p/a/2/3', 'p/b/1', 'p/c'];
+    const grouped = [];
+
+    for await (const entry of groupListingByDelimiter(toListing(names), 'p/', '/')) {
+      grouped.push(entry);
+    }
+
+    test.deepEqual(grouped, groupByDelimiter(toEntries(names), 'p/', '/'));
+
+    const ungrouped = [];
+
+    for await (const entry of groupListingByDelimiter(toListing(names), 'p/')) {
+      ungrouped.push(entry.name);
+    }
+
+    test.deepEqual(ungrouped, names);
+    test.done();
+  },
+  async mergeListings(test) {
+    const merged = [];
+
+    for await (const entries of mergeListings([toListing(['a', 'c']), toListing([]), toListing(['b', 'c'])])) {
+      merged.push(entries.map(entry => (entry ? entry.name : null)));
+    }
+
+    test.deepEqual(merged, [
+      ['a', null, null],
+      [null, null, 'b'],
+      ['c', null, 'c']
+    ]);
+    test.done();
+  },
+  async keysInUtf8Order(test) {
+    // U+1F600 is encoded as F0 9F 98 80 in UTF-8, but as the surrogates D83D DE00 in UTF-16
+    const keys = ['a\u{1F600}', 'a\uFF21', 'a\u00E9', 'a\uE000', 'aa'];
+    test.deepEqual(keys.slice().sort(compareKeys), ['aa', 'a\u00E9', 'a\uE000', 'a\uFF21', 'a\u{1F600}']);
+    test.equal(compareKeys('a\u{1F600}', 'a\u{1F600}'), 0);
+
+    // Listings in the order of S3 are merged without duplicates
+    const merged = [];
+
+    for await (const entries of mergeListings([toListing(['a\uFF21', 'a\u{1F600}']), toListing(['a\u{1F600}'])])) {
+      merged.push(entries.map(entry => (entry ? entry.name : null)));
+    }
+
+    test.deepEqual(merged, [['a\uFF21', null], ['a\u{1F600}', 'a\u{1F600}']]);
+    test.done();
+  }
+};
@@ -0,0 +1,139 @@
+
+/*
+ * To run the test type command:
+ * ./node_modules/.bin/nodeunit ./test/unit/local-file-system-storage-client-test.js
+ */
+
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { PassThrough } = require('stream');
+const { LocalFileSystemStorageClient } = require('../../dist/local-file-system-storage-client');
+const { getConformanceTests } = require('../storage-client-conformance');
+
+const TEST_CONTAINER_NAME = 'test-container';
+const TEST_LOCAL_FILE_PATH_1 = path.join(__dirname, '..', 'data', '1.jpg');
+
+function removeDirectoryRecursively(directoryPath) {
+  fs.readdirSync(directoryPath).forEach((entryName) => {
+    const entryPath = path.join(directoryPath, entryName);
+
+    if (fs.statSync(entryPath).isDirectory()) {
+      removeDirectoryRecursively(entryPath);
+    } else {
+      fs.unlinkSync(entryPath);
+    }
+  });
+
+  fs.rmdirSync(directoryPath);
+}
+
+async function createTestStorage() {
+  const rootDirectoryPath = fs.mkdtempSync(path.join(os.tmpdir(), 'local-storage-'));
+  const client = new LocalFileSystemStorageClient();
+  client.initialize(rootDirectoryPath, TEST_CONTAINER_NAME);
+
+  return {
+    client,
+    containerName: TEST_CONTAINER_NAME,
+    rootDirectoryPath,
+    async cleanUp() {
+      removeDirectoryRecursively(rootDirectoryPath);
+    }
+  };
+}
+
+const testSuite = {};
+
+testSuite.conformance = getConformanceTests(createTestStorage);
+
+testSuite.localFileSystem = {
+  async setUp(callback) {
+    this.storage = await createTestStorage();
+    callback();
+  },
+  async tearDown(callback) {
+    await this.storage.cleanUp();
+    callback();
+  },
+  async containersMapToSubdirectories(test) {
+    const { client, rootDirectoryPath } = this.storage;
+
+    await client.uploadFile(TEST_LOCAL_FILE_PATH_1, 'images/1.jpg', 'other-container');
+    test.ok(fs.existsSync(path.join(rootDirectoryPath, 'other-container', 'images', '1.jpg')));
+    test.ok(await client.fileExists('images/1.jpg') === false);
+    test.ok(await client.fileExists('images/1.jpg', 'other-container') === true);
+    test.done();
+  },
+  async keysOutsideContainerAreRejected(test) {
+    const { client } = this.storage;
+    let rejected = false;
+
+    try {
+      await client.fileExists('../../outside.jpg');
+    } catch (error) {
+      rejected = true;
+    }
+
+    test.ok(rejected);
+    test.done();
+  },
+  async listFilesWithPrefixReturnsFileInfo(test) {
+    const { client } = this.storage;
+
+    await client.uploadFile(TEST_LOCAL_FILE_PATH_1, 'b/1.jpg');
+    await client.uploadFile(TEST_LOCAL_FILE_PATH_1, 'a/1.jpg');
+
+    const files = await client.listFilesWithPrefix('');
+    test.deepEqual(files.map(file => file.name), ['a/1.jpg', 'b/1.jpg']);
+    test.ok(files[0].size === fs.statSync(TEST_LOCAL_FILE_PATH_1).size);
+    test.ok(files[0].lastModified instanceof Date);
+    test.done();
+  },
+  async filePropertiesAreReadFromStat(test) {
+    const { client, rootDirectoryPath } = this.storage;
+
+    await client.uploadFile(TEST_LOCAL_FILE_PATH_1, 'a/1.jpg');
+    const stats = fs.statSync(path.join(rootDirectoryPath, TEST_CONTAINER_NAME, 'a', '1.jpg'));
+    const fileProperties = await client.getFileProperties('a/1.jpg');
+    test.equal(fileProperties.size, stats.size);
+    test.equal(fileProperties.lastModified.getTime(), stats.mtime.getTime());
+    test.equal(fileProperties.contentMD5, undefined, 'The content is not hashed');
+    test.equal(fileProperties.etag, stats.size.toString(16) + '-' + stats.mtime.getTime().toString(16));
+    test.done();
+  },
+  async failedWritesKeepPreviousFile(test) {
+    const { client, rootDirectoryPath } = this.storage;
+    const containerDirectoryPath = path.join(rootDirectoryPath, TEST_CONTAINER_NAME);
+    await client.uploadBuffer(Buffer.from('previous'), 'a.txt');
+
+    // Fails reading after the destination is opened
+    const failingStream = new PassThrough();
+    const upload = client.uploadStream(failingStream, 'a.txt');
+    failingStream.write('partial');
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    test.deepEqual(await client.listFileNamesWithPrefix(''), ['a.txt'], 'The file being written is not listed');
+    test.equal((await client.downloadFile('a.txt')).toString(), 'previous');
+    failingStream.emit('error', new Error('Injected'));
+    test.equal((await upload.catch((error) => error)).message, 'Injected');
+
+    // A directory opens but cannot be read
+    test.ok(await client.uploadFile(__dirname, 'a.txt').catch((error) => error) instanceof Error);
+    test.equal((await client.downloadFile('a.txt')).toString(), 'previous');
+    test.deepEqual(fs.readdirSync(containerDirectoryPath), ['a.txt'], 'The temporary files are removed');
+    test.done();
+  },
+  async userMetadataIsNotKept(test) {
+    const { client } = this.storage;
+
+    test.equal(client.keepsUserMetadata(), false);
+    await client.uploadBuffer(Buffer.from('a'), 'a.txt', undefined, { contentType: 'image/jpeg', userMetadata: { a: '1' } });
+
+    const fileProperties = await client.getFileProperties('a.txt');
+    test.equal(fileProperties.contentType, 'text/plain', 'Deduced from the key');
+    test.deepEqual(fileProperties.userMetadata || {}, {});
+    test.done();
+  }
+};
+
+module.exports = testSuite;
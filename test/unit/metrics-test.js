@@ -0,0 +1,216 @@
+/*
+ * Tests the metrics, the events and the logger of MultiStorageClient.
+ *
+ * To run the test type command:
+ * ./node_modules/.bin/nodeunit ./test/unit/metrics-test.js
+ */
+
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { InMemoryStorageClient } = require('../../dist/in-memory-storage-client');
+const { DEFAULT_LATENCY_BUCKETS_IN_MS, StorageMetrics, StorageOperation } = require('../../dist/metrics');
+const { MultiStorageClient, MultiStorageClientEvent } = require('../../dist/multi-storage-client');
+const { ReplicationQueue } = require('../../dist/replication-queue');
+
+const TEST_STORAGE_IDS = ['first', 'second', 'third'];
+const TEST_CONTAINER_NAME = 'test-container';
+const TEST_STORAGE_FILE_NAME_1 = 'test_1.txt';
+const TEST_CONTENT = 'Metrics test content';
+
+/**
+ * @return A logger keeping the messages.
+ */
+function createLogger() {
+  return {
+    warnings: [],
+    errors: [],
+    warn(message) {
+      this.warnings.push(message);
+    },
+    error(message) {
+      this.errors.push(message);
+    }
+  };
+}
+
+/**
+ * @param multiStorageClient The client.
+ * @return The events emitted by the client as [name, details].
+ */
+function recordEvents(multiStorageClient) {
+  const events = [];
+
+  Object.keys(MultiStorageClientEvent).forEach((key) => {
+    multiStorageClient.on(MultiStorageClientEvent[key], (details) => events.push([MultiStorageClientEvent[key], details]));
+  });
+
+  return events;
+}
+
+module.exports = {
+  /**
+   * This is called before every test.
+   *
+   * @param {*} callback
+   */
+  setUp(callback) {
+    this.tempFolder = fs.mkdtempSync(path.join(os.tmpdir(), 'metrics-'));
+    this.logger = createLogger();
+    this.multiStorageClient = new MultiStorageClient();
+    this.multiStorageClient.setLogger(this.logger);
+
+    TEST_STORAGE_IDS.forEach((storageId) => {
+      const storageClient = new InMemoryStorageClient();
+      storageClient.initialize(TEST_CONTAINER_NAME);
+      this.multiStorageClient.addStorageClient(storageId, storageClient);
+    });
+
+    callback();
+  },
+  /**
+   * This is called after every test.
+   *
+   * @param {*} callback
+   */
+  tearDown(callback) {
+    fs.rmSync(this.tempFolder, { recursive: true, force: true });
+    callback();
+  },
+  storageMetrics(test) {
+    const metrics = new StorageMetrics({ latencyBucketsInMs: [10, 100] });
+    metrics.recordRequest('aws', StorageOperation.Download, 5);
+    metrics.recordRequest('aws', StorageOperation.Download, 50, true);
+    metrics.recordRequest('aws', StorageOperation.Download, 500);
+    metrics.recordRequest('az"ure', StorageOperation.Upload, 10);
+    metrics.recordReplicatedBytes('aws', 'az"ure', 100);
+    metrics.recordReplicatedBytes('aws', 'az"ure', 20);
+
+    test.deepEqual(metrics.getOperationMetrics('aws', StorageOperation.Download), {
+      storageId: 'aws',
+      operation: StorageOperation.Download,
+      requestCount: 3,
+      errorCount: 1,
+      latencyBucketCounts: [1, 2],
+      totalLatencyInMs: 555
+    });
+    test.equal(metrics.getOperationMetrics('aws', StorageOperation.Upload), null);
+    test.equal(metrics.getReplicatedBytes('aws', 'az"ure'), 120);
+    test.equal(metrics.getReplicatedBytes('az"ure', 'aws'), 0);
+
+    const text = metrics.toPrometheusText();
+    test.ok(text.indexOf('# TYPE multi_storage_requests_total counter\n') !== -1);
+    test.ok(text.indexOf('multi_storage_requests_total{storage="aws",operation="download"} 3\n') !== -1);
+    test.ok(text.indexOf('multi_storage_request_errors_total{storage="aws",operation="download"} 1\n') !== -1);
+    test.ok(text.indexOf('multi_storage_request_duration_seconds_bucket{storage="aws",operation="download",le="0.01"} 1\n') !== -1);
+    test.ok(text.indexOf('multi_storage_request_duration_seconds_bucket{storage="aws",operation="download",le="+Inf"} 3\n') !== -1);
+    test.ok(text.indexOf('multi_storage_request_duration_seconds_sum{storage="aws",operation="download"} 0.555\n') !== -1);
+    test.ok(text.indexOf('multi_storage_replicated_bytes_total{source="aws",target="az\\"ure"} 120\n') !== -1, 'Escaped');
+    test.ok(text.indexOf('storage="aws"') < text.indexOf('storage="az\\"ure"'), 'Sorted by the storage IDs');
+
+    metrics.reset();
+    test.equal(metrics.getOperationMetrics('aws', StorageOperation.Download), null);
+    test.deepEqual(new StorageMetrics().getLatencyBuckets(), DEFAULT_LATENCY_BUCKETS_IN_MS);
+    test.throws(() => new StorageMetrics({ latencyBucketsInMs: [10, 5] }));
+    test.done();
+  },
+  async lazyReplication(test) {
+    const events = recordEvents(this.multiStorageClient);
+    this.multiStorageClient.getStorageClient('first').putFile(TEST_STORAGE_FILE_NAME_1, TEST_CONTENT);
+    this.multiStorageClient.getStorageClient('third').injectError('uploadStream', new Error('Injected'), 1);
+
+    const localFilePath = path.join(this.tempFolder, 'a.txt');
+    await this.multiStorageClient.downloadFileToDiskAndReplicateIfNecessary(TEST_STORAGE_FILE_NAME_1, localFilePath);
+    test.deepEqual(events.map((event) => event[0]), [
+      MultiStorageClientEvent.ReplicationStarted, MultiStorageClientEvent.Served, MultiStorageClientEvent.ReplicationFailed
+    ]);
+    test.deepEqual(events[0][1], {
+      storageFilePath: TEST_STORAGE_FILE_NAME_1,
+      containerOrBucketName: undefined,
+      sourceStorageId: 'first',
+      targetStorageIds: ['second', 'third']
+    });
+    test.equal(events[1][1].storageId, 'first');
+    test.deepEqual(Object.keys(events[2][1].errorsByStorage), ['third']);
+    test.equal(events[2][1].errorsByStorage.third.message, 'Injected');
+
+    const metrics = this.multiStorageClient.getMetrics();
+    test.equal(metrics.getReplicatedBytes('first', 'second'), TEST_CONTENT.length);
+    test.equal(metrics.getReplicatedBytes('first', 'third'), 0);
+    test.equal(metrics.getOperationMetrics('third', StorageOperation.Replicate).errorCount, 1);
+    test.equal(metrics.getOperationMetrics('first', StorageOperation.Download).requestCount, 1);
+    test.equal(metrics.getOperationMetrics('second', StorageOperation.GetFileProperties).errorCount, 0,
+      'A file not found is not an error');
+
+    // Nothing missing
+    events.length = 0;
+    await this.multiStorageClient.downloadFileToDiskAndReplicateIfNecessary(TEST_STORAGE_FILE_NAME_1, localFilePath);
+    test.deepEqual(events.map((event) => event[0]), [
+      MultiStorageClientEvent.ReplicationStarted, MultiStorageClientEvent.Served, MultiStorageClientEvent.Replicated
+    ]);
+    test.deepEqual(events[2][1].targetStorageIds, ['third']);
+    test.ok(events[2][1].durationInMs >= 0);
+    test.done();
+  },
+  async queuedReplication(test) {
+    const events = recordEvents(this.multiStorageClient);
+    const replicationQueue = new ReplicationQueue({ logger: this.logger, maxAttempts: 1 });
+    this.multiStorageClient.setReplicationQueue(replicationQueue);
+    this.multiStorageClient.getStorageClient('first').putFile(TEST_STORAGE_FILE_NAME_1, TEST_CONTENT);
+
+    const localFilePath = path.join(this.tempFolder, 'a.txt');
+    await this.multiStorageClient.downloadFileToDiskAndReplicateIfNecessary(TEST_STORAGE_FILE_NAME_1, localFilePath);
+    test.deepEqual(events.map((event) => event[0]), [MultiStorageClientEvent.Served], 'Replicated later');
+
+    this.multiStorageClient.getStorageClient('second').injectError('uploadStream', new Error('Injected'));
+    await replicationQueue.processDueTasks();
+    test.deepEqual(events.map((event) => event[0]), [
+      MultiStorageClientEvent.Served, MultiStorageClientEvent.ReplicationStarted, MultiStorageClientEvent.ReplicationFailed
+    ]);
+    test.ok(this.logger.errors.some((message) => message.indexOf('Giving up replicating') === 0), 'Logged to the given logger');
+    test.done();
+  },
+  async servedAndDeleted(test) {
+    const events = recordEvents(this.multiStorageClient);
+    this.multiStorageClient.getStorageClient('second').putFile(TEST_STORAGE_FILE_NAME_1, TEST_CONTENT);
+
+    test.equal((await this.multiStorageClient.downloadFileAsBuffer(TEST_STORAGE_FILE_NAME_1)).toString(), TEST_CONTENT);
+    test.deepEqual(events.map((event) => [event[0], event[1].storageId]), [[MultiStorageClientEvent.Served, 'second']]);
+
+    this.multiStorageClient.getStorageClient('third').injectError('deleteFiles', new Error('Injected'));
+    await this.multiStorageClient.deleteFile(TEST_STORAGE_FILE_NAME_1).catch(() => null);
+    test.deepEqual(events[1], [MultiStorageClientEvent.Deleted, {
+      storageFilePath: TEST_STORAGE_FILE_NAME_1,
+      containerOrBucketName: undefined,
+      storageIds: ['first', 'second']
+    }]);
+
+    const metrics = this.multiStorageClient.getMetrics();
+    test.equal(metrics.getOperationMetrics('third', StorageOperation.Delete).errorCount, 1);
+    test.equal(metrics.getOperationMetrics('first', StorageOperation.FileExists).requestCount, 1);
+    test.done();
+  },
+  async uploadsAndLogging(test) {
+    this.multiStorageClient.getStorageClient('second').injectError('uploadBuffer', new Error('Injected'));
+    await this.multiStorageClient.uploadBuffer(Buffer.from(TEST_CONTENT), TEST_STORAGE_FILE_NAME_1);
+
+    const metrics = this.multiStorageClient.getMetrics();
+    test.equal(metrics.getOperationMetrics('first', StorageOperation.Upload).errorCount, 0);
+    test.equal(metrics.getOperationMetrics('second', StorageOperation.Upload).errorCount, 1);
+    test.deepEqual(this.logger.errors, ['Failed to upload file to storage "second": Error: Injected']);
+
+    // Falling back to another storage is a warning
+    this.multiStorageClient.getStorageClient('first').injectError('downloadFileAsBuffer', new Error('Injected'));
+    test.equal((await this.multiStorageClient.downloadFileAsBuffer(TEST_STORAGE_FILE_NAME_1)).toString(), TEST_CONTENT);
+    test.equal(this.logger.warnings.length, 1);
+    test.ok(this.logger.warnings[0].indexOf('reading from storage "third" instead') !== -1);
+
+    // The listeners do not fail the operations
+    this.multiStorageClient.on(MultiStorageClientEvent.Served, () => {
+      throw new Error('Listener failed');
+    });
+    test.equal((await this.multiStorageClient.downloadFileAsBuffer(TEST_STORAGE_FILE_NAME_1)).toString(), TEST_CONTENT);
+    test.ok(this.logger.errors[1].indexOf('Listener failed') !== -1);
+    test.done();
+  }
+};
@@ -0,0 +1,703 @@
+
+/*
+ * Tests MultiStorageClient against in-memory storages, so no network access or credentials
+ * are needed.
+ *
+ * To run the test type command:
+ * ./node_modules/.bin/nodeunit ./test/unit/multi-storage-client-test.js
+ */
+
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { NULL_LOGGER } = require('../../dist/logger');
+const { MultiStorageClient, MultiStorageClientEvent } = require('../../dist/multi-storage-client');
+const { InMemoryStorageClient } = require('../../dist/in-memory-storage-client');
+const { ERROR_CODE_NOT_FOUND, SignedUrlPermission } = require('../../dist/storage-client');
+const { AccessDeniedError, FilePresence, NotFoundError, StorageError } = require('../../dist/storage-errors');
+const { ConflictResolutionPolicy } = require('../../dist/conflict-resolution');
+const { ReplicationQueue } = require('../../dist/replication-queue');
+const { readStreamToBuffer } = require('../../dist/stream-utils');
+const { DEFAULT_MAX_CLOCK_SKEW_IN_MS, TombstoneStore } = require('../../dist/tombstones');
+
+const TEST_STORAGE_IDS = ['first', 'second', 'third'];
+const TEST_CONTAINER_NAME = 'test-container';
+const TEST_STORAGE_FILE_NAME_1 = 'test_1.jpg';
+const TEST_LOCAL_FILE_PATH_1 = path.join(__dirname, '..', 'data', '1.jpg');
+const TEST_FILE_CONTENT = fs.readFileSync(TEST_LOCAL_FILE_PATH_1);
+
+function getTestMultiStorageClient() {
+  const multiStorageClient = new MultiStorageClient();
+  multiStorageClient.setLogger(NULL_LOGGER);
+
+  TEST_STORAGE_IDS.forEach((storageId) => {
+    const storageClient = new InMemoryStorageClient();
+    storageClient.initialize(TEST_CONTAINER_NAME);
+    multiStorageClient.addStorageClient(storageId, storageClient);
+  });
+
+  return multiStorageClient;
+}
+
+/**
+ * An in-memory storage signing URLs of its own and copying files from the URLs of the others,
+ * like Azure copying from S3 presigned URLs.
+ */
+class UrlCopyingStorageClient extends InMemoryStorageClient {
+  constructor(storageClientsByUrlPrefix) {
+    super();
+    this.storageClientsByUrlPrefix = storageClientsByUrlPrefix;
+    this.urlPrefix = 'memory://' + Object.keys(storageClientsByUrlPrefix).length + '/';
+    this.urlCopyCount = 0;
+    storageClientsByUrlPrefix[this.urlPrefix] = this;
+  }
+
+  async getSignedUrl(fileKey, containerName, options) {
+    return (await super.getSignedUrl(fileKey, containerName, options)).replace('memory://', this.urlPrefix);
+  }
+
+  async copyFileFromUrl(sourceUrl, fileKey, containerName, contentTypeOrMetadata) {
+    await this.simulateFaults('copyFileFromUrl');
+    const urlPrefix = sourceUrl.slice(0, sourceUrl.indexOf('/', 'memory://'.length) + 1);
+    const sourcePath = sourceUrl.slice(urlPrefix.length, sourceUrl.indexOf('?'));
+    const separatorIndex = sourcePath.indexOf('/');
+    const sourceFile = this.storageClientsByUrlPrefix[urlPrefix].getExistingFile(decodeURI(sourcePath.slice(separatorIndex + 1)),
+      decodeURIComponent(sourcePath.slice(0, separatorIndex)));
+
+    this.putFile(fileKey, sourceFile.data, containerName, contentTypeOrMetadata);
+    this.urlCopyCount++;
+  }
+}
+
+function containsExactly(storageIdSet, expectedStorageIds) {
+  return (storageIdSet.size === expectedStorageIds.length
+    && expectedStorageIds.every(storageId => storageIdSet.has(storageId)));
+}
+
+/**
+ * @return A client of storages signing URLs with their own prefixes.
+ */
+function getUrlSigningMultiStorageClient() {
+  const client = new MultiStorageClient();
+  client.setLogger(NULL_LOGGER);
+  const storageClientsByUrlPrefix = {};
+
+  TEST_STORAGE_IDS.forEach((storageId) => {
+    client.addStorageClient(storageId, new UrlCopyingStorageClient(storageClientsByUrlPrefix));
+    client.getStorageClient(storageId).initialize(TEST_CONTAINER_NAME);
+  });
+
+  return client;
+}
+
+/**
+ * @return All the subsets of the test storage IDs, i.e. every combination of storages where
+ * a file can be present.
+ */
+function getPresenceCombinations() {
+  const combinations = [];
+
+  for (let mask = 0; mask < (1 << TEST_STORAGE_IDS.length); ++mask) {
+    combinations.push(TEST_STORAGE_IDS.filter((storageId, index) => (mask & (1 << index))));
+  }
+
+  return combinations;
+}
+
+async function getRejection(promise) {
+  try {
+    await promise;
+  } catch (error) {
+    return error;
+  }
+
+  return null;
+}
+
+function getPresenceCombinationName(storageIds) {
+  return (storageIds.length > 0 ? storageIds.join('And') : 'none');
+}
+
+function putTestFile(client, storageIds) {
+  storageIds.forEach(storageId =>
+    client.getStorageClient(storageId).putFile(TEST_STORAGE_FILE_NAME_1, TEST_FILE_CONTENT));
+}
+
+async function collect(asyncIterator) {
+  const items = [];
+
+  for await (const item of asyncIterator) {
+    items.push(item);
+  }
+
+  return items;
+}
+
+/**
+ * Puts an older copy of the test file to the first storage and a newer, different copy to the second.
+ */
+function putDivergentTestFiles(client) {
+  client.getStorageClient('first').putFile(TEST_STORAGE_FILE_NAME_1, 'old');
+  client.getStorageClient('second').putFile(TEST_STORAGE_FILE_NAME_1, 'newer');
+  client.getStorageClient('first').getFile(TEST_STORAGE_FILE_NAME_1).lastModified = new Date(Date.now() - 60000);
+}
+
+function getPresenceTests() {
+  const tests = {};
+
+  getPresenceCombinations().forEach((storageIdsContainingFile) => {
+    const name = getPresenceCombinationName(storageIdsContainingFile);
+
+    tests[`storagesContainingFile_${name}`] = async function (test) {
+      const client = getTestMultiStorageClient();
+      putTestFile(client, storageIdsContainingFile);
+
+      const storagesContainingFile = await client.storagesContainingFile(TEST_STORAGE_FILE_NAME_1);
+      test.ok(containsExactly(storagesContainingFile, storageIdsContainingFile));
+
+      const fileExists = await client.fileExists(TEST_STORAGE_FILE_NAME_1);
+      test.ok(fileExists === (storageIdsContainingFile.length > 0));
+      test.done();
+    };
+
+    tests[`downloadFileToDiskAndReplicate_${name}`] = async function (test) {
+      const client = getTestMultiStorageClient();
+      putTestFile(client, storageIdsContainingFile);
+
+      const localFilePath = path.join(this.tempFolder, 'downloaded.jpg');
+      const result = await client.downloadFileToDiskAndReplicateIfNecessary(TEST_STORAGE_FILE_NAME_1, localFilePath);
+
+      if (storageIdsContainingFile.length === 0) {
+        test.ok(result.error !== null && result.error.code === ERROR_CODE_NOT_FOUND);
+        test.ok(result.sourceStorageId === null);
+        test.ok(fs.existsSync(localFilePath) === false);
+      } else {
+        test.ok(result.error === null); // No error
+        test.ok(result.sourceStorageId === storageIdsContainingFile[0]);
+        test.ok(result.conflictResolution === null);
+        test.ok(fs.readFileSync(localFilePath).equals(TEST_FILE_CONTENT));
+
+        const storagesContainingFile = await client.storagesContainingFile(TEST_STORAGE_FILE_NAME_1);
+        test.ok(containsExactly(storagesContainingFile, TEST_STORAGE_IDS));
+      }
+
+      test.done();
+    };
+
+    tests[`downloadFileAsStreamAndReplicate_${name}`] = async function (test) {
+      const client = getTestMultiStorageClient();
+      putTestFile(client, storageIdsContainingFile);
+
+      if (storageIdsContainingFile.length === 0) {
+        const error = await getRejection(client.downloadFileAsStreamAndReplicateIfNecessary(TEST_STORAGE_FILE_NAME_1));
+        test.ok(error !== null && error.code === ERROR_CODE_NOT_FOUND);
+      } else {
+        const replicatingReadStream = await client.downloadFileAsStreamAndReplicateIfNecessary(TEST_STORAGE_FILE_NAME_1);
+        test.ok(replicatingReadStream.sourceStorageId === storageIdsContainingFile[0]);
+        test.deepEqual(replicatingReadStream.targetStorageIds,
+          TEST_STORAGE_IDS.filter(storageId => storageIdsContainingFile.indexOf(storageId) === -1));
+        test.ok((await readStreamToBuffer(replicatingReadStream.stream)).equals(TEST_FILE_CONTENT));
+        test.ok(replicatingReadStream.conflictResolution === null);
+        test.ok(await replicatingReadStream.replication === null); // No error
+
+        TEST_STORAGE_IDS.forEach(storageId =>
+          test.ok(client.getStorageClient(storageId).getFile(TEST_STORAGE_FILE_NAME_1).data.equals(TEST_FILE_CONTENT)));
+      }
+
+      test.done();
+    };
+
+    tests[`downloadFileToDisk_${name}`] = async function (test) {
+      const client = getTestMultiStorageClient();
+      putTestFile(client, storageIdsContainingFile);
+
+      const localFilePath = path.join(this.tempFolder, 'downloaded.jpg');
+
+      if (storageIdsContainingFile.length === 0) {
+        const error = await getRejection(client.downloadFileToDisk(TEST_STORAGE_FILE_NAME_1, localFilePath));
+        test.ok(error !== null && error.code === ERROR_CODE_NOT_FOUND);
+      } else {
+        await client.downloadFileToDisk(TEST_STORAGE_FILE_NAME_1, localFilePath);
+        test.ok(fs.readFileSync(localFilePath).equals(TEST_FILE_CONTENT));
+
+        // No replication
+        const storagesContainingFile = await client.storagesContainingFile(TEST_STORAGE_FILE_NAME_1);
+        test.ok(containsExactly(storagesContainingFile, storageIdsContainingFile));
+      }
+
+      test.done();
+    };
+  });
+
+  return tests;
+}
+
+const testSuite = {};
+
+testSuite.multiStorageClient = Object.assign({
+  /**
+   * This is called before every test.
+   *
+   * @param {*} callback
+   */
+  setUp(callback) {
+    this.tempFolder = fs.mkdtempSync(path.join(os.tmpdir(), 'multi-storage-'));
+    callback();
+  },
+  /**
+   * This is called after every test.
+   *
+   * @param {*} callback
+   */
+  tearDown(callback) {
+    fs.readdirSync(this.tempFolder).forEach(fileName => fs.unlinkSync(path.join(this.tempFolder, fileName)));
+    fs.rmdirSync(this.tempFolder);
+    callback();
+  },
+  async getClient(test) {
+    const client = getTestMultiStorageClient();
+    test.ok(client.isInitialized() === true);
+    test.deepEqual(client.getStorageIds(), TEST_STORAGE_IDS);
+    test.ok(client.keepsUserMetadata() === true);
+    test.done();
+  },
+  async addStorageClientWithDuplicateId(test) {
+    const client = getTestMultiStorageClient();
+    test.throws(() => client.addStorageClient(TEST_STORAGE_IDS[0], new InMemoryStorageClient()));
+    test.done();
+  },
+  async removeStorageClient(test) {
+    const client = getTestMultiStorageClient();
+    test.ok(client.removeStorageClient(TEST_STORAGE_IDS[0]) === true);
+    test.ok(client.removeStorageClient(TEST_STORAGE_IDS[0]) === false);
+    test.deepEqual(client.getStorageIds(), TEST_STORAGE_IDS.slice(1));
+    test.done();
+  },
+  async downloadFileFromFirstStorageContainingFile(test) {
+    const client = getTestMultiStorageClient();
+    client.getStorageClient('second').putFile(TEST_STORAGE_FILE_NAME_1, 'second');
+    client.getStorageClient('third').putFile(TEST_STORAGE_FILE_NAME_1, 'third');
+
+    const result = await client.downloadFile(TEST_STORAGE_FILE_NAME_1);
+    test.ok(result.toString() === 'second');
+    test.done();
+  },
+  async filePresenceUnknown(test) {
+    const client = getTestMultiStorageClient();
+    putTestFile(client, ['third']);
+    client.getStorageClient('second').injectError('fileExists', new AccessDeniedError('Injected'));
+
+    const filePresence = await client.getFilePresence(TEST_STORAGE_FILE_NAME_1);
+    test.deepEqual(Array.from(filePresence.entries()), [
+      ['first', FilePresence.Missing],
+      ['second', FilePresence.Unknown],
+      ['third', FilePresence.Present]
+    ]);
+    test.ok(containsExactly(await client.storagesContainingFile(TEST_STORAGE_FILE_NAME_1), ['third']));
+    test.ok(await client.fileExists(TEST_STORAGE_FILE_NAME_1) === true);
+
+    // Not found elsewhere, so the file may or may not exist
+    await client.getStorageClient('third').deleteFile(TEST_STORAGE_FILE_NAME_1);
+    test.ok(await getRejection(client.fileExists(TEST_STORAGE_FILE_NAME_1)) instanceof AccessDeniedError);
+    test.ok(await getRejection(client.downloadFile(TEST_STORAGE_FILE_NAME_1)) instanceof AccessDeniedError);
+    test.done();
+  },
+  async downloadFileToDiskAndReplicateSkipsUnknownStorages(test) {
+    const client = getTestMultiStorageClient();
+    putTestFile(client, ['first']);
+    client.getStorageClient('second').injectError('getFileProperties', new AccessDeniedError('Injected'));
+
+    const localFilePath = path.join(this.tempFolder, 'downloaded.jpg');
+    const result = await client.downloadFileToDiskAndReplicateIfNecessary(TEST_STORAGE_FILE_NAME_1, localFilePath);
+    test.ok(result.error === null);
+    test.deepEqual(result.targetStorageIds, ['third']);
+    test.deepEqual(result.unknownStorageIds, ['second']);
+    test.ok(client.getStorageClient('second').getFile(TEST_STORAGE_FILE_NAME_1) === undefined);
+    test.done();
+  },
+  async downloadFileToDiskAndReplicateUploadFails(test) {
+    const client = getTestMultiStorageClient();
+    const injectedError = new Error('Injected');
+    putTestFile(client, ['first']);
+    client.getStorageClient('third').injectError('uploadStream', injectedError);
+
+    const localFilePath = path.join(this.tempFolder, 'downloaded.jpg');
+    const result = await client.downloadFileToDiskAndReplicateIfNecessary(TEST_STORAGE_FILE_NAME_1, localFilePath);
+    test.ok(result.error instanceof StorageError && result.error.cause === injectedError);
+    test.done();
+  },
+  async downloadFileAndReplicateCarriesMetadata(test) {
+    const client = getTestMultiStorageClient();
+    const metadata = {
+      contentType: 'image/jpeg',
+      cacheControl: 'no-cache',
+      contentDisposition: 'inline',
+      userMetadata: { source: 'first' }
+    };
+    client.getStorageClient('first').putFile(TEST_STORAGE_FILE_NAME_1, TEST_FILE_CONTENT, undefined, metadata);
+
+    const localFilePath = path.join(this.tempFolder, 'downloaded.jpg');
+    const result = await client.downloadFileToDiskAndReplicateIfNecessary(TEST_STORAGE_FILE_NAME_1, localFilePath);
+    test.ok(result.error === null);
+
+    for (let storageId of ['second', 'third']) {
+      const file = client.getStorageClient(storageId).getFile(TEST_STORAGE_FILE_NAME_1);
+      test.ok(file.contentType === metadata.contentType);
+      test.ok(file.cacheControl === metadata.cacheControl);
+      test.ok(file.contentDisposition === metadata.contentDisposition);
+      test.deepEqual(file.userMetadata, metadata.userMetadata);
+    }
+
+    test.done();
+  },
+  async uploadBufferWithMetadata(test) {
+    const client = getTestMultiStorageClient();
+
+    await client.uploadBuffer(TEST_FILE_CONTENT, TEST_STORAGE_FILE_NAME_1, undefined, { cacheControl: 'no-store' });
+    TEST_STORAGE_IDS.forEach(storageId =>
+      test.ok(client.getStorageClient(storageId).getFile(TEST_STORAGE_FILE_NAME_1).cacheControl === 'no-store'));
+    test.done();
+  },
+  async getFileProperties(test) {
+    const client = getTestMultiStorageClient();
+    client.getStorageClient('second').putFile(TEST_STORAGE_FILE_NAME_1, 'second');
+    client.getStorageClient('third').putFile(TEST_STORAGE_FILE_NAME_1, 'third_');
+
+    const fileProperties = await client.getFileProperties(TEST_STORAGE_FILE_NAME_1);
+    test.ok(fileProperties.size === 'second'.length);
+
+    const error = await getRejection(client.getFileProperties('missing'));
+    test.ok(error !== null && error.code === ERROR_CODE_NOT_FOUND);
+    test.done();
+  },
+  async conflictReportOnly(test) {
+    const client = getTestMultiStorageClient();
+    putDivergentTestFiles(client);
+    test.ok(client.getConflictResolutionPolicy() === ConflictResolutionPolicy.ReportOnly);
+
+    const localFilePath = path.join(this.tempFolder, 'downloaded.txt');
+    const result = await client.downloadFileToDiskAndReplicateIfNecessary(TEST_STORAGE_FILE_NAME_1, localFilePath);
+    test.ok(result.error === null);
+    test.ok(result.sourceStorageId === 'first');
+    test.deepEqual(result.targetStorageIds, ['third']);
+    test.ok(result.conflictResolution.winningStorageId === 'first');
+    test.deepEqual(result.conflictResolution.staleStorageIds, ['second']);
+    test.deepEqual(result.conflictResolution.repairedStorageIds, []);
+    test.ok(fs.readFileSync(localFilePath, 'utf8') === 'old');
+
+    // The stale copy is left as is
+    test.ok(client.getStorageClient('second').getFile(TEST_STORAGE_FILE_NAME_1).data.toString() === 'newer');
+    test.ok(client.getStorageClient('third').getFile(TEST_STORAGE_FILE_NAME_1).data.toString() === 'old');
+    test.done();
+  },
+  async conflictPrimaryWins(test) {
+    const client = getTestMultiStorageClient();
+    putDivergentTestFiles(client);
+    client.setConflictResolutionPolicy(ConflictResolutionPolicy.PrimaryWins);
+
+    const localFilePath = path.join(this.tempFolder, 'downloaded.txt');
+    const result = await client.downloadFileToDiskAndReplicateIfNecessary(TEST_STORAGE_FILE_NAME_1, localFilePath);
+    test.ok(result.error === null);
+    test.ok(result.sourceStorageId === 'first');
+    test.deepEqual(result.targetStorageIds, ['second', 'third']);
+    test.deepEqual(result.conflictResolution.repairedStorageIds, ['second']);
+    test.ok(fs.readFileSync(localFilePath, 'utf8') === 'old');
+
+    TEST_STORAGE_IDS.forEach(storageId =>
+      test.ok(client.getStorageClient(storageId).getFile(TEST_STORAGE_FILE_NAME_1).data.toString() === 'old'));
+    test.done();
+  },
+  async conflictNewestWins(test) {
+    const client = getTestMultiStorageClient();
+    putDivergentTestFiles(client);
+    client.setConflictResolutionPolicy(ConflictResolutionPolicy.NewestWins);
+
+    const replicatingReadStream = await client.downloadFileAsStreamAndReplicateIfNecessary(TEST_STORAGE_FILE_NAME_1);
+    test.ok(replicatingReadStream.sourceStorageId === 'second');
+    test.deepEqual(replicatingReadStream.targetStorageIds, ['first', 'third']);
+    test.deepEqual(replicatingReadStream.conflictResolution.staleStorageIds, ['first']);
+    test.ok((await readStreamToBuffer(replicatingReadStream.stream)).toString() === 'newer');
+    test.ok(await replicatingReadStream.replication === null);
+
+    TEST_STORAGE_IDS.forEach(storageId =>
+      test.ok(client.getStorageClient(storageId).getFile(TEST_STORAGE_FILE_NAME_1).data.toString() === 'newer'));
+    test.done();
+  },
+  async uploadFileToStorage(test) {
+    const client = getTestMultiStorageClient();
+
+    const storagesWhereFileWasUploaded = await client.uploadFileToStorage(
+      TEST_LOCAL_FILE_PATH_1, TEST_STORAGE_FILE_NAME_1, ['first', 'third']);
+    test.ok(containsExactly(storagesWhereFileWasUploaded, ['first', 'third']));
+
+    const storagesContainingFile = await client.storagesContainingFile(TEST_STORAGE_FILE_NAME_1);
+    test.ok(containsExactly(storagesContainingFile, ['first', 'third']));
+    test.done();
+  },
+  async uploadFileToStorageOneFails(test) {
+    const client = getTestMultiStorageClient();
+    client.getStorageClient('second').injectError('uploadFile', new Error('Injected'));
+
+    const storagesWhereFileWasUploaded = await client.uploadFile(TEST_LOCAL_FILE_PATH_1, TEST_STORAGE_FILE_NAME_1);
+    test.ok(containsExactly(storagesWhereFileWasUploaded, ['first', 'third']));
+    test.done();
+  },
+  async uploadStreamToStorageOneFails(test) {
+    const client = getTestMultiStorageClient();
+    client.getStorageClient('second').injectError('uploadStream', new Error('Injected'));
+
+    const storagesWhereFileWasUploaded = await client.uploadStreamToStorage(
+      fs.createReadStream(TEST_LOCAL_FILE_PATH_1), TEST_STORAGE_FILE_NAME_1);
+    test.ok(containsExactly(storagesWhereFileWasUploaded, ['first', 'third']));
+    test.ok(client.getStorageClient('third').getFile(TEST_STORAGE_FILE_NAME_1).data.equals(TEST_FILE_CONTENT));
+    test.done();
+  },
+  async uploadBufferAndDownloadFileAsBuffer(test) {
+    const client = getTestMultiStorageClient();
+
+    const storagesWhereFileWasUploaded = await client.uploadBuffer(TEST_FILE_CONTENT, TEST_STORAGE_FILE_NAME_1);
+    test.ok(containsExactly(storagesWhereFileWasUploaded, TEST_STORAGE_IDS));
+    test.ok((await client.downloadFileAsBuffer(TEST_STORAGE_FILE_NAME_1)).equals(TEST_FILE_CONTENT));
+    test.done();
+  },
+  async downloadFileAsStreamFromFirstStorageContainingFile(test) {
+    const client = getTestMultiStorageClient();
+    client.getStorageClient('second').putFile(TEST_STORAGE_FILE_NAME_1, 'second');
+    client.getStorageClient('third').putFile(TEST_STORAGE_FILE_NAME_1, 'third');
+
+    const readStream = await client.downloadFileAsStream(TEST_STORAGE_FILE_NAME_1);
+    test.ok((await readStreamToBuffer(readStream)).toString() === 'second');
+    test.done();
+  },
+  async uploadFileToUnknownStorage(test) {
+    const client = getTestMultiStorageClient();
+    let rejected = false;
+
+    try {
+      await client.uploadFileToStorage(TEST_LOCAL_FILE_PATH_1, TEST_STORAGE_FILE_NAME_1, ['unknown']);
+    } catch (error) {
+      rejected = true;
+    }
+
+    test.ok(rejected);
+    test.done();
+  },
+  async listFileNamesWithPrefix(test) {
+    const client = getTestMultiStorageClient();
+    client.getStorageClient('first').putFile('prefix_1', 'data');
+    client.getStorageClient('second').putFile('prefix_1', 'data');
+    client.getStorageClient('third').putFile('prefix_2', 'data');
+    client.getStorageClient('third').putFile('other', 'data');
+
+    const fileNames = await client.listFileNamesWithPrefix('prefix_');
+    test.deepEqual(fileNames.sort(), ['prefix_1', 'prefix_2']);
+    test.done();
+  },
+  async listFilesMerged(test) {
+    const client = getTestMultiStorageClient();
+    client.getStorageClient('first').putFile('a/1', '1');
+    client.getStorageClient('second').putFile('a/1', '11');
+    client.getStorageClient('second').putFile('a/2', '2');
+    client.getStorageClient('third').putFile('a/0', '0');
+    client.getStorageClient('third').putFile('b', 'b');
+
+    const entries = await collect(client.listFiles('a/'));
+    test.deepEqual(entries.map(entry => [entry.name, entry.storageIds]), [
+      ['a/0', ['third']],
+      ['a/1', ['first', 'second']],
+      ['a/2', ['second']]
+    ]);
+    test.ok(entries[1].size === 1); // From the first storage
+    test.ok(entries[1].entriesByStorage.second.size === 2);
+    test.done();
+  },
+  async listFilesMergedWithDelimiter(test) {
+    const client = getTestMultiStorageClient();
+    client.getStorageClient('first').putFile('a/1', '1');
+    client.getStorageClient('second').putFile('a/2', '2');
+    client.getStorageClient('second').putFile('b', 'b');
+
+    const entries = await collect(client.listFiles(undefined, undefined, { delimiter: '/' }));
+    test.deepEqual(entries.map(entry => [entry.name, entry.isPrefix, entry.storageIds]), [
+      ['a/', true, ['first', 'second']],
+      ['b', false, ['second']]
+    ]);
+    test.done();
+  },
+  async listFilesStopEarly(test) {
+    const client = getTestMultiStorageClient();
+    putTestFile(client, TEST_STORAGE_IDS);
+    client.getStorageClient('first').putFile('z', 'z');
+
+    for await (const entry of client.listFiles()) {
+      test.ok(entry.name === TEST_STORAGE_FILE_NAME_1);
+      break;
+    }
+
+    test.done();
+  },
+  async listFilesOneFails(test) {
+    const client = getTestMultiStorageClient();
+    const injectedError = new Error('Injected');
+    putTestFile(client, TEST_STORAGE_IDS);
+    client.getStorageClient('second').injectError('listFiles', injectedError);
+
+    test.ok(await getRejection(collect(client.listFiles())) === injectedError);
+    test.done();
+  },
+  async deleteFile(test) {
+    const client = getTestMultiStorageClient();
+    putTestFile(client, TEST_STORAGE_IDS);
+
+    await client.deleteFile(TEST_STORAGE_FILE_NAME_1);
+    test.ok((await client.storagesContainingFile(TEST_STORAGE_FILE_NAME_1)).size === 0);
+    test.done();
+  },
+  async deleteFilesOneFails(test) {
+    const client = getTestMultiStorageClient();
+    const injectedError = new Error('Injected');
+    putTestFile(client, TEST_STORAGE_IDS);
+    client.getStorageClient('second').injectError('deleteFiles', injectedError);
+
+    const error = await getRejection(client.deleteFiles([TEST_STORAGE_FILE_NAME_1]));
+    test.ok(error instanceof StorageError && error.cause === injectedError);
+    test.ok(containsExactly(await client.storagesContainingFile(TEST_STORAGE_FILE_NAME_1), ['second']));
+    test.done();
+  },
+  async copyFileInStoragesHoldingIt(test) {
+    const client = getTestMultiStorageClient();
+    putTestFile(client, ['first', 'third']);
+
+    const storageIds = await client.copyFile(TEST_STORAGE_FILE_NAME_1, 'copies/' + TEST_STORAGE_FILE_NAME_1);
+    test.ok(containsExactly(storageIds, ['first', 'third']));
+    test.ok(containsExactly(await client.storagesContainingFile('copies/' + TEST_STORAGE_FILE_NAME_1), ['first', 'third']));
+    test.ok(containsExactly(await client.storagesContainingFile(TEST_STORAGE_FILE_NAME_1), ['first', 'third']));
+    test.ok((await client.downloadFileAsBuffer('copies/' + TEST_STORAGE_FILE_NAME_1)).equals(TEST_FILE_CONTENT));
+
+    const error = await getRejection(client.copyFile('missing.jpg', 'copies/missing.jpg'));
+    test.ok(error !== null && error.code === ERROR_CODE_NOT_FOUND);
+    test.ok(await getRejection(client.copyFile(TEST_STORAGE_FILE_NAME_1, TEST_STORAGE_FILE_NAME_1)) !== null, 'Onto itself');
+    test.done();
+  },
+  async moveFileToOtherContainer(test) {
+    const client = getTestMultiStorageClient();
+    putTestFile(client, TEST_STORAGE_IDS);
+
+    const storageIds = await client.moveFile(TEST_STORAGE_FILE_NAME_1, 'moved.jpg', undefined, 'other-container');
+    test.ok(containsExactly(storageIds, TEST_STORAGE_IDS));
+    test.ok((await client.storagesContainingFile(TEST_STORAGE_FILE_NAME_1)).size === 0);
+    test.ok(containsExactly(await client.storagesContainingFile('moved.jpg', 'other-container'), TEST_STORAGE_IDS));
+    test.done();
+  },
+  async moveFileOneFails(test) {
+    const client = getTestMultiStorageClient();
+    const injectedError = new Error('Injected');
+    const tombstoneStorageClient = new InMemoryStorageClient();
+    tombstoneStorageClient.initialize('tombstones');
+    client.setTombstoneStore(new TombstoneStore(tombstoneStorageClient));
+    await client.getTombstoneStore().addTombstone('moved.jpg');
+    putTestFile(client, TEST_STORAGE_IDS);
+    client.getStorageClient('second').injectError('moveFile', injectedError);
+
+    const error = await getRejection(client.moveFile(TEST_STORAGE_FILE_NAME_1, 'moved.jpg'));
+    test.ok(error instanceof StorageError && error.cause === injectedError);
+    test.ok(containsExactly(await client.storagesContainingFile('moved.jpg'), ['first', 'third']));
+    test.ok(containsExactly(await client.storagesContainingFile(TEST_STORAGE_FILE_NAME_1), ['second']));
+    test.ok(await client.getTombstoneStore().getTombstone('moved.jpg') === null, 'The copy has no tombstone');
+    test.ok(await client.getTombstoneStore().getTombstone(TEST_STORAGE_FILE_NAME_1) !== null, 'Not replicated back');
+    test.done();
+  },
+  async reconcileCopiesFromUrl(test) {
+    const client = new MultiStorageClient();
+    const storageClientsByUrlPrefix = {};
+    client.setLogger({ warnings: [], warn(message) { this.warnings.push(message); }, error(message) {} });
+    client.addStorageClient('first', new UrlCopyingStorageClient(storageClientsByUrlPrefix));
+    client.addStorageClient('second', new UrlCopyingStorageClient(storageClientsByUrlPrefix));
+    client.addStorageClient('third', new InMemoryStorageClient());
+    TEST_STORAGE_IDS.forEach((storageId) => client.getStorageClient(storageId).initialize(TEST_CONTAINER_NAME));
+    client.getStorageClient('first').putFile(TEST_STORAGE_FILE_NAME_1, TEST_FILE_CONTENT, undefined, { userMetadata: { a: '1' } });
+
+    const report = await client.reconcile('', undefined, { copyMissingFiles: true });
+    test.equal(report.copies.length, 1);
+    test.equal(client.getStorageClient('second').urlCopyCount, 1, 'Copied on the server side');
+    test.deepEqual(client.getStorageClient('second').getFile(TEST_STORAGE_FILE_NAME_1).userMetadata, { a: '1' });
+    test.ok(client.getStorageClient('third').getFile(TEST_STORAGE_FILE_NAME_1).data.equals(TEST_FILE_CONTENT), 'Streamed');
+    test.equal(client.getLogger().warnings.length, 0);
+
+    // Falls back to streaming
+    await client.getStorageClient('second').deleteFile(TEST_STORAGE_FILE_NAME_1);
+    client.getStorageClient('second').injectError('copyFileFromUrl', new Error('Injected'), 1);
+    await client.reconcile('', undefined, { copyMissingFiles: true });
+    test.equal(client.getStorageClient('second').urlCopyCount, 1);
+    test.ok(client.getStorageClient('second').getFile(TEST_STORAGE_FILE_NAME_1).data.equals(TEST_FILE_CONTENT));
+    test.equal(client.getLogger().warnings.length, 1);
+    test.ok(client.getLogger().warnings[0].indexOf('on the server side, streaming the file instead: StorageError: Injected') !== -1);
+    test.done();
+  },
+  async getSignedUrlQueuesReplication(test) {
+    const client = getUrlSigningMultiStorageClient();
+    const replicationQueue = new ReplicationQueue();
+    client.setReplicationQueue(replicationQueue);
+    client.getStorageClient('second').putFile(TEST_STORAGE_FILE_NAME_1, TEST_FILE_CONTENT);
+
+    const url = await client.getSignedUrl(TEST_STORAGE_FILE_NAME_1, undefined, { expiry: 60 });
+    test.ok(url.indexOf(client.getStorageClient('second').urlPrefix + TEST_CONTAINER_NAME + '/' + TEST_STORAGE_FILE_NAME_1
+      + '?permissions=read&expiry=') === 0, 'Signed for the storage holding the file');
+
+    const tasks = replicationQueue.getPendingTasks();
+    test.equal(tasks.length, 1);
+    test.equal(tasks[0].sourceStorageId, 'second');
+    test.deepEqual(tasks[0].targetStorageIds, ['first', 'third']);
+
+    await replicationQueue.processDueTasks();
+    test.ok(containsExactly(await client.storagesContainingFile(TEST_STORAGE_FILE_NAME_1), TEST_STORAGE_IDS));
+    test.ok((await client.getSignedUrl(TEST_STORAGE_FILE_NAME_1)).indexOf(client.getStorageClient('first').urlPrefix) === 0,
+      'Signed for the preferred storage once replicated');
+    test.equal(replicationQueue.getPendingTasks().length, 0);
+
+    const error = await getRejection(client.getSignedUrl('missing.jpg'));
+    test.ok(error instanceof NotFoundError);
+    test.done();
+  },
+  async getSignedUrlReplicatesWithoutQueue(test) {
+    const client = getUrlSigningMultiStorageClient();
+    const tombstoneStorageClient = new InMemoryStorageClient();
+    tombstoneStorageClient.initialize('tombstones');
+    client.getStorageClient('third').putFile(TEST_STORAGE_FILE_NAME_1, TEST_FILE_CONTENT);
+
+    const replicated = new Promise((resolve) => client.on(MultiStorageClientEvent.Replicated, resolve));
+    const url = await client.getSignedUrl(TEST_STORAGE_FILE_NAME_1);
+    test.ok(url.indexOf(client.getStorageClient('third').urlPrefix) === 0);
+    test.deepEqual((await replicated).targetStorageIds, ['first', 'second']);
+    test.equal(client.getStorageClient('first').urlCopyCount, 1, 'Copied on the server side');
+
+    // Deleted from the other storages instead, if the file has a tombstone
+    client.setTombstoneStore(new TombstoneStore(tombstoneStorageClient));
+    await client.getStorageClient('first').deleteFile(TEST_STORAGE_FILE_NAME_1);
+    await client.getTombstoneStore().addTombstone(TEST_STORAGE_FILE_NAME_1);
+    const error = await getRejection(client.getSignedUrl(TEST_STORAGE_FILE_NAME_1));
+    test.ok(error instanceof NotFoundError);
+    test.ok(containsExactly(await client.storagesContainingFile(TEST_STORAGE_FILE_NAME_1), []));
+
+    // Replicated, if written after the delete (beyond the clock skew)
+    await client.getTombstoneStore().addTombstone(TEST_STORAGE_FILE_NAME_1, undefined, Date.now() - DEFAULT_MAX_CLOCK_SKEW_IN_MS - 1000);
+    client.getStorageClient('third').putFile(TEST_STORAGE_FILE_NAME_1, TEST_FILE_CONTENT);
+    const replicatedAgain = new Promise((resolve) => client.on(MultiStorageClientEvent.Replicated, resolve));
+    test.ok((await client.getSignedUrl(TEST_STORAGE_FILE_NAME_1)).indexOf(client.getStorageClient('third').urlPrefix) === 0);
+    test.deepEqual((await replicatedAgain).targetStorageIds, ['first', 'second']);
+    test.done();
+  },
+  async getSignedUploadUrl(test) {
+    const client = getUrlSigningMultiStorageClient();
+    const url = await client.getSignedUrl('new.jpg', 'other', { permissions: SignedUrlPermission.Write, contentType: 'image/jpeg' });
+    test.ok(url.indexOf(client.getStorageClient('first').urlPrefix + 'other/new.jpg?permissions=write&expiry=') === 0,
+      'Signed for the preferred storage without checking the file');
+
+    client.getStorageClient('first').injectError('getSignedUrl', new AccessDeniedError('Injected'));
+    const error = await getRejection(client.getSignedUrl('new.jpg', undefined, { permissions: SignedUrlPermission.Write }));
+    test.ok(error instanceof AccessDeniedError);
+    test.done();
+  }
+}, getPresenceTests());
+
+module.exports = testSuite;
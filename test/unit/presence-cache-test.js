@@ -0,0 +1,158 @@
+/*
+ * Tests the presence cache alone and with MultiStorageClient.
+ *
+ * To run the test type command:
+ * ./node_modules/.bin/nodeunit ./test/unit/presence-cache-test.js
+ */
+
+const { MultiStorageClient } = require('../../dist/multi-storage-client');
+const { InMemoryStorageClient } = require('../../dist/in-memory-storage-client');
+const { PresenceCache } = require('../../dist/presence-cache');
+const { AccessDeniedError, FilePresence, StorageErrorCode } = require('../../dist/storage-errors');
+
+const TEST_STORAGE_IDS = ['first', 'second'];
+const TEST_CONTAINER_NAME = 'test-container';
+const TEST_STORAGE_FILE_NAME_1 = 'test_1.txt';
+const TEST_STORAGE_FILE_NAME_2 = 'test_2.txt';
+const TEST_CONTENT = 'Presence cache test content';
+
+function getTestMultiStorageClient(presenceCache) {
+  const multiStorageClient = new MultiStorageClient();
+
+  TEST_STORAGE_IDS.forEach((storageId) => {
+    const storageClient = new InMemoryStorageClient();
+    storageClient.initialize(TEST_CONTAINER_NAME);
+    multiStorageClient.addStorageClient(storageId, storageClient);
+  });
+
+  multiStorageClient.setPresenceCache(presenceCache);
+  return multiStorageClient;
+}
+
+function failFileExists(multiStorageClient) {
+  TEST_STORAGE_IDS.forEach((storageId) => multiStorageClient.getStorageClient(storageId)
+    .injectError('fileExists', new Error('The storages should not be asked')));
+}
+
+function wait(delayInMs) {
+  return new Promise((resolve) => setTimeout(resolve, delayInMs));
+}
+
+module.exports = {
+  async timeToLive(test) {
+    const presenceCache = new PresenceCache({ ttlInMs: 60 * 1000, negativeTtlInMs: 20 });
+    const generation = presenceCache.getGeneration();
+
+    test.ok(presenceCache.set('a', undefined, new Map([['first', FilePresence.Present], ['second', FilePresence.Missing]]), generation));
+    test.ok(presenceCache.set('b', 'container', new Map([['first', FilePresence.Missing], ['second', FilePresence.Missing]]), generation));
+    test.ok(!presenceCache.set('c', undefined, new Map([['first', FilePresence.Present], ['second', FilePresence.Unknown]]), generation),
+      'The unknown presence should not be cached');
+
+    test.deepEqual(Array.from(presenceCache.get('a', undefined, ['first', 'second'])),
+      [['first', FilePresence.Present], ['second', FilePresence.Missing]]);
+    test.equal(presenceCache.get('a', undefined, ['first', 'third']), null, 'Not cached for a new storage');
+    test.equal(presenceCache.get('b', undefined, ['first']), null, 'The entries are per container');
+    test.notEqual(presenceCache.get('b', 'container', ['first']), null);
+
+    await wait(40);
+    test.equal(presenceCache.get('b', 'container', ['first']), null, 'The negative entry should have expired');
+    test.notEqual(presenceCache.get('a', undefined, ['first']), null);
+
+    presenceCache.invalidate('a');
+    test.equal(presenceCache.get('a', undefined, ['first']), null);
+    test.ok(!presenceCache.set('a', undefined, new Map([['first', FilePresence.Present]]), generation),
+      'A presence checked before an invalidation should not be cached');
+    test.deepEqual(presenceCache.getStatistics(), { hits: 3, misses: 4, entryCount: 0 });
+    test.done();
+  },
+  maxEntries(test) {
+    const presenceCache = new PresenceCache({ maxEntries: 2 });
+
+    ['a', 'b', 'c'].forEach((storageFilePath) => presenceCache.set(storageFilePath, undefined,
+      new Map([['first', FilePresence.Present]]), presenceCache.getGeneration()));
+
+    test.equal(presenceCache.get('a', undefined, ['first']), null);
+    test.notEqual(presenceCache.get('c', undefined, ['first']), null);
+    test.equal(presenceCache.getStatistics().entryCount, 2);
+    test.done();
+  },
+  async storagesAreAskedOnce(test) {
+    const presenceCache = new PresenceCache();
+    const multiStorageClient = getTestMultiStorageClient(presenceCache);
+    multiStorageClient.getStorageClient('second').putFile(TEST_STORAGE_FILE_NAME_1, TEST_CONTENT);
+
+    test.deepEqual(Array.from(await multiStorageClient.storagesContainingFile(TEST_STORAGE_FILE_NAME_1)), ['second']);
+    test.equal(await multiStorageClient.fileExists(TEST_STORAGE_FILE_NAME_2), false);
+    failFileExists(multiStorageClient);
+
+    test.deepEqual(Array.from(await multiStorageClient.storagesContainingFile(TEST_STORAGE_FILE_NAME_1)), ['second']);
+    test.equal(await multiStorageClient.fileExists(TEST_STORAGE_FILE_NAME_1), true);
+    test.equal((await multiStorageClient.downloadFileAsBuffer(TEST_STORAGE_FILE_NAME_1)).toString(), TEST_CONTENT);
+    test.equal(await multiStorageClient.fileExists(TEST_STORAGE_FILE_NAME_2), false);
+    test.deepEqual(presenceCache.getStatistics(), { hits: 4, misses: 2, entryCount: 2 });
+    test.done();
+  },
+  async unknownPresenceIsNotCached(test) {
+    const presenceCache = new PresenceCache();
+    const multiStorageClient = getTestMultiStorageClient(presenceCache);
+    multiStorageClient.getStorageClient('first').putFile(TEST_STORAGE_FILE_NAME_1, TEST_CONTENT);
+    multiStorageClient.getStorageClient('second').injectError('fileExists', new AccessDeniedError('Injected'), 1);
+
+    const presence = await multiStorageClient.getFilePresence(TEST_STORAGE_FILE_NAME_1);
+    test.equal(presence.get('second'), FilePresence.Unknown);
+    test.equal(presenceCache.getStatistics().entryCount, 0);
+
+    const presenceAskedAgain = await multiStorageClient.getFilePresence(TEST_STORAGE_FILE_NAME_1);
+    test.equal(presenceAskedAgain.get('second'), FilePresence.Missing);
+    test.equal(presenceCache.getStatistics().entryCount, 1);
+    test.done();
+  },
+  async uploadsAndDeletesInvalidate(test) {
+    const presenceCache = new PresenceCache();
+    const multiStorageClient = getTestMultiStorageClient(presenceCache);
+
+    test.equal(await multiStorageClient.fileExists(TEST_STORAGE_FILE_NAME_1), false);
+    await multiStorageClient.uploadBufferToStorage(Buffer.from(TEST_CONTENT), TEST_STORAGE_FILE_NAME_1, ['first']);
+    test.deepEqual(Array.from(await multiStorageClient.storagesContainingFile(TEST_STORAGE_FILE_NAME_1)), ['first']);
+
+    await multiStorageClient.deleteFile(TEST_STORAGE_FILE_NAME_1);
+    test.equal(await multiStorageClient.fileExists(TEST_STORAGE_FILE_NAME_1), false);
+    test.done();
+  },
+  async replicationInvalidates(test) {
+    const presenceCache = new PresenceCache();
+    const multiStorageClient = getTestMultiStorageClient(presenceCache);
+    multiStorageClient.getStorageClient('first').putFile(TEST_STORAGE_FILE_NAME_1, TEST_CONTENT);
+    test.deepEqual(Array.from(await multiStorageClient.storagesContainingFile(TEST_STORAGE_FILE_NAME_1)), ['first']);
+
+    const replicatingReadStream = await multiStorageClient.downloadFileAsStreamAndReplicateIfNecessary(TEST_STORAGE_FILE_NAME_1);
+    replicatingReadStream.stream.resume();
+    test.equal(await replicatingReadStream.replication, null);
+
+    test.deepEqual(Array.from(await multiStorageClient.storagesContainingFile(TEST_STORAGE_FILE_NAME_1)), TEST_STORAGE_IDS);
+    test.done();
+  },
+  async stalePresenceIsRefreshed(test) {
+    const presenceCache = new PresenceCache();
+    const multiStorageClient = getTestMultiStorageClient(presenceCache);
+    multiStorageClient.getStorageClient('first').putFile(TEST_STORAGE_FILE_NAME_1, TEST_CONTENT);
+    test.equal(await multiStorageClient.fileExists(TEST_STORAGE_FILE_NAME_1), true);
+
+    // Moved by another client
+    await multiStorageClient.getStorageClient('first').deleteFile(TEST_STORAGE_FILE_NAME_1);
+    multiStorageClient.getStorageClient('second').putFile(TEST_STORAGE_FILE_NAME_1, TEST_CONTENT);
+    test.equal((await multiStorageClient.downloadFileAsBuffer(TEST_STORAGE_FILE_NAME_1)).toString(), TEST_CONTENT);
+
+    // Deleted by another client
+    await multiStorageClient.getStorageClient('second').deleteFile(TEST_STORAGE_FILE_NAME_1);
+
+    try {
+      await multiStorageClient.downloadFileAsBuffer(TEST_STORAGE_FILE_NAME_1);
+      test.ok(false, 'The download should have failed');
+    } catch (error) {
+      test.equal(error.code, StorageErrorCode.NotFound);
+    }
+
+    test.done();
+  }
+};
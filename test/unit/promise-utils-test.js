@@ -0,0 +1,18 @@
+/*
+ * Tests for the promise helpers.
+ */
+
+const { settleAll } = require('../../dist/promise-utils');
+
+module.exports = {
+  async settleAll(test) {
+    const error = new Error('Failed');
+    const results = await settleAll([Promise.resolve(1), Promise.reject(error), Promise.reject(null), Promise.resolve()]);
+
+    test.deepEqual(results.slice(0, 2), [{ value: 1, error: null }, { value: undefined, error: error }]);
+    test.ok(results[2].error instanceof Error, 'A rejection without a reason is an error');
+    test.equal(results[3].error, null);
+    test.deepEqual(await settleAll([]), []);
+    test.done();
+  }
+};
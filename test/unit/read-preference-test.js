@@ -0,0 +1,159 @@
+/*
+ * Tests choosing the storage a file is read from.
+ *
+ * To run the test type command:
+ * ./node_modules/.bin/nodeunit ./test/unit/read-preference-test.js
+ */
+
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { InMemoryStorageClient } = require('../../dist/in-memory-storage-client');
+const { NULL_LOGGER } = require('../../dist/logger');
+const { MultiStorageClient } = require('../../dist/multi-storage-client');
+const { ReadPreference, ReadPreferenceStrategy } = require('../../dist/read-preference');
+const { createMultiStorageClient, resolveProfile } = require('../../dist/configuration');
+const { TransientError } = require('../../dist/storage-errors');
+
+const TEST_FILE_NAME = 'read_preference_test.txt';
+const AZURE_CONTENT = 'Content in Azure';
+const AWS_CONTENT = 'Content in AWS';
+
+async function getError(promise) {
+  try {
+    await promise;
+  } catch (error) {
+    return error;
+  }
+
+  return null;
+}
+
+module.exports = {
+  /**
+   * This is called before every test.
+   *
+   * @param {*} callback
+   */
+  setUp(callback) {
+    this.tempFolder = fs.mkdtempSync(path.join(os.tmpdir(), 'read-preference-'));
+    this.azureBlobStorageClient = new InMemoryStorageClient();
+    this.awsS3Client = new InMemoryStorageClient();
+    this.azureBlobStorageClient.initialize('photos');
+    this.awsS3Client.initialize('photos');
+    this.azureBlobStorageClient.putFile(TEST_FILE_NAME, AZURE_CONTENT);
+    this.awsS3Client.putFile(TEST_FILE_NAME, AWS_CONTENT);
+
+    this.multiStorageClient = new MultiStorageClient();
+    this.multiStorageClient.setLogger(NULL_LOGGER);
+    this.multiStorageClient.addStorageClient('azure', this.azureBlobStorageClient);
+    this.multiStorageClient.addStorageClient('aws', this.awsS3Client);
+    callback();
+  },
+  /**
+   * This is called after every test.
+   *
+   * @param {*} callback
+   */
+  tearDown(callback) {
+    fs.rmSync(this.tempFolder, { recursive: true, force: true });
+    callback();
+  },
+  strategies(test) {
+    const storageIds = ['azure', 'aws', 'local'];
+    test.deepEqual(new ReadPreference().orderStorageIds(storageIds, TEST_FILE_NAME), storageIds, 'The order of registration');
+    test.deepEqual(new ReadPreference({ primaryStorageId: 'aws' }).orderStorageIds(storageIds, TEST_FILE_NAME),
+      ['aws', 'azure', 'local']);
+
+    let readPreference = new ReadPreference({ strategy: ReadPreferenceStrategy.LowestLatency, latencySmoothingFactor: 0.5 });
+    readPreference.recordLatency('azure', 100);
+    readPreference.recordLatency('aws', 40);
+    test.deepEqual(readPreference.orderStorageIds(storageIds, TEST_FILE_NAME), ['aws', 'azure', 'local'],
+      'The storages without measured latency come last');
+    readPreference.recordLatency('aws', 200);
+    test.equal(readPreference.getAverageLatency('aws'), 120);
+    test.equal(readPreference.getAverageLatency('local'), undefined);
+    test.deepEqual(readPreference.orderStorageIds(storageIds, TEST_FILE_NAME), ['azure', 'aws', 'local']);
+
+    readPreference = new ReadPreference({ strategy: ReadPreferenceStrategy.LowestCost, egressCostsPerGB: { azure: 0.087, local: 0 } });
+    test.deepEqual(readPreference.orderStorageIds(storageIds, TEST_FILE_NAME), ['local', 'azure', 'aws']);
+
+    readPreference = new ReadPreference({
+      strategy: ReadPreferenceStrategy.Custom,
+      orderStorageIds: (ids, context) => (context.storageFilePath.endsWith('.txt') ? ['local', 'unknown', 'local'] : ids)
+    });
+    test.deepEqual(readPreference.orderStorageIds(storageIds, TEST_FILE_NAME), ['local', 'azure', 'aws'],
+      'The storages left out come last');
+    test.deepEqual(readPreference.orderStorageIds(storageIds, 'a.jpg'), storageIds);
+
+    test.throws(() => new ReadPreference({ strategy: ReadPreferenceStrategy.Custom }));
+    test.throws(() => new ReadPreference({ latencySmoothingFactor: 0 }));
+    test.done();
+  },
+  async lowestLatency(test) {
+    this.multiStorageClient.setReadPreference(new ReadPreference({ strategy: ReadPreferenceStrategy.LowestLatency }));
+    this.azureBlobStorageClient.setLatency(50);
+    await this.multiStorageClient.fileExists(TEST_FILE_NAME);
+    test.ok(this.multiStorageClient.getReadPreference().getAverageLatency('azure')
+      > this.multiStorageClient.getReadPreference().getAverageLatency('aws'));
+    test.equal((await this.multiStorageClient.downloadFileAsBuffer(TEST_FILE_NAME)).toString(), AWS_CONTENT);
+    test.equal((await this.multiStorageClient.getFileProperties(TEST_FILE_NAME)).size, AWS_CONTENT.length);
+    test.done();
+  },
+  async fallbackOnError(test) {
+    this.azureBlobStorageClient.injectError('downloadFileAsBuffer', new TransientError('Injected error'), 1);
+    test.equal((await this.multiStorageClient.downloadFileAsBuffer(TEST_FILE_NAME)).toString(), AWS_CONTENT);
+    test.equal((await this.multiStorageClient.downloadFileAsBuffer(TEST_FILE_NAME)).toString(), AZURE_CONTENT);
+
+    // The lazy replication falls back too
+    this.awsS3Client.putFile('b.txt', AWS_CONTENT);
+    this.azureBlobStorageClient.putFile('b.txt', AZURE_CONTENT);
+    this.awsS3Client.putFile('c.txt', AWS_CONTENT);
+    this.multiStorageClient.setReadPreference(new ReadPreference({ primaryStorageId: 'aws' }));
+    this.awsS3Client.injectError('downloadFileAsStream', new TransientError('Injected error'), 1);
+    const localFilePath = path.join(this.tempFolder, 'b.txt');
+    let result = await this.multiStorageClient.downloadFileToDiskAndReplicateIfNecessary('b.txt', localFilePath);
+    test.equal(result.error, null);
+    test.equal(result.sourceStorageId, 'azure');
+    test.equal(fs.readFileSync(localFilePath, 'utf8'), AZURE_CONTENT);
+
+    this.multiStorageClient.setReadPreference(new ReadPreference({ fallbackOnError: false }));
+    this.azureBlobStorageClient.injectError('downloadFileAsBuffer', new TransientError('Injected error'), 1);
+    test.ok(await getError(this.multiStorageClient.downloadFileAsBuffer(TEST_FILE_NAME)) instanceof TransientError);
+
+    this.awsS3Client.injectError('downloadFileAsBuffer', new TransientError('Injected error'), 1);
+    test.ok(await getError(this.multiStorageClient.downloadFileAsBuffer('c.txt')) instanceof TransientError,
+      'No fallback for a file held by one storage');
+    test.done();
+  },
+  async configuration(test) {
+    const profile = await resolveProfile({
+      profiles: {
+        default: {
+          readPreference: { strategy: 'lowest-cost', egressCostsPerGB: { azure: 0.087, aws: 0.09 } },
+          storages: [{ id: 'aws', type: 'in-memory' }, { id: 'azure', type: 'in-memory' }]
+        }
+      }
+    }, undefined, {});
+    const readPreference = createMultiStorageClient(profile).getReadPreference();
+    test.equal(readPreference.getStrategy(), ReadPreferenceStrategy.LowestCost);
+    test.deepEqual(readPreference.orderStorageIds(['aws', 'azure'], TEST_FILE_NAME), ['azure', 'aws']);
+
+    const error = await getError(resolveProfile({
+      profiles: {
+        default: {
+          readPreference: { strategy: 'custom', primaryStorageId: 'gcs', egressCostsPerGB: { aws: -1, gcs: 0 }, fallback: false },
+          storages: [{ id: 'aws', type: 'in-memory' }]
+        }
+      }
+    }, undefined, {}));
+    test.deepEqual(error.problems, [
+      'profiles.default.readPreference.fallback: unknown field',
+      'profiles.default.readPreference.strategy: unknown strategy "custom", the strategies are: primary, lowest-latency, lowest-cost',
+      'profiles.default.readPreference.primaryStorageId: unknown storage ID "gcs"',
+      'profiles.default.readPreference.egressCostsPerGB.aws: must be a non-negative number',
+      'profiles.default.readPreference.egressCostsPerGB.gcs: unknown storage ID'
+    ]);
+    test.done();
+  }
+};
@@ -0,0 +1,192 @@
+/*
+ * Tests reconciling in-memory storages with MultiStorageClient.reconcile.
+ *
+ * To run the test type command:
+ * ./node_modules/.bin/nodeunit ./test/unit/reconciliation-test.js
+ */
+
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { MultiStorageClient } = require('../../dist/multi-storage-client');
+const { InMemoryStorageClient } = require('../../dist/in-memory-storage-client');
+const { MismatchReason, writeCheckpoint } = require('../../dist/reconciliation');
+
+const TEST_STORAGE_IDS = ['first', 'second', 'third'];
+const TEST_CONTAINER_NAME = 'test-container';
+
+function getTestMultiStorageClient() {
+  const multiStorageClient = new MultiStorageClient();
+
+  TEST_STORAGE_IDS.forEach((storageId) => {
+    const storageClient = new InMemoryStorageClient();
+    storageClient.initialize(TEST_CONTAINER_NAME);
+    multiStorageClient.addStorageClient(storageId, storageClient);
+  });
+
+  return multiStorageClient;
+}
+
+/**
+ * Puts the given files to the given storage.
+ */
+function putFiles(client, storageId, fileKeys, data) {
+  fileKeys.forEach(fileKey => client.getStorageClient(storageId).putFile(fileKey, data || fileKey));
+}
+
+async function getRejection(promise) {
+  try {
+    await promise;
+  } catch (error) {
+    return error;
+  }
+
+  return null;
+}
+
+module.exports = {
+  /**
+   * This is called before every test.
+   *
+   * @param {*} callback
+   */
+  setUp(callback) {
+    this.tempFolder = fs.mkdtempSync(path.join(os.tmpdir(), 'reconciliation-'));
+    this.checkpointFilePath = path.join(this.tempFolder, 'checkpoint.json');
+    callback();
+  },
+  /**
+   * This is called after every test.
+   *
+   * @param {*} callback
+   */
+  tearDown(callback) {
+    fs.readdirSync(this.tempFolder).forEach(fileName => fs.unlinkSync(path.join(this.tempFolder, fileName)));
+    fs.rmdirSync(this.tempFolder);
+    callback();
+  },
+  async reportOnly(test) {
+    const client = getTestMultiStorageClient();
+    putFiles(client, 'first', ['p/a', 'p/b', 'p/c', 'other']);
+    putFiles(client, 'second', ['p/a', 'p/c']);
+    putFiles(client, 'third', ['p/a', 'p/b']);
+    client.getStorageClient('third').putFile('p/a', 'different size');
+
+    const report = await client.reconcile('p/');
+    test.deepEqual(report.missingFilesByStorage, { first: [], second: ['p/b'], third: ['p/c'] });
+    test.ok(report.mismatches.length === 1);
+    test.ok(report.mismatches[0].name === 'p/a');
+    test.ok(report.mismatches[0].reason === MismatchReason.Size);
+    test.ok(report.mismatches[0].filePropertiesByStorage.third.size === 'different size'.length);
+    test.deepEqual(report.copies, []);
+    test.ok(report.summary.filesChecked === 3);
+    test.ok(report.summary.filesMissing === 2);
+    test.ok(report.summary.filesMismatched === 1);
+    test.ok(report.summary.lastProcessedKey === 'p/c');
+    test.ok(report.summary.completed === true);
+
+    // Nothing was copied
+    test.ok(client.getStorageClient('second').getFile('p/b') === undefined);
+    test.done();
+  },
+  async compareHashes(test) {
+    const client = getTestMultiStorageClient();
+    TEST_STORAGE_IDS.forEach(storageId => putFiles(client, storageId, ['a'], 'same'));
+    client.getStorageClient('second').putFile('a', 'diff');
+
+    const reportWithoutHashes = await client.reconcile();
+    test.ok(reportWithoutHashes.mismatches.length === 0);
+
+    const report = await client.reconcile('', undefined, { compareHashes: true });
+    test.ok(report.mismatches.length === 1);
+    test.ok(report.mismatches[0].reason === MismatchReason.Hash);
+    test.ok(report.mismatches[0].filePropertiesByStorage.second.contentMD5 !== undefined);
+    test.done();
+  },
+  async copyMissingFiles(test) {
+    const client = getTestMultiStorageClient();
+    const fileKeys = ['a', 'b', 'c', 'd', 'e', 'f'];
+    putFiles(client, 'first', fileKeys.slice(0, 3));
+    putFiles(client, 'second', fileKeys.slice(2));
+    client.getStorageClient('first').putFile('a', 'a', undefined, 'text/plain');
+    client.getStorageClient('third').setLatency(5);
+
+    const report = await client.reconcile('', undefined, { copyMissingFiles: true, concurrency: 2 });
+    test.ok(report.copies.length === 6);
+    test.deepEqual(report.copies[0], { name: 'a', sourceStorageId: 'first', targetStorageIds: ['second', 'third'], errorsByStorage: {} });
+    test.ok(report.summary.filesCopied === 6);
+
+    for (const storageId of TEST_STORAGE_IDS) {
+      test.deepEqual(await client.getStorageClient(storageId).listFileNamesWithPrefix(''), fileKeys);
+    }
+
+    test.ok(client.getStorageClient('third').getFile('a').contentType === 'text/plain');
+    test.done();
+  },
+  async copyMissingFilesOneFails(test) {
+    const client = getTestMultiStorageClient();
+    const injectedError = new Error('Injected');
+    putFiles(client, 'first', ['a', 'b']);
+    client.getStorageClient('third').injectError('uploadStream', injectedError, 1);
+
+    const report = await client.reconcile('', undefined, { copyMissingFiles: true, concurrency: 1 });
+    test.ok(report.copies[0].errorsByStorage.third.cause === injectedError);
+    test.ok(report.summary.filesCopied === 1);
+    test.ok(report.summary.copyFailures === 1);
+    test.ok(client.getStorageClient('second').getFile('a') !== undefined);
+    test.done();
+  },
+  async dryRun(test) {
+    const client = getTestMultiStorageClient();
+    putFiles(client, 'first', ['a']);
+
+    const report = await client.reconcile('', undefined, { copyMissingFiles: true, dryRun: true });
+    test.ok(report.dryRun === true);
+    test.deepEqual(report.copies[0].targetStorageIds, ['second', 'third']);
+    test.ok(report.summary.filesCopied === 0);
+    test.ok(client.getStorageClient('second').getFile('a') === undefined);
+    test.done();
+  },
+  async startAfter(test) {
+    const client = getTestMultiStorageClient();
+    putFiles(client, 'first', ['a', 'b', 'c']);
+
+    const report = await client.reconcile('', undefined, { startAfter: 'a' });
+    test.deepEqual(report.missingFilesByStorage.second, ['b', 'c']);
+    test.ok(report.summary.resumedAfter === 'a');
+    test.done();
+  },
+  async resumeAfterInterruption(test) {
+    const client = getTestMultiStorageClient();
+    const interruption = new Error('Interrupted');
+    putFiles(client, 'first', ['a', 'b', 'c', 'd']);
+
+    // Simulate a listing failing after two files
+    const thirdStorageClient = client.getStorageClient('third');
+    const listFiles = thirdStorageClient.listFiles;
+    thirdStorageClient.listFiles = async function* () {
+      yield { name: 'a', isPrefix: false, size: 1 };
+      yield { name: 'b', isPrefix: false, size: 1 };
+      throw interruption;
+    };
+
+    const options = { copyMissingFiles: true, checkpointFilePath: this.checkpointFilePath, checkpointInterval: 1 };
+    test.ok(await getRejection(client.reconcile('', undefined, options)) === interruption);
+    test.deepEqual(JSON.parse(fs.readFileSync(this.checkpointFilePath, 'utf8')), { prefix: '', lastProcessedKey: 'b' });
+
+    thirdStorageClient.listFiles = listFiles;
+    const report = await client.reconcile('', undefined, options);
+    test.ok(report.summary.resumedAfter === 'b');
+    test.deepEqual(report.copies.map(fileCopy => fileCopy.name), ['c', 'd']);
+    test.ok(fs.existsSync(this.checkpointFilePath) === false);
+    test.done();
+  },
+  async checkpointForAnotherPrefix(test) {
+    const client = getTestMultiStorageClient();
+    await writeCheckpoint(this.checkpointFilePath, 'other/', 'other/a');
+
+    const error = await getRejection(client.reconcile('p/', undefined, { checkpointFilePath: this.checkpointFilePath }));
+    test.ok(error instanceof Error);
+    test.done();
+  }
+};
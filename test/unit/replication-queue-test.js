@@ -0,0 +1,221 @@
+/*
+ * Tests the durable replication queue alone and with MultiStorageClient.
+ *
+ * To run the test type command:
+ * ./node_modules/.bin/nodeunit ./test/unit/replication-queue-test.js
+ */
+
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { NULL_LOGGER } = require('../../dist/logger');
+const { MultiStorageClient } = require('../../dist/multi-storage-client');
+const { InMemoryStorageClient } = require('../../dist/in-memory-storage-client');
+const { ReplicationQueue } = require('../../dist/replication-queue');
+
+const TEST_STORAGE_IDS = ['first', 'second', 'third'];
+const TEST_CONTAINER_NAME = 'test-container';
+const TEST_STORAGE_FILE_NAME_1 = 'test_1.txt';
+
+function getTestMultiStorageClient() {
+  const multiStorageClient = new MultiStorageClient();
+  multiStorageClient.setLogger(NULL_LOGGER);
+
+  TEST_STORAGE_IDS.forEach((storageId) => {
+    const storageClient = new InMemoryStorageClient();
+    storageClient.initialize(TEST_CONTAINER_NAME);
+    multiStorageClient.addStorageClient(storageId, storageClient);
+  });
+
+  return multiStorageClient;
+}
+
+function waitFor(condition, timeoutInMs) {
+  const startTime = Date.now();
+
+  return new Promise((resolve, reject) => {
+    const check = () => {
+      if (condition()) {
+        resolve();
+      } else if (Date.now() - startTime > timeoutInMs) {
+        reject(new Error('Timed out'));
+      } else {
+        setTimeout(check, 5);
+      }
+    };
+
+    check();
+  });
+}
+
+module.exports = {
+  /**
+   * This is called before every test.
+   *
+   * @param {*} callback
+   */
+  setUp(callback) {
+    this.tempFolder = fs.mkdtempSync(path.join(os.tmpdir(), 'replication-queue-'));
+    this.journalFilePath = path.join(this.tempFolder, 'journal.json');
+    callback();
+  },
+  /**
+   * This is called after every test.
+   *
+   * @param {*} callback
+   */
+  tearDown(callback) {
+    fs.readdirSync(this.tempFolder).forEach(fileName => fs.unlinkSync(path.join(this.tempFolder, fileName)));
+    fs.rmdirSync(this.tempFolder);
+    callback();
+  },
+  async journalSurvivesRestart(test) {
+    const queue = new ReplicationQueue({ journalFilePath: this.journalFilePath });
+    await queue.initialize();
+    await queue.enqueue('a', 'first', ['second']);
+    await queue.enqueue('a', 'first', ['third']);
+    await queue.enqueue('b', 'first', ['second'], 'container');
+
+    const restartedQueue = new ReplicationQueue({ journalFilePath: this.journalFilePath });
+    await restartedQueue.initialize();
+    const pendingTasks = restartedQueue.getPendingTasks();
+    test.deepEqual(pendingTasks.map(task => [task.storageFilePath, task.targetStorageIds, task.containerOrBucketName]), [
+      ['a', ['second', 'third'], null],
+      ['b', ['second'], 'container']
+    ]);
+    test.done();
+  },
+  async corruptJournalIsRejected(test) {
+    fs.writeFileSync(this.journalFilePath, '{"pendingTasks": [');
+    const queue = new ReplicationQueue({ journalFilePath: this.journalFilePath });
+
+    const error = await queue.initialize().then(() => null, (error) => error);
+    test.ok(error instanceof Error);
+    test.ok(error.message.indexOf('Invalid replication journal') === 0);
+    test.done();
+  },
+  async processDueTasks(test) {
+    const queue = new ReplicationQueue({ journalFilePath: this.journalFilePath });
+    const replicatedFiles = [];
+    queue.setReplicator(async (task) => {
+      replicatedFiles.push(task.storageFilePath);
+      return {};
+    });
+
+    await queue.enqueue('a', 'first', ['second']);
+    test.ok(await queue.processDueTasks() === 1);
+    test.deepEqual(replicatedFiles, ['a']);
+    test.deepEqual(queue.getPendingTasks(), []);
+    test.deepEqual(JSON.parse(fs.readFileSync(this.journalFilePath, 'utf8')).pendingTasks, []);
+    test.done();
+  },
+  async retryWithBackoff(test) {
+    const queue = new ReplicationQueue({ initialRetryDelayInMs: 1000, maxRetryDelayInMs: 3000 });
+    queue.setReplicator(async (task) => ({ third: new Error('Injected') }));
+
+    await queue.enqueue('a', 'first', ['second', 'third']);
+    const startTime = Date.now();
+    test.ok(await queue.processDueTasks() === 1);
+
+    const task = queue.getPendingTasks()[0];
+    test.deepEqual(task.targetStorageIds, ['third']);
+    test.ok(task.attempts === 1);
+    test.ok(task.lastError === 'third: Error: Injected');
+    test.ok(task.nextAttemptTime >= startTime + 1000);
+
+    // Not due yet
+    test.ok(await queue.processDueTasks() === 0);
+
+    test.deepEqual([1, 2, 3, 4].map(attempts => queue.getRetryDelayInMs(attempts)), [1000, 2000, 3000, 3000]);
+    test.done();
+  },
+  async deadLetters(test) {
+    const errors = [];
+    const queue = new ReplicationQueue({
+      journalFilePath: this.journalFilePath,
+      maxAttempts: 2,
+      initialRetryDelayInMs: 0,
+      logger: { warn: (message) => test.ok(false, message), error: (message) => errors.push(message) }
+    });
+    let failing = true;
+    queue.setReplicator(async (task) => {
+      if (failing) {
+        throw new Error('Injected');
+      }
+
+      return {};
+    });
+
+    await queue.enqueue('a', 'first', ['second']);
+    test.ok(await queue.processDueTasks() === 2);
+    test.deepEqual(queue.getPendingTasks(), []);
+
+    const deadLetters = queue.getDeadLetters();
+    test.ok(deadLetters.length === 1 && deadLetters[0].attempts === 2);
+    test.deepEqual(errors, ['Giving up replicating "a": second: Error: Injected']);
+    test.ok(JSON.parse(fs.readFileSync(this.journalFilePath, 'utf8')).deadLetters.length === 1);
+
+    failing = false;
+    test.ok(await queue.retryDeadLetter(deadLetters[0].id) === true);
+    test.ok(await queue.processDueTasks() === 1);
+    test.deepEqual(queue.getDeadLetters(), []);
+
+    await queue.enqueue('b', 'first', ['second']);
+    failing = true;
+    await queue.processDueTasks();
+    test.ok(await queue.removeDeadLetter(queue.getDeadLetters()[0].id) === true);
+    test.ok(await queue.removeDeadLetter('missing') === false);
+    test.deepEqual(queue.getDeadLetters(), []);
+    test.done();
+  },
+  async lazyReadQueuesReplication(test) {
+    const client = getTestMultiStorageClient();
+    const queue = new ReplicationQueue({ journalFilePath: this.journalFilePath, initialRetryDelayInMs: 0 });
+    client.setReplicationQueue(queue);
+    client.getStorageClient('first').putFile(TEST_STORAGE_FILE_NAME_1, 'data', undefined, 'text/plain');
+    client.getStorageClient('third').injectError('uploadStream', new Error('Injected'), 1);
+
+    const localFilePath = path.join(this.tempFolder, 'downloaded.txt');
+    const result = await client.downloadFileToDiskAndReplicateIfNecessary(TEST_STORAGE_FILE_NAME_1, localFilePath);
+    test.ok(result.error === null);
+    test.ok(result.replicationQueued === true);
+    test.deepEqual(result.targetStorageIds, ['second', 'third']);
+    test.ok(fs.readFileSync(localFilePath, 'utf8') === 'data');
+    test.ok(client.getStorageClient('second').getFile(TEST_STORAGE_FILE_NAME_1) === undefined);
+
+    // The upload to the third storage fails once and is retried immediately
+    test.ok(await queue.processDueTasks() === 2);
+    test.ok(client.getStorageClient('second').getFile(TEST_STORAGE_FILE_NAME_1).contentType === 'text/plain');
+    test.ok(client.getStorageClient('third').getFile(TEST_STORAGE_FILE_NAME_1).data.toString() === 'data');
+    test.deepEqual(queue.getPendingTasks(), []);
+    test.done();
+  },
+  async deletedFileIsNotReplicated(test) {
+    const client = getTestMultiStorageClient();
+    const queue = new ReplicationQueue();
+    client.setReplicationQueue(queue);
+
+    await queue.enqueue(TEST_STORAGE_FILE_NAME_1, 'first', ['second']);
+    await queue.processDueTasks();
+    test.deepEqual(queue.getPendingTasks(), []);
+    test.deepEqual(queue.getDeadLetters(), []);
+    test.done();
+  },
+  async backgroundWorker(test) {
+    const client = getTestMultiStorageClient();
+    const queue = new ReplicationQueue({ pollIntervalInMs: 10 });
+    client.setReplicationQueue(queue);
+    client.getStorageClient('first').putFile(TEST_STORAGE_FILE_NAME_1, 'data');
+    queue.start();
+
+    const replicatingReadStream = await client.downloadFileAsStreamAndReplicateIfNecessary(TEST_STORAGE_FILE_NAME_1);
+    test.ok(replicatingReadStream.replicationQueued === true);
+    replicatingReadStream.stream.resume();
+    test.ok(await replicatingReadStream.replication === null);
+
+    await waitFor(() => client.getStorageClient('third').getFile(TEST_STORAGE_FILE_NAME_1) !== undefined, 2000);
+    queue.stop();
+    test.ok(queue.isStarted() === false);
+    test.done();
+  }
+};
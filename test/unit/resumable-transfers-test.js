@@ -0,0 +1,293 @@
+/*
+ * Tests the multipart and resumable transfers of large files.
+ *
+ * To run the test type command:
+ * ./node_modules/.bin/nodeunit ./test/unit/resumable-transfers-test.js
+ */
+
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { InMemoryStorageClient } = require('../../dist/in-memory-storage-client');
+const { LocalFileSystemStorageClient } = require('../../dist/local-file-system-storage-client');
+const { ContainerMappingStorageClient } = require('../../dist/container-mapping-storage-client');
+const { MultiStorageClient } = require('../../dist/multi-storage-client');
+const {
+  CHECKPOINT_FILE_EXTENSION, PARTIAL_FILE_EXTENSION, isResumableStorageClient, uploadFileInParts, uploadFileResumable
+} = require('../../dist/resumable-transfers');
+const { createMultiStorageClient, resolveProfile } = require('../../dist/configuration');
+const { ConflictError, NotFoundError, TransientError } = require('../../dist/storage-errors');
+
+const TEST_CONTAINER_NAME = 'videos';
+const TEST_FILE_NAME = 'video.mp4';
+const TEST_CONTENT = 'abcdefghij0123456789';
+const TEST_PART_SIZE_IN_BYTES = 4;
+
+async function getError(promise) {
+  try {
+    await promise;
+  } catch (error) {
+    return error;
+  }
+
+  return null;
+}
+
+/**
+ * @return Transfer options failing the given operation of the given client once the given number of bytes is transferred.
+ */
+function interruptAfter(storageClient, operationName, transferredBytes, progress) {
+  return {
+    partSizeInBytes: TEST_PART_SIZE_IN_BYTES,
+    concurrency: 1,
+    onProgress: (event) => {
+      progress.push(event.transferredBytes);
+
+      if (event.transferredBytes >= transferredBytes) {
+        storageClient.injectError(operationName, new TransientError('Injected'));
+      }
+    }
+  };
+}
+
+module.exports = {
+  /**
+   * This is called before every test.
+   *
+   * @param {*} callback
+   */
+  setUp(callback) {
+    this.tempFolder = fs.mkdtempSync(path.join(os.tmpdir(), 'resumable-transfers-'));
+    this.localFilePath = path.join(this.tempFolder, TEST_FILE_NAME);
+    fs.writeFileSync(this.localFilePath, TEST_CONTENT);
+    this.storageClient = new InMemoryStorageClient();
+    this.storageClient.initialize(TEST_CONTAINER_NAME);
+    callback();
+  },
+  /**
+   * This is called after every test.
+   *
+   * @param {*} callback
+   */
+  tearDown(callback) {
+    fs.rmSync(this.tempFolder, { recursive: true, force: true });
+    callback();
+  },
+  async resumeUpload(test) {
+    let progress = [];
+    let error = await getError(this.storageClient.uploadFileResumable(this.localFilePath, TEST_FILE_NAME, undefined, 'video/mp4',
+      interruptAfter(this.storageClient, 'uploadPart', 8, progress)));
+    test.ok(error instanceof TransientError);
+    test.deepEqual(progress, [0, 4, 8]);
+    test.ok(fs.existsSync(this.localFilePath + CHECKPOINT_FILE_EXTENSION));
+    test.equal(this.storageClient.getFile(TEST_FILE_NAME), undefined);
+
+    progress = [];
+    this.storageClient.clearFaults();
+    await this.storageClient.uploadFileResumable(this.localFilePath, TEST_FILE_NAME, undefined, 'video/mp4', {
+      partSizeInBytes: 1024,
+      onProgress: (event) => progress.push(event.transferredBytes)
+    });
+    test.deepEqual(progress, [8, 12, 16, 20], 'The part size of the checkpoint is kept');
+    test.equal(this.storageClient.getFile(TEST_FILE_NAME).data.toString(), TEST_CONTENT);
+    test.equal(this.storageClient.getFile(TEST_FILE_NAME).contentType, 'video/mp4');
+    test.ok(!fs.existsSync(this.localFilePath + CHECKPOINT_FILE_EXTENSION));
+    test.equal(this.storageClient.getMultipartUploadCount(), 0);
+
+    // A changed local file is uploaded from the start
+    const checkpointFilePath = path.join(this.tempFolder, 'upload.json');
+    await getError(this.storageClient.uploadFileResumable(this.localFilePath, 'b.mp4', undefined, undefined,
+      Object.assign(interruptAfter(this.storageClient, 'uploadPart', 4, []), { checkpointFilePath: checkpointFilePath })));
+    test.ok(fs.existsSync(checkpointFilePath));
+    this.storageClient.clearFaults();
+    fs.writeFileSync(this.localFilePath, TEST_CONTENT + TEST_CONTENT);
+    await this.storageClient.uploadFileResumable(this.localFilePath, 'b.mp4', undefined, undefined,
+      { partSizeInBytes: TEST_PART_SIZE_IN_BYTES, checkpointFilePath: checkpointFilePath });
+    test.equal(this.storageClient.getFile('b.mp4').data.toString(), TEST_CONTENT + TEST_CONTENT);
+    test.ok(!fs.existsSync(checkpointFilePath));
+
+    // The checkpoint of an upload unknown to the storage is removed
+    await getError(this.storageClient.uploadFileResumable(this.localFilePath, 'c.mp4', undefined, undefined,
+      interruptAfter(this.storageClient, 'uploadPart', 4, [])));
+    this.storageClient.clearFaults();
+    this.storageClient.injectError('uploadPart', new NotFoundError('Upload not found'), 1);
+    error = await getError(this.storageClient.uploadFileResumable(this.localFilePath, 'c.mp4', undefined, undefined,
+      { partSizeInBytes: TEST_PART_SIZE_IN_BYTES }));
+    test.equal(error.code, 'NotFound');
+    test.ok(!fs.existsSync(this.localFilePath + CHECKPOINT_FILE_EXTENSION));
+    await this.storageClient.uploadFileResumable(this.localFilePath, 'c.mp4', undefined, undefined, { partSizeInBytes: TEST_PART_SIZE_IN_BYTES });
+    test.equal(this.storageClient.getFile('c.mp4').size, 2 * TEST_CONTENT.length);
+    test.done();
+  },
+  async uploadInParts(test) {
+    let calls = [];
+    let failingPartNumber = 0;
+    const uploader = {
+      maxPartCount: 3,
+      uploadSinglePart: async (content) => calls.push(['single', content.toString()]),
+      createUpload: async () => 'upload-1',
+      uploadPart: async (uploadId, partNumber, content) => {
+        if (partNumber === failingPartNumber) {
+          throw new Error('Injected');
+        }
+
+        calls.push(['part', partNumber, content.toString()]);
+        return 'tag-' + partNumber;
+      },
+      completeUpload: async (uploadId, parts) => calls.push(['complete', parts.map((part) => part.tag)]),
+      abortUpload: async (uploadId) => calls.push(['abort', uploadId])
+    };
+
+    await uploadFileInParts(this.localFilePath, TEST_FILE_NAME, uploader, { partSizeInBytes: 32 });
+    test.deepEqual(calls, [['single', TEST_CONTENT]]);
+
+    calls = [];
+    await uploadFileInParts(this.localFilePath, TEST_FILE_NAME, uploader, { partSizeInBytes: TEST_PART_SIZE_IN_BYTES, concurrency: 2 });
+    test.deepEqual(calls.filter((call) => call[0] === 'part').map((call) => call[2]).sort(), ['456789', 'abcdefg', 'hij0123'],
+      'The part size is raised to stay within the maximum part count');
+    test.deepEqual(calls[calls.length - 1], ['complete', ['tag-1', 'tag-2', 'tag-3']]);
+
+    calls = [];
+    failingPartNumber = 2;
+    const error = await getError(uploadFileInParts(this.localFilePath, TEST_FILE_NAME, uploader, { partSizeInBytes: 10, concurrency: 1 }));
+    test.equal(error.message, 'Injected');
+    test.deepEqual(calls, [['part', 1, 'abcdefghij'], ['abort', 'upload-1']], 'The parts are discarded without a checkpoint');
+    test.done();
+  },
+  async resumeDownload(test) {
+    this.storageClient.putFile(TEST_FILE_NAME, TEST_CONTENT);
+    const localFilePath = path.join(this.tempFolder, 'downloaded.mp4');
+    let progress = [];
+
+    let error = await getError(this.storageClient.downloadFileToDiskResumable(TEST_FILE_NAME, localFilePath, undefined,
+      interruptAfter(this.storageClient, 'downloadRange', 12, progress)));
+    test.ok(error instanceof TransientError);
+    test.deepEqual(progress, [0, 4, 8, 12]);
+    test.ok(!fs.existsSync(localFilePath));
+    test.ok(fs.existsSync(localFilePath + PARTIAL_FILE_EXTENSION));
+
+    progress = [];
+    this.storageClient.clearFaults();
+    await this.storageClient.downloadFileToDiskResumable(TEST_FILE_NAME, localFilePath, undefined,
+      { onProgress: (event) => progress.push(event.transferredBytes) });
+    test.deepEqual(progress, [12, 16, 20]);
+    test.equal(fs.readFileSync(localFilePath, 'utf8'), TEST_CONTENT);
+    test.deepEqual(fs.readdirSync(this.tempFolder).sort(), ['downloaded.mp4', TEST_FILE_NAME]);
+
+    // A file changed in the storage since the interruption is downloaded from the start
+    await getError(this.storageClient.downloadFileToDiskResumable(TEST_FILE_NAME, localFilePath, undefined,
+      interruptAfter(this.storageClient, 'downloadRange', 4, [])));
+    this.storageClient.clearFaults();
+    this.storageClient.putFile(TEST_FILE_NAME, TEST_CONTENT.toUpperCase());
+    await this.storageClient.downloadFileToDiskResumable(TEST_FILE_NAME, localFilePath, undefined, { partSizeInBytes: TEST_PART_SIZE_IN_BYTES });
+    test.equal(fs.readFileSync(localFilePath, 'utf8'), TEST_CONTENT.toUpperCase());
+
+    // A file changing during the download fails it and removes the checkpoint
+    error = await getError(this.storageClient.downloadFileToDiskResumable(TEST_FILE_NAME, path.join(this.tempFolder, 'changed.mp4'), undefined, {
+      partSizeInBytes: TEST_PART_SIZE_IN_BYTES,
+      checkpointFilePath: path.join(this.tempFolder, 'download.json'),
+      onProgress: (event) => this.storageClient.putFile(TEST_FILE_NAME, TEST_CONTENT)
+    }));
+    test.ok(error instanceof ConflictError);
+    test.deepEqual(fs.readdirSync(this.tempFolder).sort(), ['downloaded.mp4', TEST_FILE_NAME]);
+    test.done();
+  },
+  async fallback(test) {
+    const localFileSystemStorageClient = new LocalFileSystemStorageClient();
+    localFileSystemStorageClient.initialize(path.join(this.tempFolder, 'storage'), TEST_CONTAINER_NAME);
+    test.ok(!isResumableStorageClient(localFileSystemStorageClient));
+    test.ok(isResumableStorageClient(new ContainerMappingStorageClient(localFileSystemStorageClient, {})));
+
+    let progress = [];
+    await uploadFileResumable(new ContainerMappingStorageClient(localFileSystemStorageClient, {}), this.localFilePath, TEST_FILE_NAME,
+      undefined, undefined, { onProgress: (event) => progress.push([event.transferredBytes, event.totalBytes]) });
+    test.deepEqual(progress, [[20, 20]], 'Uploaded in a single attempt');
+    test.equal((await localFileSystemStorageClient.downloadFileAsBuffer(TEST_FILE_NAME)).toString(), TEST_CONTENT);
+
+    await new ContainerMappingStorageClient(this.storageClient, { photos: TEST_CONTAINER_NAME })
+      .uploadFileResumable(this.localFilePath, TEST_FILE_NAME, 'photos', undefined, { partSizeInBytes: TEST_PART_SIZE_IN_BYTES });
+    test.equal(this.storageClient.getFile(TEST_FILE_NAME).data.toString(), TEST_CONTENT);
+    test.done();
+  },
+  async stagedReplication(test) {
+    const stagingDirectoryPath = path.join(this.tempFolder, 'staging');
+    fs.mkdirSync(stagingDirectoryPath);
+    const target = new InMemoryStorageClient();
+    target.initialize(TEST_CONTAINER_NAME);
+    this.storageClient.putFile(TEST_FILE_NAME, TEST_CONTENT, undefined, 'video/mp4');
+    this.storageClient.putFile('small.txt', 'Small');
+
+    let progress = [];
+    let interrupted = false;
+    const multiStorageClient = new MultiStorageClient();
+    multiStorageClient.addStorageClient('source', this.storageClient);
+    multiStorageClient.addStorageClient('target', target);
+    multiStorageClient.setTransferOptions({
+      stagingDirectoryPath: stagingDirectoryPath,
+      stagingThresholdInBytes: 10,
+      partSizeInBytes: TEST_PART_SIZE_IN_BYTES,
+      concurrency: 1,
+      onProgress: (event) => {
+        progress.push([event.storageId, event.transferredBytes]);
+
+        if (event.storageId === 'target' && event.transferredBytes === 8 && !interrupted) {
+          interrupted = true;
+          target.injectError('uploadPart', new TransientError('Injected'), 1);
+        }
+      }
+    });
+
+    const localFilePath = path.join(this.tempFolder, 'downloaded.mp4');
+    let result = await multiStorageClient.downloadFileToDiskAndReplicateIfNecessary(TEST_FILE_NAME, localFilePath);
+    test.ok(result.error instanceof TransientError);
+    test.deepEqual(result.targetStorageIds, ['target']);
+    test.equal(fs.readFileSync(localFilePath, 'utf8'), TEST_CONTENT);
+    test.equal(fs.readdirSync(stagingDirectoryPath).length, 2, 'The staged file and the checkpoint of the upload are kept');
+
+    progress = [];
+    result = await multiStorageClient.downloadFileToDiskAndReplicateIfNecessary(TEST_FILE_NAME, localFilePath);
+    test.equal(result.error, null);
+    test.deepEqual(progress, [['target', 8], ['target', 12], ['target', 16], ['target', 20]], 'Not downloaded again');
+    test.equal(target.getFile(TEST_FILE_NAME).data.toString(), TEST_CONTENT);
+    test.equal(target.getFile(TEST_FILE_NAME).contentType, 'video/mp4');
+    test.deepEqual(fs.readdirSync(stagingDirectoryPath), []);
+
+    progress = [];
+    result = await multiStorageClient.downloadFileToDiskAndReplicateIfNecessary('small.txt', path.join(this.tempFolder, 'small.txt'));
+    test.equal(result.error, null);
+    test.deepEqual(progress, [], 'The small files are streamed');
+    test.equal(target.getFile('small.txt').data.toString(), 'Small');
+
+    test.throws(() => multiStorageClient.setTransferOptions({ partSizeInBytes: 1024 }));
+    test.done();
+  },
+  async configuration(test) {
+    const storages = [{ id: 'first', type: 'in-memory' }, { id: 'second', type: 'in-memory' }];
+    let profile = await resolveProfile({
+      profiles: {
+        default: {
+          transfers: { partSizeInBytes: 16777216, concurrency: 8, stagingDirectoryPath: this.tempFolder },
+          storages: storages
+        }
+      }
+    }, undefined, {});
+    const transferOptions = createMultiStorageClient(profile).getTransferOptions();
+    test.equal(transferOptions.stagingDirectoryPath, this.tempFolder);
+    test.equal(transferOptions.concurrency, 8);
+
+    const error = await getError(resolveProfile({
+      profiles: {
+        default: {
+          transfers: { partSizeInBytes: 1024, concurrency: 0, stagingDirectory: '/tmp' },
+          storages: storages
+        }
+      }
+    }, undefined, {}));
+    test.deepEqual(error.problems, [
+      'profiles.default.transfers.stagingDirectory: unknown field',
+      'profiles.default.transfers.concurrency: must be a positive integer',
+      'profiles.default.transfers.partSizeInBytes: must be an integer between 5242880 and 104857600'
+    ]);
+    test.done();
+  }
+};
@@ -0,0 +1,101 @@
+/*
+ * Tests the signed URLs of the storage clients. The URLs are signed locally, so no network access
+ * or real credentials are needed.
+ *
+ * To run the test type command:
+ * ./node_modules/.bin/nodeunit ./test/unit/signed-urls-test.js
+ */
+
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { AwsS3Client } = require('../../dist/aws-s3-client');
+const { AzureBlobStorageClient } = require('../../dist/azure-blob-storage-client');
+const { ContainerMappingStorageClient } = require('../../dist/container-mapping-storage-client');
+const { InMemoryStorageClient } = require('../../dist/in-memory-storage-client');
+const { LocalFileSystemStorageClient } = require('../../dist/local-file-system-storage-client');
+const { DEFAULT_SIGNED_URL_EXPIRY_IN_SECONDS, SignedUrlPermission } = require('../../dist/storage-client');
+const { NotSupportedError, StorageErrorCode } = require('../../dist/storage-errors');
+
+const TEST_FILE_KEY = 'images/a b.jpg';
+const TEST_CONTAINER_NAME = 'test-container';
+
+/**
+ * @param url A URL.
+ * @return The query parameters of the URL by name.
+ */
+function getQuery(url) {
+  const query = {};
+  new URL(url).searchParams.forEach((value, name) => query[name] = value);
+  return query;
+}
+
+module.exports = {
+  async awsS3(test) {
+    const s3Client = new AwsS3Client();
+    s3Client.initialize('AKIDEXAMPLE', 'secret', 'eu-west-1', TEST_CONTAINER_NAME);
+    const startTime = Math.floor(Date.now() / 1000);
+
+    const downloadUrl = await s3Client.getSignedUrl(TEST_FILE_KEY, undefined, { expiry: 60 });
+    const downloadQuery = getQuery(downloadUrl);
+    test.equal(new URL(downloadUrl).hostname, TEST_CONTAINER_NAME + '.s3-eu-west-1.amazonaws.com');
+    test.equal(new URL(downloadUrl).pathname, '/images/a%20b.jpg');
+    test.ok(!!downloadQuery.Signature);
+    test.ok(Number(downloadQuery.Expires) >= startTime + 60 && Number(downloadQuery.Expires) <= startTime + 61);
+
+    const defaultExpiry = Number(getQuery(await s3Client.getSignedUrl(TEST_FILE_KEY)).Expires);
+    test.ok(defaultExpiry >= startTime + DEFAULT_SIGNED_URL_EXPIRY_IN_SECONDS);
+
+    const uploadUrl = await s3Client.getSignedUrl(TEST_FILE_KEY, 'other', {
+      permissions: SignedUrlPermission.Write,
+      contentType: 'image/jpeg'
+    });
+    test.equal(new URL(uploadUrl).hostname, 'other.s3-eu-west-1.amazonaws.com');
+    test.equal(getQuery(uploadUrl)['Content-Type'], 'image/jpeg', 'The content type is signed');
+    test.notEqual(getQuery(uploadUrl).Signature, getQuery(await s3Client.getSignedUrl(TEST_FILE_KEY, 'other')).Signature);
+    test.done();
+  },
+  async azureBlobStorage(test) {
+    const azureClient = new AzureBlobStorageClient();
+    azureClient.initialize('account', Buffer.from('key').toString('base64'), TEST_CONTAINER_NAME);
+
+    const downloadUrl = await azureClient.getSignedUrl(TEST_FILE_KEY, undefined, { expiry: 60 });
+    const downloadQuery = getQuery(downloadUrl);
+    test.equal(new URL(downloadUrl).hostname, 'account.blob.core.windows.net');
+    test.equal(new URL(downloadUrl).pathname, '/' + TEST_CONTAINER_NAME + '/images/a%20b.jpg');
+    test.equal(downloadQuery.sp, 'r');
+    test.equal(downloadQuery.sr, 'b');
+    test.ok(!!downloadQuery.sig);
+    test.ok(Math.abs(new Date(downloadQuery.se).getTime() - (Date.now() + 60 * 1000)) < 2000);
+
+    const uploadUrl = await azureClient.getSignedUrl(TEST_FILE_KEY, 'other', { permissions: SignedUrlPermission.Write });
+    test.equal(new URL(uploadUrl).pathname, '/other/images/a%20b.jpg');
+    test.equal(getQuery(uploadUrl).sp, 'w');
+    test.done();
+  },
+  async inMemory(test) {
+    const storageClient = new InMemoryStorageClient();
+    storageClient.initialize(TEST_CONTAINER_NAME);
+    const wrappingClient = new ContainerMappingStorageClient(storageClient, { photos: 'photos-container' });
+
+    const url = await wrappingClient.getSignedUrl(TEST_FILE_KEY, 'photos', { permissions: SignedUrlPermission.Write });
+    test.ok(url.indexOf('memory://photos-container/images/a%20b.jpg?permissions=write&expiry=') === 0);
+
+    storageClient.injectError('getSignedUrl', new Error('Injected'), 1);
+    test.equal((await storageClient.getSignedUrl(TEST_FILE_KEY).catch((error) => error)).message, 'Injected');
+    test.ok((await storageClient.getSignedUrl(TEST_FILE_KEY)).indexOf('memory://' + TEST_CONTAINER_NAME + '/') === 0);
+    test.done();
+  },
+  async localFileSystemNotSupported(test) {
+    const tempFolder = fs.mkdtempSync(path.join(os.tmpdir(), 'signed-urls-'));
+    const storageClient = new LocalFileSystemStorageClient();
+    storageClient.initialize(tempFolder, TEST_CONTAINER_NAME);
+
+    const error = await storageClient.getSignedUrl(TEST_FILE_KEY).catch((error) => error);
+    test.ok(error instanceof NotSupportedError);
+    test.equal(error.code, StorageErrorCode.NotSupported);
+    test.equal(error.isRetryable(), false);
+    fs.rmSync(tempFolder, { recursive: true, force: true });
+    test.done();
+  }
+};
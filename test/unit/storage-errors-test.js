@@ -0,0 +1,88 @@
+/*
+ * Tests for mapping the errors of the SDKs and the file system to storage errors.
+ */
+
+const {
+  StorageError, StorageErrorCode, NotFoundError, AccessDeniedError, ThrottledError, TransientError, ConflictError,
+  InvalidKeyError, ChecksumMismatchError, isNotFoundError, toStorageError
+} = require('../../dist/storage-errors');
+
+function createError(code, statusCode) {
+  const error = new Error(`${code} ${statusCode}`);
+  error.code = code;
+  error.statusCode = statusCode;
+  return error;
+}
+
+module.exports = {
+  awsS3Errors(test) {
+    test.ok(toStorageError(createError('NotFound', 404)) instanceof NotFoundError);
+    test.ok(toStorageError(createError('NoSuchKey', 404)) instanceof NotFoundError);
+    test.ok(toStorageError(createError('AccessDenied', 403)) instanceof AccessDeniedError);
+    test.ok(toStorageError(createError('SlowDown', 503)) instanceof ThrottledError);
+    test.ok(toStorageError(createError('PreconditionFailed', 412)) instanceof ConflictError);
+    test.ok(toStorageError(createError('NetworkingError')) instanceof TransientError);
+    test.ok(toStorageError(createError('KeyTooLongError', 400)) instanceof InvalidKeyError);
+    test.ok(toStorageError(createError('BadDigest', 400)) instanceof ChecksumMismatchError);
+    test.done();
+  },
+  azureErrors(test) {
+    test.ok(toStorageError(createError('BlobNotFound', 404)) instanceof NotFoundError);
+    test.ok(toStorageError(createError('AuthenticationFailed', 403)) instanceof AccessDeniedError);
+    test.ok(toStorageError(createError('ServerBusy', 503)) instanceof ThrottledError);
+    test.ok(toStorageError(createError('BlobAlreadyExists', 409)) instanceof ConflictError);
+    test.ok(toStorageError(createError('ECONNRESET')) instanceof TransientError);
+    test.ok(toStorageError(createError('InvalidResourceName', 400)) instanceof InvalidKeyError);
+    test.ok(toStorageError(createError('Md5Mismatch', 400)) instanceof ChecksumMismatchError);
+    test.ok(toStorageError(new Error('Hash mismatch (integrity check failed), Expected value is a, retrieved b.'))
+      instanceof ChecksumMismatchError, 'The checks of the SDK have no code');
+    test.done();
+  },
+  fileSystemErrors(test) {
+    test.ok(toStorageError(createError('ENOENT')) instanceof NotFoundError);
+    test.ok(toStorageError(createError('EACCES')) instanceof AccessDeniedError);
+    test.ok(toStorageError(createError('EEXIST')) instanceof ConflictError);
+    test.done();
+  },
+  statusCodes(test) {
+    test.ok(toStorageError(createError(undefined, 404)).code === StorageErrorCode.NotFound);
+    test.ok(toStorageError(createError(undefined, 403)).code === StorageErrorCode.AccessDenied);
+    test.ok(toStorageError(createError(undefined, 429)).code === StorageErrorCode.Throttled);
+    test.ok(toStorageError(createError(undefined, 409)).code === StorageErrorCode.Conflict);
+    test.ok(toStorageError(createError(undefined, 500)).code === StorageErrorCode.Transient);
+    test.ok(toStorageError(createError(undefined, 400)).code === StorageErrorCode.Unknown);
+    test.done();
+  },
+  details(test) {
+    const original = createError('NoSuchKey', 404);
+    const error = toStorageError(original, 'a/b.txt');
+
+    test.ok(error instanceof StorageError && error instanceof Error);
+    test.ok(error.name === 'NotFoundError');
+    test.ok(error.message === original.message);
+    test.ok(error.storageFilePath === 'a/b.txt');
+    test.ok(error.statusCode === 404);
+    test.ok(error.cause === original);
+    test.ok(isNotFoundError(error) === true);
+    test.ok(isNotFoundError(toStorageError(createError('AccessDenied', 403))) === false);
+    test.ok(isNotFoundError(null) === false);
+    test.done();
+  },
+  passesStorageErrorsThrough(test) {
+    const error = new ConflictError('Conflict');
+    test.ok(toStorageError(error, 'a') === error);
+    test.done();
+  },
+  unknownErrors(test) {
+    const error = toStorageError(new Error('Something'));
+    test.ok(error.code === StorageErrorCode.Unknown && error.isRetryable() === false);
+    test.ok(toStorageError('Something').message === 'Something');
+
+    // The SDKs flag the errors worth retrying
+    const retryableError = new Error('Socket hang up');
+    retryableError.retryable = true;
+    test.ok(toStorageError(retryableError).isRetryable() === true);
+    test.ok(toStorageError(createError('SlowDown')).isRetryable() === true);
+    test.done();
+  }
+};
@@ -0,0 +1,251 @@
+/*
+ * Tests the tombstones of deleted files alone and with MultiStorageClient.
+ *
+ * To run the test type command:
+ * ./node_modules/.bin/nodeunit ./test/unit/tombstones-test.js
+ */
+
+const { NULL_LOGGER } = require('../../dist/logger');
+const { MultiStorageClient } = require('../../dist/multi-storage-client');
+const { InMemoryStorageClient } = require('../../dist/in-memory-storage-client');
+const { ReplicationQueue } = require('../../dist/replication-queue');
+const { StorageErrorCode } = require('../../dist/storage-errors');
+const { DEFAULT_MAX_CLOCK_SKEW_IN_MS, TombstoneStore } = require('../../dist/tombstones');
+
+const TEST_STORAGE_IDS = ['first', 'second', 'third'];
+const TEST_CONTAINER_NAME = 'test-container';
+const TEST_TOMBSTONE_CONTAINER_NAME = 'tombstones';
+const TEST_STORAGE_FILE_NAME_1 = 'test_1.txt';
+const TEST_STORAGE_FILE_NAME_2 = 'test_2.txt';
+const TEST_CONTENT = 'Tombstone test content';
+
+function getTestMultiStorageClient(tombstoneStore) {
+  const multiStorageClient = new MultiStorageClient();
+  multiStorageClient.setLogger(NULL_LOGGER);
+
+  TEST_STORAGE_IDS.forEach((storageId) => {
+    const storageClient = new InMemoryStorageClient();
+    storageClient.initialize(TEST_CONTAINER_NAME);
+    multiStorageClient.addStorageClient(storageId, storageClient);
+  });
+
+  multiStorageClient.setTombstoneStore(tombstoneStore);
+  return multiStorageClient;
+}
+
+function getTestTombstoneStore(options, storageClient) {
+  if (!storageClient) {
+    storageClient = new InMemoryStorageClient();
+    storageClient.initialize(TEST_CONTAINER_NAME);
+  }
+
+  return new TombstoneStore(storageClient, Object.assign({ containerOrBucketName: TEST_TOMBSTONE_CONTAINER_NAME }, options));
+}
+
+function putFile(multiStorageClient, storageIds, fileName) {
+  storageIds.forEach((storageId) => multiStorageClient.getStorageClient(storageId).putFile(fileName, TEST_CONTENT));
+}
+
+function storagesHoldingFile(multiStorageClient, fileName) {
+  return TEST_STORAGE_IDS.filter((storageId) => !!multiStorageClient.getStorageClient(storageId).getFile(fileName));
+}
+
+function readStream(stream) {
+  return new Promise((resolve, reject) => {
+    let chunks = [];
+    stream.on('data', (chunk) => chunks.push(chunk));
+    stream.on('end', () => resolve(Buffer.concat(chunks).toString()));
+    stream.on('error', reject);
+  });
+}
+
+module.exports = {
+  async addGetRemove(test) {
+    const tombstoneStore = getTestTombstoneStore();
+
+    const tombstone = await tombstoneStore.addTombstone(TEST_STORAGE_FILE_NAME_1, 'container', Date.now());
+    test.equal(tombstone.storageFilePath, TEST_STORAGE_FILE_NAME_1);
+    test.equal(tombstone.containerOrBucketName, 'container');
+    test.deepEqual(await tombstoneStore.getTombstone(TEST_STORAGE_FILE_NAME_1, 'container'), tombstone);
+    test.equal(await tombstoneStore.getTombstone(TEST_STORAGE_FILE_NAME_1), null, 'The tombstones are per container');
+    test.equal(await tombstoneStore.getTombstone(TEST_STORAGE_FILE_NAME_2, 'container'), null);
+
+    await tombstoneStore.removeTombstone(TEST_STORAGE_FILE_NAME_1, 'container');
+    test.equal(await tombstoneStore.getTombstone(TEST_STORAGE_FILE_NAME_1, 'container'), null);
+    await tombstoneStore.removeTombstone(TEST_STORAGE_FILE_NAME_1, 'container');
+    test.done();
+  },
+  async expiredTombstones(test) {
+    const tombstoneStore = getTestTombstoneStore({ retentionInMs: 60 * 1000 });
+    test.equal(tombstoneStore.getRetentionInMs(), 60 * 1000);
+
+    await tombstoneStore.addTombstone(TEST_STORAGE_FILE_NAME_1, undefined, Date.now() - 2 * 60 * 1000);
+    await tombstoneStore.addTombstone(TEST_STORAGE_FILE_NAME_2);
+    test.equal(await tombstoneStore.getTombstone(TEST_STORAGE_FILE_NAME_1), null, 'Expired tombstones are ignored');
+    test.notEqual(await tombstoneStore.getTombstone(TEST_STORAGE_FILE_NAME_2), null);
+    test.deepEqual((await tombstoneStore.listTombstones()).map(tombstone => tombstone.storageFilePath), [TEST_STORAGE_FILE_NAME_2]);
+
+    test.equal(await tombstoneStore.purgeExpiredTombstones(), 1);
+    test.equal(await tombstoneStore.purgeExpiredTombstones(), 0);
+    test.equal((await tombstoneStore.listTombstones()).length, 1);
+    test.done();
+  },
+  async partialDeleteIsNotResurrected(test) {
+    const tombstoneStore = getTestTombstoneStore();
+    const multiStorageClient = getTestMultiStorageClient(tombstoneStore);
+    putFile(multiStorageClient, TEST_STORAGE_IDS, TEST_STORAGE_FILE_NAME_1);
+    multiStorageClient.getStorageClient('second').injectError('deleteFiles', new Error('Injected delete error'), 1);
+
+    try {
+      await multiStorageClient.deleteFile(TEST_STORAGE_FILE_NAME_1);
+      test.ok(false, 'The delete should have failed');
+    } catch (error) {
+      test.deepEqual(storagesHoldingFile(multiStorageClient, TEST_STORAGE_FILE_NAME_1), ['second']);
+    }
+
+    test.notEqual(await tombstoneStore.getTombstone(TEST_STORAGE_FILE_NAME_1), null);
+
+    try {
+      await multiStorageClient.downloadFileAsStreamAndReplicateIfNecessary(TEST_STORAGE_FILE_NAME_1);
+      test.ok(false, 'The read should have failed');
+    } catch (error) {
+      test.equal(error.code, StorageErrorCode.NotFound);
+    }
+
+    test.deepEqual(storagesHoldingFile(multiStorageClient, TEST_STORAGE_FILE_NAME_1), [], 'The delete should be propagated');
+    test.done();
+  },
+  async uploadRemovesTombstone(test) {
+    const tombstoneStore = getTestTombstoneStore();
+    const multiStorageClient = getTestMultiStorageClient(tombstoneStore);
+    putFile(multiStorageClient, TEST_STORAGE_IDS, TEST_STORAGE_FILE_NAME_1);
+
+    await multiStorageClient.deleteFile(TEST_STORAGE_FILE_NAME_1);
+    test.notEqual(await tombstoneStore.getTombstone(TEST_STORAGE_FILE_NAME_1), null);
+
+    const uploadedStorageIds = await multiStorageClient.uploadBufferToStorage(
+      Buffer.from(TEST_CONTENT), TEST_STORAGE_FILE_NAME_1, ['first']);
+    test.deepEqual(Array.from(uploadedStorageIds), ['first']);
+    test.equal(await tombstoneStore.getTombstone(TEST_STORAGE_FILE_NAME_1), null);
+
+    const replicatingReadStream = await multiStorageClient.downloadFileAsStreamAndReplicateIfNecessary(TEST_STORAGE_FILE_NAME_1);
+    test.equal(await readStream(replicatingReadStream.stream), TEST_CONTENT);
+    test.equal(await replicatingReadStream.replication, null);
+    test.deepEqual(storagesHoldingFile(multiStorageClient, TEST_STORAGE_FILE_NAME_1), TEST_STORAGE_IDS);
+    test.done();
+  },
+  async fileWrittenAfterDeleteIsReplicated(test) {
+    const tombstoneStore = getTestTombstoneStore();
+    const multiStorageClient = getTestMultiStorageClient(tombstoneStore);
+    await tombstoneStore.addTombstone(TEST_STORAGE_FILE_NAME_1, undefined, Date.now() - DEFAULT_MAX_CLOCK_SKEW_IN_MS - 1000);
+    // Written by another tool, so the tombstone is not removed
+    putFile(multiStorageClient, ['first'], TEST_STORAGE_FILE_NAME_1);
+
+    const replicatingReadStream = await multiStorageClient.downloadFileAsStreamAndReplicateIfNecessary(TEST_STORAGE_FILE_NAME_1);
+    test.equal(await readStream(replicatingReadStream.stream), TEST_CONTENT);
+    test.equal(await replicatingReadStream.replication, null);
+    test.deepEqual(replicatingReadStream.targetStorageIds, ['second', 'third']);
+    test.deepEqual(storagesHoldingFile(multiStorageClient, TEST_STORAGE_FILE_NAME_1), TEST_STORAGE_IDS);
+    test.done();
+  },
+  async clockSkewIsTolerated(test) {
+    const tombstoneStore = getTestTombstoneStore();
+    const multiStorageClient = getTestMultiStorageClient(tombstoneStore);
+    test.equal(tombstoneStore.getMaxClockSkewInMs(), DEFAULT_MAX_CLOCK_SKEW_IN_MS);
+
+    // The clock of the deleting host is behind the clock of the storage
+    putFile(multiStorageClient, ['first'], TEST_STORAGE_FILE_NAME_1);
+    const tombstone = await tombstoneStore.addTombstone(TEST_STORAGE_FILE_NAME_1, undefined, Date.now() - 60 * 1000);
+    test.ok(!tombstoneStore.isWrittenAfter(tombstone, new Date()));
+    test.ok(tombstoneStore.isWrittenAfter(tombstone, new Date(tombstone.deletedTime + DEFAULT_MAX_CLOCK_SKEW_IN_MS + 1)));
+
+    try {
+      await multiStorageClient.downloadFileAsStreamAndReplicateIfNecessary(TEST_STORAGE_FILE_NAME_1);
+      test.ok(false, 'The read should have failed');
+    } catch (error) {
+      test.equal(error.code, StorageErrorCode.NotFound);
+    }
+
+    test.deepEqual(storagesHoldingFile(multiStorageClient, TEST_STORAGE_FILE_NAME_1), [], 'The copy should not be resurrected');
+
+    // Without a tolerance, the same copy counts as written after the delete
+    const strictTombstoneStore = getTestTombstoneStore({ maxClockSkewInMs: 0 });
+    test.ok(strictTombstoneStore.isWrittenAfter(tombstone, new Date()));
+    test.done();
+  },
+  async tombstoneStoreFailures(test) {
+    const tombstoneStorageClient = new InMemoryStorageClient();
+    tombstoneStorageClient.initialize(TEST_CONTAINER_NAME);
+    const tombstoneStore = getTestTombstoneStore({}, tombstoneStorageClient);
+    const multiStorageClient = getTestMultiStorageClient(tombstoneStore);
+    putFile(multiStorageClient, ['first'], TEST_STORAGE_FILE_NAME_1);
+    tombstoneStorageClient.injectError('uploadBuffer', new Error('Injected tombstone error'), 1);
+
+    try {
+      await multiStorageClient.deleteFile(TEST_STORAGE_FILE_NAME_1);
+      test.ok(false, 'The delete should have failed');
+    } catch (error) {
+      test.deepEqual(storagesHoldingFile(multiStorageClient, TEST_STORAGE_FILE_NAME_1), ['first'],
+        'Nothing should be deleted without a tombstone');
+    }
+
+    // The file is read, but not replicated, when the tombstone cannot be checked
+    tombstoneStorageClient.injectError('downloadFileAsBuffer', new Error('Injected tombstone error'), 1);
+    const replicatingReadStream = await multiStorageClient.downloadFileAsStreamAndReplicateIfNecessary(TEST_STORAGE_FILE_NAME_1);
+    test.equal(await readStream(replicatingReadStream.stream), TEST_CONTENT);
+    test.equal(await replicatingReadStream.replication, null);
+    test.deepEqual(replicatingReadStream.targetStorageIds, []);
+    test.deepEqual(storagesHoldingFile(multiStorageClient, TEST_STORAGE_FILE_NAME_1), ['first']);
+    test.done();
+  },
+  async reconcileDeletesTombstonedFiles(test) {
+    const tombstoneStore = getTestTombstoneStore();
+    const multiStorageClient = getTestMultiStorageClient(tombstoneStore);
+    putFile(multiStorageClient, ['first'], TEST_STORAGE_FILE_NAME_1);
+    putFile(multiStorageClient, ['first', 'third'], TEST_STORAGE_FILE_NAME_2);
+    await tombstoneStore.addTombstone(TEST_STORAGE_FILE_NAME_1);
+
+    const dryRunReport = await multiStorageClient.reconcile('', undefined, { copyMissingFiles: true, dryRun: true });
+    test.deepEqual(dryRunReport.deletions.map(deletion => [deletion.name, deletion.storageIds]),
+      [[TEST_STORAGE_FILE_NAME_1, ['first']]]);
+    test.deepEqual(dryRunReport.copies.map(copy => copy.name), [TEST_STORAGE_FILE_NAME_2]);
+    test.deepEqual(storagesHoldingFile(multiStorageClient, TEST_STORAGE_FILE_NAME_1), ['first']);
+
+    const report = await multiStorageClient.reconcile('', undefined, { copyMissingFiles: true });
+    test.equal(report.summary.filesDeleted, 1);
+    test.equal(report.summary.deleteFailures, 0);
+    test.equal(report.summary.filesCopied, 1);
+    test.deepEqual(report.deletions[0].errorsByStorage, {});
+    test.deepEqual(storagesHoldingFile(multiStorageClient, TEST_STORAGE_FILE_NAME_1), []);
+    test.deepEqual(storagesHoldingFile(multiStorageClient, TEST_STORAGE_FILE_NAME_2), TEST_STORAGE_IDS);
+    test.done();
+  },
+  async queueSkipsDeletedFiles(test) {
+    const tombstoneStore = getTestTombstoneStore();
+    const multiStorageClient = getTestMultiStorageClient(tombstoneStore);
+    const queue = new ReplicationQueue({ initialRetryDelayInMs: 0 });
+    multiStorageClient.setReplicationQueue(queue);
+    putFile(multiStorageClient, ['first'], TEST_STORAGE_FILE_NAME_1);
+
+    const replicatingReadStream = await multiStorageClient.downloadFileAsStreamAndReplicateIfNecessary(TEST_STORAGE_FILE_NAME_1);
+    test.equal(await readStream(replicatingReadStream.stream), TEST_CONTENT);
+    test.equal(await replicatingReadStream.replication, null);
+    test.ok(replicatingReadStream.replicationQueued);
+
+    // The delete fails in the only storage holding the file
+    multiStorageClient.getStorageClient('first').injectError('deleteFiles', new Error('Injected delete error'), 1);
+
+    try {
+      await multiStorageClient.deleteFile(TEST_STORAGE_FILE_NAME_1);
+      test.ok(false, 'The delete should have failed');
+    } catch (error) {
+      test.deepEqual(storagesHoldingFile(multiStorageClient, TEST_STORAGE_FILE_NAME_1), ['first']);
+    }
+
+    test.equal(await queue.processDueTasks(), 1);
+    test.equal(queue.getPendingTasks().length, 0);
+    test.equal(queue.getDeadLetters().length, 0);
+    test.deepEqual(storagesHoldingFile(multiStorageClient, TEST_STORAGE_FILE_NAME_1), ['first']);
+    test.done();
+  }
+};
@@ -0,0 +1,180 @@
+/*
+ * Tests the write modes of MultiStorageClient.
+ *
+ * To run the test type command:
+ * ./node_modules/.bin/nodeunit ./test/unit/write-modes-test.js
+ */
+
+const { Readable } = require('stream');
+const { InMemoryStorageClient } = require('../../dist/in-memory-storage-client');
+const { NULL_LOGGER } = require('../../dist/logger');
+const { MultiStorageClient } = require('../../dist/multi-storage-client');
+const { ReplicationQueue } = require('../../dist/replication-queue');
+const { WriteError, WriteMode, getRequiredWriteCount } = require('../../dist/write-modes');
+const { createMultiStorageClient, resolveProfile } = require('../../dist/configuration');
+const { StorageErrorCode, ThrottledError } = require('../../dist/storage-errors');
+
+const TEST_STORAGE_IDS = ['first', 'second', 'third'];
+const TEST_CONTAINER_NAME = 'test-container';
+const TEST_STORAGE_FILE_NAME_1 = 'test_1.txt';
+const TEST_CONTENT = 'Write mode test content';
+
+async function getError(promise) {
+  try {
+    await promise;
+  } catch (error) {
+    return error;
+  }
+
+  return null;
+}
+
+module.exports = {
+  /**
+   * This is called before every test.
+   *
+   * @param {*} callback
+   */
+  setUp(callback) {
+    this.multiStorageClient = new MultiStorageClient();
+    this.multiStorageClient.setLogger(NULL_LOGGER);
+
+    TEST_STORAGE_IDS.forEach((storageId) => {
+      const storageClient = new InMemoryStorageClient();
+      storageClient.initialize(TEST_CONTAINER_NAME);
+      this.multiStorageClient.addStorageClient(storageId, storageClient);
+    });
+
+    callback();
+  },
+  requiredWriteCounts(test) {
+    test.deepEqual([WriteMode.All, WriteMode.Quorum, WriteMode.Any, WriteMode.PrimaryThenAsync, WriteMode.BestEffort]
+      .map((writeMode) => getRequiredWriteCount(writeMode, 4)), [4, 3, 1, 1, 0]);
+    test.equal(getRequiredWriteCount(WriteMode.Quorum, 3), 2);
+    test.throws(() => getRequiredWriteCount('most', 3));
+    test.done();
+  },
+  async all(test) {
+    const first = this.multiStorageClient.getStorageClient('first');
+    const second = this.multiStorageClient.getStorageClient('second');
+    this.multiStorageClient.setWriteMode(WriteMode.All);
+
+    let result = await this.multiStorageClient.writeBuffer(Buffer.from(TEST_CONTENT), TEST_STORAGE_FILE_NAME_1);
+    test.deepEqual(result.storageIds, TEST_STORAGE_IDS);
+    test.deepEqual(result.pendingStorageIds, []);
+    test.equal(await result.repair, null);
+
+    second.injectError('uploadBuffer', new ThrottledError('Injected'), 1);
+    let error = await getError(this.multiStorageClient.uploadBuffer(Buffer.from(TEST_CONTENT), 'b.txt'));
+    test.ok(error instanceof WriteError);
+    test.equal(error.code, StorageErrorCode.Throttled);
+    test.deepEqual(error.result.storageIds, []);
+    test.deepEqual(error.result.rolledBackStorageIds, ['first', 'third']);
+    test.deepEqual(Object.keys(error.result.errorsByStorage), ['second']);
+    test.equal((await this.multiStorageClient.storagesContainingFile('b.txt')).size, 0);
+
+    // The storages where the rollback fails keep the file
+    second.injectError('uploadBuffer', new ThrottledError('Injected'), 1);
+    first.injectError('deleteFile', new Error('Injected'), 1);
+    error = await getError(this.multiStorageClient.uploadBuffer(Buffer.from(TEST_CONTENT), 'c.txt'));
+    test.deepEqual(error.result.storageIds, ['first']);
+    test.deepEqual(error.result.rolledBackStorageIds, ['third']);
+
+    // Overwriting the file does not roll back to no file at all
+    second.injectError('uploadBuffer', new ThrottledError('Injected'), 1);
+    error = await getError(this.multiStorageClient.uploadBuffer(Buffer.from('New content'), TEST_STORAGE_FILE_NAME_1));
+    test.ok(error instanceof WriteError);
+    test.deepEqual(error.result.storageIds, ['first', 'third']);
+    test.deepEqual(error.result.rolledBackStorageIds, []);
+    test.equal(second.getFile(TEST_STORAGE_FILE_NAME_1).data.toString(), TEST_CONTENT);
+    test.equal((await this.multiStorageClient.storagesContainingFile(TEST_STORAGE_FILE_NAME_1)).size, 3);
+    test.done();
+  },
+  async quorum(test) {
+    const third = this.multiStorageClient.getStorageClient('third');
+    this.multiStorageClient.setWriteMode(WriteMode.Quorum);
+
+    third.injectError('uploadBuffer', new Error('Injected'), 1);
+    const storageIds = await this.multiStorageClient.uploadBufferToStorage(Buffer.from(TEST_CONTENT), TEST_STORAGE_FILE_NAME_1);
+    test.deepEqual(Array.from(storageIds), ['first', 'second']);
+
+    third.injectError('uploadBuffer', new Error('Injected'), 1);
+    const result = await this.multiStorageClient.writeBuffer(Buffer.from(TEST_CONTENT), 'b.txt', undefined, undefined, 'text/plain');
+    test.deepEqual(result.pendingStorageIds, ['third']);
+    test.ok(!result.repairQueued);
+    test.equal(await result.repair, null);
+    test.equal(third.getFile('b.txt').data.toString(), TEST_CONTENT);
+    test.equal(third.getFile('b.txt').contentType, 'text/plain', 'The metadata is repaired too');
+
+    this.multiStorageClient.getStorageClient('second').injectError('uploadBuffer', new Error('Injected'), 1);
+    third.injectError('uploadBuffer', new Error('Injected'), 1);
+    const error = await getError(this.multiStorageClient.writeBuffer(Buffer.from(TEST_CONTENT), 'c.txt'));
+    test.ok(error instanceof WriteError);
+    test.deepEqual(error.result.rolledBackStorageIds, ['first']);
+    test.done();
+  },
+  async anyWithReplicationQueue(test) {
+    const queue = new ReplicationQueue();
+    this.multiStorageClient.setReplicationQueue(queue);
+    TEST_STORAGE_IDS.slice(1).forEach((storageId) =>
+      this.multiStorageClient.getStorageClient(storageId).injectError('uploadBuffer', new Error('Injected'), 1));
+
+    const result = await this.multiStorageClient.writeBuffer(Buffer.from(TEST_CONTENT), TEST_STORAGE_FILE_NAME_1,
+      undefined, undefined, undefined, WriteMode.Any);
+    test.deepEqual(result.storageIds, ['first']);
+    test.deepEqual(result.pendingStorageIds, ['second', 'third']);
+    test.ok(result.repairQueued);
+    test.equal(await result.repair, null);
+    test.deepEqual(queue.getPendingTasks().map((task) => [task.storageFilePath, task.sourceStorageId, task.targetStorageIds]),
+      [[TEST_STORAGE_FILE_NAME_1, 'first', ['second', 'third']]]);
+
+    await queue.processDueTasks();
+    test.deepEqual(Array.from(await this.multiStorageClient.storagesContainingFile(TEST_STORAGE_FILE_NAME_1)), TEST_STORAGE_IDS);
+
+    TEST_STORAGE_IDS.forEach((storageId) =>
+      this.multiStorageClient.getStorageClient(storageId).injectError('uploadBuffer', new Error('Injected'), 1));
+    test.ok(await getError(this.multiStorageClient.writeBuffer(Buffer.from(TEST_CONTENT), 'b.txt',
+      undefined, undefined, undefined, WriteMode.Any)) instanceof WriteError);
+    test.done();
+  },
+  async primaryThenAsync(test) {
+    this.multiStorageClient.setWriteMode(WriteMode.PrimaryThenAsync);
+    const result = await this.multiStorageClient.writeStream(Readable.from([Buffer.from(TEST_CONTENT)]), TEST_STORAGE_FILE_NAME_1,
+      ['second', 'first', 'third']);
+    test.deepEqual(result.storageIds, ['second']);
+    test.deepEqual(result.pendingStorageIds, ['first', 'third']);
+    test.equal(await result.repair, null);
+    test.deepEqual(Array.from(await this.multiStorageClient.storagesContainingFile(TEST_STORAGE_FILE_NAME_1)), TEST_STORAGE_IDS);
+
+    this.multiStorageClient.getStorageClient('first').injectError('uploadStream', new Error('Injected'), 1);
+    const error = await getError(this.multiStorageClient.uploadStream(Readable.from([Buffer.from(TEST_CONTENT)]), 'b.txt'));
+    test.ok(error instanceof WriteError);
+    test.deepEqual(error.result.pendingStorageIds, [], 'Nothing is copied from a failed primary');
+    test.equal((await this.multiStorageClient.storagesContainingFile('b.txt')).size, 0);
+    test.done();
+  },
+  async bestEffort(test) {
+    test.equal(this.multiStorageClient.getWriteMode(), WriteMode.BestEffort);
+    this.multiStorageClient.getStorageClient('second').injectError('uploadBuffer', new Error('Injected'), 1);
+
+    const result = await this.multiStorageClient.writeBuffer(Buffer.from(TEST_CONTENT), TEST_STORAGE_FILE_NAME_1);
+    test.deepEqual(result.storageIds, ['first', 'third']);
+    test.deepEqual(result.pendingStorageIds, [], 'Nothing is repaired');
+    test.equal(result.errorsByStorage.second.message, 'Injected');
+
+    test.ok(await getError(this.multiStorageClient.uploadFile('/nonexistent/file', TEST_STORAGE_FILE_NAME_1)) === null,
+      'The failures are only logged');
+    test.done();
+  },
+  async configuration(test) {
+    const storages = [{ id: 'first', type: 'in-memory' }, { id: 'second', type: 'in-memory' }];
+    const profile = await resolveProfile({ profiles: { default: { writeMode: 'quorum', storages: storages } } }, undefined, {});
+    test.equal(createMultiStorageClient(profile).getWriteMode(), WriteMode.Quorum);
+
+    const error = await getError(resolveProfile({ profiles: { default: { writeMode: 'most', storages: storages } } }, undefined, {}));
+    test.deepEqual(error.problems, [
+      'profiles.default.writeMode: unknown write mode "most", the write modes are: all, quorum, any, primary-then-async, best-effort'
+    ]);
+    test.done();
+  }
+};